@@ -7,4 +7,13 @@ export {
   listToolsByNetwork,
   type PermittedTools,
 } from '@lit-protocol/aw-tool-registry';
-export type { AwTool } from '@lit-protocol/aw-tool';
+export {
+  describeTransactionStatus,
+  GasFeeCeilingSchema,
+  MAX_FEE_PER_GAS_GWEI_POLICY_PARAMETER,
+  MAX_TOTAL_GAS_COST_WEI_POLICY_PARAMETER,
+  type AwTool,
+  type GasFeeCeiling,
+  type TransactionStatus,
+  type WaitForTransactionOptions,
+} from '@lit-protocol/aw-tool';
@@ -2,3 +2,21 @@ export * from './lib/pkp-tool-registry-contract';
 export * from './lib/human-readable-abi';
 export * from './lib/get-registered-tools-and-delegatees';
 export * from './lib/get-permitted-tools-for-delegatee';
+export * from './lib/deploy-pkp-tool-registry';
+export * from './lib/seed-pkp-tool-registry';
+export * from './lib/registry-event-indexer';
+export type {
+  ContractArtifact,
+  DeployPkpToolRegistryOptions,
+  IndexRegistryAuditLogOptions,
+  PkpFixture,
+  PkpToolRegistryArtifacts,
+  PkpToolRegistryContractName,
+  PkpToolRegistryDeployment,
+  PkpToolRegistryFacetName,
+  RegistryAuditEventName,
+  RegistryAuditLogEntry,
+  RegistryAuditLogStorage,
+  ToolDelegateeFixture,
+  ToolFixture,
+} from './lib/types';
@@ -0,0 +1,158 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { ethers } from 'ethers';
+
+import { PKP_TOOL_REGISTRY_FACET_FUNCTIONS } from './deploy-pkp-tool-registry';
+import { PKP_TOOL_REGISTRY_ABI } from './human-readable-abi';
+import type { PkpToolRegistryFacetName } from './types';
+
+const CONTRACTS_DIR = join(__dirname, '../../../aw-contracts');
+const CONTRACTS_SOURCE_DIR = join(CONTRACTS_DIR, 'src');
+
+const facetNames = Object.keys(
+  PKP_TOOL_REGISTRY_FACET_FUNCTIONS
+) as PkpToolRegistryFacetName[];
+
+/**
+ * Parses the functions routed to a facet by `DeployPKPToolRegistry.s.sol`,
+ * from its `get<Facet>Selectors` function, e.g. `getPolicyFacetSelectors` for `PKPToolRegistryPolicyFacet`.
+ */
+const getDeployScriptFunctions = (
+  deployScript: string,
+  facetName: PkpToolRegistryFacetName
+): string[] => {
+  const getter = `get${facetName.replace(/^PKPToolRegistry/, '')}Selectors`;
+  const body = deployScript.match(
+    new RegExp(`function ${getter}\\(\\)[^{]*\\{([^}]*)\\}`)
+  );
+  if (body === null) {
+    throw new Error(`${getter} not found in DeployPKPToolRegistry.s.sol`);
+  }
+
+  return [...body[1].matchAll(/\.(\w+)\.selector/g)].map(
+    ([, functionName]) => functionName
+  );
+};
+
+const findContractSource = (
+  contractName: string,
+  dir = CONTRACTS_SOURCE_DIR
+): string | undefined => {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      const source = findContractSource(contractName, path);
+      if (source !== undefined) {
+        return source;
+      }
+    } else if (entry.name === `${contractName}.sol`) {
+      return readFileSync(path, 'utf8');
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Parses the canonical signatures of the external and public functions a contract declares or inherits,
+ * e.g. `registerTools(uint256,string[],bool)`, from its Solidity sources.
+ * The registry's functions only take elementary types, so the signatures are the types without data locations or names.
+ */
+const getSourceFunctionSignatures = (
+  contractName: string
+): Map<string, string> => {
+  const source = findContractSource(contractName);
+  if (source === undefined) {
+    throw new Error(`${contractName}.sol not found in packages/aw-contracts`);
+  }
+
+  const signatures = new Map<string, string>();
+  const inherited = source.match(
+    new RegExp(`contract ${contractName} is ([\\w\\s,]+)\\{`)
+  );
+  for (const parentName of inherited?.[1].split(',') ?? []) {
+    getSourceFunctionSignatures(parentName.trim()).forEach(
+      (signature, functionName) => signatures.set(functionName, signature)
+    );
+  }
+
+  for (const [, functionName, params, modifiers] of source.matchAll(
+    /function\s+(\w+)\s*\(([^)]*)\)([^{;]*)/g
+  )) {
+    if (!/\b(external|public)\b/.test(modifiers)) {
+      continue;
+    }
+    const types = params
+      .split(',')
+      .map((param) => param.trim().split(/\s+/)[0])
+      .filter((type) => type !== '');
+    signatures.set(functionName, `${functionName}(${types.join(',')})`);
+  }
+
+  return signatures;
+};
+
+describe('PKP_TOOL_REGISTRY_FACET_FUNCTIONS', () => {
+  const registryInterface = new ethers.utils.Interface(PKP_TOOL_REGISTRY_ABI);
+  const registryFunctionNames = Object.values(registryInterface.functions).map(
+    (fragment) => fragment.name
+  );
+
+  it('should route the same functions as DeployPKPToolRegistry.s.sol', () => {
+    const deployScript = readFileSync(
+      join(CONTRACTS_DIR, 'script/DeployPKPToolRegistry.s.sol'),
+      'utf8'
+    );
+
+    for (const facetName of facetNames) {
+      expect({
+        facetName,
+        functionNames: getDeployScriptFunctions(deployScript, facetName),
+      }).toEqual({
+        facetName,
+        functionNames: PKP_TOOL_REGISTRY_FACET_FUNCTIONS[facetName],
+      });
+    }
+  });
+
+  it('should route every function of the registry ABI to a single facet', () => {
+    for (const functionName of registryFunctionNames) {
+      expect({
+        functionName,
+        facetNames: facetNames.filter((facetName) =>
+          PKP_TOOL_REGISTRY_FACET_FUNCTIONS[facetName].includes(functionName)
+        ),
+      }).toEqual({ functionName, facetNames: [expect.any(String)] });
+    }
+  });
+
+  it('should route functions of the facet sources, with the selectors of the registry ABI', () => {
+    for (const facetName of facetNames) {
+      const signatures = getSourceFunctionSignatures(facetName);
+
+      for (const functionName of PKP_TOOL_REGISTRY_FACET_FUNCTIONS[facetName]) {
+        const signature = signatures.get(functionName);
+        expect({
+          facetName,
+          functionName,
+          declared: signature !== undefined,
+        }).toEqual({
+          facetName,
+          functionName,
+          declared: true,
+        });
+        if (
+          signature !== undefined &&
+          registryFunctionNames.includes(functionName)
+        ) {
+          expect({
+            signature,
+            selector: ethers.utils.id(signature).slice(0, 10),
+          }).toEqual({
+            signature,
+            selector: registryInterface.getSighash(functionName),
+          });
+        }
+      }
+    }
+  });
+});
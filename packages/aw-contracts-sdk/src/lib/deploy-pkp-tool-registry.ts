@@ -0,0 +1,179 @@
+import { ethers } from 'ethers';
+
+import type {
+  ContractArtifact,
+  DeployPkpToolRegistryOptions,
+  PkpToolRegistryDeployment,
+  PkpToolRegistryFacetName,
+} from './types';
+
+/**
+ * The functions routed to each facet, matching `DeployPKPToolRegistry.s.sol`.
+ * `getPKPNFTContract` is inherited by every facet, but only routed to the tool facet.
+ */
+export const PKP_TOOL_REGISTRY_FACET_FUNCTIONS: Record<
+  PkpToolRegistryFacetName,
+  string[]
+> = {
+  DiamondLoupeFacet: [
+    'facets',
+    'facetFunctionSelectors',
+    'facetAddresses',
+    'facetAddress',
+    'supportsInterface',
+  ],
+  OwnershipFacet: ['owner', 'transferOwnership'],
+  PKPToolRegistryPolicyFacet: [
+    'getToolPoliciesForDelegatees',
+    'setToolPoliciesForDelegatees',
+    'removeToolPoliciesForDelegatees',
+    'enableToolPoliciesForDelegatees',
+    'disableToolPoliciesForDelegatees',
+  ],
+  PKPToolRegistryToolFacet: [
+    'isToolRegistered',
+    'isToolPermittedForDelegatee',
+    'getRegisteredTools',
+    'getAllRegisteredTools',
+    'getRegisteredToolsAndDelegatees',
+    'getAllRegisteredToolsAndDelegatees',
+    'getToolsWithPolicy',
+    'getToolsWithoutPolicy',
+    'registerTools',
+    'removeTools',
+    'enableTools',
+    'disableTools',
+    'getPKPNFTContract',
+    'permitToolsForDelegatees',
+    'unpermitToolsForDelegatees',
+    'getPermittedToolsForDelegatee',
+  ],
+  PKPToolRegistryDelegateeFacet: [
+    'getDelegatees',
+    'isPkpDelegatee',
+    'getDelegatedPkps',
+    'addDelegatees',
+    'removeDelegatees',
+  ],
+  PKPToolRegistryPolicyParameterFacet: [
+    'getToolPolicyParameters',
+    'getAllToolPolicyParameters',
+    'setToolPolicyParametersForDelegatee',
+    'removeToolPolicyParametersForDelegatee',
+    'updateToolPolicyParametersForDelegatee',
+  ],
+  PKPToolRegistrySpendingLimitFacet: [
+    'getSpentAmount',
+    'recordSpend',
+    'refundSpend',
+  ],
+  PKPToolRegistryBlanketPolicyFacet: [
+    'getBlanketToolPolicies',
+    'setBlanketToolPolicies',
+    'removeBlanketToolPolicies',
+    'enableBlanketToolPolicies',
+    'disableBlanketToolPolicies',
+    'getBlanketToolPolicyParameters',
+    'getAllBlanketToolPolicyParameters',
+    'setBlanketToolPolicyParameters',
+    'removeBlanketToolPolicyParameters',
+  ],
+};
+
+const DIAMOND_CUT_ABI = [
+  'function diamondCut(tuple(address facetAddress, uint8 action, bytes4[] functionSelectors)[] _diamondCut, address _init, bytes _calldata) external',
+];
+
+const FACET_CUT_ACTION_ADD = 0;
+
+const deployContract = async (
+  { abi, bytecode }: ContractArtifact,
+  signer: ethers.Signer,
+  ...args: unknown[]
+): Promise<ethers.Contract> => {
+  const contract = await new ethers.ContractFactory(
+    abi,
+    bytecode,
+    signer
+  ).deploy(...args);
+  await contract.deployed();
+  return contract;
+};
+
+/**
+ * Deploys the PKP Tool Registry diamond, like `DeployPKPToolRegistry.s.sol` does,
+ * e.g. to a local Anvil chain for integration tests.
+ * The facets and `PKPToolRegistryInit` are deployed, then added to the diamond in a single diamond cut.
+ * @param provider - The provider of the chain to deploy to.
+ * @param options - The compiled contracts, the deployer, and optionally an existing PKP NFT contract.
+ * @returns The deployment, including the registry config to pass to the SDK.
+ */
+export const deployPkpToolRegistry = async (
+  provider: ethers.providers.JsonRpcProvider,
+  {
+    artifacts,
+    signer = provider.getSigner(),
+    pkpNftAddress,
+  }: DeployPkpToolRegistryOptions
+): Promise<PkpToolRegistryDeployment> => {
+  const isMockPkpNft = pkpNftAddress === undefined;
+  const pkpNft = isMockPkpNft
+    ? (await deployContract(artifacts.MockPKPNFT, signer)).address
+    : pkpNftAddress;
+
+  const diamondCutFacet = await deployContract(
+    artifacts.DiamondCutFacet,
+    signer
+  );
+
+  // Deployed one at a time, so the signer's nonces stay in order
+  const facetAddresses = {} as Record<PkpToolRegistryFacetName, string>;
+  const cut = [];
+  for (const [facetName, functionNames] of Object.entries(
+    PKP_TOOL_REGISTRY_FACET_FUNCTIONS
+  ) as [PkpToolRegistryFacetName, string[]][]) {
+    const facet = await deployContract(artifacts[facetName], signer);
+    facetAddresses[facetName] = facet.address;
+    cut.push({
+      facetAddress: facet.address,
+      action: FACET_CUT_ACTION_ADD,
+      functionSelectors: functionNames.map((functionName) =>
+        facet.interface.getSighash(functionName)
+      ),
+    });
+  }
+
+  const init = await deployContract(artifacts.PKPToolRegistryInit, signer);
+  const diamond = await deployContract(
+    artifacts.PKPToolRegistry,
+    signer,
+    await signer.getAddress(),
+    diamondCutFacet.address,
+    pkpNft
+  );
+
+  const tx = await new ethers.Contract(
+    diamond.address,
+    DIAMOND_CUT_ABI,
+    signer
+  ).diamondCut(
+    cut,
+    init.address,
+    init.interface.encodeFunctionData('init', [pkpNft])
+  );
+  await tx.wait();
+
+  return {
+    toolRegistryConfig: {
+      rpcUrl: provider.connection.url,
+      contractAddress: diamond.address,
+    },
+    pkpNftAddress: pkpNft,
+    isMockPkpNft,
+    facetAddresses: {
+      ...facetAddresses,
+      DiamondCutFacet: diamondCutFacet.address,
+      PKPToolRegistryInit: init.address,
+    },
+  };
+};
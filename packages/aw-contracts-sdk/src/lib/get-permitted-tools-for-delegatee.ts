@@ -91,6 +91,7 @@ const processKnownTool = (
     chain: registryTool.tool.chain,
     parameters: registryTool.tool.parameters,
     policy: registryTool.tool.policy,
+    result: registryTool.tool.result,
     network: registryTool.network,
     toolEnabled: toolInfo.toolEnabled,
     delegatee: toolInfo.delegatee,
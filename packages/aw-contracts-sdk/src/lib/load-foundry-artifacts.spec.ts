@@ -0,0 +1,63 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { loadFoundryArtifacts } from './load-foundry-artifacts';
+
+describe('loadFoundryArtifacts', () => {
+  let outDir: string;
+
+  const writeArtifact = (sourceFile: string, contractName: string) => {
+    mkdirSync(join(outDir, sourceFile), { recursive: true });
+    writeFileSync(
+      join(outDir, sourceFile, `${contractName}.json`),
+      JSON.stringify({
+        abi: [`function ${contractName}()`],
+        bytecode: { object: `0x${contractName.length.toString(16)}` },
+        deployedBytecode: { object: '0x' },
+      })
+    );
+  };
+
+  beforeEach(() => {
+    outDir = mkdtempSync(join(tmpdir(), 'aw-contracts-out-'));
+  });
+
+  afterEach(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('should load the ABI and bytecode of each contract from its source directory', () => {
+    const contractNames = [
+      'DiamondCutFacet',
+      'DiamondLoupeFacet',
+      'OwnershipFacet',
+      'PKPToolRegistryPolicyFacet',
+      'PKPToolRegistryToolFacet',
+      'PKPToolRegistryDelegateeFacet',
+      'PKPToolRegistryPolicyParameterFacet',
+      'PKPToolRegistrySpendingLimitFacet',
+      'PKPToolRegistryBlanketPolicyFacet',
+      'PKPToolRegistryInit',
+      'PKPToolRegistry',
+      'MockPKPNFT',
+    ];
+    contractNames.forEach((contractName) =>
+      writeArtifact(`${contractName}.sol`, contractName)
+    );
+
+    const artifacts = loadFoundryArtifacts(outDir);
+
+    expect(Object.keys(artifacts).sort()).toEqual([...contractNames].sort());
+    expect(artifacts.PKPToolRegistry).toEqual({
+      abi: ['function PKPToolRegistry()'],
+      bytecode: '0xf',
+    });
+  });
+
+  it('should throw when a contract has not been compiled', () => {
+    writeArtifact('PKPToolRegistry.sol', 'PKPToolRegistry');
+
+    expect(() => loadFoundryArtifacts(outDir)).toThrow(/DiamondCutFacet\.json/);
+  });
+});
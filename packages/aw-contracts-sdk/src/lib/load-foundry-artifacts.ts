@@ -0,0 +1,52 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import type {
+  PkpToolRegistryArtifacts,
+  PkpToolRegistryContractName,
+} from './types';
+
+/**
+ * The Solidity source files of the contracts, which Foundry names the artifact directories after.
+ */
+const CONTRACT_SOURCE_FILES: Record<PkpToolRegistryContractName, string> = {
+  DiamondCutFacet: 'DiamondCutFacet.sol',
+  DiamondLoupeFacet: 'DiamondLoupeFacet.sol',
+  OwnershipFacet: 'OwnershipFacet.sol',
+  PKPToolRegistryPolicyFacet: 'PKPToolRegistryPolicyFacet.sol',
+  PKPToolRegistryToolFacet: 'PKPToolRegistryToolFacet.sol',
+  PKPToolRegistryDelegateeFacet: 'PKPToolRegistryDelegateeFacet.sol',
+  PKPToolRegistryPolicyParameterFacet:
+    'PKPToolRegistryPolicyParameterFacet.sol',
+  PKPToolRegistrySpendingLimitFacet: 'PKPToolRegistrySpendingLimitFacet.sol',
+  PKPToolRegistryBlanketPolicyFacet: 'PKPToolRegistryBlanketPolicyFacet.sol',
+  PKPToolRegistryInit: 'PKPToolRegistryInit.sol',
+  PKPToolRegistry: 'PKPToolRegistry.sol',
+  MockPKPNFT: 'MockPKPNFT.sol',
+};
+
+/**
+ * Loads the compiled contracts of the PKP Tool Registry from Foundry's output directory.
+ * Run `forge build` in `packages/aw-contracts` first, so the test mocks are compiled along with the registry.
+ * @param outDir - The Foundry output directory, e.g. `packages/aw-contracts/out`.
+ * @returns The ABI and bytecode of each contract.
+ */
+export const loadFoundryArtifacts = (
+  outDir: string
+): PkpToolRegistryArtifacts => {
+  const artifacts = {} as PkpToolRegistryArtifacts;
+
+  for (const [contractName, sourceFile] of Object.entries(
+    CONTRACT_SOURCE_FILES
+  ) as [PkpToolRegistryContractName, string][]) {
+    const artifact = JSON.parse(
+      readFileSync(join(outDir, sourceFile, `${contractName}.json`), 'utf8')
+    );
+    artifacts[contractName] = {
+      abi: artifact.abi,
+      bytecode: artifact.bytecode.object,
+    };
+  }
+
+  return artifacts;
+};
@@ -0,0 +1,340 @@
+import { ethers } from 'ethers';
+
+import { PKP_TOOL_REGISTRY_ABI } from './human-readable-abi';
+import { indexRegistryAuditLog } from './registry-event-indexer';
+import type { RegistryAuditLogStorage } from './types';
+
+const REGISTRY_ADDRESS = '0x2707eabb60D262024F8738455811a338B0ECd3EC';
+const PKP_TOKEN_ID = '42';
+const OWNER = '0x1000000000000000000000000000000000000001';
+const DELEGATEE = '0x2000000000000000000000000000000000000002';
+const OTHER_DELEGATEE = '0x3000000000000000000000000000000000000003';
+
+const registryInterface = new ethers.utils.Interface(PKP_TOOL_REGISTRY_ABI);
+
+const getTransactionHash = (blockNumber: number) =>
+  ethers.utils.hexZeroPad(ethers.utils.hexValue(blockNumber), 32);
+
+/**
+ * Creates a registry log for the PKP, emitted by the only transaction of its block.
+ */
+const createLog = (
+  blockNumber: number,
+  eventName: string,
+  args: unknown[],
+  logIndex = 0
+): ethers.providers.Log => ({
+  ...registryInterface.encodeEventLog(registryInterface.getEvent(eventName), [
+    PKP_TOKEN_ID,
+    ...args,
+  ]),
+  address: REGISTRY_ADDRESS,
+  blockNumber,
+  blockHash: getTransactionHash(blockNumber),
+  transactionHash: getTransactionHash(blockNumber),
+  transactionIndex: 0,
+  logIndex,
+  removed: false,
+});
+
+const createProvider = (logs: ethers.providers.Log[], latestBlock = 100) => ({
+  getBlockNumber: jest.fn(async () => latestBlock),
+  getLogs: jest.fn(
+    async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+      logs.filter(
+        (log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock
+      )
+  ),
+  getBlock: jest.fn(async (blockNumber: number) => ({
+    timestamp: 1_700_000_000 + blockNumber * 12,
+  })),
+  getTransaction: jest.fn(async () => ({ from: OWNER })),
+});
+
+const createRegistryContract = (provider: ReturnType<typeof createProvider>) =>
+  ({ address: REGISTRY_ADDRESS, provider } as unknown as ethers.Contract);
+
+const createStorage = (): RegistryAuditLogStorage & {
+  items: Map<string, string>;
+} => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+describe('indexRegistryAuditLog', () => {
+  it('should record an entry per tool, delegatee and parameter of each event', async () => {
+    const encodedLimit = ethers.utils.defaultAbiCoder.encode(['uint256'], [1]);
+    const provider = createProvider([
+      createLog(1, 'ToolsRegistered', [true, ['QmTool1', 'QmTool2']]),
+      createLog(2, 'AddedDelegatees', [[DELEGATEE, OTHER_DELEGATEE]]),
+      createLog(3, 'ToolsPermitted', [['QmTool1'], [DELEGATEE]]),
+      createLog(
+        3,
+        'ToolPoliciesSet',
+        [['QmTool1'], [DELEGATEE], ['QmPolicy1'], true],
+        1
+      ),
+      createLog(4, 'PolicyParametersSet', [
+        'QmTool1',
+        DELEGATEE,
+        ['maxAmount'],
+        [encodedLimit],
+      ]),
+      createLog(5, 'BlanketPoliciesSet', [['QmTool2'], ['QmPolicy2'], false]),
+    ]);
+
+    const entries = await indexRegistryAuditLog(
+      createRegistryContract(provider),
+      PKP_TOKEN_ID,
+      createStorage(),
+      { toBlock: 5 }
+    );
+
+    const base = (blockNumber: number, logIndex = 0) => ({
+      pkpTokenId: PKP_TOKEN_ID,
+      blockNumber,
+      transactionHash: getTransactionHash(blockNumber),
+      logIndex,
+      timestamp: 1_700_000_000 + blockNumber * 12,
+      sender: OWNER,
+    });
+    expect(entries).toEqual([
+      {
+        ...base(1),
+        event: 'ToolsRegistered',
+        toolIpfsCid: 'QmTool1',
+        enabled: true,
+      },
+      {
+        ...base(1),
+        event: 'ToolsRegistered',
+        toolIpfsCid: 'QmTool2',
+        enabled: true,
+      },
+      { ...base(2), event: 'AddedDelegatees', delegatee: DELEGATEE },
+      { ...base(2), event: 'AddedDelegatees', delegatee: OTHER_DELEGATEE },
+      {
+        ...base(3),
+        event: 'ToolsPermitted',
+        toolIpfsCid: 'QmTool1',
+        delegatee: DELEGATEE,
+      },
+      {
+        ...base(3, 1),
+        event: 'ToolPoliciesSet',
+        toolIpfsCid: 'QmTool1',
+        delegatee: DELEGATEE,
+        enabled: true,
+        previousValue: null,
+        value: 'QmPolicy1',
+      },
+      {
+        ...base(4),
+        event: 'PolicyParametersSet',
+        toolIpfsCid: 'QmTool1',
+        delegatee: DELEGATEE,
+        parameterName: 'maxAmount',
+        previousValue: null,
+        value: encodedLimit,
+      },
+      {
+        ...base(5),
+        event: 'BlanketPoliciesSet',
+        toolIpfsCid: 'QmTool2',
+        enabled: false,
+        previousValue: null,
+        value: 'QmPolicy2',
+      },
+    ]);
+
+    // Blocks and transactions are only fetched once
+    expect(provider.getBlock).toHaveBeenCalledTimes(5);
+    expect(provider.getTransaction).toHaveBeenCalledTimes(5);
+  });
+
+  it('should fill in the previous values of changed and removed policies and parameters', async () => {
+    const [firstValue, secondValue] = [1, 2].map((value) =>
+      ethers.utils.defaultAbiCoder.encode(['uint256'], [value])
+    );
+    const provider = createProvider([
+      createLog(1, 'ToolPoliciesSet', [['QmTool'], [DELEGATEE], ['QmA'], true]),
+      createLog(2, 'ToolPoliciesSet', [['QmTool'], [DELEGATEE], ['QmB'], true]),
+      createLog(3, 'BlanketPolicyParametersSet', [
+        'QmTool',
+        ['maxAmount'],
+        [firstValue],
+      ]),
+      createLog(4, 'BlanketPolicyParametersSet', [
+        'QmTool',
+        ['maxAmount'],
+        [secondValue],
+      ]),
+      createLog(5, 'BlanketPolicyParametersRemoved', ['QmTool', ['maxAmount']]),
+      // Removing the delegatee removes its policies
+      createLog(6, 'RemovedDelegatees', [[DELEGATEE]]),
+      createLog(7, 'ToolPoliciesSet', [['QmTool'], [DELEGATEE], ['QmC'], true]),
+    ]);
+
+    const entries = await indexRegistryAuditLog(
+      createRegistryContract(provider),
+      PKP_TOKEN_ID,
+      createStorage(),
+      { toBlock: 7 }
+    );
+
+    expect(
+      entries.map(({ event, previousValue, value }) => ({
+        event,
+        previousValue,
+        value,
+      }))
+    ).toEqual([
+      { event: 'ToolPoliciesSet', previousValue: null, value: 'QmA' },
+      { event: 'ToolPoliciesSet', previousValue: 'QmA', value: 'QmB' },
+      {
+        event: 'BlanketPolicyParametersSet',
+        previousValue: null,
+        value: firstValue,
+      },
+      {
+        event: 'BlanketPolicyParametersSet',
+        previousValue: firstValue,
+        value: secondValue,
+      },
+      {
+        event: 'BlanketPolicyParametersRemoved',
+        previousValue: secondValue,
+        value: null,
+      },
+      {
+        event: 'RemovedDelegatees',
+        previousValue: undefined,
+        value: undefined,
+      },
+      { event: 'ToolPoliciesSet', previousValue: null, value: 'QmC' },
+    ]);
+  });
+
+  it('should request the logs of the PKP in block ranges', async () => {
+    const provider = createProvider([], 30);
+
+    await indexRegistryAuditLog(
+      createRegistryContract(provider),
+      PKP_TOKEN_ID,
+      createStorage(),
+      { fromBlock: 5, blockRange: 10 }
+    );
+
+    expect(
+      provider.getLogs.mock.calls.map(([filter]) => [
+        filter.fromBlock,
+        filter.toBlock,
+      ])
+    ).toEqual([
+      [5, 14],
+      [15, 24],
+      [25, 30],
+    ]);
+    expect(provider.getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: REGISTRY_ADDRESS,
+        topics: [
+          expect.arrayContaining([
+            registryInterface.getEventTopic('ToolsRegistered'),
+            registryInterface.getEventTopic('BlanketPolicyParametersRemoved'),
+          ]),
+          ethers.utils.hexZeroPad(ethers.utils.hexValue(42), 32),
+        ],
+      })
+    );
+  });
+
+  it('should resume from the checkpoint of the previous run', async () => {
+    const logs = [
+      createLog(3, 'ToolPoliciesSet', [['QmTool'], [DELEGATEE], ['QmA'], true]),
+    ];
+    const provider = createProvider(logs);
+    const storage = createStorage();
+
+    await indexRegistryAuditLog(
+      createRegistryContract(provider),
+      PKP_TOKEN_ID,
+      storage,
+      { toBlock: 10 }
+    );
+
+    logs.push(
+      createLog(12, 'ToolPoliciesSet', [['QmTool'], [DELEGATEE], ['QmB'], true])
+    );
+    provider.getLogs.mockClear();
+
+    const entries = await indexRegistryAuditLog(
+      createRegistryContract(provider),
+      PKP_TOKEN_ID,
+      storage,
+      // Ignored, as a checkpoint exists
+      { fromBlock: 0, toBlock: 20 }
+    );
+
+    expect(provider.getLogs).toHaveBeenCalledTimes(1);
+    expect(provider.getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: 11, toBlock: 20 })
+    );
+    expect(
+      entries.map(({ blockNumber, previousValue, value }) => ({
+        blockNumber,
+        previousValue,
+        value,
+      }))
+    ).toEqual([
+      { blockNumber: 3, previousValue: null, value: 'QmA' },
+      { blockNumber: 12, previousValue: 'QmA', value: 'QmB' },
+    ]);
+  });
+
+  it('should resume after the last indexed block range of an interrupted run', async () => {
+    const provider = createProvider([
+      createLog(3, 'ToolsRegistered', [true, ['QmTool1']]),
+      createLog(13, 'ToolsRegistered', [true, ['QmTool2']]),
+    ]);
+    const storage = createStorage();
+    // The second block range fails
+    provider.getLogs
+      .mockResolvedValueOnce([
+        createLog(3, 'ToolsRegistered', [true, ['QmTool1']]),
+      ])
+      .mockRejectedValueOnce(new Error('Request timed out'));
+
+    await expect(
+      indexRegistryAuditLog(
+        createRegistryContract(provider),
+        PKP_TOKEN_ID,
+        storage,
+        { toBlock: 19, blockRange: 10 }
+      )
+    ).rejects.toThrow('Request timed out');
+    provider.getLogs.mockClear();
+
+    const entries = await indexRegistryAuditLog(
+      createRegistryContract(provider),
+      PKP_TOKEN_ID,
+      storage,
+      { toBlock: 19, blockRange: 10 }
+    );
+
+    expect(provider.getLogs).toHaveBeenCalledTimes(1);
+    expect(provider.getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: 10, toBlock: 19 })
+    );
+    expect(entries.map(({ toolIpfsCid }) => toolIpfsCid)).toEqual([
+      'QmTool1',
+      'QmTool2',
+    ]);
+  });
+});
@@ -0,0 +1,357 @@
+import { ethers } from 'ethers';
+
+import { PKP_TOOL_REGISTRY_ABI } from './human-readable-abi';
+import type {
+  IndexRegistryAuditLogOptions,
+  RegistryAuditEventName,
+  RegistryAuditLogEntry,
+  RegistryAuditLogStorage,
+} from './types';
+
+const REGISTRY_AUDIT_EVENTS: RegistryAuditEventName[] = [
+  'ToolsRegistered',
+  'ToolsRemoved',
+  'ToolsEnabled',
+  'ToolsDisabled',
+  'ToolsPermitted',
+  'ToolsUnpermitted',
+  'AddedDelegatees',
+  'RemovedDelegatees',
+  'ToolPoliciesSet',
+  'ToolPoliciesRemoved',
+  'PoliciesEnabled',
+  'PoliciesDisabled',
+  'PolicyParametersSet',
+  'PolicyParametersRemoved',
+  'BlanketPoliciesSet',
+  'BlanketPoliciesRemoved',
+  'BlanketPoliciesEnabled',
+  'BlanketPoliciesDisabled',
+  'BlanketPolicyParametersSet',
+  'BlanketPolicyParametersRemoved',
+];
+
+const DEFAULT_BLOCK_RANGE = 10_000;
+
+/** Stands in for the delegatee in the keys of blanket policies and parameters. */
+const BLANKET_POLICY_DELEGATEE = '*';
+
+/**
+ * The checkpoint persisted after each indexed block range.
+ * The current policies and parameter values are tracked to fill in the previous values of later changes.
+ */
+type RegistryAuditLogCheckpoint = {
+  lastIndexedBlock: number;
+  entries: RegistryAuditLogEntry[];
+  policies: Record<string, string>;
+  parameters: Record<string, string>;
+};
+
+const registryInterface = new ethers.utils.Interface(PKP_TOOL_REGISTRY_ABI);
+
+const getCheckpointKey = (registryAddress: string, pkpTokenId: string) =>
+  `registry-audit-log:${registryAddress.toLowerCase()}:${pkpTokenId}`;
+
+const getPolicyKey = (toolIpfsCid: string, delegatee: string) =>
+  `${toolIpfsCid}:${delegatee.toLowerCase()}`;
+
+const getParameterKey = (
+  toolIpfsCid: string,
+  delegatee: string,
+  parameterName: string
+) => `${getPolicyKey(toolIpfsCid, delegatee)}:${parameterName}`;
+
+const removeKeys = (
+  record: Record<string, string>,
+  matches: (key: string) => boolean
+) => {
+  for (const key of Object.keys(record)) {
+    if (matches(key)) {
+      delete record[key];
+    }
+  }
+};
+
+/**
+ * Turns a parsed registry event into audit log entries, and applies it to the tracked policies and parameters.
+ */
+const toAuditLogEntries = (
+  event: ethers.utils.LogDescription,
+  base: Omit<RegistryAuditLogEntry, 'event'>,
+  checkpoint: RegistryAuditLogCheckpoint
+): RegistryAuditLogEntry[] => {
+  const name = event.name as RegistryAuditEventName;
+  const { args } = event;
+  const { policies, parameters } = checkpoint;
+
+  switch (name) {
+    case 'ToolsRegistered':
+      return (args.toolIpfsCids as string[]).map((toolIpfsCid) => ({
+        ...base,
+        event: name,
+        toolIpfsCid,
+        enabled: args.enabled,
+      }));
+    case 'ToolsRemoved':
+      return (args.toolIpfsCids as string[]).map((toolIpfsCid) => {
+        // Removing a tool removes its policies and parameters
+        removeKeys(policies, (key) => key.startsWith(`${toolIpfsCid}:`));
+        removeKeys(parameters, (key) => key.startsWith(`${toolIpfsCid}:`));
+        return { ...base, event: name, toolIpfsCid };
+      });
+    case 'ToolsEnabled':
+    case 'ToolsDisabled':
+      return (args.toolIpfsCids as string[]).map((toolIpfsCid) => ({
+        ...base,
+        event: name,
+        toolIpfsCid,
+      }));
+    case 'AddedDelegatees':
+    case 'RemovedDelegatees':
+      return (args.delegatees as string[]).map((delegatee) => {
+        if (name === 'RemovedDelegatees') {
+          const suffix = `:${delegatee.toLowerCase()}`;
+          removeKeys(policies, (key) => key.endsWith(suffix));
+          removeKeys(parameters, (key) => key.includes(`${suffix}:`));
+        }
+        return { ...base, event: name, delegatee };
+      });
+    case 'ToolsPermitted':
+    case 'ToolsUnpermitted':
+    case 'PoliciesEnabled':
+    case 'PoliciesDisabled':
+      return (args.toolIpfsCids as string[]).map((toolIpfsCid, i) => ({
+        ...base,
+        event: name,
+        toolIpfsCid,
+        delegatee: args.delegatees[i],
+      }));
+    case 'ToolPoliciesSet':
+    case 'ToolPoliciesRemoved':
+      return (args.toolIpfsCids as string[]).map((toolIpfsCid, i) => {
+        const delegatee: string = args.delegatees[i];
+        const policyKey = getPolicyKey(toolIpfsCid, delegatee);
+        const previousValue = policies[policyKey] ?? null;
+
+        if (name === 'ToolPoliciesSet') {
+          const value: string = args.policyIpfsCids[i];
+          policies[policyKey] = value;
+          return {
+            ...base,
+            event: name,
+            toolIpfsCid,
+            delegatee,
+            enabled: args.enablePolicies,
+            previousValue,
+            value,
+          };
+        }
+
+        delete policies[policyKey];
+        return {
+          ...base,
+          event: name,
+          toolIpfsCid,
+          delegatee,
+          previousValue,
+          value: null,
+        };
+      });
+    case 'PolicyParametersSet':
+    case 'PolicyParametersRemoved': {
+      // The event argument is named after the plural, but holds a single CID
+      const toolIpfsCid: string = args.toolIpfsCids;
+      const delegatee: string = args.delegatee;
+
+      return (args.parameterNames as string[]).map((parameterName, i) => {
+        const parameterKey = getParameterKey(
+          toolIpfsCid,
+          delegatee,
+          parameterName
+        );
+        const previousValue = parameters[parameterKey] ?? null;
+        const value: string | null =
+          name === 'PolicyParametersSet' ? args.parameterValues[i] : null;
+
+        if (value === null) {
+          delete parameters[parameterKey];
+        } else {
+          parameters[parameterKey] = value;
+        }
+
+        return {
+          ...base,
+          event: name,
+          toolIpfsCid,
+          delegatee,
+          parameterName,
+          previousValue,
+          value,
+        };
+      });
+    }
+    case 'BlanketPoliciesEnabled':
+    case 'BlanketPoliciesDisabled':
+      return (args.toolIpfsCids as string[]).map((toolIpfsCid) => ({
+        ...base,
+        event: name,
+        toolIpfsCid,
+      }));
+    case 'BlanketPoliciesSet':
+    case 'BlanketPoliciesRemoved':
+      return (args.toolIpfsCids as string[]).map((toolIpfsCid, i) => {
+        const policyKey = getPolicyKey(toolIpfsCid, BLANKET_POLICY_DELEGATEE);
+        const previousValue = policies[policyKey] ?? null;
+
+        if (name === 'BlanketPoliciesSet') {
+          const value: string = args.policyIpfsCids[i];
+          policies[policyKey] = value;
+          return {
+            ...base,
+            event: name,
+            toolIpfsCid,
+            enabled: args.enablePolicies,
+            previousValue,
+            value,
+          };
+        }
+
+        // Removing a blanket policy removes its parameters
+        delete policies[policyKey];
+        removeKeys(parameters, (key) => key.startsWith(`${policyKey}:`));
+        return {
+          ...base,
+          event: name,
+          toolIpfsCid,
+          previousValue,
+          value: null,
+        };
+      });
+    case 'BlanketPolicyParametersSet':
+    case 'BlanketPolicyParametersRemoved': {
+      const toolIpfsCid: string = args.toolIpfsCid;
+
+      return (args.parameterNames as string[]).map((parameterName, i) => {
+        const parameterKey = getParameterKey(
+          toolIpfsCid,
+          BLANKET_POLICY_DELEGATEE,
+          parameterName
+        );
+        const previousValue = parameters[parameterKey] ?? null;
+        const value: string | null =
+          name === 'BlanketPolicyParametersSet'
+            ? args.parameterValues[i]
+            : null;
+
+        if (value === null) {
+          delete parameters[parameterKey];
+        } else {
+          parameters[parameterKey] = value;
+        }
+
+        return {
+          ...base,
+          event: name,
+          toolIpfsCid,
+          parameterName,
+          previousValue,
+          value,
+        };
+      });
+    }
+  }
+};
+
+/**
+ * Indexes the registry events of a PKP into a timestamped audit log.
+ * Logs are replayed from the last checkpoint persisted in `storage`, or from `options.fromBlock` on the first call,
+ * and the checkpoint is saved after each block range, so interrupted runs resume where they stopped.
+ * Previous policy and parameter values are only known for changes made within the indexed blocks.
+ * The sender of an entry is the `from` address of its transaction, so changes made through a Safe
+ * are attributed to the account that executed them, not to the owners that approved them.
+ * @param toolRegistryContract - The PKP Tool Registry contract, connected to a provider.
+ * @param pkpTokenId - The token ID of the PKP.
+ * @param storage - The storage the checkpoint is persisted in.
+ * @param options - Optional. The blocks to index and the number of blocks requested at once.
+ * @returns The audit log entries of the PKP, oldest first.
+ */
+export const indexRegistryAuditLog = async (
+  toolRegistryContract: ethers.Contract,
+  pkpTokenId: string,
+  storage: RegistryAuditLogStorage,
+  options: IndexRegistryAuditLogOptions = {}
+): Promise<RegistryAuditLogEntry[]> => {
+  const { provider } = toolRegistryContract;
+  const blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+  const checkpointKey = getCheckpointKey(
+    toolRegistryContract.address,
+    pkpTokenId
+  );
+
+  const storedCheckpoint = storage.getItem(checkpointKey);
+  const checkpoint: RegistryAuditLogCheckpoint = storedCheckpoint
+    ? JSON.parse(storedCheckpoint)
+    : {
+        lastIndexedBlock: (options.fromBlock ?? 0) - 1,
+        entries: [],
+        policies: {},
+        parameters: {},
+      };
+
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const topics = [
+    REGISTRY_AUDIT_EVENTS.map((name) => registryInterface.getEventTopic(name)),
+    ethers.utils.hexZeroPad(
+      ethers.BigNumber.from(pkpTokenId).toHexString(),
+      32
+    ),
+  ];
+
+  const timestamps = new Map<number, number>();
+  const senders = new Map<string, string>();
+
+  for (
+    let fromBlock = checkpoint.lastIndexedBlock + 1;
+    fromBlock <= toBlock;
+    fromBlock += blockRange
+  ) {
+    const rangeToBlock = Math.min(fromBlock + blockRange - 1, toBlock);
+    const logs = await provider.getLogs({
+      address: toolRegistryContract.address,
+      topics,
+      fromBlock,
+      toBlock: rangeToBlock,
+    });
+
+    for (const log of logs) {
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block.timestamp);
+      }
+      if (!senders.has(log.transactionHash)) {
+        const transaction = await provider.getTransaction(log.transactionHash);
+        senders.set(log.transactionHash, transaction.from);
+      }
+
+      checkpoint.entries.push(
+        ...toAuditLogEntries(
+          registryInterface.parseLog(log),
+          {
+            pkpTokenId,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+            logIndex: log.logIndex,
+            timestamp: timestamps.get(log.blockNumber) as number,
+            sender: senders.get(log.transactionHash) as string,
+          },
+          checkpoint
+        )
+      );
+    }
+
+    checkpoint.lastIndexedBlock = rangeToBlock;
+    storage.setItem(checkpointKey, JSON.stringify(checkpoint));
+  }
+
+  return checkpoint.entries;
+};
@@ -0,0 +1,137 @@
+import { ethers } from 'ethers';
+
+import { getPkpToolRegistryContract } from './pkp-tool-registry-contract';
+import type { PkpFixture, PkpToolRegistryDeployment } from './types';
+
+const MOCK_PKP_NFT_ABI = [
+  'function setOwner(uint256 tokenId, address owner) external',
+  'function setEthAddress(uint256 tokenId, address ethAddress) external',
+];
+
+const sendTransaction = async (
+  transaction: Promise<ethers.ContractTransaction>
+) => {
+  await (await transaction).wait();
+};
+
+/**
+ * Seeds PKPs into a local registry deployment, with their tools, delegatees, policies and policy parameters.
+ * PKPs are minted in the deployment's `MockPKPNFT`, then registered by their owner,
+ * so the registry state matches what an Admin would have set up.
+ * @param deployment - A deployment returned by `deployPkpToolRegistry`, with a `MockPKPNFT`.
+ * @param signer - The signer minting the PKPs, and owning those without an `owner`.
+ * @param pkps - The PKPs to seed.
+ * @throws If the deployment doesn't use a `MockPKPNFT`, or a registry transaction reverts.
+ */
+export const seedPkpToolRegistry = async (
+  deployment: PkpToolRegistryDeployment,
+  signer: ethers.Signer,
+  pkps: PkpFixture[]
+): Promise<void> => {
+  if (!deployment.isMockPkpNft) {
+    throw new Error(
+      `Cannot seed PKPs into ${deployment.pkpNftAddress}, which is not a MockPKPNFT`
+    );
+  }
+
+  const pkpNft = new ethers.Contract(
+    deployment.pkpNftAddress,
+    MOCK_PKP_NFT_ABI,
+    signer
+  );
+
+  for (const {
+    tokenId,
+    owner = signer,
+    ethAddress,
+    delegatees = [],
+    tools = [],
+  } of pkps) {
+    await sendTransaction(pkpNft.setOwner(tokenId, await owner.getAddress()));
+    if (ethAddress !== undefined) {
+      await sendTransaction(pkpNft.setEthAddress(tokenId, ethAddress));
+    }
+
+    const registry = getPkpToolRegistryContract(
+      deployment.toolRegistryConfig,
+      owner
+    );
+
+    for (const enabled of [true, false]) {
+      const toolIpfsCids = tools
+        .filter((tool) => (tool.enabled ?? true) === enabled)
+        .map((tool) => tool.ipfsCid);
+      if (toolIpfsCids.length > 0) {
+        await sendTransaction(
+          registry.registerTools(tokenId, toolIpfsCids, enabled)
+        );
+      }
+    }
+
+    const toolDelegatees = tools.flatMap((tool) =>
+      (tool.delegatees ?? []).map((delegatee) => ({
+        toolIpfsCid: tool.ipfsCid,
+        ...delegatee,
+        address: ethers.utils.getAddress(delegatee.address),
+      }))
+    );
+
+    const pkpDelegatees = [
+      ...new Set([
+        ...delegatees.map((delegatee) => ethers.utils.getAddress(delegatee)),
+        ...toolDelegatees.map((delegatee) => delegatee.address),
+      ]),
+    ];
+    if (pkpDelegatees.length > 0) {
+      await sendTransaction(registry.addDelegatees(tokenId, pkpDelegatees));
+    }
+
+    if (toolDelegatees.length > 0) {
+      await sendTransaction(
+        registry.permitToolsForDelegatees(
+          tokenId,
+          toolDelegatees.map((delegatee) => delegatee.toolIpfsCid),
+          toolDelegatees.map((delegatee) => delegatee.address)
+        )
+      );
+    }
+
+    for (const enabled of [true, false]) {
+      const policies = toolDelegatees.filter(
+        (delegatee) =>
+          delegatee.policyIpfsCid !== undefined &&
+          (delegatee.policyEnabled ?? true) === enabled
+      );
+      if (policies.length > 0) {
+        await sendTransaction(
+          registry.setToolPoliciesForDelegatees(
+            tokenId,
+            policies.map((policy) => policy.toolIpfsCid),
+            policies.map((policy) => policy.address),
+            policies.map((policy) => policy.policyIpfsCid),
+            enabled
+          )
+        );
+      }
+    }
+
+    for (const {
+      toolIpfsCid,
+      address,
+      policyParameters = {},
+    } of toolDelegatees) {
+      const parameterNames = Object.keys(policyParameters);
+      if (parameterNames.length > 0) {
+        await sendTransaction(
+          registry.setToolPolicyParametersForDelegatee(
+            tokenId,
+            toolIpfsCid,
+            address,
+            parameterNames,
+            Object.values(policyParameters)
+          )
+        );
+      }
+    }
+  }
+};
@@ -1,5 +1,8 @@
 import { type LitNetwork } from '@lit-protocol/aw-tool-registry';
 import type { AwTool } from '@lit-protocol/aw-tool';
+import type { ethers } from 'ethers';
+
+import type { ToolRegistryConfig } from './pkp-tool-registry-contract';
 
 export type ToolInfo = {
   toolIpfsCid: string;
@@ -51,3 +54,195 @@ export type RegisteredToolsResult = {
   };
   toolsUnknownWithoutPolicies: string[];
 };
+
+/**
+ * The ABI and creation bytecode of a compiled contract, as found in Foundry's `out/` artifacts.
+ */
+export type ContractArtifact = {
+  abi: ethers.ContractInterface;
+  bytecode: string;
+};
+
+/**
+ * The facets added to the PKP Tool Registry diamond, besides its `DiamondCutFacet`.
+ */
+export type PkpToolRegistryFacetName =
+  | 'DiamondLoupeFacet'
+  | 'OwnershipFacet'
+  | 'PKPToolRegistryPolicyFacet'
+  | 'PKPToolRegistryToolFacet'
+  | 'PKPToolRegistryDelegateeFacet'
+  | 'PKPToolRegistryPolicyParameterFacet'
+  | 'PKPToolRegistrySpendingLimitFacet'
+  | 'PKPToolRegistryBlanketPolicyFacet';
+
+/**
+ * The contracts deployed to stand up a PKP Tool Registry.
+ */
+export type PkpToolRegistryContractName =
+  | PkpToolRegistryFacetName
+  | 'DiamondCutFacet'
+  | 'PKPToolRegistryInit'
+  | 'PKPToolRegistry'
+  | 'MockPKPNFT';
+
+export type PkpToolRegistryArtifacts = Record<
+  PkpToolRegistryContractName,
+  ContractArtifact
+>;
+
+export type DeployPkpToolRegistryOptions = {
+  /** The compiled contracts, e.g. loaded with `loadFoundryArtifacts` from `@lit-protocol/aw-contracts-sdk/node`. */
+  artifacts: PkpToolRegistryArtifacts;
+
+  /** The signer deploying and owning the diamond. Defaults to the provider's first account, e.g. Anvil's. */
+  signer?: ethers.Signer;
+
+  /** The PKP NFT contract the registry checks PKP ownership against. A `MockPKPNFT` is deployed if omitted. */
+  pkpNftAddress?: string;
+};
+
+export type PkpToolRegistryDeployment = {
+  /** The registry config to pass to the SDK, e.g. as the `toolRegistryConfig` of an `AgentConfig`. */
+  toolRegistryConfig: ToolRegistryConfig;
+
+  /** The PKP NFT contract the registry checks PKP ownership against. */
+  pkpNftAddress: string;
+
+  /** Whether the PKP NFT contract is a `MockPKPNFT` deployed with the registry, which PKPs can be seeded into. */
+  isMockPkpNft: boolean;
+
+  /** The addresses of the deployed facets and initializer. */
+  facetAddresses: Record<
+    PkpToolRegistryFacetName | 'DiamondCutFacet' | 'PKPToolRegistryInit',
+    string
+  >;
+};
+
+/**
+ * A delegatee permitted to use a seeded tool, optionally with a policy.
+ */
+export type ToolDelegateeFixture = {
+  address: string;
+  policyIpfsCid?: string;
+
+  /** Whether the policy is enabled. Defaults to `true`. */
+  policyEnabled?: boolean;
+
+  /** The ABI-encoded values of the policy parameters, by name. */
+  policyParameters?: Record<string, ethers.BytesLike>;
+};
+
+export type ToolFixture = {
+  ipfsCid: string;
+
+  /** Whether the tool is enabled. Defaults to `true`. */
+  enabled?: boolean;
+
+  /** The delegatees permitted to use the tool. They are added as delegatees of the PKP. */
+  delegatees?: ToolDelegateeFixture[];
+};
+
+/**
+ * A PKP to seed into the `MockPKPNFT` of a local registry deployment, with its tools and delegatees.
+ */
+export type PkpFixture = {
+  tokenId: string;
+
+  /** The owner of the PKP, which registers its tools and delegatees. Defaults to the seeding signer. */
+  owner?: ethers.Signer;
+
+  /** The ETH address of the PKP, returned by the `MockPKPNFT`. */
+  ethAddress?: string;
+
+  /** Delegatees of the PKP that aren't permitted to use any tool. */
+  delegatees?: string[];
+
+  tools?: ToolFixture[];
+};
+
+/**
+ * The registry events recorded in the audit log of a PKP.
+ */
+export type RegistryAuditEventName =
+  | 'ToolsRegistered'
+  | 'ToolsRemoved'
+  | 'ToolsEnabled'
+  | 'ToolsDisabled'
+  | 'ToolsPermitted'
+  | 'ToolsUnpermitted'
+  | 'AddedDelegatees'
+  | 'RemovedDelegatees'
+  | 'ToolPoliciesSet'
+  | 'ToolPoliciesRemoved'
+  | 'PoliciesEnabled'
+  | 'PoliciesDisabled'
+  | 'PolicyParametersSet'
+  | 'PolicyParametersRemoved'
+  | 'BlanketPoliciesSet'
+  | 'BlanketPoliciesRemoved'
+  | 'BlanketPoliciesEnabled'
+  | 'BlanketPoliciesDisabled'
+  | 'BlanketPolicyParametersSet'
+  | 'BlanketPolicyParametersRemoved';
+
+/**
+ * A single change to the registry state of a PKP.
+ * Events changing several tools, delegatees or parameters are recorded as one entry per change.
+ */
+export type RegistryAuditLogEntry = {
+  event: RegistryAuditEventName;
+  pkpTokenId: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+
+  /** The timestamp of the block, in seconds. */
+  timestamp: number;
+
+  /**
+   * The sender of the transaction, i.e. the PKP owner for changes it makes directly.
+   * For a PKP owned by a Safe, it is the account that executed the multisig transaction,
+   * not the owners that approved it.
+   */
+  sender: string;
+
+  toolIpfsCid?: string;
+
+  /** The delegatee the change applies to, omitted for blanket policy changes which apply to all delegatees. */
+  delegatee?: string;
+
+  /** Whether the tool or policy is enabled, for `ToolsRegistered`, `ToolPoliciesSet` and `BlanketPoliciesSet`. */
+  enabled?: boolean;
+
+  /** The name of the changed policy parameter. */
+  parameterName?: string;
+
+  /**
+   * The value before the change: the policy IPFS CID for policy changes, or the ABI-encoded
+   * parameter value for parameter changes. `null` if it wasn't set, or was set before the indexed range.
+   */
+  previousValue?: string | null;
+
+  /** The value after the change, `null` if it was removed. */
+  value?: string | null;
+};
+
+/**
+ * A key-value storage for the indexer's checkpoints, e.g. the `StorageProvider` of an Admin.
+ */
+export type RegistryAuditLogStorage = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+};
+
+export type IndexRegistryAuditLogOptions = {
+  /** The block to start indexing from when there is no checkpoint yet. Defaults to `0`. */
+  fromBlock?: number;
+
+  /** The last block to index. Defaults to the latest block. */
+  toBlock?: number;
+
+  /** The number of blocks requested per `eth_getLogs` call. Defaults to `10000`. */
+  blockRange?: number;
+};
@@ -0,0 +1 @@
+export * from './lib/load-foundry-artifacts';
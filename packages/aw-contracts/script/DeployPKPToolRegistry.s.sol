@@ -11,6 +11,8 @@ import "../src/facets/PKPToolRegistryPolicyFacet.sol";
 import "../src/facets/PKPToolRegistryToolFacet.sol";
 import "../src/facets/PKPToolRegistryDelegateeFacet.sol";
 import "../src/facets/PKPToolRegistryPolicyParameterFacet.sol";
+import "../src/facets/PKPToolRegistrySpendingLimitFacet.sol";
+import "../src/facets/PKPToolRegistryBlanketPolicyFacet.sol";
 import "../src/abstract/PKPToolRegistryBase.sol";
 import "../src/diamond/interfaces/IDiamondCut.sol";
 import "../src/diamond/interfaces/IDiamondLoupe.sol";
@@ -41,9 +43,11 @@ contract DeployPKPToolRegistry is Script {
         PKPToolRegistryToolFacet toolFacet = new PKPToolRegistryToolFacet();
         PKPToolRegistryDelegateeFacet delegateeFacet = new PKPToolRegistryDelegateeFacet();
         PKPToolRegistryPolicyParameterFacet policyParameterFacet = new PKPToolRegistryPolicyParameterFacet();
+        PKPToolRegistrySpendingLimitFacet spendingLimitFacet = new PKPToolRegistrySpendingLimitFacet();
+        PKPToolRegistryBlanketPolicyFacet blanketPolicyFacet = new PKPToolRegistryBlanketPolicyFacet();
 
         // Build cut struct for adding facets
-        IDiamond.FacetCut[] memory cut = new IDiamond.FacetCut[](6);
+        IDiamond.FacetCut[] memory cut = new IDiamond.FacetCut[](8);
 
         // Add DiamondLoupeFacet
         cut[0] = IDiamond.FacetCut({
@@ -87,6 +91,20 @@ contract DeployPKPToolRegistry is Script {
             functionSelectors: getPolicyParameterFacetSelectors()
         });
 
+        // Add SpendingLimitFacet
+        cut[6] = IDiamond.FacetCut({
+            facetAddress: address(spendingLimitFacet),
+            action: IDiamond.FacetCutAction.Add,
+            functionSelectors: getSpendingLimitFacetSelectors()
+        });
+
+        // Add BlanketPolicyFacet
+        cut[7] = IDiamond.FacetCut({
+            facetAddress: address(blanketPolicyFacet),
+            action: IDiamond.FacetCutAction.Add,
+            functionSelectors: getBlanketPolicyFacetSelectors()
+        });
+
         return (cut, address(diamondCutFacet));
     }
 
@@ -177,6 +195,12 @@ contract DeployPKPToolRegistry is Script {
         if (equal(facetName, "PKPToolRegistryPolicyParameterFacet")) {
             return getPolicyParameterFacetSelectors();
         }
+        if (equal(facetName, "PKPToolRegistrySpendingLimitFacet")) {
+            return getSpendingLimitFacetSelectors();
+        }
+        if (equal(facetName, "PKPToolRegistryBlanketPolicyFacet")) {
+            return getBlanketPolicyFacetSelectors();
+        }
         return new bytes4[](0);
     }
 
@@ -239,11 +263,34 @@ contract DeployPKPToolRegistry is Script {
     }
 
     function getPolicyParameterFacetSelectors() public pure returns (bytes4[] memory) {
-        bytes4[] memory selectors = new bytes4[](4);
+        bytes4[] memory selectors = new bytes4[](5);
         selectors[0] = PKPToolRegistryPolicyParameterFacet.getToolPolicyParameters.selector;
         selectors[1] = PKPToolRegistryPolicyParameterFacet.getAllToolPolicyParameters.selector;
         selectors[2] = PKPToolRegistryPolicyParameterFacet.setToolPolicyParametersForDelegatee.selector;
         selectors[3] = PKPToolRegistryPolicyParameterFacet.removeToolPolicyParametersForDelegatee.selector;
+        selectors[4] = PKPToolRegistryPolicyParameterFacet.updateToolPolicyParametersForDelegatee.selector;
+        return selectors;
+    }
+
+    function getSpendingLimitFacetSelectors() public pure returns (bytes4[] memory) {
+        bytes4[] memory selectors = new bytes4[](3);
+        selectors[0] = PKPToolRegistrySpendingLimitFacet.getSpentAmount.selector;
+        selectors[1] = PKPToolRegistrySpendingLimitFacet.recordSpend.selector;
+        selectors[2] = PKPToolRegistrySpendingLimitFacet.refundSpend.selector;
+        return selectors;
+    }
+
+    function getBlanketPolicyFacetSelectors() public pure returns (bytes4[] memory) {
+        bytes4[] memory selectors = new bytes4[](9);
+        selectors[0] = PKPToolRegistryBlanketPolicyFacet.getBlanketToolPolicies.selector;
+        selectors[1] = PKPToolRegistryBlanketPolicyFacet.setBlanketToolPolicies.selector;
+        selectors[2] = PKPToolRegistryBlanketPolicyFacet.removeBlanketToolPolicies.selector;
+        selectors[3] = PKPToolRegistryBlanketPolicyFacet.enableBlanketToolPolicies.selector;
+        selectors[4] = PKPToolRegistryBlanketPolicyFacet.disableBlanketToolPolicies.selector;
+        selectors[5] = PKPToolRegistryBlanketPolicyFacet.getBlanketToolPolicyParameters.selector;
+        selectors[6] = PKPToolRegistryBlanketPolicyFacet.getAllBlanketToolPolicyParameters.selector;
+        selectors[7] = PKPToolRegistryBlanketPolicyFacet.setBlanketToolPolicyParameters.selector;
+        selectors[8] = PKPToolRegistryBlanketPolicyFacet.removeBlanketToolPolicyParameters.selector;
         return selectors;
     }
 
@@ -7,6 +7,7 @@ import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 library LibPKPToolRegistryBase {
     error NotPKPOwner();
+    error NotPKP();
     error EmptyIPFSCID();
     error ToolNotFound(string toolIpfsCid);
 }
@@ -35,6 +36,17 @@ abstract contract PKPToolRegistryBase {
         _;
     }
 
+    /// @notice Restricts function access to the PKP itself
+    /// @dev Reverts with NotPKP if caller is not the Ethereum address of the specified PKP
+    /// @param pkpTokenId The ID of the PKP token whose address is allowed to call
+    modifier onlyPKP(uint256 pkpTokenId) {
+        PKPToolRegistryStorage.Layout storage layout = _layout();
+        if (msg.sender != IPKPNFTFacet(layout.pkpNftContract).getEthAddress(pkpTokenId)) {
+            revert LibPKPToolRegistryBase.NotPKP();
+        }
+        _;
+    }
+
     /// @notice Verifies that a tool exists (is registered) for a specific PKP
     /// @dev Reverts with EmptyIPFSCID if CID is empty or ToolNotFound if tool doesn't exist
     /// @param pkpTokenId The ID of the PKP token to check the tool for
@@ -0,0 +1,360 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "../abstract/PKPToolRegistryPolicyParametersBase.sol";
+import "../libraries/PKPToolRegistryStorage.sol";
+
+library LibPKPToolRegistryBlanketPolicyFacet {
+    error ArrayLengthMismatch();
+    error EmptyIPFSCID();
+    error EmptyPolicyIPFSCID();
+    error InvalidPolicyParameters();
+    error BlanketPolicyAlreadySet(uint256 pkpTokenId, string toolIpfsCid);
+    error NoBlanketPolicySet(uint256 pkpTokenId, string toolIpfsCid);
+    error BlanketPolicySameEnabledState(uint256 pkpTokenId, string toolIpfsCid);
+
+    event BlanketPoliciesSet(uint256 indexed pkpTokenId, string[] toolIpfsCids, string[] policyIpfsCids, bool enablePolicies);
+    event BlanketPoliciesRemoved(uint256 indexed pkpTokenId, string[] toolIpfsCids);
+    event BlanketPoliciesEnabled(uint256 indexed pkpTokenId, string[] toolIpfsCids);
+    event BlanketPoliciesDisabled(uint256 indexed pkpTokenId, string[] toolIpfsCids);
+    event BlanketPolicyParametersSet(uint256 indexed pkpTokenId, string toolIpfsCid, string[] parameterNames, bytes[] parameterValues);
+    event BlanketPolicyParametersRemoved(uint256 indexed pkpTokenId, string toolIpfsCid, string[] parameterNames);
+}
+
+/// @title PKP Tool Registry Blanket Policy Facet
+/// @notice Diamond facet for managing blanket policies, which apply to every delegatee of a tool without a custom policy
+/// @dev Blanket policies are stored in `ToolInfo.blanketPolicy` under `PKPToolRegistryStorage.BLANKET_POLICY_KEY`
+/// @custom:security-contact security@litprotocol.com
+contract PKPToolRegistryBlanketPolicyFacet is PKPToolRegistryPolicyParametersBase {
+    using PKPToolRegistryStorage for PKPToolRegistryStorage.Layout;
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+
+    struct BlanketToolPolicy {
+        string toolIpfsCid;
+        string policyIpfsCid;
+        bool enabled;
+    }
+
+    struct Parameter {
+        string name;
+        bytes value;
+    }
+
+    /// @notice Get the blanket policies of specific tools
+    /// @dev The policy IPFS CID is empty for tools without a blanket policy
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCids The array of IPFS CIDs of the tools
+    /// @return blanketPolicies Array of BlanketToolPolicy structs for each tool
+    /// @custom:throws EmptyIPFSCID if any tool CID is empty
+    /// @custom:throws ToolNotFound if any tool is not registered
+    function getBlanketToolPolicies(
+        uint256 pkpTokenId,
+        string[] calldata toolIpfsCids
+    ) external view returns (BlanketToolPolicy[] memory blanketPolicies) {
+        PKPToolRegistryStorage.Layout storage l = PKPToolRegistryStorage.layout();
+        blanketPolicies = new BlanketToolPolicy[](toolIpfsCids.length);
+
+        for (uint256 i = 0; i < toolIpfsCids.length;) {
+            PKPToolRegistryStorage.Policy storage policy = _getBlanketPolicy(l, pkpTokenId, toolIpfsCids[i]);
+            blanketPolicies[i] = BlanketToolPolicy({
+                toolIpfsCid: toolIpfsCids[i],
+                policyIpfsCid: l.hashedPolicyCidToOriginalCid[policy.policyIpfsCidHash],
+                enabled: policy.enabled
+            });
+            unchecked { ++i; }
+        }
+    }
+
+    /// @notice Set blanket policies for tools
+    /// @dev Only callable by PKP owner. Arrays must be same length
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCids Array of tool IPFS CIDs
+    /// @param policyIpfsCids Array of policy IPFS CIDs
+    /// @param enablePolicies Whether to enable the policies after setting them
+    /// @custom:throws ArrayLengthMismatch if array lengths don't match
+    /// @custom:throws NotPKPOwner if caller is not the PKP owner
+    /// @custom:throws EmptyIPFSCID if any tool CID is empty
+    /// @custom:throws EmptyPolicyIPFSCID if any policy CID is empty
+    /// @custom:throws ToolNotFound if any tool is not registered
+    /// @custom:throws BlanketPolicyAlreadySet if a tool already has a blanket policy
+    function setBlanketToolPolicies(
+        uint256 pkpTokenId,
+        string[] calldata toolIpfsCids,
+        string[] calldata policyIpfsCids,
+        bool enablePolicies
+    ) external onlyPKPOwner(pkpTokenId) {
+        if (toolIpfsCids.length != policyIpfsCids.length) {
+            revert LibPKPToolRegistryBlanketPolicyFacet.ArrayLengthMismatch();
+        }
+
+        PKPToolRegistryStorage.Layout storage l = PKPToolRegistryStorage.layout();
+        for (uint256 i = 0; i < toolIpfsCids.length;) {
+            if (bytes(policyIpfsCids[i]).length == 0) revert LibPKPToolRegistryBlanketPolicyFacet.EmptyPolicyIPFSCID();
+
+            PKPToolRegistryStorage.Policy storage policy = _getBlanketPolicy(l, pkpTokenId, toolIpfsCids[i]);
+            if (policy.policyIpfsCidHash != bytes32(0)) {
+                revert LibPKPToolRegistryBlanketPolicyFacet.BlanketPolicyAlreadySet(pkpTokenId, toolIpfsCids[i]);
+            }
+
+            policy.enabled = enablePolicies;
+            bytes32 policyIpfsCidHash = keccak256(bytes(policyIpfsCids[i]));
+            policy.policyIpfsCidHash = policyIpfsCidHash;
+            l.hashedPolicyCidToOriginalCid[policyIpfsCidHash] = policyIpfsCids[i];
+            unchecked { ++i; }
+        }
+
+        emit LibPKPToolRegistryBlanketPolicyFacet.BlanketPoliciesSet(pkpTokenId, toolIpfsCids, policyIpfsCids, enablePolicies);
+    }
+
+    /// @notice Remove the blanket policies of tools, along with their parameters
+    /// @dev Only callable by PKP owner
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCids Array of tool IPFS CIDs
+    /// @custom:throws NotPKPOwner if caller is not the PKP owner
+    /// @custom:throws EmptyIPFSCID if any tool CID is empty
+    /// @custom:throws ToolNotFound if any tool is not registered
+    /// @custom:throws NoBlanketPolicySet if a tool has no blanket policy
+    function removeBlanketToolPolicies(
+        uint256 pkpTokenId,
+        string[] calldata toolIpfsCids
+    ) external onlyPKPOwner(pkpTokenId) {
+        PKPToolRegistryStorage.Layout storage l = PKPToolRegistryStorage.layout();
+        for (uint256 i = 0; i < toolIpfsCids.length;) {
+            PKPToolRegistryStorage.Policy storage policy = _getBlanketPolicy(l, pkpTokenId, toolIpfsCids[i]);
+            if (policy.policyIpfsCidHash == bytes32(0)) {
+                revert LibPKPToolRegistryBlanketPolicyFacet.NoBlanketPolicySet(pkpTokenId, toolIpfsCids[i]);
+            }
+
+            // Get all parameter hashes before we start cleaning up
+            uint256 numParams = policy.parameterNameHashes.length();
+            bytes32[] memory paramHashes = new bytes32[](numParams);
+            for (uint256 k = 0; k < numParams;) {
+                paramHashes[k] = policy.parameterNameHashes.at(k);
+                unchecked { ++k; }
+            }
+
+            // Clean up all parameters
+            for (uint256 k = 0; k < numParams;) {
+                bytes32 paramNameHash = paramHashes[k];
+                policy.parameterNameHashes.remove(paramNameHash);
+                delete l.hashedParameterNameToOriginalName[paramNameHash];
+                delete policy.parameters[paramNameHash];
+                unchecked { ++k; }
+            }
+
+            // Finally remove the policy
+            bytes32 toolCidHash = keccak256(bytes(toolIpfsCids[i]));
+            delete l.pkpStore[pkpTokenId].toolMap[toolCidHash].blanketPolicy[PKPToolRegistryStorage.BLANKET_POLICY_KEY];
+            unchecked { ++i; }
+        }
+
+        emit LibPKPToolRegistryBlanketPolicyFacet.BlanketPoliciesRemoved(pkpTokenId, toolIpfsCids);
+    }
+
+    /// @notice Enable the blanket policies of tools
+    /// @dev Only callable by PKP owner
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCids Array of tool IPFS CIDs
+    /// @custom:throws NotPKPOwner if caller is not the PKP owner
+    /// @custom:throws ToolNotFound if any tool is not registered
+    /// @custom:throws NoBlanketPolicySet if a tool has no blanket policy
+    /// @custom:throws BlanketPolicySameEnabledState if a blanket policy is already enabled
+    function enableBlanketToolPolicies(
+        uint256 pkpTokenId,
+        string[] calldata toolIpfsCids
+    ) external onlyPKPOwner(pkpTokenId) {
+        _setBlanketPoliciesEnabled(pkpTokenId, toolIpfsCids, true);
+        emit LibPKPToolRegistryBlanketPolicyFacet.BlanketPoliciesEnabled(pkpTokenId, toolIpfsCids);
+    }
+
+    /// @notice Disable the blanket policies of tools
+    /// @dev Only callable by PKP owner
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCids Array of tool IPFS CIDs
+    /// @custom:throws NotPKPOwner if caller is not the PKP owner
+    /// @custom:throws ToolNotFound if any tool is not registered
+    /// @custom:throws NoBlanketPolicySet if a tool has no blanket policy
+    /// @custom:throws BlanketPolicySameEnabledState if a blanket policy is already disabled
+    function disableBlanketToolPolicies(
+        uint256 pkpTokenId,
+        string[] calldata toolIpfsCids
+    ) external onlyPKPOwner(pkpTokenId) {
+        _setBlanketPoliciesEnabled(pkpTokenId, toolIpfsCids, false);
+        emit LibPKPToolRegistryBlanketPolicyFacet.BlanketPoliciesDisabled(pkpTokenId, toolIpfsCids);
+    }
+
+    /// @notice Get specific parameter values of the blanket policy of a tool
+    /// @dev Parameters that aren't set are omitted
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCid The IPFS CID of the tool
+    /// @param parameterNames The names of the parameters to get
+    /// @return parameters Array of Parameter structs containing names and values
+    /// @custom:throws ToolNotFound if tool is not registered
+    /// @custom:throws InvalidPolicyParameters if no parameter names are provided
+    function getBlanketToolPolicyParameters(
+        uint256 pkpTokenId,
+        string calldata toolIpfsCid,
+        string[] calldata parameterNames
+    ) external view returns (Parameter[] memory parameters) {
+        if (parameterNames.length == 0) revert LibPKPToolRegistryBlanketPolicyFacet.InvalidPolicyParameters();
+
+        PKPToolRegistryStorage.Layout storage l = PKPToolRegistryStorage.layout();
+        PKPToolRegistryStorage.Policy storage policy = _getBlanketPolicy(l, pkpTokenId, toolIpfsCid);
+
+        // Count how many parameters exist in the set
+        uint256 count;
+        for (uint256 i = 0; i < parameterNames.length; i++) {
+            if (policy.parameterNameHashes.contains(keccak256(bytes(parameterNames[i])))) {
+                unchecked { ++count; }
+            }
+        }
+
+        // Initialize array with only existing parameters
+        parameters = new Parameter[](count);
+        uint256 index;
+        for (uint256 i = 0; i < parameterNames.length; i++) {
+            bytes32 paramNameHash = keccak256(bytes(parameterNames[i]));
+            if (policy.parameterNameHashes.contains(paramNameHash)) {
+                parameters[index] = Parameter({
+                    name: parameterNames[i],
+                    value: policy.parameters[paramNameHash]
+                });
+                unchecked { ++index; }
+            }
+        }
+    }
+
+    /// @notice Get all parameter names and values of the blanket policy of a tool
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCid The IPFS CID of the tool
+    /// @return parameters Array of Parameter structs containing names and values
+    /// @custom:throws ToolNotFound if tool is not registered
+    function getAllBlanketToolPolicyParameters(
+        uint256 pkpTokenId,
+        string calldata toolIpfsCid
+    ) external view returns (Parameter[] memory parameters) {
+        PKPToolRegistryStorage.Layout storage l = PKPToolRegistryStorage.layout();
+        PKPToolRegistryStorage.Policy storage policy = _getBlanketPolicy(l, pkpTokenId, toolIpfsCid);
+
+        uint256 length = policy.parameterNameHashes.length();
+        parameters = new Parameter[](length);
+
+        for (uint256 i = 0; i < length;) {
+            bytes32 paramNameHash = policy.parameterNameHashes.at(i);
+            parameters[i] = Parameter({
+                name: l.hashedParameterNameToOriginalName[paramNameHash],
+                value: policy.parameters[paramNameHash]
+            });
+            unchecked { ++i; }
+        }
+    }
+
+    /// @notice Set parameters of the blanket policy of a tool
+    /// @dev Only callable by PKP owner. The blanket policy must be set first
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCid The IPFS CID of the tool
+    /// @param parameterNames The names of the parameters to set
+    /// @param parameterValues The values to set for the parameters in bytes form
+    /// @custom:throws ArrayLengthMismatch if parameterNames and parameterValues arrays have different lengths
+    /// @custom:throws NotPKPOwner if caller is not the PKP owner
+    /// @custom:throws ToolNotFound if tool is not registered
+    /// @custom:throws NoBlanketPolicySet if the tool has no blanket policy
+    function setBlanketToolPolicyParameters(
+        uint256 pkpTokenId,
+        string calldata toolIpfsCid,
+        string[] calldata parameterNames,
+        bytes[] calldata parameterValues
+    ) external onlyPKPOwner(pkpTokenId) {
+        if (parameterNames.length != parameterValues.length) revert LibPKPToolRegistryBlanketPolicyFacet.ArrayLengthMismatch();
+
+        PKPToolRegistryStorage.Layout storage l = PKPToolRegistryStorage.layout();
+        PKPToolRegistryStorage.Policy storage policy = _getBlanketPolicy(l, pkpTokenId, toolIpfsCid);
+        if (policy.policyIpfsCidHash == bytes32(0)) {
+            revert LibPKPToolRegistryBlanketPolicyFacet.NoBlanketPolicySet(pkpTokenId, toolIpfsCid);
+        }
+
+        for (uint256 i = 0; i < parameterNames.length;) {
+            _setParameter(l, policy, parameterNames[i], parameterValues[i]);
+            unchecked { ++i; }
+        }
+
+        emit LibPKPToolRegistryBlanketPolicyFacet.BlanketPolicyParametersSet(
+            pkpTokenId,
+            toolIpfsCid,
+            parameterNames,
+            parameterValues
+        );
+    }
+
+    /// @notice Remove parameters of the blanket policy of a tool
+    /// @dev Only callable by PKP owner
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCid The IPFS CID of the tool
+    /// @param parameterNames The names of the parameters to remove
+    /// @custom:throws InvalidPolicyParameters if no parameter names are provided
+    /// @custom:throws NotPKPOwner if caller is not the PKP owner
+    /// @custom:throws ToolNotFound if tool is not registered
+    function removeBlanketToolPolicyParameters(
+        uint256 pkpTokenId,
+        string calldata toolIpfsCid,
+        string[] calldata parameterNames
+    ) external onlyPKPOwner(pkpTokenId) {
+        if (parameterNames.length == 0) revert LibPKPToolRegistryBlanketPolicyFacet.InvalidPolicyParameters();
+
+        PKPToolRegistryStorage.Layout storage l = PKPToolRegistryStorage.layout();
+        PKPToolRegistryStorage.Policy storage policy = _getBlanketPolicy(l, pkpTokenId, toolIpfsCid);
+
+        for (uint256 i = 0; i < parameterNames.length;) {
+            _removeParameter(policy, parameterNames[i]);
+            unchecked { ++i; }
+        }
+
+        emit LibPKPToolRegistryBlanketPolicyFacet.BlanketPolicyParametersRemoved(
+            pkpTokenId,
+            toolIpfsCid,
+            parameterNames
+        );
+    }
+
+    /// @notice Internal function to get the blanket policy of a registered tool
+    /// @param l The storage layout to use
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCid The IPFS CID of the tool
+    /// @return policy The blanket policy of the tool, with an empty policy CID hash if it isn't set
+    /// @custom:throws EmptyIPFSCID if toolIpfsCid is empty
+    /// @custom:throws ToolNotFound if tool is not registered
+    function _getBlanketPolicy(
+        PKPToolRegistryStorage.Layout storage l,
+        uint256 pkpTokenId,
+        string calldata toolIpfsCid
+    ) internal view verifyToolExists(pkpTokenId, toolIpfsCid) returns (PKPToolRegistryStorage.Policy storage policy) {
+        bytes32 toolCidHash = keccak256(bytes(toolIpfsCid));
+        return l.pkpStore[pkpTokenId].toolMap[toolCidHash].blanketPolicy[PKPToolRegistryStorage.BLANKET_POLICY_KEY];
+    }
+
+    /// @notice Internal function to set the enabled status of blanket policies
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCids Array of tool IPFS CIDs
+    /// @param enable Whether to enable or disable the policies
+    /// @custom:throws NoBlanketPolicySet if a tool has no blanket policy
+    /// @custom:throws BlanketPolicySameEnabledState if a blanket policy is already in the requested state
+    function _setBlanketPoliciesEnabled(
+        uint256 pkpTokenId,
+        string[] calldata toolIpfsCids,
+        bool enable
+    ) internal {
+        PKPToolRegistryStorage.Layout storage l = PKPToolRegistryStorage.layout();
+        for (uint256 i = 0; i < toolIpfsCids.length;) {
+            PKPToolRegistryStorage.Policy storage policy = _getBlanketPolicy(l, pkpTokenId, toolIpfsCids[i]);
+            if (policy.policyIpfsCidHash == bytes32(0)) {
+                revert LibPKPToolRegistryBlanketPolicyFacet.NoBlanketPolicySet(pkpTokenId, toolIpfsCids[i]);
+            }
+            if (policy.enabled == enable) {
+                revert LibPKPToolRegistryBlanketPolicyFacet.BlanketPolicySameEnabledState(pkpTokenId, toolIpfsCids[i]);
+            }
+            policy.enabled = enable;
+            unchecked { ++i; }
+        }
+    }
+}
@@ -156,6 +156,48 @@ contract PKPToolRegistryPolicyParameterFacet is PKPToolRegistryPolicyParametersB
         );
     }
 
+    /// @notice Set parameters for a specific tool and delegatee, replacing the values of parameters that are already set
+    /// @dev Only callable by PKP owner. Existing values are replaced within the same transaction,
+    /// so the parameters are never observed as unset, e.g. while updating a spending limit
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCid The IPFS CID of the tool
+    /// @param delegatee The delegatee address to set the parameters for (cannot be zero address)
+    /// @param parameterNames The names of the parameters to set
+    /// @param parameterValues The values to set for the parameters in bytes form
+    /// @custom:throws ArrayLengthMismatch if parameterNames and parameterValues arrays have different lengths
+    /// @custom:throws InvalidDelegatee if delegatee is the zero address
+    /// @custom:throws NotPKPOwner if caller is not the PKP owner
+    /// @custom:throws ToolNotFound if tool is not registered or enabled
+    function updateToolPolicyParametersForDelegatee(
+        uint256 pkpTokenId,
+        string calldata toolIpfsCid,
+        address delegatee,
+        string[] calldata parameterNames,
+        bytes[] calldata parameterValues
+    ) external onlyPKPOwner(pkpTokenId) verifyToolExists(pkpTokenId, toolIpfsCid) {
+        if (delegatee == address(0)) revert LibPKPToolRegistryPolicyParameterFacet.InvalidDelegatee();
+        if (bytes(toolIpfsCid).length == 0) revert LibPKPToolRegistryPolicyParameterFacet.EmptyIPFSCID();
+        if (parameterNames.length != parameterValues.length) revert LibPKPToolRegistryPolicyParameterFacet.ArrayLengthMismatch();
+
+        PKPToolRegistryStorage.Layout storage l = PKPToolRegistryStorage.layout();
+        bytes32 hashedCid = keccak256(bytes(toolIpfsCid));
+        PKPToolRegistryStorage.Policy storage policy = l.pkpStore[pkpTokenId].toolMap[hashedCid].delegateeCustomPolicies[delegatee];
+
+        for (uint256 i = 0; i < parameterNames.length;) {
+            _removeParameter(policy, parameterNames[i]);
+            _setParameter(l, policy, parameterNames[i], parameterValues[i]);
+            unchecked { ++i; }
+        }
+
+        emit LibPKPToolRegistryPolicyParameterFacet.PolicyParametersSet(
+            pkpTokenId,
+            toolIpfsCid,
+            delegatee,
+            parameterNames,
+            parameterValues
+        );
+    }
+
     /// @notice Remove parameters for a specific tool and delegatee
     /// @dev Only callable by PKP owner. Removes both parameter names and values
     /// @param pkpTokenId The PKP token ID
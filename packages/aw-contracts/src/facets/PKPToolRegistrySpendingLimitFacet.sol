@@ -0,0 +1,233 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "../abstract/PKPToolRegistryBase.sol";
+import "../libraries/PKPToolRegistryStorage.sol";
+
+library LibPKPToolRegistrySpendingLimitFacet {
+    error InvalidDelegatee();
+    error InvalidSpendAmount();
+    error InvalidSpendingPeriod();
+    error SpendingLimitExceeded(
+        uint256 pkpTokenId,
+        string toolIpfsCid,
+        address delegatee,
+        address token,
+        uint256 spent,
+        uint256 amount,
+        uint256 limitAmount
+    );
+    error SpendNotFound(
+        uint256 pkpTokenId,
+        string toolIpfsCid,
+        address delegatee,
+        address token,
+        uint256 recordId
+    );
+    error InvalidRefundKey(
+        uint256 pkpTokenId,
+        string toolIpfsCid,
+        address delegatee,
+        address token,
+        uint256 recordId
+    );
+
+    event SpendRecorded(
+        uint256 indexed pkpTokenId,
+        string toolIpfsCid,
+        address indexed delegatee,
+        address indexed token,
+        uint256 amount,
+        uint256 recordId
+    );
+
+    event SpendRefunded(
+        uint256 indexed pkpTokenId,
+        string toolIpfsCid,
+        address indexed delegatee,
+        address indexed token,
+        uint256 amount,
+        uint256 recordId
+    );
+}
+
+/// @title PKP Tool Spending Limit Facet
+/// @notice Diamond facet for tracking the amounts delegatees spend through tools within rolling time windows
+/// @dev Limits are configured as policy parameters and enforced by the tools' policy Lit Actions,
+/// which record each spend from the PKP itself. Spends are stored chronologically per
+/// PKP, tool, delegatee and token, so window totals only iterate over the spends within the window.
+/// @custom:security-contact security@litprotocol.com
+contract PKPToolRegistrySpendingLimitFacet is PKPToolRegistryBase {
+    using PKPToolRegistryStorage for PKPToolRegistryStorage.Layout;
+
+    /// @notice Get the amount a delegatee spent through a tool within a rolling time window
+    /// @dev The window ends at the current block timestamp
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCid The IPFS CID of the tool
+    /// @param delegatee The delegatee address to get the spent amount for (cannot be zero address)
+    /// @param token The address of the spent token (zero address for the native token)
+    /// @param period The length of the window in seconds
+    /// @return spent The total amount spent within the window
+    /// @custom:throws InvalidDelegatee if delegatee is the zero address
+    /// @custom:throws InvalidSpendingPeriod if period is zero
+    /// @custom:throws ToolNotFound if tool is not registered
+    function getSpentAmount(
+        uint256 pkpTokenId,
+        string calldata toolIpfsCid,
+        address delegatee,
+        address token,
+        uint256 period
+    ) external view verifyToolExists(pkpTokenId, toolIpfsCid) returns (uint256 spent) {
+        if (delegatee == address(0)) revert LibPKPToolRegistrySpendingLimitFacet.InvalidDelegatee();
+        if (period == 0) revert LibPKPToolRegistrySpendingLimitFacet.InvalidSpendingPeriod();
+
+        return _spentWithinWindow(_spendRecords(pkpTokenId, toolIpfsCid, delegatee, token), period);
+    }
+
+    /// @notice Record an amount spent by a delegatee through a tool
+    /// @dev Only callable by the PKP, from the tool's policy Lit Action. The limit is checked atomically
+    /// with the spent total, so concurrent tool executions cannot exceed it
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCid The IPFS CID of the tool
+    /// @param delegatee The delegatee address that is spending (cannot be zero address)
+    /// @param token The address of the spent token (zero address for the native token)
+    /// @param amount The amount being spent
+    /// @param limitAmount The maximum amount that can be spent within the window
+    /// @param period The length of the window in seconds
+    /// @param refundKeyHash The keccak256 hash of the key required to refund the spend with refundSpend
+    /// @return recordId The ID of the spend record, its index among the records of the delegatee, tool and token
+    /// @custom:throws NotPKP if caller is not the PKP
+    /// @custom:throws InvalidDelegatee if delegatee is the zero address
+    /// @custom:throws InvalidSpendAmount if amount is zero
+    /// @custom:throws InvalidSpendingPeriod if period is zero
+    /// @custom:throws SpendingLimitExceeded if the amount would exceed the limit within the window
+    /// @custom:throws ToolNotFound if tool is not registered
+    function recordSpend(
+        uint256 pkpTokenId,
+        string calldata toolIpfsCid,
+        address delegatee,
+        address token,
+        uint256 amount,
+        uint256 limitAmount,
+        uint256 period,
+        bytes32 refundKeyHash
+    ) external onlyPKP(pkpTokenId) verifyToolExists(pkpTokenId, toolIpfsCid) returns (uint256 recordId) {
+        if (delegatee == address(0)) revert LibPKPToolRegistrySpendingLimitFacet.InvalidDelegatee();
+        if (amount == 0) revert LibPKPToolRegistrySpendingLimitFacet.InvalidSpendAmount();
+        if (period == 0) revert LibPKPToolRegistrySpendingLimitFacet.InvalidSpendingPeriod();
+
+        PKPToolRegistryStorage.SpendRecord[] storage records = _spendRecords(pkpTokenId, toolIpfsCid, delegatee, token);
+        uint256 spent = _spentWithinWindow(records, period);
+        if (spent + amount > limitAmount) {
+            revert LibPKPToolRegistrySpendingLimitFacet.SpendingLimitExceeded(
+                pkpTokenId,
+                toolIpfsCid,
+                delegatee,
+                token,
+                spent,
+                amount,
+                limitAmount
+            );
+        }
+
+        recordId = records.length;
+        records.push(PKPToolRegistryStorage.SpendRecord({
+            amount: amount,
+            timestamp: block.timestamp,
+            refundKeyHash: refundKeyHash
+        }));
+
+        emit LibPKPToolRegistrySpendingLimitFacet.SpendRecorded(
+            pkpTokenId,
+            toolIpfsCid,
+            delegatee,
+            token,
+            amount,
+            recordId
+        );
+    }
+
+    /// @notice Refund an amount recorded by recordSpend that was not spent
+    /// @dev Only callable by the PKP, from the tool execution that recorded the spend, when it failed
+    /// before broadcasting the transaction spending the amount. The PKP can sign for any permitted tool,
+    /// so the refund requires the key whose hash was recorded with the spend, which only that execution knows.
+    /// The record is zeroed rather than removed, keeping the records in chronological order
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCid The IPFS CID of the tool the spend was recorded for
+    /// @param delegatee The delegatee address the spend was recorded for (cannot be zero address)
+    /// @param token The address of the spent token (zero address for the native token)
+    /// @param recordId The ID of the spend record, returned by recordSpend
+    /// @param refundKey The key whose hash was recorded with the spend
+    /// @custom:throws NotPKP if caller is not the PKP
+    /// @custom:throws InvalidDelegatee if delegatee is the zero address
+    /// @custom:throws SpendNotFound if the record doesn't exist or was already refunded
+    /// @custom:throws InvalidRefundKey if the key doesn't match the recorded hash
+    /// @custom:throws ToolNotFound if tool is not registered
+    function refundSpend(
+        uint256 pkpTokenId,
+        string calldata toolIpfsCid,
+        address delegatee,
+        address token,
+        uint256 recordId,
+        bytes32 refundKey
+    ) external onlyPKP(pkpTokenId) verifyToolExists(pkpTokenId, toolIpfsCid) {
+        if (delegatee == address(0)) revert LibPKPToolRegistrySpendingLimitFacet.InvalidDelegatee();
+
+        PKPToolRegistryStorage.SpendRecord[] storage records = _spendRecords(pkpTokenId, toolIpfsCid, delegatee, token);
+        if (recordId >= records.length || records[recordId].amount == 0) {
+            revert LibPKPToolRegistrySpendingLimitFacet.SpendNotFound(pkpTokenId, toolIpfsCid, delegatee, token, recordId);
+        }
+
+        PKPToolRegistryStorage.SpendRecord storage record = records[recordId];
+        if (keccak256(abi.encodePacked(refundKey)) != record.refundKeyHash) {
+            revert LibPKPToolRegistrySpendingLimitFacet.InvalidRefundKey(pkpTokenId, toolIpfsCid, delegatee, token, recordId);
+        }
+
+        uint256 amount = record.amount;
+        record.amount = 0;
+
+        emit LibPKPToolRegistrySpendingLimitFacet.SpendRefunded(
+            pkpTokenId,
+            toolIpfsCid,
+            delegatee,
+            token,
+            amount,
+            recordId
+        );
+    }
+
+    /// @notice Get the spend records of a delegatee for a tool and token
+    /// @param pkpTokenId The PKP token ID
+    /// @param toolIpfsCid The IPFS CID of the tool
+    /// @param delegatee The delegatee address
+    /// @param token The address of the spent token
+    /// @return records Storage reference to the spend records, in chronological order
+    function _spendRecords(
+        uint256 pkpTokenId,
+        string calldata toolIpfsCid,
+        address delegatee,
+        address token
+    ) internal view returns (PKPToolRegistryStorage.SpendRecord[] storage records) {
+        PKPToolRegistryStorage.Layout storage l = PKPToolRegistryStorage.layout();
+        bytes32 toolCidHash = keccak256(bytes(toolIpfsCid));
+        return l.pkpStore[pkpTokenId].toolMap[toolCidHash].delegateeSpendRecords[delegatee][token];
+    }
+
+    /// @notice Sum the spend records within a rolling time window ending at the current block
+    /// @dev Iterates from the most recent record and stops at the first record outside the window
+    /// @param records The spend records, in chronological order
+    /// @param period The length of the window in seconds
+    /// @return spent The total amount spent within the window
+    function _spentWithinWindow(
+        PKPToolRegistryStorage.SpendRecord[] storage records,
+        uint256 period
+    ) internal view returns (uint256 spent) {
+        for (uint256 i = records.length; i > 0;) {
+            PKPToolRegistryStorage.SpendRecord storage record = records[i - 1];
+            if (block.timestamp - record.timestamp >= period) break;
+
+            spent += record.amount;
+            unchecked { --i; }
+        }
+    }
+}
@@ -547,6 +547,27 @@ contract PKPToolRegistryToolFacet is PKPToolRegistryBase {
                 unchecked { ++j; }
             }
 
+            // Remove the blanket policy if it exists
+            PKPToolRegistryStorage.Policy storage blanketPolicy = tool.blanketPolicy[PKPToolRegistryStorage.BLANKET_POLICY_KEY];
+            if (blanketPolicy.policyIpfsCidHash != bytes32(0)) {
+                uint256 numParams = blanketPolicy.parameterNameHashes.length();
+                bytes32[] memory paramHashes = new bytes32[](numParams);
+                for (uint256 k = 0; k < numParams;) {
+                    paramHashes[k] = blanketPolicy.parameterNameHashes.at(k);
+                    unchecked { ++k; }
+                }
+
+                for (uint256 k = 0; k < numParams;) {
+                    bytes32 paramNameHash = paramHashes[k];
+                    blanketPolicy.parameterNameHashes.remove(paramNameHash);
+                    delete l.hashedParameterNameToOriginalName[paramNameHash];
+                    delete blanketPolicy.parameters[paramNameHash];
+                    unchecked { ++k; }
+                }
+
+                delete tool.blanketPolicy[PKPToolRegistryStorage.BLANKET_POLICY_KEY];
+            }
+
             // Remove tool from set and delete its info
             pkpData.toolCids.remove(toolCidHash);
             delete pkpData.toolMap[toolCidHash];
@@ -10,4 +10,10 @@ interface IPKPNFTFacet {
     /// @param tokenId The ID of the PKP token to query
     /// @return The address of the PKP token owner
     function ownerOf(uint256 tokenId) external view returns (address);
+
+    /// @notice Retrieves the Ethereum address of a PKP
+    /// @dev Derived from the PKP's public key by the PKP NFT contract
+    /// @param tokenId The ID of the PKP token to query
+    /// @return The Ethereum address of the PKP
+    function getEthAddress(uint256 tokenId) external view returns (address);
 } 
\ No newline at end of file
@@ -15,6 +15,10 @@ library PKPToolRegistryStorage {
     /// @notice Unique storage position to avoid storage collisions in the diamond
     bytes32 internal constant STORAGE_SLOT = keccak256("lit.pkptoolregistry.storage");
 
+    /// @notice Key of the blanket policy in `ToolInfo.blanketPolicy`
+    /// @dev The blanket policy is stored in a mapping to allow versioning it in the future
+    uint256 internal constant BLANKET_POLICY_KEY = 0;
+
     /// @notice Stores all tool-related data for a single PKP
     /// @dev Uses EnumerableSets for efficient membership checks and iteration
     struct PKPData {
@@ -46,6 +50,19 @@ library PKPToolRegistryStorage {
         EnumerableSet.AddressSet delegateesWithCustomPolicy;
         /// @notice Maps delegatee addresses to their custom policies
         mapping(address => Policy) delegateeCustomPolicies;
+        /// @notice Maps delegatee addresses and token addresses to the amounts spent, in chronological order
+        mapping(address => mapping(address => SpendRecord[])) delegateeSpendRecords;
+    }
+
+    /// @notice Represents an amount spent by a delegatee through a tool
+    /// @dev Used to compute the total spent within a rolling time window
+    struct SpendRecord {
+        /// @notice The amount spent, in the token's smallest unit
+        uint256 amount;
+        /// @notice The block timestamp at which the amount was spent
+        uint256 timestamp;
+        /// @notice The hash of the key required to refund the amount, only known to the execution that recorded it
+        bytes32 refundKeyHash;
     }
 
     /// @notice Represents a policy with its configuration and parameters
@@ -0,0 +1,234 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "forge-std/Test.sol";
+import "./helpers/TestHelper.sol";
+import "../src/facets/PKPToolRegistryBlanketPolicyFacet.sol";
+import "../src/facets/PKPToolRegistryToolFacet.sol";
+import "../src/abstract/PKPToolRegistryBase.sol";
+
+contract PKPToolRegistryBlanketPolicyFacetTest is TestHelper {
+    PKPToolRegistryToolFacet toolFacet;
+    PKPToolRegistryBlanketPolicyFacet blanketPolicyFacet;
+
+    string[] toolIpfsCids;
+    string[] policyIpfsCids;
+
+    event BlanketPoliciesSet(uint256 indexed pkpTokenId, string[] toolIpfsCids, string[] policyIpfsCids, bool enablePolicies);
+    event BlanketPoliciesRemoved(uint256 indexed pkpTokenId, string[] toolIpfsCids);
+    event BlanketPolicyParametersSet(uint256 indexed pkpTokenId, string toolIpfsCid, string[] parameterNames, bytes[] parameterValues);
+
+    function setUp() public override {
+        super.setUp();
+        toolFacet = PKPToolRegistryToolFacet(address(diamond));
+        blanketPolicyFacet = PKPToolRegistryBlanketPolicyFacet(address(diamond));
+
+        toolIpfsCids = new string[](1);
+        toolIpfsCids[0] = TEST_TOOL_CID;
+        policyIpfsCids = new string[](1);
+        policyIpfsCids[0] = TEST_POLICY_CID;
+
+        vm.prank(deployer);
+        toolFacet.registerTools(TEST_PKP_TOKEN_ID, toolIpfsCids, true);
+    }
+
+    function _setBlanketPolicy() internal {
+        vm.prank(deployer);
+        blanketPolicyFacet.setBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids, policyIpfsCids, true);
+    }
+
+    function _setBlanketParameter() internal {
+        string[] memory parameterNames = new string[](1);
+        parameterNames[0] = TEST_PARAM_NAME;
+        bytes[] memory parameterValues = new bytes[](1);
+        parameterValues[0] = TEST_PARAM_VALUE;
+
+        vm.prank(deployer);
+        blanketPolicyFacet.setBlanketToolPolicyParameters(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, parameterNames, parameterValues);
+    }
+
+    function test_getBlanketToolPolicies_EmptyInitially() public view {
+        PKPToolRegistryBlanketPolicyFacet.BlanketToolPolicy[] memory policies =
+            blanketPolicyFacet.getBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids);
+
+        assertEq(policies.length, 1);
+        assertEq(policies[0].toolIpfsCid, TEST_TOOL_CID);
+        assertEq(policies[0].policyIpfsCid, "");
+        assertFalse(policies[0].enabled);
+    }
+
+    function test_setBlanketToolPolicies() public {
+        vm.expectEmit(true, false, false, true);
+        emit BlanketPoliciesSet(TEST_PKP_TOKEN_ID, toolIpfsCids, policyIpfsCids, true);
+        _setBlanketPolicy();
+
+        PKPToolRegistryBlanketPolicyFacet.BlanketToolPolicy[] memory policies =
+            blanketPolicyFacet.getBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids);
+        assertEq(policies[0].policyIpfsCid, TEST_POLICY_CID);
+        assertTrue(policies[0].enabled);
+    }
+
+    function test_setBlanketToolPolicies_AlreadySet() public {
+        _setBlanketPolicy();
+
+        vm.prank(deployer);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                LibPKPToolRegistryBlanketPolicyFacet.BlanketPolicyAlreadySet.selector,
+                TEST_PKP_TOKEN_ID,
+                TEST_TOOL_CID
+            )
+        );
+        blanketPolicyFacet.setBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids, policyIpfsCids, true);
+    }
+
+    function test_setBlanketToolPolicies_NotPKPOwner() public {
+        vm.prank(nonOwner);
+        vm.expectRevert(LibPKPToolRegistryBase.NotPKPOwner.selector);
+        blanketPolicyFacet.setBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids, policyIpfsCids, true);
+    }
+
+    function test_setBlanketToolPolicies_ToolNotFound() public {
+        string[] memory unknownToolIpfsCids = new string[](1);
+        unknownToolIpfsCids[0] = TEST_TOOL_CID_2;
+
+        vm.prank(deployer);
+        vm.expectRevert(abi.encodeWithSelector(LibPKPToolRegistryBase.ToolNotFound.selector, TEST_TOOL_CID_2));
+        blanketPolicyFacet.setBlanketToolPolicies(TEST_PKP_TOKEN_ID, unknownToolIpfsCids, policyIpfsCids, true);
+    }
+
+    function test_setBlanketToolPolicies_InvalidInputs() public {
+        vm.startPrank(deployer);
+
+        vm.expectRevert(LibPKPToolRegistryBlanketPolicyFacet.ArrayLengthMismatch.selector);
+        blanketPolicyFacet.setBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids, new string[](0), true);
+
+        string[] memory emptyPolicyIpfsCids = new string[](1);
+        vm.expectRevert(LibPKPToolRegistryBlanketPolicyFacet.EmptyPolicyIPFSCID.selector);
+        blanketPolicyFacet.setBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids, emptyPolicyIpfsCids, true);
+
+        vm.stopPrank();
+    }
+
+    function test_enableAndDisableBlanketToolPolicies() public {
+        _setBlanketPolicy();
+
+        vm.startPrank(deployer);
+        blanketPolicyFacet.disableBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids);
+        assertFalse(blanketPolicyFacet.getBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids)[0].enabled);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                LibPKPToolRegistryBlanketPolicyFacet.BlanketPolicySameEnabledState.selector,
+                TEST_PKP_TOKEN_ID,
+                TEST_TOOL_CID
+            )
+        );
+        blanketPolicyFacet.disableBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids);
+
+        blanketPolicyFacet.enableBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids);
+        assertTrue(blanketPolicyFacet.getBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids)[0].enabled);
+        vm.stopPrank();
+    }
+
+    function test_enableBlanketToolPolicies_NoBlanketPolicySet() public {
+        vm.prank(deployer);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                LibPKPToolRegistryBlanketPolicyFacet.NoBlanketPolicySet.selector,
+                TEST_PKP_TOKEN_ID,
+                TEST_TOOL_CID
+            )
+        );
+        blanketPolicyFacet.enableBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids);
+    }
+
+    function test_setBlanketToolPolicyParameters() public {
+        _setBlanketPolicy();
+
+        string[] memory parameterNames = new string[](1);
+        parameterNames[0] = TEST_PARAM_NAME;
+        bytes[] memory parameterValues = new bytes[](1);
+        parameterValues[0] = TEST_PARAM_VALUE;
+
+        vm.expectEmit(true, false, false, true);
+        emit BlanketPolicyParametersSet(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, parameterNames, parameterValues);
+        _setBlanketParameter();
+
+        PKPToolRegistryBlanketPolicyFacet.Parameter[] memory parameters =
+            blanketPolicyFacet.getAllBlanketToolPolicyParameters(TEST_PKP_TOKEN_ID, TEST_TOOL_CID);
+        assertEq(parameters.length, 1);
+        assertEq(parameters[0].name, TEST_PARAM_NAME);
+        assertEq(parameters[0].value, TEST_PARAM_VALUE);
+
+        // Parameters that aren't set are omitted
+        string[] memory requestedNames = new string[](2);
+        requestedNames[0] = TEST_PARAM_NAME;
+        requestedNames[1] = TEST_PARAM_NAME_2;
+        parameters = blanketPolicyFacet.getBlanketToolPolicyParameters(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, requestedNames);
+        assertEq(parameters.length, 1);
+        assertEq(parameters[0].name, TEST_PARAM_NAME);
+    }
+
+    function test_setBlanketToolPolicyParameters_NoBlanketPolicySet() public {
+        string[] memory parameterNames = new string[](1);
+        parameterNames[0] = TEST_PARAM_NAME;
+        bytes[] memory parameterValues = new bytes[](1);
+        parameterValues[0] = TEST_PARAM_VALUE;
+
+        vm.prank(deployer);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                LibPKPToolRegistryBlanketPolicyFacet.NoBlanketPolicySet.selector,
+                TEST_PKP_TOKEN_ID,
+                TEST_TOOL_CID
+            )
+        );
+        blanketPolicyFacet.setBlanketToolPolicyParameters(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, parameterNames, parameterValues);
+    }
+
+    function test_removeBlanketToolPolicyParameters() public {
+        _setBlanketPolicy();
+        _setBlanketParameter();
+
+        string[] memory parameterNames = new string[](1);
+        parameterNames[0] = TEST_PARAM_NAME;
+
+        vm.prank(deployer);
+        blanketPolicyFacet.removeBlanketToolPolicyParameters(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, parameterNames);
+
+        assertEq(blanketPolicyFacet.getAllBlanketToolPolicyParameters(TEST_PKP_TOKEN_ID, TEST_TOOL_CID).length, 0);
+    }
+
+    function test_removeBlanketToolPolicies() public {
+        _setBlanketPolicy();
+        _setBlanketParameter();
+
+        vm.expectEmit(true, false, false, true);
+        emit BlanketPoliciesRemoved(TEST_PKP_TOKEN_ID, toolIpfsCids);
+        vm.prank(deployer);
+        blanketPolicyFacet.removeBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids);
+
+        assertEq(blanketPolicyFacet.getBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids)[0].policyIpfsCid, "");
+        assertEq(blanketPolicyFacet.getAllBlanketToolPolicyParameters(TEST_PKP_TOKEN_ID, TEST_TOOL_CID).length, 0);
+
+        // The blanket policy can be set again after being removed
+        _setBlanketPolicy();
+    }
+
+    function test_removeTools_RemovesBlanketPolicy() public {
+        _setBlanketPolicy();
+        _setBlanketParameter();
+
+        vm.startPrank(deployer);
+        toolFacet.removeTools(TEST_PKP_TOKEN_ID, toolIpfsCids);
+        toolFacet.registerTools(TEST_PKP_TOKEN_ID, toolIpfsCids, true);
+        vm.stopPrank();
+
+        PKPToolRegistryBlanketPolicyFacet.BlanketToolPolicy[] memory policies =
+            blanketPolicyFacet.getBlanketToolPolicies(TEST_PKP_TOKEN_ID, toolIpfsCids);
+        assertEq(policies[0].policyIpfsCid, "");
+        assertFalse(policies[0].enabled);
+        assertEq(blanketPolicyFacet.getAllBlanketToolPolicyParameters(TEST_PKP_TOKEN_ID, TEST_TOOL_CID).length, 0);
+    }
+}
@@ -16,6 +16,8 @@ import "../src/facets/PKPToolRegistryPolicyFacet.sol";
 import "../src/facets/PKPToolRegistryToolFacet.sol";
 import "../src/facets/PKPToolRegistryDelegateeFacet.sol";
 import "../src/facets/PKPToolRegistryPolicyParameterFacet.sol";
+import "../src/facets/PKPToolRegistrySpendingLimitFacet.sol";
+import "../src/facets/PKPToolRegistryBlanketPolicyFacet.sol";
 import "../src/libraries/PKPToolRegistryStorage.sol";
 import { LibDiamond, NotContractOwner } from "../src/diamond/libraries/LibDiamond.sol";
 import { LibPKPToolRegistryToolFacet } from "../src/facets/PKPToolRegistryToolFacet.sol";
@@ -43,8 +45,8 @@ contract PKPToolRegistryDiamondTest is Test, TestHelper {
     function test_facetsAreInstalled() public {
         IDiamondLoupe.Facet[] memory facets = IDiamondLoupe(address(diamond)).facets();
         
-        // Should have 7 facets (DiamondCut + 6 others)
-        assertEq(facets.length, 7, "Wrong number of facets");
+        // Should have 9 facets (DiamondCut + 8 others)
+        assertEq(facets.length, 9, "Wrong number of facets");
         
         // Verify each facet has the correct number of functions
         for (uint i = 0; i < facets.length; i++) {
@@ -346,6 +348,8 @@ contract PKPToolRegistryDiamondTest is Test, TestHelper {
         if (hash == keccak256(type(PKPToolRegistryToolFacet).runtimeCode)) return deployScript.getToolFacetSelectors().length;
         if (hash == keccak256(type(PKPToolRegistryDelegateeFacet).runtimeCode)) return deployScript.getDelegateeFacetSelectors().length;
         if (hash == keccak256(type(PKPToolRegistryPolicyParameterFacet).runtimeCode)) return deployScript.getPolicyParameterFacetSelectors().length;
+        if (hash == keccak256(type(PKPToolRegistrySpendingLimitFacet).runtimeCode)) return deployScript.getSpendingLimitFacetSelectors().length;
+        if (hash == keccak256(type(PKPToolRegistryBlanketPolicyFacet).runtimeCode)) return deployScript.getBlanketPolicyFacetSelectors().length;
         
         return 0;
     }
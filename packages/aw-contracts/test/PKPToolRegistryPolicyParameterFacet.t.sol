@@ -109,6 +109,82 @@ contract PKPToolRegistryPolicyParameterFacetTest is TestHelper {
         assertEq(parameters[0].value, TEST_PARAM_VALUE);
     }
 
+    function test_updateToolPolicyParametersForDelegatee_OverwritesExistingValue() public {
+        vm.startPrank(deployer);
+        string[] memory paramNames = new string[](1);
+        paramNames[0] = TEST_PARAM_NAME;
+        bytes[] memory paramValues = new bytes[](1);
+        paramValues[0] = TEST_PARAM_VALUE;
+
+        policyParameterFacet.setToolPolicyParametersForDelegatee(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE,
+            paramNames,
+            paramValues
+        );
+
+        paramValues[0] = TEST_PARAM_VALUE_2;
+        policyParameterFacet.updateToolPolicyParametersForDelegatee(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE,
+            paramNames,
+            paramValues
+        );
+        vm.stopPrank();
+
+        PKPToolRegistryPolicyParameterFacet.Parameter[] memory parameters = policyParameterFacet.getAllToolPolicyParameters(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE
+        );
+        assertEq(parameters.length, 1);
+        assertEq(parameters[0].name, TEST_PARAM_NAME);
+        assertEq(parameters[0].value, TEST_PARAM_VALUE_2);
+    }
+
+    function test_updateToolPolicyParametersForDelegatee_SetsNewParameter() public {
+        string[] memory paramNames = new string[](1);
+        paramNames[0] = TEST_PARAM_NAME;
+        bytes[] memory paramValues = new bytes[](1);
+        paramValues[0] = TEST_PARAM_VALUE;
+
+        vm.prank(deployer);
+        policyParameterFacet.updateToolPolicyParametersForDelegatee(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE,
+            paramNames,
+            paramValues
+        );
+
+        PKPToolRegistryPolicyParameterFacet.Parameter[] memory parameters = policyParameterFacet.getAllToolPolicyParameters(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE
+        );
+        assertEq(parameters.length, 1);
+        assertEq(parameters[0].name, TEST_PARAM_NAME);
+        assertEq(parameters[0].value, TEST_PARAM_VALUE);
+    }
+
+    function test_updateToolPolicyParametersForDelegatee_NotOwner() public {
+        string[] memory paramNames = new string[](1);
+        paramNames[0] = TEST_PARAM_NAME;
+        bytes[] memory paramValues = new bytes[](1);
+        paramValues[0] = TEST_PARAM_VALUE;
+
+        vm.expectRevert(LibPKPToolRegistryBase.NotPKPOwner.selector);
+        policyParameterFacet.updateToolPolicyParametersForDelegatee(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE,
+            paramNames,
+            paramValues
+        );
+    }
+
     function test_setToolPolicyParametersForDelegatee_NotOwner() public {
         string[] memory paramNames = new string[](1);
         paramNames[0] = TEST_PARAM_NAME;
@@ -0,0 +1,317 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "forge-std/Test.sol";
+import "./helpers/TestHelper.sol";
+import "../src/facets/PKPToolRegistrySpendingLimitFacet.sol";
+import "../src/facets/PKPToolRegistryToolFacet.sol";
+import "../src/facets/PKPToolRegistryDelegateeFacet.sol";
+import "../src/abstract/PKPToolRegistryBase.sol";
+
+contract PKPToolRegistrySpendingLimitFacetTest is TestHelper {
+    PKPToolRegistryToolFacet toolFacet;
+    PKPToolRegistryDelegateeFacet delegateeFacet;
+    PKPToolRegistrySpendingLimitFacet spendingLimitFacet;
+
+    address pkpEthAddress;
+
+    address constant TEST_TOKEN = address(0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48);
+    uint256 constant TEST_LIMIT = 100e6;
+    uint256 constant TEST_PERIOD = 1 days;
+    bytes32 constant TEST_REFUND_KEY = keccak256("refund key");
+
+    event SpendRecorded(
+        uint256 indexed pkpTokenId,
+        string toolIpfsCid,
+        address indexed delegatee,
+        address indexed token,
+        uint256 amount,
+        uint256 recordId
+    );
+
+    event SpendRefunded(
+        uint256 indexed pkpTokenId,
+        string toolIpfsCid,
+        address indexed delegatee,
+        address indexed token,
+        uint256 amount,
+        uint256 recordId
+    );
+
+    function setUp() public override {
+        super.setUp();
+        toolFacet = PKPToolRegistryToolFacet(address(diamond));
+        delegateeFacet = PKPToolRegistryDelegateeFacet(address(diamond));
+        spendingLimitFacet = PKPToolRegistrySpendingLimitFacet(address(diamond));
+
+        pkpEthAddress = makeAddr("pkp");
+        mockPkpNft.setEthAddress(TEST_PKP_TOKEN_ID, pkpEthAddress);
+
+        vm.startPrank(deployer);
+        string[] memory toolIpfsCids = new string[](1);
+        toolIpfsCids[0] = TEST_TOOL_CID;
+        toolFacet.registerTools(TEST_PKP_TOKEN_ID, toolIpfsCids, true);
+        address[] memory delegatees = new address[](1);
+        delegatees[0] = TEST_DELEGATEE;
+        delegateeFacet.addDelegatees(TEST_PKP_TOKEN_ID, delegatees);
+        vm.stopPrank();
+
+        // Start from a realistic timestamp so windows don't reach before genesis
+        vm.warp(1_700_000_000);
+    }
+
+    function _recordSpend(uint256 amount) internal returns (uint256) {
+        vm.prank(pkpEthAddress);
+        return spendingLimitFacet.recordSpend(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE,
+            TEST_TOKEN,
+            amount,
+            TEST_LIMIT,
+            TEST_PERIOD,
+            _refundKeyHash()
+        );
+    }
+
+    function _refundKeyHash() internal pure returns (bytes32) {
+        return keccak256(abi.encodePacked(TEST_REFUND_KEY));
+    }
+
+    function _spentAmount() internal view returns (uint256) {
+        return spendingLimitFacet.getSpentAmount(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE,
+            TEST_TOKEN,
+            TEST_PERIOD
+        );
+    }
+
+    function test_getSpentAmount_ZeroInitially() public view {
+        assertEq(_spentAmount(), 0);
+    }
+
+    function test_recordSpend() public {
+        vm.expectEmit(true, true, true, true);
+        emit SpendRecorded(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, 40e6, 0);
+        assertEq(_recordSpend(40e6), 0);
+
+        vm.warp(block.timestamp + 1 hours);
+        assertEq(_recordSpend(60e6), 1);
+
+        assertEq(_spentAmount(), 100e6);
+    }
+
+    function test_recordSpend_ExceedsLimit() public {
+        _recordSpend(60e6);
+
+        vm.prank(pkpEthAddress);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                LibPKPToolRegistrySpendingLimitFacet.SpendingLimitExceeded.selector,
+                TEST_PKP_TOKEN_ID,
+                TEST_TOOL_CID,
+                TEST_DELEGATEE,
+                TEST_TOKEN,
+                60e6,
+                41e6,
+                TEST_LIMIT
+            )
+        );
+        spendingLimitFacet.recordSpend(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE,
+            TEST_TOKEN,
+            41e6,
+            TEST_LIMIT,
+            TEST_PERIOD,
+            _refundKeyHash()
+        );
+    }
+
+    function test_recordSpend_RollingWindow() public {
+        _recordSpend(60e6);
+        vm.warp(block.timestamp + 12 hours);
+        _recordSpend(40e6);
+
+        // The first spend leaves the window 24 hours after it was recorded
+        vm.warp(block.timestamp + 12 hours);
+        assertEq(_spentAmount(), 40e6);
+
+        _recordSpend(60e6);
+        assertEq(_spentAmount(), 100e6);
+
+        // The second spend leaves the window, but the third is still in it
+        vm.warp(block.timestamp + 12 hours);
+        assertEq(_spentAmount(), 60e6);
+    }
+
+    function test_recordSpend_SeparateTotalsPerToken() public {
+        _recordSpend(TEST_LIMIT);
+
+        vm.prank(pkpEthAddress);
+        spendingLimitFacet.recordSpend(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE,
+            address(0),
+            TEST_LIMIT,
+            TEST_LIMIT,
+            TEST_PERIOD,
+            _refundKeyHash()
+        );
+
+        assertEq(_spentAmount(), TEST_LIMIT);
+        assertEq(
+            spendingLimitFacet.getSpentAmount(
+                TEST_PKP_TOKEN_ID,
+                TEST_TOOL_CID,
+                TEST_DELEGATEE,
+                address(0),
+                TEST_PERIOD
+            ),
+            TEST_LIMIT
+        );
+    }
+
+    function test_recordSpend_NotPKP() public {
+        // Not even the PKP owner can record spends
+        vm.prank(deployer);
+        vm.expectRevert(LibPKPToolRegistryBase.NotPKP.selector);
+        spendingLimitFacet.recordSpend(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID,
+            TEST_DELEGATEE,
+            TEST_TOKEN,
+            1,
+            TEST_LIMIT,
+            TEST_PERIOD,
+            _refundKeyHash()
+        );
+    }
+
+    function test_recordSpend_ToolNotFound() public {
+        vm.prank(pkpEthAddress);
+        vm.expectRevert(abi.encodeWithSelector(LibPKPToolRegistryBase.ToolNotFound.selector, TEST_TOOL_CID_2));
+        spendingLimitFacet.recordSpend(
+            TEST_PKP_TOKEN_ID,
+            TEST_TOOL_CID_2,
+            TEST_DELEGATEE,
+            TEST_TOKEN,
+            1,
+            TEST_LIMIT,
+            TEST_PERIOD,
+            _refundKeyHash()
+        );
+    }
+
+    function test_refundSpend() public {
+        uint256 recordId = _recordSpend(60e6);
+        _recordSpend(30e6);
+
+        vm.expectEmit(true, true, true, true);
+        emit SpendRefunded(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, 60e6, recordId);
+
+        vm.prank(pkpEthAddress);
+        spendingLimitFacet.refundSpend(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, recordId, TEST_REFUND_KEY);
+
+        assertEq(_spentAmount(), 30e6);
+
+        // The refunded amount can be spent again within the same period
+        _recordSpend(70e6);
+        assertEq(_spentAmount(), 100e6);
+    }
+
+    function test_refundSpend_RefundsOnlyItsRecord() public {
+        // Records of the same amount are told apart by their ID
+        uint256 firstRecordId = _recordSpend(30e6);
+        _recordSpend(30e6);
+
+        vm.prank(pkpEthAddress);
+        spendingLimitFacet.refundSpend(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, firstRecordId, TEST_REFUND_KEY);
+
+        assertEq(_spentAmount(), 30e6);
+    }
+
+    function test_refundSpend_SpendNotFound() public {
+        _recordSpend(60e6);
+
+        vm.prank(pkpEthAddress);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                LibPKPToolRegistrySpendingLimitFacet.SpendNotFound.selector,
+                TEST_PKP_TOKEN_ID,
+                TEST_TOOL_CID,
+                TEST_DELEGATEE,
+                TEST_TOKEN,
+                1
+            )
+        );
+        spendingLimitFacet.refundSpend(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, 1, TEST_REFUND_KEY);
+    }
+
+    function test_refundSpend_InvalidRefundKey() public {
+        uint256 recordId = _recordSpend(60e6);
+
+        // Another tool signing with the PKP doesn't know the key of the recording execution
+        vm.prank(pkpEthAddress);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                LibPKPToolRegistrySpendingLimitFacet.InvalidRefundKey.selector,
+                TEST_PKP_TOKEN_ID,
+                TEST_TOOL_CID,
+                TEST_DELEGATEE,
+                TEST_TOKEN,
+                recordId
+            )
+        );
+        spendingLimitFacet.refundSpend(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, recordId, _refundKeyHash());
+
+        assertEq(_spentAmount(), 60e6);
+    }
+
+    function test_refundSpend_OnlyOnce() public {
+        uint256 recordId = _recordSpend(60e6);
+
+        vm.startPrank(pkpEthAddress);
+        spendingLimitFacet.refundSpend(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, recordId, TEST_REFUND_KEY);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                LibPKPToolRegistrySpendingLimitFacet.SpendNotFound.selector,
+                TEST_PKP_TOKEN_ID,
+                TEST_TOOL_CID,
+                TEST_DELEGATEE,
+                TEST_TOKEN,
+                recordId
+            )
+        );
+        spendingLimitFacet.refundSpend(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, recordId, TEST_REFUND_KEY);
+        vm.stopPrank();
+    }
+
+    function test_refundSpend_NotPKP() public {
+        uint256 recordId = _recordSpend(60e6);
+
+        vm.prank(deployer);
+        vm.expectRevert(LibPKPToolRegistryBase.NotPKP.selector);
+        spendingLimitFacet.refundSpend(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, recordId, TEST_REFUND_KEY);
+    }
+
+    function test_recordSpend_InvalidParameters() public {
+        vm.startPrank(pkpEthAddress);
+
+        vm.expectRevert(LibPKPToolRegistrySpendingLimitFacet.InvalidDelegatee.selector);
+        spendingLimitFacet.recordSpend(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, address(0), TEST_TOKEN, 1, TEST_LIMIT, TEST_PERIOD, _refundKeyHash());
+
+        vm.expectRevert(LibPKPToolRegistrySpendingLimitFacet.InvalidSpendAmount.selector);
+        spendingLimitFacet.recordSpend(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, 0, TEST_LIMIT, TEST_PERIOD, _refundKeyHash());
+
+        vm.expectRevert(LibPKPToolRegistrySpendingLimitFacet.InvalidSpendingPeriod.selector);
+        spendingLimitFacet.recordSpend(TEST_PKP_TOKEN_ID, TEST_TOOL_CID, TEST_DELEGATEE, TEST_TOKEN, 1, TEST_LIMIT, 0, _refundKeyHash());
+
+        vm.stopPrank();
+    }
+}
@@ -0,0 +1,166 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "forge-std/Test.sol";
+import "../../src/facets/PKPToolRegistryToolFacet.sol";
+import "../../src/facets/PKPToolRegistryDelegateeFacet.sol";
+import "../../src/abstract/PKPToolRegistryBase.sol";
+import "../mocks/MockSafe.sol";
+import "../helpers/TestHelper.sol";
+
+contract PKPToolRegistryMultisigOwnerTest is Test, TestHelper {
+    uint256 constant OWNER_1_KEY = 0xA11CE;
+    uint256 constant OWNER_2_KEY = 0xB0B;
+    uint256 constant OWNER_3_KEY = 0xCA401;
+
+    MockSafe safe;
+    PKPToolRegistryToolFacet toolRegistryToolFacet;
+    PKPToolRegistryDelegateeFacet toolRegistryDelegateeFacet;
+
+    function setUp() public override {
+        super.setUp();
+        toolRegistryToolFacet = PKPToolRegistryToolFacet(address(diamond));
+        toolRegistryDelegateeFacet = PKPToolRegistryDelegateeFacet(address(diamond));
+
+        address[] memory owners = new address[](3);
+        owners[0] = vm.addr(OWNER_1_KEY);
+        owners[1] = vm.addr(OWNER_2_KEY);
+        owners[2] = vm.addr(OWNER_3_KEY);
+        safe = new MockSafe(owners, 2);
+
+        // The PKP is owned by the multisig instead of an EOA
+        mockPkpNft.setOwner(TEST_PKP_TOKEN_ID, address(safe));
+    }
+
+    /// @notice Test that a multisig owned PKP can register tools once the threshold is met
+    function test_registerToolsThroughMultisig() public {
+        string[] memory toolIpfsCids = new string[](1);
+        toolIpfsCids[0] = TEST_TOOL_CID;
+        bytes memory data = abi.encodeCall(
+            PKPToolRegistryToolFacet.registerTools,
+            (TEST_PKP_TOKEN_ID, toolIpfsCids, true)
+        );
+
+        uint256[] memory signerKeys = new uint256[](2);
+        signerKeys[0] = OWNER_1_KEY;
+        signerKeys[1] = OWNER_3_KEY;
+        _execTransaction(data, signerKeys);
+
+        (bool isRegistered, bool isEnabled) = toolRegistryToolFacet.isToolRegistered(TEST_PKP_TOKEN_ID, TEST_TOOL_CID);
+        assertTrue(isRegistered, "Tool should be registered");
+        assertTrue(isEnabled, "Tool should be enabled");
+        assertEq(safe.nonce(), 1, "Multisig nonce should be incremented");
+    }
+
+    /// @notice Test that queued proposals are executed in nonce order
+    function test_executeQueuedProposals() public {
+        string[] memory toolIpfsCids = new string[](1);
+        toolIpfsCids[0] = TEST_TOOL_CID;
+        address[] memory delegatees = new address[](1);
+        delegatees[0] = TEST_DELEGATEE;
+
+        uint256[] memory signerKeys = new uint256[](2);
+        signerKeys[0] = OWNER_1_KEY;
+        signerKeys[1] = OWNER_2_KEY;
+        _execTransaction(
+            abi.encodeCall(PKPToolRegistryToolFacet.registerTools, (TEST_PKP_TOKEN_ID, toolIpfsCids, true)),
+            signerKeys
+        );
+        _execTransaction(
+            abi.encodeCall(PKPToolRegistryDelegateeFacet.addDelegatees, (TEST_PKP_TOKEN_ID, delegatees)),
+            signerKeys
+        );
+
+        assertTrue(
+            toolRegistryDelegateeFacet.isPkpDelegatee(TEST_PKP_TOKEN_ID, TEST_DELEGATEE),
+            "Delegatee should be added"
+        );
+        assertEq(safe.nonce(), 2, "Multisig nonce should be incremented twice");
+    }
+
+    /// @notice Test that owners using external signers can approve with eth_sign signatures
+    function test_registerToolsWithEthSignSignatures() public {
+        string[] memory toolIpfsCids = new string[](1);
+        toolIpfsCids[0] = TEST_TOOL_CID;
+        bytes memory data = abi.encodeCall(
+            PKPToolRegistryToolFacet.registerTools,
+            (TEST_PKP_TOKEN_ID, toolIpfsCids, true)
+        );
+
+        uint256[] memory signerKeys = new uint256[](2);
+        signerKeys[0] = OWNER_2_KEY;
+        signerKeys[1] = OWNER_3_KEY;
+        bytes32 ethSignedHash = keccak256(
+            abi.encodePacked("\x19Ethereum Signed Message:\n32", _getTransactionHash(data))
+        );
+        bytes memory signatures = _sign(ethSignedHash, signerKeys);
+        for (uint256 i = 0; i < signerKeys.length; i++) {
+            signatures[i * 65 + 64] = bytes1(uint8(signatures[i * 65 + 64]) + 4);
+        }
+
+        safe.execTransaction(
+            address(diamond), 0, data, 0, 0, 0, 0, address(0), payable(address(0)), signatures
+        );
+
+        (bool isRegistered,) = toolRegistryToolFacet.isToolRegistered(TEST_PKP_TOKEN_ID, TEST_TOOL_CID);
+        assertTrue(isRegistered, "Tool should be registered");
+    }
+
+    /// @notice Test that a single owner cannot execute a proposal below the threshold
+    function test_revertWhenThresholdNotMet() public {
+        string[] memory toolIpfsCids = new string[](1);
+        toolIpfsCids[0] = TEST_TOOL_CID;
+        bytes memory data = abi.encodeCall(
+            PKPToolRegistryToolFacet.registerTools,
+            (TEST_PKP_TOKEN_ID, toolIpfsCids, true)
+        );
+
+        uint256[] memory signerKeys = new uint256[](1);
+        signerKeys[0] = OWNER_1_KEY;
+        bytes memory signatures = _sign(_getTransactionHash(data), signerKeys);
+
+        vm.expectRevert("MockSafe: not enough signatures");
+        safe.execTransaction(
+            address(diamond), 0, data, 0, 0, 0, 0, address(0), payable(address(0)), signatures
+        );
+    }
+
+    /// @notice Test that multisig owners cannot bypass the multisig
+    function test_revertWhenOwnerCallsRegistryDirectly() public {
+        string[] memory toolIpfsCids = new string[](1);
+        toolIpfsCids[0] = TEST_TOOL_CID;
+
+        vm.prank(vm.addr(OWNER_1_KEY));
+        vm.expectRevert(LibPKPToolRegistryBase.NotPKPOwner.selector);
+        toolRegistryToolFacet.registerTools(TEST_PKP_TOKEN_ID, toolIpfsCids, true);
+    }
+
+    function _getTransactionHash(bytes memory data) private view returns (bytes32) {
+        return safe.getTransactionHash(
+            address(diamond), 0, data, 0, 0, 0, 0, address(0), address(0), safe.nonce()
+        );
+    }
+
+    /// @dev Signs the hash with each key, ordering the signatures by ascending owner address
+    function _sign(bytes32 txHash, uint256[] memory signerKeys) private pure returns (bytes memory signatures) {
+        for (uint256 i = 0; i < signerKeys.length; i++) {
+            for (uint256 j = i + 1; j < signerKeys.length; j++) {
+                if (vm.addr(signerKeys[j]) < vm.addr(signerKeys[i])) {
+                    (signerKeys[i], signerKeys[j]) = (signerKeys[j], signerKeys[i]);
+                }
+            }
+        }
+
+        for (uint256 i = 0; i < signerKeys.length; i++) {
+            (uint8 v, bytes32 r, bytes32 s) = vm.sign(signerKeys[i], txHash);
+            signatures = abi.encodePacked(signatures, r, s, v);
+        }
+    }
+
+    function _execTransaction(bytes memory data, uint256[] memory signerKeys) private {
+        bytes memory signatures = _sign(_getTransactionHash(data), signerKeys);
+        safe.execTransaction(
+            address(diamond), 0, data, 0, 0, 0, 0, address(0), payable(address(0)), signatures
+        );
+    }
+}
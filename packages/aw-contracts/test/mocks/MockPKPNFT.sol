@@ -5,6 +5,7 @@ import "../../src/interfaces/IPKPNFTFacet.sol";
 
 contract MockPKPNFT is IPKPNFTFacet {
     mapping(uint256 => address) private _owners;
+    mapping(uint256 => address) private _ethAddresses;
 
     function ownerOf(uint256 tokenId) external view returns (address) {
         address owner = _owners[tokenId];
@@ -15,4 +16,12 @@ contract MockPKPNFT is IPKPNFTFacet {
     function setOwner(uint256 tokenId, address owner) external {
         _owners[tokenId] = owner;
     }
+
+    function getEthAddress(uint256 tokenId) external view returns (address) {
+        return _ethAddresses[tokenId];
+    }
+
+    function setEthAddress(uint256 tokenId, address ethAddress) external {
+        _ethAddresses[tokenId] = ethAddress;
+    }
 } 
\ No newline at end of file
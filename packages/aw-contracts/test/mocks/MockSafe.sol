@@ -0,0 +1,126 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Minimal Safe-like multisig used to own PKPs in tests
+/// @notice Implements the subset of the Safe interface used by the Admin signer:
+/// `nonce`, `getThreshold`, `getOwners`, `getTransactionHash` and `execTransaction`.
+/// Only regular calls without gas refunds are supported.
+contract MockSafe {
+    bytes32 private constant DOMAIN_SEPARATOR_TYPEHASH =
+        keccak256("EIP712Domain(uint256 chainId,address verifyingContract)");
+    bytes32 private constant SAFE_TX_TYPEHASH =
+        keccak256(
+            "SafeTx(address to,uint256 value,bytes data,uint8 operation,uint256 safeTxGas,uint256 baseGas,uint256 gasPrice,address gasToken,address refundReceiver,uint256 nonce)"
+        );
+
+    address[] private owners;
+    mapping(address => bool) public isOwner;
+    uint256 private threshold;
+    uint256 public nonce;
+
+    event ExecutionSuccess(bytes32 indexed txHash);
+
+    constructor(address[] memory _owners, uint256 _threshold) {
+        require(_threshold > 0 && _threshold <= _owners.length, "MockSafe: invalid threshold");
+        for (uint256 i = 0; i < _owners.length; i++) {
+            require(_owners[i] != address(0) && !isOwner[_owners[i]], "MockSafe: invalid owner");
+            isOwner[_owners[i]] = true;
+        }
+        owners = _owners;
+        threshold = _threshold;
+    }
+
+    function getOwners() external view returns (address[] memory) {
+        return owners;
+    }
+
+    function getThreshold() external view returns (uint256) {
+        return threshold;
+    }
+
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_SEPARATOR_TYPEHASH, block.chainid, address(this)));
+    }
+
+    function getTransactionHash(
+        address to,
+        uint256 value,
+        bytes calldata data,
+        uint8 operation,
+        uint256 safeTxGas,
+        uint256 baseGas,
+        uint256 gasPrice,
+        address gasToken,
+        address refundReceiver,
+        uint256 _nonce
+    ) public view returns (bytes32) {
+        bytes32 safeTxHash = keccak256(
+            abi.encode(
+                SAFE_TX_TYPEHASH,
+                to,
+                value,
+                keccak256(data),
+                operation,
+                safeTxGas,
+                baseGas,
+                gasPrice,
+                gasToken,
+                refundReceiver,
+                _nonce
+            )
+        );
+        return keccak256(abi.encodePacked(bytes1(0x19), bytes1(0x01), domainSeparator(), safeTxHash));
+    }
+
+    function execTransaction(
+        address to,
+        uint256 value,
+        bytes calldata data,
+        uint8 operation,
+        uint256 safeTxGas,
+        uint256 baseGas,
+        uint256 gasPrice,
+        address gasToken,
+        address payable refundReceiver,
+        bytes calldata signatures
+    ) external payable returns (bool success) {
+        require(operation == 0, "MockSafe: only calls are supported");
+        require(gasPrice == 0, "MockSafe: refunds are not supported");
+
+        bytes32 txHash = getTransactionHash(
+            to, value, data, operation, safeTxGas, baseGas, gasPrice, gasToken, refundReceiver, nonce
+        );
+        nonce++;
+        _checkSignatures(txHash, signatures);
+
+        (success,) = to.call{value: value}(data);
+        require(success, "MockSafe: execution failed");
+
+        emit ExecutionSuccess(txHash);
+    }
+
+    function onERC721Received(address, address, uint256, bytes calldata) external pure returns (bytes4) {
+        return this.onERC721Received.selector;
+    }
+
+    receive() external payable {}
+
+    /// @dev Signatures are 65 byte ECDSA signatures over the transaction hash, ordered by ascending owner address.
+    /// Signatures with `v > 30` are `eth_sign` signatures over the prefixed transaction hash, with `v` increased by 4.
+    function _checkSignatures(bytes32 txHash, bytes calldata signatures) private view {
+        require(signatures.length >= threshold * 65, "MockSafe: not enough signatures");
+
+        address lastOwner = address(0);
+        for (uint256 i = 0; i < threshold; i++) {
+            bytes32 r = bytes32(signatures[i * 65:i * 65 + 32]);
+            bytes32 s = bytes32(signatures[i * 65 + 32:i * 65 + 64]);
+            uint8 v = uint8(signatures[i * 65 + 64]);
+
+            address owner = v > 30
+                ? ecrecover(keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", txHash)), v - 4, r, s)
+                : ecrecover(txHash, v, r, s);
+            require(owner > lastOwner && isOwner[owner], "MockSafe: invalid owner signature");
+            lastOwner = owner;
+        }
+    }
+}
@@ -0,0 +1,16 @@
+/* eslint-disable */
+export default {
+  displayName: 'aw-lit-action-harness',
+  preset: '../../jest.preset.js',
+  transform: {
+    '^.+\\.[tj]s$': [
+      'ts-jest',
+      {
+        tsconfig: '<rootDir>/tsconfig.spec.json',
+      },
+    ],
+  },
+  moduleFileExtensions: ['ts', 'js', 'html'],
+  testEnvironment: 'node',
+  coverageDirectory: '../../coverage/packages/aw-lit-action-harness',
+};
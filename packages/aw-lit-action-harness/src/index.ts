@@ -0,0 +1,4 @@
+export * from './lib/harness';
+export * from './lib/bundle';
+export * from './lib/errors';
+export * from './lib/types';
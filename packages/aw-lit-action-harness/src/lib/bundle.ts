@@ -0,0 +1,69 @@
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { build, type Plugin } from 'esbuild';
+
+import type { BundleLitActionOptions } from './types';
+
+/**
+ * The global the bundled Lit Action assigns the promise of its top-level async function to,
+ * so the harness can wait for the action to finish and observe its errors.
+ */
+export const LIT_ACTION_COMPLETION_GLOBAL = '__litActionCompletion';
+
+/**
+ * Creates an esbuild plugin that exposes the promise of the entry point's top-level async function.
+ * Lit Actions run their logic in a top-level `(async () => { ... })();`, which the Lit nodes await.
+ */
+const exposeCompletionPlugin = (entryPoint: string): Plugin => ({
+  name: 'expose-lit-action-completion',
+  setup(build) {
+    build.onLoad(
+      {
+        filter: new RegExp(
+          `^${entryPoint.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`
+        ),
+      },
+      async (args) => {
+        const source = await readFile(args.path, 'utf8');
+        return {
+          contents: source.replace(
+            /^\(async \(\) => \{/m,
+            `globalThis.${LIT_ACTION_COMPLETION_GLOBAL} = (async () => {`
+          ),
+          loader: 'ts',
+        };
+      }
+    );
+  },
+});
+
+/**
+ * Bundles a Lit Action the way the tool packages' build scripts do, for execution with the harness.
+ * @param entryPoint - The path to the Lit Action's source, e.g. `src/lib/lit-actions/tool.ts`.
+ * @param options - The Lit network and PKP Tool Registry address injected into the Lit Action.
+ * @returns The bundled code of the Lit Action.
+ */
+export async function bundleLitAction(
+  entryPoint: string,
+  options: BundleLitActionOptions
+): Promise<string> {
+  const absoluteEntryPoint = resolve(entryPoint);
+
+  const result = await build({
+    entryPoints: [absoluteEntryPoint],
+    bundle: true,
+    minify: false,
+    format: 'iife',
+    globalName: 'LitAction',
+    write: false,
+    define: {
+      'process.env.NETWORK': JSON.stringify(options.litNetwork),
+      LIT_NETWORK: JSON.stringify(options.litNetwork),
+      PKP_TOOL_REGISTRY_ADDRESS: JSON.stringify(options.pkpToolRegistryAddress),
+    },
+    target: ['es2020'],
+    plugins: [exposeCompletionPlugin(absoluteEntryPoint)],
+  });
+
+  return result.outputFiles[0].text;
+}
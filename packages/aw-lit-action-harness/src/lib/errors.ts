@@ -0,0 +1,9 @@
+/**
+ * Error thrown when a Lit Action executed by the harness throws, like the Lit nodes report failed executions.
+ */
+export class LitActionError extends Error {
+  constructor(message: string, public readonly logs: string) {
+    super(message);
+    this.name = 'LitActionError';
+  }
+}
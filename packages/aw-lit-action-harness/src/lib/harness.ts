@@ -0,0 +1,357 @@
+import { createContext, runInContext } from 'vm';
+import { format, types } from 'util';
+import { ethers } from 'ethers';
+import { NETWORK_CONFIG } from '@lit-protocol/aw-tool';
+import type { ExecuteJsResponse, SigResponse } from '@lit-protocol/types';
+
+import { bundleLitAction, LIT_ACTION_COMPLETION_GLOBAL } from './bundle';
+import { LitActionError } from './errors';
+import type { ExecuteLitActionParams, LitActionHarnessOptions } from './types';
+
+/**
+ * Globals of the Lit Action runtime that Node also provides, passed through to the Lit Actions.
+ */
+const HOST_GLOBALS = [
+  'fetch',
+  'atob',
+  'btoa',
+  'crypto',
+  'TextEncoder',
+  'TextDecoder',
+  'URL',
+  'setTimeout',
+  'clearTimeout',
+  'setInterval',
+  'clearInterval',
+] as const;
+
+/**
+ * State shared by a Lit Action and the Lit Actions it calls.
+ */
+interface ExecutionState {
+  logs: string[];
+  signatures: Record<string, SigResponse>;
+  actionIpfsIds: string[];
+}
+
+/**
+ * Parses a Lit Action's response the way the Lit node client does, falling back to the raw string.
+ */
+const parseResponse = (response: string): string | object => {
+  try {
+    return JSON.parse(response);
+  } catch {
+    return response;
+  }
+};
+
+/**
+ * Runs bundled Lit Actions in a Node VM, emulating the globals the Lit nodes provide.
+ * Signing is done with a local private key in place of the PKP, `Lit.Actions.getRpcUrl` returns the
+ * configured RPC URLs (e.g. a local Anvil node with a PKP Tool Registry deployment), and the PubkeyRouter
+ * is emulated for the harness' PKP, so tool and policy Lit Actions can be tested without a Lit network.
+ */
+export class LitActionHarness {
+  private readonly actions = new Map<string, string>();
+  private readonly pkpWallet: ethers.Wallet;
+
+  private constructor(private readonly options: LitActionHarnessOptions) {
+    this.pkpWallet = new ethers.Wallet(options.pkp.privateKey);
+  }
+
+  /**
+   * Creates a Lit Action harness.
+   * @param options - The network, PKP Tool Registry deployment, RPC URLs, PKP key, and delegatee to emulate.
+   * @returns The harness.
+   */
+  public static create(options: LitActionHarnessOptions): LitActionHarness {
+    return new LitActionHarness(options);
+  }
+
+  /**
+   * The Ethereum address of the PKP the harness signs for.
+   */
+  public get pkpEthAddress(): string {
+    return this.pkpWallet.address;
+  }
+
+  /**
+   * The uncompressed public key of the PKP the harness signs for.
+   */
+  public get pkpPublicKey(): string {
+    return this.pkpWallet.publicKey;
+  }
+
+  /**
+   * Bundles a Lit Action and registers it under an IPFS CID, so it can be executed by `ipfsId`
+   * and called by other Lit Actions, e.g. a tool calling its policy.
+   * @param ipfsCid - The IPFS CID to register the Lit Action under.
+   * @param entryPoint - The path to the Lit Action's source.
+   */
+  public async registerAction(
+    ipfsCid: string,
+    entryPoint: string
+  ): Promise<void> {
+    this.actions.set(ipfsCid, await bundleLitAction(entryPoint, this.options));
+  }
+
+  /**
+   * Registers already bundled Lit Action code under an IPFS CID.
+   * @param ipfsCid - The IPFS CID to register the Lit Action under.
+   * @param code - The bundled code of the Lit Action.
+   */
+  public registerBundledAction(ipfsCid: string, code: string): void {
+    this.actions.set(ipfsCid, code);
+  }
+
+  /**
+   * Executes a Lit Action, like `LitNodeClient.executeJs` does on a Lit network.
+   * @param params - The Lit Action to execute and its parameters.
+   * @returns The response, logs, and signatures of the execution.
+   * @throws {LitActionError} If the Lit Action, or a Lit Action it called, throws.
+   */
+  public async execute(
+    params: ExecuteLitActionParams
+  ): Promise<ExecuteJsResponse> {
+    if ((params.ipfsId === undefined) === (params.code === undefined)) {
+      throw new Error('Exactly one of ipfsId and code must be provided');
+    }
+
+    const state: ExecutionState = {
+      logs: [],
+      signatures: {},
+      actionIpfsIds: [],
+    };
+
+    let response: string | undefined;
+    try {
+      response = await this.run(
+        params.code ?? this.getAction(params.ipfsId as string),
+        params.ipfsId,
+        params.jsParams ?? {},
+        state
+      );
+    } catch (error) {
+      // Errors thrown in the VM context are instances of the context's own Error class
+      throw new LitActionError(
+        types.isNativeError(error) ? error.message : String(error),
+        state.logs.join('\n')
+      );
+    }
+
+    return {
+      success: true,
+      signatures: state.signatures,
+      response: parseResponse(response ?? ''),
+      logs: state.logs.join('\n'),
+    };
+  }
+
+  private getAction(ipfsCid: string): string {
+    const code = this.actions.get(ipfsCid);
+    if (code === undefined) {
+      throw new Error(
+        `Lit Action ${ipfsCid} is not registered with the harness`
+      );
+    }
+    return code;
+  }
+
+  /**
+   * Runs a Lit Action in a fresh VM context, and waits for its top-level async function to finish.
+   * @returns The response set by the Lit Action, if any.
+   */
+  private async run(
+    code: string,
+    ipfsCid: string | undefined,
+    jsParams: Record<string, unknown>,
+    state: ExecutionState
+  ): Promise<string | undefined> {
+    if (ipfsCid !== undefined) {
+      state.actionIpfsIds.push(ipfsCid);
+    }
+
+    let response: string | undefined;
+    const hostGlobals = Object.fromEntries(
+      HOST_GLOBALS.filter((name) => name in globalThis).map((name) => [
+        name,
+        (globalThis as Record<string, unknown>)[name],
+      ])
+    );
+
+    const context = createContext({
+      ...hostGlobals,
+      ...jsParams,
+      console: this.createConsole(state),
+      ethers: this.createEthers(),
+      LIT_NETWORK: this.options.litNetwork,
+      PKP_TOOL_REGISTRY_ADDRESS: this.options.pkpToolRegistryAddress,
+      LitAuth: {
+        authSigAddress: this.options.delegateeAddress,
+        actionIpfsIds: [...state.actionIpfsIds],
+      },
+      Lit: {
+        Actions: this.createLitActions(state, (value) => {
+          response = value;
+        }),
+      },
+    });
+    // The Lit Action runtime is Deno, whose global object is also `self`, which bundled libraries like ethers look up
+    context['self'] = context;
+
+    runInContext(code, context);
+    await context[LIT_ACTION_COMPLETION_GLOBAL];
+
+    return response;
+  }
+
+  private createConsole(state: ExecutionState) {
+    const log = (...args: unknown[]) => {
+      state.logs.push(format(...args));
+    };
+    return { log, info: log, warn: log, error: log, debug: log };
+  }
+
+  /**
+   * Creates the `ethers` global, with the PubkeyRouter of the Lit network emulated for the harness' PKP,
+   * as local chains don't have Lit's contracts.
+   */
+  private createEthers() {
+    const pkp = this.options.pkp;
+    const pkpWallet = this.pkpWallet;
+    const pubkeyRouterAddress =
+      NETWORK_CONFIG[this.options.litNetwork].pubkeyRouterAddress;
+
+    const pubkeyRouter = {
+      ethAddressToPkpId: async (ethAddress: string) =>
+        ethers.BigNumber.from(
+          ethers.utils.getAddress(ethAddress) === pkpWallet.address
+            ? pkp.tokenId
+            : 0
+        ),
+      getPubkey: async (tokenId: ethers.BigNumberish) =>
+        ethers.BigNumber.from(tokenId).eq(pkp.tokenId)
+          ? pkpWallet.publicKey
+          : '0x',
+    };
+
+    class Contract extends ethers.Contract {
+      constructor(
+        address: string,
+        abi: ethers.ContractInterface,
+        signerOrProvider?: ethers.Signer | ethers.providers.Provider
+      ) {
+        if (address.toLowerCase() === pubkeyRouterAddress.toLowerCase()) {
+          // Returning an object from a constructor makes it the result of `new`
+          return pubkeyRouter as unknown as Contract;
+        }
+        super(address, abi, signerOrProvider);
+      }
+    }
+
+    return { ...ethers, Contract };
+  }
+
+  private createLitActions(
+    state: ExecutionState,
+    setResponse: (response: string) => void
+  ) {
+    const sign = (
+      toSign: ArrayLike<number>,
+      publicKey: string,
+      sigName: string
+    ) => {
+      if (
+        publicKey.replace(/^0x/, '').toLowerCase() !==
+        this.pkpWallet.publicKey.slice(2).toLowerCase()
+      ) {
+        throw new Error(`Public key ${publicKey} is not the harness' PKP`);
+      }
+
+      const dataSigned = ethers.utils.hexlify(Array.from(toSign));
+      const signature = this.pkpWallet._signingKey().signDigest(dataSigned);
+      state.signatures[sigName] = {
+        r: signature.r.slice(2),
+        s: signature.s.slice(2),
+        recid: signature.recoveryParam,
+        signature: ethers.utils.joinSignature(signature) as `0x${string}`,
+        publicKey: this.pkpWallet.publicKey.slice(2),
+        dataSigned: dataSigned.slice(2),
+      };
+
+      return signature;
+    };
+
+    return {
+      setResponse: ({ response }: { response: string }) => {
+        setResponse(response);
+      },
+      call: async ({
+        ipfsId,
+        params,
+      }: {
+        ipfsId: string;
+        params: Record<string, unknown>;
+      }) => {
+        return this.run(this.getAction(ipfsId), ipfsId, params ?? {}, state);
+      },
+      runOnce: async (
+        _options: { waitForResponse: boolean; name: string },
+        fn: () => Promise<unknown>
+      ) => {
+        // The harness is a single node, which always runs the function
+        return fn();
+      },
+      getRpcUrl: async ({ chain }: { chain: string }) => {
+        const rpcUrl = this.options.rpcUrls[chain];
+        if (rpcUrl === undefined) {
+          throw new Error(`No RPC URL configured for chain ${chain}`);
+        }
+        return rpcUrl;
+      },
+      signEcdsa: async ({
+        toSign,
+        publicKey,
+        sigName,
+      }: {
+        toSign: ArrayLike<number>;
+        publicKey: string;
+        sigName: string;
+      }) => {
+        sign(toSign, publicKey, sigName);
+        return 'success';
+      },
+      signAndCombineEcdsa: async ({
+        toSign,
+        publicKey,
+        sigName,
+      }: {
+        toSign: ArrayLike<number>;
+        publicKey: string;
+        sigName: string;
+      }) => {
+        const signature = sign(toSign, publicKey, sigName);
+
+        // Lit returns r as the compressed R point, whose prefix encodes the recovery parameter
+        return JSON.stringify({
+          r: (signature.recoveryParam ? '03' : '02') + signature.r.slice(2),
+          s: signature.s.slice(2),
+          v: signature.recoveryParam,
+        });
+      },
+      decryptAndCombine: async ({
+        dataToEncryptHash,
+      }: {
+        dataToEncryptHash: string;
+      }) => {
+        const plaintext = this.options.decryptions?.[dataToEncryptHash];
+        if (plaintext === undefined) {
+          throw new Error(
+            `No decryption configured for data hash ${dataToEncryptHash}`
+          );
+        }
+        return plaintext;
+      },
+    };
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * The Lit networks Lit Actions can be bundled for.
+ */
+export type LitNetwork = 'datil-dev' | 'datil-test' | 'datil';
+
+/**
+ * Options for bundling a Lit Action.
+ */
+export interface BundleLitActionOptions {
+  /** The Lit network the Lit Action is bundled for, injected as `LIT_NETWORK`. */
+  litNetwork: LitNetwork;
+
+  /** The address of the PKP Tool Registry, injected as `PKP_TOOL_REGISTRY_ADDRESS`. */
+  pkpToolRegistryAddress: string;
+}
+
+/**
+ * Options for creating a Lit Action harness.
+ */
+export interface LitActionHarnessOptions extends BundleLitActionOptions {
+  /**
+   * The RPC URLs returned by `Lit.Actions.getRpcUrl`, keyed by chain.
+   * `yellowstone` should point at the chain the PKP Tool Registry is deployed to, e.g. a local Anvil node.
+   */
+  rpcUrls: Record<string, string>;
+
+  /** The PKP the Lit Actions sign for, backed by a local private key. */
+  pkp: {
+    /** The token ID of the PKP, as registered in the PKP Tool Registry. */
+    tokenId: string;
+
+    /** The private key that signs in place of the PKP. */
+    privateKey: string;
+  };
+
+  /** The address of the delegatee executing the Lit Actions, exposed as `LitAuth.authSigAddress`. */
+  delegateeAddress: string;
+
+  /** The plaintexts returned by `Lit.Actions.decryptAndCombine`, keyed by `dataToEncryptHash`. */
+  decryptions?: Record<string, string>;
+}
+
+/**
+ * Parameters for executing a Lit Action with the harness.
+ * Mirrors the parameters of `LitNodeClient.executeJs`; exactly one of `ipfsId` and `code` must be set.
+ */
+export interface ExecuteLitActionParams {
+  /** The IPFS CID of a Lit Action registered with the harness. */
+  ipfsId?: string;
+
+  /** The bundled code of the Lit Action. */
+  code?: string;
+
+  /** The parameters exposed to the Lit Action as globals. */
+  jsParams?: Record<string, unknown>;
+}
@@ -0,0 +1,142 @@
+import { resolve } from 'path';
+import { ethers } from 'ethers';
+
+import { LitActionError, LitActionHarness } from '../src';
+import { LocalChain } from './helpers/local-chain';
+import { EmulatedPkpToolRegistry } from './helpers/emulated-contracts';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const VAULT_SHARES = '0x83F20F44975D03b1b09e64809B757c47f942BEeA';
+
+/**
+ * Runs the bundled Enso policy through the harness, with the route the tool passes it
+ * and the policy parameters of a PKP Tool Registry emulated on a local chain.
+ */
+describe('Enso policy', () => {
+  jest.setTimeout(60000);
+
+  const pkpWallet = ethers.Wallet.createRandom();
+  const delegatee = ethers.Wallet.createRandom();
+  const pkpToolRegistryAddress = ethers.Wallet.createRandom().address;
+
+  let yellowstone: LocalChain;
+  let registry: EmulatedPkpToolRegistry;
+  let harness: LitActionHarness;
+
+  const setPolicyParameters = (parameters: Record<string, string>) => {
+    registry.setToolPolicy('QmTool', 'QmPolicy', parameters, delegatee.address);
+  };
+
+  const checkRoute = async (toolParameters: Record<string, unknown> = {}) => {
+    return harness.execute({
+      ipfsId: 'QmPolicy',
+      jsParams: {
+        parentToolIpfsCid: 'QmTool',
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: '42',
+        delegateeAddress: delegatee.address,
+        toolParameters: {
+          amountIn: '1000000',
+          tokenIn: USDC,
+          tokenOut: VAULT_SHARES,
+          chainId: '8453',
+          approvalAmount: '1000000',
+          ...toolParameters,
+        },
+        gasInfo: {
+          maxFeePerGas: ethers.utils.parseUnits('1', 'gwei').toString(),
+          gasLimit: '500000',
+        },
+      },
+    });
+  };
+
+  beforeAll(async () => {
+    yellowstone = await LocalChain.start(175188);
+
+    harness = LitActionHarness.create({
+      litNetwork: 'datil-dev',
+      pkpToolRegistryAddress,
+      rpcUrls: { yellowstone: yellowstone.url },
+      pkp: { tokenId: '42', privateKey: pkpWallet.privateKey },
+      delegateeAddress: delegatee.address,
+    });
+    await harness.registerAction(
+      'QmPolicy',
+      resolve(__dirname, '../../aw-tool-enso/src/lib/lit-actions/policy.ts')
+    );
+  });
+
+  afterAll(async () => {
+    await yellowstone?.stop();
+  });
+
+  beforeEach(() => {
+    registry = new EmulatedPkpToolRegistry('42', pkpWallet.address);
+    registry.addDelegatee(delegatee.address);
+    setPolicyParameters({
+      allowedChains: JSON.stringify([1, 8453]),
+      allowedTokensOut: JSON.stringify([VAULT_SHARES]),
+      maxAmountIn: '5000000',
+      maxApprovalAmount: '5000000',
+    });
+    yellowstone.deploy(pkpToolRegistryAddress, registry);
+  });
+
+  it('should allow routes within the limits of the policy', async () => {
+    await expect(checkRoute()).resolves.toMatchObject({ success: true });
+  });
+
+  it.each([
+    [
+      'routes on chains that are not allowed',
+      { chainId: '10' },
+      'Chain 10 not allowed. Allowed chains: 1, 8453',
+    ],
+    [
+      'amounts over the maximum amount in',
+      { amountIn: '6000000' },
+      'Amount 6000000 exceeds the maximum amount 5000000',
+    ],
+    [
+      'approvals over the maximum approval amount',
+      { approvalAmount: ethers.constants.MaxUint256.toString() },
+      `Approval ${ethers.constants.MaxUint256.toString()} exceeds the maximum approval 5000000`,
+    ],
+    [
+      'output tokens that are not allowed output tokens',
+      { tokenOut: WETH },
+      `Token ${WETH} not allowed as output. Allowed output tokens: ${VAULT_SHARES}`,
+    ],
+  ])('should reject %s', async (_, toolParameters, error) => {
+    const result = checkRoute(toolParameters);
+
+    await expect(result).rejects.toThrow(LitActionError);
+    await expect(result).rejects.toThrow(error);
+  });
+
+  it('should check both tokens against the allowed tokens', async () => {
+    setPolicyParameters({ allowedTokens: JSON.stringify([USDC, WETH]) });
+
+    await expect(checkRoute({ tokenOut: WETH })).resolves.toMatchObject({
+      success: true,
+    });
+    await expect(checkRoute()).rejects.toThrow(
+      `Token ${VAULT_SHARES} not allowed. Allowed tokens: ${USDC}, ${WETH}`
+    );
+  });
+
+  it('should allow any chain, output token, and amounts when unset', async () => {
+    setPolicyParameters({});
+
+    await expect(
+      checkRoute({
+        chainId: '10',
+        tokenOut: WETH,
+        amountIn: ethers.constants.MaxUint256.toString(),
+        approvalAmount: ethers.constants.MaxUint256.toString(),
+      })
+    ).resolves.toMatchObject({ success: true });
+  });
+});
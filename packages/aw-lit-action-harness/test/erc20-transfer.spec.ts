@@ -0,0 +1,215 @@
+import { resolve } from 'path';
+import { ethers } from 'ethers';
+
+import { LitActionHarness } from '../src';
+import { LocalChain } from './helpers/local-chain';
+import {
+  EmulatedErc20,
+  EmulatedPkpToolRegistry,
+} from './helpers/emulated-contracts';
+
+const erc20TransferLitAction = (name: string) =>
+  resolve(
+    __dirname,
+    '../../aw-tool-erc20-transfer/src/lib/lit-actions',
+    `${name}.ts`
+  );
+
+/**
+ * Runs the bundled ERC20 Transfer tool and policy through the harness, against a PKP Tool Registry
+ * and an ERC20 token emulated on local chains.
+ */
+describe('ERC20 Transfer tool', () => {
+  jest.setTimeout(60000);
+
+  const pkpWallet = ethers.Wallet.createRandom();
+  const delegatee = ethers.Wallet.createRandom();
+  const recipient = ethers.Wallet.createRandom().address;
+  const pkpToolRegistryAddress = ethers.Wallet.createRandom().address;
+  const tokenAddress = ethers.Wallet.createRandom().address;
+
+  let yellowstone: LocalChain;
+  let chain: LocalChain;
+  let registry: EmulatedPkpToolRegistry;
+  let token: EmulatedErc20;
+  let harness: LitActionHarness;
+
+  const executeTransfer = async (amountIn: string) => {
+    return harness.execute({
+      ipfsId: 'QmTool',
+      jsParams: {
+        params: {
+          pkpEthAddress: pkpWallet.address,
+          rpcUrl: chain.url,
+          chainId: String(chain.chainId),
+          tokenIn: tokenAddress,
+          recipientAddress: recipient,
+          amountIn,
+        },
+      },
+    });
+  };
+
+  beforeAll(async () => {
+    yellowstone = await LocalChain.start(175188);
+    chain = await LocalChain.start(31337);
+
+    harness = LitActionHarness.create({
+      litNetwork: 'datil-dev',
+      pkpToolRegistryAddress,
+      rpcUrls: { yellowstone: yellowstone.url },
+      pkp: { tokenId: '42', privateKey: pkpWallet.privateKey },
+      delegateeAddress: delegatee.address,
+    });
+    await harness.registerAction('QmTool', erc20TransferLitAction('tool'));
+    await harness.registerAction('QmPolicy', erc20TransferLitAction('policy'));
+  });
+
+  afterAll(async () => {
+    await yellowstone?.stop();
+    await chain?.stop();
+  });
+
+  beforeEach(() => {
+    registry = new EmulatedPkpToolRegistry('42', pkpWallet.address);
+    registry.addDelegatee(delegatee.address);
+    registry.setToolPolicy(
+      'QmTool',
+      'QmPolicy',
+      {
+        maxAmount: ethers.utils.parseEther('10').toString(),
+        allowedTokens: JSON.stringify([tokenAddress]),
+        spendingLimits: JSON.stringify([
+          {
+            tokenAddress,
+            amount: ethers.utils.parseEther('15').toString(),
+            period: 86400,
+          },
+        ]),
+      },
+      delegatee.address
+    );
+    yellowstone.deploy(pkpToolRegistryAddress, registry);
+
+    token = new EmulatedErc20();
+    token.mint(pkpWallet.address, ethers.utils.parseEther('100'));
+    chain.deploy(tokenAddress, token);
+  });
+
+  it('should transfer tokens allowed by the policy and record the spend', async () => {
+    const result = await executeTransfer('5');
+
+    expect(result.response).toEqual({
+      status: 'success',
+      transferHash: expect.any(String),
+    });
+    expect(result.logs).toContain('Policy parameters validated');
+    expect(token.balanceOf(recipient)).toEqual(ethers.utils.parseEther('5'));
+    expect(token.balanceOf(pkpWallet.address)).toEqual(
+      ethers.utils.parseEther('95')
+    );
+
+    const transfer = chain.transactions[chain.transactions.length - 1];
+    expect(transfer.from).toBe(pkpWallet.address);
+    expect(transfer.hash).toBe(
+      (result.response as { transferHash: string }).transferHash
+    );
+    const { args } = token.interface.parseTransaction(transfer);
+    expect(args['to']).toBe(recipient);
+    expect(args['amount']).toEqual(ethers.utils.parseEther('5'));
+
+    expect(registry.spends).toEqual([
+      {
+        toolIpfsCid: 'QmTool',
+        delegatee: delegatee.address,
+        token: tokenAddress,
+        amount: ethers.utils.parseEther('5'),
+      },
+    ]);
+  });
+
+  it("should record the spend and transfer with consecutive nonces on the registry's chain", async () => {
+    yellowstone.deploy(tokenAddress, token);
+    const transactionCount = yellowstone.transactions.length;
+
+    const result = await harness.execute({
+      ipfsId: 'QmTool',
+      jsParams: {
+        params: {
+          pkpEthAddress: pkpWallet.address,
+          rpcUrl: yellowstone.url,
+          chainId: String(yellowstone.chainId),
+          tokenIn: tokenAddress,
+          recipientAddress: recipient,
+          amountIn: '5',
+        },
+      },
+    });
+
+    expect(result.response).toMatchObject({ status: 'success' });
+    const [spendRecording, transfer] =
+      yellowstone.transactions.slice(transactionCount);
+    expect(spendRecording.to).toBe(pkpToolRegistryAddress);
+    expect(transfer.to).toBe(tokenAddress);
+    expect(transfer.nonce).toBe(spendRecording.nonce + 1);
+    expect(registry.spends).toHaveLength(1);
+  });
+
+  it('should reject transfers exceeding the maximum amount of the policy', async () => {
+    const transactionCount = chain.transactions.length;
+
+    const result = await executeTransfer('11');
+
+    expect(result.response).toMatchObject({
+      status: 'error',
+      error: 'Amount 11.0 exceeds the maximum amount 10.0',
+    });
+    expect(chain.transactions).toHaveLength(transactionCount);
+    expect(registry.spends).toEqual([]);
+  });
+
+  it('should reject transfers exceeding the spending limit of the policy', async () => {
+    expect((await executeTransfer('10')).response).toMatchObject({
+      status: 'success',
+    });
+
+    const result = await executeTransfer('6');
+
+    expect(result.response).toMatchObject({
+      status: 'error',
+      error: expect.stringContaining(
+        'exceeds the remaining allowance 5000000000000000000'
+      ),
+    });
+    expect(token.balanceOf(recipient)).toEqual(ethers.utils.parseEther('10'));
+  });
+
+  it('should keep the recorded spend when the broadcast transfer fails', async () => {
+    token.failTransfers = true;
+
+    const result = await executeTransfer('5');
+
+    expect(result.response).toMatchObject({ status: 'error' });
+    expect(result.logs).not.toContain('Spend refunded');
+    expect(registry.spends).toHaveLength(1);
+  });
+
+  it('should use the blanket policy of the tool when the delegatee has none', async () => {
+    registry = new EmulatedPkpToolRegistry('42', pkpWallet.address);
+    registry.addDelegatee(delegatee.address);
+    registry.setToolPolicy('QmTool', 'QmPolicy', {
+      maxAmount: ethers.utils.parseEther('1').toString(),
+    });
+    yellowstone.deploy(pkpToolRegistryAddress, registry);
+
+    const result = await executeTransfer('2');
+
+    expect(result.logs).toContain(
+      'No custom policy set for delegatee, using blanket policy'
+    );
+    expect(result.response).toMatchObject({
+      status: 'error',
+      error: 'Amount 2.0 exceeds the maximum amount 1.0',
+    });
+  });
+});
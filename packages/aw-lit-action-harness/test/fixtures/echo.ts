@@ -0,0 +1,13 @@
+declare const message: string;
+
+(async () => {
+  Lit.Actions.setResponse({
+    response: JSON.stringify({
+      message,
+      litNetwork: LIT_NETWORK,
+      pkpToolRegistryAddress: PKP_TOOL_REGISTRY_ADDRESS,
+      authSigAddress: LitAuth.authSigAddress,
+      actionIpfsIds: LitAuth.actionIpfsIds,
+    }),
+  });
+})();
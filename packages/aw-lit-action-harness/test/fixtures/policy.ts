@@ -0,0 +1,15 @@
+declare const amount: number;
+
+(async () => {
+  console.log(`Checking amount ${amount}...`);
+  if (amount > 10) {
+    throw new Error(`Amount ${amount} exceeds the maximum of 10`);
+  }
+
+  Lit.Actions.setResponse({
+    response: JSON.stringify({
+      allowed: true,
+      authorizedIpfsIds: LitAuth.actionIpfsIds,
+    }),
+  });
+})();
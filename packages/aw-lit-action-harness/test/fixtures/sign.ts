@@ -0,0 +1,20 @@
+import { getPkpInfo } from '@lit-protocol/aw-tool';
+
+declare const pkpEthAddress: string;
+declare const message: string;
+
+(async () => {
+  const pkp = await getPkpInfo(pkpEthAddress);
+
+  const signature = await Lit.Actions.signAndCombineEcdsa({
+    toSign: ethers.utils.arrayify(
+      ethers.utils.keccak256(ethers.utils.toUtf8Bytes(message))
+    ),
+    publicKey: pkp.publicKey,
+    sigName: 'sig',
+  });
+
+  Lit.Actions.setResponse({
+    response: JSON.stringify({ pkp, signature: JSON.parse(signature) }),
+  });
+})();
@@ -0,0 +1,16 @@
+declare const policyIpfsCid: string;
+declare const amount: number;
+
+(async () => {
+  const policyResponse = await Lit.Actions.call({
+    ipfsId: policyIpfsCid,
+    params: { amount },
+  });
+
+  Lit.Actions.setResponse({
+    response: JSON.stringify({
+      status: 'success',
+      policy: JSON.parse(policyResponse),
+    }),
+  });
+})();
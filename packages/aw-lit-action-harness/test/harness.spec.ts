@@ -0,0 +1,110 @@
+import { resolve } from 'path';
+import { ethers } from 'ethers';
+
+import { LitActionError, LitActionHarness } from '../src';
+
+const fixture = (name: string) => resolve(__dirname, 'fixtures', `${name}.ts`);
+
+describe('LitActionHarness', () => {
+  jest.setTimeout(30000);
+
+  const pkpWallet = ethers.Wallet.createRandom();
+  const delegatee = ethers.Wallet.createRandom();
+  const pkpToolRegistryAddress = ethers.Wallet.createRandom().address;
+
+  let harness: LitActionHarness;
+
+  beforeEach(() => {
+    harness = LitActionHarness.create({
+      litNetwork: 'datil-dev',
+      pkpToolRegistryAddress,
+      rpcUrls: { yellowstone: 'http://127.0.0.1:8545' },
+      pkp: { tokenId: '42', privateKey: pkpWallet.privateKey },
+      delegateeAddress: delegatee.address,
+    });
+  });
+
+  it('should expose the jsParams, LitAuth, and build defines to the Lit Action', async () => {
+    await harness.registerAction('QmEcho', fixture('echo'));
+
+    const result = await harness.execute({
+      ipfsId: 'QmEcho',
+      jsParams: { message: 'hello' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.response).toEqual({
+      message: 'hello',
+      litNetwork: 'datil-dev',
+      pkpToolRegistryAddress,
+      authSigAddress: delegatee.address,
+      actionIpfsIds: ['QmEcho'],
+    });
+  });
+
+  it('should emulate the PubkeyRouter and sign with the PKP key', async () => {
+    await harness.registerAction('QmSign', fixture('sign'));
+
+    const result = await harness.execute({
+      ipfsId: 'QmSign',
+      jsParams: { pkpEthAddress: pkpWallet.address, message: 'hello' },
+    });
+
+    const { pkp, signature } = result.response as {
+      pkp: { tokenId: string; ethAddress: string; publicKey: string };
+      signature: { r: string; s: string; v: number };
+    };
+    expect(pkp).toEqual({
+      tokenId: '42',
+      ethAddress: pkpWallet.address,
+      publicKey: pkpWallet.publicKey,
+    });
+
+    const digest = ethers.utils.keccak256(ethers.utils.toUtf8Bytes('hello'));
+    const recovered = ethers.utils.recoverAddress(digest, {
+      r: '0x' + signature.r.substring(2),
+      s: '0x' + signature.s,
+      v: signature.v,
+    });
+    expect(recovered).toBe(pkpWallet.address);
+    expect(result.signatures['sig'].dataSigned).toBe(digest.slice(2));
+  });
+
+  it('should run Lit Actions called with Lit.Actions.call', async () => {
+    await harness.registerAction('QmTool', fixture('tool-with-policy'));
+    await harness.registerAction('QmPolicy', fixture('policy'));
+
+    const result = await harness.execute({
+      ipfsId: 'QmTool',
+      jsParams: { policyIpfsCid: 'QmPolicy', amount: 5 },
+    });
+
+    expect(result.response).toEqual({
+      status: 'success',
+      policy: { allowed: true, authorizedIpfsIds: ['QmTool', 'QmPolicy'] },
+    });
+    expect(result.logs).toContain('Checking amount 5...');
+  });
+
+  it('should reject with a LitActionError when a called Lit Action throws', async () => {
+    await harness.registerAction('QmTool', fixture('tool-with-policy'));
+    await harness.registerAction('QmPolicy', fixture('policy'));
+
+    const execution = harness.execute({
+      ipfsId: 'QmTool',
+      jsParams: { policyIpfsCid: 'QmPolicy', amount: 11 },
+    });
+
+    await expect(execution).rejects.toThrow(LitActionError);
+    await expect(execution).rejects.toMatchObject({
+      message: 'Amount 11 exceeds the maximum of 10',
+      logs: 'Checking amount 11...',
+    });
+  });
+
+  it('should reject Lit Actions that are not registered', async () => {
+    await expect(harness.execute({ ipfsId: 'QmMissing' })).rejects.toThrow(
+      'Lit Action QmMissing is not registered with the harness'
+    );
+  });
+});
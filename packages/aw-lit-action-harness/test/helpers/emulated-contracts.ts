@@ -0,0 +1,288 @@
+import { ethers } from 'ethers';
+
+import type { EmulatedContract } from './local-chain';
+
+interface Spend {
+  toolIpfsCid: string;
+  delegatee: string;
+  token: string;
+  amount: ethers.BigNumber;
+}
+
+interface SpendRecord extends Spend {
+  recordId: number;
+  refundKeyHash: string;
+  refunded: boolean;
+}
+
+/**
+ * An emulation of the PKP Tool Registry functions tools and policies use, for a single PKP.
+ * Spends don't expire, as executions within a test all fall in the same window.
+ */
+export class EmulatedPkpToolRegistry implements EmulatedContract {
+  public readonly interface = new ethers.utils.Interface([
+    'function isPkpDelegatee(uint256 pkpTokenId, address delegatee) view returns (bool)',
+    'function getToolPoliciesForDelegatees(uint256 pkpTokenId, string[] toolIpfsCids, address[] delegatees) view returns (tuple(string toolIpfsCid, string policyIpfsCid, address delegatee, bool enabled)[] toolPolicies)',
+    'function getBlanketToolPolicies(uint256 pkpTokenId, string[] toolIpfsCids) view returns (tuple(string toolIpfsCid, string policyIpfsCid, bool enabled)[] blanketPolicies)',
+    'function getToolPolicyParameters(uint256 pkpTokenId, string toolIpfsCid, address delegatee, string[] parameterNames) view returns (tuple(string name, bytes value)[] parameters)',
+    'function getBlanketToolPolicyParameters(uint256 pkpTokenId, string toolIpfsCid, string[] parameterNames) view returns (tuple(string name, bytes value)[] parameters)',
+    'function getSpentAmount(uint256 pkpTokenId, string toolIpfsCid, address delegatee, address token, uint256 period) view returns (uint256 spent)',
+    'function recordSpend(uint256 pkpTokenId, string toolIpfsCid, address delegatee, address token, uint256 amount, uint256 limitAmount, uint256 period, bytes32 refundKeyHash) returns (uint256 recordId)',
+    'function refundSpend(uint256 pkpTokenId, string toolIpfsCid, address delegatee, address token, uint256 recordId, bytes32 refundKey)',
+    'event SpendRecorded(uint256 indexed pkpTokenId, string toolIpfsCid, address indexed delegatee, address indexed token, uint256 amount, uint256 recordId)',
+    'event SpendRefunded(uint256 indexed pkpTokenId, string toolIpfsCid, address indexed delegatee, address indexed token, uint256 amount, uint256 recordId)',
+  ]);
+
+  private readonly records: SpendRecord[] = [];
+
+  private readonly delegatees = new Set<string>();
+  private readonly policies = new Map<
+    string,
+    { policyIpfsCid: string; parameters: Record<string, string> }
+  >();
+
+  constructor(
+    private readonly pkpTokenId: string,
+    private readonly pkpEthAddress: string
+  ) {}
+
+  public readonly functions: EmulatedContract['functions'] = {
+    isPkpDelegatee: ([pkpTokenId, delegatee]) => [
+      this.isPkp(pkpTokenId) && this.delegatees.has(delegatee),
+    ],
+    getToolPoliciesForDelegatees: ([pkpTokenId, toolIpfsCids, delegatees]) => {
+      this.requirePkp(pkpTokenId);
+      return [
+        toolIpfsCids.map((toolIpfsCid: string, i: number) => {
+          const policy = this.policies.get(`${toolIpfsCid}:${delegatees[i]}`);
+          return [
+            toolIpfsCid,
+            policy?.policyIpfsCid ?? '',
+            delegatees[i],
+            policy !== undefined,
+          ];
+        }),
+      ];
+    },
+    getBlanketToolPolicies: ([pkpTokenId, toolIpfsCids]) => {
+      this.requirePkp(pkpTokenId);
+      return [
+        toolIpfsCids.map((toolIpfsCid: string) => {
+          const policy = this.policies.get(toolIpfsCid);
+          return [
+            toolIpfsCid,
+            policy?.policyIpfsCid ?? '',
+            policy !== undefined,
+          ];
+        }),
+      ];
+    },
+    getToolPolicyParameters: ([pkpTokenId, toolIpfsCid, delegatee, names]) => {
+      this.requirePkp(pkpTokenId);
+      return [this.getParameters(`${toolIpfsCid}:${delegatee}`, names)];
+    },
+    getBlanketToolPolicyParameters: ([pkpTokenId, toolIpfsCid, names]) => {
+      this.requirePkp(pkpTokenId);
+      return [this.getParameters(toolIpfsCid, names)];
+    },
+    getSpentAmount: ([pkpTokenId, toolIpfsCid, delegatee, token]) => {
+      this.requirePkp(pkpTokenId);
+      return [this.getSpentAmount(toolIpfsCid, delegatee, token)];
+    },
+    recordSpend: (
+      [
+        pkpTokenId,
+        toolIpfsCid,
+        delegatee,
+        token,
+        amount,
+        limitAmount,
+        ,
+        refundKeyHash,
+      ],
+      { from, emit }
+    ) => {
+      this.requireCalledByPkp(pkpTokenId, from);
+      if (
+        this.getSpentAmount(toolIpfsCid, delegatee, token)
+          .add(amount)
+          .gt(limitAmount)
+      ) {
+        throw new Error('SpendingLimitExceeded');
+      }
+
+      const recordId = this.getRecords(toolIpfsCid, delegatee, token).length;
+      this.records.push({
+        toolIpfsCid,
+        delegatee,
+        token,
+        amount,
+        recordId,
+        refundKeyHash,
+        refunded: false,
+      });
+      emit('SpendRecorded', [
+        pkpTokenId,
+        toolIpfsCid,
+        delegatee,
+        token,
+        amount,
+        recordId,
+      ]);
+      return [recordId];
+    },
+    refundSpend: (
+      [pkpTokenId, toolIpfsCid, delegatee, token, recordId, refundKey],
+      { from, emit }
+    ) => {
+      this.requireCalledByPkp(pkpTokenId, from);
+      const record = this.getRecords(toolIpfsCid, delegatee, token)[
+        recordId.toNumber()
+      ];
+      if (record === undefined || record.refunded) {
+        throw new Error('SpendNotFound');
+      }
+      if (ethers.utils.keccak256(refundKey) !== record.refundKeyHash) {
+        throw new Error('InvalidRefundKey');
+      }
+
+      record.refunded = true;
+      emit('SpendRefunded', [
+        pkpTokenId,
+        toolIpfsCid,
+        delegatee,
+        token,
+        record.amount,
+        recordId,
+      ]);
+    },
+  };
+
+  public addDelegatee(delegatee: string): void {
+    this.delegatees.add(ethers.utils.getAddress(delegatee));
+  }
+
+  /**
+   * Sets the policy of a tool for a delegatee, or its blanket policy if no delegatee is given.
+   */
+  public setToolPolicy(
+    toolIpfsCid: string,
+    policyIpfsCid: string,
+    parameters: Record<string, string>,
+    delegatee?: string
+  ): void {
+    this.policies.set(
+      delegatee === undefined
+        ? toolIpfsCid
+        : `${toolIpfsCid}:${ethers.utils.getAddress(delegatee)}`,
+      { policyIpfsCid, parameters }
+    );
+  }
+
+  /**
+   * The spends recorded and not refunded, in the order they were recorded.
+   */
+  public get spends(): Spend[] {
+    return this.records
+      .filter((record) => !record.refunded)
+      .map(({ toolIpfsCid, delegatee, token, amount }) => ({
+        toolIpfsCid,
+        delegatee,
+        token,
+        amount,
+      }));
+  }
+
+  private getRecords(
+    toolIpfsCid: string,
+    delegatee: string,
+    token: string
+  ): SpendRecord[] {
+    return this.records.filter(
+      (record) =>
+        record.toolIpfsCid === toolIpfsCid &&
+        record.delegatee === delegatee &&
+        record.token === token
+    );
+  }
+
+  private getParameters(key: string, names: string[]) {
+    const parameters = this.policies.get(key)?.parameters ?? {};
+    return names
+      .filter((name) => parameters[name] !== undefined)
+      .map((name) => [name, ethers.utils.toUtf8Bytes(parameters[name])]);
+  }
+
+  private getSpentAmount(
+    toolIpfsCid: string,
+    delegatee: string,
+    token: string
+  ): ethers.BigNumber {
+    return this.getRecords(toolIpfsCid, delegatee, token)
+      .filter((record) => !record.refunded)
+      .reduce(
+        (spent, record) => spent.add(record.amount),
+        ethers.BigNumber.from(0)
+      );
+  }
+
+  private isPkp(pkpTokenId: ethers.BigNumber): boolean {
+    return pkpTokenId.eq(this.pkpTokenId);
+  }
+
+  private requirePkp(pkpTokenId: ethers.BigNumber): void {
+    if (!this.isPkp(pkpTokenId)) {
+      throw new Error('InvalidPKPTokenId');
+    }
+  }
+
+  private requireCalledByPkp(pkpTokenId: ethers.BigNumber, from: string) {
+    this.requirePkp(pkpTokenId);
+    if (from !== this.pkpEthAddress) {
+      throw new Error('NotPKP');
+    }
+  }
+}
+
+/**
+ * An emulation of an ERC20 token with 18 decimals.
+ */
+export class EmulatedErc20 implements EmulatedContract {
+  public readonly interface = new ethers.utils.Interface([
+    'function decimals() view returns (uint8)',
+    'function balanceOf(address account) view returns (uint256)',
+    'function transfer(address to, uint256 amount) returns (bool)',
+  ]);
+
+  /**
+   * Makes transfers revert when mined, e.g. to emulate a failed broadcast.
+   */
+  public failTransfers = false;
+
+  private readonly balances = new Map<string, ethers.BigNumber>();
+
+  public readonly functions: EmulatedContract['functions'] = {
+    decimals: () => [18],
+    balanceOf: ([account]) => [this.balanceOf(account)],
+    transfer: ([to, amount], { from }) => {
+      if (this.failTransfers || this.balanceOf(from).lt(amount)) {
+        throw new Error('ERC20: transfer amount exceeds balance');
+      }
+      this.balances.set(from, this.balanceOf(from).sub(amount));
+      this.balances.set(to, this.balanceOf(to).add(amount));
+      return [true];
+    },
+  };
+
+  public mint(account: string, amount: ethers.BigNumberish): void {
+    account = ethers.utils.getAddress(account);
+    this.balances.set(account, this.balanceOf(account).add(amount));
+  }
+
+  public balanceOf(account: string): ethers.BigNumber {
+    return (
+      this.balances.get(ethers.utils.getAddress(account)) ??
+      ethers.BigNumber.from(0)
+    );
+  }
+}
@@ -0,0 +1,248 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+
+/**
+ * The context a function of an emulated contract is called in.
+ */
+export interface CallContext {
+  from: string;
+  /** Emits an event of the contract, logged in the receipt of the transaction. */
+  emit: (eventName: string, args: unknown[]) => void;
+}
+
+/**
+ * A contract emulated in TypeScript, whose functions are dispatched by their ABI.
+ * View functions return their outputs, and the other functions update the contract's state when mined,
+ * reverting by throwing.
+ */
+export interface EmulatedContract {
+  readonly interface: ethers.utils.Interface;
+  readonly functions: Record<
+    string,
+    (args: ethers.utils.Result, context: CallContext) => unknown[] | void
+  >;
+}
+
+interface JsonRpcRequest {
+  id: number;
+  method: string;
+  params: any[];
+}
+
+/**
+ * A minimal JSON-RPC node mining every transaction in its own block, for the RPC calls the tools make.
+ */
+export class LocalChain {
+  public readonly transactions: ethers.Transaction[] = [];
+
+  private readonly contracts = new Map<string, EmulatedContract>();
+  private readonly nonces = new Map<string, number>();
+  private readonly receipts = new Map<string, Record<string, unknown>>();
+  private readonly pendingTransactions = new Map<
+    string,
+    Record<string, unknown>
+  >();
+  private blockNumber = 1;
+
+  private constructor(
+    public readonly chainId: number,
+    private readonly server: Server
+  ) {}
+
+  /**
+   * Starts a local chain on a free port.
+   * @param chainId - The chain ID of the chain.
+   * @returns The started chain.
+   */
+  public static async start(chainId: number): Promise<LocalChain> {
+    const server = createServer();
+    const chain = new LocalChain(chainId, server);
+    server.on('request', (req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request: JsonRpcRequest = JSON.parse(body);
+        let response: Record<string, unknown>;
+        try {
+          response = { result: chain.handle(request.method, request.params) };
+        } catch (error) {
+          response = {
+            error: { code: -32000, message: (error as Error).message },
+          };
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end(
+          JSON.stringify({ jsonrpc: '2.0', id: request.id, ...response })
+        );
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    return chain;
+  }
+
+  public get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Deploys an emulated contract at an address.
+   */
+  public deploy(address: string, contract: EmulatedContract): void {
+    this.contracts.set(address.toLowerCase(), contract);
+  }
+
+  /**
+   * Serves a pending transaction from `eth_getTransactionByHash`, without mining it.
+   * The transaction is returned as given, so it can also be a forged one.
+   */
+  public addPendingTransaction(
+    hash: string,
+    transaction: Record<string, unknown>
+  ): void {
+    this.pendingTransactions.set(hash.toLowerCase(), transaction);
+  }
+
+  public async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private handle(method: string, params: any[]): unknown {
+    switch (method) {
+      case 'eth_chainId':
+        return ethers.utils.hexValue(this.chainId);
+      case 'net_version':
+        return String(this.chainId);
+      case 'eth_blockNumber':
+        return ethers.utils.hexValue(this.blockNumber);
+      case 'eth_gasPrice':
+        return ethers.utils.hexValue(ethers.utils.parseUnits('1', 'gwei'));
+      case 'eth_feeHistory':
+        return {
+          oldestBlock: ethers.utils.hexValue(this.blockNumber),
+          baseFeePerGas: [
+            ethers.utils.hexValue(ethers.utils.parseUnits('1', 'gwei')),
+          ],
+          gasUsedRatio: [0.5],
+        };
+      case 'eth_getCode':
+        return this.contracts.has(params[0].toLowerCase()) ? '0x6080' : '0x';
+      case 'eth_getTransactionCount':
+        return ethers.utils.hexValue(
+          this.nonces.get(ethers.utils.getAddress(params[0])) ?? 0
+        );
+      case 'eth_call':
+        return this.call(params[0]);
+      case 'eth_estimateGas':
+        this.getFunction(params[0].to, params[0].data);
+        return ethers.utils.hexValue(50000);
+      case 'eth_sendRawTransaction':
+        return this.mine(params[0]);
+      case 'eth_getTransactionByHash':
+        return this.pendingTransactions.get(params[0].toLowerCase()) ?? null;
+      case 'eth_getTransactionReceipt':
+        return this.receipts.get(params[0]) ?? null;
+      default:
+        throw new Error(`Unsupported method ${method}`);
+    }
+  }
+
+  private getFunction(to: string, data: string) {
+    const contract = this.contracts.get(to.toLowerCase());
+    if (contract === undefined) {
+      throw new Error(`No contract deployed at ${to}`);
+    }
+
+    const fragment = contract.interface.getFunction(data.slice(0, 10));
+    return {
+      contract,
+      fragment,
+      args: contract.interface.decodeFunctionData(fragment, data),
+    };
+  }
+
+  private call(tx: { from?: string; to: string; data: string }): string {
+    const { contract, fragment, args } = this.getFunction(tx.to, tx.data);
+    const outputs = contract.functions[fragment.name](args, {
+      from: tx.from ?? ethers.constants.AddressZero,
+      // Calls aren't mined, so their events aren't logged anywhere
+      emit: () => undefined,
+    });
+    return contract.interface.encodeFunctionResult(fragment, outputs ?? []);
+  }
+
+  private mine(signedTx: string): string {
+    const tx = ethers.utils.parseTransaction(signedTx);
+    const from = tx.from as string;
+    const hash = tx.hash as string;
+    if (tx.chainId !== this.chainId) {
+      throw new Error(`Invalid chain ID ${tx.chainId}`);
+    }
+    if (tx.nonce !== (this.nonces.get(from) ?? 0)) {
+      throw new Error(`Invalid nonce ${tx.nonce} for ${from}`);
+    }
+
+    this.blockNumber++;
+    const blockHash = ethers.utils.hexZeroPad(
+      ethers.utils.hexValue(this.blockNumber),
+      32
+    );
+
+    let status = 1;
+    let logs: Record<string, unknown>[] = [];
+    try {
+      const { contract, fragment, args } = this.getFunction(
+        tx.to as string,
+        tx.data
+      );
+      contract.functions[fragment.name](args, {
+        from,
+        emit: (eventName, eventArgs) => {
+          logs.push({
+            ...contract.interface.encodeEventLog(
+              contract.interface.getEvent(eventName),
+              eventArgs
+            ),
+            address: tx.to,
+            logIndex: ethers.utils.hexValue(logs.length),
+            transactionHash: hash,
+            transactionIndex: '0x0',
+            blockHash,
+            blockNumber: ethers.utils.hexValue(this.blockNumber),
+            removed: false,
+          });
+        },
+      });
+    } catch {
+      // Reverted transactions don't log their events
+      status = 0;
+      logs = [];
+    }
+
+    this.nonces.set(from, tx.nonce + 1);
+    this.transactions.push(tx);
+    this.receipts.set(hash, {
+      transactionHash: hash,
+      transactionIndex: '0x0',
+      blockHash,
+      blockNumber: ethers.utils.hexValue(this.blockNumber),
+      from,
+      to: tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: ethers.utils.hexValue(50000),
+      gasUsed: ethers.utils.hexValue(50000),
+      effectiveGasPrice: ethers.utils.hexValue(
+        tx.gasPrice ?? tx.maxFeePerGas ?? 0
+      ),
+      logs,
+      logsBloom: ethers.utils.hexZeroPad('0x', 256),
+      status: ethers.utils.hexValue(status),
+      type: ethers.utils.hexValue(tx.type ?? 0),
+    });
+
+    return hash;
+  }
+}
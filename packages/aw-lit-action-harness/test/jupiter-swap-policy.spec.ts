@@ -0,0 +1,150 @@
+import { resolve } from 'path';
+import { ethers } from 'ethers';
+
+import { LitActionError, LitActionHarness } from '../src';
+import { LocalChain } from './helpers/local-chain';
+import { EmulatedPkpToolRegistry } from './helpers/emulated-contracts';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+/**
+ * Runs the bundled JupiterSwap policy through the harness, with the quote the tool passes it
+ * and the policy parameters of a PKP Tool Registry emulated on a local chain.
+ */
+describe('JupiterSwap policy', () => {
+  jest.setTimeout(60000);
+
+  const pkpWallet = ethers.Wallet.createRandom();
+  const delegatee = ethers.Wallet.createRandom();
+  const pkpToolRegistryAddress = ethers.Wallet.createRandom().address;
+
+  let yellowstone: LocalChain;
+  let registry: EmulatedPkpToolRegistry;
+  let harness: LitActionHarness;
+
+  const setPolicyParameters = (parameters: Record<string, string>) => {
+    registry.setToolPolicy('QmTool', 'QmPolicy', parameters, delegatee.address);
+  };
+
+  const checkSwap = async (toolParameters: Record<string, unknown> = {}) => {
+    return harness.execute({
+      ipfsId: 'QmPolicy',
+      jsParams: {
+        parentToolIpfsCid: 'QmTool',
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: '42',
+        delegateeAddress: delegatee.address,
+        toolParameters: {
+          amountIn: '0.5',
+          tokenIn: SOL,
+          tokenOut: USDC,
+          slippageBps: '50',
+          priceImpactPct: '0.1',
+          dexLabels: ['Orca', 'Raydium'],
+          ...toolParameters,
+        },
+      },
+    });
+  };
+
+  beforeAll(async () => {
+    yellowstone = await LocalChain.start(175188);
+
+    harness = LitActionHarness.create({
+      litNetwork: 'datil-dev',
+      pkpToolRegistryAddress,
+      rpcUrls: { yellowstone: yellowstone.url },
+      pkp: { tokenId: '42', privateKey: pkpWallet.privateKey },
+      delegateeAddress: delegatee.address,
+    });
+    await harness.registerAction(
+      'QmPolicy',
+      resolve(
+        __dirname,
+        '../../aw-tool-jupiter-swap/src/lib/lit-actions/policy.ts'
+      )
+    );
+  });
+
+  afterAll(async () => {
+    await yellowstone?.stop();
+  });
+
+  beforeEach(() => {
+    registry = new EmulatedPkpToolRegistry('42', pkpWallet.address);
+    registry.addDelegatee(delegatee.address);
+    setPolicyParameters({
+      maxAmount: '1000000000',
+      allowedTokens: JSON.stringify([SOL, USDC, BONK]),
+      maxSlippageBps: '100',
+      maxPriceImpactPct: '0.5',
+      allowedInputMints: JSON.stringify([SOL]),
+      allowedOutputMints: JSON.stringify([USDC]),
+      allowedDexes: JSON.stringify(['Orca', 'Raydium']),
+    });
+    yellowstone.deploy(pkpToolRegistryAddress, registry);
+  });
+
+  it('should allow swaps within the limits of the policy', async () => {
+    const result = await checkSwap();
+
+    expect(result.logs).toContain('Policy parameters validated');
+  });
+
+  it.each([
+    [
+      'amounts over the maximum amount',
+      { amountIn: '1.5' },
+      'Amount 1.5 exceeds the maximum amount 1000000000',
+    ],
+    [
+      'slippage over the maximum slippage',
+      { slippageBps: '150' },
+      'Slippage 150 bps exceeds the maximum slippage 100 bps',
+    ],
+    [
+      'quotes over the maximum price impact',
+      { priceImpactPct: '0.75' },
+      'Price impact 0.75% exceeds the maximum price impact 0.5%',
+    ],
+    [
+      'input tokens that are not allowed input mints',
+      { tokenIn: BONK },
+      `input token ${BONK} not allowed. Must be one of: ${SOL}`,
+    ],
+    [
+      'output tokens that are not allowed output mints',
+      { tokenOut: SOL },
+      `output token ${SOL} not allowed. Must be one of: ${USDC}`,
+    ],
+    [
+      'routes through DEXes that are not allowed',
+      { dexLabels: ['Orca', 'Meteora DLMM'] },
+      'Route uses DEXes Meteora DLMM that are not allowed',
+    ],
+  ])('should reject %s', async (_, toolParameters, error) => {
+    const result = checkSwap(toolParameters);
+
+    await expect(result).rejects.toThrow(LitActionError);
+    await expect(result).rejects.toThrow(error);
+  });
+
+  it('should allow any slippage, price impact, mints, and DEXes when unset', async () => {
+    setPolicyParameters({
+      maxAmount: '1000000000',
+      allowedTokens: JSON.stringify([SOL, USDC, BONK]),
+    });
+
+    const result = await checkSwap({
+      tokenIn: BONK,
+      tokenOut: SOL,
+      slippageBps: '5000',
+      priceImpactPct: '25',
+      dexLabels: ['Meteora DLMM'],
+    });
+
+    expect(result.logs).toContain('Policy parameters validated');
+  });
+});
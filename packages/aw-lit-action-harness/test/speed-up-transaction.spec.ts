@@ -0,0 +1,203 @@
+import { resolve } from 'path';
+import { ethers } from 'ethers';
+
+import { LitActionHarness } from '../src';
+import { LocalChain } from './helpers/local-chain';
+import { EmulatedPkpToolRegistry } from './helpers/emulated-contracts';
+
+const speedUpTransactionLitAction = (name: string) =>
+  resolve(
+    __dirname,
+    '../../aw-tool-speed-up-transaction/src/lib/lit-actions',
+    `${name}.ts`
+  );
+
+/**
+ * Formats a signed transaction as it's returned by `eth_getTransactionByHash` for a pending transaction.
+ */
+const toRpcTransaction = (signedTx: string): Record<string, unknown> => {
+  const tx = ethers.utils.parseTransaction(signedTx);
+  return {
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to ?? null,
+    nonce: ethers.utils.hexValue(tx.nonce),
+    gas: tx.gasLimit.toHexString(),
+    value: tx.value.toHexString(),
+    input: tx.data,
+    type: ethers.utils.hexValue(tx.type ?? 0),
+    chainId: ethers.utils.hexValue(tx.chainId),
+    maxFeePerGas: tx.maxFeePerGas?.toHexString(),
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toHexString(),
+    accessList: [],
+    r: tx.r,
+    s: tx.s,
+    v: ethers.utils.hexValue(tx.v ?? 0),
+    blockHash: null,
+    blockNumber: null,
+    transactionIndex: null,
+  };
+};
+
+/**
+ * Runs the bundled Speed Up Transaction tool and policy through the harness, against pending transactions
+ * served by a local chain, which stands in for an RPC chosen by the delegatee.
+ */
+describe('Speed Up Transaction tool', () => {
+  jest.setTimeout(60000);
+
+  const pkpWallet = ethers.Wallet.createRandom();
+  const delegatee = ethers.Wallet.createRandom();
+  const recipient = ethers.Wallet.createRandom().address;
+  const attacker = ethers.Wallet.createRandom();
+  const pkpToolRegistryAddress = ethers.Wallet.createRandom().address;
+
+  let yellowstone: LocalChain;
+  let chain: LocalChain;
+  let harness: LitActionHarness;
+
+  const signPendingTransaction = (
+    wallet: ethers.Wallet,
+    tx: ethers.providers.TransactionRequest = {}
+  ) =>
+    wallet.signTransaction({
+      type: 2,
+      chainId: chain.chainId,
+      nonce: 0,
+      to: recipient,
+      value: ethers.utils.parseEther('1'),
+      data: '0x',
+      gasLimit: 21000,
+      maxFeePerGas: ethers.utils.parseUnits('2', 'gwei'),
+      maxPriorityFeePerGas: ethers.utils.parseUnits('1', 'gwei'),
+      ...tx,
+    });
+
+  const executeSpeedUp = async (txHash: string) => {
+    return harness.execute({
+      ipfsId: 'QmTool',
+      jsParams: {
+        params: {
+          pkpEthAddress: pkpWallet.address,
+          rpcUrl: chain.url,
+          chainId: String(chain.chainId),
+          txHash,
+        },
+      },
+    });
+  };
+
+  beforeAll(async () => {
+    yellowstone = await LocalChain.start(175188);
+    chain = await LocalChain.start(31337);
+
+    harness = LitActionHarness.create({
+      litNetwork: 'datil-dev',
+      pkpToolRegistryAddress,
+      rpcUrls: { yellowstone: yellowstone.url },
+      pkp: { tokenId: '42', privateKey: pkpWallet.privateKey },
+      delegateeAddress: delegatee.address,
+    });
+    await harness.registerAction('QmTool', speedUpTransactionLitAction('tool'));
+    await harness.registerAction(
+      'QmPolicy',
+      speedUpTransactionLitAction('policy')
+    );
+
+    const registry = new EmulatedPkpToolRegistry('42', pkpWallet.address);
+    registry.addDelegatee(delegatee.address);
+    registry.setToolPolicy(
+      'QmTool',
+      'QmPolicy',
+      { maxFeePerGas: ethers.utils.parseUnits('100', 'gwei').toString() },
+      delegatee.address
+    );
+    yellowstone.deploy(pkpToolRegistryAddress, registry);
+  });
+
+  afterAll(async () => {
+    await yellowstone?.stop();
+    await chain?.stop();
+  });
+
+  it('should replace a pending transaction of the PKP with bumped fees', async () => {
+    const pendingTx = await signPendingTransaction(pkpWallet);
+    const { hash } = ethers.utils.parseTransaction(pendingTx);
+    chain.addPendingTransaction(hash as string, toRpcTransaction(pendingTx));
+
+    const result = await executeSpeedUp(hash as string);
+
+    expect(result.response).toEqual({
+      status: 'success',
+      replacementHash: expect.any(String),
+    });
+    const replacement = chain.transactions[chain.transactions.length - 1];
+    expect(replacement).toMatchObject({
+      from: pkpWallet.address,
+      to: recipient,
+      nonce: 0,
+      chainId: chain.chainId,
+      value: ethers.utils.parseEther('1'),
+    });
+    expect(
+      replacement.maxFeePerGas?.gt(ethers.utils.parseUnits('2', 'gwei'))
+    ).toBe(true);
+  });
+
+  it('should reject a transaction whose fields were altered by the RPC', async () => {
+    const transactionCount = chain.transactions.length;
+    const pendingTx = await signPendingTransaction(pkpWallet, { nonce: 1 });
+    const { hash } = ethers.utils.parseTransaction(pendingTx);
+    chain.addPendingTransaction(hash as string, {
+      ...toRpcTransaction(pendingTx),
+      to: attacker.address,
+    });
+
+    const result = await executeSpeedUp(hash as string);
+
+    expect(result.response).toMatchObject({
+      status: 'error',
+      error: `Transaction returned by the RPC does not match hash ${hash}`,
+    });
+    expect(chain.transactions).toHaveLength(transactionCount);
+  });
+
+  it('should reject a transaction claiming to be sent by the PKP, but signed by another account', async () => {
+    const transactionCount = chain.transactions.length;
+    const forgedTx = await signPendingTransaction(attacker, {
+      nonce: 1,
+      to: attacker.address,
+    });
+    const { hash } = ethers.utils.parseTransaction(forgedTx);
+    chain.addPendingTransaction(hash as string, {
+      ...toRpcTransaction(forgedTx),
+      from: pkpWallet.address,
+    });
+
+    const result = await executeSpeedUp(hash as string);
+
+    expect(result.response).toMatchObject({
+      status: 'error',
+      error: `Transaction ${hash} was not sent by PKP ${pkpWallet.address}`,
+    });
+    expect(chain.transactions).toHaveLength(transactionCount);
+  });
+
+  it('should reject a transaction of the PKP signed for another chain', async () => {
+    const transactionCount = chain.transactions.length;
+    const pendingTx = await signPendingTransaction(pkpWallet, {
+      nonce: 1,
+      chainId: 1,
+    });
+    const { hash } = ethers.utils.parseTransaction(pendingTx);
+    chain.addPendingTransaction(hash as string, toRpcTransaction(pendingTx));
+
+    const result = await executeSpeedUp(hash as string);
+
+    expect(result.response).toMatchObject({
+      status: 'error',
+      error: `Transaction ${hash} was signed for chain 1, but the RPC is connected to chain ${chain.chainId}`,
+    });
+    expect(chain.transactions).toHaveLength(transactionCount);
+  });
+});
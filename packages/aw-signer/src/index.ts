@@ -2,3 +2,9 @@ export { Admin } from './lib/admin';
 export { Delegatee } from './lib/delegatee';
 export * from './lib/types';
 export * from './lib/errors';
+export {
+  LocalStorage,
+  MemoryStorage,
+  EncryptedFileStorage,
+  migrateStorage,
+} from './lib/utils/storage';
@@ -16,13 +16,31 @@ import {
   DEFAULT_REGISTRY_CONFIG,
   getPkpToolRegistryContract,
   getRegisteredToolsAndDelegatees,
+  indexRegistryAuditLog,
+  type IndexRegistryAuditLogOptions,
+  type RegistryAuditLogEntry,
 } from '@lit-protocol/aw-contracts-sdk';
+import {
+  SPENDING_LIMITS_POLICY_PARAMETER,
+  SpendingLimitSchema,
+  SpendingLimitsSchema,
+  type SpendingLimit,
+} from '@lit-protocol/aw-tool';
 
 import {
   AdminConfig,
+  AdminTransactionResult,
   AgentConfig,
+  CapacityCreditDelegation,
+  CapacityCreditDelegationAuthSigOptions,
+  CapacityCreditInfo,
+  CapacityCreditMintOptions,
+  CapacityCreditStatus,
   LitNetwork,
+  MultisigProposal,
   PkpInfo,
+  SpendingLimitStatus,
+  StorageProvider,
   ToolInfoWithDelegateePolicy,
   WrappedKeyInfo,
 } from './types';
@@ -32,7 +50,24 @@ import {
   removeWrappedKeyFromStorage,
   mintWrappedKey,
 } from './wrapped-key';
-import { LocalStorage } from './utils/storage';
+import {
+  addMultisigProposalSignature,
+  createMultisigProposal,
+  executeMultisigProposal,
+  isMultisigThresholdMet,
+  loadMultisigProposalFromStorage,
+  loadMultisigProposalsFromStorage,
+  saveMultisigProposalToStorage,
+  signMultisigTransactionHash,
+  verifyMultisigProposal,
+} from './multisig';
+import {
+  delegateCapacityCredit,
+  getCapacityCredits,
+  mintCapacityCredit,
+} from './utils/capacity-credit';
+import { connectSignerToRegistry, resolveSigner } from './utils/signer';
+import { createStorageProvider } from './utils/storage';
 import { AwSignerError, AwSignerErrorType } from './errors';
 
 type AdminStorageLayout = {
@@ -53,11 +88,13 @@ export class Admin {
   // TODO: Add min balance check
   // private static readonly MIN_BALANCE = ethers.utils.parseEther('0.001');
 
-  private readonly storage: LocalStorage;
+  private readonly storage: StorageProvider;
   private readonly litNodeClient: LitNodeClientNodeJs;
   private readonly litContracts: LitContracts;
   private readonly toolRegistryContract: ethers.Contract;
-  private readonly adminWallet: ethers.Wallet;
+  private readonly adminSigner: ethers.Signer;
+  private readonly adminSignerAddress: string;
+  private readonly multisigContract: ethers.Contract | null;
 
   public readonly litNetwork: LitNetwork;
   /**
@@ -66,27 +103,42 @@ export class Admin {
    * @param litNodeClient - An instance of `LitNodeClientNodeJs`.
    * @param litContracts - An instance of `LitContracts`.
    * @param toolRegistryContract - An instance of the tool policy registry contract.
-   * @param adminWallet - The wallet used for Admin operations.
-   * @param pkpInfo - Information about the PKP (Programmable Key Pair).
+   * @param adminSigner - The signer used for Admin operations.
+   * @param adminSignerAddress - The address of the Admin's signer.
+   * @param multisigContract - The multisig contract owning the PKPs, or `null` for EOA Admins.
    */
   private constructor(
-    storage: LocalStorage,
+    storage: StorageProvider,
     litNetwork: LitNetwork,
     litNodeClient: LitNodeClientNodeJs,
     litContracts: LitContracts,
     toolRegistryContract: ethers.Contract,
-    adminWallet: ethers.Wallet
+    adminSigner: ethers.Signer,
+    adminSignerAddress: string,
+    multisigContract: ethers.Contract | null
   ) {
     this.storage = storage;
     this.litNetwork = litNetwork;
     this.litNodeClient = litNodeClient;
     this.litContracts = litContracts;
     this.toolRegistryContract = toolRegistryContract;
-    this.adminWallet = adminWallet;
+    this.adminSigner = adminSigner;
+    this.adminSignerAddress = adminSignerAddress;
+    this.multisigContract = multisigContract;
+  }
+
+  /**
+   * The address owning the Admin's PKPs.
+   * This is the multisig address for multisig Admins, and the signer address otherwise.
+   */
+  public get adminAddress(): string {
+    return this.multisigContract
+      ? this.multisigContract.address
+      : this.adminSignerAddress;
   }
 
   private static loadAdminsFromStorage(
-    storage: LocalStorage
+    storage: StorageProvider
   ): AdminStorageLayout {
     const adminData = storage.getItem(Admin.ADMIN_STORAGE_KEY);
     if (!adminData) {
@@ -96,14 +148,14 @@ export class Admin {
   }
 
   private static saveAdminsToStorage(
-    storage: LocalStorage,
+    storage: StorageProvider,
     admins: AdminStorageLayout
   ): void {
     storage.setItem(Admin.ADMIN_STORAGE_KEY, JSON.stringify(admins));
   }
 
   private static loadPkpsFromStorage(
-    storage: LocalStorage,
+    storage: StorageProvider,
     adminAddress: string
   ): PkpInfo[] {
     const admins = Admin.loadAdminsFromStorage(storage);
@@ -111,7 +163,7 @@ export class Admin {
   }
 
   private static savePkpsToStorage(
-    storage: LocalStorage,
+    storage: StorageProvider,
     adminAddress: string,
     pkps: PkpInfo[]
   ): void {
@@ -124,7 +176,7 @@ export class Admin {
   }
 
   private static async removePkpFromStorage(
-    storage: LocalStorage,
+    storage: StorageProvider,
     adminAddress: string,
     pkpTokenId: string
   ) {
@@ -146,14 +198,14 @@ export class Admin {
 
   private static async mintPkp(
     litContracts: LitContracts,
-    wallet: ethers.Wallet
+    signer: ethers.Signer
   ): Promise<PkpInfo> {
     const mintCost = await litContracts.pkpNftContract.read.mintCost();
-    if (mintCost.gt(await wallet.getBalance())) {
+    if (mintCost.gt(await signer.getBalance())) {
       throw new AwSignerError(
         AwSignerErrorType.INSUFFICIENT_BALANCE_PKP_MINT,
-        `${await wallet.getAddress()} has insufficient balance to mint PKP: ${ethers.utils.formatEther(
-          await wallet.getBalance()
+        `${await signer.getAddress()} has insufficient balance to mint PKP: ${ethers.utils.formatEther(
+          await signer.getBalance()
         )} < ${ethers.utils.formatEther(mintCost)}`
       );
     }
@@ -210,9 +262,16 @@ export class Admin {
    * @returns A promise that resolves to the minted wrapped key.
    */
   public async mintWrappedKey(pkpTokenId: string): Promise<WrappedKeyInfo> {
+    if (this.multisigContract) {
+      throw new AwSignerError(
+        AwSignerErrorType.ADMIN_MULTISIG_NOT_IMPLEMENTED,
+        'Minting wrapped keys is not supported for multisig admins, use EOA instead.'
+      );
+    }
+
     const pkp = await this.getPkpByTokenId(pkpTokenId);
     const authMethod = await EthWalletProvider.authenticate({
-      signer: this.adminWallet,
+      signer: this.adminSigner,
       litNodeClient: this.litNodeClient as any,
     });
     const pkpSessionSigs = await this.litNodeClient.getPkpSessionSigs({
@@ -241,7 +300,50 @@ export class Admin {
       pkpSessionSigs,
       pkp.info.tokenId,
       this.litNetwork,
-      this.storage
+      this.storage,
+      this.toolRegistryContract.address
+    );
+  }
+
+  /**
+   * Retrieves the capacity credits owned by the Admin's signer, with their on-chain rate limits and expirations.
+   * @returns A promise that resolves to the status of each capacity credit.
+   */
+  public async getCapacityCredits(): Promise<CapacityCreditStatus[]> {
+    return getCapacityCredits(this.litContracts, this.adminSignerAddress);
+  }
+
+  /**
+   * Mints a capacity credit owned by the Admin's signer, to be delegated to delegatees.
+   * @param options - The requests per kilosecond and the number of days until the capacity credit expires at UTC midnight.
+   * @returns A promise that resolves to the minted capacity credit.
+   * @throws {AwSignerError} If the Admin's signer has insufficient balance to mint the capacity credit.
+   */
+  public async mintCapacityCredit(
+    options: CapacityCreditMintOptions = {}
+  ): Promise<CapacityCreditInfo> {
+    return mintCapacityCredit(this.litContracts, options);
+  }
+
+  /**
+   * Delegates a capacity credit owned by the Admin's signer to delegatees,
+   * who pass the returned delegation to `Delegatee.setCapacityDelegation` to pay for their tool executions with it.
+   * @param capacityTokenId - The token ID of the capacity credit.
+   * @param options - The delegatee addresses, and optionally the number of uses and the expiration of the delegation.
+   * The delegation expires with the capacity credit if no earlier expiration is provided.
+   * @returns A promise that resolves to the capacity credit delegation.
+   * @throws {AwSignerError} If the capacity credit is not owned by the Admin's signer, or has expired.
+   */
+  public async delegateCapacityCredit(
+    capacityTokenId: string,
+    options: CapacityCreditDelegationAuthSigOptions
+  ): Promise<CapacityCreditDelegation> {
+    return delegateCapacityCredit(
+      this.litNodeClient,
+      this.litContracts,
+      this.adminSigner,
+      capacityTokenId,
+      options
     );
   }
 
@@ -250,13 +352,18 @@ export class Admin {
    * Initializes the Lit node client, contracts, and PKP.
    *
    * @param adminConfig - Configuration for the Admin role.
-   * @param agentConfig - Configuration for the agent, including the Lit network and debug mode.
+   * @param agentConfig - Configuration for the agent, including the Lit network, debug mode, and storage backend.
    * @returns A promise that resolves to an instance of the `Admin` class.
-   * @throws {AwSignerError} If the Lit network is not provided or the private key is missing.
+   * @throws {AwSignerError} If the Lit network is not provided, neither a private key nor a signer is provided, or the signer is not a multisig owner.
    */
   public static async create(
     adminConfig: AdminConfig,
-    { litNetwork, debug = false }: AgentConfig = {}
+    {
+      litNetwork,
+      debug = false,
+      storage: storageConfig,
+      toolRegistryConfig: customToolRegistryConfig,
+    }: AgentConfig = {}
   ) {
     if (!litNetwork) {
       throw new AwSignerError(
@@ -265,42 +372,95 @@ export class Admin {
       );
     }
 
-    const storage = new LocalStorage(Admin.DEFAULT_STORAGE_PATH);
+    const storage = createStorageProvider(
+      storageConfig,
+      Admin.DEFAULT_STORAGE_PATH
+    );
 
-    const toolRegistryConfig = DEFAULT_REGISTRY_CONFIG[litNetwork];
+    // The signer stays on the Lit network's chain, even with a custom registry deployment
+    const defaultToolRegistryConfig = DEFAULT_REGISTRY_CONFIG[litNetwork];
+    const toolRegistryConfig =
+      customToolRegistryConfig ?? defaultToolRegistryConfig;
 
     const provider = new ethers.providers.JsonRpcProvider(
-      toolRegistryConfig.rpcUrl
+      defaultToolRegistryConfig.rpcUrl
     );
 
-    let adminWallet: ethers.Wallet;
+    const privateKeyOrSigner = adminConfig.signer ?? adminConfig.privateKey;
+
+    let adminSigner: ethers.Signer;
+    let adminSignerAddress: string;
+    let multisigContract: ethers.Contract | null = null;
     if (adminConfig.type === 'eoa') {
-      if (!adminConfig.privateKey) {
+      if (!privateKeyOrSigner) {
         throw new AwSignerError(
           AwSignerErrorType.ADMIN_MISSING_PRIVATE_KEY,
-          'Admin private key not provided. Please provide a private key.'
+          'Admin private key not provided. Please provide a private key or a signer.'
         );
       }
 
-      adminWallet = new ethers.Wallet(adminConfig.privateKey, provider);
+      adminSigner = resolveSigner(privateKeyOrSigner, provider);
+      adminSignerAddress = ethers.utils.getAddress(
+        await adminSigner.getAddress()
+      );
 
-      // Initialize storage for this admin if not already present
+      // Initialize storage for this admin if not already present.
+      // Keys of external signers never touch the storage.
       const admins = Admin.loadAdminsFromStorage(storage);
-      if (!admins[adminWallet.address]) {
-        admins[adminWallet.address] = {
-          privateKey: adminConfig.privateKey,
+      if (!admins[adminSignerAddress]) {
+        admins[adminSignerAddress] = {
+          privateKey:
+            typeof privateKeyOrSigner === 'string' ? privateKeyOrSigner : '',
           pkps: [],
           wrappedKeys: [],
         };
         Admin.saveAdminsToStorage(storage, admins);
       }
     } else {
-      throw new AwSignerError(
-        AwSignerErrorType.ADMIN_MULTISIG_NOT_IMPLEMENTED,
-        'Multisig admin not implemented, use EOA instead.'
+      if (!privateKeyOrSigner) {
+        throw new AwSignerError(
+          AwSignerErrorType.ADMIN_MISSING_PRIVATE_KEY,
+          'Multisig owner private key not provided. Please provide a private key or a signer.'
+        );
+      }
+
+      adminSigner = resolveSigner(privateKeyOrSigner, provider);
+      adminSignerAddress = ethers.utils.getAddress(
+        await adminSigner.getAddress()
+      );
+      multisigContract = new ethers.Contract(
+        ethers.utils.getAddress(adminConfig.address),
+        adminConfig.abi,
+        adminSigner
       );
+
+      const owners = ((await multisigContract.getOwners()) as string[]).map(
+        (owner) => ethers.utils.getAddress(owner)
+      );
+      if (!owners.includes(adminSignerAddress)) {
+        throw new AwSignerError(
+          AwSignerErrorType.ADMIN_MULTISIG_NOT_OWNER,
+          `${adminSignerAddress} is not an owner of multisig ${multisigContract.address}`
+        );
+      }
+
+      // Initialize storage for this multisig if not already present
+      const admins = Admin.loadAdminsFromStorage(storage);
+      if (!admins[multisigContract.address]) {
+        admins[multisigContract.address] = {
+          privateKey: '',
+          pkps: [],
+          wrappedKeys: [],
+        };
+        Admin.saveAdminsToStorage(storage, admins);
+      }
     }
 
+    // Fail before connecting to Lit if the signer can't write to the registry's chain
+    const registrySigner = customToolRegistryConfig
+      ? await connectSignerToRegistry(adminSigner, toolRegistryConfig.rpcUrl)
+      : adminSigner;
+
     const litNodeClient = new LitNodeClientNodeJs({
       litNetwork,
       debug,
@@ -308,7 +468,7 @@ export class Admin {
     await litNodeClient.connect();
 
     const litContracts = new LitContracts({
-      signer: adminWallet,
+      signer: adminSigner,
       network: litNetwork,
       debug,
     });
@@ -319,8 +479,216 @@ export class Admin {
       litNetwork,
       litNodeClient,
       litContracts,
-      getPkpToolRegistryContract(toolRegistryConfig, adminWallet),
-      adminWallet
+      getPkpToolRegistryContract(toolRegistryConfig, registrySigner),
+      adminSigner,
+      adminSignerAddress,
+      multisigContract
+    );
+  }
+
+  /**
+   * Sends a contract call on behalf of the Admin.
+   * EOA Admins send the transaction directly, while multisig Admins create a proposal
+   * signed by the Admin's signer, which is executed once the multisig threshold is met.
+   * @param contract - The contract to call.
+   * @param method - The name of the contract method.
+   * @param args - The arguments of the contract method.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
+   */
+  private async sendTransaction(
+    contract: ethers.Contract,
+    method: string,
+    args: unknown[]
+  ): Promise<AdminTransactionResult> {
+    if (!this.multisigContract) {
+      const tx = await contract[method](...args);
+      const receipt: ethers.providers.TransactionReceipt = await tx.wait();
+      return { ...receipt, kind: 'receipt' };
+    }
+
+    const proposal = await createMultisigProposal(
+      this.multisigContract,
+      this.storage,
+      {
+        to: contract.address,
+        data: contract.interface.encodeFunctionData(method, args),
+        description: `${method}(${args
+          .map((arg) => JSON.stringify(arg))
+          .join(', ')})`,
+      }
+    );
+
+    return this.signMultisigProposal(proposal.safeTxHash);
+  }
+
+  private requireMultisigContract(): ethers.Contract {
+    if (!this.multisigContract) {
+      throw new AwSignerError(
+        AwSignerErrorType.ADMIN_NOT_MULTISIG,
+        'Admin is not a multisig admin'
+      );
+    }
+
+    return this.multisigContract;
+  }
+
+  /**
+   * Retrieves all multisig proposals stored in the Admin's (local) storage.
+   * @returns An array of multisig proposals, ordered by nonce.
+   * @throws If the Admin is not a multisig admin.
+   */
+  public async getMultisigProposals(): Promise<MultisigProposal[]> {
+    return loadMultisigProposalsFromStorage(
+      this.storage,
+      this.requireMultisigContract().address
+    );
+  }
+
+  /**
+   * Retrieves all multisig proposals that have not been executed yet.
+   * @returns An array of pending multisig proposals, ordered by nonce.
+   * @throws If the Admin is not a multisig admin.
+   */
+  public async getPendingMultisigProposals(): Promise<MultisigProposal[]> {
+    return (await this.getMultisigProposals()).filter(
+      (proposal) => proposal.executionTxHash === undefined
+    );
+  }
+
+  /**
+   * Retrieves a multisig proposal by its hash.
+   * @param safeTxHash - The hash of the multisig transaction.
+   * @returns A promise that resolves to the multisig proposal.
+   * @throws If the Admin is not a multisig admin or the proposal is not found.
+   */
+  public async getMultisigProposal(
+    safeTxHash: string
+  ): Promise<MultisigProposal> {
+    const multisigContract = this.requireMultisigContract();
+    const proposal = loadMultisigProposalFromStorage(this.storage, safeTxHash);
+    if (
+      !proposal ||
+      ethers.utils.getAddress(proposal.multisigAddress) !==
+        multisigContract.address
+    ) {
+      throw new AwSignerError(
+        AwSignerErrorType.ADMIN_MULTISIG_PROPOSAL_NOT_FOUND,
+        `Multisig proposal ${safeTxHash} not found in storage`
+      );
+    }
+
+    return proposal;
+  }
+
+  /**
+   * Imports a multisig proposal created by another owner, so it can be signed and executed.
+   * @param proposal - The multisig proposal to import.
+   * @returns A promise that resolves to the imported multisig proposal.
+   * @throws If the Admin is not a multisig admin, or the proposal or its signatures are invalid.
+   */
+  public async importMultisigProposal(
+    proposal: MultisigProposal
+  ): Promise<MultisigProposal> {
+    const multisigContract = this.requireMultisigContract();
+    await verifyMultisigProposal(multisigContract, proposal);
+
+    // Only the proposal's fields are stored, e.g. not the `kind` of a pending proposal result
+    let importedProposal: MultisigProposal = {
+      multisigAddress: multisigContract.address,
+      safeTxHash: proposal.safeTxHash.toLowerCase(),
+      description: proposal.description,
+      transaction: proposal.transaction,
+      signatures: {},
+      ...(proposal.executionTxHash !== undefined && {
+        executionTxHash: proposal.executionTxHash,
+      }),
+    };
+    saveMultisigProposalToStorage(this.storage, importedProposal);
+
+    for (const [owner, signature] of Object.entries(proposal.signatures)) {
+      importedProposal = addMultisigProposalSignature(
+        this.storage,
+        importedProposal,
+        owner,
+        signature
+      );
+    }
+
+    return importedProposal;
+  }
+
+  /**
+   * Adds a signature collected from another multisig owner to a proposal.
+   * @param safeTxHash - The hash of the multisig transaction.
+   * @param owner - The address of the owner that produced the signature.
+   * @param signature - The owner's signature over the proposal's hash.
+   * @returns A promise that resolves to the updated multisig proposal.
+   * @throws If the proposal is not found or the signature was not produced by the owner.
+   */
+  public async addMultisigProposalSignature(
+    safeTxHash: string,
+    owner: string,
+    signature: string
+  ): Promise<MultisigProposal> {
+    return addMultisigProposalSignature(
+      this.storage,
+      await this.getMultisigProposal(safeTxHash),
+      owner,
+      signature
+    );
+  }
+
+  /**
+   * Signs a multisig proposal with the Admin's signer.
+   * The proposal is executed if the multisig threshold is met after signing.
+   * @param safeTxHash - The hash of the multisig transaction.
+   * @returns A promise that resolves to the execution transaction receipt, or the pending multisig proposal.
+   * @throws If the proposal is not found, was already executed, or its execution fails.
+   */
+  public async signMultisigProposal(
+    safeTxHash: string
+  ): Promise<AdminTransactionResult> {
+    const multisigContract = this.requireMultisigContract();
+    const proposal = await this.getMultisigProposal(safeTxHash);
+    if (proposal.executionTxHash !== undefined) {
+      throw new AwSignerError(
+        AwSignerErrorType.ADMIN_MULTISIG_PROPOSAL_ALREADY_EXECUTED,
+        `Proposal ${proposal.safeTxHash} was already executed in transaction ${proposal.executionTxHash}`
+      );
+    }
+
+    const signedProposal = addMultisigProposalSignature(
+      this.storage,
+      proposal,
+      this.adminSignerAddress,
+      await signMultisigTransactionHash(proposal.safeTxHash, this.adminSigner)
+    );
+
+    if (!(await isMultisigThresholdMet(multisigContract, signedProposal))) {
+      return { ...signedProposal, kind: 'proposal' };
+    }
+
+    const receipt = await executeMultisigProposal(
+      multisigContract,
+      this.storage,
+      signedProposal
+    );
+    return { ...receipt, kind: 'receipt' };
+  }
+
+  /**
+   * Executes a multisig proposal that has collected enough owner signatures.
+   * @param safeTxHash - The hash of the multisig transaction.
+   * @returns A promise that resolves to the execution transaction receipt.
+   * @throws If the proposal is not found, was already executed, the threshold is not met, or the execution fails.
+   */
+  public async executeMultisigProposal(
+    safeTxHash: string
+  ): Promise<ethers.providers.TransactionReceipt> {
+    return executeMultisigProposal(
+      this.requireMultisigContract(),
+      this.storage,
+      await this.getMultisigProposal(safeTxHash)
     );
   }
 
@@ -329,7 +697,7 @@ export class Admin {
    * @returns An array of PKP metadata.
    */
   public async getPkps() {
-    return Admin.loadPkpsFromStorage(this.storage, this.adminWallet.address);
+    return Admin.loadPkpsFromStorage(this.storage, this.adminAddress);
   }
 
   /**
@@ -353,25 +721,46 @@ export class Admin {
 
   /**
    * Mints a new PKP and saves the metadata to the Admin's (local) storage.
+   * For multisig Admins, the PKP is minted by the Admin's signer and transferred to the multisig.
    * @returns A promise that resolves to the minted PKP metadata.
-   * @throws If the PKP minting fails.
+   * @throws If the PKP minting or the transfer to the multisig fails.
    */
   public async mintPkp() {
     const pkps = await this.getPkps();
     const mintMetadata = await Admin.mintPkp(
       this.litContracts,
-      this.adminWallet
+      this.adminSigner
     );
+
+    if (this.multisigContract) {
+      const tx = await this.litContracts.pkpNftContract.write[
+        'safeTransferFrom(address,address,uint256)'
+      ](
+        this.adminSignerAddress,
+        this.multisigContract.address,
+        mintMetadata.info.tokenId
+      );
+
+      const receipt = await tx.wait();
+      if (receipt.status === 0) {
+        throw new AwSignerError(
+          AwSignerErrorType.ADMIN_PKP_TRANSFER_FAILED,
+          'PKP transfer to multisig failed'
+        );
+      }
+    }
+
     pkps.push(mintMetadata);
-    Admin.savePkpsToStorage(this.storage, this.adminWallet.address, pkps);
+    Admin.savePkpsToStorage(this.storage, this.adminAddress, pkps);
 
     return mintMetadata;
   }
 
   /**
    * Transfers ownership of the PKP to a new owner.
+   * The PKP is removed from storage once the transfer has been executed.
    * @param newOwner - The address of the new owner.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async transferPkpOwnership(pkpTokenId: string, newOwner: string) {
@@ -380,12 +769,17 @@ export class Admin {
     }
 
     const pkp = await this.getPkpByTokenId(pkpTokenId);
-    const tx = await this.litContracts.pkpNftContract.write[
-      'safeTransferFrom(address,address,uint256)'
-    ](this.adminWallet.address, newOwner, pkp.info.tokenId);
+    const result = await this.sendTransaction(
+      this.litContracts.pkpNftContract.write,
+      'safeTransferFrom(address,address,uint256)',
+      [this.adminAddress, newOwner, pkp.info.tokenId]
+    );
 
-    const receipt = await tx.wait();
-    if (receipt.status === 0) {
+    if (result.kind === 'proposal') {
+      return result;
+    }
+
+    if (result.status === 0) {
       throw new AwSignerError(
         AwSignerErrorType.ADMIN_PKP_TRANSFER_FAILED,
         'PKP transfer failed'
@@ -394,18 +788,18 @@ export class Admin {
 
     await Admin.removePkpFromStorage(
       this.storage,
-      this.adminWallet.address,
+      this.adminAddress,
       pkpTokenId
     );
 
-    return receipt;
+    return result;
   }
 
   /**
    * Allows a tool to be used with the PKP.
    * @param ipfsCid - The IPFS CID of the tool.
    * @param signingScopes - The signing scopes for the tool (default is `SignAnything`).
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the Admin instance is not properly initialized.
    */
   public async registerTool(
@@ -425,29 +819,41 @@ export class Admin {
       throw new Error('Not properly initialized');
     }
 
-    const litContractsTxReceipt = await this.litContracts.addPermittedAction({
-      ipfsId: ipfsCid,
-      authMethodScopes: signingScopes,
-      pkpTokenId: (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
-    });
+    const pkp = await this.getPkpByTokenId(pkpTokenId);
 
-    const toolRegistryContractTx =
-      await this.toolRegistryContract.registerTools(
-        pkpTokenId,
-        [ipfsCid],
-        enableTools
-      );
+    const litContractsTxReceipt = this.multisigContract
+      ? await this.sendTransaction(
+          this.litContracts.pkpPermissionsContract.write,
+          'addPermittedAction',
+          [
+            pkp.info.tokenId,
+            this.litContracts.utils.getBytesFromMultihash(ipfsCid),
+            signingScopes,
+          ]
+        )
+      : {
+          ...(await this.litContracts.addPermittedAction({
+            ipfsId: ipfsCid,
+            authMethodScopes: signingScopes,
+            pkpTokenId: pkp.info.tokenId,
+          })),
+          kind: 'receipt' as const,
+        };
 
     return {
       litContractsTxReceipt,
-      toolRegistryContractTxReceipt: await toolRegistryContractTx.wait(),
+      toolRegistryContractTxReceipt: await this.sendTransaction(
+        this.toolRegistryContract,
+        'registerTools',
+        [pkp.info.tokenId, [ipfsCid], enableTools]
+      ),
     };
   }
 
   /**
    * Removes a tool from the list of a PKP's permitted tools.
    * @param ipfsCid - The IPFS CID of the tool.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the Admin instance is not properly initialized.
    */
   public async removeTool(pkpTokenId: string, ipfsCid: string) {
@@ -455,24 +861,22 @@ export class Admin {
       throw new Error('Not properly initialized');
     }
 
-    const revokePermittedActionTx =
-      await this.litContracts.pkpPermissionsContractUtils.write.revokePermittedAction(
-        (
-          await this.getPkpByTokenId(pkpTokenId)
-        ).info.tokenId,
-        ipfsCid
-      );
-
-    const removeToolsTx = await this.toolRegistryContract.removeTools(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [ipfsCid]
-    );
+    const pkp = await this.getPkpByTokenId(pkpTokenId);
 
     return {
-      revokePermittedActionTxReceipt: await revokePermittedActionTx.wait(),
-      removeToolsTxReceipt: await removeToolsTx.wait(),
+      revokePermittedActionTxReceipt: await this.sendTransaction(
+        this.litContracts.pkpPermissionsContract.write,
+        'removePermittedAction',
+        [
+          pkp.info.tokenId,
+          this.litContracts.utils.getBytesFromMultihash(ipfsCid),
+        ]
+      ),
+      removeToolsTxReceipt: await this.sendTransaction(
+        this.toolRegistryContract,
+        'removeTools',
+        [pkp.info.tokenId, [ipfsCid]]
+      ),
     };
   }
 
@@ -480,7 +884,7 @@ export class Admin {
    * Enables a tool for a given PKP.
    * @param pkpTokenId - The token ID of the PKP.
    * @param toolIpfsCid - The IPFS CID of the tool to be enabled.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the Admin instance is not properly initialized.
    */
   public async enableTool(pkpTokenId: string, toolIpfsCid: string) {
@@ -488,21 +892,17 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx = await this.toolRegistryContract.enableTools(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [toolIpfsCid]
-    );
-
-    return await tx.wait();
+    return this.sendTransaction(this.toolRegistryContract, 'enableTools', [
+      (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+      [toolIpfsCid],
+    ]);
   }
 
   /**
    * Disables a tool for a given PKP.
    * @param pkpTokenId - The token ID of the PKP.
    * @param toolIpfsCid - The IPFS CID of the tool to be disabled.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async disableTool(pkpTokenId: string, toolIpfsCid: string) {
@@ -510,14 +910,10 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx = await this.toolRegistryContract.disableTools(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [toolIpfsCid]
-    );
-
-    return await tx.wait();
+    return this.sendTransaction(this.toolRegistryContract, 'disableTools', [
+      (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+      [toolIpfsCid],
+    ]);
   }
 
   /**
@@ -627,10 +1023,34 @@ export class Admin {
     );
   }
 
+  /**
+   * Retrieves the history of registry changes made to the PKP's tools, delegatees, policies and policy parameters.
+   * Registry events are indexed from the last checkpoint persisted in the Admin's storage, so only new blocks are fetched.
+   * @param pkpTokenId - The token ID of the PKP.
+   * @param options - Optional. The blocks to index and the number of blocks requested at once.
+   * @returns The audit log entries of the PKP, oldest first.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async getAuditLog(
+    pkpTokenId: string,
+    options?: IndexRegistryAuditLogOptions
+  ): Promise<RegistryAuditLogEntry[]> {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    return indexRegistryAuditLog(
+      this.toolRegistryContract,
+      (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+      this.storage,
+      options
+    );
+  }
+
   /**
    * Adds a delegatee for the PKP.
    * @param delegatee - The address to add as a delegatee.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async addDelegatee(pkpTokenId: string, delegatee: string) {
@@ -638,21 +1058,17 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx = await this.toolRegistryContract.addDelegatees(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [delegatee]
-    );
-
-    return await tx.wait();
+    return this.sendTransaction(this.toolRegistryContract, 'addDelegatees', [
+      (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+      [delegatee],
+    ]);
   }
 
   /**
    * Removes a delegatee for the PKP.
    * @param pkpTokenId - The PKP token ID.
    * @param delegatee - The address of the delegatee to remove.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async removeDelegatee(pkpTokenId: string, delegatee: string) {
@@ -660,14 +1076,10 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx = await this.toolRegistryContract.removeDelegatees(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [delegatee]
-    );
-
-    return await tx.wait();
+    return this.sendTransaction(this.toolRegistryContract, 'removeDelegatees', [
+      (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+      [delegatee],
+    ]);
   }
 
   /**
@@ -727,7 +1139,7 @@ export class Admin {
    * @param pkpTokenId - The PKP token ID.
    * @param toolIpfsCid - The IPFS CID of the tool.
    * @param delegatee - The address of the delegatee.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async permitToolForDelegatee(
@@ -739,15 +1151,15 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx = await this.toolRegistryContract.permitToolsForDelegatees(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [toolIpfsCid],
-      [delegatee]
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'permitToolsForDelegatees',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+        [toolIpfsCid],
+        [delegatee],
+      ]
     );
-
-    return await tx.wait();
   }
 
   /**
@@ -755,7 +1167,7 @@ export class Admin {
    * @param pkpTokenId - The PKP token ID.
    * @param toolIpfsCid - The IPFS CID of the tool.
    * @param delegatee - The address of the delegatee.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async unpermitToolForDelegatee(
@@ -767,15 +1179,15 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx = await this.toolRegistryContract.unpermitToolsForDelegatees(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [toolIpfsCid],
-      [delegatee]
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'unpermitToolsForDelegatees',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+        [toolIpfsCid],
+        [delegatee],
+      ]
     );
-
-    return await tx.wait();
   }
 
   /**
@@ -813,7 +1225,7 @@ export class Admin {
    * @param delegatee - The address of the delegatee.
    * @param policyIpfsCid - The IPFS CID of the policy to be set.
    * @param enablePolicies - Whether to enable the policy after setting it.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async setToolPolicyForDelegatee(
@@ -827,17 +1239,17 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx = await this.toolRegistryContract.setToolPoliciesForDelegatees(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [ipfsCid],
-      [delegatee],
-      [policyIpfsCid],
-      enablePolicies
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'setToolPoliciesForDelegatees',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+        [ipfsCid],
+        [delegatee],
+        [policyIpfsCid],
+        enablePolicies,
+      ]
     );
-
-    return await tx.wait();
   }
 
   /**
@@ -845,7 +1257,7 @@ export class Admin {
    * @param pkpTokenId - The PKP token ID.
    * @param ipfsCid - The IPFS CID of the tool.
    * @param delegatee - The address of the delegatee.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async removeToolPolicyForDelegatee(
@@ -857,15 +1269,15 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx = await this.toolRegistryContract.removeToolPoliciesForDelegatees(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [ipfsCid],
-      [delegatee]
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'removeToolPoliciesForDelegatees',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+        [ipfsCid],
+        [delegatee],
+      ]
     );
-
-    return await tx.wait();
   }
 
   /**
@@ -873,7 +1285,7 @@ export class Admin {
    * @param pkpTokenId - The PKP token ID.
    * @param ipfsCid - The IPFS CID of the tool.
    * @param delegatee - The address of the delegatee.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async enableToolPolicyForDelegatee(
@@ -885,15 +1297,15 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx = await this.toolRegistryContract.enableToolPoliciesForDelegatees(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [ipfsCid],
-      [delegatee]
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'enableToolPoliciesForDelegatees',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+        [ipfsCid],
+        [delegatee],
+      ]
     );
-
-    return await tx.wait();
   }
 
   /**
@@ -901,7 +1313,7 @@ export class Admin {
    * @param pkpTokenId - The PKP token ID.
    * @param ipfsCid - The IPFS CID of the tool.
    * @param delegatee - The address of the delegatee.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async disableToolPolicyForDelegatee(
@@ -913,15 +1325,15 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx = await this.toolRegistryContract.disableToolPoliciesForDelegatees(
-      (
-        await this.getPkpByTokenId(pkpTokenId)
-      ).info.tokenId,
-      [ipfsCid],
-      [delegatee]
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'disableToolPoliciesForDelegatees',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+        [ipfsCid],
+        [delegatee],
+      ]
     );
-
-    return await tx.wait();
   }
 
   /**
@@ -1015,7 +1427,7 @@ export class Admin {
    * @param delegatee - The address of the delegatee.
    * @param parameterNames - An array of policy parameter names.
    * @param parameterValues - An array of policy parameter values.
-   * @returns A promise that resolves to the transaction receipt.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
   public async setToolPolicyParametersForDelegatee(
@@ -1029,30 +1441,64 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx =
-      await this.toolRegistryContract.setToolPolicyParametersForDelegatee(
-        (
-          await this.getPkpByTokenId(pkpTokenId)
-        ).info.tokenId,
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'setToolPolicyParametersForDelegatee',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
         ipfsCid,
         delegatee,
         parameterNames,
-        parameterValues
-      );
-
-    return await tx.wait();
+        parameterValues,
+      ]
+    );
   }
 
   /**
-   * Removes multiple policy parameters for a tool and delegatee.
+   * Sets multiple policy parameters for a tool and delegatee in a single transaction,
+   * replacing the values of parameters that are already set.
    * @param pkpTokenId - The PKP token ID.
    * @param ipfsCid - The IPFS CID of the tool.
    * @param delegatee - The address of the delegatee.
-   * @param parameterNames - An array of policy parameter names to remove.
-   * @returns A promise that resolves to the transaction receipt.
+   * @param parameterNames - An array of policy parameter names.
+   * @param parameterValues - An array of policy parameter values.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
    * @throws If the tool policy registry contract is not initialized.
    */
-  public async removeToolPolicyParametersForDelegatee(
+  public async updateToolPolicyParametersForDelegatee(
+    pkpTokenId: string,
+    ipfsCid: string,
+    delegatee: string,
+    parameterNames: string[],
+    parameterValues: any[]
+  ) {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'updateToolPolicyParametersForDelegatee',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+        ipfsCid,
+        delegatee,
+        parameterNames,
+        parameterValues,
+      ]
+    );
+  }
+
+  /**
+   * Removes multiple policy parameters for a tool and delegatee.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @param delegatee - The address of the delegatee.
+   * @param parameterNames - An array of policy parameter names to remove.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async removeToolPolicyParametersForDelegatee(
     pkpTokenId: string,
     ipfsCid: string,
     delegatee: string,
@@ -1062,17 +1508,422 @@ export class Admin {
       throw new Error('Tool policy manager not initialized');
     }
 
-    const tx =
-      await this.toolRegistryContract.removeToolPolicyParametersForDelegatee(
-        (
-          await this.getPkpByTokenId(pkpTokenId)
-        ).info.tokenId,
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'removeToolPolicyParametersForDelegatee',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
         ipfsCid,
         delegatee,
-        parameterNames
+        parameterNames,
+      ]
+    );
+  }
+
+  /**
+   * Retrieves the blanket policy for a tool, which applies to all delegatees without a custom policy.
+   * @param pkpTokenId - The token ID of the PKP.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @returns An object containing the policy IPFS CID and enabled status, with an empty policy IPFS CID if none is set.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async getBlanketToolPolicy(
+    pkpTokenId: string,
+    ipfsCid: string
+  ): Promise<{ policyIpfsCid: string; enabled: boolean }> {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    const result = await this.toolRegistryContract.getBlanketToolPolicies(
+      (
+        await this.getPkpByTokenId(pkpTokenId)
+      ).info.tokenId,
+      [ipfsCid]
+    );
+
+    return result[0];
+  }
+
+  /**
+   * Sets the blanket policy for a tool, which applies to all delegatees without a custom policy.
+   * @param pkpTokenId - The token ID of the PKP.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @param policyIpfsCid - The IPFS CID of the policy to be set.
+   * @param enablePolicy - Whether to enable the policy after setting it.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async setBlanketToolPolicy(
+    pkpTokenId: string,
+    ipfsCid: string,
+    policyIpfsCid: string,
+    enablePolicy: boolean
+  ) {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'setBlanketToolPolicies',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+        [ipfsCid],
+        [policyIpfsCid],
+        enablePolicy,
+      ]
+    );
+  }
+
+  /**
+   * Removes the blanket policy for a tool, along with its parameters.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async removeBlanketToolPolicy(pkpTokenId: string, ipfsCid: string) {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'removeBlanketToolPolicies',
+      [(await this.getPkpByTokenId(pkpTokenId)).info.tokenId, [ipfsCid]]
+    );
+  }
+
+  /**
+   * Enables the blanket policy for a tool.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async enableBlanketToolPolicy(pkpTokenId: string, ipfsCid: string) {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'enableBlanketToolPolicies',
+      [(await this.getPkpByTokenId(pkpTokenId)).info.tokenId, [ipfsCid]]
+    );
+  }
+
+  /**
+   * Disables the blanket policy for a tool.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async disableBlanketToolPolicy(pkpTokenId: string, ipfsCid: string) {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'disableBlanketToolPolicies',
+      [(await this.getPkpByTokenId(pkpTokenId)).info.tokenId, [ipfsCid]]
+    );
+  }
+
+  /**
+   * Retrieves multiple parameters of the blanket policy for a tool.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @param parameterNames - An array of policy parameter names.
+   * @returns A promise that resolves to an array of the set policy parameter names and values.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async getBlanketToolPolicyParameters(
+    pkpTokenId: string,
+    ipfsCid: string,
+    parameterNames: string[]
+  ): Promise<{ name: string; value: string }[]> {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    return this.toolRegistryContract.getBlanketToolPolicyParameters(
+      (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+      ipfsCid,
+      parameterNames
+    );
+  }
+
+  /**
+   * Retrieves all parameters of the blanket policy for a tool.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @returns A promise that resolves to an array of all policy parameter names and values.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async getAllBlanketToolPolicyParameters(
+    pkpTokenId: string,
+    ipfsCid: string
+  ): Promise<{ name: string; value: string }[]> {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    return this.toolRegistryContract.getAllBlanketToolPolicyParameters(
+      (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+      ipfsCid
+    );
+  }
+
+  /**
+   * Sets multiple parameters of the blanket policy for a tool. The blanket policy must be set first.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @param parameterNames - An array of policy parameter names.
+   * @param parameterValues - An array of policy parameter values.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async setBlanketToolPolicyParameters(
+    pkpTokenId: string,
+    ipfsCid: string,
+    parameterNames: string[],
+    parameterValues: any[]
+  ) {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'setBlanketToolPolicyParameters',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+        ipfsCid,
+        parameterNames,
+        parameterValues,
+      ]
+    );
+  }
+
+  /**
+   * Removes multiple parameters of the blanket policy for a tool.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @param parameterNames - An array of policy parameter names to remove.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
+   * @throws If the tool policy registry contract is not initialized.
+   */
+  public async removeBlanketToolPolicyParameters(
+    pkpTokenId: string,
+    ipfsCid: string,
+    parameterNames: string[]
+  ) {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    return this.sendTransaction(
+      this.toolRegistryContract,
+      'removeBlanketToolPolicyParameters',
+      [
+        (await this.getPkpByTokenId(pkpTokenId)).info.tokenId,
+        ipfsCid,
+        parameterNames,
+      ]
+    );
+  }
+
+  /**
+   * Retrieves the spending limits of a tool for a delegatee, with the amounts spent within their rolling windows.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @param delegatee - The address of the delegatee.
+   * @returns A promise that resolves to the spending limits and their remaining allowances.
+   * @throws If the tool policy registry contract is not initialized, or the stored spending limits are invalid.
+   */
+  public async getSpendingLimitsForDelegatee(
+    pkpTokenId: string,
+    ipfsCid: string,
+    delegatee: string
+  ): Promise<SpendingLimitStatus[]> {
+    if (!this.toolRegistryContract) {
+      throw new Error('Tool policy manager not initialized');
+    }
+
+    const pkp = await this.getPkpByTokenId(pkpTokenId);
+    const spendingLimits = await this.getSpendingLimits(
+      pkpTokenId,
+      ipfsCid,
+      delegatee
+    );
+
+    return Promise.all(
+      (spendingLimits ?? []).map(async (spendingLimit) => {
+        const spent: ethers.BigNumber =
+          await this.toolRegistryContract.getSpentAmount(
+            pkp.info.tokenId,
+            ipfsCid,
+            delegatee,
+            spendingLimit.tokenAddress,
+            spendingLimit.period
+          );
+        const limitAmount = ethers.BigNumber.from(spendingLimit.amount);
+
+        return {
+          ...spendingLimit,
+          spent: spent.toString(),
+          remaining: limitAmount.gt(spent)
+            ? limitAmount.sub(spent).toString()
+            : '0',
+        };
+      })
+    );
+  }
+
+  /**
+   * Sets the spending limit of a token for a tool and delegatee, replacing any existing limit for the token.
+   * The limit is enforced by the tool's policy over a rolling window of `period` seconds.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @param delegatee - The address of the delegatee.
+   * @param spendingLimit - The spending limit to set.
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
+   * @throws If the tool policy registry contract is not initialized, or the spending limit is invalid.
+   */
+  public async setSpendingLimitForDelegatee(
+    pkpTokenId: string,
+    ipfsCid: string,
+    delegatee: string,
+    spendingLimit: SpendingLimit
+  ): Promise<AdminTransactionResult> {
+    const result = SpendingLimitSchema.safeParse(spendingLimit);
+    if (!result.success) {
+      throw new AwSignerError(
+        AwSignerErrorType.ADMIN_INVALID_SPENDING_LIMIT,
+        `Invalid spending limit: ${result.error.issues
+          .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+          .join(', ')}`,
+        { spendingLimit }
       );
+    }
 
-    return await tx.wait();
+    const spendingLimits = await this.getSpendingLimits(
+      pkpTokenId,
+      ipfsCid,
+      delegatee
+    );
+
+    return this.updateSpendingLimits(pkpTokenId, ipfsCid, delegatee, [
+      ...(spendingLimits ?? []).filter(
+        ({ tokenAddress }) =>
+          tokenAddress.toLowerCase() !==
+          spendingLimit.tokenAddress.toLowerCase()
+      ),
+      result.data,
+    ]);
+  }
+
+  /**
+   * Removes the spending limit of a token for a tool and delegatee.
+   * Amounts already spent remain recorded on-chain, and count towards any limit set again for the token.
+   * @param pkpTokenId - The PKP token ID.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @param delegatee - The address of the delegatee.
+   * @param tokenAddress - The address of the token (zero address for the native token).
+   * @returns A promise that resolves to the transaction receipt, or the pending multisig proposal.
+   * @throws If the tool policy registry contract is not initialized, or no spending limit is set for the token.
+   */
+  public async removeSpendingLimitForDelegatee(
+    pkpTokenId: string,
+    ipfsCid: string,
+    delegatee: string,
+    tokenAddress: string
+  ): Promise<AdminTransactionResult> {
+    const spendingLimits =
+      (await this.getSpendingLimits(pkpTokenId, ipfsCid, delegatee)) ?? [];
+    const remainingSpendingLimits = spendingLimits.filter(
+      (spendingLimit) =>
+        spendingLimit.tokenAddress.toLowerCase() !== tokenAddress.toLowerCase()
+    );
+
+    if (remainingSpendingLimits.length === spendingLimits.length) {
+      throw new AwSignerError(
+        AwSignerErrorType.ADMIN_INVALID_SPENDING_LIMIT,
+        `No spending limit set for token ${tokenAddress}`,
+        { pkpTokenId, ipfsCid, delegatee, tokenAddress }
+      );
+    }
+
+    return this.updateSpendingLimits(
+      pkpTokenId,
+      ipfsCid,
+      delegatee,
+      remainingSpendingLimits
+    );
+  }
+
+  /**
+   * Reads and validates the `spendingLimits` policy parameter of a tool for a delegatee.
+   * @returns The spending limits, or null if the parameter is not set.
+   */
+  private async getSpendingLimits(
+    pkpTokenId: string,
+    ipfsCid: string,
+    delegatee: string
+  ): Promise<SpendingLimit[] | null> {
+    const [parameter] = await this.getToolPolicyParametersForDelegatee(
+      pkpTokenId,
+      ipfsCid,
+      delegatee,
+      [SPENDING_LIMITS_POLICY_PARAMETER]
+    );
+    if (!parameter) {
+      return null;
+    }
+
+    try {
+      return SpendingLimitsSchema.parse(
+        JSON.parse(ethers.utils.toUtf8String(parameter.value))
+      );
+    } catch (error) {
+      throw new AwSignerError(
+        AwSignerErrorType.ADMIN_INVALID_SPENDING_LIMIT,
+        `Invalid ${SPENDING_LIMITS_POLICY_PARAMETER} policy parameter for tool ${ipfsCid} and delegatee ${delegatee}`,
+        { error }
+      );
+    }
+  }
+
+  /**
+   * Replaces the `spendingLimits` policy parameter of a tool for a delegatee in a single transaction,
+   * so the previous limits are enforced until the new ones apply. The parameter is removed if no limits remain.
+   */
+  private async updateSpendingLimits(
+    pkpTokenId: string,
+    ipfsCid: string,
+    delegatee: string,
+    spendingLimits: SpendingLimit[]
+  ): Promise<AdminTransactionResult> {
+    if (spendingLimits.length === 0) {
+      return this.removeToolPolicyParametersForDelegatee(
+        pkpTokenId,
+        ipfsCid,
+        delegatee,
+        [SPENDING_LIMITS_POLICY_PARAMETER]
+      );
+    }
+
+    return this.updateToolPolicyParametersForDelegatee(
+      pkpTokenId,
+      ipfsCid,
+      delegatee,
+      [SPENDING_LIMITS_POLICY_PARAMETER],
+      [ethers.utils.toUtf8Bytes(JSON.stringify(spendingLimits))]
+    );
   }
 
   /**
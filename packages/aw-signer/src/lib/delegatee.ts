@@ -4,6 +4,8 @@ import {
   AuthSig,
   ExecuteJsResponse,
   JsonExecutionSdkParams,
+  LitResourceAbilityRequest,
+  SessionSigsMap,
 } from '@lit-protocol/types';
 import {
   createSiweMessage,
@@ -13,10 +15,15 @@ import {
 } from '@lit-protocol/auth-helpers';
 import { LIT_ABILITY } from '@lit-protocol/constants';
 import { ethers } from 'ethers';
+import {
+  pollTransactionStatus,
+  type AwTool,
+  type TransactionStatus,
+  type WaitForTransactionOptions,
+} from '@lit-protocol/aw-tool';
 import {
   DEFAULT_REGISTRY_CONFIG,
   getPkpToolRegistryContract,
-  getPermittedToolsForDelegatee,
 } from '@lit-protocol/aw-contracts-sdk';
 
 import type {
@@ -27,26 +34,67 @@ import type {
   DelegatedPkpInfo,
   IntentMatcher,
   IntentMatcherResponse,
+  CapacityCreditDelegation,
   CapacityCreditInfo,
+  CapacityCreditMintOptions,
+  CapacityCreditStatus,
+  ExecuteToolsOptions,
+  PermissionsChangedListener,
+  StorageProvider,
+  ToolBatchItem,
+  ToolBatchItemResult,
+  ToolExecutionResult,
+  ToolSimulationReport,
 } from './types';
 import {
+  getCapacityCredits,
+  getCapacityCreditStatus,
   isCapacityCreditExpired,
   mintCapacityCredit,
   requiresCapacityCredit,
 } from './utils/capacity-credit';
-import { LocalStorage } from './utils/storage';
+import { mapSettledWithConcurrency } from './utils/concurrency';
+import { PermittedToolsCache } from './utils/permitted-tools-cache';
+import {
+  getSessionCacheKey,
+  isSessionError,
+  SessionSignatureCache,
+} from './utils/session-cache';
+import { connectSignerToRegistry, resolveSigner } from './utils/signer';
+import { createStorageProvider } from './utils/storage';
+import {
+  parseToolResult,
+  parseToolSimulationResult,
+} from './utils/tool-result';
 import { AwSignerError, AwSignerErrorType } from './errors';
 
 type DelegateeStorageLayout = {
   [ethAddress: string]: {
     privateKey: string;
     capacityCredit?: CapacityCreditInfo;
+    capacityDelegation?: CapacityCreditDelegation;
     credentials?: {
       [credentialName: string]: string;
     };
   };
 };
 
+/**
+ * Returns the lane of a batch item sending transactions from a PKP, keyed by the PKP and its chain.
+ * Tools read the PKP's pending nonce when they execute, so executions sharing a lane must not overlap.
+ * @param item - The batch item.
+ * @returns The lane, or undefined if the item has no PKP and chain parameters.
+ */
+function getPkpChainLane({ params }: ToolBatchItem): string | undefined {
+  const toolParams = params.jsParams?.['params'];
+  const chain = toolParams?.chainId ?? toolParams?.rpcUrl;
+  if (typeof toolParams?.pkpEthAddress !== 'string' || chain === undefined) {
+    return undefined;
+  }
+
+  return `${toolParams.pkpEthAddress.toLowerCase()}:${chain}`;
+}
+
 /**
  * The `Delegatee` class is responsible for executing tools on behalf of the PKP Admin.
  * They are limited to the tools and policies that the PKP Admin has permitted. The class
@@ -59,42 +107,63 @@ export class Delegatee implements CredentialStore {
   private static readonly DEFAULT_STORAGE_PATH =
     './.law-signer-delegatee-storage';
   private static readonly DELEGATEE_STORAGE_KEY = 'delegatees';
+  private static readonly DEFAULT_SESSION_EXPIRATION_MS = 1000 * 60 * 10; // 10 minutes
+  private static readonly DEFAULT_BATCH_CONCURRENCY = 4;
+  private static readonly SESSION_REFRESH_MARGIN_MS = 1000 * 60; // 1 minute
+  private static readonly SESSION_CAPACITY_USES = 100;
 
-  private readonly storage: LocalStorage;
+  private readonly storage: StorageProvider;
   private readonly litNodeClient: LitNodeClientNodeJs;
   private readonly litContracts: LitContracts;
   private readonly toolRegistryContract: ethers.Contract;
-  private readonly delegateeWallet: ethers.Wallet;
+  private readonly delegateeSigner: ethers.Signer;
+  private readonly delegateeAddress: string;
+  private readonly customToolRegistryAddress: string | null;
+  private readonly sessionCache = new SessionSignatureCache(
+    Delegatee.SESSION_REFRESH_MARGIN_MS
+  );
+  private readonly permittedToolsCache: PermittedToolsCache;
 
   public readonly litNetwork: LitNetwork;
 
   /**
    * Private constructor for the Delegatee class.
    * @param litNetwork - The Lit network to use.
-   * @param storage - An instance of `LocalStorage` for storing delegatee information.
+   * @param storage - An instance of `StorageProvider` for storing delegatee information.
    * @param litNodeClient - An instance of `LitNodeClientNodeJs`.
    * @param litContracts - An instance of `LitContracts`.
    * @param toolRegistryContract - An instance of the tool policy registry contract.
-   * @param delegateeWallet - The wallet used for Delegatee operations.
+   * @param delegateeSigner - The signer used for Delegatee operations.
+   * @param delegateeAddress - The address of the Delegatee's signer.
+   * @param customToolRegistryAddress - The address of a custom PKP Tool Registry deployment passed to the tools,
+   * or `null` for tools to use the registry of the Lit network they were built for.
    */
   private constructor(
     litNetwork: LitNetwork,
-    storage: LocalStorage,
+    storage: StorageProvider,
     litNodeClient: LitNodeClientNodeJs,
     litContracts: LitContracts,
     toolRegistryContract: ethers.Contract,
-    delegateeWallet: ethers.Wallet
+    delegateeSigner: ethers.Signer,
+    delegateeAddress: string,
+    customToolRegistryAddress: string | null
   ) {
     this.litNetwork = litNetwork;
     this.storage = storage;
     this.litNodeClient = litNodeClient;
     this.litContracts = litContracts;
     this.toolRegistryContract = toolRegistryContract;
-    this.delegateeWallet = delegateeWallet;
+    this.delegateeSigner = delegateeSigner;
+    this.delegateeAddress = delegateeAddress;
+    this.customToolRegistryAddress = customToolRegistryAddress;
+    this.permittedToolsCache = new PermittedToolsCache(
+      toolRegistryContract,
+      delegateeAddress
+    );
   }
 
   private static loadDelegateesFromStorage(
-    storage: LocalStorage
+    storage: StorageProvider
   ): DelegateeStorageLayout {
     const delegateeData = storage.getItem(Delegatee.DELEGATEE_STORAGE_KEY);
     if (!delegateeData) {
@@ -104,7 +173,7 @@ export class Delegatee implements CredentialStore {
   }
 
   private static saveDelegateesToStorage(
-    storage: LocalStorage,
+    storage: StorageProvider,
     delegatees: DelegateeStorageLayout
   ): void {
     storage.setItem(
@@ -118,13 +187,13 @@ export class Delegatee implements CredentialStore {
    * If a capacity credit is already stored and not expired, it is loaded; otherwise, a new capacity credit is minted.
    *
    * @param litContracts - An instance of `LitContracts`.
-   * @param storage - An instance of `LocalStorage` for storing capacity credit information.
+   * @param storage - An instance of `StorageProvider` for storing capacity credit information.
    * @param delegateeAddress - The address of the delegatee.
    * @returns A promise that resolves to the capacity credit information or `null` if not required.
    */
   private static async getCapacityCredit(
     litContracts: LitContracts,
-    storage: LocalStorage,
+    storage: StorageProvider,
     delegateeAddress: string
   ) {
     if (requiresCapacityCredit(litContracts)) {
@@ -132,24 +201,22 @@ export class Delegatee implements CredentialStore {
       const capacityCreditInfo =
         delegatees[delegateeAddress]?.capacityCredit || null;
 
-      if (
-        capacityCreditInfo !== null &&
-        !isCapacityCreditExpired(
-          capacityCreditInfo.mintedAtUtc,
-          capacityCreditInfo.daysUntilUTCMidnightExpiration
-        )
-      ) {
-        return capacityCreditInfo;
+      if (capacityCreditInfo !== null) {
+        const { expiresAt, isExpired } = await getCapacityCreditStatus(
+          litContracts,
+          capacityCreditInfo.capacityTokenId
+        );
+        if (!isExpired) {
+          return { ...capacityCreditInfo, expiresAt };
+        }
       }
 
       const mintMetadata = await mintCapacityCredit(litContracts);
-
-      // Update storage with new capacity credit
-      if (!delegatees[delegateeAddress]) {
-        delegatees[delegateeAddress] = { privateKey: '' };
-      }
-      delegatees[delegateeAddress].capacityCredit = mintMetadata;
-      Delegatee.saveDelegateesToStorage(storage, delegatees);
+      Delegatee.saveCapacityCreditToStorage(
+        storage,
+        delegateeAddress,
+        mintMetadata
+      );
 
       return mintMetadata;
     }
@@ -157,18 +224,61 @@ export class Delegatee implements CredentialStore {
     return null;
   }
 
+  private static saveCapacityCreditToStorage(
+    storage: StorageProvider,
+    delegateeAddress: string,
+    capacityCreditInfo: CapacityCreditInfo
+  ): void {
+    const delegatees = Delegatee.loadDelegateesFromStorage(storage);
+    if (!delegatees[delegateeAddress]) {
+      delegatees[delegateeAddress] = { privateKey: '' };
+    }
+    delegatees[delegateeAddress].capacityCredit = capacityCreditInfo;
+    Delegatee.saveDelegateesToStorage(storage, delegatees);
+  }
+
+  /**
+   * Loads the capacity credit delegation used by the Delegatee, unless it has expired.
+   * @param storage - An instance of `StorageProvider` storing the delegation.
+   * @param delegateeAddress - The address of the delegatee.
+   * @returns The capacity credit delegation, or `null` if none is set or it has expired.
+   */
+  private static loadCapacityDelegationFromStorage(
+    storage: StorageProvider,
+    delegateeAddress: string
+  ): CapacityCreditDelegation | null {
+    const delegatees = Delegatee.loadDelegateesFromStorage(storage);
+    const capacityDelegation =
+      delegatees[delegateeAddress]?.capacityDelegation || null;
+
+    if (
+      capacityDelegation === null ||
+      isCapacityCreditExpired(capacityDelegation.expiration)
+    ) {
+      return null;
+    }
+
+    return capacityDelegation;
+  }
+
   /**
    * Creates an instance of the `Delegatee` class.
    * Initializes the Lit node client, contracts, and capacity credit.
    *
-   * @param delegateePrivateKey - Optional. The private key for the Delegatee role.
-   * @param agentConfig - Configuration for the agent, including the Lit network and debug mode.
+   * @param delegateePrivateKeyOrSigner - Optional. The private key for the Delegatee role, or an external signer
+   * (e.g. a hardware wallet bridge, KMS or WalletConnect signer) whose keys are never persisted to storage.
+   * @param agentConfig - Configuration for the agent, including the Lit network, debug mode, and storage backend.
    * @returns A promise that resolves to an instance of the `Delegatee` class.
-   * @throws {AwSignerError} If the Lit network is not provided or the private key is missing.
+   * @throws {AwSignerError} If the Lit network is not provided or neither a private key nor a signer is provided.
    */
   public static async create(
-    delegateePrivateKey?: string,
-    { litNetwork, debug = false }: AgentConfig = {}
+    delegateePrivateKeyOrSigner?: string | ethers.Signer,
+    {
+      litNetwork,
+      debug = false,
+      storage: storageConfig,
+      toolRegistryConfig: customToolRegistryConfig,
+    }: AgentConfig = {}
   ) {
     if (!litNetwork) {
       throw new AwSignerError(
@@ -177,41 +287,72 @@ export class Delegatee implements CredentialStore {
       );
     }
 
-    const storage = new LocalStorage(Delegatee.DEFAULT_STORAGE_PATH);
+    const storage = createStorageProvider(
+      storageConfig,
+      Delegatee.DEFAULT_STORAGE_PATH
+    );
 
-    const toolPolicyRegistryConfig = DEFAULT_REGISTRY_CONFIG[litNetwork];
+    // The signer stays on the Lit network's chain, even with a custom registry deployment
+    const defaultToolRegistryConfig = DEFAULT_REGISTRY_CONFIG[litNetwork];
+    const toolPolicyRegistryConfig =
+      customToolRegistryConfig ?? defaultToolRegistryConfig;
 
     const provider = new ethers.providers.JsonRpcProvider(
-      toolPolicyRegistryConfig.rpcUrl
+      defaultToolRegistryConfig.rpcUrl
     );
 
-    // Create temporary wallet to get address for storage lookup
-    const tempWallet = delegateePrivateKey
-      ? new ethers.Wallet(delegateePrivateKey)
-      : null;
     const delegatees = Delegatee.loadDelegateesFromStorage(storage);
-    const delegateeData = tempWallet ? delegatees[tempWallet.address] : null;
 
-    const _delegateePrivateKey =
-      delegateePrivateKey || delegateeData?.privateKey;
+    let delegateeSigner: ethers.Signer;
+    if (
+      delegateePrivateKeyOrSigner !== undefined &&
+      typeof delegateePrivateKeyOrSigner !== 'string'
+    ) {
+      delegateeSigner = resolveSigner(delegateePrivateKeyOrSigner, provider);
+    } else {
+      // Create temporary wallet to get address for storage lookup
+      const tempWallet = delegateePrivateKeyOrSigner
+        ? new ethers.Wallet(delegateePrivateKeyOrSigner)
+        : null;
+      const delegateeData = tempWallet ? delegatees[tempWallet.address] : null;
 
-    if (_delegateePrivateKey === null || _delegateePrivateKey === undefined) {
-      throw new AwSignerError(
-        AwSignerErrorType.DELEGATEE_MISSING_PRIVATE_KEY,
-        'Delegatee private key not provided and not found in storage. Please provide a private key.'
-      );
+      const _delegateePrivateKey =
+        delegateePrivateKeyOrSigner || delegateeData?.privateKey;
+
+      if (_delegateePrivateKey === null || _delegateePrivateKey === undefined) {
+        throw new AwSignerError(
+          AwSignerErrorType.DELEGATEE_MISSING_PRIVATE_KEY,
+          'Delegatee private key not provided and not found in storage. Please provide a private key or a signer.'
+        );
+      }
+
+      delegateeSigner = resolveSigner(_delegateePrivateKey, provider);
     }
 
-    const delegateeWallet = new ethers.Wallet(_delegateePrivateKey, provider);
+    const delegateeAddress = ethers.utils.getAddress(
+      await delegateeSigner.getAddress()
+    );
 
-    // Save delegatee data if not already stored
-    if (!delegateeData) {
-      delegatees[delegateeWallet.address] = {
-        privateKey: _delegateePrivateKey,
+    // Save delegatee data if not already stored.
+    // Keys of external signers never touch the storage.
+    if (!delegatees[delegateeAddress]) {
+      delegatees[delegateeAddress] = {
+        privateKey:
+          typeof delegateePrivateKeyOrSigner === 'string'
+            ? delegateePrivateKeyOrSigner
+            : '',
       };
       Delegatee.saveDelegateesToStorage(storage, delegatees);
     }
 
+    // Fail before connecting to Lit if the signer can't write to the registry's chain
+    const registrySigner = customToolRegistryConfig
+      ? await connectSignerToRegistry(
+          delegateeSigner,
+          toolPolicyRegistryConfig.rpcUrl
+        )
+      : delegateeSigner;
+
     const litNodeClient = new LitNodeClientNodeJs({
       litNetwork,
       debug,
@@ -219,41 +360,48 @@ export class Delegatee implements CredentialStore {
     await litNodeClient.connect();
 
     const litContracts = new LitContracts({
-      signer: delegateeWallet,
+      signer: delegateeSigner,
       network: litNetwork,
       debug,
     });
     await litContracts.connect();
 
-    // Will mint a Capacity Credit if none exists
-    await Delegatee.getCapacityCredit(
-      litContracts,
-      storage,
-      delegateeWallet.address
-    );
+    // Will mint a Capacity Credit if none exists, and no Admin delegated one
+    if (
+      Delegatee.loadCapacityDelegationFromStorage(storage, delegateeAddress) ===
+      null
+    ) {
+      await Delegatee.getCapacityCredit(
+        litContracts,
+        storage,
+        delegateeAddress
+      );
+    }
 
     return new Delegatee(
       litNetwork,
       storage,
       litNodeClient,
       litContracts,
-      getPkpToolRegistryContract(toolPolicyRegistryConfig, delegateeWallet),
-      delegateeWallet
+      getPkpToolRegistryContract(toolPolicyRegistryConfig, registrySigner),
+      delegateeSigner,
+      delegateeAddress,
+      customToolRegistryConfig?.contractAddress ?? null
     );
   }
 
   /**
    * Retrieves all delegated PKPs (Programmable Key Pairs) for the Delegatee.
    * @returns A promise that resolves to an array of `DelegatedPkpInfo` objects.
-   * @throws If the tool policy registry contract, delegatee wallet, or Lit contracts are not initialized.
+   * @throws If the tool policy registry contract, delegatee signer, or Lit contracts are not initialized.
    */
   public async getDelegatedPkps(): Promise<DelegatedPkpInfo[]> {
     if (!this.toolRegistryContract) {
       throw new Error('Tool policy manager not initialized');
     }
 
-    if (!this.delegateeWallet) {
-      throw new Error('Delegatee wallet not initialized');
+    if (!this.delegateeSigner) {
+      throw new Error('Delegatee signer not initialized');
     }
 
     if (!this.litContracts) {
@@ -262,7 +410,7 @@ export class Delegatee implements CredentialStore {
 
     // Get token IDs of delegated PKPs
     const tokenIds = await this.toolRegistryContract.getDelegatedPkps(
-      this.delegateeWallet.address
+      this.delegateeAddress
     );
 
     // For each token ID, get the public key and compute eth address
@@ -289,7 +437,9 @@ export class Delegatee implements CredentialStore {
   }
 
   /**
-   * Get all registered tools and categorize them based on whether they have policies
+   * Get all registered tools and categorize them based on whether they have policies.
+   * Results are cached per PKP and kept up to date by subscribing to the registry events changing them,
+   * so the registry is only queried again after the delegatee's permissions changed.
    * @returns Object containing:
    * - toolsWithPolicies: Object mapping tool IPFS CIDs to their metadata and delegatee policies
    * - toolsWithoutPolicies: Array of tools that don't have policies
@@ -301,11 +451,32 @@ export class Delegatee implements CredentialStore {
       throw new Error('Tool policy manager not initialized');
     }
 
-    return getPermittedToolsForDelegatee(
-      this.toolRegistryContract,
-      pkpTokenId,
-      this.delegateeWallet.address
-    );
+    return this.permittedToolsCache.get(pkpTokenId);
+  }
+
+  /**
+   * Registers a listener called when the tools the delegatee is permitted to execute on a PKP change,
+   * e.g. when a tool is unpermitted or disabled, or its policy changes.
+   * The registry is polled for events until the listener is removed or the Delegatee is disconnected.
+   * @param pkpTokenId - The token ID of the PKP.
+   * @param listener - The listener called with the registry event that changed the permissions.
+   * @returns A function removing the listener.
+   */
+  public onPermissionsChanged(
+    pkpTokenId: string,
+    listener: PermissionsChangedListener
+  ): () => void {
+    return this.permittedToolsCache.addListener(pkpTokenId, listener);
+  }
+
+  /**
+   * Removes the cached permitted tools, so they are fetched again from the registry.
+   * Cached tools are invalidated automatically when the registry changes, this is only needed
+   * if registry events may have been missed, e.g. after the RPC was unreachable.
+   * @param pkpTokenId - Optional. The token ID of the PKP to remove. All PKPs are removed if omitted.
+   */
+  public invalidatePermittedTools(pkpTokenId?: string) {
+    this.permittedToolsCache.invalidate(pkpTokenId);
   }
 
   /**
@@ -324,7 +495,7 @@ export class Delegatee implements CredentialStore {
       await this.toolRegistryContract.getToolPoliciesForDelegatees(
         pkpTokenId,
         [ipfsCid],
-        [this.delegateeWallet.address]
+        [this.delegateeAddress]
       );
 
     return results[0];
@@ -357,51 +528,470 @@ export class Delegatee implements CredentialStore {
   /**
    * Executes a tool with the provided parameters.
    * @param params - The parameters for tool execution, excluding session signatures.
-   * @returns A promise that resolves to the tool execution response.
+   * @returns A promise that resolves to the raw tool execution response.
    * @throws If the execution fails or if the delegatee is not properly initialized.
    */
-  public async executeTool(
+  public executeTool(
     params: Omit<JsonExecutionSdkParams, 'sessionSigs'>
-  ): Promise<ExecuteJsResponse> {
-    if (!this.litNodeClient || !this.litContracts || !this.delegateeWallet) {
+  ): Promise<ExecuteJsResponse>;
+
+  /**
+   * Executes a tool with the provided parameters, and parses its response with the tool's result schema.
+   * @param params - The parameters for tool execution, excluding session signatures.
+   * @param tool - The executed tool, providing the result schema.
+   * @returns A promise that resolves to the typed tool result and the Lit Action logs.
+   * @throws {ToolExecutionError} If the tool reports a failure (`status: 'error'`) or returns an invalid result.
+   */
+  public executeTool<TResult extends { status: 'success' }>(
+    params: Omit<JsonExecutionSdkParams, 'sessionSigs'>,
+    tool: AwTool<any, any, TResult>
+  ): Promise<ToolExecutionResult<TResult>>;
+
+  public async executeTool<TResult extends { status: 'success' }>(
+    params: Omit<JsonExecutionSdkParams, 'sessionSigs'>,
+    tool?: AwTool<any, any, TResult>
+  ): Promise<ExecuteJsResponse | ToolExecutionResult<TResult>> {
+    if (!this.litNodeClient || !this.litContracts || !this.delegateeSigner) {
+      throw new Error('Delegatee not properly initialized');
+    }
+
+    const sessionSignatures = await this.getSessionSignatures();
+
+    return this.executeWithSessionSignatures(params, sessionSignatures, tool);
+  }
+
+  /**
+   * Executes a batch of tools on a single session.
+   * The session signatures, with capacity for one use per tool, are retrieved once
+   * and shared by all executions, which run with bounded concurrency.
+   * Executions for the same PKP and chain run one after the other, in the order of the batch,
+   * so their transactions don't share a nonce.
+   * @param batch - The tool executions, each with its parameters and optionally its tool to parse the result.
+   * @param options - The maximum number of concurrent executions and the expiration of a new session.
+   * @returns A promise that resolves to the outcome of each execution, in the order of the batch.
+   * A failing execution is reported in its outcome and does not affect the rest of the batch.
+   * @throws {AwSignerError} If the concurrency or session expiration is invalid.
+   */
+  public async executeTools(
+    batch: ToolBatchItem[],
+    {
+      concurrency = Delegatee.DEFAULT_BATCH_CONCURRENCY,
+      sessionExpirationMs = Delegatee.DEFAULT_SESSION_EXPIRATION_MS,
+    }: ExecuteToolsOptions = {}
+  ): Promise<ToolBatchItemResult[]> {
+    if (!this.litNodeClient || !this.litContracts || !this.delegateeSigner) {
       throw new Error('Delegatee not properly initialized');
     }
 
-    const capacityCreditInfo = await Delegatee.getCapacityCredit(
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new AwSignerError(
+        AwSignerErrorType.DELEGATEE_INVALID_BATCH_OPTIONS,
+        `Concurrency must be a positive integer, received ${concurrency}`,
+        { concurrency }
+      );
+    }
+
+    if (!(sessionExpirationMs > 0)) {
+      throw new AwSignerError(
+        AwSignerErrorType.DELEGATEE_INVALID_BATCH_OPTIONS,
+        `Session expiration must be positive, received ${sessionExpirationMs}ms`,
+        { sessionExpirationMs }
+      );
+    }
+
+    if (batch.length === 0) {
+      return [];
+    }
+
+    const sessionSignatures = await this.getSessionSignatures({
+      uses: batch.length,
+      expirationMs: sessionExpirationMs,
+    });
+
+    const results = await mapSettledWithConcurrency(
+      batch,
+      concurrency,
+      ({ params, tool }) =>
+        this.executeWithSessionSignatures(params, sessionSignatures, tool),
+      getPkpChainLane
+    );
+
+    return results.map((result): ToolBatchItemResult => {
+      if (result.status === 'fulfilled') {
+        return { status: 'fulfilled', response: result.value };
+      }
+
+      return {
+        status: 'rejected',
+        error:
+          result.reason instanceof Error
+            ? result.reason
+            : new Error(String(result.reason)),
+      };
+    });
+  }
+
+  /**
+   * Executes a tool with existing session signatures.
+   * @param params - The parameters for tool execution, excluding session signatures.
+   * @param sessionSignatures - The session signatures to execute the tool with.
+   * @param tool - Optional. The executed tool, providing the result schema.
+   * @returns A promise that resolves to the raw response, or the typed tool result if the tool is provided.
+   * @throws {ToolExecutionError} If the tool is provided and reports a failure or returns an invalid result.
+   */
+  private async executeWithSessionSignatures<
+    TResult extends { status: 'success' }
+  >(
+    params: Omit<JsonExecutionSdkParams, 'sessionSigs'>,
+    sessionSignatures: SessionSigsMap,
+    tool?: AwTool<any, any, TResult>
+  ): Promise<ExecuteJsResponse | ToolExecutionResult<TResult>> {
+    let response: ExecuteJsResponse;
+    try {
+      response = await this.litNodeClient.executeJs({
+        ...params,
+        jsParams:
+          this.customToolRegistryAddress !== null
+            ? {
+                pkpToolRegistryAddress: this.customToolRegistryAddress,
+                ...params.jsParams,
+              }
+            : params.jsParams,
+        sessionSigs: sessionSignatures,
+      });
+    } catch (error: unknown) {
+      // The nodes rejected the session, so the next execution creates a new one
+      if (isSessionError(error)) {
+        this.sessionCache.invalidate();
+      }
+
+      if (error instanceof Error) {
+        throw new Error(`Failed to execute tool: ${error.message}`);
+      }
+      throw error;
+    }
+
+    return tool ? parseToolResult(tool, response) : response;
+  }
+
+  /**
+   * Simulates the execution of a tool, without signing or broadcasting anything.
+   * The tool's Lit Action runs its policy and pre-flight steps (e.g. token info, gas estimates, and quotes),
+   * and reports whether the execution would be permitted.
+   * @param pkpTokenId - The token ID of the PKP.
+   * @param ipfsCid - The IPFS CID of the tool.
+   * @param params - The parameters of the tool.
+   * @returns A promise that resolves to the simulation report, including the failed policy rule if any.
+   * @throws {AwSignerError} If the tool is not permitted for the delegatee, or is not in the tool registry.
+   * @throws {ToolExecutionError} If the tool's Lit Action does not return a simulation result.
+   */
+  public async simulateTool(
+    pkpTokenId: string,
+    ipfsCid: string,
+    params: Record<string, unknown>
+  ): Promise<ToolSimulationReport> {
+    const { toolsWithPolicies, toolsWithoutPolicies } =
+      await this.getPermittedToolsForPkp(pkpTokenId);
+
+    // Only registry tools are known to support simulations, others would execute for real
+    const tool = toolsWithPolicies[ipfsCid] ?? toolsWithoutPolicies[ipfsCid];
+    if (!tool) {
+      throw new AwSignerError(
+        AwSignerErrorType.DELEGATEE_UNKNOWN_TOOL,
+        `Tool ${ipfsCid} is not a registry tool permitted for PKP ${pkpTokenId}`,
+        { pkpTokenId, ipfsCid }
+      );
+    }
+
+    const response = await this.executeTool({
+      ipfsId: ipfsCid,
+      jsParams: {
+        params,
+        simulate: true,
+      },
+    });
+
+    return parseToolSimulationResult(tool, response);
+  }
+
+  /**
+   * Waits for a transaction broadcast by a tool to be mined, polling its receipt.
+   * The hashes of a tool's transactions are the result keys listed in its `transactionHashKeys`.
+   * @param rpcUrl - The RPC URL of the chain the tool transacted on, i.e. the tool's `rpcUrl` parameter.
+   * @param txHash - The hash of the transaction.
+   * @param options - The confirmations to wait for, the timeout and the poll interval.
+   * @returns A promise that resolves to the status of the transaction, including the decoded revert reason
+   * of reverted transactions. The status is `pending` if the timeout was reached before it was confirmed.
+   * @throws {AwSignerError} If the receipt of the transaction can't be retrieved from the RPC.
+   */
+  public async waitForToolTransaction(
+    rpcUrl: string,
+    txHash: string,
+    options: WaitForTransactionOptions = {}
+  ): Promise<TransactionStatus> {
+    const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+
+    try {
+      return await pollTransactionStatus(provider, txHash, options);
+    } catch (error) {
+      throw new AwSignerError(
+        AwSignerErrorType.DELEGATEE_TRANSACTION_STATUS_FAILED,
+        `Failed to get the status of transaction ${txHash}`,
+        { rpcUrl, txHash, error }
+      );
+    }
+  }
+
+  /**
+   * Retrieves the capacity credits owned by the Delegatee, with their on-chain rate limits and expirations.
+   * @returns A promise that resolves to the status of each capacity credit.
+   */
+  public async getCapacityCredits(): Promise<CapacityCreditStatus[]> {
+    return getCapacityCredits(this.litContracts, this.delegateeAddress);
+  }
+
+  /**
+   * Mints a capacity credit, and uses it for the next tool executions instead of the current one.
+   * A capacity credit delegated by an Admin keeps taking precedence until it expires or is removed.
+   * @param options - The requests per kilosecond and the number of days until the capacity credit expires at UTC midnight.
+   * @returns A promise that resolves to the minted capacity credit.
+   * @throws {AwSignerError} If the Delegatee has insufficient balance to mint the capacity credit.
+   */
+  public async mintCapacityCredit(
+    options: CapacityCreditMintOptions = {}
+  ): Promise<CapacityCreditInfo> {
+    const capacityCreditInfo = await mintCapacityCredit(
       this.litContracts,
+      options
+    );
+    Delegatee.saveCapacityCreditToStorage(
+      this.storage,
+      this.delegateeAddress,
+      capacityCreditInfo
+    );
+    this.sessionCache.invalidate();
+
+    return capacityCreditInfo;
+  }
+
+  /**
+   * Retrieves the capacity credit delegated to the Delegatee by an Admin.
+   * @returns The capacity credit delegation, or `null` if none is set or it has expired.
+   */
+  public getCapacityDelegation(): CapacityCreditDelegation | null {
+    return Delegatee.loadCapacityDelegationFromStorage(
       this.storage,
-      this.delegateeWallet.address
+      this.delegateeAddress
     );
+  }
 
+  /**
+   * Uses a capacity credit delegated by an Admin for the next tool executions, instead of the Delegatee's own.
+   * The Delegatee falls back to its own capacity credit once the delegation expires.
+   * @param capacityDelegation - The capacity credit delegation created by the Admin.
+   * @throws {AwSignerError} If the delegation does not delegate to the Delegatee, or has expired.
+   */
+  public setCapacityDelegation(capacityDelegation: CapacityCreditDelegation) {
+    const delegateeAddresses = capacityDelegation.delegateeAddresses.map(
+      (address) => ethers.utils.getAddress(address)
+    );
+    if (!delegateeAddresses.includes(this.delegateeAddress)) {
+      throw new AwSignerError(
+        AwSignerErrorType.DELEGATEE_INVALID_CAPACITY_DELEGATION,
+        `Capacity credit ${capacityDelegation.capacityTokenId} is not delegated to ${this.delegateeAddress}`,
+        { capacityDelegation }
+      );
+    }
+
+    if (isCapacityCreditExpired(capacityDelegation.expiration)) {
+      throw new AwSignerError(
+        AwSignerErrorType.DELEGATEE_INVALID_CAPACITY_DELEGATION,
+        `Delegation of capacity credit ${capacityDelegation.capacityTokenId} expired at ${capacityDelegation.expiration}`,
+        { capacityDelegation }
+      );
+    }
+
+    const delegatees = Delegatee.loadDelegateesFromStorage(this.storage);
+    if (!delegatees[this.delegateeAddress]) {
+      delegatees[this.delegateeAddress] = { privateKey: '' };
+    }
+    delegatees[this.delegateeAddress].capacityDelegation = capacityDelegation;
+    Delegatee.saveDelegateesToStorage(this.storage, delegatees);
+    this.sessionCache.invalidate();
+  }
+
+  /**
+   * Stops using the capacity credit delegated by an Admin, so the next tool executions use the Delegatee's own.
+   */
+  public removeCapacityDelegation() {
+    const delegatees = Delegatee.loadDelegateesFromStorage(this.storage);
+    if (delegatees[this.delegateeAddress]?.capacityDelegation) {
+      delete delegatees[this.delegateeAddress].capacityDelegation;
+      Delegatee.saveDelegateesToStorage(this.storage, delegatees);
+    }
+    this.sessionCache.invalidate();
+  }
+
+  /**
+   * Removes the cached session signatures, so the next tool execution creates a new session.
+   * Sessions are refreshed automatically before they expire, this is only needed if a session
+   * became unusable otherwise, e.g. after its capacity credit was revoked.
+   */
+  public invalidateSessionSignatures() {
+    this.sessionCache.invalidate();
+  }
+
+  /**
+   * Retrieves session signatures for executing Lit Actions and signing with PKPs,
+   * using the delegatee's capacity credit if one is required.
+   * Sessions are cached per resource abilities, capacity credit, and requested expiration, and reused until they are
+   * about to expire or their capacity delegation runs out of uses.
+   * @param options - The number of uses of the capacity delegation needed by the caller,
+   * and the expiration of a new session in milliseconds.
+   * @returns A promise that resolves to the session signatures.
+   */
+  private async getSessionSignatures({
+    uses = 1,
+    expirationMs = Delegatee.DEFAULT_SESSION_EXPIRATION_MS,
+  }: { uses?: number; expirationMs?: number } = {}) {
+    // A capacity credit delegated by an Admin takes precedence over the Delegatee's own
+    const capacityDelegation = Delegatee.loadCapacityDelegationFromStorage(
+      this.storage,
+      this.delegateeAddress
+    );
+
+    const resourceAbilityRequests: LitResourceAbilityRequest[] = [
+      {
+        resource: new LitActionResource('*'),
+        ability: LIT_ABILITY.LitActionExecution,
+      },
+      {
+        resource: new LitPKPResource('*'),
+        ability: LIT_ABILITY.PKPSigning,
+      },
+    ];
+    const getCacheKey = (capacityTokenId: string | null) =>
+      getSessionCacheKey(
+        resourceAbilityRequests.map(({ resource, ability }) => ({
+          resourceKey: resource.getResourceKey(),
+          ability,
+        })),
+        capacityTokenId,
+        expirationMs
+      );
+
+    // Cached sessions never outlive their capacity credit, so its on-chain status is only checked for new sessions
+    const storedCapacityCredit =
+      capacityDelegation === null && requiresCapacityCredit(this.litContracts)
+        ? Delegatee.loadDelegateesFromStorage(this.storage)[
+            this.delegateeAddress
+          ]?.capacityCredit ?? null
+        : null;
+    const cachedSessionSignatures = this.sessionCache.reserve(
+      getCacheKey(
+        capacityDelegation?.capacityTokenId ??
+          storedCapacityCredit?.capacityTokenId ??
+          null
+      ),
+      uses
+    );
+    if (cachedSessionSignatures !== undefined) {
+      return cachedSessionSignatures;
+    }
+
+    const capacityCreditInfo =
+      capacityDelegation === null
+        ? await Delegatee.getCapacityCredit(
+            this.litContracts,
+            this.storage,
+            this.delegateeAddress
+          )
+        : null;
+    const cacheKey = getCacheKey(
+      capacityDelegation?.capacityTokenId ??
+        capacityCreditInfo?.capacityTokenId ??
+        null
+    );
+
+    // Sessions can't outlive their capacity credit
+    const capacityExpiresAt =
+      capacityDelegation?.expiration ?? capacityCreditInfo?.expiresAt;
+    const expiresAt = Math.min(
+      Date.now() + expirationMs,
+      capacityExpiresAt !== undefined
+        ? new Date(capacityExpiresAt).getTime()
+        : Infinity
+    );
+    const capacityUses = Math.max(uses, Delegatee.SESSION_CAPACITY_USES);
+
+    let capacity: Parameters<typeof this.createSessionSignatures>[2] = null;
+    if (capacityDelegation !== null) {
+      capacity = {
+        capacityDelegationAuthSig: capacityDelegation.capacityDelegationAuthSig,
+      };
+    } else if (capacityCreditInfo !== null) {
+      capacity = {
+        capacityTokenId: capacityCreditInfo.capacityTokenId,
+        uses: capacityUses,
+      };
+    }
+
+    const sessionSignatures = this.createSessionSignatures(
+      resourceAbilityRequests,
+      new Date(expiresAt).toISOString(),
+      capacity
+    );
+
+    // The uses of delegated capacity credits are enforced by the Lit nodes
+    this.sessionCache.set(
+      cacheKey,
+      sessionSignatures,
+      expiresAt,
+      capacityCreditInfo !== null ? capacityUses - uses : Infinity
+    );
+
+    return sessionSignatures;
+  }
+
+  /**
+   * Creates session signatures, with the capacity credit of the Delegatee or the capacity delegation of an Admin if one is provided.
+   * @param resourceAbilityRequests - The resource abilities granted to the session.
+   * @param expiration - The expiration of the session, and of the delegation of the Delegatee's capacity credit, as an ISO string.
+   * @param capacity - The Delegatee's capacity credit and its number of uses delegated to the session,
+   * the auth signature of an Admin's capacity delegation, or `null` if none is required.
+   * @returns A promise that resolves to the session signatures.
+   */
+  private async createSessionSignatures(
+    resourceAbilityRequests: LitResourceAbilityRequest[],
+    expiration: string,
+    capacity:
+      | { capacityTokenId: string; uses: number }
+      | { capacityDelegationAuthSig: AuthSig }
+      | null
+  ) {
     let capacityDelegationAuthSig: AuthSig | undefined;
-    if (capacityCreditInfo !== null) {
+    if (capacity !== null && 'capacityDelegationAuthSig' in capacity) {
+      capacityDelegationAuthSig = capacity.capacityDelegationAuthSig;
+    } else if (capacity !== null) {
       capacityDelegationAuthSig = (
         await this.litNodeClient.createCapacityDelegationAuthSig({
-          dAppOwnerWallet: this.delegateeWallet,
-          capacityTokenId: capacityCreditInfo.capacityTokenId,
-          delegateeAddresses: [this.delegateeWallet.address],
-          uses: '1',
+          dAppOwnerWallet: this.delegateeSigner,
+          capacityTokenId: capacity.capacityTokenId,
+          delegateeAddresses: [this.delegateeAddress],
+          uses: capacity.uses.toString(),
+          expiration,
         })
       ).capacityDelegationAuthSig;
     }
 
-    const sessionSignatures = await this.litNodeClient.getSessionSigs({
+    return this.litNodeClient.getSessionSigs({
       chain: 'ethereum',
-      expiration: new Date(Date.now() + 1000 * 60 * 10).toISOString(), // 10 minutes
+      expiration,
       capabilityAuthSigs:
         capacityDelegationAuthSig !== undefined
           ? [capacityDelegationAuthSig]
           : undefined,
-      resourceAbilityRequests: [
-        {
-          resource: new LitActionResource('*'),
-          ability: LIT_ABILITY.LitActionExecution,
-        },
-        {
-          resource: new LitPKPResource('*'),
-          ability: LIT_ABILITY.PKPSigning,
-        },
-      ],
+      resourceAbilityRequests,
       authNeededCallback: async ({
         uri,
         expiration,
@@ -411,29 +1001,17 @@ export class Delegatee implements CredentialStore {
           uri,
           expiration,
           resources: resourceAbilityRequests,
-          walletAddress: await this.delegateeWallet.getAddress(),
+          walletAddress: this.delegateeAddress,
           nonce: await this.litNodeClient.getLatestBlockhash(),
           litNodeClient: this.litNodeClient,
         });
 
         return await generateAuthSig({
-          signer: this.delegateeWallet,
+          signer: this.delegateeSigner,
           toSign,
         });
       },
     });
-
-    try {
-      return this.litNodeClient.executeJs({
-        ...params,
-        sessionSigs: sessionSignatures,
-      });
-    } catch (error: unknown) {
-      if (error instanceof Error) {
-        throw new Error(`Failed to execute tool: ${error.message}`);
-      }
-      throw error;
-    }
   }
 
   /**
@@ -449,7 +1027,7 @@ export class Delegatee implements CredentialStore {
   }> {
     const delegatees = Delegatee.loadDelegateesFromStorage(this.storage);
     const storedCredentials =
-      delegatees[this.delegateeWallet.address]?.credentials || {};
+      delegatees[this.delegateeAddress]?.credentials || {};
 
     const foundCredentials: Record<string, string> = {};
     const missingCredentials: string[] = [];
@@ -478,20 +1056,18 @@ export class Delegatee implements CredentialStore {
     credentials: Partial<CredentialsFor<T>>
   ): Promise<void> {
     const delegatees = Delegatee.loadDelegateesFromStorage(this.storage);
-    if (!delegatees[this.delegateeWallet.address]) {
-      delegatees[this.delegateeWallet.address] = {
-        privateKey: this.delegateeWallet.privateKey.toString(),
-      };
+    if (!delegatees[this.delegateeAddress]) {
+      delegatees[this.delegateeAddress] = { privateKey: '' };
     }
 
     // Initialize credentials object if it doesn't exist
-    if (!delegatees[this.delegateeWallet.address].credentials) {
-      delegatees[this.delegateeWallet.address].credentials = {};
+    if (!delegatees[this.delegateeAddress].credentials) {
+      delegatees[this.delegateeAddress].credentials = {};
     }
 
     for (const [key, value] of Object.entries(credentials)) {
       if (typeof value === 'string') {
-        delegatees[this.delegateeWallet.address].credentials![key] = value;
+        delegatees[this.delegateeAddress].credentials![key] = value;
       } else {
         throw new Error(
           `Invalid credential value for ${key}: value must be a string`
@@ -503,9 +1079,11 @@ export class Delegatee implements CredentialStore {
   }
 
   /**
-   * Disconnects the Lit node client.
+   * Disconnects the Lit node client, and stops polling the registry for permission changes.
    */
   public disconnect() {
+    this.sessionCache.invalidate();
+    this.permittedToolsCache.dispose();
     this.litNodeClient.disconnect();
   }
 }
@@ -22,18 +22,66 @@ export enum AwSignerErrorType {
   DELEGATEE_MISSING_PRIVATE_KEY = 'DELEGATEE_MISSING_PRIVATE_KEY',
   DELEGATEE_MISSING_CREDENTIALS = 'DELEGATEE_MISSING_CREDENTIALS',
 
+  /** Indicates that the tool is not permitted for the Delegatee, or is not in the tool registry. */
+  DELEGATEE_UNKNOWN_TOOL = 'DELEGATEE_UNKNOWN_TOOL',
+
+  /** Indicates that the status of a transaction broadcast by a tool could not be retrieved. */
+  DELEGATEE_TRANSACTION_STATUS_FAILED = 'DELEGATEE_TRANSACTION_STATUS_FAILED',
+
+  /** Indicates that the options of a batch tool execution are invalid, e.g. a concurrency below 1. */
+  DELEGATEE_INVALID_BATCH_OPTIONS = 'DELEGATEE_INVALID_BATCH_OPTIONS',
+
+  /** Indicates that the capacity credit delegation does not delegate to the Delegatee, or has expired. */
+  DELEGATEE_INVALID_CAPACITY_DELEGATION = 'DELEGATEE_INVALID_CAPACITY_DELEGATION',
+
   /** Indicates that multisig functionality for the Admin role is not implemented. */
   ADMIN_MULTISIG_NOT_IMPLEMENTED = 'ADMIN_MULTISIG_NOT_IMPLEMENTED',
 
+  /** Indicates that a multisig operation was requested from an Admin that is not a multisig. */
+  ADMIN_NOT_MULTISIG = 'ADMIN_NOT_MULTISIG',
+
+  /** Indicates that the Admin's signer is not an owner of the multisig. */
+  ADMIN_MULTISIG_NOT_OWNER = 'ADMIN_MULTISIG_NOT_OWNER',
+
+  /** Indicates that the multisig proposal was not found in storage. */
+  ADMIN_MULTISIG_PROPOSAL_NOT_FOUND = 'ADMIN_MULTISIG_PROPOSAL_NOT_FOUND',
+
+  /** Indicates that the multisig proposal does not match its hash or signatures. */
+  ADMIN_MULTISIG_INVALID_PROPOSAL = 'ADMIN_MULTISIG_INVALID_PROPOSAL',
+
+  /** Indicates that the multisig proposal does not have enough signatures to be executed. */
+  ADMIN_MULTISIG_THRESHOLD_NOT_MET = 'ADMIN_MULTISIG_THRESHOLD_NOT_MET',
+
+  /** Indicates that the multisig proposal has already been executed. */
+  ADMIN_MULTISIG_PROPOSAL_ALREADY_EXECUTED = 'ADMIN_MULTISIG_PROPOSAL_ALREADY_EXECUTED',
+
+  /** Indicates that the multisig transaction execution failed. */
+  ADMIN_MULTISIG_EXECUTION_FAILED = 'ADMIN_MULTISIG_EXECUTION_FAILED',
+
+  /** Indicates that an external signer is connected to another chain than the custom PKP Tool Registry deployment. */
+  SIGNER_REGISTRY_CHAIN_MISMATCH = 'SIGNER_REGISTRY_CHAIN_MISMATCH',
+
   /** Indicates insufficient balance for minting a PKP (Programmable Key Pair). */
   INSUFFICIENT_BALANCE_PKP_MINT = 'INSUFFICIENT_BALANCE_PKP_MINT',
 
   /** Indicates insufficient balance for minting a capacity credit. */
   INSUFFICIENT_BALANCE_CAPACITY_CREDIT_MINT = 'INSUFFICIENT_BALANCE_CAPACITY_CREDIT_MINT',
 
+  /** Indicates that the capacity credit is not owned by the signer delegating it. */
+  CAPACITY_CREDIT_NOT_OWNED = 'CAPACITY_CREDIT_NOT_OWNED',
+
+  /** Indicates that the capacity credit has expired. */
+  CAPACITY_CREDIT_EXPIRED = 'CAPACITY_CREDIT_EXPIRED',
+
   /** Indicates a failure to retrieve an item from storage. */
   STORAGE_FAILED_TO_GET_ITEM = 'STORAGE_FAILED_TO_GET_ITEM',
 
+  /** Indicates that an item of the encrypted storage could not be decrypted, e.g. due to an invalid passphrase. */
+  STORAGE_DECRYPTION_FAILED = 'STORAGE_DECRYPTION_FAILED',
+
+  /** Indicates that the encrypted storage contains a plaintext item that has not been migrated. */
+  STORAGE_ITEM_NOT_ENCRYPTED = 'STORAGE_ITEM_NOT_ENCRYPTED',
+
   /** Indicates that the Admin role was not found. */
   ADMIN_NOT_FOUND = 'ADMIN_NOT_FOUND',
 
@@ -45,6 +93,15 @@ export enum AwSignerErrorType {
 
   /** Indicates that the wrapped key was not found. */
   ADMIN_WRAPPED_KEY_NOT_FOUND = 'ADMIN_WRAPPED_KEY_NOT_FOUND',
+
+  /** Indicates that a spending limit, or the spending limits stored on-chain, are invalid. */
+  ADMIN_INVALID_SPENDING_LIMIT = 'ADMIN_INVALID_SPENDING_LIMIT',
+
+  /** Indicates that a tool's Lit Action reported a failed execution (`status: 'error'`). */
+  TOOL_EXECUTION_FAILED = 'TOOL_EXECUTION_FAILED',
+
+  /** Indicates that a tool's Lit Action response does not match the tool's result schema. */
+  TOOL_INVALID_RESULT = 'TOOL_INVALID_RESULT',
 }
 
 /**
@@ -143,3 +200,29 @@ export class AwSignerError extends Error {
     };
   }
 }
+
+/**
+ * Error thrown when a tool execution fails or returns an invalid result.
+ * Extends `AwSignerError` with the name of the tool and the logs of its Lit Action.
+ */
+export class ToolExecutionError extends AwSignerError {
+  /**
+   * Creates an instance of `ToolExecutionError`.
+   *
+   * @param type - The type of the error, either `TOOL_EXECUTION_FAILED` or `TOOL_INVALID_RESULT`.
+   * @param message - A human-readable error message.
+   * @param toolName - The name of the tool that was executed.
+   * @param logs - The logs of the tool's Lit Action execution.
+   * @param details - Optional additional details about the error, such as the error details reported by the Lit Action.
+   */
+  constructor(
+    type: AwSignerErrorType,
+    message: string,
+    public readonly toolName: string,
+    public readonly logs: string,
+    details?: Record<string, ErrorDetails | unknown>
+  ) {
+    super(type, message, details);
+    this.name = 'ToolExecutionError';
+  }
+}
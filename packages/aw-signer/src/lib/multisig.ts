@@ -0,0 +1,415 @@
+import { ethers } from 'ethers';
+
+import type {
+  MultisigProposal,
+  MultisigTransaction,
+  StorageProvider,
+} from './types';
+import { AwSignerError, AwSignerErrorType } from './errors';
+
+const MULTISIG_PROPOSALS_STORAGE_KEY = 'multisigProposals';
+
+type MultisigProposalStorageLayout = {
+  [safeTxHash: string]: MultisigProposal;
+};
+
+function loadAllMultisigProposalsFromStorage(
+  storage: StorageProvider
+): MultisigProposalStorageLayout {
+  const proposals = storage.getItem(MULTISIG_PROPOSALS_STORAGE_KEY);
+  if (!proposals) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(proposals) as MultisigProposalStorageLayout;
+  } catch (error) {
+    throw new AwSignerError(
+      AwSignerErrorType.STORAGE_FAILED_TO_GET_ITEM,
+      'Failed to parse multisig proposals from storage',
+      {
+        details: error,
+      }
+    );
+  }
+}
+
+/**
+ * Loads all proposals for a multisig from storage, ordered by nonce.
+ * @param storage - The storage instance.
+ * @param multisigAddress - The address of the multisig contract.
+ * @returns An array of multisig proposals.
+ */
+export function loadMultisigProposalsFromStorage(
+  storage: StorageProvider,
+  multisigAddress: string
+): MultisigProposal[] {
+  const address = ethers.utils.getAddress(multisigAddress);
+  return Object.values(loadAllMultisigProposalsFromStorage(storage))
+    .filter((proposal) => proposal.multisigAddress === address)
+    .sort((a, b) => a.transaction.nonce - b.transaction.nonce);
+}
+
+/**
+ * Loads a multisig proposal from storage by its hash.
+ * @param storage - The storage instance.
+ * @param safeTxHash - The hash of the multisig transaction.
+ * @returns The multisig proposal, or `null` if it is not found.
+ */
+export function loadMultisigProposalFromStorage(
+  storage: StorageProvider,
+  safeTxHash: string
+): MultisigProposal | null {
+  const proposals = loadAllMultisigProposalsFromStorage(storage);
+  return proposals[safeTxHash.toLowerCase()] || null;
+}
+
+/**
+ * Saves (or updates) a multisig proposal in storage.
+ * @param storage - The storage instance.
+ * @param proposal - The multisig proposal to save.
+ */
+export function saveMultisigProposalToStorage(
+  storage: StorageProvider,
+  proposal: MultisigProposal
+) {
+  const proposals = loadAllMultisigProposalsFromStorage(storage);
+  proposals[proposal.safeTxHash.toLowerCase()] = proposal;
+  storage.setItem(MULTISIG_PROPOSALS_STORAGE_KEY, JSON.stringify(proposals));
+}
+
+/**
+ * Computes the hash of a multisig transaction using the multisig contract.
+ * @param multisigContract - The multisig contract.
+ * @param transaction - The multisig transaction.
+ * @returns The hash that has to be signed by the multisig owners.
+ */
+export async function getMultisigTransactionHash(
+  multisigContract: ethers.Contract,
+  transaction: MultisigTransaction
+): Promise<string> {
+  const safeTxHash: string = await multisigContract.getTransactionHash(
+    transaction.to,
+    transaction.value,
+    transaction.data,
+    transaction.operation,
+    transaction.safeTxGas,
+    transaction.baseGas,
+    transaction.gasPrice,
+    transaction.gasToken,
+    transaction.refundReceiver,
+    transaction.nonce
+  );
+
+  return safeTxHash.toLowerCase();
+}
+
+/**
+ * Gets the nonce for the next multisig proposal.
+ * Takes pending (not yet executed) proposals into account so that multiple proposals can be queued.
+ * @param multisigContract - The multisig contract.
+ * @param storage - The storage instance.
+ * @returns The nonce to use for the next proposal.
+ */
+export async function getNextMultisigNonce(
+  multisigContract: ethers.Contract,
+  storage: StorageProvider
+): Promise<number> {
+  const onChainNonce = ethers.BigNumber.from(
+    await multisigContract.nonce()
+  ).toNumber();
+
+  return loadMultisigProposalsFromStorage(storage, multisigContract.address)
+    .filter(
+      (proposal) =>
+        proposal.executionTxHash === undefined &&
+        proposal.transaction.nonce >= onChainNonce
+    )
+    .reduce(
+      (nonce, proposal) => Math.max(nonce, proposal.transaction.nonce + 1),
+      onChainNonce
+    );
+}
+
+/**
+ * Creates a multisig proposal for a contract call and saves it to storage.
+ * @param multisigContract - The multisig contract.
+ * @param storage - The storage instance.
+ * @param call - The contract call to propose.
+ * @returns The created multisig proposal, without any signatures.
+ */
+export async function createMultisigProposal(
+  multisigContract: ethers.Contract,
+  storage: StorageProvider,
+  call: { to: string; data: string; value?: string; description: string }
+): Promise<MultisigProposal> {
+  const transaction: MultisigTransaction = {
+    to: ethers.utils.getAddress(call.to),
+    value: call.value ?? '0',
+    data: call.data,
+    operation: 0,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: ethers.constants.AddressZero,
+    refundReceiver: ethers.constants.AddressZero,
+    nonce: await getNextMultisigNonce(multisigContract, storage),
+  };
+
+  const proposal: MultisigProposal = {
+    multisigAddress: ethers.utils.getAddress(multisigContract.address),
+    safeTxHash: await getMultisigTransactionHash(multisigContract, transaction),
+    description: call.description,
+    transaction,
+    signatures: {},
+  };
+
+  saveMultisigProposalToStorage(storage, proposal);
+
+  return proposal;
+}
+
+/**
+ * Verifies that a multisig proposal's hash matches its transaction.
+ * @param multisigContract - The multisig contract.
+ * @param proposal - The multisig proposal to verify.
+ * @throws If the proposal belongs to another multisig or its hash does not match.
+ */
+export async function verifyMultisigProposal(
+  multisigContract: ethers.Contract,
+  proposal: MultisigProposal
+) {
+  if (
+    ethers.utils.getAddress(proposal.multisigAddress) !==
+    ethers.utils.getAddress(multisigContract.address)
+  ) {
+    throw new AwSignerError(
+      AwSignerErrorType.ADMIN_MULTISIG_INVALID_PROPOSAL,
+      `Proposal ${proposal.safeTxHash} belongs to multisig ${proposal.multisigAddress}, not ${multisigContract.address}`
+    );
+  }
+
+  const safeTxHash = await getMultisigTransactionHash(
+    multisigContract,
+    proposal.transaction
+  );
+  if (safeTxHash !== proposal.safeTxHash.toLowerCase()) {
+    throw new AwSignerError(
+      AwSignerErrorType.ADMIN_MULTISIG_INVALID_PROPOSAL,
+      `Proposal hash ${proposal.safeTxHash} does not match its transaction hash ${safeTxHash}`
+    );
+  }
+}
+
+/**
+ * Recovers the owner address that produced a signature over a multisig transaction hash.
+ * Signatures with `v > 30` are `eth_sign` style signatures over the EIP-191 prefixed hash,
+ * following the Safe signature encoding.
+ * @param safeTxHash - The hash of the multisig transaction.
+ * @param signature - The owner's signature.
+ * @returns The checksummed address of the signer.
+ */
+export function recoverMultisigSigner(
+  safeTxHash: string,
+  signature: string
+): string {
+  const { r, s, v } = ethers.utils.splitSignature(signature);
+  if (ethers.utils.arrayify(signature)[64] > 30) {
+    return ethers.utils.recoverAddress(
+      ethers.utils.hashMessage(ethers.utils.arrayify(safeTxHash)),
+      { r, s, v }
+    );
+  }
+
+  return ethers.utils.recoverAddress(safeTxHash, signature);
+}
+
+/**
+ * Signs a multisig transaction hash with an owner's signer.
+ * Wallets sign the hash directly (without the EIP-191 prefix), as expected by Safe-like contracts.
+ * Other signers (e.g. hardware wallets) can only sign messages, so the hash is signed with
+ * `eth_sign` and `v` is increased by 4 to mark the signature as such.
+ * @param safeTxHash - The hash of the multisig transaction.
+ * @param signer - The owner's signer.
+ * @returns A promise that resolves to the signature as a hex string.
+ */
+export async function signMultisigTransactionHash(
+  safeTxHash: string,
+  signer: ethers.Signer
+): Promise<string> {
+  if (signer instanceof ethers.Wallet) {
+    return ethers.utils.joinSignature(
+      signer._signingKey().signDigest(safeTxHash)
+    );
+  }
+
+  const { r, s, v } = ethers.utils.splitSignature(
+    await signer.signMessage(ethers.utils.arrayify(safeTxHash))
+  );
+  return ethers.utils.hexConcat([r, s, ethers.utils.hexlify(v + 4)]);
+}
+
+/**
+ * Adds an owner's signature to a multisig proposal and saves it to storage.
+ * @param storage - The storage instance.
+ * @param proposal - The multisig proposal.
+ * @param owner - The address of the owner that produced the signature.
+ * @param signature - The owner's signature over the proposal's hash.
+ * @returns The updated multisig proposal.
+ * @throws If the signature was not produced by the given owner.
+ */
+export function addMultisigProposalSignature(
+  storage: StorageProvider,
+  proposal: MultisigProposal,
+  owner: string,
+  signature: string
+): MultisigProposal {
+  const ownerAddress = ethers.utils.getAddress(owner);
+  if (recoverMultisigSigner(proposal.safeTxHash, signature) !== ownerAddress) {
+    throw new AwSignerError(
+      AwSignerErrorType.ADMIN_MULTISIG_INVALID_PROPOSAL,
+      `Signature for proposal ${proposal.safeTxHash} was not produced by ${ownerAddress}`
+    );
+  }
+
+  const updatedProposal: MultisigProposal = {
+    ...proposal,
+    signatures: { ...proposal.signatures, [ownerAddress]: signature },
+  };
+  saveMultisigProposalToStorage(storage, updatedProposal);
+
+  return updatedProposal;
+}
+
+/**
+ * Encodes the signatures of a multisig proposal in the format expected by `execTransaction`.
+ * Signatures are concatenated in ascending order of the owner addresses.
+ * @param signatures - The signatures, keyed by owner address.
+ * @returns The concatenated signatures as a hex string.
+ */
+export function encodeMultisigSignatures(
+  signatures: Record<string, string>
+): string {
+  return ethers.utils.hexConcat(
+    Object.entries(signatures)
+      .sort(([a], [b]) =>
+        ethers.BigNumber.from(a).lt(ethers.BigNumber.from(b)) ? -1 : 1
+      )
+      .map(([, signature]) => signature)
+  );
+}
+
+/**
+ * Returns the signatures of a multisig proposal that were produced by current owners of the multisig.
+ * @param multisigContract - The multisig contract.
+ * @param proposal - The multisig proposal.
+ * @returns The owner signatures, keyed by owner address.
+ */
+export async function getValidMultisigSignatures(
+  multisigContract: ethers.Contract,
+  proposal: MultisigProposal
+): Promise<Record<string, string>> {
+  const owners = ((await multisigContract.getOwners()) as string[]).map(
+    (owner) => ethers.utils.getAddress(owner)
+  );
+
+  return Object.fromEntries(
+    Object.entries(proposal.signatures).filter(
+      ([owner, signature]) =>
+        owners.includes(ethers.utils.getAddress(owner)) &&
+        recoverMultisigSigner(proposal.safeTxHash, signature) ===
+          ethers.utils.getAddress(owner)
+    )
+  );
+}
+
+/**
+ * Checks whether a multisig proposal has collected enough owner signatures to be executed.
+ * @param multisigContract - The multisig contract.
+ * @param proposal - The multisig proposal.
+ * @returns A promise that resolves to `true` if the threshold is met.
+ */
+export async function isMultisigThresholdMet(
+  multisigContract: ethers.Contract,
+  proposal: MultisigProposal
+): Promise<boolean> {
+  const threshold = ethers.BigNumber.from(
+    await multisigContract.getThreshold()
+  ).toNumber();
+  const signatures = await getValidMultisigSignatures(
+    multisigContract,
+    proposal
+  );
+
+  return Object.keys(signatures).length >= threshold;
+}
+
+/**
+ * Executes a multisig proposal once the signature threshold is met, and saves the execution to storage.
+ * @param multisigContract - The multisig contract, connected to the signer paying for gas.
+ * @param storage - The storage instance.
+ * @param proposal - The multisig proposal to execute.
+ * @returns A promise that resolves to the execution transaction receipt.
+ * @throws If the proposal was already executed, the threshold is not met, or the execution fails.
+ */
+export async function executeMultisigProposal(
+  multisigContract: ethers.Contract,
+  storage: StorageProvider,
+  proposal: MultisigProposal
+): Promise<ethers.providers.TransactionReceipt> {
+  if (proposal.executionTxHash !== undefined) {
+    throw new AwSignerError(
+      AwSignerErrorType.ADMIN_MULTISIG_PROPOSAL_ALREADY_EXECUTED,
+      `Proposal ${proposal.safeTxHash} was already executed in transaction ${proposal.executionTxHash}`
+    );
+  }
+
+  const threshold = ethers.BigNumber.from(
+    await multisigContract.getThreshold()
+  ).toNumber();
+  const signatures = await getValidMultisigSignatures(
+    multisigContract,
+    proposal
+  );
+  if (Object.keys(signatures).length < threshold) {
+    throw new AwSignerError(
+      AwSignerErrorType.ADMIN_MULTISIG_THRESHOLD_NOT_MET,
+      `Proposal ${proposal.safeTxHash} has ${
+        Object.keys(signatures).length
+      } of ${threshold} required signatures`
+    );
+  }
+
+  const { transaction } = proposal;
+  let receipt: ethers.providers.TransactionReceipt;
+  try {
+    const tx = await multisigContract.execTransaction(
+      transaction.to,
+      transaction.value,
+      transaction.data,
+      transaction.operation,
+      transaction.safeTxGas,
+      transaction.baseGas,
+      transaction.gasPrice,
+      transaction.gasToken,
+      transaction.refundReceiver,
+      encodeMultisigSignatures(signatures)
+    );
+    receipt = await tx.wait();
+  } catch (error) {
+    throw new AwSignerError(
+      AwSignerErrorType.ADMIN_MULTISIG_EXECUTION_FAILED,
+      `Failed to execute proposal ${proposal.safeTxHash}`,
+      {
+        details: error,
+      }
+    );
+  }
+
+  saveMultisigProposalToStorage(storage, {
+    ...proposal,
+    executionTxHash: receipt.transactionHash,
+  });
+
+  return receipt;
+}
@@ -1,7 +1,16 @@
 import { LIT_NETWORK } from '@lit-protocol/constants';
-import { type AwTool } from '@lit-protocol/aw-tool';
+import {
+  type AwTool,
+  type SpendingLimit,
+  type ToolSimulationResult,
+} from '@lit-protocol/aw-tool';
 import type { ethers } from 'ethers';
 import type { getToolByIpfsCid } from '@lit-protocol/aw-tool-registry';
+import type {
+  AuthSig,
+  ExecuteJsResponse,
+  JsonExecutionSdkParams,
+} from '@lit-protocol/types';
 import { StoredKeyData } from '@lit-protocol/wrapped-keys';
 
 /**
@@ -25,9 +34,59 @@ export interface ToolRegistryConfig {
   contractAddress: string;
 }
 
+/**
+ * A key-value storage backend for the Admin's and Delegatee's persisted data
+ * (private keys, PKP metadata, capacity credits, and tool credentials).
+ */
+export interface StorageProvider {
+  /** Retrieves an item, or `null` if it does not exist. */
+  getItem(key: string): string | null;
+
+  /** Stores (or overwrites) an item. */
+  setItem(key: string, value: string): void;
+
+  /** Removes an item. */
+  removeItem(key: string): void;
+
+  /** Removes all items. */
+  clear(): void;
+
+  /** Lists the keys of all stored items. */
+  keys(): string[];
+}
+
+/**
+ * Selects the storage backend used by the agent.
+ * - `file`: plaintext file storage (the default).
+ * - `encrypted-file`: file storage encrypted at rest with a passphrase-derived key.
+ * - `memory`: in-memory storage, nothing is persisted.
+ * - `custom`: a user-provided `StorageProvider`.
+ */
+export type StorageConfig =
+  | {
+      type: 'file';
+      /** The path of the storage directory. Defaults to the agent's storage path. */
+      path?: string;
+    }
+  | {
+      type: 'encrypted-file';
+      /** The passphrase used to derive the encryption key. */
+      passphrase: string;
+      /** The path of the storage directory. Defaults to the agent's storage path. */
+      path?: string;
+    }
+  | {
+      type: 'memory';
+    }
+  | {
+      type: 'custom';
+      /** The storage provider to use. */
+      provider: StorageProvider;
+    };
+
 /**
  * Configuration for the agent (Admin or Delegatee).
- * Includes optional settings for the Lit network, debug mode, and Tool Policy Registry.
+ * Includes optional settings for the Lit network, debug mode, and storage backend.
  */
 export interface AgentConfig {
   /** The Lit network to use (e.g., `DatilDev`, `DatilTest`, `Datil`). */
@@ -35,11 +94,21 @@ export interface AgentConfig {
 
   /** Whether to enable debug mode for additional logging. */
   debug?: boolean;
+
+  /** The storage backend to use. Defaults to plaintext file storage. */
+  storage?: StorageConfig;
+
+  /**
+   * A custom PKP Tool Registry deployment to use instead of the Lit network's, e.g. a self-hosted
+   * deployment, or one on a local Anvil chain for tests. Tool Lit Actions and wrapped keys read the
+   * registry through the Lit nodes' Chronicle Yellowstone RPC, so it must be deployed there for them.
+   */
+  toolRegistryConfig?: ToolRegistryConfig;
 }
 
 /**
  * Configuration for an Admin using an Externally Owned Account (EOA).
- * Includes the type (`eoa`) and an optional private key.
+ * Includes the type (`eoa`) and either a private key or an external signer.
  */
 interface EoaAdminConfig {
   /** The type of Admin configuration (`eoa` for Externally Owned Account). */
@@ -47,11 +116,18 @@ interface EoaAdminConfig {
 
   /** The private key for the Admin's EOA. */
   privateKey?: string;
+
+  /**
+   * An external signer for the Admin's EOA (e.g. a hardware wallet bridge, KMS or WalletConnect signer).
+   * Takes precedence over `privateKey`, and is never persisted to storage.
+   */
+  signer?: ethers.Signer;
 }
 
 /**
  * Configuration for an Admin using a Multisig wallet.
- * Includes the type (`multisig`), the multisig contract address, and its ABI.
+ * Includes the type (`multisig`), the multisig contract address, its ABI,
+ * and the private key or signer of the multisig owner operating this Admin instance.
  */
 interface MultisigAdminConfig {
   /** The type of Admin configuration (`multisig` for Multisig wallet). */
@@ -60,8 +136,21 @@ interface MultisigAdminConfig {
   /** The address of the multisig contract. */
   address: string;
 
-  /** The ABI (Application Binary Interface) of the multisig contract. */
+  /**
+   * The ABI (Application Binary Interface) of the multisig contract.
+   * Must expose the Safe-like `nonce`, `getThreshold`, `getOwners`,
+   * `getTransactionHash` and `execTransaction` functions.
+   */
   abi: string;
+
+  /** The private key of the multisig owner used to sign proposals and pay for gas. */
+  privateKey?: string;
+
+  /**
+   * An external signer for the multisig owner. Takes precedence over `privateKey`.
+   * Signers other than `ethers.Wallet` sign proposals with `eth_sign` style signatures.
+   */
+  signer?: ethers.Signer;
 }
 
 /**
@@ -112,6 +201,48 @@ export interface CapacityCreditInfo {
 
   /** The timestamp when the capacity credit was minted (in UTC). */
   mintedAtUtc: string;
+
+  /** The on-chain expiration of the capacity credit, as an ISO string. Missing for capacity credits stored by earlier versions. */
+  expiresAt?: string;
+}
+
+/**
+ * Represents the on-chain status of a Capacity Credit.
+ * Includes the capacity token ID, its rate limit, and its expiration.
+ */
+export interface CapacityCreditStatus {
+  /** The capacity token ID. */
+  capacityTokenId: string;
+
+  /** The number of requests allowed per kilosecond. */
+  requestsPerKilosecond: number;
+
+  /** The expiration of the capacity credit, as an ISO string. */
+  expiresAt: string;
+
+  /** Whether the capacity credit has expired, or is about to expire. */
+  isExpired: boolean;
+}
+
+/**
+ * Represents a Capacity Credit delegated by its owner to delegatees.
+ * The delegation is created by an Admin and handed to the Delegatees, who use it instead of minting their own capacity credits.
+ */
+export interface CapacityCreditDelegation {
+  /** The capacity token ID of the delegated capacity credit. */
+  capacityTokenId: string;
+
+  /** The addresses of the delegatees allowed to use the capacity credit. */
+  delegateeAddresses: string[];
+
+  /** The number of uses allowed for the delegation, unlimited if not set. */
+  uses?: string;
+
+  /** The expiration of the delegation, as an ISO string. */
+  expiration: string;
+
+  /** The auth signature of the capacity credit owner, passed to the Lit nodes along with the session signatures. */
+  capacityDelegationAuthSig: AuthSig;
 }
 
 /**
@@ -213,6 +344,117 @@ export interface IntentMatcher {
   ): Promise<IntentMatcherResponse<any>>;
 }
 
+/**
+ * Represents the typed result of a tool execution.
+ * @template TResult - The type of the response set by the tool's Lit Action on success.
+ */
+export interface ToolExecutionResult<TResult extends { status: 'success' }> {
+  /** The response set by the tool's Lit Action, validated against the tool's result schema. */
+  result: TResult;
+
+  /** The logs of the tool's Lit Action execution. */
+  logs: string;
+
+  /** The raw response of the Lit Action execution. */
+  rawResponse: ExecuteJsResponse;
+}
+
+/**
+ * Represents a tool execution of a batch.
+ */
+export interface ToolBatchItem {
+  /** The parameters for tool execution, excluding session signatures. */
+  params: Omit<JsonExecutionSdkParams, 'sessionSigs'>;
+
+  /** The executed tool. If provided, its response is parsed with the tool's result schema. */
+  tool?: AwTool<any, any, any>;
+}
+
+/**
+ * Options for executing a batch of tools.
+ */
+export interface ExecuteToolsOptions {
+  /** The maximum number of tools executing at the same time. Defaults to 4. */
+  concurrency?: number;
+
+  /**
+   * How long the session signatures remain valid if a new session is created for the batch, in milliseconds.
+   * Defaults to 10 minutes. Cached sessions are reused as long as they have capacity for the batch.
+   */
+  sessionExpirationMs?: number;
+}
+
+/**
+ * Represents the outcome of a tool execution of a batch.
+ * Executions are settled independently, so a failing execution does not affect the rest of the batch.
+ */
+export type ToolBatchItemResult =
+  | {
+      status: 'fulfilled';
+
+      /** The raw response of the execution, or the typed tool result if the item provided its tool. */
+      response: ExecuteJsResponse | ToolExecutionResult<{ status: 'success' }>;
+    }
+  | {
+      status: 'rejected';
+
+      /** The error thrown by the execution. */
+      error: Error;
+    };
+
+/**
+ * Represents the report of a simulated tool execution, which ran the tool's policy and
+ * pre-flight steps without signing or broadcasting. A passing report holds the results of
+ * the pre-flight steps, and a failing one the stage that failed along with the error.
+ */
+export type ToolSimulationReport = ToolSimulationResult & {
+  /** The logs of the tool's Lit Action execution. */
+  logs: string;
+};
+
+/**
+ * The registry events that change the tools a delegatee is permitted to execute, or their policies.
+ */
+export type PermissionsChangedEventName =
+  | 'ToolsPermitted'
+  | 'ToolsUnpermitted'
+  | 'ToolsEnabled'
+  | 'ToolsDisabled'
+  | 'ToolsRemoved'
+  | 'PoliciesEnabled'
+  | 'PoliciesDisabled'
+  | 'ToolPoliciesSet'
+  | 'ToolPoliciesRemoved'
+  | 'RemovedDelegatees'
+  | 'BlanketPoliciesSet'
+  | 'BlanketPoliciesRemoved'
+  | 'BlanketPoliciesEnabled'
+  | 'BlanketPoliciesDisabled';
+
+/**
+ * A change to the permitted tools of a delegatee, observed on the PKP Tool Registry.
+ */
+export interface PermissionsChangedEvent {
+  /** The token ID of the PKP, as a decimal string. */
+  pkpTokenId: string;
+
+  /** The registry event that changed the permissions. */
+  event: PermissionsChangedEventName;
+
+  /**
+   * The IPFS CIDs of the tools whose permissions changed.
+   * Empty for `RemovedDelegatees`, which revokes every tool of the delegatee.
+   */
+  toolIpfsCids: string[];
+
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export type PermissionsChangedListener = (
+  event: PermissionsChangedEvent
+) => void;
+
 /**
  * Interface for storing and retrieving credentials.
  * Provides methods to manage credentials required by tools.
@@ -315,3 +557,104 @@ export type ToolInfoWithDelegateePolicy = {
 export interface WrappedKeyInfo extends StoredKeyData {
   // Additional fields if needed
 }
+
+/**
+ * The operation a multisig transaction performs on its target.
+ * `0` is a regular call, `1` is a delegate call.
+ */
+export type MultisigOperation = 0 | 1;
+
+/**
+ * Represents a Safe-like multisig transaction.
+ * Mirrors the arguments of the multisig's `getTransactionHash` function.
+ */
+export interface MultisigTransaction {
+  /** The address of the contract being called. */
+  to: string;
+
+  /** The amount of native tokens (in wei) sent with the call. */
+  value: string;
+
+  /** The ABI encoded call data. */
+  data: string;
+
+  /** The operation type of the transaction. */
+  operation: MultisigOperation;
+
+  /** The gas that should be used for the multisig transaction. */
+  safeTxGas: string;
+
+  /** The gas costs independent of the transaction execution. */
+  baseGas: string;
+
+  /** The gas price used for the refund calculation. */
+  gasPrice: string;
+
+  /** The token address used for the refund, or the zero address for native tokens. */
+  gasToken: string;
+
+  /** The address receiving the refund, or the zero address for `tx.origin`. */
+  refundReceiver: string;
+
+  /** The multisig nonce of the transaction. */
+  nonce: number;
+}
+
+/**
+ * Represents a multisig transaction that has been proposed by an Admin.
+ * Includes the transaction, its hash, the collected owner signatures, and its execution status.
+ */
+export interface MultisigProposal {
+  /** The address of the multisig contract the proposal belongs to. */
+  multisigAddress: string;
+
+  /** The hash of the multisig transaction, signed by the owners. */
+  safeTxHash: string;
+
+  /** A human-readable description of the proposal (e.g. the registry method being called). */
+  description: string;
+
+  /** The multisig transaction. */
+  transaction: MultisigTransaction;
+
+  /** The collected signatures, keyed by the checksummed owner address. */
+  signatures: Record<string, string>;
+
+  /** The hash of the transaction that executed the proposal, if it has been executed. */
+  executionTxHash?: string;
+}
+
+/**
+ * Represents the transaction receipt of an Admin operation executed on-chain.
+ */
+export type AdminTransactionReceipt = ethers.providers.TransactionReceipt & {
+  kind: 'receipt';
+};
+
+/**
+ * Represents a multisig proposal of an Admin operation that requires more owner signatures.
+ */
+export type AdminPendingProposal = MultisigProposal & {
+  kind: 'proposal';
+};
+
+/**
+ * Represents the result of an Admin operation that modifies on-chain state, discriminated by `kind`.
+ * EOA Admins always receive the transaction receipt, while multisig Admins receive
+ * the receipt once the proposal is executed, or the pending proposal if more signatures are required.
+ */
+export type AdminTransactionResult =
+  | AdminTransactionReceipt
+  | AdminPendingProposal;
+
+/**
+ * Represents a spending limit of a tool for a delegatee, with the amounts spent within its rolling window.
+ * Amounts are in the token's smallest unit.
+ */
+export type SpendingLimitStatus = SpendingLimit & {
+  /** The amount spent within the rolling window. */
+  spent: string;
+
+  /** The amount that can still be spent within the rolling window. */
+  remaining: string;
+};
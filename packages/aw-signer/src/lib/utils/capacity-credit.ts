@@ -1,8 +1,15 @@
 import { LitContracts } from '@lit-protocol/contracts-sdk';
+import { LitNodeClientNodeJs } from '@lit-protocol/lit-node-client-nodejs';
 import { LIT_NETWORK } from '@lit-protocol/constants';
 import { ethers } from 'ethers';
 
-import { CapacityCreditMintOptions, CapacityCreditInfo } from '../types';
+import {
+  CapacityCreditDelegation,
+  CapacityCreditDelegationAuthSigOptions,
+  CapacityCreditMintOptions,
+  CapacityCreditInfo,
+  CapacityCreditStatus,
+} from '../types';
 import { AwSignerError, AwSignerErrorType } from '../errors';
 
 /**
@@ -15,27 +22,125 @@ export function requiresCapacityCredit(litContracts: LitContracts): boolean {
   );
 }
 
+/**
+ * Check if a capacity credit has expired, or expires within the next 10 minutes
+ * @param expiresAt - The on-chain expiration of the capacity credit, as an ISO string
+ * @param now - The current time, in milliseconds
+ */
 export function isCapacityCreditExpired(
-  mintedAtUtc: string,
-  daysUntilUTCMidnightExpiration: number
+  expiresAt: string,
+  now = Date.now()
 ): boolean {
-  // Create dates from UTC timestamps
-  const now = new Date();
-  const mintedDate = new Date(mintedAtUtc);
+  // Expire 10 minutes early, so sessions aren't created with a credit about to expire
+  const earlyExpirationMilliseconds = 10 * 60 * 1000;
+
+  return now > new Date(expiresAt).getTime() - earlyExpirationMilliseconds;
+}
+
+/**
+ * Get the on-chain rate limit and expiration of a capacity credit
+ */
+export async function getCapacityCreditStatus(
+  litContracts: LitContracts,
+  capacityTokenId: string
+): Promise<CapacityCreditStatus> {
+  const { requestsPerKilosecond, expiresAt } =
+    await litContracts.rateLimitNftContract.read.capacity(capacityTokenId);
+  const expiresAtIso = new Date(expiresAt.toNumber() * 1000).toISOString();
+
+  return {
+    capacityTokenId: ethers.BigNumber.from(capacityTokenId).toString(),
+    requestsPerKilosecond: requestsPerKilosecond.toNumber(),
+    expiresAt: expiresAtIso,
+    isExpired: isCapacityCreditExpired(expiresAtIso),
+  };
+}
+
+/**
+ * Get the on-chain status of all capacity credits owned by an address
+ */
+export async function getCapacityCredits(
+  litContracts: LitContracts,
+  ownerAddress: string
+): Promise<CapacityCreditStatus[]> {
+  const balance = await litContracts.rateLimitNftContract.read.balanceOf(
+    ownerAddress
+  );
 
-  // Calculate the expiration date at UTC midnight
-  const expirationDate = new Date(mintedDate);
-  expirationDate.setUTCDate(
-    mintedDate.getUTCDate() + daysUntilUTCMidnightExpiration
+  return Promise.all(
+    Array.from({ length: balance.toNumber() }, async (_, index) => {
+      const capacityTokenId =
+        await litContracts.rateLimitNftContract.read.tokenOfOwnerByIndex(
+          ownerAddress,
+          index
+        );
+      return getCapacityCreditStatus(litContracts, capacityTokenId.toString());
+    })
   );
-  expirationDate.setUTCHours(0, 0, 0, 0); // Set to UTC midnight
+}
+
+/**
+ * Delegate a capacity credit owned by the signer to delegatees
+ * @throws {AwSignerError} If the signer doesn't own the capacity credit, or it has expired
+ */
+export async function delegateCapacityCredit(
+  litNodeClient: LitNodeClientNodeJs,
+  litContracts: LitContracts,
+  signer: ethers.Signer,
+  capacityTokenId: string,
+  {
+    delegateeAddresses,
+    uses,
+    expiration,
+  }: CapacityCreditDelegationAuthSigOptions
+): Promise<CapacityCreditDelegation> {
+  const signerAddress = ethers.utils.getAddress(await signer.getAddress());
+  const owner = await litContracts.rateLimitNftContract.read.ownerOf(
+    capacityTokenId
+  );
+  if (ethers.utils.getAddress(owner) !== signerAddress) {
+    throw new AwSignerError(
+      AwSignerErrorType.CAPACITY_CREDIT_NOT_OWNED,
+      `Capacity credit ${capacityTokenId} is owned by ${owner}, not ${signerAddress}`,
+      { capacityTokenId, owner, signerAddress }
+    );
+  }
 
-  // Expire 10 minutes before UTC midnight
-  const earlyExpirationMinutes = 10;
-  const earlyExpirationMilliseconds = earlyExpirationMinutes * 60 * 1000;
+  const status = await getCapacityCreditStatus(litContracts, capacityTokenId);
+  if (status.isExpired) {
+    throw new AwSignerError(
+      AwSignerErrorType.CAPACITY_CREDIT_EXPIRED,
+      `Capacity credit ${capacityTokenId} expired at ${status.expiresAt}`,
+      { capacityTokenId, expiresAt: status.expiresAt }
+    );
+  }
 
-  // Compare timestamps in UTC
-  return now.getTime() > expirationDate.getTime() - earlyExpirationMilliseconds;
+  // The delegation can't outlive the capacity credit
+  const delegationExpiration =
+    expiration !== undefined &&
+    new Date(expiration).getTime() < new Date(status.expiresAt).getTime()
+      ? new Date(expiration).toISOString()
+      : status.expiresAt;
+  const normalizedDelegateeAddresses = delegateeAddresses.map((address) =>
+    ethers.utils.getAddress(address)
+  );
+
+  const { capacityDelegationAuthSig } =
+    await litNodeClient.createCapacityDelegationAuthSig({
+      dAppOwnerWallet: signer,
+      capacityTokenId: status.capacityTokenId,
+      delegateeAddresses: normalizedDelegateeAddresses,
+      uses,
+      expiration: delegationExpiration,
+    });
+
+  return {
+    capacityTokenId: status.capacityTokenId,
+    delegateeAddresses: normalizedDelegateeAddresses,
+    uses,
+    expiration: delegationExpiration,
+    capacityDelegationAuthSig,
+  };
 }
 
 /**
@@ -88,5 +193,6 @@ export async function mintCapacityCredit(
     requestsPerKilosecond,
     daysUntilUTCMidnightExpiration,
     mintedAtUtc: new Date().toISOString(),
+    expiresAt: expirationDate.toISOString(),
   };
 }
@@ -0,0 +1,58 @@
+/**
+ * Runs an async function over items with at most `concurrency` calls in flight,
+ * and settles every call like `Promise.allSettled`.
+ * @param items - The items to process.
+ * @param concurrency - The maximum number of calls running at the same time.
+ * @param fn - The function called with each item and its index.
+ * @param getLane - Optional. Returns the lane of an item. Items of the same lane are processed
+ * one at a time, in the order of the items. Items without a lane run independently.
+ * @returns A promise that resolves to the settled results, in the order of the items.
+ */
+export async function mapSettledWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+  getLane?: (item: T) => string | undefined
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+
+  // Each lane holds the indexes of its items, lanes are started in the order of their first item
+  const lanes: number[][] = [];
+  const lanesByKey = new Map<string, number[]>();
+  items.forEach((item, index) => {
+    const key = getLane?.(item);
+    const lane = key === undefined ? undefined : lanesByKey.get(key);
+    if (lane !== undefined) {
+      lane.push(index);
+      return;
+    }
+
+    lanes.push([index]);
+    if (key !== undefined) {
+      lanesByKey.set(key, lanes[lanes.length - 1]);
+    }
+  });
+
+  let nextLane = 0;
+
+  const worker = async () => {
+    while (nextLane < lanes.length) {
+      for (const index of lanes[nextLane++]) {
+        try {
+          results[index] = {
+            status: 'fulfilled',
+            value: await fn(items[index], index),
+          };
+        } catch (reason) {
+          results[index] = { status: 'rejected', reason };
+        }
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, lanes.length) }, worker)
+  );
+
+  return results;
+}
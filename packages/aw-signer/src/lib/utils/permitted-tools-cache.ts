@@ -0,0 +1,270 @@
+import { ethers } from 'ethers';
+import {
+  getPermittedToolsForDelegatee,
+  PKP_TOOL_REGISTRY_ABI,
+} from '@lit-protocol/aw-contracts-sdk';
+
+import type {
+  PermissionsChangedEventName,
+  PermissionsChangedListener,
+} from '../types';
+
+type PermittedTools = Awaited<ReturnType<typeof getPermittedToolsForDelegatee>>;
+
+type PermittedToolsSubscription = {
+  filter: ethers.providers.Filter;
+  listener: (log: ethers.providers.Log) => void;
+};
+
+const PERMISSIONS_CHANGED_EVENTS: PermissionsChangedEventName[] = [
+  'ToolsPermitted',
+  'ToolsUnpermitted',
+  'ToolsEnabled',
+  'ToolsDisabled',
+  'ToolsRemoved',
+  'PoliciesEnabled',
+  'PoliciesDisabled',
+  'ToolPoliciesSet',
+  'ToolPoliciesRemoved',
+  'RemovedDelegatees',
+  'BlanketPoliciesSet',
+  'BlanketPoliciesRemoved',
+  'BlanketPoliciesEnabled',
+  'BlanketPoliciesDisabled',
+];
+
+const registryInterface = new ethers.utils.Interface(PKP_TOOL_REGISTRY_ABI);
+
+const getPermittedToolIpfsCids = (permittedTools: PermittedTools) =>
+  new Set([
+    ...Object.keys(permittedTools.toolsWithPolicies),
+    ...Object.keys(permittedTools.toolsWithoutPolicies),
+    ...Object.keys(permittedTools.toolsUnknownWithPolicies),
+    ...permittedTools.toolsUnknownWithoutPolicies.map(
+      (tool) => tool.toolIpfsCid
+    ),
+  ]);
+
+/**
+ * In-memory cache of the tools a delegatee is permitted to execute on each PKP.
+ * Each cached PKP is subscribed to the registry events changing its permissions, and its entry is
+ * invalidated only when an event concerns the delegatee's tools, after which listeners are notified.
+ */
+export class PermittedToolsCache {
+  private readonly entries = new Map<string, Promise<PermittedTools>>();
+  private readonly permittedToolIpfsCids = new Map<string, Set<string>>();
+  private readonly listeners = new Map<
+    string,
+    Set<PermissionsChangedListener>
+  >();
+  private readonly subscriptions = new Map<
+    string,
+    PermittedToolsSubscription
+  >();
+
+  /**
+   * @param toolRegistryContract - The PKP Tool Registry contract, connected to the provider the events are polled from.
+   * @param delegateeAddress - The address of the delegatee.
+   */
+  constructor(
+    private readonly toolRegistryContract: ethers.Contract,
+    private readonly delegateeAddress: string
+  ) {}
+
+  /**
+   * Retrieves the permitted tools of a PKP, from the cache if they haven't changed since they were fetched.
+   * @param pkpTokenId - The token ID of the PKP.
+   * @returns A promise that resolves to the permitted tools.
+   */
+  get(pkpTokenId: string): Promise<PermittedTools> {
+    const key = ethers.BigNumber.from(pkpTokenId).toString();
+    // Subscribe before fetching, so changes made while fetching aren't missed
+    this.subscribe(key);
+
+    const cached = this.entries.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const entry = getPermittedToolsForDelegatee(
+      this.toolRegistryContract,
+      key,
+      this.delegateeAddress
+    );
+    this.entries.set(key, entry);
+
+    entry.then(
+      (permittedTools) => {
+        if (this.entries.get(key) === entry) {
+          this.permittedToolIpfsCids.set(
+            key,
+            getPermittedToolIpfsCids(permittedTools)
+          );
+        }
+      },
+      () => {
+        if (this.entries.get(key) === entry) {
+          this.entries.delete(key);
+        }
+      }
+    );
+
+    return entry;
+  }
+
+  /**
+   * Registers a listener called when the permitted tools of a PKP change.
+   * @param pkpTokenId - The token ID of the PKP.
+   * @param listener - The listener to call.
+   * @returns A function removing the listener.
+   */
+  addListener(
+    pkpTokenId: string,
+    listener: PermissionsChangedListener
+  ): () => void {
+    const key = ethers.BigNumber.from(pkpTokenId).toString();
+    this.subscribe(key);
+
+    const listeners = this.listeners.get(key) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Removes cached permitted tools, so they are fetched again on the next call.
+   * @param pkpTokenId - Optional. The token ID of the PKP to remove. All PKPs are removed if omitted.
+   */
+  invalidate(pkpTokenId?: string): void {
+    if (pkpTokenId === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(ethers.BigNumber.from(pkpTokenId).toString());
+    }
+  }
+
+  /**
+   * Unsubscribes from the registry events, and removes the cached permitted tools and listeners.
+   */
+  dispose(): void {
+    const { provider } = this.toolRegistryContract;
+    for (const { filter, listener } of this.subscriptions.values()) {
+      provider.off(filter, listener);
+    }
+
+    this.subscriptions.clear();
+    this.entries.clear();
+    this.permittedToolIpfsCids.clear();
+    this.listeners.clear();
+  }
+
+  private subscribe(key: string) {
+    if (this.subscriptions.has(key)) {
+      return;
+    }
+
+    const filter = {
+      address: this.toolRegistryContract.address,
+      topics: [
+        PERMISSIONS_CHANGED_EVENTS.map((name) =>
+          registryInterface.getEventTopic(name)
+        ),
+        ethers.utils.hexZeroPad(ethers.BigNumber.from(key).toHexString(), 32),
+      ],
+    };
+    const listener = (log: ethers.providers.Log) => this.handleLog(key, log);
+
+    this.toolRegistryContract.provider.on(filter, listener);
+    this.subscriptions.set(key, { filter, listener });
+  }
+
+  private handleLog(key: string, log: ethers.providers.Log) {
+    const event = registryInterface.parseLog(log);
+    const name = event.name as PermissionsChangedEventName;
+    const toolIpfsCids = this.getChangedToolIpfsCids(key, event);
+    if (toolIpfsCids === null) {
+      return;
+    }
+
+    this.entries.delete(key);
+    for (const listener of this.listeners.get(key) ?? []) {
+      listener({
+        pkpTokenId: key,
+        event: name,
+        toolIpfsCids,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+    }
+  }
+
+  /**
+   * Returns the tools whose permissions for the delegatee are changed by a registry event,
+   * and keeps the known permitted tools of the PKP up to date.
+   * @returns The IPFS CIDs of the changed tools, or `null` if the event doesn't concern the delegatee.
+   */
+  private getChangedToolIpfsCids(
+    key: string,
+    event: ethers.utils.LogDescription
+  ): string[] | null {
+    const { args } = event;
+    const delegatee = this.delegateeAddress.toLowerCase();
+    const permittedToolIpfsCids = this.permittedToolIpfsCids.get(key);
+
+    switch (event.name as PermissionsChangedEventName) {
+      case 'ToolsEnabled':
+      case 'ToolsDisabled':
+      case 'ToolsRemoved':
+      case 'BlanketPoliciesSet':
+      case 'BlanketPoliciesRemoved':
+      case 'BlanketPoliciesEnabled':
+      case 'BlanketPoliciesDisabled': {
+        // Tool-level and blanket policy changes concern every delegatee permitted to the tool,
+        // which is assumed while the permitted tools of the PKP aren't known
+        const toolIpfsCids = (args.toolIpfsCids as string[]).filter(
+          (toolIpfsCid) =>
+            permittedToolIpfsCids === undefined ||
+            permittedToolIpfsCids.has(toolIpfsCid)
+        );
+        if (event.name === 'ToolsRemoved') {
+          toolIpfsCids.forEach((toolIpfsCid) =>
+            permittedToolIpfsCids?.delete(toolIpfsCid)
+          );
+        }
+        return toolIpfsCids.length > 0 ? toolIpfsCids : null;
+      }
+      case 'RemovedDelegatees':
+        if (
+          !(args.delegatees as string[]).some(
+            (address) => address.toLowerCase() === delegatee
+          )
+        ) {
+          return null;
+        }
+        permittedToolIpfsCids?.clear();
+        return [];
+      default: {
+        const toolIpfsCids = (args.toolIpfsCids as string[]).filter(
+          (_, i) => (args.delegatees[i] as string).toLowerCase() === delegatee
+        );
+        if (toolIpfsCids.length === 0) {
+          return null;
+        }
+
+        if (event.name === 'ToolsPermitted') {
+          toolIpfsCids.forEach((toolIpfsCid) =>
+            permittedToolIpfsCids?.add(toolIpfsCid)
+          );
+        } else if (event.name === 'ToolsUnpermitted') {
+          toolIpfsCids.forEach((toolIpfsCid) =>
+            permittedToolIpfsCids?.delete(toolIpfsCid)
+          );
+        }
+        return toolIpfsCids;
+      }
+    }
+  }
+}
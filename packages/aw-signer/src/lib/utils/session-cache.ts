@@ -0,0 +1,146 @@
+import {
+  InvalidSessionSigs,
+  NodeError,
+  UnauthorizedException,
+} from '@lit-protocol/constants';
+import type { SessionSigsMap } from '@lit-protocol/types';
+
+type SessionSignatureCacheEntry = {
+  sessionSignatures: Promise<SessionSigsMap>;
+  expiresAt: number;
+  usesRemaining: number;
+};
+
+/**
+ * Builds the key of cached session signatures from the resource abilities they grant, the capacity credit
+ * they are delegated, and the expiration requested for them, so sessions are only reused for the same requests.
+ * @param resourceAbilities - The resource keys and abilities of the session, e.g. `lit-litaction://*` and `lit-action-execution`.
+ * @param capacityTokenId - The token ID of the capacity credit delegated to the session, or `null` if none is required.
+ * @param expirationMs - The expiration requested for the session, in milliseconds.
+ * @returns The cache key.
+ */
+export function getSessionCacheKey(
+  resourceAbilities: { resourceKey: string; ability: string }[],
+  capacityTokenId: string | null,
+  expirationMs: number
+): string {
+  return JSON.stringify({
+    resourceAbilities: resourceAbilities
+      .map(({ resourceKey, ability }) => `${resourceKey}#${ability}`)
+      .sort(),
+    capacityTokenId,
+    expirationMs,
+  });
+}
+
+/**
+ * Error codes of the Lit nodes rejecting a session, e.g. for an invalid or expired session signature,
+ * an invalid capacity delegation, or a capacity credit out of requests.
+ */
+const SESSION_NODE_ERROR_CODE = /auth|session|siwe|capabilit|rate_?limit/i;
+
+/**
+ * Checks whether an error of a Lit Action execution is due to its session, in which case a new session may succeed.
+ * Errors of the Lit Action itself, or of the network, are not.
+ * @param error - The error thrown by `LitNodeClient.executeJs`.
+ * @returns Whether the session signatures or their capacity delegation were rejected.
+ */
+export function isSessionError(error: unknown): boolean {
+  if (
+    error instanceof InvalidSessionSigs ||
+    error instanceof UnauthorizedException
+  ) {
+    return true;
+  }
+
+  if (error instanceof NodeError) {
+    const { errorCode } =
+      (error as { info?: { errorCode?: string } }).info ?? {};
+    return errorCode !== undefined && SESSION_NODE_ERROR_CODE.test(errorCode);
+  }
+
+  return false;
+}
+
+/**
+ * In-memory cache of session signatures.
+ * Sessions are reused until they are about to expire or their capacity delegation runs out of uses,
+ * after which they are refreshed by the caller.
+ */
+export class SessionSignatureCache {
+  private readonly entries = new Map<string, SessionSignatureCacheEntry>();
+
+  /**
+   * @param refreshMarginMs - How long before their expiration cached sessions stop being reused, in milliseconds.
+   */
+  constructor(private readonly refreshMarginMs: number) {}
+
+  /**
+   * Reserves uses of a cached session.
+   * @param key - The cache key of the session.
+   * @param uses - The number of uses to reserve.
+   * @param now - The current time, in milliseconds.
+   * @returns The session signatures, or `undefined` if no session can be reused.
+   */
+  reserve(
+    key: string,
+    uses: number,
+    now = Date.now()
+  ): Promise<SessionSigsMap> | undefined {
+    const entry = this.entries.get(key);
+    if (
+      entry === undefined ||
+      entry.expiresAt - this.refreshMarginMs <= now ||
+      entry.usesRemaining < uses
+    ) {
+      return undefined;
+    }
+
+    entry.usesRemaining -= uses;
+    return entry.sessionSignatures;
+  }
+
+  /**
+   * Caches a session, replacing any session cached under the same key.
+   * The session is removed from the cache if its signatures fail to be created.
+   * @param key - The cache key of the session.
+   * @param sessionSignatures - The session signatures, possibly still being created.
+   * @param expiresAt - The expiration time of the session, in milliseconds.
+   * @param usesRemaining - The number of uses left in the session's capacity delegation, after those of the caller.
+   */
+  set(
+    key: string,
+    sessionSignatures: Promise<SessionSigsMap>,
+    expiresAt: number,
+    usesRemaining: number
+  ): void {
+    // Sessions of expired capacity credits are never requested again
+    const now = Date.now();
+    for (const [cachedKey, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(cachedKey);
+      }
+    }
+
+    const entry = { sessionSignatures, expiresAt, usesRemaining };
+    this.entries.set(key, entry);
+
+    sessionSignatures.catch(() => {
+      if (this.entries.get(key) === entry) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Removes cached sessions.
+   * @param key - Optional. The cache key of the session to remove. All sessions are removed if omitted.
+   */
+  invalidate(key?: string): void {
+    if (key === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { ethers } from 'ethers';
+
+import { AwSignerError, AwSignerErrorType } from '../errors';
+
+/**
+ * Resolves the signer used by the Admin or Delegatee.
+ * External signers are used as-is when they already have a provider,
+ * otherwise they are connected to the given provider.
+ * @param privateKeyOrSigner - A private key, or an external `ethers.Signer`.
+ * @param provider - The provider to connect the signer to.
+ * @returns The signer.
+ */
+export function resolveSigner(
+  privateKeyOrSigner: string | ethers.Signer,
+  provider: ethers.providers.Provider
+): ethers.Signer {
+  if (typeof privateKeyOrSigner === 'string') {
+    return new ethers.Wallet(privateKeyOrSigner, provider);
+  }
+
+  return privateKeyOrSigner.provider
+    ? privateKeyOrSigner
+    : privateKeyOrSigner.connect(provider);
+}
+
+/**
+ * Connects a signer to the chain of a custom PKP Tool Registry deployment.
+ * Wallets are reconnected to the registry's RPC, while external signers are used as-is,
+ * since they can't be reconnected to another provider, as long as they're on the registry's chain.
+ * @param signer - The signer of the Admin or Delegatee.
+ * @param rpcUrl - The RPC URL of the chain the registry is deployed to.
+ * @returns A promise that resolves to the signer used for the registry.
+ * @throws {AwSignerError} If an external signer is connected to another chain than the registry.
+ */
+export async function connectSignerToRegistry(
+  signer: ethers.Signer,
+  rpcUrl: string
+): Promise<ethers.Signer> {
+  const registryProvider = new ethers.providers.JsonRpcProvider(rpcUrl);
+  if (signer instanceof ethers.Wallet) {
+    return signer.connect(registryProvider);
+  }
+
+  const [signerChainId, { chainId: registryChainId }] = await Promise.all([
+    signer.getChainId(),
+    registryProvider.getNetwork(),
+  ]);
+  if (signerChainId !== registryChainId) {
+    throw new AwSignerError(
+      AwSignerErrorType.SIGNER_REGISTRY_CHAIN_MISMATCH,
+      `The signer is connected to chain ${signerChainId}, but the PKP Tool Registry is deployed to chain ${registryChainId}`
+    );
+  }
+
+  return signer;
+}
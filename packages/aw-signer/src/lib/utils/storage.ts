@@ -1,6 +1,13 @@
 import { LocalStorage as NodeLocalStorage } from 'node-localstorage';
+import crypto from 'crypto';
 
-export class LocalStorage {
+import type { StorageConfig, StorageProvider } from '../types';
+import { AwSignerError, AwSignerErrorType } from '../errors';
+
+/**
+ * Plaintext file storage backed by `node-localstorage`.
+ */
+export class LocalStorage implements StorageProvider {
   private storage: NodeLocalStorage;
 
   constructor(storageFilePath: string) {
@@ -22,4 +29,292 @@ export class LocalStorage {
   clear(): void {
     this.storage.clear();
   }
+
+  keys(): string[] {
+    return Array.from({ length: this.storage.length }, (_, index) =>
+      this.storage.key(index)
+    );
+  }
+}
+
+/**
+ * In-memory storage, useful for tests and short-lived agents.
+ * Nothing is persisted once the process exits.
+ */
+export class MemoryStorage implements StorageProvider {
+  private readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  keys(): string[] {
+    return Array.from(this.items.keys());
+  }
+}
+
+type EncryptionMetadata = {
+  version: 1;
+  kdf: 'scrypt';
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+  keyCheck: string;
+};
+
+/**
+ * Encrypted-at-rest file storage.
+ * Values are encrypted with AES-256-GCM using a key derived from a passphrase with scrypt.
+ * The key names are stored in plaintext, and are bound to their values as additional authenticated data.
+ */
+export class EncryptedFileStorage implements StorageProvider {
+  private static readonly METADATA_KEY = '__encryption__';
+  private static readonly KEY_CHECK_VALUE = 'aw-signer';
+  private static readonly VALUE_PREFIX = 'enc:v1:';
+  private static readonly SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+  private readonly storage: NodeLocalStorage;
+  private readonly encryptionKey: Buffer;
+
+  /**
+   * Opens (or initializes) an encrypted storage directory.
+   * @param storageFilePath - The path of the storage directory.
+   * @param passphrase - The passphrase used to derive the encryption key.
+   * @throws {AwSignerError} If the passphrase does not match the one used to initialize the storage.
+   */
+  constructor(storageFilePath: string, passphrase: string) {
+    this.storage = new NodeLocalStorage(storageFilePath);
+
+    const metadata = this.storage.getItem(EncryptedFileStorage.METADATA_KEY);
+    if (metadata) {
+      const { salt, N, r, p, keyCheck } = JSON.parse(
+        metadata
+      ) as EncryptionMetadata;
+      this.encryptionKey = EncryptedFileStorage.deriveKey(
+        passphrase,
+        Buffer.from(salt, 'base64'),
+        { N, r, p }
+      );
+
+      if (
+        this.decrypt(EncryptedFileStorage.METADATA_KEY, keyCheck) !==
+        EncryptedFileStorage.KEY_CHECK_VALUE
+      ) {
+        throw new AwSignerError(
+          AwSignerErrorType.STORAGE_DECRYPTION_FAILED,
+          'Invalid storage passphrase'
+        );
+      }
+      return;
+    }
+
+    const salt = crypto.randomBytes(16);
+    this.encryptionKey = EncryptedFileStorage.deriveKey(
+      passphrase,
+      salt,
+      EncryptedFileStorage.SCRYPT_PARAMS
+    );
+
+    const newMetadata: EncryptionMetadata = {
+      version: 1,
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      ...EncryptedFileStorage.SCRYPT_PARAMS,
+      keyCheck: this.encrypt(
+        EncryptedFileStorage.METADATA_KEY,
+        EncryptedFileStorage.KEY_CHECK_VALUE
+      ),
+    };
+    this.storage.setItem(
+      EncryptedFileStorage.METADATA_KEY,
+      JSON.stringify(newMetadata)
+    );
+  }
+
+  private static deriveKey(
+    passphrase: string,
+    salt: Buffer,
+    { N, r, p }: { N: number; r: number; p: number }
+  ): Buffer {
+    return crypto.scryptSync(passphrase, salt, 32, {
+      N,
+      r,
+      p,
+      maxmem: 256 * N * r,
+    });
+  }
+
+  private static isEncrypted(value: string): boolean {
+    return value.startsWith(EncryptedFileStorage.VALUE_PREFIX);
+  }
+
+  /**
+   * Encrypts all plaintext items of an existing storage directory in place,
+   * e.g. a storage directory created with the default file storage.
+   * @param storageFilePath - The path of the storage directory.
+   * @param passphrase - The passphrase used to derive the encryption key.
+   * @returns The encrypted storage, and the keys of the items that were migrated.
+   */
+  public static migrate(
+    storageFilePath: string,
+    passphrase: string
+  ): { storage: EncryptedFileStorage; migratedKeys: string[] } {
+    const storage = new EncryptedFileStorage(storageFilePath, passphrase);
+
+    const migratedKeys: string[] = [];
+    for (const key of storage.keys()) {
+      const value = storage.storage.getItem(key);
+      if (value !== null && !EncryptedFileStorage.isEncrypted(value)) {
+        storage.setItem(key, value);
+        migratedKeys.push(key);
+      }
+    }
+
+    return { storage, migratedKeys };
+  }
+
+  private encrypt(key: string, value: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    cipher.setAAD(Buffer.from(key, 'utf8'));
+    const ciphertext = Buffer.concat([
+      cipher.update(value, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return `${EncryptedFileStorage.VALUE_PREFIX}${[
+      iv,
+      cipher.getAuthTag(),
+      ciphertext,
+    ]
+      .map((part) => part.toString('base64'))
+      .join(':')}`;
+  }
+
+  private decrypt(key: string, value: string): string {
+    try {
+      const [iv, authTag, ciphertext] = value
+        .slice(EncryptedFileStorage.VALUE_PREFIX.length)
+        .split(':')
+        .map((part) => Buffer.from(part, 'base64'));
+
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        this.encryptionKey,
+        iv
+      );
+      decipher.setAAD(Buffer.from(key, 'utf8'));
+      decipher.setAuthTag(authTag);
+
+      return Buffer.concat([
+        decipher.update(ciphertext),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch (error) {
+      throw new AwSignerError(
+        AwSignerErrorType.STORAGE_DECRYPTION_FAILED,
+        `Failed to decrypt storage item ${key}`,
+        {
+          details: error,
+        }
+      );
+    }
+  }
+
+  getItem(key: string): string | null {
+    const value = this.storage.getItem(key);
+    if (value === null) {
+      return null;
+    }
+
+    if (!EncryptedFileStorage.isEncrypted(value)) {
+      throw new AwSignerError(
+        AwSignerErrorType.STORAGE_ITEM_NOT_ENCRYPTED,
+        `Storage item ${key} is not encrypted, migrate the storage with EncryptedFileStorage.migrate`
+      );
+    }
+
+    return this.decrypt(key, value);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, this.encrypt(key, value));
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+
+  clear(): void {
+    for (const key of this.keys()) {
+      this.storage.removeItem(key);
+    }
+  }
+
+  keys(): string[] {
+    return Array.from({ length: this.storage.length }, (_, index) =>
+      this.storage.key(index)
+    ).filter((key) => key !== EncryptedFileStorage.METADATA_KEY);
+  }
+}
+
+/**
+ * Copies all items from one storage provider to another.
+ * Can be used to move existing plaintext storage into an encrypted (or any other) backend.
+ * @param source - The storage provider to copy items from.
+ * @param target - The storage provider to copy items to.
+ * @returns The keys of the copied items.
+ */
+export function migrateStorage(
+  source: StorageProvider,
+  target: StorageProvider
+): string[] {
+  const keys = source.keys();
+  for (const key of keys) {
+    const value = source.getItem(key);
+    if (value !== null) {
+      target.setItem(key, value);
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Creates the storage provider selected by the agent configuration.
+ * @param config - The storage configuration. Defaults to plaintext file storage.
+ * @param defaultStorageFilePath - The storage path used when the configuration does not provide one.
+ * @returns The storage provider.
+ */
+export function createStorageProvider(
+  config: StorageConfig | undefined,
+  defaultStorageFilePath: string
+): StorageProvider {
+  switch (config?.type) {
+    case 'memory':
+      return new MemoryStorage();
+    case 'encrypted-file':
+      return new EncryptedFileStorage(
+        config.path ?? defaultStorageFilePath,
+        config.passphrase
+      );
+    case 'custom':
+      return config.provider;
+    case 'file':
+    default:
+      return new LocalStorage(config?.path ?? defaultStorageFilePath);
+  }
 }
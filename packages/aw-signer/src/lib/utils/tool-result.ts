@@ -0,0 +1,122 @@
+import {
+  BaseToolErrorResultSchema,
+  BaseToolSuccessResultSchema,
+  ToolSimulationResultSchema,
+  type AwTool,
+} from '@lit-protocol/aw-tool';
+import type { ExecuteJsResponse } from '@lit-protocol/types';
+
+import type { ToolExecutionResult, ToolSimulationReport } from '../types';
+import { AwSignerErrorType, ToolExecutionError } from '../errors';
+
+/**
+ * Parses the JSON response set by a tool's Lit Action.
+ * @throws {ToolExecutionError} If the Lit Action reported a failure, or its response is not valid JSON.
+ */
+function parseToolResponse(
+  tool: AwTool<any, any, any>,
+  response: ExecuteJsResponse,
+  logs: string
+): unknown {
+  let parsedResponse: unknown = response.response;
+  if (typeof parsedResponse === 'string') {
+    try {
+      parsedResponse = JSON.parse(parsedResponse);
+    } catch (error) {
+      throw new ToolExecutionError(
+        AwSignerErrorType.TOOL_INVALID_RESULT,
+        `Tool ${tool.name} returned a response that is not valid JSON`,
+        tool.name,
+        logs,
+        { response: response.response, error }
+      );
+    }
+  }
+
+  const errorResult = BaseToolErrorResultSchema.safeParse(parsedResponse);
+  if (errorResult.success) {
+    throw new ToolExecutionError(
+      AwSignerErrorType.TOOL_EXECUTION_FAILED,
+      `Tool ${tool.name} failed: ${errorResult.data.error}`,
+      tool.name,
+      logs,
+      { details: errorResult.data.details }
+    );
+  }
+
+  return parsedResponse;
+}
+
+/**
+ * Parses the response set by a tool's Lit Action, and validates it against the tool's result schema.
+ * @param tool - The executed tool.
+ * @param response - The response of the Lit Action execution.
+ * @returns The typed result of the tool execution.
+ * @throws {ToolExecutionError} If the Lit Action reported a failure, or its response does not match the tool's result schema.
+ */
+export function parseToolResult<TResult extends { status: 'success' }>(
+  tool: AwTool<any, any, TResult>,
+  response: ExecuteJsResponse
+): ToolExecutionResult<TResult> {
+  const logs = response.logs ?? '';
+  const parsedResponse = parseToolResponse(tool, response, logs);
+
+  // Tools without a result configuration are only checked for a successful status
+  const schema = (tool.result?.schema ??
+    BaseToolSuccessResultSchema) as NonNullable<
+    AwTool<any, any, TResult>['result']
+  >['schema'];
+  const result = schema.safeParse(parsedResponse);
+  if (!result.success) {
+    throw new ToolExecutionError(
+      AwSignerErrorType.TOOL_INVALID_RESULT,
+      `Tool ${tool.name} returned an invalid result: ${result.error.issues
+        .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+        .join(', ')}`,
+      tool.name,
+      logs,
+      { response: parsedResponse }
+    );
+  }
+
+  return {
+    result: result.data,
+    logs,
+    rawResponse: response,
+  };
+}
+
+/**
+ * Parses the response set by a tool's Lit Action executed as a simulation.
+ * @param tool - The simulated tool.
+ * @param response - The response of the Lit Action execution.
+ * @returns The simulation report, with the Lit Action logs.
+ * @throws {ToolExecutionError} If the Lit Action reported a failure outside of the simulation, or its response is not a simulation result.
+ */
+export function parseToolSimulationResult(
+  tool: AwTool<any, any, any>,
+  response: ExecuteJsResponse
+): ToolSimulationReport {
+  const logs = response.logs ?? '';
+  const parsedResponse = parseToolResponse(tool, response, logs);
+
+  const result = ToolSimulationResultSchema.safeParse(parsedResponse);
+  if (!result.success) {
+    throw new ToolExecutionError(
+      AwSignerErrorType.TOOL_INVALID_RESULT,
+      `Tool ${
+        tool.name
+      } returned an invalid simulation result: ${result.error.issues
+        .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+        .join(', ')}`,
+      tool.name,
+      logs,
+      { response: parsedResponse }
+    );
+  }
+
+  return {
+    ...result.data,
+    logs,
+  };
+}
@@ -18,11 +18,11 @@ if (typeof window === 'undefined' && !global.crypto?.subtle) {
   });
 }
 
-import type { LocalStorage } from './utils/storage';
+import type { StorageProvider } from './types';
 import { AwSignerError, AwSignerErrorType } from './errors';
 import { getEncryptedKey, storeEncryptedKey } from '@lit-protocol/wrapped-keys/src/lib/api';
 
-export function loadWrappedKeyFromStorage(storage: LocalStorage, id: string): StoredKeyData | null {
+export function loadWrappedKeyFromStorage(storage: StorageProvider, id: string): StoredKeyData | null {
   try {
     const wrappedKeys = loadWrappedKeysFromStorage(storage);
     return wrappedKeys.find(wk => wk.id === id) || null;
@@ -37,7 +37,7 @@ export function loadWrappedKeyFromStorage(storage: LocalStorage, id: string): St
   }
 }
 
-export function saveWrappedKeyToStorage(storage: LocalStorage, wrappedKey: StoredKeyData) {
+export function saveWrappedKeyToStorage(storage: StorageProvider, wrappedKey: StoredKeyData) {
   const wrappedKeys = loadWrappedKeysFromStorage(storage);
   const index = wrappedKeys.findIndex(wk => wk.id === wrappedKey.id);
 
@@ -50,7 +50,7 @@ export function saveWrappedKeyToStorage(storage: LocalStorage, wrappedKey: Store
   storage.setItem('wks', JSON.stringify(wrappedKeys));
 }
 
-export function loadWrappedKeysFromStorage(storage: LocalStorage): StoredKeyData[] {
+export function loadWrappedKeysFromStorage(storage: StorageProvider): StoredKeyData[] {
   const wks = storage.getItem('wks');
   if (!wks) {
     return [];
@@ -74,7 +74,8 @@ export async function mintWrappedKey(
   pkpSessionSigs: SessionSigsMap,
   pkpTokenId: string,
   litNetwork: 'datil-dev' | 'datil-test' | 'datil',
-  storage: LocalStorage,
+  storage: StorageProvider,
+  pkpToolRegistryAddress?: string,
 ): Promise<StoredKeyData> {
 
   const solanaKeypair = Keypair.generate();
@@ -91,7 +92,7 @@ export async function mintWrappedKey(
   const tokenId = tokenIdBN.toString();
   console.log('Converted PKP address to tokenId:', tokenId);
 
-  const evmControlConditions: EvmContractConditions = getAccessControlConditions(tokenId, litNetwork);
+  const evmControlConditions: EvmContractConditions = getAccessControlConditions(tokenId, litNetwork, pkpToolRegistryAddress);
 
   const { ciphertext, dataToEncryptHash } = await encryptString({
     evmContractConditions: evmControlConditions,
@@ -139,7 +140,7 @@ function getPkpAddressFromSessionSigs(pkpSessionSigs: SessionSigsMap) {
   return pkpCapability.address;
 }
 
-export function removeWrappedKeyFromStorage(storage: LocalStorage, id: string) {
+export function removeWrappedKeyFromStorage(storage: StorageProvider, id: string) {
   const wrappedKeys = loadWrappedKeysFromStorage(storage);
   const newWrappedKeys = wrappedKeys.filter(wk => wk.id !== id);
   storage.setItem('wks', JSON.stringify(newWrappedKeys));
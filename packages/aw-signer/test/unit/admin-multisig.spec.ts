@@ -0,0 +1,205 @@
+import { LitContracts } from '@lit-protocol/contracts-sdk';
+import { getPkpToolRegistryContract } from '@lit-protocol/aw-contracts-sdk';
+import { ethers } from 'ethers';
+
+import { Admin } from '../../src/lib/admin';
+import { recoverMultisigSigner } from '../../src/lib/multisig';
+import { MemoryStorage } from '../../src/lib/utils/storage';
+import type { MultisigProposal } from '../../src/lib/types';
+
+const MULTISIG_ADDRESS = '0x1234567890123456789012345678901234567890';
+
+// Mock dependencies
+jest.mock('@lit-protocol/lit-node-client-nodejs');
+jest.mock('@lit-protocol/contracts-sdk');
+// The SDK's tool registry requires deployed tools, so only the registry contract is provided
+jest.mock('@lit-protocol/aw-contracts-sdk', () => ({
+  DEFAULT_REGISTRY_CONFIG: {
+    'datil-dev': {
+      contractAddress: '0x2707eabb60D262024F8738455811a338B0ECd3EC',
+      rpcUrl: 'https://yellowstone-rpc.litprotocol.com/',
+    },
+  },
+  getPkpToolRegistryContract: jest.fn(),
+}));
+// The multisig contract is emulated, other contracts are created as usual
+let mockMultisigContract: ethers.Contract;
+jest.mock('ethers', () => {
+  const actual = jest.requireActual('ethers');
+  class Contract extends actual.ethers.Contract {
+    constructor(...args: ConstructorParameters<typeof ethers.Contract>) {
+      if (args[0] === '0x1234567890123456789012345678901234567890') {
+        return mockMultisigContract;
+      }
+      super(...args);
+    }
+  }
+  return { ...actual, ethers: { ...actual.ethers, Contract } };
+});
+
+describe('Admin (multisig)', () => {
+  const registryAddress = '0x2707eabb60D262024F8738455811a338B0ECd3EC';
+  const delegatee = '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc';
+  // ownerB's address sorts before ownerA's, so signatures aren't encoded in the order they're collected
+  const ownerA = new ethers.Wallet(
+    '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+  );
+  const ownerB = new ethers.Wallet(
+    '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a'
+  );
+
+  let storageA: MemoryStorage;
+  let storageB: MemoryStorage;
+
+  const createAdmin = (
+    storage: MemoryStorage,
+    owner: { privateKey: string } | { signer: ethers.Signer }
+  ) =>
+    Admin.create(
+      { type: 'multisig', address: MULTISIG_ADDRESS, abi: '[]', ...owner },
+      {
+        litNetwork: 'datil-dev',
+        storage: { type: 'custom', provider: storage },
+      }
+    );
+
+  /**
+   * An external signer for ownerB, which can only sign messages.
+   */
+  const createExternalSigner = () => {
+    const signer = new ethers.VoidSigner(
+      ownerB.address,
+      new ethers.providers.JsonRpcProvider('http://127.0.0.1:8545')
+    );
+    signer.signMessage = (message) => ownerB.signMessage(message);
+    return signer;
+  };
+
+  const withoutKind = ({
+    kind: _kind,
+    ...proposal
+  }: MultisigProposal & { kind: 'proposal' }) => proposal;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storageA = new MemoryStorage();
+    storageB = new MemoryStorage();
+
+    mockMultisigContract = {
+      address: MULTISIG_ADDRESS,
+      nonce: jest.fn(async () => ethers.BigNumber.from(0)),
+      getThreshold: jest.fn(async () => ethers.BigNumber.from(2)),
+      getOwners: jest.fn(async () => [ownerA.address, ownerB.address]),
+      getTransactionHash: jest.fn(async (...args: unknown[]) =>
+        ethers.utils.keccak256(ethers.utils.toUtf8Bytes(JSON.stringify(args)))
+      ),
+      execTransaction: jest.fn().mockResolvedValue({
+        wait: jest.fn().mockResolvedValue({
+          status: 1,
+          transactionHash: '0xexecuted',
+        }),
+      }),
+    } as unknown as ethers.Contract;
+
+    jest.mocked(LitContracts).mockImplementation(
+      () => ({ connect: jest.fn().mockResolvedValue(undefined) } as any)
+    );
+    jest.mocked(getPkpToolRegistryContract).mockReturnValue({
+      address: registryAddress,
+      interface: new ethers.utils.Interface([
+        'function addDelegatees(uint256 pkpTokenId, address[] delegatees)',
+      ]),
+    } as any);
+    jest
+      .spyOn(Admin.prototype, 'getPkpByTokenId')
+      .mockResolvedValue({ info: { tokenId: '1' } } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should store proposals signed by the proposing owner', async () => {
+    const admin = await createAdmin(storageA, {
+      privateKey: ownerA.privateKey,
+    });
+
+    const result = await admin.addDelegatee('1', delegatee);
+
+    expect(result.kind).toBe('proposal');
+    const proposal = withoutKind(
+      result as MultisigProposal & { kind: 'proposal' }
+    );
+    expect(proposal).toMatchObject({
+      multisigAddress: MULTISIG_ADDRESS,
+      description: `addDelegatees("1", ["${delegatee}"])`,
+      transaction: { to: registryAddress, nonce: 0 },
+    });
+    expect(Object.keys(proposal.signatures)).toEqual([ownerA.address]);
+    expect(mockMultisigContract.execTransaction).not.toHaveBeenCalled();
+
+    // The proposal outlives the Admin instance that created it
+    const reopenedAdmin = await createAdmin(storageA, {
+      privateKey: ownerA.privateKey,
+    });
+    await expect(reopenedAdmin.getPendingMultisigProposals()).resolves.toEqual(
+      [proposal]
+    );
+    await expect(
+      reopenedAdmin.getMultisigProposal(proposal.safeTxHash)
+    ).resolves.toEqual(proposal);
+  });
+
+  it('should queue proposals with increasing nonces', async () => {
+    const admin = await createAdmin(storageA, {
+      privateKey: ownerA.privateKey,
+    });
+
+    await admin.addDelegatee('1', delegatee);
+    await admin.addDelegatee('1', ownerB.address);
+
+    expect(
+      (await admin.getPendingMultisigProposals()).map(
+        (proposal) => proposal.transaction.nonce
+      )
+    ).toEqual([0, 1]);
+  });
+
+  it('should execute a proposal approved by an external signer, with signatures sorted by owner', async () => {
+    const adminA = await createAdmin(storageA, {
+      privateKey: ownerA.privateKey,
+    });
+    const proposal = withoutKind(
+      (await adminA.addDelegatee('1', delegatee)) as MultisigProposal & {
+        kind: 'proposal';
+      }
+    );
+
+    const adminB = await createAdmin(storageB, {
+      signer: createExternalSigner(),
+    });
+    await adminB.importMultisigProposal(proposal);
+    const result = await adminB.signMultisigProposal(proposal.safeTxHash);
+
+    expect(result).toMatchObject({
+      kind: 'receipt',
+      transactionHash: '0xexecuted',
+    });
+
+    const { signatures } = await adminB.getMultisigProposal(
+      proposal.safeTxHash
+    );
+    // eth_sign signatures of external signers have v increased by 4
+    const signatureB = signatures[ownerB.address];
+    expect([31, 32]).toContain(ethers.utils.arrayify(signatureB)[64]);
+    expect(recoverMultisigSigner(proposal.safeTxHash, signatureB)).toBe(
+      ownerB.address
+    );
+
+    expect(mockMultisigContract.execTransaction).toHaveBeenCalledTimes(1);
+    expect(
+      jest.mocked(mockMultisigContract.execTransaction).mock.calls[0][9]
+    ).toBe(ethers.utils.hexConcat([signatureB, signatures[ownerA.address]]));
+    await expect(adminB.getPendingMultisigProposals()).resolves.toEqual([]);
+  });
+});
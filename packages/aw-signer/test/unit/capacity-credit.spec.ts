@@ -0,0 +1,19 @@
+import { isCapacityCreditExpired } from '../../src/lib/utils/capacity-credit';
+
+describe('isCapacityCreditExpired', () => {
+  const expiresAt = '2025-01-02T00:00:00.000Z';
+  const expiresAtMs = new Date(expiresAt).getTime();
+
+  it('should not be expired more than 10 minutes before its expiration', () => {
+    expect(
+      isCapacityCreditExpired(expiresAt, expiresAtMs - 10 * 60 * 1000)
+    ).toBe(false);
+  });
+
+  it('should be expired within 10 minutes of its expiration', () => {
+    expect(
+      isCapacityCreditExpired(expiresAt, expiresAtMs - 10 * 60 * 1000 + 1)
+    ).toBe(true);
+    expect(isCapacityCreditExpired(expiresAt, expiresAtMs + 1)).toBe(true);
+  });
+});
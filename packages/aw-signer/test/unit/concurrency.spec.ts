@@ -0,0 +1,99 @@
+import { mapSettledWithConcurrency } from '../../src/lib/utils/concurrency';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapSettledWithConcurrency', () => {
+  it('should settle every item in the order of the items', async () => {
+    const results = await mapSettledWithConcurrency(
+      [30, 10, 20],
+      3,
+      async (ms, index) => {
+        await delay(ms);
+        return index;
+      }
+    );
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 0 },
+      { status: 'fulfilled', value: 1 },
+      { status: 'fulfilled', value: 2 },
+    ]);
+  });
+
+  it('should report failures without affecting the other items', async () => {
+    const error = new Error('Execution failed');
+
+    const results = await mapSettledWithConcurrency(
+      ['a', 'b', 'c'],
+      2,
+      async (item) => {
+        if (item === 'b') {
+          throw error;
+        }
+        return item.toUpperCase();
+      }
+    );
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 'A' },
+      { status: 'rejected', reason: error },
+      { status: 'fulfilled', value: 'C' },
+    ]);
+  });
+
+  it('should not run more calls than the concurrency at the same time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapSettledWithConcurrency(
+      Array.from({ length: 10 }, (_, i) => i),
+      3,
+      async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(5);
+        running--;
+      }
+    );
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('should run the items of a lane one at a time, in order', async () => {
+    const events: string[] = [];
+
+    const results = await mapSettledWithConcurrency(
+      [
+        { lane: 'a', ms: 20 },
+        { lane: 'a', ms: 0 },
+        { lane: undefined, ms: 5 },
+        { lane: 'b', ms: 5 },
+      ],
+      4,
+      async ({ ms }, index) => {
+        events.push(`start ${index}`);
+        await delay(ms);
+        events.push(`end ${index}`);
+        return index;
+      },
+      ({ lane }) => lane
+    );
+
+    expect(results.map((result) => result.status)).toEqual([
+      'fulfilled',
+      'fulfilled',
+      'fulfilled',
+      'fulfilled',
+    ]);
+    // Other lanes run alongside the first one, whose second item waits for its first
+    expect(events.slice(0, 3)).toEqual(['start 0', 'start 2', 'start 3']);
+    expect(events.indexOf('start 1')).toBe(events.indexOf('end 0') + 1);
+  });
+
+  it('should resolve to an empty array without items', async () => {
+    const fn = jest.fn();
+
+    await expect(mapSettledWithConcurrency([], 4, fn)).resolves.toEqual([]);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
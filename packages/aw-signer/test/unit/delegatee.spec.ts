@@ -0,0 +1,124 @@
+import { LitContracts } from '@lit-protocol/contracts-sdk';
+import { getPkpToolRegistryContract } from '@lit-protocol/aw-contracts-sdk';
+import { ethers } from 'ethers';
+import { Delegatee } from '../../src/lib/delegatee';
+import { MemoryStorage } from '../../src/lib/utils/storage';
+
+// Mock dependencies
+jest.mock('@lit-protocol/lit-node-client-nodejs');
+jest.mock('@lit-protocol/contracts-sdk');
+// The SDK's tool registry requires deployed tools, so only the registry contract is provided
+jest.mock('@lit-protocol/aw-contracts-sdk', () => ({
+  PKP_TOOL_REGISTRY_ABI: [],
+  DEFAULT_REGISTRY_CONFIG: {
+    'datil-dev': {
+      contractAddress: '0x2707eabb60D262024F8738455811a338B0ECd3EC',
+      rpcUrl: 'https://yellowstone-rpc.litprotocol.com/',
+    },
+  },
+  getPkpToolRegistryContract: jest.fn(),
+}));
+
+describe('Delegatee', () => {
+  const mockPrivateKey =
+    '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+  const mockDelegateeAddress = new ethers.Wallet(mockPrivateKey).address;
+
+  let storage: MemoryStorage;
+
+  const createDelegatee = (privateKeyOrSigner?: string | ethers.Signer) =>
+    Delegatee.create(privateKeyOrSigner, {
+      litNetwork: 'datil-dev',
+      storage: { type: 'custom', provider: storage },
+    });
+
+  const getStoredDelegatee = () =>
+    JSON.parse(storage.getItem('delegatees') ?? '{}')[mockDelegateeAddress];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(LitContracts).mockImplementation(
+      () => ({ connect: jest.fn().mockResolvedValue(undefined) } as any)
+    );
+    jest.mocked(getPkpToolRegistryContract).mockReturnValue({} as any);
+    storage = new MemoryStorage();
+  });
+
+  describe('create', () => {
+    it('should store private keys passed as strings', async () => {
+      const delegatee = await createDelegatee(mockPrivateKey);
+      delegatee.disconnect();
+
+      expect(getStoredDelegatee()).toEqual({ privateKey: mockPrivateKey });
+    });
+
+    it('should never store the private key of an external Wallet signer', async () => {
+      const delegatee = await createDelegatee(
+        new ethers.Wallet(mockPrivateKey)
+      );
+      await delegatee.setCredentials({ apiKey: 'secret' });
+      delegatee.disconnect();
+
+      expect(getStoredDelegatee()).toEqual({
+        privateKey: '',
+        credentials: { apiKey: 'secret' },
+      });
+      expect(storage.getItem('delegatees')).not.toContain(
+        mockPrivateKey.slice(2)
+      );
+    });
+  });
+
+  describe('executeTools', () => {
+    const pkpEthAddress = '0x9965507D1a55bcC2695C58ba16FB37d819B0A4dc';
+
+    const transferItem = (chainId: string) => ({
+      params: {
+        ipfsId: 'QmTransfer',
+        jsParams: {
+          params: { pkpEthAddress, chainId, rpcUrl: 'http://127.0.0.1:8545' },
+        },
+      },
+    });
+
+    it('should not overlap executions for the same PKP and chain', async () => {
+      const delegatee = await createDelegatee(mockPrivateKey);
+      jest
+        .spyOn(delegatee as any, 'getSessionSignatures')
+        .mockResolvedValue({});
+
+      const executions: string[] = [];
+      let running = 0;
+      let maxRunningOnChain1 = 0;
+      (delegatee as any).litNodeClient.executeJs = jest.fn(
+        async ({ jsParams }) => {
+          const { chainId } = jsParams.params;
+          executions.push(chainId);
+          if (chainId === '1') {
+            running++;
+            maxRunningOnChain1 = Math.max(maxRunningOnChain1, running);
+          }
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          if (chainId === '1') {
+            running--;
+          }
+          return { response: chainId };
+        }
+      );
+
+      const results = await delegatee.executeTools(
+        [transferItem('1'), transferItem('1'), transferItem('137')],
+        { concurrency: 3 }
+      );
+      delegatee.disconnect();
+
+      expect(results).toHaveLength(3);
+      expect(results.every((result) => result.status === 'fulfilled')).toBe(
+        true
+      );
+      expect(maxRunningOnChain1).toBe(1);
+      // The execution on another chain doesn't wait for the PKP's executions on chain 1
+      expect(executions).toEqual(['1', '137', '1']);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { ethers } from 'ethers';
+
+import {
+  addMultisigProposalSignature,
+  createMultisigProposal,
+  encodeMultisigSignatures,
+  executeMultisigProposal,
+  getNextMultisigNonce,
+  isMultisigThresholdMet,
+  loadMultisigProposalsFromStorage,
+  signMultisigTransactionHash,
+} from '../../src/lib/multisig';
+import { AwSignerError, AwSignerErrorType } from '../../src/lib/errors';
+import { MemoryStorage } from '../../src/lib/utils/storage';
+import type { StorageProvider } from '../../src/lib/types';
+
+describe('Multisig', () => {
+  const multisigAddress = '0x1234567890123456789012345678901234567890';
+  const registryAddress = '0x2707eabb60D262024F8738455811a338B0ECd3EC';
+  const ownerA = new ethers.Wallet(
+    '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d'
+  );
+  const ownerB = new ethers.Wallet(
+    '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a'
+  );
+
+  let storage: StorageProvider;
+  let mockMultisigContract: ethers.Contract;
+  let onChainNonce: number;
+  let threshold: number;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+
+    onChainNonce = 0;
+    threshold = 2;
+    mockMultisigContract = {
+      address: multisigAddress,
+      nonce: jest.fn(async () => ethers.BigNumber.from(onChainNonce)),
+      getThreshold: jest.fn(async () => ethers.BigNumber.from(threshold)),
+      getOwners: jest.fn(async () => [ownerA.address, ownerB.address]),
+      getTransactionHash: jest.fn(async (...args: unknown[]) =>
+        ethers.utils.keccak256(ethers.utils.toUtf8Bytes(JSON.stringify(args)))
+      ),
+      execTransaction: jest.fn().mockResolvedValue({
+        wait: jest.fn().mockResolvedValue({
+          status: 1,
+          transactionHash: '0xexecuted',
+        }),
+      }),
+    } as unknown as ethers.Contract;
+  });
+
+  const propose = () =>
+    createMultisigProposal(mockMultisigContract, storage, {
+      to: registryAddress,
+      data: '0x1234',
+      description: 'addDelegatees("1", ["0x0"])',
+    });
+
+  describe('createMultisigProposal', () => {
+    it('should store the proposal with the on-chain nonce', async () => {
+      const proposal = await propose();
+
+      expect(proposal.transaction.nonce).toBe(0);
+      expect(proposal.signatures).toEqual({});
+      expect(
+        loadMultisigProposalsFromStorage(storage, multisigAddress)
+      ).toEqual([proposal]);
+    });
+
+    it('should queue pending proposals with increasing nonces', async () => {
+      await propose();
+      await propose();
+
+      expect(await getNextMultisigNonce(mockMultisigContract, storage)).toBe(2);
+    });
+
+    it('should ignore pending proposals below the on-chain nonce', async () => {
+      await propose();
+      onChainNonce = 5;
+
+      expect(await getNextMultisigNonce(mockMultisigContract, storage)).toBe(5);
+    });
+  });
+
+  describe('addMultisigProposalSignature', () => {
+    it('should add a signature produced by the owner', async () => {
+      const proposal = await propose();
+      const signature = await signMultisigTransactionHash(
+        proposal.safeTxHash,
+        ownerA
+      );
+
+      const signedProposal = addMultisigProposalSignature(
+        storage,
+        proposal,
+        ownerA.address,
+        signature
+      );
+
+      expect(signedProposal.signatures).toEqual({
+        [ownerA.address]: signature,
+      });
+    });
+
+    it('should add an eth_sign signature produced by an external signer', async () => {
+      const proposal = await propose();
+      const externalSigner = new ethers.VoidSigner(ownerA.address);
+      externalSigner.signMessage = (message) => ownerA.signMessage(message);
+
+      const signature = await signMultisigTransactionHash(
+        proposal.safeTxHash,
+        externalSigner
+      );
+      expect(ethers.utils.arrayify(signature)[64]).toBeGreaterThan(30);
+
+      const signedProposal = addMultisigProposalSignature(
+        storage,
+        proposal,
+        ownerA.address,
+        signature
+      );
+
+      expect(signedProposal.signatures).toEqual({
+        [ownerA.address]: signature,
+      });
+    });
+
+    it('should reject a signature produced by another signer', async () => {
+      const proposal = await propose();
+      const signature = await signMultisigTransactionHash(
+        proposal.safeTxHash,
+        ownerB
+      );
+
+      expect(() =>
+        addMultisigProposalSignature(
+          storage,
+          proposal,
+          ownerA.address,
+          signature
+        )
+      ).toThrow(AwSignerError);
+    });
+  });
+
+  describe('encodeMultisigSignatures', () => {
+    it('should concatenate signatures in ascending owner order', () => {
+      const low = '0x0000000000000000000000000000000000000001';
+      const high = '0xfFfFFFFfFFfFFfFFFFFFfFfFFfFFfFFFfFfFffFf';
+      const lowSignature = `0x${'11'.repeat(65)}`;
+      const highSignature = `0x${'22'.repeat(65)}`;
+
+      expect(
+        encodeMultisigSignatures({
+          [high]: highSignature,
+          [low]: lowSignature,
+        })
+      ).toBe(`0x${'11'.repeat(65)}${'22'.repeat(65)}`);
+    });
+  });
+
+  describe('executeMultisigProposal', () => {
+    it('should throw if the threshold is not met', async () => {
+      const pendingProposal = await propose();
+      const proposal = addMultisigProposalSignature(
+        storage,
+        pendingProposal,
+        ownerA.address,
+        await signMultisigTransactionHash(pendingProposal.safeTxHash, ownerA)
+      );
+
+      expect(await isMultisigThresholdMet(mockMultisigContract, proposal)).toBe(
+        false
+      );
+      await expect(
+        executeMultisigProposal(mockMultisigContract, storage, proposal)
+      ).rejects.toMatchObject({
+        type: AwSignerErrorType.ADMIN_MULTISIG_THRESHOLD_NOT_MET,
+      });
+    });
+
+    it('should execute once the threshold is met', async () => {
+      let proposal = await propose();
+      for (const owner of [ownerA, ownerB]) {
+        proposal = addMultisigProposalSignature(
+          storage,
+          proposal,
+          owner.address,
+          await signMultisigTransactionHash(proposal.safeTxHash, owner)
+        );
+      }
+
+      const receipt = await executeMultisigProposal(
+        mockMultisigContract,
+        storage,
+        proposal
+      );
+
+      expect(receipt.transactionHash).toBe('0xexecuted');
+      expect(mockMultisigContract.execTransaction).toHaveBeenCalledWith(
+        registryAddress,
+        '0',
+        '0x1234',
+        0,
+        '0',
+        '0',
+        '0',
+        ethers.constants.AddressZero,
+        ethers.constants.AddressZero,
+        encodeMultisigSignatures(proposal.signatures)
+      );
+      expect(
+        loadMultisigProposalsFromStorage(storage, multisigAddress)[0]
+          .executionTxHash
+      ).toBe('0xexecuted');
+    });
+
+    it('should not execute a proposal twice', async () => {
+      const proposal = { ...(await propose()), executionTxHash: '0xexecuted' };
+
+      await expect(
+        executeMultisigProposal(mockMultisigContract, storage, proposal)
+      ).rejects.toMatchObject({
+        type: AwSignerErrorType.ADMIN_MULTISIG_PROPOSAL_ALREADY_EXECUTED,
+      });
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { ethers } from 'ethers';
+import {
+  getPermittedToolsForDelegatee,
+  PKP_TOOL_REGISTRY_ABI,
+} from '@lit-protocol/aw-contracts-sdk';
+
+import { PermittedToolsCache } from '../../src/lib/utils/permitted-tools-cache';
+
+// The SDK's tool registry requires deployed tools, so only the ABI of the watched events is provided
+jest.mock('@lit-protocol/aw-contracts-sdk', () => ({
+  getPermittedToolsForDelegatee: jest.fn(),
+  PKP_TOOL_REGISTRY_ABI: [
+    'event ToolsRemoved(uint256 indexed pkpTokenId, string[] toolIpfsCids)',
+    'event ToolsEnabled(uint256 indexed pkpTokenId, string[] toolIpfsCids)',
+    'event ToolsDisabled(uint256 indexed pkpTokenId, string[] toolIpfsCids)',
+    'event ToolsPermitted(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees)',
+    'event ToolsUnpermitted(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees)',
+    'event RemovedDelegatees(uint256 indexed pkpTokenId, address[] delegatees)',
+    'event ToolPoliciesSet(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees, string[] policyIpfsCids, bool enablePolicies)',
+    'event ToolPoliciesRemoved(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees)',
+    'event PoliciesEnabled(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees)',
+    'event PoliciesDisabled(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees)',
+    'event BlanketPoliciesSet(uint256 indexed pkpTokenId, string[] toolIpfsCids, string[] policyIpfsCids, bool enablePolicies)',
+    'event BlanketPoliciesRemoved(uint256 indexed pkpTokenId, string[] toolIpfsCids)',
+    'event BlanketPoliciesEnabled(uint256 indexed pkpTokenId, string[] toolIpfsCids)',
+    'event BlanketPoliciesDisabled(uint256 indexed pkpTokenId, string[] toolIpfsCids)',
+  ],
+}));
+
+const mockGetPermittedToolsForDelegatee =
+  getPermittedToolsForDelegatee as jest.MockedFunction<
+    typeof getPermittedToolsForDelegatee
+  >;
+
+const registryInterface = new ethers.utils.Interface(PKP_TOOL_REGISTRY_ABI);
+const registryAddress = '0x2707eabb60D262024F8738455811a338B0ECd3EC';
+const delegatee = '0x1111111111111111111111111111111111111111';
+const otherDelegatee = '0x2222222222222222222222222222222222222222';
+const pkpTokenId = '42';
+const toolIpfsCid = 'QmTool';
+
+const createPermittedTools = (toolIpfsCids: string[]) =>
+  ({
+    toolsWithPolicies: {},
+    toolsWithoutPolicies: {},
+    toolsUnknownWithPolicies: {},
+    toolsUnknownWithoutPolicies: toolIpfsCids.map((cid) => ({
+      toolIpfsCid: cid,
+      toolEnabled: true,
+      delegatee,
+    })),
+  } as Awaited<ReturnType<typeof getPermittedToolsForDelegatee>>);
+
+const createLog = (eventName: string, values: unknown[]) => ({
+  ...registryInterface.encodeEventLog(registryInterface.getEvent(eventName), [
+    pkpTokenId,
+    ...values,
+  ]),
+  address: registryAddress,
+  blockNumber: 1,
+  transactionHash: ethers.constants.HashZero,
+});
+
+describe('PermittedToolsCache', () => {
+  let provider: { on: jest.Mock; off: jest.Mock };
+  let cache: PermittedToolsCache;
+
+  const emit = (eventName: string, values: unknown[]) => {
+    const [, listener] = provider.on.mock.calls[0];
+    listener(createLog(eventName, values));
+  };
+
+  beforeEach(() => {
+    provider = { on: jest.fn(), off: jest.fn() };
+    cache = new PermittedToolsCache(
+      { address: registryAddress, provider } as unknown as ethers.Contract,
+      delegatee
+    );
+    mockGetPermittedToolsForDelegatee.mockReset();
+    mockGetPermittedToolsForDelegatee.mockResolvedValue(
+      createPermittedTools([toolIpfsCid])
+    );
+  });
+
+  it('should fetch the permitted tools of a PKP once', async () => {
+    await cache.get(pkpTokenId);
+    await cache.get(pkpTokenId);
+
+    expect(mockGetPermittedToolsForDelegatee).toHaveBeenCalledTimes(1);
+    expect(provider.on).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refetch and notify listeners when the delegatee is unpermitted', async () => {
+    const listener = jest.fn();
+    cache.addListener(pkpTokenId, listener);
+    await cache.get(pkpTokenId);
+
+    emit('ToolsUnpermitted', [[toolIpfsCid], [delegatee]]);
+    await cache.get(pkpTokenId);
+
+    expect(mockGetPermittedToolsForDelegatee).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledWith({
+      pkpTokenId,
+      event: 'ToolsUnpermitted',
+      toolIpfsCids: [toolIpfsCid],
+      blockNumber: 1,
+      transactionHash: ethers.constants.HashZero,
+    });
+  });
+
+  it('should ignore changes to other delegatees and tools', async () => {
+    const listener = jest.fn();
+    cache.addListener(pkpTokenId, listener);
+    await cache.get(pkpTokenId);
+
+    emit('PoliciesDisabled', [[toolIpfsCid], [otherDelegatee]]);
+    emit('ToolsDisabled', [['QmOtherTool']]);
+    await cache.get(pkpTokenId);
+
+    expect(mockGetPermittedToolsForDelegatee).toHaveBeenCalledTimes(1);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should notify listeners when a permitted tool is disabled', async () => {
+    const listener = jest.fn();
+    cache.addListener(pkpTokenId, listener);
+    await cache.get(pkpTokenId);
+
+    emit('ToolsDisabled', [[toolIpfsCid, 'QmOtherTool']]);
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: 'ToolsDisabled',
+        toolIpfsCids: [toolIpfsCid],
+      })
+    );
+  });
+
+  it('should refetch and notify listeners when the blanket policy of a permitted tool changes', async () => {
+    const listener = jest.fn();
+    cache.addListener(pkpTokenId, listener);
+    await cache.get(pkpTokenId);
+
+    emit('BlanketPoliciesSet', [[toolIpfsCid], ['QmPolicy'], true]);
+    emit('BlanketPoliciesDisabled', [['QmOtherTool']]);
+    await cache.get(pkpTokenId);
+
+    expect(mockGetPermittedToolsForDelegatee).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: 'BlanketPoliciesSet',
+        toolIpfsCids: [toolIpfsCid],
+      })
+    );
+  });
+
+  it('should notify listeners when the delegatee is removed', async () => {
+    const listener = jest.fn();
+    const removeListener = cache.addListener(pkpTokenId, listener);
+    await cache.get(pkpTokenId);
+
+    emit('RemovedDelegatees', [[delegatee]]);
+    removeListener();
+    emit('RemovedDelegatees', [[delegatee]]);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'RemovedDelegatees', toolIpfsCids: [] })
+    );
+  });
+
+  it('should unsubscribe from the registry when disposed', async () => {
+    await cache.get(pkpTokenId);
+    cache.dispose();
+
+    expect(provider.off).toHaveBeenCalledWith(...provider.on.mock.calls[0]);
+  });
+});
@@ -0,0 +1,130 @@
+import type { SessionSigsMap } from '@lit-protocol/types';
+
+import {
+  InvalidSessionSigs,
+  NodeError,
+  NetworkError,
+} from '@lit-protocol/constants';
+
+import {
+  getSessionCacheKey,
+  isSessionError,
+  SessionSignatureCache,
+} from '../../src/lib/utils/session-cache';
+
+const createSessionSignatures = (signedMessage = 'session') =>
+  Promise.resolve({
+    'https://node.example': {
+      sig: '0x',
+      derivedVia: 'litSessionSignViaNacl',
+      signedMessage,
+      address: '0x',
+    },
+  } as SessionSigsMap);
+
+describe('getSessionCacheKey', () => {
+  const resourceAbilities = [
+    { resourceKey: 'lit-litaction://*', ability: 'lit-action-execution' },
+    { resourceKey: 'lit-pkp://*', ability: 'pkp-signing' },
+  ];
+
+  it('should not depend on the order of the resource abilities', () => {
+    expect(getSessionCacheKey(resourceAbilities, '1', 600_000)).toBe(
+      getSessionCacheKey([...resourceAbilities].reverse(), '1', 600_000)
+    );
+  });
+
+  it('should differ by resource abilities, capacity credit and expiration', () => {
+    const key = getSessionCacheKey(resourceAbilities, '1', 600_000);
+
+    expect(getSessionCacheKey(resourceAbilities, '2', 600_000)).not.toBe(key);
+    expect(getSessionCacheKey(resourceAbilities, null, 600_000)).not.toBe(key);
+    expect(
+      getSessionCacheKey(resourceAbilities.slice(0, 1), '1', 600_000)
+    ).not.toBe(key);
+    expect(getSessionCacheKey(resourceAbilities, '1', 1_800_000)).not.toBe(key);
+  });
+});
+
+describe('isSessionError', () => {
+  const nodeError = (errorCode: string) =>
+    new NodeError(
+      { info: { errorCode }, cause: new Error(errorCode) },
+      'There was an error getting the signing shares from the nodes'
+    );
+
+  it('should detect sessions rejected by the SDK or the nodes', () => {
+    expect(
+      isSessionError(new InvalidSessionSigs({}, 'Invalid sessionSigs'))
+    ).toBe(true);
+    expect(isSessionError(nodeError('NodeNotAuthorized'))).toBe(true);
+    expect(isSessionError(nodeError('NodeInvalidAuthSig'))).toBe(true);
+    expect(isSessionError(nodeError('rate_limit_exceeded'))).toBe(true);
+  });
+
+  it('should not detect errors of the Lit Action or the network', () => {
+    expect(isSessionError(nodeError('NodeJsExecutionError'))).toBe(false);
+    expect(isSessionError(new NetworkError({}, 'Node unreachable'))).toBe(
+      false
+    );
+    expect(isSessionError(new Error('Lit Action failed'))).toBe(false);
+  });
+});
+
+describe('SessionSignatureCache', () => {
+  const refreshMarginMs = 60_000;
+  let cache: SessionSignatureCache;
+
+  beforeEach(() => {
+    cache = new SessionSignatureCache(refreshMarginMs);
+  });
+
+  it('should reuse a cached session', async () => {
+    const sessionSignatures = createSessionSignatures();
+    cache.set('key', sessionSignatures, Date.now() + 600_000, 10);
+
+    expect(cache.reserve('key', 1)).toBe(sessionSignatures);
+    expect(cache.reserve('other-key', 1)).toBeUndefined();
+  });
+
+  it('should not reuse a session about to expire', () => {
+    const now = Date.now();
+    cache.set('key', createSessionSignatures(), now + 600_000, 10);
+
+    expect(
+      cache.reserve('key', 1, now + 600_000 - refreshMarginMs - 1)
+    ).toBeDefined();
+    expect(
+      cache.reserve('key', 1, now + 600_000 - refreshMarginMs)
+    ).toBeUndefined();
+  });
+
+  it('should not reuse a session without enough uses left', () => {
+    cache.set('key', createSessionSignatures(), Date.now() + 600_000, 3);
+
+    expect(cache.reserve('key', 2)).toBeDefined();
+    expect(cache.reserve('key', 2)).toBeUndefined();
+    expect(cache.reserve('key', 1)).toBeDefined();
+    expect(cache.reserve('key', 1)).toBeUndefined();
+  });
+
+  it('should remove a session whose signatures fail to be created', async () => {
+    const sessionSignatures = Promise.reject(new Error('Node unreachable'));
+    cache.set('key', sessionSignatures, Date.now() + 600_000, 10);
+
+    await expect(sessionSignatures).rejects.toThrow('Node unreachable');
+    expect(cache.reserve('key', 1)).toBeUndefined();
+  });
+
+  it('should remove invalidated sessions', () => {
+    cache.set('key', createSessionSignatures(), Date.now() + 600_000, 10);
+    cache.set('other-key', createSessionSignatures(), Date.now() + 600_000, 10);
+
+    cache.invalidate('key');
+    expect(cache.reserve('key', 1)).toBeUndefined();
+    expect(cache.reserve('other-key', 1)).toBeDefined();
+
+    cache.invalidate();
+    expect(cache.reserve('other-key', 1)).toBeUndefined();
+  });
+});
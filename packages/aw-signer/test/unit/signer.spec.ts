@@ -0,0 +1,57 @@
+import { ethers } from 'ethers';
+
+import { connectSignerToRegistry } from '../../src/lib/utils/signer';
+import { AwSignerErrorType } from '../../src/lib/errors';
+
+describe('connectSignerToRegistry', () => {
+  const registryRpcUrl = 'http://127.0.0.1:8545';
+
+  beforeEach(() => {
+    jest
+      .spyOn(ethers.providers.JsonRpcProvider.prototype, 'getNetwork')
+      .mockResolvedValue({ chainId: 31337, name: 'anvil' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createExternalSigner = (chainId: number) => {
+    const signer = new ethers.VoidSigner(ethers.constants.AddressZero);
+    jest.spyOn(signer, 'getChainId').mockResolvedValue(chainId);
+    return signer;
+  };
+
+  it("should reconnect wallets to the registry's RPC", async () => {
+    const wallet = ethers.Wallet.createRandom();
+
+    const registrySigner = await connectSignerToRegistry(
+      wallet,
+      registryRpcUrl
+    );
+
+    expect(registrySigner).toBeInstanceOf(ethers.Wallet);
+    expect(
+      (registrySigner.provider as ethers.providers.JsonRpcProvider).connection
+        .url
+    ).toBe(registryRpcUrl);
+  });
+
+  it("should use external signers on the registry's chain as-is", async () => {
+    const signer = createExternalSigner(31337);
+
+    await expect(connectSignerToRegistry(signer, registryRpcUrl)).resolves.toBe(
+      signer
+    );
+  });
+
+  it("should reject external signers on another chain than the registry's", async () => {
+    await expect(
+      connectSignerToRegistry(createExternalSigner(175188), registryRpcUrl)
+    ).rejects.toMatchObject({
+      type: AwSignerErrorType.SIGNER_REGISTRY_CHAIN_MISMATCH,
+      message:
+        'The signer is connected to chain 175188, but the PKP Tool Registry is deployed to chain 31337',
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import {
+  EncryptedFileStorage,
+  LocalStorage,
+  MemoryStorage,
+  createStorageProvider,
+  migrateStorage,
+} from '../../src/lib/utils/storage';
+import { AwSignerError, AwSignerErrorType } from '../../src/lib/errors';
+
+describe('Storage', () => {
+  const passphrase = 'correct horse battery staple';
+  const adminData = JSON.stringify({
+    '0x1234567890123456789012345678901234567890': {
+      privateKey: '0xdeadbeef',
+      pkps: [],
+      wrappedKeys: [],
+    },
+  });
+
+  let storageDir: string;
+
+  beforeEach(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aw-signer-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  const readStorageFiles = () =>
+    fs
+      .readdirSync(storageDir)
+      .map((file) => fs.readFileSync(path.join(storageDir, file), 'utf8'))
+      .join('\n');
+
+  describe('MemoryStorage', () => {
+    it('should store, list and remove items', () => {
+      const storage = new MemoryStorage();
+      storage.setItem('admins', adminData);
+
+      expect(storage.getItem('admins')).toBe(adminData);
+      expect(storage.keys()).toEqual(['admins']);
+
+      storage.removeItem('admins');
+      expect(storage.getItem('admins')).toBeNull();
+    });
+  });
+
+  describe('EncryptedFileStorage', () => {
+    it('should round-trip items without writing them in plaintext', () => {
+      const storage = new EncryptedFileStorage(storageDir, passphrase);
+      storage.setItem('admins', adminData);
+
+      expect(storage.getItem('admins')).toBe(adminData);
+      expect(storage.keys()).toEqual(['admins']);
+      expect(readStorageFiles()).not.toContain('0xdeadbeef');
+    });
+
+    it('should reopen the storage with the same passphrase', () => {
+      new EncryptedFileStorage(storageDir, passphrase).setItem(
+        'admins',
+        adminData
+      );
+
+      expect(
+        new EncryptedFileStorage(storageDir, passphrase).getItem('admins')
+      ).toBe(adminData);
+    });
+
+    it('should reject an invalid passphrase', () => {
+      new EncryptedFileStorage(storageDir, passphrase).setItem(
+        'admins',
+        adminData
+      );
+
+      expect(() => new EncryptedFileStorage(storageDir, 'wrong')).toThrow(
+        AwSignerError
+      );
+    });
+
+    it('should refuse to read plaintext items until migrated', () => {
+      new LocalStorage(storageDir).setItem('admins', adminData);
+
+      const storage = new EncryptedFileStorage(storageDir, passphrase);
+      expect(() => storage.getItem('admins')).toThrow(
+        expect.objectContaining({
+          type: AwSignerErrorType.STORAGE_ITEM_NOT_ENCRYPTED,
+        })
+      );
+    });
+
+    it('should migrate existing plaintext storage in place', () => {
+      new LocalStorage(storageDir).setItem('admins', adminData);
+
+      const { storage, migratedKeys } = EncryptedFileStorage.migrate(
+        storageDir,
+        passphrase
+      );
+
+      expect(migratedKeys).toEqual(['admins']);
+      expect(storage.getItem('admins')).toBe(adminData);
+      expect(readStorageFiles()).not.toContain('0xdeadbeef');
+      expect(
+        EncryptedFileStorage.migrate(storageDir, passphrase).migratedKeys
+      ).toEqual([]);
+    });
+  });
+
+  describe('migrateStorage', () => {
+    it('should copy all items between providers', () => {
+      const source = new MemoryStorage();
+      source.setItem('admins', adminData);
+      source.setItem('wks', '[]');
+      const target = new EncryptedFileStorage(storageDir, passphrase);
+
+      expect(migrateStorage(source, target).sort()).toEqual(['admins', 'wks']);
+      expect(target.getItem('admins')).toBe(adminData);
+      expect(target.getItem('wks')).toBe('[]');
+    });
+  });
+
+  describe('createStorageProvider', () => {
+    it('should select the configured backend', () => {
+      expect(
+        createStorageProvider({ type: 'memory' }, storageDir)
+      ).toBeInstanceOf(MemoryStorage);
+      expect(
+        createStorageProvider(
+          { type: 'encrypted-file', passphrase },
+          storageDir
+        )
+      ).toBeInstanceOf(EncryptedFileStorage);
+      expect(createStorageProvider(undefined, storageDir)).toBeInstanceOf(
+        LocalStorage
+      );
+    });
+  });
+});
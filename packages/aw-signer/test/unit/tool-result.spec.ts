@@ -0,0 +1,204 @@
+import type { AwTool } from '@lit-protocol/aw-tool';
+import type { ExecuteJsResponse } from '@lit-protocol/types';
+
+import {
+  parseToolResult,
+  parseToolSimulationResult,
+} from '../../src/lib/utils/tool-result';
+import { AwSignerErrorType, ToolExecutionError } from '../../src/lib/errors';
+
+type MockTransferResult = { status: 'success'; transferHash: string };
+
+const createResponse = (
+  response: string | object,
+  logs = 'Using Lit Network: datil-dev'
+) =>
+  ({
+    success: true,
+    signedData: {},
+    decryptedData: {},
+    claimData: {},
+    response,
+    logs,
+  } as unknown as ExecuteJsResponse);
+
+describe('parseToolResult', () => {
+  const mockTool = {
+    name: 'MockTransfer',
+    result: {
+      type: {} as MockTransferResult,
+      schema: {
+        safeParse: jest.fn((value: any) =>
+          value?.status === 'success' && typeof value.transferHash === 'string'
+            ? { success: true, data: value }
+            : {
+                success: false,
+                error: {
+                  issues: [{ path: ['transferHash'], message: 'Required' }],
+                },
+              }
+        ),
+      },
+    },
+  } as unknown as AwTool<any, any, MockTransferResult>;
+
+  it('should parse and validate a successful result', () => {
+    const rawResponse = createResponse(
+      JSON.stringify({ status: 'success', transferHash: '0x1234' })
+    );
+
+    expect(parseToolResult(mockTool, rawResponse)).toEqual({
+      result: { status: 'success', transferHash: '0x1234' },
+      logs: 'Using Lit Network: datil-dev',
+      rawResponse,
+    });
+  });
+
+  it('should accept responses that are already objects', () => {
+    const { result } = parseToolResult(
+      mockTool,
+      createResponse({ status: 'success', transferHash: '0x1234' })
+    );
+
+    expect(result.transferHash).toBe('0x1234');
+  });
+
+  it('should throw a ToolExecutionError when the tool reports an error', () => {
+    const rawResponse = createResponse(
+      JSON.stringify({
+        status: 'error',
+        error: 'insufficient funds',
+        details: { code: 'INSUFFICIENT_FUNDS' },
+      }),
+      'Error: insufficient funds'
+    );
+
+    expect(() => parseToolResult(mockTool, rawResponse)).toThrow(
+      ToolExecutionError
+    );
+    expect(() => parseToolResult(mockTool, rawResponse)).toThrow(
+      expect.objectContaining({
+        type: AwSignerErrorType.TOOL_EXECUTION_FAILED,
+        toolName: 'MockTransfer',
+        logs: 'Error: insufficient funds',
+        details: { details: { code: 'INSUFFICIENT_FUNDS' } },
+      })
+    );
+  });
+
+  it('should throw a ToolExecutionError when the result does not match the schema', () => {
+    expect(() =>
+      parseToolResult(
+        mockTool,
+        createResponse(JSON.stringify({ status: 'success' }))
+      )
+    ).toThrow(
+      expect.objectContaining({
+        type: AwSignerErrorType.TOOL_INVALID_RESULT,
+      })
+    );
+  });
+
+  it('should throw a ToolExecutionError when the response is not JSON', () => {
+    expect(() =>
+      parseToolResult(mockTool, createResponse('Signed message!'))
+    ).toThrow(
+      expect.objectContaining({
+        type: AwSignerErrorType.TOOL_INVALID_RESULT,
+      })
+    );
+  });
+
+  it('should only check the status of tools without a result configuration', () => {
+    const toolWithoutResult = { name: 'ThirdParty' } as unknown as AwTool<
+      any,
+      any
+    >;
+
+    expect(
+      parseToolResult(
+        toolWithoutResult,
+        createResponse({ status: 'success', signature: '0x1234' })
+      ).result
+    ).toEqual({ status: 'success', signature: '0x1234' });
+    expect(() =>
+      parseToolResult(toolWithoutResult, createResponse({ signed: true }))
+    ).toThrow(
+      expect.objectContaining({
+        type: AwSignerErrorType.TOOL_INVALID_RESULT,
+      })
+    );
+  });
+});
+
+describe('parseToolSimulationResult', () => {
+  const mockTool = { name: 'MockTransfer' } as unknown as AwTool<any, any>;
+
+  it('should parse a passing simulation', () => {
+    const report = parseToolSimulationResult(
+      mockTool,
+      createResponse(
+        JSON.stringify({
+          status: 'simulated',
+          passed: true,
+          policyIpfsCid: 'QmPolicy',
+          preflight: { gasLimit: '60000' },
+        })
+      )
+    );
+
+    expect(report).toEqual({
+      status: 'simulated',
+      passed: true,
+      policyIpfsCid: 'QmPolicy',
+      preflight: { gasLimit: '60000' },
+      logs: 'Using Lit Network: datil-dev',
+    });
+  });
+
+  it('should parse a simulation rejected by the policy', () => {
+    const report = parseToolSimulationResult(
+      mockTool,
+      createResponse({
+        status: 'simulated',
+        passed: false,
+        stage: 'policy',
+        error: 'Amount 2.0 exceeds the maximum amount 1.0',
+      })
+    );
+
+    expect(report).toEqual(
+      expect.objectContaining({
+        passed: false,
+        stage: 'policy',
+        error: 'Amount 2.0 exceeds the maximum amount 1.0',
+      })
+    );
+  });
+
+  it('should throw a ToolExecutionError when the tool reports an error', () => {
+    expect(() =>
+      parseToolSimulationResult(
+        mockTool,
+        createResponse({ status: 'error', error: 'Invalid PKP' })
+      )
+    ).toThrow(
+      expect.objectContaining({
+        type: AwSignerErrorType.TOOL_EXECUTION_FAILED,
+      })
+    );
+  });
+
+  it('should throw a ToolExecutionError when the tool does not support simulations', () => {
+    expect(() =>
+      parseToolSimulationResult(
+        mockTool,
+        createResponse({ status: 'success', transferHash: '0x1234' })
+      )
+    ).toThrow(
+      expect.objectContaining({
+        type: AwSignerErrorType.TOOL_INVALID_RESULT,
+      })
+    );
+  });
+});
@@ -0,0 +1 @@
+export { CancelTransaction } from './lib/tool';
@@ -0,0 +1,99 @@
+import {
+  checkGasFeeCeiling,
+  checkLitAuthAddressIsDelegatee,
+  getPolicyParameters,
+  getPkpToolRegistryContract,
+} from '@lit-protocol/aw-tool';
+
+declare global {
+  // Required Inputs
+  const parentToolIpfsCid: string;
+  const pkpToolRegistryContractAddress: string;
+  const pkpTokenId: string;
+  const delegateeAddress: string;
+  const replacementInfo: {
+    txHash: string;
+    nonce: number;
+    maxFeePerGas: string;
+    maxPriorityFeePerGas: string;
+  };
+  const gasInfo: {
+    maxFeePerGas: string;
+    gasLimit: string;
+  };
+}
+
+(async () => {
+  const pkpToolRegistryContract = await getPkpToolRegistryContract(
+    pkpToolRegistryContractAddress
+  );
+
+  const isDelegatee = await checkLitAuthAddressIsDelegatee(
+    pkpToolRegistryContract,
+    pkpTokenId
+  );
+  if (!isDelegatee) {
+    throw new Error(
+      `Session signer ${ethers.utils.getAddress(
+        LitAuth.authSigAddress
+      )} is not a delegatee for PKP ${pkpTokenId}`
+    );
+  }
+
+  const policyParameters = await getPolicyParameters(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    ['maxFeePerGas']
+  );
+
+  let maxFeePerGas: any;
+
+  console.log(
+    `Retrieved policy parameters: ${JSON.stringify(policyParameters)}`
+  );
+
+  for (const parameter of policyParameters) {
+    const value = ethers.utils.toUtf8String(parameter.value);
+
+    switch (parameter.name) {
+      case 'maxFeePerGas':
+        maxFeePerGas = ethers.BigNumber.from(value);
+        console.log(`Formatted maxFeePerGas: ${maxFeePerGas.toString()}`);
+        break;
+    }
+  }
+
+  const feeBN = ethers.BigNumber.from(replacementInfo.maxFeePerGas);
+
+  if (maxFeePerGas !== undefined) {
+    console.log(
+      `Checking if the max fee per gas ${feeBN.toString()} of the cancellation of ${
+        replacementInfo.txHash
+      } exceeds maxFeePerGas ${maxFeePerGas.toString()}...`
+    );
+
+    if (feeBN.gt(maxFeePerGas)) {
+      throw new Error(
+        `Max fee per gas ${ethers.utils.formatUnits(
+          feeBN,
+          'gwei'
+        )} gwei exceeds the maximum of ${ethers.utils.formatUnits(
+          maxFeePerGas,
+          'gwei'
+        )} gwei`
+      );
+    }
+  }
+
+  await checkGasFeeCeiling(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    gasInfo
+  );
+
+  console.log('Policy parameters validated');
+})();
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { ethers } from 'ethers';
+
+/**
+ * Schema for validating a cancel transaction policy.
+ * @type {z.ZodObject}
+ */
+const policySchema = z.object({
+  type: z.literal('CancelTransaction'), // Policy type must be 'CancelTransaction'
+  version: z.string(), // Version of the policy
+  maxFeePerGas: z.string().refine(
+    (val) => {
+      try {
+        const bn = ethers.BigNumber.from(val);
+        return !bn.isNegative(); // Ensure the fee is non-negative
+      } catch {
+        return false; // Invalid format
+      }
+    },
+    { message: 'Invalid fee format. Must be a non-negative integer.' }
+  ), // Maximum fee per gas of a cancellation transaction, in wei
+});
+
+/**
+ * Encodes a cancel transaction policy into a packed ABI-encoded string.
+ * @param {CancelTransactionPolicyType} policy - The policy to encode.
+ * @returns {string} ABI-encoded string representing the policy.
+ * @throws {z.ZodError} If the policy does not match the schema.
+ */
+function encodePolicy(policy: CancelTransactionPolicyType): string {
+  // Validate the policy against the schema
+  policySchema.parse(policy);
+
+  // Encode the policy using ABI encoding
+  return ethers.utils.defaultAbiCoder.encode(
+    ['tuple(uint256 maxFeePerGas)'],
+    [
+      {
+        maxFeePerGas: policy.maxFeePerGas,
+      },
+    ]
+  );
+}
+
+/**
+ * Decodes an ABI-encoded string into a cancel transaction policy.
+ * @param {string} encodedPolicy - The ABI-encoded policy string.
+ * @returns {CancelTransactionPolicyType} The decoded policy object.
+ * @throws {z.ZodError} If the decoded policy does not match the schema.
+ */
+function decodePolicy(encodedPolicy: string): CancelTransactionPolicyType {
+  // Decode the ABI-encoded string
+  const decoded = ethers.utils.defaultAbiCoder.decode(
+    ['tuple(uint256 maxFeePerGas)'],
+    encodedPolicy
+  )[0];
+
+  // Construct the policy object
+  const policy: CancelTransactionPolicyType = {
+    type: 'CancelTransaction',
+    version: '1.0.0',
+    maxFeePerGas: decoded.maxFeePerGas.toString(),
+  };
+
+  // Validate the decoded policy against the schema
+  return policySchema.parse(policy);
+}
+
+/**
+ * Type representing a cancel transaction policy.
+ * @typedef {z.infer<typeof policySchema>} CancelTransactionPolicyType
+ */
+export type CancelTransactionPolicyType = z.infer<typeof policySchema>;
+
+/**
+ * Utility object for working with cancel transaction policies.
+ * @type {object}
+ * @property {CancelTransactionPolicyType} type - Type placeholder for the policy.
+ * @property {string} version - Version of the policy schema.
+ * @property {z.ZodObject} schema - Zod schema for validating policies.
+ * @property {function} encode - Function to encode a policy into an ABI-encoded string.
+ * @property {function} decode - Function to decode an ABI-encoded string into a policy.
+ */
+export const CancelTransactionPolicy = {
+  type: {} as CancelTransactionPolicyType, // Placeholder for the policy type
+  version: '1.0.0', // Version of the policy schema
+  schema: policySchema, // Zod schema for validation
+  encode: encodePolicy, // Function to encode a policy
+  decode: decodePolicy, // Function to decode a policy
+};
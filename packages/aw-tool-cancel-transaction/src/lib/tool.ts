@@ -0,0 +1,174 @@
+import { z } from 'zod';
+import {
+  type AwTool,
+  type SupportedLitNetwork,
+  NETWORK_CONFIGS,
+  NetworkConfig,
+} from '@lit-protocol/aw-tool';
+
+import {
+  CancelTransactionPolicy,
+  type CancelTransactionPolicyType,
+} from './policy';
+import { IPFS_CIDS } from './ipfs';
+
+/**
+ * Parameters required for the Cancel Transaction Lit Action.
+ * @property {string} pkpEthAddress - The Ethereum address of the PKP.
+ * @property {string} txHash - The hash of the pending transaction to cancel.
+ * @property {string} chainId - The ID of the blockchain network.
+ * @property {string} rpcUrl - The RPC URL of the blockchain network.
+ * @property {string} [feeBumpPercent] - The percentage to bump the fees of the pending transaction by, defaults to 10.
+ */
+interface CancelTransactionLitActionParameters {
+  pkpEthAddress: string;
+  txHash: string;
+  chainId: string;
+  rpcUrl: string;
+  feeBumpPercent?: string;
+}
+
+/**
+ * Zod schema for validating CancelTransactionLitActionParameters.
+ * @type {z.ZodObject}
+ */
+const CancelTransactionLitActionSchema = z.object({
+  pkpEthAddress: z
+    .string()
+    .regex(
+      /^0x[a-fA-F0-9]{40}$/,
+      'Must be a valid Ethereum address (0x followed by 40 hexadecimal characters)'
+    ),
+  txHash: z
+    .string()
+    .regex(
+      /^0x[a-fA-F0-9]{64}$/,
+      'Must be a valid transaction hash (0x followed by 64 hexadecimal characters)'
+    ),
+  chainId: z
+    .string()
+    .regex(/^\d+$/, 'Must be a valid chain ID number as a string'),
+  rpcUrl: z
+    .string()
+    .url()
+    .startsWith(
+      'https://',
+      'Must be a valid HTTPS URL for the blockchain RPC endpoint'
+    ),
+  feeBumpPercent: z
+    .string()
+    .regex(/^\d+$/, 'Must be a whole number of percent as a string')
+    .refine((val) => Number(val) >= 10, {
+      message: 'Must be at least 10 percent, the minimum bump nodes accept',
+    })
+    .or(z.literal(''))
+    .optional(),
+});
+
+/**
+ * Descriptions of each parameter for the Cancel Transaction Lit Action.
+ * These descriptions are designed to be consumed by LLMs to understand the required parameters.
+ * @type {Record<string, string>}
+ */
+const CancelTransactionLitActionParameterDescriptions = {
+  pkpEthAddress:
+    'The Ethereum address of the PKP that sent the pending transaction, and will sign the cancellation.',
+  txHash:
+    'The hash of the pending transaction to cancel. Must be a valid transaction hash starting with 0x.',
+  chainId:
+    'The ID of the blockchain network the pending transaction was sent on (e.g. 1 for Ethereum mainnet, 84532 for Base Sepolia).',
+  rpcUrl:
+    'The RPC URL of the blockchain network to connect to (e.g. "https://base-sepolia-rpc.publicnode.com").',
+  feeBumpPercent:
+    'The percentage to bump the fees of the pending transaction by, as a whole number string of at least 10 (e.g. "25"). Leave empty for 10 percent.',
+} as const;
+
+/**
+ * Validates the provided parameters against the CancelTransactionLitActionSchema.
+ * @param {unknown} params - The parameters to validate.
+ * @returns {true | Array<{ param: string; error: string }>} - Returns `true` if valid, otherwise an array of errors.
+ */
+const validateCancelTransactionParameters = (
+  params: unknown
+): true | Array<{ param: string; error: string }> => {
+  const result = CancelTransactionLitActionSchema.safeParse(params);
+  if (result.success) {
+    return true;
+  }
+
+  return result.error.issues.map((issue) => ({
+    param: issue.path[0] as string,
+    error: issue.message,
+  }));
+};
+
+/**
+ * Result of a successful Cancel Transaction Lit Action execution.
+ * @property {'success'} status - The status of the execution.
+ * @property {string} cancellationHash - The hash of the transaction replacing the cancelled one.
+ */
+interface CancelTransactionLitActionResult {
+  status: 'success';
+  cancellationHash: string;
+}
+
+/**
+ * Zod schema for validating CancelTransactionLitActionResult.
+ * @type {z.ZodObject}
+ */
+const CancelTransactionLitActionResultSchema = z.object({
+  status: z.literal('success'),
+  cancellationHash: z.string(),
+});
+
+/**
+ * Creates a network-specific CancelTransaction tool.
+ * @param {SupportedLitNetwork} network - The Lit network to use.
+ * @param {NetworkConfig} config - The configuration for the network.
+ * @returns {AwTool<CancelTransactionLitActionParameters, CancelTransactionPolicyType, CancelTransactionLitActionResult>} - The configured AwTool instance.
+ */
+const createNetworkTool = (
+  network: SupportedLitNetwork,
+  config: NetworkConfig
+): AwTool<
+  CancelTransactionLitActionParameters,
+  CancelTransactionPolicyType,
+  CancelTransactionLitActionResult
+> => ({
+  name: 'CancelTransaction',
+  description: `A Lit Action that cancels a pending transaction of the PKP, by replacing it with an empty transaction to itself with bumped EIP-1559 fees.`,
+  ipfsCid: IPFS_CIDS[network].tool,
+  defaultPolicyIpfsCid: IPFS_CIDS[network].defaultPolicy,
+  chain: 'ethereum',
+  transactionHashKeys: ['cancellationHash'],
+  parameters: {
+    type: {} as CancelTransactionLitActionParameters,
+    schema: CancelTransactionLitActionSchema,
+    descriptions: CancelTransactionLitActionParameterDescriptions,
+    validate: validateCancelTransactionParameters,
+  },
+  policy: CancelTransactionPolicy,
+  result: {
+    type: {} as CancelTransactionLitActionResult,
+    schema: CancelTransactionLitActionResultSchema,
+  },
+});
+
+/**
+ * A collection of network-specific CancelTransaction tools.
+ * @type {Record<SupportedLitNetwork, AwTool<CancelTransactionLitActionParameters, CancelTransactionPolicyType, CancelTransactionLitActionResult>>}
+ */
+export const CancelTransaction = Object.entries(NETWORK_CONFIGS).reduce(
+  (acc, [network, config]) => ({
+    ...acc,
+    [network]: createNetworkTool(network as SupportedLitNetwork, config),
+  }),
+  {} as Record<
+    SupportedLitNetwork,
+    AwTool<
+      CancelTransactionLitActionParameters,
+      CancelTransactionPolicyType,
+      CancelTransactionLitActionResult
+    >
+  >
+);
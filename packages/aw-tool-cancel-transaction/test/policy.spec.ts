@@ -0,0 +1,113 @@
+import { ethers } from 'ethers';
+
+import {
+  CancelTransactionPolicy,
+  CancelTransactionPolicyType,
+} from '../src/lib/policy';
+
+describe('CancelTransactionPolicy', () => {
+  const validPolicy: CancelTransactionPolicyType = {
+    type: 'CancelTransaction',
+    version: '1.0.0',
+    maxFeePerGas: ethers.utils.parseUnits('100', 'gwei').toString(), // 100 gwei in wei
+  };
+
+  describe('CancelTransactionPolicy.schema', () => {
+    it('should validate a correct policy', () => {
+      const result = CancelTransactionPolicy.schema.safeParse(validPolicy);
+      expect(result.success).toBe(true);
+    });
+
+    describe('maxFeePerGas validation', () => {
+      it('should accept valid BigNumber strings', () => {
+        const validFees = [
+          '100000000000', // 100 gwei in wei
+          '0',
+          ethers.constants.MaxUint256.toString(),
+        ];
+
+        validFees.forEach((maxFeePerGas) => {
+          const result = CancelTransactionPolicy.schema.safeParse({
+            ...validPolicy,
+            maxFeePerGas,
+          });
+          expect(result.success).toBe(true);
+        });
+      });
+
+      it('should reject invalid fees', () => {
+        const invalidFees = [
+          'abc', // not a number
+          '1.5', // No decimals allowed in wei
+          '',
+          null as any,
+          undefined as any,
+          '0xZ', // invalid hex
+        ];
+
+        invalidFees.forEach((maxFeePerGas) => {
+          const result = CancelTransactionPolicy.schema.safeParse({
+            ...validPolicy,
+            maxFeePerGas,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+
+      it('should reject negative numbers', () => {
+        const result = CancelTransactionPolicy.schema.safeParse({
+          ...validPolicy,
+          maxFeePerGas: '-1',
+        });
+        expect(result.success).toBe(false);
+
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe(
+            'Invalid fee format. Must be a non-negative integer.'
+          );
+        }
+      });
+    });
+  });
+
+  describe('CancelTransactionPolicy.encode', () => {
+    it('should encode a valid policy', () => {
+      const encoded = CancelTransactionPolicy.encode(validPolicy);
+      expect(typeof encoded).toBe('string');
+      expect(encoded.startsWith('0x')).toBe(true);
+    });
+
+    it('should throw on invalid policy', () => {
+      expect(() => {
+        CancelTransactionPolicy.encode({
+          ...validPolicy,
+          maxFeePerGas: 'invalid',
+        });
+      }).toThrow();
+    });
+  });
+
+  describe('CancelTransactionPolicy.decode', () => {
+    it('should throw on invalid encoded data', () => {
+      expect(() => {
+        CancelTransactionPolicy.decode('0x1234');
+      }).toThrow();
+    });
+
+    it('should maintain data integrity through encode/decode cycle', () => {
+      const testCases: CancelTransactionPolicyType[] = [
+        validPolicy,
+        { ...validPolicy, maxFeePerGas: '0' },
+        {
+          ...validPolicy,
+          maxFeePerGas: ethers.constants.MaxUint256.toString(),
+        },
+      ];
+
+      testCases.forEach((policy) => {
+        const encoded = CancelTransactionPolicy.encode(policy);
+        expect(CancelTransactionPolicy.decode(encoded)).toEqual(policy);
+      });
+    });
+  });
+});
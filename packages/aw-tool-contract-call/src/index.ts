@@ -0,0 +1 @@
+export { ContractCall } from './lib/tool';
@@ -0,0 +1,242 @@
+import {
+  checkGasFeeCeiling,
+  checkLitAuthAddressIsDelegatee,
+  enforceSpendingLimit,
+  getPolicyParameters,
+  getPkpToolRegistryContract,
+} from '@lit-protocol/aw-tool';
+
+declare global {
+  // Required Inputs
+  const parentToolIpfsCid: string;
+  const pkpToolRegistryContractAddress: string;
+  const pkpTokenId: string;
+  const delegateeAddress: string;
+  const pkpEthAddress: string;
+  // The nonce of the spend recording, empty for the PKP's pending nonce on the registry's chain
+  const spendRecordNonce: string;
+  const callInfo: {
+    contractAddress: string;
+    functionAbi: string;
+    data: string;
+    value: string;
+  };
+  const gasInfo: {
+    maxFeePerGas: string;
+    gasLimit: string;
+  };
+}
+
+/**
+ * Converts a decoded argument, or the value of a constraint, to the string it's compared by.
+ * Hex strings such as addresses and bytes are compared case-insensitively.
+ */
+const toComparable = (value: any): string => {
+  if (ethers.BigNumber.isBigNumber(value)) {
+    return value.toString();
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    return ethers.utils.isHexString(value) ? value.toLowerCase() : value;
+  }
+  throw new Error(
+    'Only integer, address, boolean, bytes, and string arguments can be constrained'
+  );
+};
+
+(async () => {
+  const pkpToolRegistryContract = await getPkpToolRegistryContract(
+    pkpToolRegistryContractAddress
+  );
+
+  const isDelegatee = await checkLitAuthAddressIsDelegatee(
+    pkpToolRegistryContract,
+    pkpTokenId
+  );
+  if (!isDelegatee) {
+    throw new Error(
+      `Session signer ${ethers.utils.getAddress(
+        LitAuth.authSigAddress
+      )} is not a delegatee for PKP ${pkpTokenId}`
+    );
+  }
+
+  const policyParameters = await getPolicyParameters(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    ['allowedCalls']
+  );
+
+  let allowedCalls: Array<{
+    contractAddress: string;
+    functionSelector: string;
+    maxValue?: string;
+    argumentConstraints?: Array<{
+      index: number;
+      operator: 'equals' | 'max' | 'in';
+      value?: string;
+      values?: string[];
+    }>;
+  }> = [];
+
+  console.log(
+    `Retrieved policy parameters: ${JSON.stringify(policyParameters)}`
+  );
+
+  for (const parameter of policyParameters) {
+    const value = ethers.utils.toUtf8String(parameter.value);
+
+    switch (parameter.name) {
+      case 'allowedCalls':
+        allowedCalls = JSON.parse(value);
+        console.log(`Formatted allowedCalls: ${JSON.stringify(allowedCalls)}`);
+        break;
+    }
+  }
+
+  // The call is decoded from the data that will be signed, so the checks apply to the actual call
+  const contractInterface = new ethers.utils.Interface([
+    callInfo.functionAbi.trim().startsWith('{')
+      ? JSON.parse(callInfo.functionAbi)
+      : callInfo.functionAbi,
+  ]);
+  const fragment: any = Object.values(contractInterface.functions)[0];
+  const selector = contractInterface.getSighash(fragment);
+  if (callInfo.data.slice(0, 10).toLowerCase() !== selector.toLowerCase()) {
+    throw new Error(
+      `Call data doesn't match the selector ${selector} of ${fragment.format()}`
+    );
+  }
+  const args = contractInterface.decodeFunctionData(fragment, callInfo.data);
+
+  console.log(
+    `Checking if ${fragment.format()} (${selector}) of ${
+      callInfo.contractAddress
+    } is an allowed call...`
+  );
+
+  const allowedCall = allowedCalls.find(
+    (call) =>
+      ethers.utils.getAddress(call.contractAddress) ===
+        ethers.utils.getAddress(callInfo.contractAddress) &&
+      call.functionSelector.toLowerCase() === selector.toLowerCase()
+  );
+  if (!allowedCall) {
+    throw new Error(
+      `Call to ${fragment.format()} (${selector}) of ${
+        callInfo.contractAddress
+      } not allowed`
+    );
+  }
+
+  const valueBN = ethers.BigNumber.from(callInfo.value);
+  const maxValue = ethers.BigNumber.from(allowedCall.maxValue ?? '0');
+  console.log(
+    `Checking if value ${valueBN.toString()} exceeds maxValue ${maxValue.toString()}...`
+  );
+
+  if (valueBN.gt(maxValue)) {
+    throw new Error(
+      `Value ${ethers.utils.formatEther(
+        valueBN
+      )} exceeds the maximum value ${ethers.utils.formatEther(
+        maxValue
+      )} of the call`
+    );
+  }
+
+  for (const constraint of allowedCall.argumentConstraints ?? []) {
+    if (constraint.index >= args.length) {
+      throw new Error(
+        `Argument ${
+          constraint.index
+        } is constrained, but ${fragment.format()} only has ${
+          args.length
+        } arguments`
+      );
+    }
+
+    const arg = args[constraint.index];
+    console.log(
+      `Checking argument ${constraint.index} ${toComparable(arg)} against ${
+        constraint.operator
+      } ${JSON.stringify(constraint.value ?? constraint.values)}...`
+    );
+
+    switch (constraint.operator) {
+      case 'equals':
+        if (toComparable(arg) !== toComparable(constraint.value)) {
+          throw new Error(
+            `Argument ${constraint.index} must equal ${
+              constraint.value
+            }, received ${toComparable(arg)}`
+          );
+        }
+        break;
+      case 'max':
+        if (!ethers.BigNumber.isBigNumber(arg)) {
+          throw new Error(
+            `Argument ${constraint.index} must be an integer to have a maximum`
+          );
+        }
+        if (arg.gt(ethers.BigNumber.from(constraint.value))) {
+          throw new Error(
+            `Argument ${
+              constraint.index
+            } ${arg.toString()} exceeds the maximum ${constraint.value}`
+          );
+        }
+        break;
+      case 'in':
+        if (
+          !(constraint.values ?? [])
+            .map(toComparable)
+            .includes(toComparable(arg))
+        ) {
+          throw new Error(
+            `Argument ${constraint.index} ${toComparable(
+              arg
+            )} not allowed. Allowed values: ${(constraint.values ?? []).join(
+              ', '
+            )}`
+          );
+        }
+        break;
+      default:
+        throw new Error(
+          `Unknown operator ${
+            (constraint as { operator: string }).operator
+          } of the constraint on argument ${constraint.index}`
+        );
+    }
+  }
+
+  await checkGasFeeCeiling(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    gasInfo
+  );
+
+  // Recorded last, so a spend is only recorded for executions passing every other check.
+  // Only the native value sent with the call counts towards the spending limit
+  if (!valueBN.isZero()) {
+    await enforceSpendingLimit(
+      pkpToolRegistryContract,
+      pkpEthAddress,
+      pkpTokenId,
+      parentToolIpfsCid,
+      delegateeAddress,
+      ethers.constants.AddressZero,
+      valueBN,
+      spendRecordNonce
+    );
+  }
+
+  console.log('Policy parameters validated');
+})();
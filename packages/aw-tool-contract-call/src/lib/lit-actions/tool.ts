@@ -0,0 +1,209 @@
+import {
+  callToolPolicy,
+  fetchToolPolicyFromRegistry,
+  getPkpInfo,
+  getPkpToolRegistryAddress,
+  getPkpToolRegistryContract,
+  getSpendRecordNonce,
+  isSimulation,
+  NETWORK_CONFIG,
+  parsePolicySpendRecord,
+  refundSpend,
+  setSimulationFailureResponse,
+  setSimulationResponse,
+  type SpendRecord,
+} from '@lit-protocol/aw-tool';
+
+import { encodeCall } from './utils/encode-call';
+import { getGasData } from './utils/get-gas-data';
+import { estimateGasLimit } from './utils/estimate-gas-limit';
+import { signTx } from './utils/sign-tx';
+import { broadcastTransaction } from './utils/broadcast-tx';
+
+declare global {
+  // Required Inputs
+  const params: {
+    pkpEthAddress: string;
+    rpcUrl: string;
+    chainId: string;
+    contractAddress: string;
+    functionAbi: string;
+    args: string;
+    value?: string;
+    nonce?: string;
+  };
+}
+
+(async () => {
+  try {
+    const pkpToolRegistryAddress = getPkpToolRegistryAddress();
+
+    console.log(`Using Lit Network: ${LIT_NETWORK}`);
+    console.log(`Using PKP Tool Registry Address: ${pkpToolRegistryAddress}`);
+    console.log(
+      `Using Pubkey Router Address: ${
+        NETWORK_CONFIG[LIT_NETWORK as keyof typeof NETWORK_CONFIG]
+          .pubkeyRouterAddress
+      }`
+    );
+
+    const delegateeAddress = ethers.utils.getAddress(LitAuth.authSigAddress);
+    const toolIpfsCid = LitAuth.actionIpfsIds[0];
+    const provider = new ethers.providers.JsonRpcProvider(params.rpcUrl);
+    const pkpToolRegistryContract = await getPkpToolRegistryContract(
+      pkpToolRegistryAddress
+    );
+    const pkp = await getPkpInfo(params.pkpEthAddress);
+
+    const contractAddress = ethers.utils.getAddress(params.contractAddress);
+    const value = ethers.BigNumber.from(params.value || '0');
+    const call = encodeCall(params.functionAbi, params.args);
+
+    console.log(`Call: ${JSON.stringify(call)}`);
+
+    const gasData = await getGasData(provider, pkp.ethAddress, params.nonce);
+    const gasLimit = await estimateGasLimit(
+      provider,
+      pkp.ethAddress,
+      contractAddress,
+      call.data,
+      value
+    );
+
+    const toolPolicy = await fetchToolPolicyFromRegistry(
+      pkpToolRegistryContract,
+      pkp.tokenId,
+      delegateeAddress,
+      toolIpfsCid
+    );
+    const hasPolicy =
+      toolPolicy.enabled &&
+      toolPolicy.policyIpfsCid !== undefined &&
+      toolPolicy.policyIpfsCid !== '0x' &&
+      toolPolicy.policyIpfsCid !== '';
+    let spendRecord: SpendRecord | null = null;
+    if (hasPolicy) {
+      console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
+
+      const spendRecordNonce = await getSpendRecordNonce(
+        pkpToolRegistryContract,
+        params.chainId,
+        gasData.nonce
+      );
+      const policyParams = {
+        parentToolIpfsCid: toolIpfsCid,
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: pkp.tokenId,
+        delegateeAddress,
+        pkpEthAddress: pkp.ethAddress,
+        spendRecordNonce,
+        callInfo: {
+          contractAddress,
+          functionAbi: params.functionAbi,
+          data: call.data,
+          value: value.toString(),
+        },
+        gasInfo: {
+          maxFeePerGas: ethers.BigNumber.from(gasData.maxFeePerGas).toString(),
+          gasLimit: gasLimit.toString(),
+        },
+      };
+
+      console.log(
+        `Calling policy Lit Action with params: ${JSON.stringify(policyParams)}`
+      );
+
+      spendRecord = parsePolicySpendRecord(
+        await callToolPolicy(toolPolicy.policyIpfsCid, policyParams)
+      );
+      // The spend was recorded with the transaction's nonce, on the same chain
+      if (spendRecord && spendRecordNonce !== '') {
+        gasData.nonce += 1;
+      }
+    } else {
+      console.log(
+        `No policy found for tool ${toolIpfsCid} on PKP ${pkp.tokenId} for delegatee ${delegateeAddress}`
+      );
+    }
+
+    if (isSimulation()) {
+      setSimulationResponse(
+        {
+          call: {
+            contractAddress,
+            signature: call.signature,
+            selector: call.selector,
+            data: call.data,
+            value: value.toString(),
+          },
+          gasLimit: gasLimit.toString(),
+          gasData,
+        },
+        hasPolicy ? toolPolicy.policyIpfsCid : undefined
+      );
+      return;
+    }
+
+    const callTx = {
+      to: contractAddress,
+      data: call.data,
+      value: value.toHexString(),
+      gasLimit: gasLimit.toHexString(),
+      maxFeePerGas: gasData.maxFeePerGas,
+      maxPriorityFeePerGas: gasData.maxPriorityFeePerGas,
+      nonce: gasData.nonce,
+      chainId: params.chainId,
+      type: 2,
+    };
+
+    let signedTx;
+    try {
+      signedTx = await signTx(pkp.publicKey, callTx, 'contractCallSig');
+    } catch (err) {
+      // Nothing was broadcast, so the call's value must not count towards the spending limit
+      if (spendRecord) {
+        await refundSpend(pkpToolRegistryContract, pkp, spendRecord);
+      }
+      throw err;
+    }
+
+    // A broadcast call may be mined even when broadcasting reports an error, so its spend is kept
+    const callHash = await broadcastTransaction(provider, signedTx);
+    console.log('Contract call transaction hash:', callHash);
+
+    Lit.Actions.setResponse({
+      response: JSON.stringify({
+        status: 'success',
+        callHash,
+      }),
+    });
+  } catch (err: any) {
+    console.error('Error:', err);
+
+    if (isSimulation()) {
+      setSimulationFailureResponse(err);
+      return;
+    }
+
+    // Extract detailed error information
+    const errorDetails = {
+      message: err.message,
+      code: err.code,
+      reason: err.reason,
+      error: err.error,
+      ...(err.transaction && { transaction: err.transaction }),
+      ...(err.receipt && { receipt: err.receipt }),
+    };
+
+    // Construct a detailed error message
+    const errorMessage = err.message || String(err);
+
+    Lit.Actions.setResponse({
+      response: JSON.stringify({
+        status: 'error',
+        error: errorMessage,
+        details: errorDetails,
+      }),
+    });
+  }
+})();
@@ -0,0 +1,29 @@
+/**
+ * Encodes the data of a contract call from the ABI fragment of the called function and its arguments.
+ * @param {string} functionAbi - The ABI fragment, in human-readable or JSON format.
+ * @param {string} args - The arguments of the call, as a JSON array.
+ * @returns {{ data: string, selector: string, signature: string }} The call data, the function selector, and the function signature.
+ * @throws If the fragment isn't a function fragment, or the arguments don't match it.
+ */
+export const encodeCall = (functionAbi: string, args: string) => {
+  console.log(`Encoding call to ${functionAbi}...`);
+
+  const contractInterface = new ethers.utils.Interface([
+    functionAbi.trim().startsWith('{') ? JSON.parse(functionAbi) : functionAbi,
+  ]);
+  const fragment: any = Object.values(contractInterface.functions)[0];
+  if (!fragment) {
+    throw new Error(`Invalid function ABI: ${functionAbi}`);
+  }
+
+  const parsedArgs = JSON.parse(args);
+  if (!Array.isArray(parsedArgs)) {
+    throw new Error(`Arguments must be a JSON array, received: ${args}`);
+  }
+
+  return {
+    data: contractInterface.encodeFunctionData(fragment, parsedArgs),
+    selector: contractInterface.getSighash(fragment),
+    signature: fragment.format(),
+  };
+};
@@ -0,0 +1,37 @@
+/**
+ * Estimates the gas limit for the contract call.
+ * Unlike transfers, calls have no safe fallback gas limit, a failing estimate usually means the call reverts.
+ * @param {any} provider - The Ethereum provider.
+ * @param {string} pkpEthAddress - The Ethereum address of the PKP.
+ * @param {string} contractAddress - The address of the called contract.
+ * @param {string} data - The call data.
+ * @param {any} value - The amount of native currency sent with the call, in wei.
+ * @returns {Promise<any>} Estimated gas limit.
+ * @throws If the gas can't be estimated.
+ */
+export const estimateGasLimit = async (
+  provider: any,
+  pkpEthAddress: string,
+  contractAddress: string,
+  data: string,
+  value: any
+) => {
+  console.log(`Estimating gas limit...`);
+
+  try {
+    const estimatedGas = await provider.estimateGas({
+      from: pkpEthAddress,
+      to: contractAddress,
+      data,
+      value,
+    });
+    console.log('Estimated gas limit:', estimatedGas.toString());
+    return estimatedGas.mul(120).div(100);
+  } catch (err: any) {
+    throw new Error(
+      `Could not estimate gas, the call would likely revert: ${
+        err.reason || err.message
+      }`
+    );
+  }
+};
@@ -0,0 +1,38 @@
+import { getNonce } from '@lit-protocol/aw-tool';
+
+/**
+ * Retrieves gas data (maxFeePerGas, maxPriorityFeePerGas, and nonce).
+ * @param {string} [nonce] - The explicit nonce of the transaction. Leave empty for the PKP's pending-aware nonce.
+ * @returns {Promise<{ maxFeePerGas: string, maxPriorityFeePerGas: string, nonce: number }>} Gas data.
+ */
+export const getGasData = async (
+  provider: any,
+  pkpEthAddress: string,
+  nonce?: string
+) => {
+  console.log(`Getting gas data...`);
+
+  const gasData = await Lit.Actions.runOnce(
+    { waitForResponse: true, name: 'gasPriceGetter' },
+    async () => {
+      const baseFeeHistory = await provider.send('eth_feeHistory', [
+        '0x1',
+        'latest',
+        [],
+      ]);
+      const baseFee = ethers.BigNumber.from(baseFeeHistory.baseFeePerGas[0]);
+
+      const priorityFee = baseFee.div(4);
+      const maxFee = baseFee.mul(2);
+
+      return JSON.stringify({
+        maxFeePerGas: maxFee.toHexString(),
+        maxPriorityFeePerGas: priorityFee.toHexString(),
+        nonce: await getNonce(provider, pkpEthAddress, nonce),
+      });
+    }
+  );
+
+  console.log(`Gas data: ${gasData}`);
+  return JSON.parse(gasData);
+};
@@ -0,0 +1,148 @@
+import { BaseEthereumAddressSchema } from '@lit-protocol/aw-tool';
+import { z } from 'zod';
+import { ethers } from 'ethers';
+
+/**
+ * Schema for validating an amount in wei, or any other non-negative integer, as a string.
+ * @type {z.ZodString}
+ */
+const uintSchema = z
+  .string()
+  .regex(/^\d+$/, 'Must be a non-negative integer as a string');
+
+/**
+ * Schema for validating a constraint on an argument of an allowed call, by its position in the function's inputs.
+ * Arguments are compared by their string value: integers in base 10, addresses case-insensitively, and booleans as `true` or `false`.
+ * @type {z.ZodDiscriminatedUnion}
+ */
+const argumentConstraintSchema = z.discriminatedUnion('operator', [
+  z.object({
+    index: z.number().int().nonnegative(), // Position of the argument
+    operator: z.literal('equals'), // The argument must equal `value`
+    value: z.string(),
+  }),
+  z.object({
+    index: z.number().int().nonnegative(), // Position of the argument
+    operator: z.literal('max'), // The integer argument must not exceed `value`
+    value: uintSchema,
+  }),
+  z.object({
+    index: z.number().int().nonnegative(), // Position of the argument
+    operator: z.literal('in'), // The argument must equal one of `values`
+    values: z.array(z.string()).nonempty(),
+  }),
+]);
+
+/**
+ * Schema for validating a call the policy allows, a function of a contract identified by its selector.
+ * @type {z.ZodObject}
+ */
+const allowedCallSchema = z.object({
+  contractAddress: BaseEthereumAddressSchema, // Address of the called contract
+  functionSelector: z
+    .string()
+    .regex(
+      /^0x[a-fA-F0-9]{8}$/,
+      'Must be a function selector (0x followed by 8 hexadecimal characters)'
+    ), // Selector of the called function
+  maxValue: uintSchema.optional(), // Maximum msg.value of the call in wei, calls can't send value if unset
+  argumentConstraints: z.array(argumentConstraintSchema).optional(), // Constraints every call must satisfy
+});
+
+/**
+ * Schema for validating a contract call policy.
+ * @type {z.ZodObject}
+ */
+const policySchema = z.object({
+  type: z.literal('ContractCall'), // Policy type must be 'ContractCall'
+  version: z.string(), // Version of the policy
+  allowedCalls: z.array(allowedCallSchema), // Calls the delegatee may make, all other calls are rejected
+});
+
+/**
+ * The ABI type used to encode contract call policies.
+ * The allowed calls are encoded as a JSON string.
+ */
+const POLICY_ABI_TYPE = 'tuple(string allowedCalls)';
+
+/**
+ * Encodes a contract call policy into a packed ABI-encoded string.
+ * @param {ContractCallPolicyType} policy - The policy to encode.
+ * @returns {string} ABI-encoded string representing the policy.
+ * @throws {z.ZodError} If the policy does not match the schema.
+ */
+function encodePolicy(policy: ContractCallPolicyType): string {
+  // Validate the policy against the schema
+  policySchema.parse(policy);
+
+  // Encode the policy using ABI encoding
+  return ethers.utils.defaultAbiCoder.encode(
+    [POLICY_ABI_TYPE],
+    [
+      {
+        allowedCalls: JSON.stringify(policy.allowedCalls),
+      },
+    ]
+  );
+}
+
+/**
+ * Decodes an ABI-encoded string into a contract call policy.
+ * @param {string} encodedPolicy - The ABI-encoded policy string.
+ * @returns {ContractCallPolicyType} The decoded policy object.
+ * @throws {z.ZodError} If the decoded policy does not match the schema.
+ */
+function decodePolicy(encodedPolicy: string): ContractCallPolicyType {
+  // Decode the ABI-encoded string
+  const decoded = ethers.utils.defaultAbiCoder.decode(
+    [POLICY_ABI_TYPE],
+    encodedPolicy
+  )[0];
+
+  // Construct the policy object
+  const policy: ContractCallPolicyType = {
+    type: 'ContractCall',
+    version: '1.0.0',
+    allowedCalls: JSON.parse(decoded.allowedCalls),
+  };
+
+  // Validate the decoded policy against the schema
+  return policySchema.parse(policy);
+}
+
+/**
+ * Type representing a constraint on an argument of an allowed call.
+ * @typedef {z.infer<typeof argumentConstraintSchema>} ContractCallArgumentConstraint
+ */
+export type ContractCallArgumentConstraint = z.infer<
+  typeof argumentConstraintSchema
+>;
+
+/**
+ * Type representing a call allowed by a contract call policy.
+ * @typedef {z.infer<typeof allowedCallSchema>} ContractCallAllowedCall
+ */
+export type ContractCallAllowedCall = z.infer<typeof allowedCallSchema>;
+
+/**
+ * Type representing a contract call policy.
+ * @typedef {z.infer<typeof policySchema>} ContractCallPolicyType
+ */
+export type ContractCallPolicyType = z.infer<typeof policySchema>;
+
+/**
+ * Utility object for working with contract call policies.
+ * @type {object}
+ * @property {ContractCallPolicyType} type - Type placeholder for the policy.
+ * @property {string} version - Version of the policy schema.
+ * @property {z.ZodObject} schema - Zod schema for validating policies.
+ * @property {function} encode - Function to encode a policy into an ABI-encoded string.
+ * @property {function} decode - Function to decode an ABI-encoded string into a policy.
+ */
+export const ContractCallPolicy = {
+  type: {} as ContractCallPolicyType, // Placeholder for the policy type
+  version: '1.0.0', // Version of the policy schema
+  schema: policySchema, // Zod schema for validation
+  encode: encodePolicy, // Function to encode a policy
+  decode: decodePolicy, // Function to decode a policy
+};
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import { ethers } from 'ethers';
+import {
+  type AwTool,
+  type SupportedLitNetwork,
+  NETWORK_CONFIGS,
+  NetworkConfig,
+} from '@lit-protocol/aw-tool';
+
+import { ContractCallPolicy, type ContractCallPolicyType } from './policy';
+import { IPFS_CIDS } from './ipfs';
+
+/**
+ * Parameters required for the Contract Call Lit Action.
+ * @property {string} pkpEthAddress - The Ethereum address of the PKP.
+ * @property {string} contractAddress - The address of the contract to call.
+ * @property {string} functionAbi - The ABI fragment of the called function, in human-readable or JSON format.
+ * @property {string} args - The arguments of the call, as a JSON array.
+ * @property {string} [value] - The amount of native currency to send with the call in wei, defaults to 0.
+ * @property {string} chainId - The ID of the blockchain network.
+ * @property {string} rpcUrl - The RPC URL of the blockchain network.
+ * @property {string} [nonce] - The nonce of the transaction, defaults to the next nonce after the PKP's pending transactions.
+ */
+interface ContractCallLitActionParameters {
+  pkpEthAddress: string;
+  contractAddress: string;
+  functionAbi: string;
+  args: string;
+  value?: string;
+  chainId: string;
+  rpcUrl: string;
+  nonce?: string;
+}
+
+/**
+ * Parses the ABI fragment of the called function.
+ * @param {string} functionAbi - The ABI fragment, in human-readable or JSON format.
+ * @returns {ethers.utils.FunctionFragment} The parsed function fragment.
+ * @throws If the fragment isn't a valid function fragment.
+ */
+const parseFunctionAbi = (functionAbi: string) =>
+  ethers.utils.FunctionFragment.from(
+    functionAbi.trim().startsWith('{') ? JSON.parse(functionAbi) : functionAbi
+  );
+
+/**
+ * Zod schema for validating ContractCallLitActionParameters.
+ * @type {z.ZodEffects}
+ */
+const ContractCallLitActionSchema = z
+  .object({
+    pkpEthAddress: z
+      .string()
+      .regex(
+        /^0x[a-fA-F0-9]{40}$/,
+        'Must be a valid Ethereum address (0x followed by 40 hexadecimal characters)'
+      ),
+    contractAddress: z
+      .string()
+      .regex(
+        /^0x[a-fA-F0-9]{40}$/,
+        'Must be a valid Ethereum address (0x followed by 40 hexadecimal characters)'
+      ),
+    functionAbi: z.string().refine(
+      (val) => {
+        try {
+          parseFunctionAbi(val);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      {
+        message:
+          'Must be a function ABI fragment (e.g. "function stake(uint256 amount)")',
+      }
+    ),
+    args: z.string().refine(
+      (val) => {
+        try {
+          return Array.isArray(JSON.parse(val));
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Must be a JSON array of the function arguments' }
+    ),
+    value: z
+      .string()
+      .regex(/^\d+$/, 'Must be a whole number of wei as a string')
+      .or(z.literal(''))
+      .optional(),
+    chainId: z
+      .string()
+      .regex(/^\d+$/, 'Must be a valid chain ID number as a string'),
+    rpcUrl: z
+      .string()
+      .url()
+      .startsWith(
+        'https://',
+        'Must be a valid HTTPS URL for the blockchain RPC endpoint'
+      ),
+    nonce: z
+      .string()
+      .regex(/^\d+$/, 'Must be a whole number as a string')
+      .or(z.literal(''))
+      .optional(),
+  })
+  .superRefine((params, ctx) => {
+    try {
+      const fragment = parseFunctionAbi(params.functionAbi);
+      new ethers.utils.Interface([fragment]).encodeFunctionData(
+        fragment,
+        JSON.parse(params.args)
+      );
+    } catch (err) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['args'],
+        message: `Arguments don't match the function ABI: ${
+          (err as Error).message
+        }`,
+      });
+    }
+  });
+
+/**
+ * Descriptions of each parameter for the Contract Call Lit Action.
+ * These descriptions are designed to be consumed by LLMs to understand the required parameters.
+ * @type {Record<string, string>}
+ */
+const ContractCallLitActionParameterDescriptions = {
+  pkpEthAddress:
+    'The Ethereum address of the PKP that will be used to sign and send the transaction.',
+  contractAddress:
+    'The address of the smart contract to call. Must be a valid Ethereum address starting with 0x.',
+  functionAbi:
+    'The ABI fragment of the contract function to call, in human-readable format (e.g. "function stake(uint256 amount)") or as a JSON ABI fragment.',
+  args: 'The arguments to call the function with, as a JSON array in the order of the function inputs (e.g. ["1000000000000000000"]). Integers should be given as strings.',
+  value:
+    'The amount of native currency to send with the call in wei, as a whole number string (e.g. "1000000000000000000" for 1 ETH). Leave empty to send no value.',
+  chainId:
+    'The ID of the blockchain network the contract is deployed on (e.g. 1 for Ethereum mainnet, 84532 for Base Sepolia).',
+  rpcUrl:
+    'The RPC URL of the blockchain network to connect to (e.g. "https://base-sepolia-rpc.publicnode.com").',
+  nonce:
+    'The nonce to send the transaction with, as a whole number string (e.g. "42"), e.g. to order parallel executions for the same PKP. Leave empty to use the next nonce after the PKP\'s pending transactions.',
+} as const;
+
+/**
+ * Validates the provided parameters against the ContractCallLitActionSchema.
+ * @param {unknown} params - The parameters to validate.
+ * @returns {true | Array<{ param: string; error: string }>} - Returns `true` if valid, otherwise an array of errors.
+ */
+const validateContractCallParameters = (
+  params: unknown
+): true | Array<{ param: string; error: string }> => {
+  const result = ContractCallLitActionSchema.safeParse(params);
+  if (result.success) {
+    return true;
+  }
+
+  return result.error.issues.map((issue) => ({
+    param: issue.path[0] as string,
+    error: issue.message,
+  }));
+};
+
+/**
+ * Result of a successful Contract Call Lit Action execution.
+ * @property {'success'} status - The status of the execution.
+ * @property {string} callHash - The hash of the contract call transaction.
+ */
+interface ContractCallLitActionResult {
+  status: 'success';
+  callHash: string;
+}
+
+/**
+ * Zod schema for validating ContractCallLitActionResult.
+ * @type {z.ZodObject}
+ */
+const ContractCallLitActionResultSchema = z.object({
+  status: z.literal('success'),
+  callHash: z.string(),
+});
+
+/**
+ * Creates a network-specific ContractCall tool.
+ * @param {SupportedLitNetwork} network - The Lit network to use.
+ * @param {NetworkConfig} config - The configuration for the network.
+ * @returns {AwTool<ContractCallLitActionParameters, ContractCallPolicyType, ContractCallLitActionResult>} - The configured AwTool instance.
+ */
+const createNetworkTool = (
+  network: SupportedLitNetwork,
+  config: NetworkConfig
+): AwTool<
+  ContractCallLitActionParameters,
+  ContractCallPolicyType,
+  ContractCallLitActionResult
+> => ({
+  name: 'ContractCall',
+  description: `A Lit Action that calls a function of a smart contract, e.g. to stake, claim rewards, or vote.`,
+  ipfsCid: IPFS_CIDS[network].tool,
+  defaultPolicyIpfsCid: IPFS_CIDS[network].defaultPolicy,
+  chain: 'ethereum',
+  transactionHashKeys: ['callHash'],
+  parameters: {
+    type: {} as ContractCallLitActionParameters,
+    schema: ContractCallLitActionSchema,
+    descriptions: ContractCallLitActionParameterDescriptions,
+    validate: validateContractCallParameters,
+  },
+  policy: ContractCallPolicy,
+  result: {
+    type: {} as ContractCallLitActionResult,
+    schema: ContractCallLitActionResultSchema,
+  },
+});
+
+/**
+ * A collection of network-specific ContractCall tools.
+ * @type {Record<SupportedLitNetwork, AwTool<ContractCallLitActionParameters, ContractCallPolicyType, ContractCallLitActionResult>>}
+ */
+export const ContractCall = Object.entries(NETWORK_CONFIGS).reduce(
+  (acc, [network, config]) => ({
+    ...acc,
+    [network]: createNetworkTool(network as SupportedLitNetwork, config),
+  }),
+  {} as Record<
+    SupportedLitNetwork,
+    AwTool<
+      ContractCallLitActionParameters,
+      ContractCallPolicyType,
+      ContractCallLitActionResult
+    >
+  >
+);
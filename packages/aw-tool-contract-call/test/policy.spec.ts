@@ -0,0 +1,156 @@
+import { ethers } from 'ethers';
+
+import { ContractCallPolicy, ContractCallPolicyType } from '../src/lib/policy';
+
+describe('ContractCallPolicy', () => {
+  const stakeSelector = new ethers.utils.Interface([
+    'function stake(uint256 amount)',
+  ]).getSighash('stake');
+
+  const validPolicy: ContractCallPolicyType = {
+    type: 'ContractCall',
+    version: '1.0.0',
+    allowedCalls: [
+      {
+        contractAddress: ethers.utils.getAddress(
+          '0x1234567890123456789012345678901234567890'
+        ),
+        functionSelector: stakeSelector,
+        maxValue: ethers.utils.parseEther('1.0').toString(), // 1 ETH in wei
+        argumentConstraints: [
+          { index: 0, operator: 'max', value: '1000000000000000000' },
+        ],
+      },
+    ],
+  };
+
+  describe('ContractCallPolicy.schema', () => {
+    it('should validate a correct policy', () => {
+      const result = ContractCallPolicy.schema.safeParse(validPolicy);
+      expect(result.success).toBe(true);
+    });
+
+    it('should accept allowed calls without value or constraints', () => {
+      const result = ContractCallPolicy.schema.safeParse({
+        ...validPolicy,
+        allowedCalls: [
+          {
+            contractAddress: validPolicy.allowedCalls[0].contractAddress,
+            functionSelector: stakeSelector,
+          },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    describe('functionSelector validation', () => {
+      it('should reject invalid selectors', () => {
+        const invalidSelectors = [
+          'stake(uint256)', // signature instead of selector
+          '0x1234', // too short
+          '0x1234567890', // too long
+          '0xZZZZZZZZ', // invalid hex
+        ];
+
+        invalidSelectors.forEach((functionSelector) => {
+          const result = ContractCallPolicy.schema.safeParse({
+            ...validPolicy,
+            allowedCalls: [
+              { ...validPolicy.allowedCalls[0], functionSelector },
+            ],
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
+
+    describe('argumentConstraints validation', () => {
+      it('should accept all operators', () => {
+        const result = ContractCallPolicy.schema.safeParse({
+          ...validPolicy,
+          allowedCalls: [
+            {
+              ...validPolicy.allowedCalls[0],
+              argumentConstraints: [
+                { index: 0, operator: 'equals', value: '100' },
+                { index: 1, operator: 'max', value: '100' },
+                { index: 2, operator: 'in', values: ['1', '2'] },
+              ],
+            },
+          ],
+        });
+        expect(result.success).toBe(true);
+      });
+
+      it('should reject invalid constraints', () => {
+        const invalidConstraints = [
+          { index: 0, operator: 'min', value: '100' }, // unknown operator
+          { index: -1, operator: 'equals', value: '100' }, // negative index
+          { index: 0, operator: 'max', value: '-1' }, // negative maximum
+          { index: 0, operator: 'max', value: '1.5' }, // decimal maximum
+          { index: 0, operator: 'in', values: [] }, // empty set
+        ];
+
+        invalidConstraints.forEach((constraint) => {
+          const result = ContractCallPolicy.schema.safeParse({
+            ...validPolicy,
+            allowedCalls: [
+              {
+                ...validPolicy.allowedCalls[0],
+                argumentConstraints: [constraint],
+              },
+            ],
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
+
+    it('should reject an invalid maxValue', () => {
+      const result = ContractCallPolicy.schema.safeParse({
+        ...validPolicy,
+        allowedCalls: [{ ...validPolicy.allowedCalls[0], maxValue: '1.5' }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('ContractCallPolicy.encode', () => {
+    it('should encode a valid policy', () => {
+      const encoded = ContractCallPolicy.encode(validPolicy);
+      expect(typeof encoded).toBe('string');
+      expect(encoded.startsWith('0x')).toBe(true);
+    });
+
+    it('should throw on invalid policy', () => {
+      expect(() => {
+        ContractCallPolicy.encode({
+          ...validPolicy,
+          allowedCalls: [
+            { ...validPolicy.allowedCalls[0], contractAddress: 'invalid' },
+          ],
+        });
+      }).toThrow();
+    });
+  });
+
+  describe('ContractCallPolicy.decode', () => {
+    it('should throw on invalid encoded data', () => {
+      expect(() => {
+        ContractCallPolicy.decode('0x1234');
+      }).toThrow();
+    });
+
+    it('should maintain data integrity through encode/decode cycle', () => {
+      const testCases: ContractCallPolicyType[] = [
+        validPolicy,
+        { ...validPolicy, allowedCalls: [] },
+      ];
+
+      testCases.forEach((policy) => {
+        const encoded = ContractCallPolicy.encode(policy);
+        expect(ContractCallPolicy.decode(encoded)).toEqual(policy);
+      });
+    });
+  });
+});
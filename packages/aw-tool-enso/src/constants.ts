@@ -12,5 +12,4 @@ export const ENSO_SUPPORTED_CHAINS = new Map<number, string>([
   [80094, 'berachain'],
 ]);
 
-export const ENSO_API_KEY = '1e02632d-6feb-4a75-a157-documentation' as const;
 export const ENSO_ETH = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee' as const;
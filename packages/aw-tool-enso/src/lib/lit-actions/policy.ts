@@ -1,4 +1,5 @@
 import {
+  checkGasFeeCeiling,
   checkLitAuthAddressIsDelegatee,
   getPkpToolRegistryContract,
   getPolicyParameters,
@@ -15,6 +16,12 @@ declare global {
     amountIn: string;
     tokenIn: string;
     tokenOut: string;
+    chainId: string;
+    approvalAmount: string;
+  };
+  const gasInfo: {
+    maxFeePerGas: string;
+    gasLimit: string;
   };
 }
 
@@ -41,15 +48,101 @@ declare global {
     pkpTokenId,
     parentToolIpfsCid,
     delegateeAddress,
-    ['allowedTokens']
+    [
+      'allowedTokens',
+      'allowedChains',
+      'allowedTokensOut',
+      'maxAmountIn',
+      'maxApprovalAmount',
+    ]
   );
 
   let allowedTokens: string[] = [];
-  // Add your policy validation logic here using policyParameters
+  let allowedChains: string[] = [];
+  let allowedTokensOut: string[] = [];
+  let maxAmountIn: any;
+  let maxApprovalAmount: any;
+
   for (const parameter of policyParameters) {
     const value = ethers.utils.toUtf8String(parameter.value);
-    allowedTokens = JSON.parse(value).map(getAddress);
-    console.log(`Formatted allowedTokens: ${allowedTokens.join(', ')}`);
+    if (value === '') continue;
+
+    switch (parameter.name) {
+      case 'allowedTokens':
+        allowedTokens = JSON.parse(value).map(getAddress);
+        console.log(`Formatted allowedTokens: ${allowedTokens.join(', ')}`);
+        break;
+      case 'allowedChains':
+        allowedChains = JSON.parse(value).map(String);
+        console.log(`Formatted allowedChains: ${allowedChains.join(', ')}`);
+        break;
+      case 'allowedTokensOut':
+        allowedTokensOut = JSON.parse(value).map(getAddress);
+        console.log(
+          `Formatted allowedTokensOut: ${allowedTokensOut.join(', ')}`
+        );
+        break;
+      case 'maxAmountIn':
+        maxAmountIn = ethers.BigNumber.from(value);
+        console.log(`Formatted maxAmountIn: ${maxAmountIn.toString()}`);
+        break;
+      case 'maxApprovalAmount':
+        maxApprovalAmount = ethers.BigNumber.from(value);
+        console.log(
+          `Formatted maxApprovalAmount: ${maxApprovalAmount.toString()}`
+        );
+        break;
+    }
+  }
+
+  if (allowedChains.length > 0) {
+    console.log(`Checking if chain ${toolParameters.chainId} is allowed...`);
+    if (!allowedChains.includes(toolParameters.chainId)) {
+      throw new Error(
+        `Chain ${
+          toolParameters.chainId
+        } not allowed. Allowed chains: ${allowedChains.join(', ')}`
+      );
+    }
+  }
+
+  if (maxAmountIn !== undefined) {
+    const amountIn = ethers.BigNumber.from(toolParameters.amountIn);
+    console.log(
+      `Checking if amount ${amountIn.toString()} exceeds maxAmountIn ${maxAmountIn.toString()}...`
+    );
+    if (amountIn.gt(maxAmountIn)) {
+      throw new Error(
+        `Amount ${amountIn.toString()} exceeds the maximum amount ${maxAmountIn.toString()}`
+      );
+    }
+  }
+
+  if (maxApprovalAmount !== undefined) {
+    const approvalAmount = ethers.BigNumber.from(toolParameters.approvalAmount);
+    console.log(
+      `Checking if approval ${approvalAmount.toString()} exceeds maxApprovalAmount ${maxApprovalAmount.toString()}...`
+    );
+    if (approvalAmount.gt(maxApprovalAmount)) {
+      throw new Error(
+        `Approval ${approvalAmount.toString()} exceeds the maximum approval ${maxApprovalAmount.toString()}`
+      );
+    }
+  }
+
+  if (allowedTokensOut.length > 0) {
+    console.log(
+      `Checking if ${toolParameters.tokenOut} is an allowed output token...`
+    );
+    if (!allowedTokensOut.includes(getAddress(toolParameters.tokenOut))) {
+      throw new Error(
+        `Token ${
+          toolParameters.tokenOut
+        } not allowed as output. Allowed output tokens: ${allowedTokensOut.join(
+          ', '
+        )}`
+      );
+    }
   }
 
   if (allowedTokens.length > 0) {
@@ -73,5 +166,13 @@ declare global {
       );
     }
   }
+
+  await checkGasFeeCeiling(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    gasInfo
+  );
 })();
 
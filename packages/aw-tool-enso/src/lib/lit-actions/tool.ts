@@ -1,10 +1,18 @@
 import {
+  callToolPolicy,
+  describeTransactionStatus,
   fetchToolPolicyFromRegistry,
   getPkpInfo,
+  getPkpToolRegistryAddress,
   getPkpToolRegistryContract,
+  getPolicyParameters,
+  isSimulation,
   NETWORK_CONFIG,
+  setSimulationFailureResponse,
+  setSimulationResponse,
+  waitForTransaction,
 } from '@lit-protocol/aw-tool';
-import { ENSO_API_KEY, ENSO_ETH, ENSO_SUPPORTED_CHAINS } from '../../constants';
+import { ENSO_ETH, ENSO_SUPPORTED_CHAINS } from '../../constants';
 import { getToken } from './utils/get-token';
 import { EnsoClient } from '@ensofinance/sdk';
 import { parseUnits } from 'ethers/lib/utils';
@@ -24,15 +32,18 @@ declare global {
     tokenIn: string;
     tokenOut: string;
     amountIn: string;
+    nonce?: string;
+    // Delegatee credential
+    ensoApiKey: string;
   };
 }
 
 (async () => {
   try {
+    const pkpToolRegistryAddress = getPkpToolRegistryAddress();
+
     console.log(`Using Lit Network: ${LIT_NETWORK}`);
-    console.log(
-      `Using PKP Tool Registry Address: ${PKP_TOOL_REGISTRY_ADDRESS}`
-    );
+    console.log(`Using PKP Tool Registry Address: ${pkpToolRegistryAddress}`);
     console.log(
       `Using Pubkey Router Address: ${
         NETWORK_CONFIG[LIT_NETWORK as keyof typeof NETWORK_CONFIG]
@@ -42,15 +53,18 @@ declare global {
     if (!ENSO_SUPPORTED_CHAINS.has(Number(params.chainId))) {
       throw new Error(`ChainId ${params.chainId} is not supported by Enso`);
     }
+    if (!params.ensoApiKey) {
+      throw new Error('Missing the ensoApiKey credential');
+    }
 
     const delegateeAddress = ethers.utils.getAddress(LitAuth.authSigAddress);
     const toolIpfsCid = LitAuth.actionIpfsIds[0];
-    const ensoClient = new EnsoClient({ apiKey: ENSO_API_KEY });
+    const ensoClient = new EnsoClient({ apiKey: params.ensoApiKey });
     const chainId = Number(params.chainId);
     const provider = new ethers.providers.JsonRpcProvider(params.rpcUrl);
 
     const pkpToolRegistryContract = await getPkpToolRegistryContract(
-      PKP_TOOL_REGISTRY_ADDRESS
+      pkpToolRegistryAddress
     );
     const pkp = await getPkpInfo(params.pkpEthAddress);
     const toolPolicy = await fetchToolPolicyFromRegistry(
@@ -65,35 +79,28 @@ declare global {
       params.amountIn,
       tokenInData.decimals
     ).toString();
+    const requiresApproval = params.tokenIn.toLowerCase() !== ENSO_ETH;
 
-    if (
+    const hasPolicy =
       toolPolicy.enabled &&
       toolPolicy.policyIpfsCid !== undefined &&
       toolPolicy.policyIpfsCid !== '0x' &&
-      toolPolicy.policyIpfsCid !== ''
-    ) {
-      console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
-      await Lit.Actions.call({
-        ipfsId: toolPolicy.policyIpfsCid,
-        params: {
-          parentToolIpfsCid: toolIpfsCid,
-          pkpToolRegistryContractAddress: PKP_TOOL_REGISTRY_ADDRESS,
-          pkpTokenId: pkp.tokenId,
-          delegateeAddress,
-          toolParameters: {
-            amountIn: amountInWei,
-            tokenIn: params.tokenIn,
-            tokenOut: params.tokenOut,
-          },
-        },
-      });
-    } else {
-      console.log(
-        `No policy found for tool ${toolIpfsCid} on PKP ${pkp.tokenId} for delegatee ${delegateeAddress}`
+      toolPolicy.policyIpfsCid !== '';
+
+    let revokeApproval = false;
+    if (hasPolicy && requiresApproval) {
+      const [revokeParameter] = await getPolicyParameters(
+        pkpToolRegistryContract,
+        pkp.tokenId,
+        toolIpfsCid,
+        delegateeAddress,
+        ['revokeApprovalAfterRoute']
       );
+      revokeApproval =
+        revokeParameter !== undefined &&
+        ethers.utils.toUtf8String(revokeParameter.value) === 'true';
     }
 
-    // Add your tool execution logic here
     const routeData = await getRoute(
       ensoClient,
       chainId,
@@ -103,18 +110,89 @@ declare global {
       params.tokenOut
     );
 
-    if (params.tokenIn.toLowerCase() !== ENSO_ETH) {
-      const gasData = await getGasData(provider, pkp.ethAddress);
+    // All transactions pay the fees checked by the policy, and the nonce of each follows the previous one
+    const gasData = await getGasData(provider, pkp.ethAddress, params.nonce);
+    let nonce = gasData.nonce;
+
+    const approveTx = requiresApproval
+      ? await createApproveTx(
+          ensoClient,
+          chainId,
+          { ...gasData, nonce: nonce++ },
+          pkp.ethAddress,
+          tokenInData.address,
+          amountInWei
+        )
+      : undefined;
+    const routeTx = await createRouteTx(
+      routeData,
+      { ...gasData, nonce: nonce++ },
+      chainId
+    );
+    const revokeTx = revokeApproval
+      ? await createApproveTx(
+          ensoClient,
+          chainId,
+          { ...gasData, nonce: nonce++ },
+          pkp.ethAddress,
+          tokenInData.address,
+          '0'
+        )
+      : undefined;
+    const gasLimit = [approveTx, routeTx, revokeTx].reduce(
+      (total, tx) => (tx ? total.add(tx.gasLimit) : total),
+      ethers.BigNumber.from(0)
+    );
 
-      const approveTx = await createApproveTx(
-        ensoClient,
-        chainId,
-        gasData,
-        pkp.ethAddress,
-        tokenInData.address,
-        amountInWei
+    if (hasPolicy) {
+      console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
+      await callToolPolicy(toolPolicy.policyIpfsCid, {
+        parentToolIpfsCid: toolIpfsCid,
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: pkp.tokenId,
+        delegateeAddress,
+        toolParameters: {
+          amountIn: amountInWei,
+          tokenIn: params.tokenIn,
+          tokenOut: params.tokenOut,
+          chainId: params.chainId,
+          approvalAmount: requiresApproval ? amountInWei : '0',
+        },
+        gasInfo: {
+          maxFeePerGas: ethers.BigNumber.from(gasData.maxFeePerGas).toString(),
+          gasLimit: gasLimit.toString(),
+        },
+      });
+    } else {
+      console.log(
+        `No policy found for tool ${toolIpfsCid} on PKP ${pkp.tokenId} for delegatee ${delegateeAddress}`
+      );
+    }
+
+    if (isSimulation()) {
+      setSimulationResponse(
+        {
+          tokenIn: {
+            address: tokenInData.address,
+            decimals: tokenInData.decimals,
+            amount: amountInWei,
+          },
+          route: {
+            amountOut: routeData.amountOut.toString(),
+            priceImpact: routeData.priceImpact,
+            gas: routeData.gas.toString(),
+          },
+          requiresApproval,
+          revokesApproval: revokeApproval,
+          gasLimit: gasLimit.toString(),
+          gasData,
+        },
+        hasPolicy ? toolPolicy.policyIpfsCid : undefined
       );
+      return;
+    }
 
+    if (approveTx) {
       const signedApprovalTx = await signTx(
         pkp.publicKey,
         approveTx,
@@ -128,32 +206,53 @@ declare global {
       console.log('Approval transaction hash:', approvalHash);
 
       // Wait for approval confirmation
-      console.log('Waiting for approval confirmation...');
-      const approvalConfirmation = await provider.waitForTransaction(
-        approvalHash,
-        1
-      );
-
-      if (approvalConfirmation.status === 0) {
-        throw new Error('Approval transaction failed');
+      const approvalStatus = await waitForTransaction(provider, approvalHash);
+      if (approvalStatus.status !== 'confirmed') {
+        throw new Error(
+          `Approval transaction failed: ${describeTransactionStatus(
+            approvalStatus
+          )}`
+        );
       }
     }
 
-    const gasData = await getGasData(provider, pkp.ethAddress);
-    const routeTx = await createRouteTx(routeData, gasData, chainId);
     const signedRouteTx = await signTx(pkp.publicKey, routeTx, 'erc20RouteSig');
     const routeHash = await broadcastTransaction(provider, signedRouteTx);
     console.log('Route transaction hash', routeHash);
 
+    let revokeHash: string | undefined;
+    if (revokeTx) {
+      const routeStatus = await waitForTransaction(provider, routeHash);
+      if (routeStatus.status !== 'confirmed') {
+        throw new Error(
+          `Route transaction failed: ${describeTransactionStatus(routeStatus)}`
+        );
+      }
+
+      const signedRevokeTx = await signTx(
+        pkp.publicKey,
+        revokeTx,
+        'erc20RevokeSig'
+      );
+      revokeHash = await broadcastTransaction(provider, signedRevokeTx);
+      console.log('Revoke transaction hash:', revokeHash);
+    }
+
     Lit.Actions.setResponse({
       response: JSON.stringify({
         routeHash,
+        ...(revokeHash !== undefined && { revokeHash }),
         status: 'success',
       }),
     });
   } catch (err: any) {
     console.error('Error:', err);
 
+    if (isSimulation()) {
+      setSimulationFailureResponse(err);
+      return;
+    }
+
     // Extract detailed error information
     const errorDetails = {
       message: err.message,
@@ -2,6 +2,20 @@ import { z } from 'zod';
 import { ethers } from 'ethers';
 import { BaseEthereumAddressSchema } from '@lit-protocol/aw-tool';
 
+/**
+ * Schema for validating a positive amount in the token's smallest unit.
+ */
+const amountSchema = z.string().refine(
+  (val) => {
+    try {
+      return ethers.BigNumber.from(val).gt(0);
+    } catch {
+      return false; // Invalid format
+    }
+  },
+  { message: 'Invalid amount format. Must be a positive integer.' }
+);
+
 /**
  * Schema for validating a Enso policy.
  * Ensures the policy has the correct structure and valid values.
@@ -13,9 +27,31 @@ const policySchema = z.object({
   /** The version of the policy. */
   version: z.string(),
 
+  /** The tokens that can be routed from and to. All tokens are allowed if empty. */
   allowedTokens: z.array(BaseEthereumAddressSchema),
+
+  /** The chain IDs routes can be executed on. All Enso supported chains are allowed if unset or empty. */
+  allowedChains: z.array(z.number().int().positive()).optional(),
+
+  /** The tokens that can be routed to, including DeFi position tokens (e.g. vault shares). All tokens are allowed if unset or empty. */
+  allowedTokensOut: z.array(BaseEthereumAddressSchema).optional(),
+
+  /** The maximum amount of tokenIn per route, in the token's smallest unit. */
+  maxAmountIn: amountSchema.optional(),
+
+  /** The maximum amount the Enso router can be approved to spend, in the token's smallest unit. */
+  maxApprovalAmount: amountSchema.optional(),
+
+  /** Whether the approval of the Enso router is revoked after the route executes. */
+  revokeApprovalAfterRoute: z.boolean().optional(),
 });
 
+/**
+ * The ABI type used to encode Enso policies.
+ */
+const POLICY_ABI_TYPE =
+  'tuple(address[] allowedTokens, uint256[] allowedChains, address[] allowedTokensOut, uint256 maxAmountIn, uint256 maxApprovalAmount, bool revokeApprovalAfterRoute)';
+
 /**
  * Encodes a Enso policy into a format suitable for on-chain storage.
  * @param policy - The Enso policy to encode.
@@ -26,9 +62,19 @@ function encodePolicy(policy: EnsoPolicyType): string {
   // Validate the policy against the schema
   policySchema.parse(policy);
 
+  // Unset limits are encoded as empty values
   return ethers.utils.defaultAbiCoder.encode(
-    ['tuple(address[] allowedTokens)'],
-    [{ allowedTokens: policy.allowedTokens }]
+    [POLICY_ABI_TYPE],
+    [
+      {
+        allowedTokens: policy.allowedTokens,
+        allowedChains: policy.allowedChains ?? [],
+        allowedTokensOut: policy.allowedTokensOut ?? [],
+        maxAmountIn: policy.maxAmountIn ?? 0,
+        maxApprovalAmount: policy.maxApprovalAmount ?? 0,
+        revokeApprovalAfterRoute: policy.revokeApprovalAfterRoute ?? false,
+      },
+    ]
   );
 }
 
@@ -40,7 +86,7 @@ function encodePolicy(policy: EnsoPolicyType): string {
  */
 function decodePolicy(encodedPolicy: string): EnsoPolicyType {
   const decoded = ethers.utils.defaultAbiCoder.decode(
-    ['tuple(address[] allowedTokens)'],
+    [POLICY_ABI_TYPE],
     encodedPolicy
   )[0];
 
@@ -50,6 +96,25 @@ function decodePolicy(encodedPolicy: string): EnsoPolicyType {
     allowedTokens: decoded.allowedTokens,
   };
 
+  // Empty values were unset in the encoded policy
+  if (decoded.allowedChains.length > 0) {
+    policy.allowedChains = decoded.allowedChains.map(
+      (chainId: ethers.BigNumber) => chainId.toNumber()
+    );
+  }
+  if (decoded.allowedTokensOut.length > 0) {
+    policy.allowedTokensOut = decoded.allowedTokensOut;
+  }
+  if (!decoded.maxAmountIn.isZero()) {
+    policy.maxAmountIn = decoded.maxAmountIn.toString();
+  }
+  if (!decoded.maxApprovalAmount.isZero()) {
+    policy.maxApprovalAmount = decoded.maxApprovalAmount.toString();
+  }
+  if (decoded.revokeApprovalAfterRoute) {
+    policy.revokeApprovalAfterRoute = true;
+  }
+
   return policySchema.parse(policy);
 }
 
@@ -16,6 +16,7 @@ import { IPFS_CIDS } from './ipfs';
  * @property {string} amountIn - The amount of tokens to send as a string (will be parsed based on token decimals).
  * @property {string} chainId - The ID of the blockchain network.
  * @property {string} rpcUrl - The RPC URL of the blockchain network.
+ * @property {string} [nonce] - The nonce of the first transaction, defaults to the next nonce after the PKP's pending transactions.
  */
 export interface EnsoLitActionParameters {
   pkpEthAddress: string;
@@ -24,6 +25,7 @@ export interface EnsoLitActionParameters {
   amountIn: string;
   chainId: string;
   rpcUrl: string;
+  nonce?: string;
 }
 
 /**
@@ -64,6 +66,11 @@ const EnsoLitActionSchema = z.object({
       'https://',
       'Must be a valid HTTPS URL for the blockchain RPC endpoint'
     ),
+  nonce: z
+    .string()
+    .regex(/^\d+$/, 'Must be a whole number as a string')
+    .or(z.literal(''))
+    .optional(),
 });
 
 /**
@@ -83,6 +90,8 @@ const EnsoLitActionParameterDescriptions = {
     'The ID of the blockchain network to send the tokens on (e.g. 1 for Ethereum mainnet, 84532 for Base Sepolia).',
   rpcUrl:
     'The RPC URL of the blockchain network to connect to (e.g. "https://base-sepolia-rpc.publicnode.com").',
+  nonce:
+    'The nonce of the first transaction, as a whole number string (e.g. "42"); the following transactions use the next nonces. Leave empty to use the next nonce after the PKP\'s pending transactions.',
 } as const;
 
 /**
@@ -105,6 +114,28 @@ const validateEnsoParameters = (
   }));
 };
 
+/**
+ * Result of a successful Enso Lit Action execution.
+ * @property {'success'} status - The status of the execution.
+ * @property {string} routeHash - The hash of the route transaction.
+ * @property {string} [revokeHash] - The hash of the transaction revoking the router's approval, if the policy requires it.
+ */
+interface EnsoLitActionResult {
+  status: 'success';
+  routeHash: string;
+  revokeHash?: string;
+}
+
+/**
+ * Zod schema for validating EnsoLitActionResult.
+ * @type {z.ZodObject}
+ */
+const EnsoLitActionResultSchema = z.object({
+  status: z.literal('success'),
+  routeHash: z.string(),
+  revokeHash: z.string().optional(),
+});
+
 /**
  * Creates a network-specific Enso tool.
  * @param network - The supported Lit network (e.g., `datil-dev`, `datil-test`, `datil`).
@@ -114,10 +145,12 @@ const validateEnsoParameters = (
 const createNetworkTool = (
   network: SupportedLitNetwork,
   config: NetworkConfig
-): AwTool<EnsoLitActionParameters, EnsoPolicyType> => ({
+): AwTool<EnsoLitActionParameters, EnsoPolicyType, EnsoLitActionResult> => ({
   name: 'Enso',
   chain: 'ethereum',
   description: `Enso Tool`,
+  requiredCredentialNames: ['ensoApiKey'] as const,
+  transactionHashKeys: ['routeHash', 'revokeHash'],
   ipfsCid: IPFS_CIDS[network].tool,
   defaultPolicyIpfsCid: IPFS_CIDS[network].defaultPolicy,
   parameters: {
@@ -127,6 +160,10 @@ const createNetworkTool = (
     validate: validateEnsoParameters,
   },
   policy: EnsoPolicy,
+  result: {
+    type: {} as EnsoLitActionResult,
+    schema: EnsoLitActionResultSchema,
+  },
 });
 
 /**
@@ -140,6 +177,6 @@ export const Enso = Object.entries(NETWORK_CONFIGS).reduce(
   }),
   {} as Record<
     SupportedLitNetwork,
-    AwTool<EnsoLitActionParameters, EnsoPolicyType>
+    AwTool<EnsoLitActionParameters, EnsoPolicyType, EnsoLitActionResult>
   >
 );
@@ -0,0 +1,140 @@
+import { ethers } from 'ethers';
+
+import { EnsoPolicy, EnsoPolicyType } from '../src/lib/policy';
+
+describe('EnsoPolicy', () => {
+  const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+  const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+  const VAULT_SHARES = '0x83F20F44975D03b1b09e64809B757c47f942BEeA';
+
+  const validPolicy: EnsoPolicyType = {
+    type: 'Enso',
+    version: '1.0.0',
+    allowedTokens: [USDC, WETH],
+  };
+
+  const policyWithLimits: EnsoPolicyType = {
+    ...validPolicy,
+    allowedChains: [1, 8453],
+    allowedTokensOut: [VAULT_SHARES],
+    maxAmountIn: '1000000000',
+    maxApprovalAmount: '2000000000',
+    revokeApprovalAfterRoute: true,
+  };
+
+  describe('EnsoPolicy.schema', () => {
+    it('should validate a correct policy', () => {
+      expect(EnsoPolicy.schema.safeParse(validPolicy).success).toBe(true);
+      expect(EnsoPolicy.schema.safeParse(policyWithLimits).success).toBe(true);
+    });
+
+    describe('amount validation', () => {
+      it('should accept positive BigNumber strings', () => {
+        ['1', '1000000000', ethers.constants.MaxUint256.toString()].forEach(
+          (amount) => {
+            const result = EnsoPolicy.schema.safeParse({
+              ...validPolicy,
+              maxAmountIn: amount,
+              maxApprovalAmount: amount,
+            });
+            expect(result.success).toBe(true);
+          }
+        );
+      });
+
+      it('should reject invalid amounts', () => {
+        ['0', 'abc', '1.5', '', '-1'].forEach((amount) => {
+          expect(
+            EnsoPolicy.schema.safeParse({ ...validPolicy, maxAmountIn: amount })
+              .success
+          ).toBe(false);
+          expect(
+            EnsoPolicy.schema.safeParse({
+              ...validPolicy,
+              maxApprovalAmount: amount,
+            }).success
+          ).toBe(false);
+        });
+      });
+    });
+
+    describe('allowedChains validation', () => {
+      it('should reject invalid chain IDs', () => {
+        [[0], [-1], [1.5]].forEach((allowedChains) => {
+          const result = EnsoPolicy.schema.safeParse({
+            ...validPolicy,
+            allowedChains,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
+
+    describe('token validation', () => {
+      it('should reject invalid Ethereum addresses', () => {
+        [
+          { allowedTokens: ['0x123'] },
+          { allowedTokensOut: ['So11111111111111111111111111111111111111112'] },
+        ].forEach((tokens) => {
+          const result = EnsoPolicy.schema.safeParse({
+            ...validPolicy,
+            ...tokens,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+
+      it('should accept empty array of allowed tokens', () => {
+        const result = EnsoPolicy.schema.safeParse({
+          ...validPolicy,
+          allowedTokens: [],
+        });
+        expect(result.success).toBe(true);
+      });
+    });
+  });
+
+  describe('EnsoPolicy.encode', () => {
+    it('should encode a valid policy', () => {
+      const encoded = EnsoPolicy.encode(policyWithLimits);
+      expect(typeof encoded).toBe('string');
+      expect(encoded.startsWith('0x')).toBe(true);
+    });
+
+    it('should throw on invalid policy', () => {
+      expect(() => {
+        EnsoPolicy.encode({
+          ...validPolicy,
+          maxAmountIn: 'invalid',
+        });
+      }).toThrow();
+    });
+  });
+
+  describe('EnsoPolicy.decode', () => {
+    it('should maintain data integrity through encode/decode cycle', () => {
+      [validPolicy, policyWithLimits].forEach((policy) => {
+        const decoded = EnsoPolicy.decode(EnsoPolicy.encode(policy));
+        expect(decoded).toEqual(policy);
+      });
+    });
+
+    it('should leave empty limits unset', () => {
+      const decoded = EnsoPolicy.decode(
+        EnsoPolicy.encode({
+          ...validPolicy,
+          allowedChains: [],
+          allowedTokensOut: [],
+          revokeApprovalAfterRoute: false,
+        })
+      );
+      expect(decoded).toEqual(validPolicy);
+    });
+
+    it('should throw on invalid encoded data', () => {
+      expect(() => {
+        EnsoPolicy.decode('0x1234');
+      }).toThrow();
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import {
+  checkGasFeeCeiling,
   checkLitAuthAddressIsDelegatee,
+  enforceSpendingLimit,
   getPolicyParameters,
   getPkpToolRegistryContract,
 } from '@lit-protocol/aw-tool';
@@ -10,11 +12,18 @@ declare global {
   const pkpToolRegistryContractAddress: string;
   const pkpTokenId: string;
   const delegateeAddress: string;
+  const pkpEthAddress: string;
+  // The nonce of the spend recording, empty for the PKP's pending nonce on the registry's chain
+  const spendRecordNonce: string;
   const tokenInfo: {
     amount: string;
     tokenAddress: string;
     recipientAddress: string;
   };
+  const gasInfo: {
+    maxFeePerGas: string;
+    gasLimit: string;
+  };
 }
 
 (async () => {
@@ -123,5 +132,25 @@ declare global {
     }
   }
 
+  await checkGasFeeCeiling(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    gasInfo
+  );
+
+  // Recorded last, so a spend is only recorded for executions passing every other check
+  await enforceSpendingLimit(
+    pkpToolRegistryContract,
+    pkpEthAddress,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    tokenInfo.tokenAddress,
+    amountBN,
+    spendRecordNonce
+  );
+
   console.log('Policy parameters validated');
 })();
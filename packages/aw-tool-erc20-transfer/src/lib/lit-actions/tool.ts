@@ -1,8 +1,17 @@
 import {
+  callToolPolicy,
   fetchToolPolicyFromRegistry,
   getPkpInfo,
+  getPkpToolRegistryAddress,
   getPkpToolRegistryContract,
+  getSpendRecordNonce,
+  isSimulation,
   NETWORK_CONFIG,
+  parsePolicySpendRecord,
+  refundSpend,
+  setSimulationFailureResponse,
+  setSimulationResponse,
+  type SpendRecord,
 } from '@lit-protocol/aw-tool';
 
 import { getTokenInfo } from './utils/get-erc20-info';
@@ -20,15 +29,16 @@ declare global {
     tokenIn: string;
     recipientAddress: string;
     amountIn: string;
+    nonce?: string;
   };
 }
 
 (async () => {
   try {
+    const pkpToolRegistryAddress = getPkpToolRegistryAddress();
+
     console.log(`Using Lit Network: ${LIT_NETWORK}`);
-    console.log(
-      `Using PKP Tool Registry Address: ${PKP_TOOL_REGISTRY_ADDRESS}`
-    );
+    console.log(`Using PKP Tool Registry Address: ${pkpToolRegistryAddress}`);
     console.log(
       `Using Pubkey Router Address: ${
         NETWORK_CONFIG[LIT_NETWORK as keyof typeof NETWORK_CONFIG]
@@ -40,7 +50,7 @@ declare global {
     const toolIpfsCid = LitAuth.actionIpfsIds[0];
     const provider = new ethers.providers.JsonRpcProvider(params.rpcUrl);
     const pkpToolRegistryContract = await getPkpToolRegistryContract(
-      PKP_TOOL_REGISTRY_ADDRESS
+      pkpToolRegistryAddress
     );
     const pkp = await getPkpInfo(params.pkpEthAddress);
     const tokenInfo = await getTokenInfo(
@@ -51,65 +61,107 @@ declare global {
 
     console.log(`Token info: ${JSON.stringify(tokenInfo)}`);
 
+    const gasData = await getGasData(provider, pkp.ethAddress, params.nonce);
+    const gasLimit = await estimateGasLimit(
+      provider,
+      tokenInfo.amount,
+      pkp.ethAddress
+    );
+
     const toolPolicy = await fetchToolPolicyFromRegistry(
       pkpToolRegistryContract,
       pkp.tokenId,
       delegateeAddress,
       toolIpfsCid
     );
-    if (
+    const hasPolicy =
       toolPolicy.enabled &&
       toolPolicy.policyIpfsCid !== undefined &&
       toolPolicy.policyIpfsCid !== '0x' &&
-      toolPolicy.policyIpfsCid !== ''
-    ) {
+      toolPolicy.policyIpfsCid !== '';
+    let spendRecord: SpendRecord | null = null;
+    if (hasPolicy) {
       console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
 
+      const spendRecordNonce = await getSpendRecordNonce(
+        pkpToolRegistryContract,
+        params.chainId,
+        gasData.nonce
+      );
       const policyParams = {
         parentToolIpfsCid: toolIpfsCid,
-        pkpToolRegistryContractAddress: PKP_TOOL_REGISTRY_ADDRESS,
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
         pkpTokenId: pkp.tokenId,
         delegateeAddress,
+        pkpEthAddress: pkp.ethAddress,
+        spendRecordNonce,
         tokenInfo: {
           amount: tokenInfo.amount.toString(),
           tokenAddress: params.tokenIn,
           recipientAddress: params.recipientAddress,
         },
+        gasInfo: {
+          maxFeePerGas: ethers.BigNumber.from(gasData.maxFeePerGas).toString(),
+          gasLimit: gasLimit.toString(),
+        },
       };
 
       console.log(
         `Calling policy Lit Action with params: ${JSON.stringify(policyParams)}`
       );
 
-      await Lit.Actions.call({
-        ipfsId: toolPolicy.policyIpfsCid,
-        params: policyParams,
-      });
+      spendRecord = parsePolicySpendRecord(
+        await callToolPolicy(toolPolicy.policyIpfsCid, policyParams)
+      );
+      // The spend was recorded with the transaction's nonce, on the same chain
+      if (spendRecord && spendRecordNonce !== '') {
+        gasData.nonce += 1;
+      }
     } else {
       console.log(
         `No policy found for tool ${toolIpfsCid} on PKP ${pkp.tokenId} for delegatee ${delegateeAddress}`
       );
     }
 
-    const gasData = await getGasData(provider, pkp.ethAddress);
-    const gasLimit = await estimateGasLimit(
-      provider,
-      tokenInfo.amount,
-      pkp.ethAddress
-    );
-    const signedTx = await createAndSignTransaction(
-      params.tokenIn,
-      params.recipientAddress,
-      tokenInfo.amount,
-      gasLimit,
-      gasData,
-      params.chainId,
-      pkp.publicKey
-    );
+    if (isSimulation()) {
+      setSimulationResponse(
+        {
+          tokenInfo: {
+            decimals: tokenInfo.decimals,
+            pkpBalance: tokenInfo.pkpBalance.toString(),
+            amount: tokenInfo.amount.toString(),
+          },
+          gasLimit: gasLimit.toString(),
+          gasData,
+        },
+        hasPolicy ? toolPolicy.policyIpfsCid : undefined
+      );
+      return;
+    }
 
+    let signedTx;
+    try {
+      signedTx = await createAndSignTransaction(
+        params.tokenIn,
+        params.recipientAddress,
+        tokenInfo.amount,
+        gasLimit,
+        gasData,
+        params.chainId,
+        pkp.publicKey
+      );
+    } catch (err) {
+      // Nothing was broadcast, so the transfer's amount must not count towards the spending limit
+      if (spendRecord) {
+        await refundSpend(pkpToolRegistryContract, pkp, spendRecord);
+      }
+      throw err;
+    }
+
+    // A broadcast transfer may be mined even when broadcasting reports an error, so its spend is kept
     const result = await broadcastTransaction(provider, signedTx);
-    // Try to parse the result
     let parsedResult;
+    // Try to parse the result
     try {
       parsedResult = JSON.parse(result);
     } catch {
@@ -144,6 +196,11 @@ declare global {
   } catch (err: any) {
     console.error('Error:', err);
 
+    if (isSimulation()) {
+      setSimulationFailureResponse(err);
+      return;
+    }
+
     // Extract detailed error information
     const errorDetails = {
       message: err.message,
@@ -17,6 +17,7 @@ import { IPFS_CIDS } from './ipfs';
  * @property {string} amountIn - The amount of tokens to send as a string (will be parsed based on token decimals).
  * @property {string} chainId - The ID of the blockchain network.
  * @property {string} rpcUrl - The RPC URL of the blockchain network.
+ * @property {string} [nonce] - The nonce of the transaction, defaults to the next nonce after the PKP's pending transactions.
  */
 interface ERC20TransferLitActionParameters {
   pkpEthAddress: string;
@@ -25,6 +26,7 @@ interface ERC20TransferLitActionParameters {
   amountIn: string;
   chainId: string;
   rpcUrl: string;
+  nonce?: string;
 }
 
 /**
@@ -66,6 +68,11 @@ const ERC20TransferLitActionSchema = z.object({
       'https://',
       'Must be a valid HTTPS URL for the blockchain RPC endpoint'
     ),
+  nonce: z
+    .string()
+    .regex(/^\d+$/, 'Must be a whole number as a string')
+    .or(z.literal(''))
+    .optional(),
 });
 
 /**
@@ -86,6 +93,8 @@ const ERC20TransferLitActionParameterDescriptions = {
     'The ID of the blockchain network to send the tokens on (e.g. 1 for Ethereum mainnet, 84532 for Base Sepolia).',
   rpcUrl:
     'The RPC URL of the blockchain network to connect to (e.g. "https://base-sepolia-rpc.publicnode.com").',
+  nonce:
+    'The nonce to send the transaction with, as a whole number string (e.g. "42"), e.g. to order parallel executions for the same PKP. Leave empty to use the next nonce after the PKP\'s pending transactions.',
 } as const;
 
 /**
@@ -107,21 +116,45 @@ const validateERC20TransferParameters = (
   }));
 };
 
+/**
+ * Result of a successful ERC20 Send Lit Action execution.
+ * @property {'success'} status - The status of the execution.
+ * @property {string} transferHash - The hash of the transfer transaction.
+ */
+interface ERC20TransferLitActionResult {
+  status: 'success';
+  transferHash: string;
+}
+
+/**
+ * Zod schema for validating ERC20TransferLitActionResult.
+ * @type {z.ZodObject}
+ */
+const ERC20TransferLitActionResultSchema = z.object({
+  status: z.literal('success'),
+  transferHash: z.string(),
+});
+
 /**
  * Creates a network-specific ERC20Transfer tool.
  * @param {SupportedLitNetwork} network - The Lit network to use.
  * @param {NetworkConfig} config - The configuration for the network.
- * @returns {AwTool<ERC20TransferLitActionParameters, ERC20TransferPolicyType>} - The configured AwTool instance.
+ * @returns {AwTool<ERC20TransferLitActionParameters, ERC20TransferPolicyType, ERC20TransferLitActionResult>} - The configured AwTool instance.
  */
 const createNetworkTool = (
   network: SupportedLitNetwork,
   config: NetworkConfig
-): AwTool<ERC20TransferLitActionParameters, ERC20TransferPolicyType> => ({
+): AwTool<
+  ERC20TransferLitActionParameters,
+  ERC20TransferPolicyType,
+  ERC20TransferLitActionResult
+> => ({
   name: 'ERC20Transfer',
   description: `A Lit Action that sends ERC-20 tokens.`,
   ipfsCid: IPFS_CIDS[network].tool,
   defaultPolicyIpfsCid: IPFS_CIDS[network].defaultPolicy,
   chain: 'ethereum',
+  transactionHashKeys: ['transferHash'],
   parameters: {
     type: {} as ERC20TransferLitActionParameters,
     schema: ERC20TransferLitActionSchema,
@@ -129,11 +162,15 @@ const createNetworkTool = (
     validate: validateERC20TransferParameters,
   },
   policy: ERC20TransferPolicy,
+  result: {
+    type: {} as ERC20TransferLitActionResult,
+    schema: ERC20TransferLitActionResultSchema,
+  },
 });
 
 /**
  * A collection of network-specific ERC20Transfer tools.
- * @type {Record<SupportedLitNetwork, AwTool<ERC20TransferLitActionParameters, ERC20TransferPolicyType>>}
+ * @type {Record<SupportedLitNetwork, AwTool<ERC20TransferLitActionParameters, ERC20TransferPolicyType, ERC20TransferLitActionResult>>}
  */
 export const ERC20Transfer = Object.entries(NETWORK_CONFIGS).reduce(
   (acc, [network, config]) => ({
@@ -142,6 +179,10 @@ export const ERC20Transfer = Object.entries(NETWORK_CONFIGS).reduce(
   }),
   {} as Record<
     SupportedLitNetwork,
-    AwTool<ERC20TransferLitActionParameters, ERC20TransferPolicyType>
+    AwTool<
+      ERC20TransferLitActionParameters,
+      ERC20TransferPolicyType,
+      ERC20TransferLitActionResult
+    >
   >
 );
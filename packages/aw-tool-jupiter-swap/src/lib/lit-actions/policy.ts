@@ -16,6 +16,9 @@ declare global {
     amountIn: string;
     tokenIn: string;
     tokenOut: string;
+    slippageBps: string;
+    priceImpactPct: string;
+    dexLabels: string[];
   };
 }
 
@@ -35,17 +38,34 @@ function cleanDecodedString(str: string): string {
 }
 
 function validateToken(token: string, allowedTokens: string[], tokenType: string): string {
+  let tokenPubkey: string;
   try {
-    const tokenPubkey = new PublicKey(token).toBase58();
-    if (!allowedTokens.includes(tokenPubkey)) {
-      throw new Error(
-        `${tokenType} token ${token} not allowed. Must be one of: ${allowedTokens.join(', ')}`
-      );
-    }
-    return tokenPubkey;
+    tokenPubkey = new PublicKey(token).toBase58();
   } catch (error) {
     throw new Error(`Invalid Solana token address for ${tokenType}: ${token}`);
   }
+
+  if (!allowedTokens.includes(tokenPubkey)) {
+    throw new Error(
+      `${tokenType} token ${token} not allowed. Must be one of: ${allowedTokens.join(', ')}`
+    );
+  }
+  return tokenPubkey;
+}
+
+function parseMints(value: string, parameterName: string): string[] {
+  try {
+    const mints: string[] = JSON.parse(value);
+    return mints.map((addr: string) => {
+      try {
+        return new PublicKey(addr).toBase58();
+      } catch {
+        throw new Error(`Invalid token address in policy: ${addr}`);
+      }
+    });
+  } catch (error) {
+    throw new Error(`Invalid ${parameterName} format: ${error instanceof Error ? error.message : String(error)}`);
+  }
 }
 
 function toAtomicAmount(amount: string, decimals: number = 9): string {
@@ -78,11 +98,24 @@ function toAtomicAmount(amount: string, decimals: number = 9): string {
       pkpTokenId,
       parentToolIpfsCid,
       delegateeAddress,
-      ['maxAmount', 'allowedTokens']
+      [
+        'maxAmount',
+        'allowedTokens',
+        'maxSlippageBps',
+        'maxPriceImpactPct',
+        'allowedInputMints',
+        'allowedOutputMints',
+        'allowedDexes',
+      ]
     );
 
     let maxAmount = BigInt(0);
     let allowedTokens: string[] = [];
+    let maxSlippageBps: number | undefined;
+    let maxPriceImpactPct: number | undefined;
+    let allowedInputMints: string[] = [];
+    let allowedOutputMints: string[] = [];
+    let allowedDexes: string[] = [];
 
     console.log(
       `Retrieved policy parameters: ${JSON.stringify(policyParameters)}`
@@ -121,6 +154,26 @@ function toAtomicAmount(amount: string, decimals: number = 9): string {
               throw new Error(`Invalid allowedTokens format: ${error instanceof Error ? error.message : String(error)}`);
             }
             break;
+          case 'maxSlippageBps':
+            maxSlippageBps = Number(value);
+            console.log(`Formatted maxSlippageBps: ${maxSlippageBps}`);
+            break;
+          case 'maxPriceImpactPct':
+            maxPriceImpactPct = Number(value);
+            console.log(`Formatted maxPriceImpactPct: ${maxPriceImpactPct}`);
+            break;
+          case 'allowedInputMints':
+            allowedInputMints = parseMints(value, 'allowedInputMints');
+            console.log(`Normalized allowedInputMints: ${allowedInputMints.join(', ')}`);
+            break;
+          case 'allowedOutputMints':
+            allowedOutputMints = parseMints(value, 'allowedOutputMints');
+            console.log(`Normalized allowedOutputMints: ${allowedOutputMints.join(', ')}`);
+            break;
+          case 'allowedDexes':
+            allowedDexes = JSON.parse(value);
+            console.log(`Parsed allowedDexes: ${allowedDexes.join(', ')}`);
+            break;
         }
       } catch (error) {
         throw new Error(`Failed to decode parameter ${parameter.name}: ${error instanceof Error ? error.message : String(error)}`);
@@ -149,6 +202,50 @@ function toAtomicAmount(amount: string, decimals: number = 9): string {
       validateToken(toolParameters.tokenOut, allowedTokens, 'output');
     }
 
+    if (allowedInputMints.length > 0) {
+      console.log('Validating input token against allowed input mints...');
+      validateToken(toolParameters.tokenIn, allowedInputMints, 'input');
+    }
+
+    if (allowedOutputMints.length > 0) {
+      console.log('Validating output token against allowed output mints...');
+      validateToken(toolParameters.tokenOut, allowedOutputMints, 'output');
+    }
+
+    if (maxSlippageBps !== undefined) {
+      console.log(
+        `Checking if slippage ${toolParameters.slippageBps} bps exceeds maxSlippageBps ${maxSlippageBps} bps...`
+      );
+      if (Number(toolParameters.slippageBps) > maxSlippageBps) {
+        throw new Error(
+          `Slippage ${toolParameters.slippageBps} bps exceeds the maximum slippage ${maxSlippageBps} bps`
+        );
+      }
+    }
+
+    if (maxPriceImpactPct !== undefined) {
+      console.log(
+        `Checking if price impact ${toolParameters.priceImpactPct}% exceeds maxPriceImpactPct ${maxPriceImpactPct}%...`
+      );
+      if (Number(toolParameters.priceImpactPct) > maxPriceImpactPct) {
+        throw new Error(
+          `Price impact ${toolParameters.priceImpactPct}% exceeds the maximum price impact ${maxPriceImpactPct}%`
+        );
+      }
+    }
+
+    if (allowedDexes.length > 0) {
+      console.log('Validating the route DEXes against allowed DEXes...');
+      const disallowedDexes = toolParameters.dexLabels.filter(
+        (label) => !allowedDexes.includes(label)
+      );
+      if (disallowedDexes.length > 0) {
+        throw new Error(
+          `Route uses DEXes ${disallowedDexes.join(', ')} that are not allowed. Must be one of: ${allowedDexes.join(', ')}`
+        );
+      }
+    }
+
     console.log('Policy parameters validated');
   } catch (error) {
     throw new Error(`Policy validation failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -1,18 +1,25 @@
 import {
+  callToolPolicy,
   fetchToolPolicyFromRegistry,
   getPkpInfo,
+  getPkpToolRegistryAddress,
   getPkpToolRegistryContract,
+  isSimulation,
   NETWORK_CONFIG,
+  setSimulationFailureResponse,
+  setSimulationResponse,
 } from '@lit-protocol/aw-tool';
-
 import {
   signAndSendTransaction,
-  getJupiterQuote,
-  getJupiterSwapTransaction,
   createSolanaKeypair,
   createSolanaConnection,
+  toAtomicAmount,
+} from '@lit-protocol/aw-tool/solana';
+
+import {
+  getJupiterQuote,
+  getJupiterSwapTransaction,
   getTokenDecimals,
-  toAtomicAmount
 } from './utils';
 
 declare global {
@@ -24,15 +31,21 @@ declare global {
     amountIn: string;
     ciphertext: string;
     dataToEncryptHash: string;
+    slippageBps?: string;
   };
 }
 
+/**
+ * Slippage tolerance used when none is given, in basis points (0.5%).
+ */
+const DEFAULT_SLIPPAGE_BPS = '50';
+
 (async () => {
   try {
+    const pkpToolRegistryAddress = getPkpToolRegistryAddress();
+
     console.log(`Using Lit Network: ${LIT_NETWORK}`);
-    console.log(
-      `Using PKP Tool Registry Address: ${PKP_TOOL_REGISTRY_ADDRESS}`
-    );
+    console.log(`Using PKP Tool Registry Address: ${pkpToolRegistryAddress}`);
     console.log(
       `Using Pubkey Router Address: ${
         NETWORK_CONFIG[LIT_NETWORK as keyof typeof NETWORK_CONFIG]
@@ -43,7 +56,7 @@ declare global {
     const delegateeAddress = ethers.utils.getAddress(LitAuth.authSigAddress);
     const toolIpfsCid = LitAuth.actionIpfsIds[0];
     const pkpToolRegistryContract = await getPkpToolRegistryContract(
-      PKP_TOOL_REGISTRY_ADDRESS
+      pkpToolRegistryAddress
     );
     const pkp = await getPkpInfo(params.pkpEthAddress);
     const toolPolicy = await fetchToolPolicyFromRegistry(
@@ -53,26 +66,43 @@ declare global {
       toolIpfsCid
     );
 
-    if (
+    const connection = createSolanaConnection();
+
+    const inputDecimals = await getTokenDecimals(connection, params.tokenIn);
+    const atomicAmount = toAtomicAmount(params.amountIn, inputDecimals);
+    const slippageBps = params.slippageBps || DEFAULT_SLIPPAGE_BPS;
+
+    // The policy checks the quote the swap transaction is built from
+    const quoteResponse = await getJupiterQuote({
+      inputMint: params.tokenIn,
+      outputMint: params.tokenOut,
+      amount: atomicAmount,
+      slippageBps
+    });
+    const dexLabels: string[] = quoteResponse.routePlan.map(
+      (step: { swapInfo: { label: string } }) => step.swapInfo.label
+    );
+
+    const hasPolicy =
       toolPolicy.enabled &&
       toolPolicy.policyIpfsCid !== undefined &&
       toolPolicy.policyIpfsCid !== '0x' &&
-      toolPolicy.policyIpfsCid !== ''
-    ) {
+      toolPolicy.policyIpfsCid !== '';
+    if (hasPolicy) {
       console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
 
-      await Lit.Actions.call({
-        ipfsId: toolPolicy.policyIpfsCid,
-        params: {
-          parentToolIpfsCid: toolIpfsCid,
-          pkpToolRegistryContractAddress: PKP_TOOL_REGISTRY_ADDRESS,
-          pkpTokenId: pkp.tokenId,
-          delegateeAddress,
-          toolParameters: {
-            amountIn: params.amountIn,
-            tokenIn: params.tokenIn,
-            tokenOut: params.tokenOut,
-          },
+      await callToolPolicy(toolPolicy.policyIpfsCid, {
+        parentToolIpfsCid: toolIpfsCid,
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: pkp.tokenId,
+        delegateeAddress,
+        toolParameters: {
+          amountIn: params.amountIn,
+          tokenIn: params.tokenIn,
+          tokenOut: params.tokenOut,
+          slippageBps,
+          priceImpactPct: quoteResponse.priceImpactPct,
+          dexLabels,
         },
       });
     } else {
@@ -81,18 +111,29 @@ declare global {
       );
     }
 
-    const solanaKeyPair = await createSolanaKeypair(pkp.tokenId);
-    const connection = createSolanaConnection();
-
-    const inputDecimals = await getTokenDecimals(connection, params.tokenIn);
-    const atomicAmount = toAtomicAmount(params.amountIn, inputDecimals);
+    if (isSimulation()) {
+      setSimulationResponse(
+        {
+          inputDecimals,
+          amount: atomicAmount,
+          quote: {
+            outAmount: quoteResponse.outAmount,
+            otherAmountThreshold: quoteResponse.otherAmountThreshold,
+            priceImpactPct: quoteResponse.priceImpactPct,
+            slippageBps: quoteResponse.slippageBps,
+            dexLabels,
+          },
+        },
+        hasPolicy ? toolPolicy.policyIpfsCid : undefined
+      );
+      return;
+    }
 
-    const quoteResponse = await getJupiterQuote({
-      inputMint: params.tokenIn,
-      outputMint: params.tokenOut,
-      amount: atomicAmount,
-      slippageBps: "50" // Default 0.5% slippage
-    });
+    const solanaKeyPair = await createSolanaKeypair(
+      pkp.tokenId,
+      params.ciphertext,
+      params.dataToEncryptHash
+    );
 
     const transaction = await getJupiterSwapTransaction({
       quoteResponse,
@@ -103,13 +144,18 @@ declare global {
     const txid = await signAndSendTransaction(connection, transaction);
 
     Lit.Actions.setResponse({
-      response: {
+      response: JSON.stringify({
         status: 'success',
         message: 'Swap transaction sent successfully',
         txid
-      }
+      })
     });
   } catch (error: unknown) {
+    if (isSimulation()) {
+      setSimulationFailureResponse(error);
+      return;
+    }
+
     const errorDetails = {
       message: error instanceof Error ? error.message : String(error),
       type: error instanceof Error ? error.constructor.name : 'UnknownError',
@@ -117,11 +163,11 @@ declare global {
     };
 
     Lit.Actions.setResponse({
-      response: {
+      response: JSON.stringify({
         status: 'error',
         error: 'Transaction failed',
         details: errorDetails
-      }
+      })
     });
   }
 })();
\ No newline at end of file
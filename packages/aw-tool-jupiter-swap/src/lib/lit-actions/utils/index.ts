@@ -1,7 +1,4 @@
-export * from './solana-keypair';
-export * from './solana-connection';
 export * from './token-decimals';
-export * from './atomic-conversion';
 export * from './quote';
 export * from './swap';
-export * from './transaction'; 
\ No newline at end of file
+ 
\ No newline at end of file
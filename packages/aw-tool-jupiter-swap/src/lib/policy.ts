@@ -2,6 +2,18 @@ import { z } from 'zod';
 import { PublicKey } from '@solana/web3.js';
 import { ethers } from 'ethers';
 
+/**
+ * Schema for validating a Solana token mint address.
+ */
+const mintSchema = z.string().refine((val: string) => {
+  try {
+    new PublicKey(val);
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid Solana token address");
+
 /**
  * Schema for validating a JupiterSwap policy.
  * Ensures the policy has the correct structure and valid values.
@@ -27,16 +39,34 @@ const policySchema = z.object({
   ),
 
   /** The swap can only be performed between these tokens. */
-  allowedTokens: z.array(z.string().refine((val: string) => {
-    try {
-      new PublicKey(val);
-      return true;
-    } catch {
-      return false;
-    }
-  }, "Invalid Solana token address"))
+  allowedTokens: z.array(mintSchema),
+
+  /** The maximum slippage tolerance a swap may request, in basis points. */
+  maxSlippageBps: z.number().int().min(1).max(10000).optional(),
+
+  /** The maximum price impact of the quote, as a percentage compared against the quote's `priceImpactPct`. */
+  maxPriceImpactPct: z
+    .string()
+    .regex(/^\d*\.?\d+$/, 'Must be a non-negative decimal number as a string')
+    .optional(),
+
+  /** The tokens that can be swapped from. All tokens are allowed if unset or empty. */
+  allowedInputMints: z.array(mintSchema).optional(),
+
+  /** The tokens that can be swapped to. All tokens are allowed if unset or empty. */
+  allowedOutputMints: z.array(mintSchema).optional(),
+
+  /** The DEXes, by their Jupiter label (e.g. `Orca`), the quote's route may use. All DEXes are allowed if unset or empty. */
+  allowedDexes: z.array(z.string().min(1)).optional(),
 });
 
+/**
+ * The ABI type used to encode JupiterSwap policies.
+ * Address lists are encoded as JSON strings.
+ */
+const POLICY_ABI_TYPE =
+  'tuple(uint256 maxAmount, string allowedTokens, uint256 maxSlippageBps, string maxPriceImpactPct, string allowedInputMints, string allowedOutputMints, string allowedDexes)';
+
 /**
  * Encodes a JupiterSwap policy into a format suitable for on-chain storage.
  * @param policy - The JupiterSwap policy to encode.
@@ -51,11 +81,17 @@ function encodePolicy(policy: JupiterSwapPolicyType): string {
   const allowedTokensJson = JSON.stringify(policy.allowedTokens);
   
   // Encode the policy using ABI encoding for Ethereum compatibility
+  // Unset limits are encoded as empty values
   return ethers.utils.defaultAbiCoder.encode(
-    ['tuple(uint256 maxAmount, string allowedTokens)'],
+    [POLICY_ABI_TYPE],
     [{
       maxAmount: policy.maxAmount,
-      allowedTokens: allowedTokensJson
+      allowedTokens: allowedTokensJson,
+      maxSlippageBps: policy.maxSlippageBps ?? 0,
+      maxPriceImpactPct: policy.maxPriceImpactPct ?? '',
+      allowedInputMints: JSON.stringify(policy.allowedInputMints ?? []),
+      allowedOutputMints: JSON.stringify(policy.allowedOutputMints ?? []),
+      allowedDexes: JSON.stringify(policy.allowedDexes ?? [])
     }]
   );
 }
@@ -69,7 +105,7 @@ function encodePolicy(policy: JupiterSwapPolicyType): string {
 function decodePolicy(encodedPolicy: string): JupiterSwapPolicyType {
   // Decode the ABI-encoded string
   const decoded = ethers.utils.defaultAbiCoder.decode(
-    ['tuple(uint256 maxAmount, string allowedTokens)'],
+    [POLICY_ABI_TYPE],
     encodedPolicy
   )[0];
   
@@ -83,6 +119,27 @@ function decodePolicy(encodedPolicy: string): JupiterSwapPolicyType {
     allowedTokens: allowedTokens.map((addr: string) => new PublicKey(addr).toBase58())
   };
 
+  // Empty values were unset in the encoded policy
+  if (!decoded.maxSlippageBps.isZero()) {
+    policy.maxSlippageBps = decoded.maxSlippageBps.toNumber();
+  }
+  if (decoded.maxPriceImpactPct !== '') {
+    policy.maxPriceImpactPct = decoded.maxPriceImpactPct;
+  }
+
+  const allowedInputMints: string[] = JSON.parse(decoded.allowedInputMints);
+  if (allowedInputMints.length > 0) {
+    policy.allowedInputMints = allowedInputMints.map((addr) => new PublicKey(addr).toBase58());
+  }
+  const allowedOutputMints: string[] = JSON.parse(decoded.allowedOutputMints);
+  if (allowedOutputMints.length > 0) {
+    policy.allowedOutputMints = allowedOutputMints.map((addr) => new PublicKey(addr).toBase58());
+  }
+  const allowedDexes: string[] = JSON.parse(decoded.allowedDexes);
+  if (allowedDexes.length > 0) {
+    policy.allowedDexes = allowedDexes;
+  }
+
   return policySchema.parse(policy);
 }
 
@@ -15,12 +15,14 @@ import { IPFS_CIDS } from './ipfs';
  * @property {string} tokenIn - The Solana contract address of the SPL token you want to send. Must be a valid SPL address.
  * @property {string} tokenOut - The Solana contract address of the SPL token you want to receive. Must be a valid SPL address.
  * @property {string} amountIn - The amount of tokens to send, specified as a string. This should be a decimal number (e.g. "1.5" or "100"). The amount will be automatically adjusted based on the token\'s decimals.
+ * @property {string} [slippageBps] - The slippage tolerance in basis points, defaults to 50 (0.5%).
  */
 export interface JupiterSwapLitActionParameters {
   pkpEthAddress: string;
   tokenIn: string;
   tokenOut: string;
   amountIn: string;
+  slippageBps?: string;
 }
 
 /**
@@ -36,6 +38,14 @@ const JupiterSwapLitActionSchema = z.object({
   tokenIn: z.string(),
   tokenOut: z.string(),
   amountIn: z.string(),
+  slippageBps: z
+    .string()
+    .regex(/^\d+$/, 'Must be a whole number of basis points as a string')
+    .refine((val) => Number(val) <= 10000, {
+      message: 'Must not exceed 10000 basis points (100%)',
+    })
+    .or(z.literal(''))
+    .optional(),
 });
 
 /**
@@ -48,6 +58,7 @@ const JupiterSwapLitActionParameterDescriptions = {
   tokenIn: 'The Solana contract address of the SPL token you want to send. Must be a valid SPL address.',
   tokenOut: 'The Solana contract address of the SPL token you want to receive. Must be a valid SPL address.',
   amountIn: 'The amount of tokens to send, specified as a string. This should be a decimal number (e.g. "1.5" or "100"). The amount will be automatically adjusted based on the token\'s decimals.',
+  slippageBps: 'The maximum slippage to accept, in basis points as a string (e.g. "50" for 0.5%). Leave empty for 50 basis points.',
 } as const;
 
 /**
@@ -70,6 +81,28 @@ const validateJupiterSwapParameters = (
   }));
 };
 
+/**
+ * Result of a successful Jupiter Swap Lit Action execution.
+ * @property {'success'} status - The status of the execution.
+ * @property {string} message - A human-readable description of the result.
+ * @property {string} txid - The signature of the swap transaction.
+ */
+interface JupiterSwapLitActionResult {
+  status: 'success';
+  message: string;
+  txid: string;
+}
+
+/**
+ * Zod schema for validating JupiterSwapLitActionResult.
+ * @type {z.ZodObject}
+ */
+const JupiterSwapLitActionResultSchema = z.object({
+  status: z.literal('success'),
+  message: z.string(),
+  txid: z.string(),
+});
+
 /**
  * Creates a network-specific JupiterSwap tool.
  * @param network - The supported Lit network (e.g., `datil-dev`, `datil-test`, `datil`).
@@ -79,7 +112,11 @@ const validateJupiterSwapParameters = (
 const createNetworkTool = (
   network: SupportedLitNetwork,
   config: NetworkConfig
-): AwTool<JupiterSwapLitActionParameters, JupiterSwapPolicyType> => ({
+): AwTool<
+  JupiterSwapLitActionParameters,
+  JupiterSwapPolicyType,
+  JupiterSwapLitActionResult
+> => ({
   name: 'JupiterSwap',
   description: `JupiterSwap Tool`,
   ipfsCid: IPFS_CIDS[network].tool,
@@ -92,6 +129,10 @@ const createNetworkTool = (
     validate: validateJupiterSwapParameters,
   },
   policy: JupiterSwapPolicy,
+  result: {
+    type: {} as JupiterSwapLitActionResult,
+    schema: JupiterSwapLitActionResultSchema,
+  },
 });
 
 /**
@@ -105,6 +146,10 @@ export const JupiterSwap = Object.entries(NETWORK_CONFIGS).reduce(
   }),
   {} as Record<
     SupportedLitNetwork,
-    AwTool<JupiterSwapLitActionParameters, JupiterSwapPolicyType>
+    AwTool<
+      JupiterSwapLitActionParameters,
+      JupiterSwapPolicyType,
+      JupiterSwapLitActionResult
+    >
   >
-);
\ No newline at end of file
+);
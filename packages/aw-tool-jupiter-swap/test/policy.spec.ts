@@ -0,0 +1,183 @@
+import { ethers } from 'ethers';
+
+import { JupiterSwapPolicy, JupiterSwapPolicyType } from '../src/lib/policy';
+
+describe('JupiterSwapPolicy', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+  const validPolicy: JupiterSwapPolicyType = {
+    type: 'JupiterSwap',
+    version: '1.0.0',
+    maxAmount: '1000000000', // 1 SOL in lamports
+    allowedTokens: [SOL, USDC],
+  };
+
+  const policyWithLimits: JupiterSwapPolicyType = {
+    ...validPolicy,
+    maxSlippageBps: 100,
+    maxPriceImpactPct: '0.5',
+    allowedInputMints: [SOL],
+    allowedOutputMints: [USDC],
+    allowedDexes: ['Orca', 'Raydium'],
+  };
+
+  describe('JupiterSwapPolicy.schema', () => {
+    it('should validate a correct policy', () => {
+      expect(JupiterSwapPolicy.schema.safeParse(validPolicy).success).toBe(
+        true
+      );
+      expect(JupiterSwapPolicy.schema.safeParse(policyWithLimits).success).toBe(
+        true
+      );
+    });
+
+    describe('maxAmount validation', () => {
+      it('should accept valid BigNumber strings', () => {
+        const validAmounts = [
+          '1000000000',
+          '0',
+          ethers.constants.MaxUint256.toString(),
+        ];
+
+        validAmounts.forEach((maxAmount) => {
+          const result = JupiterSwapPolicy.schema.safeParse({
+            ...validPolicy,
+            maxAmount,
+          });
+          expect(result.success).toBe(true);
+        });
+      });
+
+      it('should reject invalid amounts', () => {
+        const invalidAmounts = ['abc', '1.5', '', '-1000000000'];
+
+        invalidAmounts.forEach((maxAmount) => {
+          const result = JupiterSwapPolicy.schema.safeParse({
+            ...validPolicy,
+            maxAmount,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
+
+    describe('maxSlippageBps validation', () => {
+      it('should accept whole basis points up to 100%', () => {
+        [1, 50, 10000].forEach((maxSlippageBps) => {
+          const result = JupiterSwapPolicy.schema.safeParse({
+            ...validPolicy,
+            maxSlippageBps,
+          });
+          expect(result.success).toBe(true);
+        });
+      });
+
+      it('should reject invalid basis points', () => {
+        [0, 10001, 1.5, -1].forEach((maxSlippageBps) => {
+          const result = JupiterSwapPolicy.schema.safeParse({
+            ...validPolicy,
+            maxSlippageBps,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
+
+    describe('maxPriceImpactPct validation', () => {
+      it('should accept non-negative decimal strings', () => {
+        ['0', '0.5', '.25', '10'].forEach((maxPriceImpactPct) => {
+          const result = JupiterSwapPolicy.schema.safeParse({
+            ...validPolicy,
+            maxPriceImpactPct,
+          });
+          expect(result.success).toBe(true);
+        });
+      });
+
+      it('should reject invalid percentages', () => {
+        ['', '-1', '1%', 'abc'].forEach((maxPriceImpactPct) => {
+          const result = JupiterSwapPolicy.schema.safeParse({
+            ...validPolicy,
+            maxPriceImpactPct,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
+
+    describe('mint validation', () => {
+      it('should reject invalid Solana addresses', () => {
+        [
+          { allowedTokens: ['not-a-solana-address'] },
+          { allowedInputMints: ['not-a-solana-address'] },
+          {
+            allowedOutputMints: ['0x1234567890123456789012345678901234567890'],
+          },
+        ].forEach((mints) => {
+          const result = JupiterSwapPolicy.schema.safeParse({
+            ...validPolicy,
+            ...mints,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
+
+    describe('allowedDexes validation', () => {
+      it('should reject empty DEX labels', () => {
+        const result = JupiterSwapPolicy.schema.safeParse({
+          ...validPolicy,
+          allowedDexes: [''],
+        });
+        expect(result.success).toBe(false);
+      });
+    });
+  });
+
+  describe('JupiterSwapPolicy.encode', () => {
+    it('should encode a valid policy', () => {
+      const encoded = JupiterSwapPolicy.encode(policyWithLimits);
+      expect(typeof encoded).toBe('string');
+      expect(encoded.startsWith('0x')).toBe(true);
+    });
+
+    it('should throw on invalid policy', () => {
+      expect(() => {
+        JupiterSwapPolicy.encode({
+          ...validPolicy,
+          maxSlippageBps: 20000,
+        });
+      }).toThrow();
+    });
+  });
+
+  describe('JupiterSwapPolicy.decode', () => {
+    it('should maintain data integrity through encode/decode cycle', () => {
+      [validPolicy, policyWithLimits].forEach((policy) => {
+        const decoded = JupiterSwapPolicy.decode(
+          JupiterSwapPolicy.encode(policy)
+        );
+        expect(decoded).toEqual(policy);
+      });
+    });
+
+    it('should leave empty limits unset', () => {
+      const decoded = JupiterSwapPolicy.decode(
+        JupiterSwapPolicy.encode({
+          ...validPolicy,
+          allowedInputMints: [],
+          allowedOutputMints: [],
+          allowedDexes: [],
+        })
+      );
+      expect(decoded).toEqual(validPolicy);
+    });
+
+    it('should throw on invalid encoded data', () => {
+      expect(() => {
+        JupiterSwapPolicy.decode('0x1234');
+      }).toThrow();
+    });
+  });
+});
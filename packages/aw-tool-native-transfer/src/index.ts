@@ -0,0 +1 @@
+export { NativeTransfer } from './lib/tool';
@@ -0,0 +1,136 @@
+import {
+  checkGasFeeCeiling,
+  checkLitAuthAddressIsDelegatee,
+  enforceSpendingLimit,
+  getPolicyParameters,
+  getPkpToolRegistryContract,
+} from '@lit-protocol/aw-tool';
+
+declare global {
+  // Required Inputs
+  const parentToolIpfsCid: string;
+  const pkpToolRegistryContractAddress: string;
+  const pkpTokenId: string;
+  const delegateeAddress: string;
+  const pkpEthAddress: string;
+  // The nonce of the spend recording, empty for the PKP's pending nonce on the registry's chain
+  const spendRecordNonce: string;
+  const transferInfo: {
+    amount: string;
+    recipientAddress: string;
+  };
+  const gasInfo: {
+    maxFeePerGas: string;
+    gasLimit: string;
+  };
+}
+
+(async () => {
+  const pkpToolRegistryContract = await getPkpToolRegistryContract(
+    pkpToolRegistryContractAddress
+  );
+
+  const isDelegatee = await checkLitAuthAddressIsDelegatee(
+    pkpToolRegistryContract,
+    pkpTokenId
+  );
+  if (!isDelegatee) {
+    throw new Error(
+      `Session signer ${ethers.utils.getAddress(
+        LitAuth.authSigAddress
+      )} is not a delegatee for PKP ${pkpTokenId}`
+    );
+  }
+
+  const policyParameters = await getPolicyParameters(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    ['maxAmount', 'allowedRecipients']
+  );
+
+  let maxAmount: any;
+  let allowedRecipients: string[] = [];
+
+  console.log(
+    `Retrieved policy parameters: ${JSON.stringify(policyParameters)}`
+  );
+
+  for (const parameter of policyParameters) {
+    const value = ethers.utils.toUtf8String(parameter.value);
+
+    switch (parameter.name) {
+      case 'maxAmount':
+        maxAmount = ethers.BigNumber.from(value);
+        console.log(`Formatted maxAmount: ${maxAmount.toString()}`);
+        break;
+      case 'allowedRecipients':
+        allowedRecipients = JSON.parse(value);
+        allowedRecipients = allowedRecipients.map((addr: string) =>
+          ethers.utils.getAddress(addr)
+        );
+        console.log(
+          `Formatted allowedRecipients: ${allowedRecipients.join(', ')}`
+        );
+        break;
+    }
+  }
+
+  // Convert string amount to BigNumber and compare
+  const amountBN = ethers.BigNumber.from(transferInfo.amount);
+
+  if (maxAmount !== undefined) {
+    console.log(
+      `Checking if amount ${amountBN.toString()} exceeds maxAmount ${maxAmount.toString()}...`
+    );
+
+    if (amountBN.gt(maxAmount)) {
+      throw new Error(
+        `Amount ${ethers.utils.formatEther(
+          amountBN
+        )} exceeds the maximum amount ${ethers.utils.formatEther(maxAmount)}`
+      );
+    }
+  }
+
+  if (allowedRecipients.length > 0) {
+    console.log(
+      `Checking if ${transferInfo.recipientAddress} is an allowed recipient...`
+    );
+
+    if (
+      !allowedRecipients.includes(
+        ethers.utils.getAddress(transferInfo.recipientAddress)
+      )
+    ) {
+      throw new Error(
+        `Recipient ${
+          transferInfo.recipientAddress
+        } not allowed. Allowed recipients: ${allowedRecipients.join(', ')}`
+      );
+    }
+  }
+
+  await checkGasFeeCeiling(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    gasInfo
+  );
+
+  // Recorded last, so a spend is only recorded for executions passing every other check
+  await enforceSpendingLimit(
+    pkpToolRegistryContract,
+    pkpEthAddress,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    ethers.constants.AddressZero,
+    amountBN,
+    spendRecordNonce
+  );
+
+  console.log('Policy parameters validated');
+})();
@@ -0,0 +1,230 @@
+import {
+  callToolPolicy,
+  fetchToolPolicyFromRegistry,
+  getPkpInfo,
+  getPkpToolRegistryAddress,
+  getPkpToolRegistryContract,
+  getSpendRecordNonce,
+  isSimulation,
+  NETWORK_CONFIG,
+  parsePolicySpendRecord,
+  refundSpend,
+  setSimulationFailureResponse,
+  setSimulationResponse,
+  type SpendRecord,
+} from '@lit-protocol/aw-tool';
+
+import { getNativeInfo } from './utils/get-native-info';
+import { getGasData } from './utils/get-gas-data';
+import { estimateGasLimit } from './utils/estimate-gas-limit';
+import { createAndSignTransaction } from './utils/create-and-sign-tx';
+import { broadcastTransaction } from './utils/broadcast-tx';
+
+declare global {
+  // Required Inputs
+  const params: {
+    pkpEthAddress: string;
+    rpcUrl: string;
+    chainId: string;
+    recipientAddress: string;
+    amountIn: string;
+    nonce?: string;
+  };
+}
+
+(async () => {
+  try {
+    const pkpToolRegistryAddress = getPkpToolRegistryAddress();
+
+    console.log(`Using Lit Network: ${LIT_NETWORK}`);
+    console.log(`Using PKP Tool Registry Address: ${pkpToolRegistryAddress}`);
+    console.log(
+      `Using Pubkey Router Address: ${
+        NETWORK_CONFIG[LIT_NETWORK as keyof typeof NETWORK_CONFIG]
+          .pubkeyRouterAddress
+      }`
+    );
+
+    const delegateeAddress = ethers.utils.getAddress(LitAuth.authSigAddress);
+    const toolIpfsCid = LitAuth.actionIpfsIds[0];
+    const provider = new ethers.providers.JsonRpcProvider(params.rpcUrl);
+    const pkpToolRegistryContract = await getPkpToolRegistryContract(
+      pkpToolRegistryAddress
+    );
+    const pkp = await getPkpInfo(params.pkpEthAddress);
+    const nativeInfo = await getNativeInfo(provider, pkp.ethAddress);
+
+    console.log(`Native currency info: ${JSON.stringify(nativeInfo)}`);
+
+    const gasData = await getGasData(provider, pkp.ethAddress, params.nonce);
+    const gasLimit = await estimateGasLimit(
+      provider,
+      nativeInfo.amount,
+      pkp.ethAddress
+    );
+
+    // The PKP pays for gas in the currency it transfers
+    const maxGasCost = gasLimit.mul(gasData.maxFeePerGas);
+    if (nativeInfo.amount.add(maxGasCost).gt(nativeInfo.pkpBalance)) {
+      throw new Error(
+        `Insufficient balance for amount and gas. PKP balance: ${ethers.utils.formatEther(
+          nativeInfo.pkpBalance
+        )}. Required: ${ethers.utils.formatEther(
+          nativeInfo.amount.add(maxGasCost)
+        )}`
+      );
+    }
+
+    const toolPolicy = await fetchToolPolicyFromRegistry(
+      pkpToolRegistryContract,
+      pkp.tokenId,
+      delegateeAddress,
+      toolIpfsCid
+    );
+    const hasPolicy =
+      toolPolicy.enabled &&
+      toolPolicy.policyIpfsCid !== undefined &&
+      toolPolicy.policyIpfsCid !== '0x' &&
+      toolPolicy.policyIpfsCid !== '';
+    let spendRecord: SpendRecord | null = null;
+    if (hasPolicy) {
+      console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
+
+      const spendRecordNonce = await getSpendRecordNonce(
+        pkpToolRegistryContract,
+        params.chainId,
+        gasData.nonce
+      );
+      const policyParams = {
+        parentToolIpfsCid: toolIpfsCid,
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: pkp.tokenId,
+        delegateeAddress,
+        pkpEthAddress: pkp.ethAddress,
+        spendRecordNonce,
+        transferInfo: {
+          amount: nativeInfo.amount.toString(),
+          recipientAddress: params.recipientAddress,
+        },
+        gasInfo: {
+          maxFeePerGas: ethers.BigNumber.from(gasData.maxFeePerGas).toString(),
+          gasLimit: gasLimit.toString(),
+        },
+      };
+
+      console.log(
+        `Calling policy Lit Action with params: ${JSON.stringify(policyParams)}`
+      );
+
+      spendRecord = parsePolicySpendRecord(
+        await callToolPolicy(toolPolicy.policyIpfsCid, policyParams)
+      );
+      // The spend was recorded with the transaction's nonce, on the same chain
+      if (spendRecord && spendRecordNonce !== '') {
+        gasData.nonce += 1;
+      }
+    } else {
+      console.log(
+        `No policy found for tool ${toolIpfsCid} on PKP ${pkp.tokenId} for delegatee ${delegateeAddress}`
+      );
+    }
+
+    if (isSimulation()) {
+      setSimulationResponse(
+        {
+          nativeInfo: {
+            decimals: nativeInfo.decimals,
+            pkpBalance: nativeInfo.pkpBalance.toString(),
+            amount: nativeInfo.amount.toString(),
+          },
+          gasLimit: gasLimit.toString(),
+          gasData,
+        },
+        hasPolicy ? toolPolicy.policyIpfsCid : undefined
+      );
+      return;
+    }
+
+    let signedTx;
+    try {
+      signedTx = await createAndSignTransaction(
+        params.recipientAddress,
+        nativeInfo.amount,
+        gasLimit,
+        gasData,
+        params.chainId,
+        pkp.publicKey
+      );
+    } catch (err) {
+      // Nothing was broadcast, so the transfer's amount must not count towards the spending limit
+      if (spendRecord) {
+        await refundSpend(pkpToolRegistryContract, pkp, spendRecord);
+      }
+      throw err;
+    }
+
+    // A broadcast transfer may be mined even when broadcasting reports an error, so its spend is kept
+    const result = await broadcastTransaction(provider, signedTx);
+    let parsedResult;
+    // Try to parse the result
+    try {
+      parsedResult = JSON.parse(result);
+    } catch {
+      // If it's not JSON, assume it's a transaction hash
+      parsedResult = result;
+    }
+
+    // Check if result is an error object
+    if (typeof parsedResult === 'object' && parsedResult.error) {
+      throw new Error(parsedResult.message);
+    }
+
+    // At this point, result should be a transaction hash
+    if (!parsedResult) {
+      throw new Error('Transaction failed: No transaction hash returned');
+    }
+
+    if (!ethers.utils.isHexString(parsedResult)) {
+      throw new Error(
+        `Transaction failed: Invalid transaction hash format. Received: ${JSON.stringify(
+          parsedResult
+        )}`
+      );
+    }
+
+    Lit.Actions.setResponse({
+      response: JSON.stringify({
+        status: 'success',
+        transferHash: parsedResult,
+      }),
+    });
+  } catch (err: any) {
+    console.error('Error:', err);
+
+    if (isSimulation()) {
+      setSimulationFailureResponse(err);
+      return;
+    }
+
+    // Extract detailed error information
+    const errorDetails = {
+      message: err.message,
+      code: err.code,
+      reason: err.reason,
+      error: err.error,
+      ...(err.transaction && { transaction: err.transaction }),
+      ...(err.receipt && { receipt: err.receipt }),
+    };
+
+    // Construct a detailed error message
+    const errorMessage = err.message || String(err);
+
+    Lit.Actions.setResponse({
+      response: JSON.stringify({
+        status: 'error',
+        error: errorMessage,
+        details: errorDetails,
+      }),
+    });
+  }
+})();
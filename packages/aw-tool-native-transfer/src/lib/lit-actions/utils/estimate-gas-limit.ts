@@ -0,0 +1,29 @@
+/**
+ * Estimates the gas limit for the transaction.
+ * @param {any} provider - The Ethereum provider.
+ * @param {any} amount - The amount to transfer.
+ * @returns {Promise<any>} Estimated gas limit.
+ */
+export const estimateGasLimit = async (
+  provider: any,
+  amount: any,
+  pkpEthAddress: string
+) => {
+  console.log(`Estimating gas limit...`);
+
+  try {
+    const estimatedGas = await provider.estimateGas({
+      from: pkpEthAddress,
+      to: params.recipientAddress,
+      value: amount,
+    });
+    console.log('Estimated gas limit:', estimatedGas.toString());
+    return estimatedGas.mul(120).div(100);
+  } catch (error) {
+    console.error(
+      'Could not estimate gas. Using fallback gas limit of 21000.',
+      error
+    );
+    return ethers.BigNumber.from('21000');
+  }
+};
@@ -0,0 +1,34 @@
+/**
+ * Retrieves the native currency information (decimals, balance, and parsed amount).
+ * @param {any} provider - The Ethereum provider.
+ * @param {string} pkpEthAddress - The Ethereum address of the PKP.
+ * @returns {Promise<{ decimals: number, pkpBalance: BigNumber, amount: BigNumber }>} Native currency information.
+ */
+export async function getNativeInfo(provider: any, pkpEthAddress: string) {
+  console.log('Getting native currency info...');
+
+  try {
+    console.log('Validating recipient address...');
+    ethers.utils.getAddress(params.recipientAddress);
+  } catch {
+    throw new Error(`Invalid recipient address: ${params.recipientAddress}`);
+  }
+
+  // The native currency of EVM chains always has 18 decimals
+  const decimals = 18;
+  const amount = ethers.utils.parseUnits(params.amountIn, decimals);
+  console.log('Amount to send:', amount.toString());
+
+  const pkpBalance = await provider.getBalance(pkpEthAddress);
+  console.log('PKP balance:', pkpBalance.toString());
+
+  if (amount.gt(pkpBalance)) {
+    throw new Error(
+      `Insufficient balance. PKP balance: ${ethers.utils.formatEther(
+        pkpBalance
+      )}. Required: ${ethers.utils.formatEther(amount)}`
+    );
+  }
+
+  return { decimals, pkpBalance, amount };
+}
@@ -0,0 +1,94 @@
+import { BaseEthereumAddressSchema } from '@lit-protocol/aw-tool';
+import { z } from 'zod';
+import { ethers } from 'ethers';
+
+/**
+ * Schema for validating a native transfer policy.
+ * @type {z.ZodObject}
+ */
+const policySchema = z.object({
+  type: z.literal('NativeTransfer'), // Policy type must be 'NativeTransfer'
+  version: z.string(), // Version of the policy
+  maxAmount: z.string().refine(
+    (val) => {
+      try {
+        const bn = ethers.BigNumber.from(val);
+        return !bn.isNegative(); // Ensure the amount is non-negative
+      } catch {
+        return false; // Invalid format
+      }
+    },
+    { message: 'Invalid amount format. Must be a non-negative integer.' }
+  ), // Maximum amount per transfer, in wei
+  allowedRecipients: z.array(BaseEthereumAddressSchema), // Array of allowed recipient addresses
+});
+
+/**
+ * Encodes a native transfer policy into a packed ABI-encoded string.
+ * @param {NativeTransferPolicyType} policy - The policy to encode.
+ * @returns {string} ABI-encoded string representing the policy.
+ * @throws {z.ZodError} If the policy does not match the schema.
+ */
+function encodePolicy(policy: NativeTransferPolicyType): string {
+  // Validate the policy against the schema
+  policySchema.parse(policy);
+
+  // Encode the policy using ABI encoding
+  return ethers.utils.defaultAbiCoder.encode(
+    ['tuple(uint256 maxAmount, address[] allowedRecipients)'],
+    [
+      {
+        maxAmount: policy.maxAmount,
+        allowedRecipients: policy.allowedRecipients,
+      },
+    ]
+  );
+}
+
+/**
+ * Decodes an ABI-encoded string into a native transfer policy.
+ * @param {string} encodedPolicy - The ABI-encoded policy string.
+ * @returns {NativeTransferPolicyType} The decoded policy object.
+ * @throws {z.ZodError} If the decoded policy does not match the schema.
+ */
+function decodePolicy(encodedPolicy: string): NativeTransferPolicyType {
+  // Decode the ABI-encoded string
+  const decoded = ethers.utils.defaultAbiCoder.decode(
+    ['tuple(uint256 maxAmount, address[] allowedRecipients)'],
+    encodedPolicy
+  )[0];
+
+  // Construct the policy object
+  const policy: NativeTransferPolicyType = {
+    type: 'NativeTransfer',
+    version: '1.0.0',
+    maxAmount: decoded.maxAmount.toString(),
+    allowedRecipients: decoded.allowedRecipients,
+  };
+
+  // Validate the decoded policy against the schema
+  return policySchema.parse(policy);
+}
+
+/**
+ * Type representing a native transfer policy.
+ * @typedef {z.infer<typeof policySchema>} NativeTransferPolicyType
+ */
+export type NativeTransferPolicyType = z.infer<typeof policySchema>;
+
+/**
+ * Utility object for working with native transfer policies.
+ * @type {object}
+ * @property {NativeTransferPolicyType} type - Type placeholder for the policy.
+ * @property {string} version - Version of the policy schema.
+ * @property {z.ZodObject} schema - Zod schema for validating policies.
+ * @property {function} encode - Function to encode a policy into an ABI-encoded string.
+ * @property {function} decode - Function to decode an ABI-encoded string into a policy.
+ */
+export const NativeTransferPolicy = {
+  type: {} as NativeTransferPolicyType, // Placeholder for the policy type
+  version: '1.0.0', // Version of the policy schema
+  schema: policySchema, // Zod schema for validation
+  encode: encodePolicy, // Function to encode a policy
+  decode: decodePolicy, // Function to decode a policy
+};
@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import {
+  type AwTool,
+  type SupportedLitNetwork,
+  NETWORK_CONFIGS,
+  NetworkConfig,
+} from '@lit-protocol/aw-tool';
+
+import { NativeTransferPolicy, type NativeTransferPolicyType } from './policy';
+import { IPFS_CIDS } from './ipfs';
+
+/**
+ * Parameters required for the Native Transfer Lit Action.
+ * @property {string} pkpEthAddress - The Ethereum address of the PKP.
+ * @property {string} recipientAddress - The Ethereum address to receive the native currency.
+ * @property {string} amountIn - The amount of native currency to send as a string (will be parsed with 18 decimals).
+ * @property {string} chainId - The ID of the blockchain network.
+ * @property {string} rpcUrl - The RPC URL of the blockchain network.
+ * @property {string} [nonce] - The nonce of the transaction, defaults to the next nonce after the PKP's pending transactions.
+ */
+interface NativeTransferLitActionParameters {
+  pkpEthAddress: string;
+  recipientAddress: string;
+  amountIn: string;
+  chainId: string;
+  rpcUrl: string;
+  nonce?: string;
+}
+
+/**
+ * Zod schema for validating NativeTransferLitActionParameters.
+ * @type {z.ZodObject}
+ */
+const NativeTransferLitActionSchema = z.object({
+  pkpEthAddress: z
+    .string()
+    .regex(
+      /^0x[a-fA-F0-9]{40}$/,
+      'Must be a valid Ethereum address (0x followed by 40 hexadecimal characters)'
+    ),
+  recipientAddress: z
+    .string()
+    .regex(
+      /^0x[a-fA-F0-9]{40}$/,
+      'Must be a valid Ethereum address (0x followed by 40 hexadecimal characters)'
+    ),
+  amountIn: z
+    .string()
+    .regex(
+      /^\d*\.?\d+$/,
+      'Must be a valid decimal number as a string (e.g. "1.5" or "100")'
+    ),
+  chainId: z
+    .string()
+    .regex(/^\d+$/, 'Must be a valid chain ID number as a string'),
+  rpcUrl: z
+    .string()
+    .url()
+    .startsWith(
+      'https://',
+      'Must be a valid HTTPS URL for the blockchain RPC endpoint'
+    ),
+  nonce: z
+    .string()
+    .regex(/^\d+$/, 'Must be a whole number as a string')
+    .or(z.literal(''))
+    .optional(),
+});
+
+/**
+ * Descriptions of each parameter for the Native Transfer Lit Action.
+ * These descriptions are designed to be consumed by LLMs to understand the required parameters.
+ * @type {Record<string, string>}
+ */
+const NativeTransferLitActionParameterDescriptions = {
+  pkpEthAddress:
+    'The Ethereum address of the PKP that will be used to sign and send the transaction.',
+  recipientAddress:
+    'The Ethereum wallet address of the recipient who will receive the native currency (e.g. ETH). Must be a valid Ethereum address starting with 0x.',
+  amountIn:
+    'The amount of native currency to send, specified as a string in whole units (e.g. "0.05" for 0.05 ETH). The amount will be converted to wei.',
+  chainId:
+    'The ID of the blockchain network to send the native currency on (e.g. 1 for Ethereum mainnet, 84532 for Base Sepolia).',
+  rpcUrl:
+    'The RPC URL of the blockchain network to connect to (e.g. "https://base-sepolia-rpc.publicnode.com").',
+  nonce:
+    'The nonce to send the transaction with, as a whole number string (e.g. "42"), e.g. to order parallel executions for the same PKP. Leave empty to use the next nonce after the PKP\'s pending transactions.',
+} as const;
+
+/**
+ * Validates the provided parameters against the NativeTransferLitActionSchema.
+ * @param {unknown} params - The parameters to validate.
+ * @returns {true | Array<{ param: string; error: string }>} - Returns `true` if valid, otherwise an array of errors.
+ */
+const validateNativeTransferParameters = (
+  params: unknown
+): true | Array<{ param: string; error: string }> => {
+  const result = NativeTransferLitActionSchema.safeParse(params);
+  if (result.success) {
+    return true;
+  }
+
+  return result.error.issues.map((issue) => ({
+    param: issue.path[0] as string,
+    error: issue.message,
+  }));
+};
+
+/**
+ * Result of a successful Native Transfer Lit Action execution.
+ * @property {'success'} status - The status of the execution.
+ * @property {string} transferHash - The hash of the transfer transaction.
+ */
+interface NativeTransferLitActionResult {
+  status: 'success';
+  transferHash: string;
+}
+
+/**
+ * Zod schema for validating NativeTransferLitActionResult.
+ * @type {z.ZodObject}
+ */
+const NativeTransferLitActionResultSchema = z.object({
+  status: z.literal('success'),
+  transferHash: z.string(),
+});
+
+/**
+ * Creates a network-specific NativeTransfer tool.
+ * @param {SupportedLitNetwork} network - The Lit network to use.
+ * @param {NetworkConfig} config - The configuration for the network.
+ * @returns {AwTool<NativeTransferLitActionParameters, NativeTransferPolicyType, NativeTransferLitActionResult>} - The configured AwTool instance.
+ */
+const createNetworkTool = (
+  network: SupportedLitNetwork,
+  config: NetworkConfig
+): AwTool<
+  NativeTransferLitActionParameters,
+  NativeTransferPolicyType,
+  NativeTransferLitActionResult
+> => ({
+  name: 'NativeTransfer',
+  description: `A Lit Action that sends the native currency of an EVM chain (e.g. ETH).`,
+  ipfsCid: IPFS_CIDS[network].tool,
+  defaultPolicyIpfsCid: IPFS_CIDS[network].defaultPolicy,
+  chain: 'ethereum',
+  transactionHashKeys: ['transferHash'],
+  parameters: {
+    type: {} as NativeTransferLitActionParameters,
+    schema: NativeTransferLitActionSchema,
+    descriptions: NativeTransferLitActionParameterDescriptions,
+    validate: validateNativeTransferParameters,
+  },
+  policy: NativeTransferPolicy,
+  result: {
+    type: {} as NativeTransferLitActionResult,
+    schema: NativeTransferLitActionResultSchema,
+  },
+});
+
+/**
+ * A collection of network-specific NativeTransfer tools.
+ * @type {Record<SupportedLitNetwork, AwTool<NativeTransferLitActionParameters, NativeTransferPolicyType, NativeTransferLitActionResult>>}
+ */
+export const NativeTransfer = Object.entries(NETWORK_CONFIGS).reduce(
+  (acc, [network, config]) => ({
+    ...acc,
+    [network]: createNetworkTool(network as SupportedLitNetwork, config),
+  }),
+  {} as Record<
+    SupportedLitNetwork,
+    AwTool<
+      NativeTransferLitActionParameters,
+      NativeTransferPolicyType,
+      NativeTransferLitActionResult
+    >
+  >
+);
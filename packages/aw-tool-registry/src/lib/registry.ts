@@ -1,9 +1,14 @@
 import type { AwTool } from '@lit-protocol/aw-tool';
 import { ERC20Transfer } from '@lit-protocol/aw-tool-erc20-transfer';
+import { NativeTransfer } from '@lit-protocol/aw-tool-native-transfer';
+import { SpeedUpTransaction } from '@lit-protocol/aw-tool-speed-up-transaction';
+import { CancelTransaction } from '@lit-protocol/aw-tool-cancel-transaction';
+import { ContractCall } from '@lit-protocol/aw-tool-contract-call';
 import { UniswapSwap } from '@lit-protocol/aw-tool-uniswap-swap';
 import { SignEcdsa } from '@lit-protocol/aw-tool-sign-ecdsa';
 import { SignEddsa } from '@lit-protocol/aw-tool-sign-eddsa';
 import { JupiterSwap } from '@lit-protocol/aw-tool-jupiter-swap';
+import { SplTransfer } from '@lit-protocol/aw-tool-spl-transfer';
 import { Enso } from '@lit-protocol/aw-tool-enso';
 
 /**
@@ -123,8 +128,13 @@ export function listAllTools<T extends AwTool<any, any>>(): Array<{
 
 // Register the ERC20Transfer tool
 registerTool('ERC20Transfer', ERC20Transfer);
+registerTool('NativeTransfer', NativeTransfer);
+registerTool('SpeedUpTransaction', SpeedUpTransaction);
+registerTool('CancelTransaction', CancelTransaction);
+registerTool('ContractCall', ContractCall);
 registerTool('UniswapSwap', UniswapSwap);
 registerTool('SignEcdsa', SignEcdsa);
 registerTool('SignEddsa', SignEddsa);
 registerTool('JupiterSwap', JupiterSwap);
+registerTool('SplTransfer', SplTransfer);
 registerTool('Enso', Enso);
@@ -12,6 +12,7 @@ declare global {
   const delegateeAddress: string;
   const toolParameters: {
     message: string;
+    signingMode: 'raw' | 'eip191' | 'eip712';
   };
 }
 
@@ -32,15 +33,63 @@ declare global {
     );
   }
 
-  // Get allowed prefixes from policy parameters
+  // Get allowed prefixes and typed data domains from policy parameters
   const policyParameters = await getPolicyParameters(
     pkpToolRegistryContract,
     pkpTokenId,
     parentToolIpfsCid,
     delegateeAddress,
-    ['allowedPrefixes']
+    ['allowedPrefixes', 'allowedDomains']
   );
 
+  if (toolParameters.signingMode === 'eip712') {
+    // Extract and parse allowedDomains
+    const allowedDomainsParam = policyParameters.find(
+      (p: { name: string; value: Uint8Array }) => p.name === 'allowedDomains'
+    );
+    if (!allowedDomainsParam || allowedDomainsParam.value.length === 0) {
+      throw new Error('No allowedDomains parameter found in policy');
+    }
+
+    const allowedDomains: Array<{
+      name?: string;
+      version?: string;
+      chainId?: number;
+      verifyingContract?: string;
+    }> = JSON.parse(ethers.utils.toUtf8String(allowedDomainsParam.value));
+    if (!allowedDomains.length) {
+      throw new Error('No allowed domains defined in policy');
+    }
+
+    // Check if the typed data domain matches every field set on any allowed domain
+    const { domain } = JSON.parse(toolParameters.message);
+    const domainIsAllowed = allowedDomains.some(
+      (allowedDomain) =>
+        (allowedDomain.name === undefined ||
+          allowedDomain.name === domain.name) &&
+        (allowedDomain.version === undefined ||
+          allowedDomain.version === domain.version) &&
+        (allowedDomain.chainId === undefined ||
+          (domain.chainId !== undefined &&
+            ethers.BigNumber.from(domain.chainId).eq(allowedDomain.chainId))) &&
+        (allowedDomain.verifyingContract === undefined ||
+          (domain.verifyingContract !== undefined &&
+            ethers.utils.getAddress(domain.verifyingContract) ===
+              ethers.utils.getAddress(allowedDomain.verifyingContract)))
+    );
+
+    if (!domainIsAllowed) {
+      throw new Error(
+        `Typed data domain ${JSON.stringify(
+          domain
+        )} is not allowed by the policy`
+      );
+    }
+
+    console.log('Typed data domain validated successfully');
+    return;
+  }
+
   // Extract and parse allowedPrefixes
   const allowedPrefixesParam = policyParameters.find(
     (p: { name: string; value: Uint8Array }) => p.name === 'allowedPrefixes'
@@ -48,7 +97,6 @@ declare global {
   if (!allowedPrefixesParam) {
     throw new Error('No allowedPrefixes parameter found in policy');
   }
-
   const allowedPrefixes: string[] = JSON.parse(
     ethers.utils.toUtf8String(allowedPrefixesParam.value)
   );
@@ -1,25 +1,31 @@
 import {
+  callToolPolicy,
   fetchToolPolicyFromRegistry,
   getPkpInfo,
+  getPkpToolRegistryAddress,
   getPkpToolRegistryContract,
+  isSimulation,
   NETWORK_CONFIG,
+  setSimulationFailureResponse,
+  setSimulationResponse,
 } from '@lit-protocol/aw-tool';
-import { signMessage } from './utils/sign-message';
+import { hashMessage, signMessage } from './utils/sign-message';
 
 declare global {
   // Required Inputs
   const params: {
     pkpEthAddress: string;
     message: string;
+    signingMode?: 'raw' | 'eip191' | 'eip712' | '';
   };
 }
 
 (async () => {
   try {
+    const pkpToolRegistryAddress = getPkpToolRegistryAddress();
+
     console.log(`Using Lit Network: ${LIT_NETWORK}`);
-    console.log(
-      `Using PKP Tool Registry Address: ${PKP_TOOL_REGISTRY_ADDRESS}`
-    );
+    console.log(`Using PKP Tool Registry Address: ${pkpToolRegistryAddress}`);
     console.log(
       `Using Pubkey Router Address: ${
         NETWORK_CONFIG[LIT_NETWORK as keyof typeof NETWORK_CONFIG]
@@ -30,9 +36,10 @@ declare global {
     const delegateeAddress = ethers.utils.getAddress(LitAuth.authSigAddress);
     const toolIpfsCid = LitAuth.actionIpfsIds[0];
     const pkpToolRegistryContract = await getPkpToolRegistryContract(
-      PKP_TOOL_REGISTRY_ADDRESS
+      pkpToolRegistryAddress
     );
     const pkp = await getPkpInfo(params.pkpEthAddress);
+    const signingMode = params.signingMode || 'raw';
 
     const toolPolicy = await fetchToolPolicyFromRegistry(
       pkpToolRegistryContract,
@@ -41,24 +48,22 @@ declare global {
       toolIpfsCid
     );
 
-    if (
+    const hasPolicy =
       toolPolicy.enabled &&
       toolPolicy.policyIpfsCid !== undefined &&
       toolPolicy.policyIpfsCid !== '0x' &&
-      toolPolicy.policyIpfsCid !== ''
-    ) {
+      toolPolicy.policyIpfsCid !== '';
+    if (hasPolicy) {
       console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
 
-      await Lit.Actions.call({
-        ipfsId: toolPolicy.policyIpfsCid,
-        params: {
-          parentToolIpfsCid: toolIpfsCid,
-          pkpToolRegistryContractAddress: PKP_TOOL_REGISTRY_ADDRESS,
-          pkpTokenId: pkp.tokenId,
-          delegateeAddress,
-          toolParameters: {
-            message: params.message,
-          },
+      await callToolPolicy(toolPolicy.policyIpfsCid, {
+        parentToolIpfsCid: toolIpfsCid,
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: pkp.tokenId,
+        delegateeAddress,
+        toolParameters: {
+          message: params.message,
+          signingMode,
         },
       });
     } else {
@@ -67,17 +72,41 @@ declare global {
       );
     }
 
-    await signMessage(pkp.publicKey, params.message);
+    const messageHash = hashMessage(params.message, signingMode);
+
+    if (isSimulation()) {
+      setSimulationResponse(
+        {
+          signingMode,
+          messageHash,
+          signerAddress: ethers.utils.getAddress(pkp.ethAddress),
+        },
+        hasPolicy ? toolPolicy.policyIpfsCid : undefined
+      );
+      return;
+    }
+
+    const signature = await signMessage(pkp.publicKey, messageHash);
 
     // Return the signature
     Lit.Actions.setResponse({
       response: JSON.stringify({
-        response: 'Signed message!',
         status: 'success',
+        ...signature,
+        signingMode,
+        messageHash,
+        signerAddress: ethers.utils.getAddress(pkp.ethAddress),
+        publicKey: pkp.publicKey,
       }),
     });
   } catch (err: any) {
     console.error('Error:', err);
+
+    if (isSimulation()) {
+      setSimulationFailureResponse(err);
+      return;
+    }
+
     Lit.Actions.setResponse({
       response: JSON.stringify({
         status: 'error',
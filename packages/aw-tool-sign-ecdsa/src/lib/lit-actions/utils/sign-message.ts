@@ -1,21 +1,66 @@
 /**
- * Signs the message using the PKP's public key.
+ * Hashes the message according to the signing mode.
+ * @param message - The message to hash, or the JSON encoded typed data in `eip712` mode.
+ * @param signingMode - How the message is hashed before signing.
+ * @returns The hash to sign as a hex string.
+ */
+export const hashMessage = (
+  message: string,
+  signingMode: 'raw' | 'eip191' | 'eip712'
+): string => {
+  switch (signingMode) {
+    case 'eip191':
+      return ethers.utils.hashMessage(message);
+    case 'eip712': {
+      const typedData = JSON.parse(message);
+      // ethers derives the EIP712Domain type from the domain itself
+      const types = { ...typedData.types };
+      delete types.EIP712Domain;
+      return ethers.utils._TypedDataEncoder.hash(
+        typedData.domain,
+        types,
+        typedData.message
+      );
+    }
+    default:
+      return ethers.utils.keccak256(ethers.utils.toUtf8Bytes(message));
+  }
+};
+
+/**
+ * Signs the message hash using the PKP's public key.
  * @param pkpPublicKey - The PKP's public key.
- * @param message - The message to sign.
- * @returns The signature of the message.
+ * @param messageHash - The hash to sign as a hex string.
+ * @returns The signature as r, s, v values and as a serialized hex string.
  */
-export const signMessage = async (pkpPublicKey: string, message: string) => {
+export const signMessage = async (
+  pkpPublicKey: string,
+  messageHash: string
+) => {
   const pkForLit = pkpPublicKey.startsWith('0x')
     ? pkpPublicKey.slice(2)
     : pkpPublicKey;
 
-  const sig = await Lit.Actions.signEcdsa({
-    toSign: ethers.utils.arrayify(
-      ethers.utils.keccak256(ethers.utils.toUtf8Bytes(message))
-    ),
+  const sig = await Lit.Actions.signAndCombineEcdsa({
+    toSign: ethers.utils.arrayify(messageHash),
     publicKey: pkForLit,
     sigName: 'sig',
   });
 
-  return sig;
+  const parsedSig = JSON.parse(sig);
+  const serializedSignature: string = ethers.utils.joinSignature({
+    r: '0x' + parsedSig.r.substring(2),
+    s: '0x' + parsedSig.s,
+    v: parsedSig.v,
+  });
+
+  // Splitting the serialized signature normalizes v to 27 or 28
+  const { r, s, v } = ethers.utils.splitSignature(serializedSignature);
+
+  return {
+    signature: serializedSignature,
+    r: r as string,
+    s: s as string,
+    v: v as number,
+  };
 };
@@ -1,6 +1,27 @@
 import { z } from 'zod';
 import { ethers } from 'ethers';
 
+/**
+ * Schema for validating an EIP-712 domain allowed by a SignEcdsa policy.
+ * Only the fields that are set are matched against the domain of the typed data.
+ */
+const domainSchema = z.object({
+  /** The name of the signing domain. */
+  name: z.string().optional(),
+
+  /** The version of the signing domain. */
+  version: z.string().optional(),
+
+  /** The chain ID of the signing domain. */
+  chainId: z.number().int().nonnegative().optional(),
+
+  /** The address of the contract that verifies the signature. */
+  verifyingContract: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]{40}$/, 'Must be a valid Ethereum address')
+    .optional(),
+});
+
 /**
  * Schema for validating a SignEcdsa policy.
  * Ensures the policy has the correct structure and valid values.
@@ -14,8 +35,17 @@ const policySchema = z.object({
 
   /** An array of allowed message prefixes. */
   allowedPrefixes: z.array(z.string()),
+
+  /** An array of EIP-712 domains allowed for typed data signing. Typed data signing is denied if empty. */
+  allowedDomains: z.array(domainSchema).optional(),
 });
 
+/**
+ * The ABI type used to encode SignEcdsa policies.
+ */
+const POLICY_ABI_TYPE =
+  'tuple(string[] allowedPrefixes, tuple(string name, string version, uint256 chainId, address verifyingContract)[] allowedDomains)';
+
 /**
  * Encodes a SignEcdsa policy into a format suitable for on-chain storage.
  * @param policy - The SignEcdsa policy to encode.
@@ -28,10 +58,18 @@ function encodePolicy(policy: SignEcdsaPolicyType): string {
 
   // Encode the policy using ABI encoding
   return ethers.utils.defaultAbiCoder.encode(
-    ['tuple(string[] allowedPrefixes)'],
+    [POLICY_ABI_TYPE],
     [
       {
         allowedPrefixes: policy.allowedPrefixes,
+        // Unset domain fields are encoded as empty values
+        allowedDomains: (policy.allowedDomains ?? []).map((domain) => ({
+          name: domain.name ?? '',
+          version: domain.version ?? '',
+          chainId: domain.chainId ?? 0,
+          verifyingContract:
+            domain.verifyingContract ?? ethers.constants.AddressZero,
+        })),
       },
     ]
   );
@@ -46,7 +84,7 @@ function encodePolicy(policy: SignEcdsaPolicyType): string {
 function decodePolicy(encodedPolicy: string): SignEcdsaPolicyType {
   // Decode the policy using ABI decoding
   const decoded = ethers.utils.defaultAbiCoder.decode(
-    ['tuple(string[] allowedPrefixes)'],
+    [POLICY_ABI_TYPE],
     encodedPolicy
   )[0];
 
@@ -57,6 +95,27 @@ function decodePolicy(encodedPolicy: string): SignEcdsaPolicyType {
     allowedPrefixes: decoded.allowedPrefixes,
   };
 
+  // Empty domain fields were unset in the encoded policy
+  if (decoded.allowedDomains.length > 0) {
+    policy.allowedDomains = decoded.allowedDomains.map(
+      (domain: {
+        name: string;
+        version: string;
+        chainId: ethers.BigNumber;
+        verifyingContract: string;
+      }) => ({
+        ...(domain.name !== '' && { name: domain.name }),
+        ...(domain.version !== '' && { version: domain.version }),
+        ...(!domain.chainId.isZero() && {
+          chainId: domain.chainId.toNumber(),
+        }),
+        ...(domain.verifyingContract !== ethers.constants.AddressZero && {
+          verifyingContract: domain.verifyingContract,
+        }),
+      })
+    );
+  }
+
   // Validate the decoded policy against the schema
   return policySchema.parse(policy);
 }
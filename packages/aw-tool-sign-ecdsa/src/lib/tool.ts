@@ -9,30 +9,99 @@ import {
 import { SignEcdsaPolicy, type SignEcdsaPolicyType } from './policy';
 import { IPFS_CIDS } from './ipfs';
 
+/**
+ * The ways a message can be hashed before it is signed.
+ * - `raw`: The keccak256 hash of the UTF-8 encoded message.
+ * - `eip191`: An EIP-191 personal message (`personal_sign`).
+ * - `eip712`: EIP-712 typed data, provided as a JSON string in `message`.
+ */
+export const SIGNING_MODES = ['raw', 'eip191', 'eip712'] as const;
+
+/**
+ * The signing mode used by the Signing ECDSA Lit Action.
+ */
+export type SigningMode = (typeof SIGNING_MODES)[number];
+
 /**
  * Parameters required for the Signing ECDSA Lit Action.
  * @property {string} pkpEthAddress - The Ethereum address of the PKP.
- * @property message - The message to sign.
+ * @property message - The message to sign, or the JSON encoded typed data in `eip712` mode.
+ * @property signingMode - How the message is hashed before signing, defaults to `raw`.
  */
 export interface SignEcdsaLitActionParameters {
   pkpEthAddress: string;
   message: string;
+  signingMode?: SigningMode | '';
 }
 
 /**
- * Zod schema for validating `SignEcdsaLitActionParameters`.
- * Ensures that the message is a valid string.
+ * Zod schema for validating EIP-712 typed data passed as the message.
  */
-const SignEcdsaLitActionSchema = z.object({
-  pkpEthAddress: z
-    .string()
-    .regex(
-      /^0x[a-fA-F0-9]{40}$/,
-      'Must be a valid Ethereum address (0x followed by 40 hexadecimal characters)'
-    ),
-  message: z.string(),
+const TypedDataSchema = z.object({
+  domain: z.object({
+    name: z.string().optional(),
+    version: z.string().optional(),
+    chainId: z.union([z.number(), z.string()]).optional(),
+    verifyingContract: z
+      .string()
+      .regex(/^0x[a-fA-F0-9]{40}$/, 'Must be a valid Ethereum address')
+      .optional(),
+    salt: z.string().optional(),
+  }),
+  types: z.record(
+    z.array(
+      z.object({
+        name: z.string(),
+        type: z.string(),
+      })
+    )
+  ),
+  primaryType: z.string().optional(),
+  message: z.record(z.unknown()),
 });
 
+/**
+ * Zod schema for validating `SignEcdsaLitActionParameters`.
+ * Ensures that the message is a valid string, and valid typed data in `eip712` mode.
+ */
+const SignEcdsaLitActionSchema = z
+  .object({
+    pkpEthAddress: z
+      .string()
+      .regex(
+        /^0x[a-fA-F0-9]{40}$/,
+        'Must be a valid Ethereum address (0x followed by 40 hexadecimal characters)'
+      ),
+    message: z.string(),
+    signingMode: z.enum(SIGNING_MODES).or(z.literal('')).optional(),
+  })
+  .superRefine((params, ctx) => {
+    if (params.signingMode !== 'eip712') {
+      return;
+    }
+
+    let typedData: unknown;
+    try {
+      typedData = JSON.parse(params.message);
+    } catch {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['message'],
+        message: 'Must be JSON encoded EIP-712 typed data in eip712 mode',
+      });
+      return;
+    }
+
+    if (!TypedDataSchema.safeParse(typedData).success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['message'],
+        message:
+          'Must contain the domain, types and message of the EIP-712 typed data',
+      });
+    }
+  });
+
 /**
  * Descriptions of each parameter for the Signing ECDSA Lit Action.
  * These descriptions are designed to be consumed by LLMs (Language Learning Models) to understand the required parameters.
@@ -40,7 +109,10 @@ const SignEcdsaLitActionSchema = z.object({
 const SignEcdsaLitActionParameterDescriptions = {
   pkpEthAddress:
     'The Ethereum address of the PKP that will be used to sign the message.',
-  message: 'The message you want to sign.',
+  message:
+    'The message you want to sign. In eip712 mode, a JSON string with the domain, types, primaryType and message of the typed data.',
+  signingMode:
+    'How the message is hashed before signing: raw (keccak256 of the message), eip191 (personal_sign), or eip712 (typed data). Leave empty for raw.',
 } as const;
 
 /**
@@ -63,6 +135,46 @@ const validateSignEcdsaParameters = (
   }));
 };
 
+/**
+ * Result of a successful Sign ECDSA Lit Action execution.
+ * @property {'success'} status - The status of the execution.
+ * @property {string} signature - The serialized 65 byte signature as a hex string.
+ * @property {string} r - The r value of the signature.
+ * @property {string} s - The s value of the signature.
+ * @property {number} v - The recovery id of the signature (27 or 28).
+ * @property {SigningMode} signingMode - The signing mode used to hash the message.
+ * @property {string} messageHash - The hash that was signed.
+ * @property {string} signerAddress - The Ethereum address of the signing PKP.
+ * @property {string} publicKey - The public key of the signing PKP.
+ */
+interface SignEcdsaLitActionResult {
+  status: 'success';
+  signature: string;
+  r: string;
+  s: string;
+  v: number;
+  signingMode: SigningMode;
+  messageHash: string;
+  signerAddress: string;
+  publicKey: string;
+}
+
+/**
+ * Zod schema for validating SignEcdsaLitActionResult.
+ * @type {z.ZodObject}
+ */
+const SignEcdsaLitActionResultSchema = z.object({
+  status: z.literal('success'),
+  signature: z.string().regex(/^0x[a-fA-F0-9]{130}$/),
+  r: z.string().regex(/^0x[a-fA-F0-9]{64}$/),
+  s: z.string().regex(/^0x[a-fA-F0-9]{64}$/),
+  v: z.union([z.literal(27), z.literal(28)]),
+  signingMode: z.enum(SIGNING_MODES),
+  messageHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/),
+  signerAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+  publicKey: z.string(),
+});
+
 /**
  * Creates a network-specific SignEcdsa tool.
  * @param network - The supported Lit network (e.g., `datil-dev`, `datil-test`, `datil`).
@@ -72,9 +184,13 @@ const validateSignEcdsaParameters = (
 const createNetworkTool = (
   network: SupportedLitNetwork,
   config: NetworkConfig
-): AwTool<SignEcdsaLitActionParameters, SignEcdsaPolicyType> => ({
+): AwTool<
+  SignEcdsaLitActionParameters,
+  SignEcdsaPolicyType,
+  SignEcdsaLitActionResult
+> => ({
   name: 'SignEcdsa',
-  description: `A Lit Action that signs a message with an allowlist of message prefixes.`,
+  description: `A Lit Action that signs a message, EIP-191 personal message, or EIP-712 typed data with an allowlist of message prefixes and typed data domains.`,
   ipfsCid: IPFS_CIDS[network].tool,
   defaultPolicyIpfsCid: IPFS_CIDS[network].defaultPolicy,
   chain: 'ethereum',
@@ -85,6 +201,10 @@ const createNetworkTool = (
     validate: validateSignEcdsaParameters,
   },
   policy: SignEcdsaPolicy,
+  result: {
+    type: {} as SignEcdsaLitActionResult,
+    schema: SignEcdsaLitActionResultSchema,
+  },
 });
 
 /**
@@ -98,6 +218,10 @@ export const SignEcdsa = Object.entries(NETWORK_CONFIGS).reduce(
   }),
   {} as Record<
     SupportedLitNetwork,
-    AwTool<SignEcdsaLitActionParameters, SignEcdsaPolicyType>
+    AwTool<
+      SignEcdsaLitActionParameters,
+      SignEcdsaPolicyType,
+      SignEcdsaLitActionResult
+    >
   >
 );
@@ -51,6 +51,49 @@ describe('SignEcdsaPolicy', () => {
         });
       });
     });
+
+    describe('allowedDomains validation', () => {
+      it('should accept valid domains', () => {
+        const validDomainArrays = [
+          [],
+          [{ name: 'Permit2' }],
+          [
+            {
+              name: 'USD Coin',
+              version: '2',
+              chainId: 1,
+              verifyingContract: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+            },
+          ],
+        ];
+
+        validDomainArrays.forEach((allowedDomains) => {
+          const result = SignEcdsaPolicy.schema.safeParse({
+            ...validPolicy,
+            allowedDomains,
+          });
+          expect(result.success).toBe(true);
+        });
+      });
+
+      it('should reject invalid domains', () => {
+        const invalidDomainArrays = [
+          'not an array',
+          [{ chainId: -1 }], // Negative chain IDs not allowed
+          [{ chainId: 1.5 }], // Non-integer chain IDs not allowed
+          [{ verifyingContract: '0x1234' }], // Invalid address
+          [{ name: 123 }], // Numbers not allowed as names
+        ];
+
+        invalidDomainArrays.forEach((allowedDomains) => {
+          const result = SignEcdsaPolicy.schema.safeParse({
+            ...validPolicy,
+            allowedDomains,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
   });
 
   describe('SignEcdsaPolicy.encode', () => {
@@ -97,6 +140,18 @@ describe('SignEcdsaPolicy', () => {
           ...validPolicy,
           allowedPrefixes: ['A'.repeat(100)],
         },
+        {
+          ...validPolicy,
+          allowedDomains: [
+            { name: 'Permit2', chainId: 8453 },
+            {
+              name: 'USD Coin',
+              version: '2',
+              chainId: 1,
+              verifyingContract: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+            },
+          ],
+        },
       ];
 
       testCases.forEach((policy) => {
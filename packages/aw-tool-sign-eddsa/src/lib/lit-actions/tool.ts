@@ -1,8 +1,13 @@
 import {
+  callToolPolicy,
   fetchToolPolicyFromRegistry,
   getPkpInfo,
+  getPkpToolRegistryAddress,
   getPkpToolRegistryContract,
+  isSimulation,
   NETWORK_CONFIG,
+  setSimulationFailureResponse,
+  setSimulationResponse,
 } from '@lit-protocol/aw-tool';
 
 import { signMessage, createSolanaKeypair } from './utils';
@@ -19,10 +24,10 @@ declare global {
 
 (async () => {
   try {
+    const pkpToolRegistryAddress = getPkpToolRegistryAddress();
+
     console.log(`Using Lit Network: ${LIT_NETWORK}`);
-    console.log(
-      `Using PKP Tool Registry Address: ${PKP_TOOL_REGISTRY_ADDRESS}`
-    );
+    console.log(`Using PKP Tool Registry Address: ${pkpToolRegistryAddress}`);
     console.log(
       `Using Pubkey Router Address: ${
         NETWORK_CONFIG[LIT_NETWORK as keyof typeof NETWORK_CONFIG]
@@ -33,7 +38,7 @@ declare global {
     const delegateeAddress = ethers.utils.getAddress(LitAuth.authSigAddress);
     const toolIpfsCid = LitAuth.actionIpfsIds[0];
     const pkpToolRegistryContract = await getPkpToolRegistryContract(
-      PKP_TOOL_REGISTRY_ADDRESS
+      pkpToolRegistryAddress
     );
     const pkp = await getPkpInfo(params.pkpEthAddress);
 
@@ -44,22 +49,19 @@ declare global {
       toolIpfsCid
     );
 
-    if (
+    const hasPolicy =
       toolPolicy.enabled &&
       toolPolicy.policyIpfsCid !== undefined &&
       toolPolicy.policyIpfsCid !== '0x' &&
-      toolPolicy.policyIpfsCid !== ''
-    ) {
+      toolPolicy.policyIpfsCid !== '';
+    if (hasPolicy) {
       console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
-      await Lit.Actions.call({
-        ipfsId: toolPolicy.policyIpfsCid,
-        params: {
-          parentToolIpfsCid: toolIpfsCid,
-          pkpToolRegistryContractAddress: PKP_TOOL_REGISTRY_ADDRESS,
-          pkpTokenId: pkp.tokenId,
-          delegateeAddress,
-          toolParameters: params,
-        },
+      await callToolPolicy(toolPolicy.policyIpfsCid, {
+        parentToolIpfsCid: toolIpfsCid,
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: pkp.tokenId,
+        delegateeAddress,
+        toolParameters: params,
       });
     } else {
       console.log(
@@ -67,19 +69,34 @@ declare global {
       );
     }
 
+    // The wrapped key is only decrypted to sign, so there are no other pre-flight steps
+    if (isSimulation()) {
+      setSimulationResponse(
+        {},
+        hasPolicy ? toolPolicy.policyIpfsCid : undefined
+      );
+      return;
+    }
+
     const solanaKeyPair = await createSolanaKeypair(pkp.tokenId);
     const signature = await signMessage(params.message, solanaKeyPair);
 
-    console.log(signature);
-
+    // Return the signature
     Lit.Actions.setResponse({
       response: JSON.stringify({
-        response: 'Success!',
         status: 'success',
+        signature: ethers.utils.base58.encode(signature),
+        publicKey: solanaKeyPair.publicKey.toBase58(),
       }),
     });
   } catch (err: any) {
     console.error('Error:', err);
+
+    if (isSimulation()) {
+      setSimulationFailureResponse(err);
+      return;
+    }
+
     Lit.Actions.setResponse({
       response: JSON.stringify({
         status: 'error',
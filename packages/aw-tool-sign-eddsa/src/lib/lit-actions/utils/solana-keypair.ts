@@ -1,8 +1,15 @@
 import { Keypair } from "@solana/web3.js";
-import { getAccessControlConditions } from '@lit-protocol/aw-tool';
+import {
+  getAccessControlConditions,
+  getPkpToolRegistryAddress,
+} from '@lit-protocol/aw-tool';
 
 export async function createSolanaKeypair(pkpTokenId: string): Promise<Keypair> {
-  const accessControlConditions = getAccessControlConditions(pkpTokenId, LIT_NETWORK as 'datil-dev' | 'datil-test' | 'datil');
+  const accessControlConditions = getAccessControlConditions(
+    pkpTokenId,
+    LIT_NETWORK as 'datil-dev' | 'datil-test' | 'datil',
+    getPkpToolRegistryAddress()
+  );
 
   const decryptedPrivateKey = await Lit.Actions.decryptAndCombine({
     accessControlConditions: accessControlConditions,
@@ -11,7 +18,6 @@ export async function createSolanaKeypair(pkpTokenId: string): Promise<Keypair>
     authSig: null,
     chain: "yellowstone",
   });
-  console.log(decryptedPrivateKey);
     
   function base64ToUint8Array(base64: string): Uint8Array {
     const binaryString = atob(base64);
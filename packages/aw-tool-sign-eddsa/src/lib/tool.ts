@@ -70,6 +70,32 @@ const validateSignEddsaParameters = (
   }));
 };
 
+/**
+ * Result of a successful Sign EdDSA Lit Action execution.
+ * @property {'success'} status - The status of the execution.
+ * @property {string} signature - The Ed25519 signature, base58 encoded.
+ * @property {string} publicKey - The Ed25519 public key of the signer, base58 encoded.
+ */
+interface SignEddsaLitActionResult {
+  status: 'success';
+  signature: string;
+  publicKey: string;
+}
+
+/**
+ * Zod schema for validating SignEddsaLitActionResult.
+ * @type {z.ZodObject}
+ */
+const SignEddsaLitActionResultSchema = z.object({
+  status: z.literal('success'),
+  signature: z
+    .string()
+    .regex(/^[1-9A-HJ-NP-Za-km-z]+$/, 'Must be base58 encoded'),
+  publicKey: z
+    .string()
+    .regex(/^[1-9A-HJ-NP-Za-km-z]+$/, 'Must be base58 encoded'),
+});
+
 /**
  * Creates a network-specific SignEddsa tool.
  * @param network - The supported Lit network (e.g., `datil-dev`, `datil-test`, `datil`).
@@ -79,7 +105,11 @@ const validateSignEddsaParameters = (
 const createNetworkTool = (
   network: SupportedLitNetwork,
   config: NetworkConfig
-): AwTool<SignEddsaLitActionParameters, SignEddsaPolicyType> => ({
+): AwTool<
+  SignEddsaLitActionParameters,
+  SignEddsaPolicyType,
+  SignEddsaLitActionResult
+> => ({
   name: 'SignEddsa',
   description: `SignEddsa Tool`,
   ipfsCid: IPFS_CIDS[network].tool,
@@ -92,6 +122,10 @@ const createNetworkTool = (
     validate: validateSignEddsaParameters,
   },
   policy: SignEddsaPolicy,
+  result: {
+    type: {} as SignEddsaLitActionResult,
+    schema: SignEddsaLitActionResultSchema,
+  },
 });
 
 /**
@@ -105,6 +139,10 @@ export const SignEddsa = Object.entries(NETWORK_CONFIGS).reduce(
   }),
   {} as Record<
     SupportedLitNetwork,
-    AwTool<SignEddsaLitActionParameters, SignEddsaPolicyType>
+    AwTool<
+      SignEddsaLitActionParameters,
+      SignEddsaPolicyType,
+      SignEddsaLitActionResult
+    >
   >
-);
\ No newline at end of file
+);
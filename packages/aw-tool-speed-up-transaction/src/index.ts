@@ -0,0 +1 @@
+export { SpeedUpTransaction } from './lib/tool';
@@ -0,0 +1,171 @@
+import {
+  callToolPolicy,
+  fetchToolPolicyFromRegistry,
+  getPendingTransaction,
+  getPkpInfo,
+  getPkpToolRegistryAddress,
+  getPkpToolRegistryContract,
+  getReplacementFees,
+  isSimulation,
+  MIN_REPLACEMENT_FEE_BUMP_PERCENT,
+  NETWORK_CONFIG,
+  setSimulationFailureResponse,
+  setSimulationResponse,
+} from '@lit-protocol/aw-tool';
+
+import { signTx } from './utils/sign-tx';
+import { broadcastTransaction } from './utils/broadcast-tx';
+
+declare global {
+  // Required Inputs
+  const params: {
+    pkpEthAddress: string;
+    rpcUrl: string;
+    chainId: string;
+    txHash: string;
+    feeBumpPercent?: string;
+  };
+}
+
+(async () => {
+  try {
+    const pkpToolRegistryAddress = getPkpToolRegistryAddress();
+
+    console.log(`Using Lit Network: ${LIT_NETWORK}`);
+    console.log(`Using PKP Tool Registry Address: ${pkpToolRegistryAddress}`);
+    console.log(
+      `Using Pubkey Router Address: ${
+        NETWORK_CONFIG[LIT_NETWORK as keyof typeof NETWORK_CONFIG]
+          .pubkeyRouterAddress
+      }`
+    );
+
+    const delegateeAddress = ethers.utils.getAddress(LitAuth.authSigAddress);
+    const toolIpfsCid = LitAuth.actionIpfsIds[0];
+    const provider = new ethers.providers.JsonRpcProvider(params.rpcUrl);
+    const pkpToolRegistryContract = await getPkpToolRegistryContract(
+      pkpToolRegistryAddress
+    );
+    const pkp = await getPkpInfo(params.pkpEthAddress);
+
+    const pendingTx = await getPendingTransaction(
+      provider,
+      params.txHash,
+      pkp.ethAddress
+    );
+    const fees = await getReplacementFees(
+      provider,
+      pendingTx,
+      params.feeBumpPercent
+        ? parseInt(params.feeBumpPercent, 10)
+        : MIN_REPLACEMENT_FEE_BUMP_PERCENT
+    );
+
+    const toolPolicy = await fetchToolPolicyFromRegistry(
+      pkpToolRegistryContract,
+      pkp.tokenId,
+      delegateeAddress,
+      toolIpfsCid
+    );
+    const hasPolicy =
+      toolPolicy.enabled &&
+      toolPolicy.policyIpfsCid !== undefined &&
+      toolPolicy.policyIpfsCid !== '0x' &&
+      toolPolicy.policyIpfsCid !== '';
+    if (hasPolicy) {
+      console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
+
+      const policyParams = {
+        parentToolIpfsCid: toolIpfsCid,
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: pkp.tokenId,
+        delegateeAddress,
+        replacementInfo: {
+          txHash: pendingTx.hash,
+          nonce: pendingTx.nonce,
+          maxFeePerGas: ethers.BigNumber.from(fees.maxFeePerGas).toString(),
+          maxPriorityFeePerGas: ethers.BigNumber.from(
+            fees.maxPriorityFeePerGas
+          ).toString(),
+        },
+        gasInfo: {
+          maxFeePerGas: ethers.BigNumber.from(fees.maxFeePerGas).toString(),
+          gasLimit: ethers.BigNumber.from(pendingTx.gasLimit).toString(),
+        },
+      };
+
+      console.log(
+        `Calling policy Lit Action with params: ${JSON.stringify(policyParams)}`
+      );
+
+      await callToolPolicy(toolPolicy.policyIpfsCid, policyParams);
+    } else {
+      console.log(
+        `No policy found for tool ${toolIpfsCid} on PKP ${pkp.tokenId} for delegatee ${delegateeAddress}`
+      );
+    }
+
+    if (isSimulation()) {
+      setSimulationResponse(
+        {
+          pendingTransaction: pendingTx,
+          replacementFees: fees,
+        },
+        hasPolicy ? toolPolicy.policyIpfsCid : undefined
+      );
+      return;
+    }
+
+    // The replacement is the pending transaction with the same nonce and bumped fees
+    const replacementTx = {
+      ...(pendingTx.to !== null && { to: pendingTx.to }),
+      data: pendingTx.data,
+      value: pendingTx.value,
+      gasLimit: pendingTx.gasLimit,
+      nonce: pendingTx.nonce,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      chainId: pendingTx.chainId,
+      type: 2,
+    };
+
+    const signedTx = await signTx(pkp.publicKey, replacementTx, 'speedUpSig');
+    const replacementHash = await broadcastTransaction(provider, signedTx);
+    console.log('Replacement transaction hash:', replacementHash);
+
+    Lit.Actions.setResponse({
+      response: JSON.stringify({
+        status: 'success',
+        replacementHash,
+      }),
+    });
+  } catch (err: any) {
+    console.error('Error:', err);
+
+    if (isSimulation()) {
+      setSimulationFailureResponse(err);
+      return;
+    }
+
+    // Extract detailed error information
+    const errorDetails = {
+      message: err.message,
+      code: err.code,
+      reason: err.reason,
+      error: err.error,
+      ...(err.transaction && { transaction: err.transaction }),
+      ...(err.receipt && { receipt: err.receipt }),
+    };
+
+    // Construct a detailed error message
+    const errorMessage = err.message || String(err);
+
+    Lit.Actions.setResponse({
+      response: JSON.stringify({
+        status: 'error',
+        error: errorMessage,
+        details: errorDetails,
+      }),
+    });
+  }
+})();
@@ -0,0 +1,113 @@
+import { ethers } from 'ethers';
+
+import {
+  SpeedUpTransactionPolicy,
+  SpeedUpTransactionPolicyType,
+} from '../src/lib/policy';
+
+describe('SpeedUpTransactionPolicy', () => {
+  const validPolicy: SpeedUpTransactionPolicyType = {
+    type: 'SpeedUpTransaction',
+    version: '1.0.0',
+    maxFeePerGas: ethers.utils.parseUnits('100', 'gwei').toString(), // 100 gwei in wei
+  };
+
+  describe('SpeedUpTransactionPolicy.schema', () => {
+    it('should validate a correct policy', () => {
+      const result = SpeedUpTransactionPolicy.schema.safeParse(validPolicy);
+      expect(result.success).toBe(true);
+    });
+
+    describe('maxFeePerGas validation', () => {
+      it('should accept valid BigNumber strings', () => {
+        const validFees = [
+          '100000000000', // 100 gwei in wei
+          '0',
+          ethers.constants.MaxUint256.toString(),
+        ];
+
+        validFees.forEach((maxFeePerGas) => {
+          const result = SpeedUpTransactionPolicy.schema.safeParse({
+            ...validPolicy,
+            maxFeePerGas,
+          });
+          expect(result.success).toBe(true);
+        });
+      });
+
+      it('should reject invalid fees', () => {
+        const invalidFees = [
+          'abc', // not a number
+          '1.5', // No decimals allowed in wei
+          '',
+          null as any,
+          undefined as any,
+          '0xZ', // invalid hex
+        ];
+
+        invalidFees.forEach((maxFeePerGas) => {
+          const result = SpeedUpTransactionPolicy.schema.safeParse({
+            ...validPolicy,
+            maxFeePerGas,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+
+      it('should reject negative numbers', () => {
+        const result = SpeedUpTransactionPolicy.schema.safeParse({
+          ...validPolicy,
+          maxFeePerGas: '-1',
+        });
+        expect(result.success).toBe(false);
+
+        if (!result.success) {
+          expect(result.error.errors[0].message).toBe(
+            'Invalid fee format. Must be a non-negative integer.'
+          );
+        }
+      });
+    });
+  });
+
+  describe('SpeedUpTransactionPolicy.encode', () => {
+    it('should encode a valid policy', () => {
+      const encoded = SpeedUpTransactionPolicy.encode(validPolicy);
+      expect(typeof encoded).toBe('string');
+      expect(encoded.startsWith('0x')).toBe(true);
+    });
+
+    it('should throw on invalid policy', () => {
+      expect(() => {
+        SpeedUpTransactionPolicy.encode({
+          ...validPolicy,
+          maxFeePerGas: 'invalid',
+        });
+      }).toThrow();
+    });
+  });
+
+  describe('SpeedUpTransactionPolicy.decode', () => {
+    it('should throw on invalid encoded data', () => {
+      expect(() => {
+        SpeedUpTransactionPolicy.decode('0x1234');
+      }).toThrow();
+    });
+
+    it('should maintain data integrity through encode/decode cycle', () => {
+      const testCases: SpeedUpTransactionPolicyType[] = [
+        validPolicy,
+        { ...validPolicy, maxFeePerGas: '0' },
+        {
+          ...validPolicy,
+          maxFeePerGas: ethers.constants.MaxUint256.toString(),
+        },
+      ];
+
+      testCases.forEach((policy) => {
+        const encoded = SpeedUpTransactionPolicy.encode(policy);
+        expect(SpeedUpTransactionPolicy.decode(encoded)).toEqual(policy);
+      });
+    });
+  });
+});
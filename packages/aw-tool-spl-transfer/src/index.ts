@@ -0,0 +1 @@
+export { SplTransfer } from './lib/tool';
@@ -0,0 +1,130 @@
+import {
+  checkLitAuthAddressIsDelegatee,
+  getPkpToolRegistryContract,
+  getPolicyParameters,
+} from '@lit-protocol/aw-tool';
+import { PublicKey } from '@solana/web3.js';
+
+declare global {
+  // Required Inputs
+  const parentToolIpfsCid: string;
+  const pkpToolRegistryContractAddress: string;
+  const pkpTokenId: string;
+  const delegateeAddress: string;
+  const toolParameters: {
+    amount: string;
+    mint: string;
+    recipientAddress: string;
+  };
+}
+
+function parseSolanaAddresses(value: string, parameterName: string): string[] {
+  return JSON.parse(value).map((addr: string) => {
+    try {
+      return new PublicKey(addr).toBase58();
+    } catch {
+      throw new Error(`Invalid Solana address in ${parameterName}: ${addr}`);
+    }
+  });
+}
+
+(async () => {
+  const pkpToolRegistryContract = await getPkpToolRegistryContract(
+    pkpToolRegistryContractAddress
+  );
+
+  const isDelegatee = await checkLitAuthAddressIsDelegatee(
+    pkpToolRegistryContract,
+    pkpTokenId
+  );
+  if (!isDelegatee) {
+    throw new Error(
+      `Session signer ${ethers.utils.getAddress(
+        LitAuth.authSigAddress
+      )} is not a delegatee for PKP ${pkpTokenId}`
+    );
+  }
+
+  const policyParameters = await getPolicyParameters(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    ['maxAmount', 'allowedMints', 'allowedRecipients']
+  );
+
+  let maxAmount: bigint | undefined;
+  let allowedMints: string[] = [];
+  let allowedRecipients: string[] = [];
+
+  console.log(
+    `Retrieved policy parameters: ${JSON.stringify(policyParameters)}`
+  );
+
+  for (const parameter of policyParameters) {
+    const value = ethers.utils.toUtf8String(parameter.value);
+
+    switch (parameter.name) {
+      case 'maxAmount':
+        maxAmount = BigInt(value);
+        console.log(`Formatted maxAmount: ${maxAmount.toString()}`);
+        break;
+      case 'allowedMints':
+        allowedMints = parseSolanaAddresses(value, parameter.name);
+        console.log(`Formatted allowedMints: ${allowedMints.join(', ')}`);
+        break;
+      case 'allowedRecipients':
+        allowedRecipients = parseSolanaAddresses(value, parameter.name);
+        console.log(
+          `Formatted allowedRecipients: ${allowedRecipients.join(', ')}`
+        );
+        break;
+    }
+  }
+
+  const amount = BigInt(toolParameters.amount);
+
+  if (maxAmount !== undefined) {
+    console.log(
+      `Checking if amount ${amount.toString()} exceeds maxAmount ${maxAmount.toString()}...`
+    );
+
+    if (amount > maxAmount) {
+      throw new Error(
+        `Amount ${amount.toString()} exceeds the maximum amount ${maxAmount.toString()}`
+      );
+    }
+  }
+
+  if (allowedMints.length > 0) {
+    console.log(`Checking if ${toolParameters.mint} is an allowed mint...`);
+
+    if (!allowedMints.includes(new PublicKey(toolParameters.mint).toBase58())) {
+      throw new Error(
+        `Mint ${
+          toolParameters.mint
+        } not allowed. Allowed mints: ${allowedMints.join(', ')}`
+      );
+    }
+  }
+
+  if (allowedRecipients.length > 0) {
+    console.log(
+      `Checking if ${toolParameters.recipientAddress} is an allowed recipient...`
+    );
+
+    if (
+      !allowedRecipients.includes(
+        new PublicKey(toolParameters.recipientAddress).toBase58()
+      )
+    ) {
+      throw new Error(
+        `Recipient ${
+          toolParameters.recipientAddress
+        } not allowed. Allowed recipients: ${allowedRecipients.join(', ')}`
+      );
+    }
+  }
+
+  console.log('Policy parameters validated');
+})();
@@ -0,0 +1,243 @@
+import {
+  callToolPolicy,
+  fetchToolPolicyFromRegistry,
+  getPkpInfo,
+  getPkpToolRegistryAddress,
+  getPkpToolRegistryContract,
+  isSimulation,
+  NETWORK_CONFIG,
+  setSimulationFailureResponse,
+  setSimulationResponse,
+} from '@lit-protocol/aw-tool';
+import {
+  signAndSendTransaction,
+  createSolanaKeypair,
+  createSolanaConnection,
+  toAtomicAmount,
+} from '@lit-protocol/aw-tool/solana';
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+import {
+  getMintInfo,
+  getAssociatedTokenAddress,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+} from './utils';
+
+declare global {
+  // Required Inputs
+  const params: {
+    pkpEthAddress: string;
+    tokenIn: string;
+    recipientAddress: string;
+    amountIn: string;
+    ciphertext: string;
+    dataToEncryptHash: string;
+  };
+}
+
+(async () => {
+  try {
+    const pkpToolRegistryAddress = getPkpToolRegistryAddress();
+
+    console.log(`Using Lit Network: ${LIT_NETWORK}`);
+    console.log(`Using PKP Tool Registry Address: ${pkpToolRegistryAddress}`);
+    console.log(
+      `Using Pubkey Router Address: ${
+        NETWORK_CONFIG[LIT_NETWORK as keyof typeof NETWORK_CONFIG]
+          .pubkeyRouterAddress
+      }`
+    );
+
+    const delegateeAddress = ethers.utils.getAddress(LitAuth.authSigAddress);
+    const toolIpfsCid = LitAuth.actionIpfsIds[0];
+    const pkpToolRegistryContract = await getPkpToolRegistryContract(
+      pkpToolRegistryAddress
+    );
+    const pkp = await getPkpInfo(params.pkpEthAddress);
+
+    let recipient: PublicKey;
+    try {
+      recipient = new PublicKey(params.recipientAddress);
+    } catch {
+      throw new Error(`Invalid recipient address: ${params.recipientAddress}`);
+    }
+
+    const connection = createSolanaConnection();
+    const mintInfo = await getMintInfo(connection, params.tokenIn);
+    const atomicAmount = toAtomicAmount(params.amountIn, mintInfo.decimals);
+    const amount = BigInt(atomicAmount);
+    if (amount === BigInt(0)) {
+      throw new Error('Amount must be greater than 0');
+    }
+
+    const toolPolicy = await fetchToolPolicyFromRegistry(
+      pkpToolRegistryContract,
+      pkp.tokenId,
+      delegateeAddress,
+      toolIpfsCid
+    );
+    const hasPolicy =
+      toolPolicy.enabled &&
+      toolPolicy.policyIpfsCid !== undefined &&
+      toolPolicy.policyIpfsCid !== '0x' &&
+      toolPolicy.policyIpfsCid !== '';
+    if (hasPolicy) {
+      console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
+
+      await callToolPolicy(toolPolicy.policyIpfsCid, {
+        parentToolIpfsCid: toolIpfsCid,
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: pkp.tokenId,
+        delegateeAddress,
+        toolParameters: {
+          amount: atomicAmount,
+          mint: params.tokenIn,
+          recipientAddress: params.recipientAddress,
+        },
+      });
+    } else {
+      console.log(
+        `No policy found for tool ${toolIpfsCid} on PKP ${pkp.tokenId} for delegatee ${delegateeAddress}`
+      );
+    }
+
+    const solanaKeyPair = await createSolanaKeypair(
+      pkp.tokenId,
+      params.ciphertext,
+      params.dataToEncryptHash
+    );
+    const sender = solanaKeyPair.publicKey;
+
+    const instructions: TransactionInstruction[] = [];
+    let balance: bigint;
+    let createsRecipientTokenAccount = false;
+
+    if (mintInfo.isNative) {
+      balance = BigInt(await connection.getBalance(sender));
+      instructions.push(
+        SystemProgram.transfer({
+          fromPubkey: sender,
+          toPubkey: recipient,
+          lamports: amount,
+        })
+      );
+    } else {
+      const mint = new PublicKey(params.tokenIn);
+      const programId = mintInfo.programId as PublicKey;
+      const sourceTokenAccount = getAssociatedTokenAddress(
+        mint,
+        sender,
+        programId
+      );
+      const recipientTokenAccount = getAssociatedTokenAddress(
+        mint,
+        recipient,
+        programId
+      );
+
+      try {
+        const tokenBalance = await connection.getTokenAccountBalance(
+          sourceTokenAccount
+        );
+        balance = BigInt(tokenBalance.value.amount);
+      } catch {
+        // The sender has no token account for the mint
+        balance = BigInt(0);
+      }
+
+      if (!(await connection.getAccountInfo(recipientTokenAccount))) {
+        console.log(
+          `Creating token account ${recipientTokenAccount.toBase58()} for recipient`
+        );
+        createsRecipientTokenAccount = true;
+        instructions.push(
+          createAssociatedTokenAccountIdempotentInstruction(
+            sender,
+            recipientTokenAccount,
+            recipient,
+            mint,
+            programId
+          )
+        );
+      }
+
+      instructions.push(
+        createTransferCheckedInstruction(
+          sourceTokenAccount,
+          mint,
+          recipientTokenAccount,
+          sender,
+          amount,
+          mintInfo.decimals,
+          programId
+        )
+      );
+    }
+
+    if (amount > balance) {
+      throw new Error(
+        `Insufficient balance. Balance: ${balance.toString()}. Required: ${atomicAmount}`
+      );
+    }
+
+    if (isSimulation()) {
+      setSimulationResponse(
+        {
+          sender: sender.toBase58(),
+          decimals: mintInfo.decimals,
+          amount: atomicAmount,
+          balance: balance.toString(),
+          createsRecipientTokenAccount,
+        },
+        hasPolicy ? toolPolicy.policyIpfsCid : undefined
+      );
+      return;
+    }
+
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: sender,
+        recentBlockhash: blockhash,
+        instructions,
+      }).compileToV0Message()
+    );
+    transaction.sign([solanaKeyPair]);
+
+    const txid = await signAndSendTransaction(connection, transaction);
+
+    Lit.Actions.setResponse({
+      response: JSON.stringify({
+        status: 'success',
+        message: 'Transfer transaction sent successfully',
+        txid,
+      }),
+    });
+  } catch (error: unknown) {
+    if (isSimulation()) {
+      setSimulationFailureResponse(error);
+      return;
+    }
+
+    const errorDetails = {
+      message: error instanceof Error ? error.message : String(error),
+      type: error instanceof Error ? error.constructor.name : 'UnknownError',
+      ...(error instanceof Error && error.stack && { stack: error.stack }),
+    };
+
+    Lit.Actions.setResponse({
+      response: JSON.stringify({
+        status: 'error',
+        error: 'Transaction failed',
+        details: errorDetails,
+      }),
+    });
+  }
+})();
@@ -0,0 +1,2 @@
+export * from './mint-info';
+export * from './token-instructions';
@@ -0,0 +1,59 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+
+import {
+  NATIVE_SOL_MINT,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from './token-instructions';
+
+/**
+ * Information about the mint of the token being sent.
+ * @property {boolean} isNative - Whether the token is native SOL rather than an SPL token.
+ * @property {number} decimals - The number of decimals of the token.
+ * @property {PublicKey | null} programId - The token program that owns the mint, or null for native SOL.
+ */
+export interface MintInfo {
+  isNative: boolean;
+  decimals: number;
+  programId: PublicKey | null;
+}
+
+/**
+ * Retrieves the decimals and the owning token program of a mint.
+ * The native SOL mint is treated as native SOL, which has 9 decimals and no token program.
+ * @param connection - The Solana connection.
+ * @param mintAddress - The address of the mint.
+ * @returns The mint information.
+ * @throws Error if the mint is not found or isn't owned by the Token or Token-2022 program.
+ */
+export async function getMintInfo(
+  connection: Connection,
+  mintAddress: string
+): Promise<MintInfo> {
+  const mint = new PublicKey(mintAddress);
+  if (mint.equals(NATIVE_SOL_MINT)) {
+    return { isNative: true, decimals: 9, programId: null };
+  }
+
+  const info = await connection.getParsedAccountInfo(mint);
+  if (!info.value) {
+    throw new Error(`Token mint ${mintAddress} not found`);
+  }
+
+  const programId = info.value.owner;
+  if (
+    !programId.equals(TOKEN_PROGRAM_ID) &&
+    !programId.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    throw new Error(
+      `Account ${mintAddress} is not a token mint (owned by ${programId.toBase58()})`
+    );
+  }
+
+  const data = info.value.data;
+  if (!('parsed' in data)) {
+    throw new Error(`Failed to parse mint account data of ${mintAddress}`);
+  }
+
+  return { isNative: false, decimals: data.parsed.info.decimals, programId };
+}
@@ -0,0 +1,117 @@
+import {
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+
+/** The SPL Token program. */
+export const TOKEN_PROGRAM_ID = new PublicKey(
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA'
+);
+
+/** The SPL Token-2022 program. */
+export const TOKEN_2022_PROGRAM_ID = new PublicKey(
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb'
+);
+
+/** The SPL Associated Token Account program. */
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey(
+  'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL'
+);
+
+/** The wrapped SOL mint, which the tool uses to represent native SOL. */
+export const NATIVE_SOL_MINT = new PublicKey(
+  'So11111111111111111111111111111111111111112'
+);
+
+// Instruction discriminators of the Associated Token Account and Token programs
+const CREATE_IDEMPOTENT_INSTRUCTION = 1;
+const TRANSFER_CHECKED_INSTRUCTION = 12;
+
+/**
+ * Derives the associated token account of a wallet for a mint.
+ * @param mint - The mint of the token.
+ * @param owner - The wallet that owns the token account.
+ * @param programId - The token program that owns the mint.
+ * @returns The address of the associated token account.
+ */
+export function getAssociatedTokenAddress(
+  mint: PublicKey,
+  owner: PublicKey,
+  programId: PublicKey
+): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [owner.toBytes(), programId.toBytes(), mint.toBytes()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return address;
+}
+
+/**
+ * Creates an instruction that creates an associated token account, unless it already exists.
+ * @param payer - The account paying for the token account's rent.
+ * @param associatedToken - The address of the associated token account.
+ * @param owner - The wallet that owns the token account.
+ * @param mint - The mint of the token.
+ * @param programId - The token program that owns the mint.
+ * @returns The instruction.
+ */
+export function createAssociatedTokenAccountIdempotentInstruction(
+  payer: PublicKey,
+  associatedToken: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey,
+  programId: PublicKey
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: associatedToken, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: programId, isSigner: false, isWritable: false },
+    ],
+    // Lit Actions don't provide Buffer, and web3.js only reads the bytes
+    data: Uint8Array.from([CREATE_IDEMPOTENT_INSTRUCTION]) as Buffer,
+  });
+}
+
+/**
+ * Creates an instruction that transfers tokens between token accounts, checking the mint's decimals.
+ * @param source - The token account to send from.
+ * @param mint - The mint of the token.
+ * @param destination - The token account to send to.
+ * @param owner - The wallet that owns the source token account.
+ * @param amount - The amount to send, in the token's smallest unit.
+ * @param decimals - The number of decimals of the token.
+ * @param programId - The token program that owns the mint.
+ * @returns The instruction.
+ */
+export function createTransferCheckedInstruction(
+  source: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  owner: PublicKey,
+  amount: bigint,
+  decimals: number,
+  programId: PublicKey
+): TransactionInstruction {
+  // Layout: u8 instruction, u64 amount (little endian), u8 decimals
+  const data = new Uint8Array(10);
+  data[0] = TRANSFER_CHECKED_INSTRUCTION;
+  new DataView(data.buffer).setBigUint64(1, amount, true);
+  data[9] = decimals;
+
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: source, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data: data as Buffer,
+  });
+}
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { PublicKey } from '@solana/web3.js';
+import { ethers } from 'ethers';
+
+/**
+ * Zod schema for validating Solana addresses.
+ * Ensures the address is a valid base58 encoded Solana public key.
+ */
+const SolanaAddressSchema = z.string().refine((val: string) => {
+  try {
+    new PublicKey(val);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid Solana address');
+
+/**
+ * Schema for validating a SplTransfer policy.
+ * Ensures the policy has the correct structure and valid values.
+ */
+const policySchema = z.object({
+  /** The type of policy, must be `SplTransfer`. */
+  type: z.literal('SplTransfer'),
+
+  /** The version of the policy. */
+  version: z.string(),
+
+  /** The maximum amount that can be sent per transfer, in the token's smallest unit (lamports for SOL). */
+  maxAmount: z.string().refine(
+    (val) => {
+      try {
+        const bn = ethers.BigNumber.from(val);
+        return !bn.isNegative(); // Ensure the amount is non-negative
+      } catch {
+        return false; // Invalid format
+      }
+    },
+    { message: 'Invalid amount format. Must be a non-negative integer.' }
+  ),
+
+  /** Only these token mints can be sent. The native SOL mint permits sending SOL. */
+  allowedMints: z.array(SolanaAddressSchema),
+
+  /** Tokens can only be sent to these wallet addresses. */
+  allowedRecipients: z.array(SolanaAddressSchema),
+});
+
+/**
+ * Encodes a SplTransfer policy into a format suitable for on-chain storage.
+ * @param policy - The SplTransfer policy to encode.
+ * @returns The encoded policy as a hex string.
+ * @throws If the policy does not conform to the schema.
+ */
+function encodePolicy(policy: SplTransferPolicyType): string {
+  // Validate the policy against the schema
+  policySchema.parse(policy);
+
+  // Encode the policy using ABI encoding for Ethereum compatibility,
+  // with the Solana addresses as JSON strings
+  return ethers.utils.defaultAbiCoder.encode(
+    ['tuple(uint256 maxAmount, string allowedMints, string allowedRecipients)'],
+    [
+      {
+        maxAmount: policy.maxAmount,
+        allowedMints: JSON.stringify(policy.allowedMints),
+        allowedRecipients: JSON.stringify(policy.allowedRecipients),
+      },
+    ]
+  );
+}
+
+/**
+ * Decodes a SplTransfer policy from its on-chain encoded format.
+ * @param encodedPolicy - The encoded policy as a hex string.
+ * @returns The decoded SplTransfer policy.
+ * @throws If the encoded policy is invalid or does not conform to the schema.
+ */
+function decodePolicy(encodedPolicy: string): SplTransferPolicyType {
+  // Decode the ABI-encoded string
+  const decoded = ethers.utils.defaultAbiCoder.decode(
+    ['tuple(uint256 maxAmount, string allowedMints, string allowedRecipients)'],
+    encodedPolicy
+  )[0];
+
+  const policy: SplTransferPolicyType = {
+    type: 'SplTransfer',
+    version: '1.0.0',
+    maxAmount: decoded.maxAmount.toString(),
+    allowedMints: JSON.parse(decoded.allowedMints).map((addr: string) =>
+      new PublicKey(addr).toBase58()
+    ),
+    allowedRecipients: JSON.parse(decoded.allowedRecipients).map(
+      (addr: string) => new PublicKey(addr).toBase58()
+    ),
+  };
+
+  return policySchema.parse(policy);
+}
+
+/**
+ * Represents the type of a SplTransfer policy, inferred from the schema.
+ */
+export type SplTransferPolicyType = z.infer<typeof policySchema>;
+
+/**
+ * Utility object for working with SplTransfer policies.
+ * Includes the schema, encoding, and decoding functions.
+ */
+export const SplTransferPolicy = {
+  /** The type of the policy. */
+  type: {} as SplTransferPolicyType,
+
+  /** The version of the policy. */
+  version: '1.0.0',
+
+  /** The schema for validating SplTransfer policies. */
+  schema: policySchema,
+
+  /** Encodes a SplTransfer policy into a format suitable for on-chain storage. */
+  encode: encodePolicy,
+
+  /** Decodes a SplTransfer policy from its on-chain encoded format. */
+  decode: decodePolicy,
+};
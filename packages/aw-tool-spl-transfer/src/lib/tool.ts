@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import { PublicKey } from '@solana/web3.js';
+import {
+  type AwTool,
+  type SupportedLitNetwork,
+  NETWORK_CONFIGS,
+  NetworkConfig,
+} from '@lit-protocol/aw-tool';
+
+import { SplTransferPolicy, type SplTransferPolicyType } from './policy';
+import { IPFS_CIDS } from './ipfs';
+
+/**
+ * Parameters required for the SplTransfer Lit Action.
+ * @property {string} pkpEthAddress - The Ethereum address of the PKP.
+ * @property {string} tokenIn - The mint address of the SPL token to send, or the native SOL mint to send SOL.
+ * @property {string} recipientAddress - The Solana wallet address of the recipient.
+ * @property {string} amountIn - The amount of tokens to send, specified as a string. This should be a decimal number (e.g. "1.5" or "100"). The amount will be automatically adjusted based on the token\'s decimals.
+ */
+export interface SplTransferLitActionParameters {
+  pkpEthAddress: string;
+  tokenIn: string;
+  recipientAddress: string;
+  amountIn: string;
+}
+
+/**
+ * Zod schema for validating Solana addresses.
+ */
+const SolanaAddressSchema = z.string().refine((val: string) => {
+  try {
+    new PublicKey(val);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Must be a valid Solana address');
+
+/**
+ * Zod schema for validating `SplTransferLitActionParameters`.
+ */
+const SplTransferLitActionSchema = z.object({
+  pkpEthAddress: z
+    .string()
+    .regex(
+      /^0x[a-fA-F0-9]{40}$/,
+      'Must be a valid Ethereum address (0x followed by 40 hexadecimal characters)'
+    ),
+  tokenIn: SolanaAddressSchema,
+  recipientAddress: SolanaAddressSchema,
+  amountIn: z
+    .string()
+    .regex(
+      /^\d*\.?\d+$/,
+      'Must be a valid decimal number as a string (e.g. "1.5" or "100")'
+    ),
+});
+
+/**
+ * Descriptions of each parameter for the SplTransfer Lit Action.
+ * These descriptions are designed to be consumed by LLMs (Language Learning Models) to understand the required parameters.
+ */
+const SplTransferLitActionParameterDescriptions = {
+  pkpEthAddress:
+    'The Ethereum address of the PKP that will be used to perform the action.',
+  tokenIn:
+    'The Solana mint address of the SPL token you want to send. Use So11111111111111111111111111111111111111112 to send native SOL.',
+  recipientAddress:
+    'The Solana wallet address of the recipient who will receive the tokens. Must be a valid Solana address.',
+  amountIn:
+    'The amount of tokens to send, specified as a string. This should be a decimal number (e.g. "1.5" or "100"). The amount will be automatically adjusted based on the token\'s decimals.',
+} as const;
+
+/**
+ * Validates the parameters for the SplTransfer Lit Action.
+ * @param params - The parameters to validate.
+ * @returns `true` if the parameters are valid, or an array of errors if invalid.
+ */
+const validateSplTransferParameters = (
+  params: unknown
+): true | Array<{ param: string; error: string }> => {
+  const result = SplTransferLitActionSchema.safeParse(params);
+  if (result.success) {
+    return true;
+  }
+
+  // Map validation errors to a more user-friendly format
+  return result.error.issues.map((issue) => ({
+    param: issue.path[0] as string,
+    error: issue.message,
+  }));
+};
+
+/**
+ * Result of a successful SplTransfer Lit Action execution.
+ * @property {'success'} status - The status of the execution.
+ * @property {string} message - A human-readable description of the result.
+ * @property {string} txid - The signature of the transfer transaction.
+ */
+interface SplTransferLitActionResult {
+  status: 'success';
+  message: string;
+  txid: string;
+}
+
+/**
+ * Zod schema for validating SplTransferLitActionResult.
+ * @type {z.ZodObject}
+ */
+const SplTransferLitActionResultSchema = z.object({
+  status: z.literal('success'),
+  message: z.string(),
+  txid: z.string(),
+});
+
+/**
+ * Creates a network-specific SplTransfer tool.
+ * @param network - The supported Lit network (e.g., `datil-dev`, `datil-test`, `datil`).
+ * @param config - The network configuration.
+ * @returns A configured `AwTool` instance for the SplTransfer Lit Action.
+ */
+const createNetworkTool = (
+  network: SupportedLitNetwork,
+  config: NetworkConfig
+): AwTool<
+  SplTransferLitActionParameters,
+  SplTransferPolicyType,
+  SplTransferLitActionResult
+> => ({
+  name: 'SplTransfer',
+  description: `A Lit Action that sends SOL or SPL tokens from a Solana wrapped key, creating the recipient's token account if needed.`,
+  ipfsCid: IPFS_CIDS[network].tool,
+  defaultPolicyIpfsCid: IPFS_CIDS[network].defaultPolicy,
+  chain: 'solana',
+  parameters: {
+    type: {} as SplTransferLitActionParameters,
+    schema: SplTransferLitActionSchema,
+    descriptions: SplTransferLitActionParameterDescriptions,
+    validate: validateSplTransferParameters,
+  },
+  policy: SplTransferPolicy,
+  result: {
+    type: {} as SplTransferLitActionResult,
+    schema: SplTransferLitActionResultSchema,
+  },
+});
+
+/**
+ * Exports network-specific SplTransfer tools.
+ * Each tool is configured for a specific Lit network (e.g., `datil-dev`, `datil-test`, `datil`).
+ */
+export const SplTransfer = Object.entries(NETWORK_CONFIGS).reduce(
+  (acc, [network, config]) => ({
+    ...acc,
+    [network]: createNetworkTool(network as SupportedLitNetwork, config),
+  }),
+  {} as Record<
+    SupportedLitNetwork,
+    AwTool<
+      SplTransferLitActionParameters,
+      SplTransferPolicyType,
+      SplTransferLitActionResult
+    >
+  >
+);
@@ -0,0 +1,133 @@
+import { ethers } from 'ethers';
+
+import { SplTransferPolicy, SplTransferPolicyType } from '../src/lib/policy';
+
+describe('SplTransferPolicy', () => {
+  const validPolicy: SplTransferPolicyType = {
+    type: 'SplTransfer',
+    version: '1.0.0',
+    maxAmount: '1000000000', // 1 SOL in lamports
+    allowedMints: [
+      'So11111111111111111111111111111111111111112', // Native SOL
+      'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+    ],
+    allowedRecipients: ['9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM'],
+  };
+
+  describe('SplTransferPolicy.schema', () => {
+    it('should validate a correct policy', () => {
+      const result = SplTransferPolicy.schema.safeParse(validPolicy);
+      expect(result.success).toBe(true);
+    });
+
+    describe('maxAmount validation', () => {
+      it('should accept valid BigNumber strings', () => {
+        const validAmounts = [
+          '1000000000',
+          '0',
+          ethers.constants.MaxUint256.toString(),
+        ];
+
+        validAmounts.forEach((maxAmount) => {
+          const result = SplTransferPolicy.schema.safeParse({
+            ...validPolicy,
+            maxAmount,
+          });
+          expect(result.success).toBe(true);
+        });
+      });
+
+      it('should reject invalid amounts', () => {
+        const invalidAmounts = ['abc', '1.5', '', '-1000000000'];
+
+        invalidAmounts.forEach((maxAmount) => {
+          const result = SplTransferPolicy.schema.safeParse({
+            ...validPolicy,
+            maxAmount,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
+
+    describe('allowedMints validation', () => {
+      it('should reject invalid Solana addresses', () => {
+        const result = SplTransferPolicy.schema.safeParse({
+          ...validPolicy,
+          allowedMints: ['not-a-solana-address'],
+        });
+        expect(result.success).toBe(false);
+      });
+
+      it('should accept empty array of allowed mints', () => {
+        const result = SplTransferPolicy.schema.safeParse({
+          ...validPolicy,
+          allowedMints: [],
+        });
+        expect(result.success).toBe(true);
+      });
+    });
+
+    describe('allowedRecipients validation', () => {
+      it('should reject Ethereum addresses', () => {
+        const result = SplTransferPolicy.schema.safeParse({
+          ...validPolicy,
+          allowedRecipients: ['0x1234567890123456789012345678901234567890'],
+        });
+        expect(result.success).toBe(false);
+      });
+
+      it('should accept empty array of allowed recipients', () => {
+        const result = SplTransferPolicy.schema.safeParse({
+          ...validPolicy,
+          allowedRecipients: [],
+        });
+        expect(result.success).toBe(true);
+      });
+    });
+  });
+
+  describe('SplTransferPolicy.encode', () => {
+    it('should encode a valid policy', () => {
+      const encoded = SplTransferPolicy.encode(validPolicy);
+      expect(typeof encoded).toBe('string');
+      expect(encoded.startsWith('0x')).toBe(true);
+    });
+
+    it('should throw on invalid policy', () => {
+      expect(() => {
+        SplTransferPolicy.encode({
+          ...validPolicy,
+          maxAmount: 'invalid',
+        });
+      }).toThrow();
+    });
+  });
+
+  describe('SplTransferPolicy.decode', () => {
+    it('should maintain data integrity through encode/decode cycle', () => {
+      const testCases: SplTransferPolicyType[] = [
+        validPolicy,
+        {
+          ...validPolicy,
+          maxAmount: '0',
+          allowedMints: [],
+          allowedRecipients: [],
+        },
+      ];
+
+      testCases.forEach((policy) => {
+        const decoded = SplTransferPolicy.decode(
+          SplTransferPolicy.encode(policy)
+        );
+        expect(decoded).toEqual(policy);
+      });
+    });
+
+    it('should throw on invalid encoded data', () => {
+      expect(() => {
+        SplTransferPolicy.decode('0x1234');
+      }).toThrow();
+    });
+  });
+});
@@ -1,19 +1,33 @@
 import {
+  checkGasFeeCeiling,
   checkLitAuthAddressIsDelegatee,
+  enforceSpendingLimit,
   getPkpToolRegistryContract,
   getPolicyParameters,
 } from '@lit-protocol/aw-tool';
 
+import { getUniswapQuoterRouter } from './utils';
+
 declare global {
   // Required Inputs
   const parentToolIpfsCid: string;
   const pkpToolRegistryContractAddress: string;
   const pkpTokenId: string;
   const delegateeAddress: string;
+  const pkpEthAddress: string;
+  // The nonce of the spend recording, empty for the PKP's pending nonce on the registry's chain
+  const spendRecordNonce: string;
   const toolParameters: {
     amountIn: string;
     tokenIn: string;
     tokenOut: string;
+    slippageBps: string;
+    chainId: string;
+    path: string[];
+  };
+  const gasInfo: {
+    maxFeePerGas: string;
+    gasLimit: string;
   };
 }
 
@@ -39,11 +53,12 @@ declare global {
     pkpTokenId,
     parentToolIpfsCid,
     delegateeAddress,
-    ['maxAmount', 'allowedTokens']
+    ['maxAmount', 'allowedTokens', 'maxSlippageBps']
   );
 
   let maxAmount: any;
   let allowedTokens: string[] = [];
+  let maxSlippageBps: number | undefined;
 
   console.log(
     `Retrieved policy parameters: ${JSON.stringify(policyParameters)}`
@@ -64,6 +79,10 @@ declare global {
         );
         console.log(`Formatted allowedTokens: ${allowedTokens.join(', ')}`);
         break;
+      case 'maxSlippageBps':
+        maxSlippageBps = Number(value);
+        console.log(`Formatted maxSlippageBps: ${maxSlippageBps}`);
+        break;
     }
   }
 
@@ -107,5 +126,72 @@ declare global {
     }
   }
 
+  // The delegatee can pick the intermediate token, so every hop of the route must be an allowed token or a default intermediate token
+  const path = toolParameters.path.map((token) =>
+    ethers.utils.getAddress(token)
+  );
+  if (
+    path.length < 2 ||
+    path[0] !== ethers.utils.getAddress(toolParameters.tokenIn) ||
+    path[path.length - 1] !== ethers.utils.getAddress(toolParameters.tokenOut)
+  ) {
+    throw new Error(
+      `Swap route ${path.join(' -> ')} doesn't swap ${
+        toolParameters.tokenIn
+      } to ${toolParameters.tokenOut}`
+    );
+  }
+
+  const { INTERMEDIATE_TOKENS } = getUniswapQuoterRouter(
+    toolParameters.chainId
+  );
+  const allowedIntermediateTokens = [
+    ...allowedTokens,
+    ...INTERMEDIATE_TOKENS.map((token) => ethers.utils.getAddress(token)),
+  ];
+  for (const intermediateToken of path.slice(1, -1)) {
+    console.log(
+      `Checking if ${intermediateToken} is an allowed intermediate token...`
+    );
+    if (!allowedIntermediateTokens.includes(intermediateToken)) {
+      throw new Error(
+        `Intermediate token ${intermediateToken} not allowed. Allowed intermediate tokens: ${allowedIntermediateTokens.join(
+          ', '
+        )}`
+      );
+    }
+  }
+
+  if (maxSlippageBps !== undefined) {
+    console.log(
+      `Checking if slippage ${toolParameters.slippageBps} bps exceeds maxSlippageBps ${maxSlippageBps} bps...`
+    );
+    if (Number(toolParameters.slippageBps) > maxSlippageBps) {
+      throw new Error(
+        `Slippage ${toolParameters.slippageBps} bps exceeds the maximum slippage ${maxSlippageBps} bps`
+      );
+    }
+  }
+
+  await checkGasFeeCeiling(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    gasInfo
+  );
+
+  // Recorded last, so a spend is only recorded for executions passing every other check
+  await enforceSpendingLimit(
+    pkpToolRegistryContract,
+    pkpEthAddress,
+    pkpTokenId,
+    parentToolIpfsCid,
+    delegateeAddress,
+    toolParameters.tokenIn,
+    amountBN,
+    spendRecordNonce
+  );
+
   console.log('Policy parameters validated');
 })();
@@ -1,8 +1,19 @@
 import {
+  callToolPolicy,
+  describeTransactionStatus,
   fetchToolPolicyFromRegistry,
   getPkpInfo,
+  getPkpToolRegistryAddress,
   getPkpToolRegistryContract,
+  getSpendRecordNonce,
+  isSimulation,
   NETWORK_CONFIG,
+  parsePolicySpendRecord,
+  refundSpend,
+  setSimulationFailureResponse,
+  setSimulationResponse,
+  waitForTransaction,
+  type SpendRecord,
 } from '@lit-protocol/aw-tool';
 
 import {
@@ -14,6 +25,7 @@ import {
   createTransaction,
   signTx,
   broadcastTransaction,
+  resetApproval,
 } from './utils';
 
 declare global {
@@ -25,15 +37,23 @@ declare global {
     tokenIn: string;
     tokenOut: string;
     amountIn: string;
+    slippageBps?: string;
+    intermediateToken?: string;
+    nonce?: string;
   };
 }
 
+/**
+ * Slippage tolerance used when none is given, in basis points (0.5%).
+ */
+const DEFAULT_SLIPPAGE_BPS = 50;
+
 (async () => {
   try {
+    const pkpToolRegistryAddress = getPkpToolRegistryAddress();
+
     console.log(`Using Lit Network: ${LIT_NETWORK}`);
-    console.log(
-      `Using PKP Tool Registry Address: ${PKP_TOOL_REGISTRY_ADDRESS}`
-    );
+    console.log(`Using PKP Tool Registry Address: ${pkpToolRegistryAddress}`);
     console.log(
       `Using Pubkey Router Address: ${
         NETWORK_CONFIG[LIT_NETWORK as keyof typeof NETWORK_CONFIG]
@@ -41,15 +61,17 @@ declare global {
       }`
     );
 
-    const { UNISWAP_V3_QUOTER, UNISWAP_V3_ROUTER } = getUniswapQuoterRouter(
-      params.chainId
-    );
+    const { UNISWAP_V3_QUOTER, UNISWAP_V3_ROUTER, INTERMEDIATE_TOKENS } =
+      getUniswapQuoterRouter(params.chainId);
+    const slippageBps = params.slippageBps
+      ? Number(params.slippageBps)
+      : DEFAULT_SLIPPAGE_BPS;
 
     const delegateeAddress = ethers.utils.getAddress(LitAuth.authSigAddress);
     const toolIpfsCid = LitAuth.actionIpfsIds[0];
     const provider = new ethers.providers.JsonRpcProvider(params.rpcUrl);
     const pkpToolRegistryContract = await getPkpToolRegistryContract(
-      PKP_TOOL_REGISTRY_ADDRESS
+      pkpToolRegistryAddress
     );
     const pkp = await getPkpInfo(params.pkpEthAddress);
     const tokenInfo = await getTokenInfo(
@@ -60,51 +82,20 @@ declare global {
       pkp
     );
 
-    const toolPolicy = await fetchToolPolicyFromRegistry(
-      pkpToolRegistryContract,
-      pkp.tokenId,
-      delegateeAddress,
-      toolIpfsCid
-    );
-
-    if (
-      toolPolicy.enabled &&
-      toolPolicy.policyIpfsCid !== undefined &&
-      toolPolicy.policyIpfsCid !== '0x' &&
-      toolPolicy.policyIpfsCid !== ''
-    ) {
-      console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
-
-      await Lit.Actions.call({
-        ipfsId: toolPolicy.policyIpfsCid,
-        params: {
-          parentToolIpfsCid: toolIpfsCid,
-          pkpToolRegistryContractAddress: PKP_TOOL_REGISTRY_ADDRESS,
-          pkpTokenId: pkp.tokenId,
-          delegateeAddress,
-          toolParameters: {
-            amountIn: tokenInfo.tokenIn.amount.toString(),
-            tokenIn: params.tokenIn,
-            tokenOut: params.tokenOut,
-          },
-        },
-      });
-    } else {
-      console.log(
-        `No policy found for tool ${toolIpfsCid} on PKP ${pkp.tokenId} for delegatee ${delegateeAddress}`
-      );
-    }
-
     // Get best quote and calculate minimum output
-    const { bestFee, amountOutMin } = await getBestQuote(
+    const { bestQuote, bestRoute, amountOutMin } = await getBestQuote(
       provider,
       UNISWAP_V3_QUOTER,
       tokenInfo.tokenIn.amount,
-      tokenInfo.tokenOut.decimals
+      tokenInfo.tokenOut.decimals,
+      slippageBps,
+      params.intermediateToken
+        ? [params.intermediateToken]
+        : INTERMEDIATE_TOKENS
     );
 
     // Get gas data for transactions
-    const gasData = await getGasData(provider, pkp.ethAddress);
+    const gasData = await getGasData(provider, pkp.ethAddress, params.nonce);
 
     // Approval Transaction
     const approvalGasLimit = await estimateGasLimit(
@@ -116,34 +107,8 @@ declare global {
       true
     );
 
-    const approvalTx = await createTransaction(
-      UNISWAP_V3_ROUTER,
-      pkp.ethAddress,
-      approvalGasLimit,
-      tokenInfo.tokenIn.amount,
-      gasData,
-      true
-    );
-
-    const signedApprovalTx = await signTx(
-      pkp.publicKey,
-      approvalTx,
-      'erc20ApprovalSig'
-    );
-    const approvalHash = await broadcastTransaction(provider, signedApprovalTx);
-    console.log('Approval transaction hash:', approvalHash);
-
-    // Wait for approval confirmation
-    console.log('Waiting for approval confirmation...');
-    const approvalConfirmation = await provider.waitForTransaction(
-      approvalHash,
-      1
-    );
-    if (approvalConfirmation.status === 0) {
-      throw new Error('Approval transaction failed');
-    }
-
-    // Swap Transaction
+    // The swap can't be simulated before the approval is mined, so this is usually the fallback gas limit.
+    // The swap is signed with this gas limit, so it never exceeds the gas limit checked by the policy.
     const swapGasLimit = await estimateGasLimit(
       provider,
       pkp.ethAddress,
@@ -151,22 +116,166 @@ declare global {
       tokenInfo.tokenIn.contract,
       tokenInfo.tokenIn.amount,
       false,
-      { fee: bestFee, amountOutMin }
+      { route: bestRoute, amountOutMin }
     );
 
-    const swapTx = await createTransaction(
-      UNISWAP_V3_ROUTER,
-      pkp.ethAddress,
-      swapGasLimit,
-      tokenInfo.tokenIn.amount,
-      { ...gasData, nonce: gasData.nonce + 1 },
-      false,
-      { fee: bestFee, amountOutMin }
+    const toolPolicy = await fetchToolPolicyFromRegistry(
+      pkpToolRegistryContract,
+      pkp.tokenId,
+      delegateeAddress,
+      toolIpfsCid
     );
 
-    const signedSwapTx = await signTx(pkp.publicKey, swapTx, 'erc20SwapSig');
-    const swapHash = await broadcastTransaction(provider, signedSwapTx);
-    console.log('Swap transaction hash:', swapHash);
+    const hasPolicy =
+      toolPolicy.enabled &&
+      toolPolicy.policyIpfsCid !== undefined &&
+      toolPolicy.policyIpfsCid !== '0x' &&
+      toolPolicy.policyIpfsCid !== '';
+    let spendRecord: SpendRecord | null = null;
+    if (hasPolicy) {
+      console.log(`Executing policy ${toolPolicy.policyIpfsCid}`);
+
+      const spendRecordNonce = await getSpendRecordNonce(
+        pkpToolRegistryContract,
+        params.chainId,
+        gasData.nonce
+      );
+      const policyResponse = await callToolPolicy(toolPolicy.policyIpfsCid, {
+        parentToolIpfsCid: toolIpfsCid,
+        pkpToolRegistryContractAddress: pkpToolRegistryAddress,
+        pkpTokenId: pkp.tokenId,
+        delegateeAddress,
+        pkpEthAddress: pkp.ethAddress,
+        spendRecordNonce,
+        toolParameters: {
+          amountIn: tokenInfo.tokenIn.amount.toString(),
+          tokenIn: params.tokenIn,
+          tokenOut: params.tokenOut,
+          slippageBps: slippageBps.toString(),
+          chainId: params.chainId,
+          path: bestRoute.tokens,
+        },
+        gasInfo: {
+          maxFeePerGas: ethers.BigNumber.from(gasData.maxFeePerGas).toString(),
+          gasLimit: approvalGasLimit.add(swapGasLimit).toString(),
+        },
+      });
+      spendRecord = parsePolicySpendRecord(policyResponse);
+      // The spend was recorded with the transaction's nonce, on the same chain
+      if (spendRecord && spendRecordNonce !== '') {
+        gasData.nonce += 1;
+      }
+    } else {
+      console.log(
+        `No policy found for tool ${toolIpfsCid} on PKP ${pkp.tokenId} for delegatee ${delegateeAddress}`
+      );
+    }
+
+    if (isSimulation()) {
+      setSimulationResponse(
+        {
+          tokenIn: {
+            decimals: tokenInfo.tokenIn.decimals,
+            balance: tokenInfo.tokenIn.balance.toString(),
+            amount: tokenInfo.tokenIn.amount.toString(),
+          },
+          tokenOut: {
+            decimals: tokenInfo.tokenOut.decimals,
+            balance: tokenInfo.tokenOut.balance.toString(),
+          },
+          quote: {
+            path: bestRoute.tokens,
+            fees: bestRoute.fees,
+            slippageBps,
+            amountOut: bestQuote.toString(),
+            amountOutMin: amountOutMin.toString(),
+          },
+          approvalGasLimit: approvalGasLimit.toString(),
+          swapGasLimit: swapGasLimit.toString(),
+          gasData,
+        },
+        hasPolicy ? toolPolicy.policyIpfsCid : undefined
+      );
+      return;
+    }
+
+    let signedApprovalTx;
+    let signedSwapTx;
+    try {
+      const approvalTx = await createTransaction(
+        UNISWAP_V3_ROUTER,
+        pkp.ethAddress,
+        approvalGasLimit,
+        tokenInfo.tokenIn.amount,
+        gasData,
+        true
+      );
+
+      signedApprovalTx = await signTx(
+        pkp.publicKey,
+        approvalTx,
+        'erc20ApprovalSig'
+      );
+
+      // Sign the swap before broadcasting the approval, so a failed signing can't leave a dangling allowance
+      const swapTx = await createTransaction(
+        UNISWAP_V3_ROUTER,
+        pkp.ethAddress,
+        swapGasLimit,
+        tokenInfo.tokenIn.amount,
+        { ...gasData, nonce: gasData.nonce + 1 },
+        false,
+        { route: bestRoute, amountOutMin }
+      );
+      signedSwapTx = await signTx(pkp.publicKey, swapTx, 'erc20SwapSig');
+    } catch (err) {
+      // Nothing was broadcast, so the swap's amount must not count towards the spending limit
+      if (spendRecord) {
+        await refundSpend(pkpToolRegistryContract, pkp, spendRecord);
+      }
+      throw err;
+    }
+
+    // Broadcast transactions may be mined even when broadcasting reports an error, so the spend is kept from here on
+    let approvalHash;
+    let swapHash;
+    try {
+      approvalHash = await broadcastTransaction(provider, signedApprovalTx);
+      console.log('Approval transaction hash:', approvalHash);
+
+      // Wait for approval confirmation
+      const approvalStatus = await waitForTransaction(provider, approvalHash);
+      if (approvalStatus.status !== 'confirmed') {
+        throw new Error(
+          `Approval transaction failed: ${describeTransactionStatus(
+            approvalStatus
+          )}`
+        );
+      }
+
+      swapHash = await broadcastTransaction(provider, signedSwapTx);
+      console.log('Swap transaction hash:', swapHash);
+
+      const swapStatus = await waitForTransaction(provider, swapHash);
+      if (swapStatus.status === 'reverted') {
+        throw new Error(
+          `Swap transaction failed: ${describeTransactionStatus(swapStatus)}`
+        );
+      }
+    } catch (err) {
+      if (approvalHash) {
+        // The router may still hold the allowance, which no swap will spend
+        await resetApproval(
+          provider,
+          UNISWAP_V3_ROUTER,
+          pkp,
+          approvalGasLimit,
+          // Takes the swap's nonce when the swap wasn't broadcast, so the signed swap can't be mined anymore
+          { ...gasData, nonce: gasData.nonce + (swapHash ? 2 : 1) }
+        );
+      }
+      throw err;
+    }
 
     Lit.Actions.setResponse({
       response: JSON.stringify({
@@ -178,6 +287,11 @@ declare global {
   } catch (err: any) {
     console.error('Error:', err);
 
+    if (isSimulation()) {
+      setSimulationFailureResponse(err);
+      return;
+    }
+
     // Extract detailed error information
     const errorDetails = {
       message: err.message,
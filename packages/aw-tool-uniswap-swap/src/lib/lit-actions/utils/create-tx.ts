@@ -1,10 +1,12 @@
+import { encodeSwapData, type SwapRoute } from './swap-route';
+
 /**
  * Creates a transaction for approval or swap.
  * @param {any} gasLimit - The gas limit for the transaction.
  * @param {any} amount - The amount of tokens to swap.
  * @param {any} gasData - Gas data (maxFeePerGas, maxPriorityFeePerGas, nonce).
  * @param {boolean} isApproval - Whether the transaction is an approval or a swap.
- * @param {Object} [swapParams] - Swap parameters (fee and amountOutMin).
+ * @param {Object} [swapParams] - Swap parameters (route and amountOutMin).
  * @returns {any} The transaction object.
  */
 export const createTransaction = async (
@@ -15,7 +17,7 @@ export const createTransaction = async (
   gasData: any,
   isApproval: boolean,
   swapParams?: {
-    fee: number;
+    route: SwapRoute;
     amountOutMin: any;
   }
 ) => {
@@ -31,20 +33,12 @@ export const createTransaction = async (
       amount,
     ]);
   } else if (swapParams) {
-    const routerInterface = new ethers.utils.Interface([
-      'function exactInputSingle((address,address,uint24,address,uint256,uint256,uint160)) external payable returns (uint256)',
-    ]);
-    txData = routerInterface.encodeFunctionData('exactInputSingle', [
-      [
-        params.tokenIn,
-        params.tokenOut,
-        swapParams.fee,
-        pkpEthAddress,
-        amount,
-        swapParams.amountOutMin,
-        0,
-      ],
-    ]);
+    txData = encodeSwapData(
+      swapParams.route,
+      pkpEthAddress,
+      amount,
+      swapParams.amountOutMin
+    );
   } else {
     throw new Error('Missing swap parameters for transaction creation');
   }
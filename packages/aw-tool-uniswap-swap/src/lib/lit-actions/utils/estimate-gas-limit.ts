@@ -1,10 +1,12 @@
+import { encodeSwapData, type SwapRoute } from './swap-route';
+
 /**
  * Estimates the gas limit for a transaction.
  * @param {JsonRpcProvider} provider - The Ethereum provider.
  * @param {any} tokenInContract - The token contract instance.
  * @param {any} amount - The amount of tokens to swap.
  * @param {boolean} isApproval - Whether the transaction is an approval or a swap.
- * @param {Object} [swapParams] - Swap parameters (fee and amountOutMin).
+ * @param {Object} [swapParams] - Swap parameters (route and amountOutMin).
  * @returns {Promise<any>} The estimated gas limit.
  */
 export const estimateGasLimit = async (
@@ -15,7 +17,7 @@ export const estimateGasLimit = async (
   amount: any,
   isApproval: boolean,
   swapParams?: {
-    fee: number;
+    route: SwapRoute;
     amountOutMin: any;
   }
 ) => {
@@ -30,28 +32,16 @@ export const estimateGasLimit = async (
         { from: pkpEthAddress }
       );
     } else if (swapParams) {
-      const routerInterface = new ethers.utils.Interface([
-        'function exactInputSingle((address,address,uint24,address,uint256,uint256,uint160)) external payable returns (uint256)',
-      ]);
-
-      const routerContract = new ethers.Contract(
-        uniswapV3Router,
-        routerInterface,
-        provider
-      );
-
-      estimatedGas = await routerContract.estimateGas.exactInputSingle(
-        [
-          params.tokenIn,
-          params.tokenOut,
-          swapParams.fee,
+      estimatedGas = await provider.estimateGas({
+        from: pkpEthAddress,
+        to: uniswapV3Router,
+        data: encodeSwapData(
+          swapParams.route,
           pkpEthAddress,
           amount,
-          swapParams.amountOutMin,
-          0
-        ],
-        { from: pkpEthAddress }
-      );
+          swapParams.amountOutMin
+        ),
+      });
     } else {
       throw new Error('Missing swap parameters for gas estimation');
     }
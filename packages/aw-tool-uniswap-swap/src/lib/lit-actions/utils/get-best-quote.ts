@@ -1,40 +1,45 @@
+import { encodeSwapPath, type SwapRoute } from './swap-route';
+
+/**
+ * Fee tiers of Uniswap V3 pools (0.01%, 0.05%, 0.3% and 1%).
+ */
+const FEE_TIERS = [100, 500, 3000, 10000];
+
+const quoterInterface = new ethers.utils.Interface([
+  'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96)) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+  'function quoteExactInput(bytes path, uint256 amountIn) external returns (uint256 amountOut, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)',
+]);
+
 /**
- * Retrieves the best quote for a Uniswap V3 swap.
+ * Quotes a single-hop swap on every fee tier, and returns the best one.
  * @param {JsonRpcProvider} provider - The Ethereum provider.
- * @param {any} amount - The amount of tokens to swap.
- * @param {number} decimalsOut - The decimals of the output token.
- * @returns {Promise<{ bestQuote: any, bestFee: number, amountOutMin: any }>} The best quote and fee tier.
+ * @param {string} uniswapV3Quoter - The address of the Uniswap V3 QuoterV2.
+ * @param {string} tokenIn - The token to swap from.
+ * @param {string} tokenOut - The token to swap to.
+ * @param {any} amount - The amount of tokenIn to swap.
+ * @returns {Promise<{ amountOut: any, fee: number } | null>} The best quote, or null if there is no pool for the pair.
  */
-export const getBestQuote = async (
+const getBestSingleHopQuote = async (
   provider: any,
-  uniswapV3Quoter: any,
-  amount: any,
-  decimalsOut: number
+  uniswapV3Quoter: string,
+  tokenIn: string,
+  tokenOut: string,
+  amount: any
 ) => {
-  console.log('Getting best quote for swap...');
-  const quoterInterface = new ethers.utils.Interface([
-    'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96)) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
-  ]);
-
-  const FEE_TIERS = [3000, 500]; // Supported fee tiers (0.3% and 0.05%)
-  let bestQuote = null;
-  let bestFee = null;
+  let best: { amountOut: any; fee: number } | null = null;
 
   for (const fee of FEE_TIERS) {
     try {
-      const quoteParams = {
-        tokenIn: params.tokenIn,
-        tokenOut: params.tokenOut,
-        amountIn: amount,
-        fee: fee,
-        sqrtPriceLimitX96: 0,
-      };
-
-      console.log(`Trying fee tier ${fee / 10000}%...`);
       const quote = await provider.call({
         to: uniswapV3Quoter,
         data: quoterInterface.encodeFunctionData('quoteExactInputSingle', [
-          quoteParams,
+          {
+            tokenIn,
+            tokenOut,
+            amountIn: amount,
+            fee,
+            sqrtPriceLimitX96: 0,
+          },
         ]),
       });
 
@@ -44,18 +49,16 @@ export const getBestQuote = async (
       );
       const currentQuote = ethers.BigNumber.from(amountOut);
 
-      if (!bestQuote || currentQuote.gt(bestQuote)) {
-        bestQuote = currentQuote;
-        bestFee = fee;
-        console.log(
-          `New best quote found with fee tier ${
-            fee / 10000
-          }%: ${ethers.utils.formatUnits(currentQuote, decimalsOut)}`
-        );
+      if (!best || currentQuote.gt(best.amountOut)) {
+        best = { amountOut: currentQuote, fee };
       }
     } catch (error) {
       if ((error as { reason?: string }).reason === 'Unexpected error') {
-        console.log(`No pool found for fee tier ${fee / 10000}%`);
+        console.log(
+          `No pool found for ${tokenIn} -> ${tokenOut} on fee tier ${
+            fee / 10000
+          }%`
+        );
       } else {
         console.error('Debug: Quoter call failed for fee tier:', fee, error);
       }
@@ -63,19 +66,151 @@ export const getBestQuote = async (
     }
   }
 
-  if (!bestQuote || !bestFee) {
+  return best;
+};
+
+/**
+ * Quotes a multi-hop swap along a route.
+ * @param {JsonRpcProvider} provider - The Ethereum provider.
+ * @param {string} uniswapV3Quoter - The address of the Uniswap V3 QuoterV2.
+ * @param {SwapRoute} route - The route to quote.
+ * @param {any} amount - The amount of tokenIn to swap.
+ * @returns {Promise<any>} The amount of tokenOut the route returns.
+ */
+const quoteRoute = async (
+  provider: any,
+  uniswapV3Quoter: string,
+  route: SwapRoute,
+  amount: any
+) => {
+  const quote = await provider.call({
+    to: uniswapV3Quoter,
+    data: quoterInterface.encodeFunctionData('quoteExactInput', [
+      encodeSwapPath(route),
+      amount,
+    ]),
+  });
+
+  const [amountOut] = quoterInterface.decodeFunctionResult(
+    'quoteExactInput',
+    quote
+  );
+  return ethers.BigNumber.from(amountOut);
+};
+
+/**
+ * Retrieves the best quote for a Uniswap V3 swap, across all fee tiers and
+ * through each intermediate token for multi-hop routes.
+ * @param {JsonRpcProvider} provider - The Ethereum provider.
+ * @param {string} uniswapV3Quoter - The address of the Uniswap V3 QuoterV2.
+ * @param {any} amount - The amount of tokens to swap.
+ * @param {number} decimalsOut - The decimals of the output token.
+ * @param {number} slippageBps - The slippage tolerance in basis points.
+ * @param {string[]} intermediateTokens - The tokens to try routing multi-hop swaps through.
+ * @returns {Promise<{ bestQuote: any, bestRoute: SwapRoute, amountOutMin: any }>} The best quote and its route.
+ */
+export const getBestQuote = async (
+  provider: any,
+  uniswapV3Quoter: string,
+  amount: any,
+  decimalsOut: number,
+  slippageBps: number,
+  intermediateTokens: string[]
+) => {
+  console.log('Getting best quote for swap...');
+  const tokenIn = ethers.utils.getAddress(params.tokenIn);
+  const tokenOut = ethers.utils.getAddress(params.tokenOut);
+
+  let bestQuote = null;
+  let bestRoute: SwapRoute | null = null;
+
+  const direct = await getBestSingleHopQuote(
+    provider,
+    uniswapV3Quoter,
+    tokenIn,
+    tokenOut,
+    amount
+  );
+  if (direct) {
+    bestQuote = direct.amountOut;
+    bestRoute = { tokens: [tokenIn, tokenOut], fees: [direct.fee] };
+    console.log(
+      `Best direct quote with fee tier ${
+        direct.fee / 10000
+      }%: ${ethers.utils.formatUnits(bestQuote, decimalsOut)}`
+    );
+  }
+
+  for (const intermediateToken of intermediateTokens.map((token) =>
+    ethers.utils.getAddress(token)
+  )) {
+    if (intermediateToken === tokenIn || intermediateToken === tokenOut) {
+      continue;
+    }
+
+    console.log(`Trying route through ${intermediateToken}...`);
+
+    // Each pool's output grows with its input, so the best route picks the best pool for each hop
+    const firstHop = await getBestSingleHopQuote(
+      provider,
+      uniswapV3Quoter,
+      tokenIn,
+      intermediateToken,
+      amount
+    );
+    if (!firstHop) continue;
+
+    const secondHop = await getBestSingleHopQuote(
+      provider,
+      uniswapV3Quoter,
+      intermediateToken,
+      tokenOut,
+      firstHop.amountOut
+    );
+    if (!secondHop) continue;
+
+    const route = {
+      tokens: [tokenIn, intermediateToken, tokenOut],
+      fees: [firstHop.fee, secondHop.fee],
+    };
+
+    try {
+      const currentQuote = await quoteRoute(
+        provider,
+        uniswapV3Quoter,
+        route,
+        amount
+      );
+
+      if (!bestQuote || currentQuote.gt(bestQuote)) {
+        bestQuote = currentQuote;
+        bestRoute = route;
+        console.log(
+          `New best quote found through ${intermediateToken} with fee tiers ${route.fees
+            .map((fee) => `${fee / 10000}%`)
+            .join(', ')}: ${ethers.utils.formatUnits(
+            currentQuote,
+            decimalsOut
+          )}`
+        );
+      }
+    } catch (error) {
+      console.error('Debug: Quoter call failed for route:', route, error);
+    }
+  }
+
+  if (!bestQuote || !bestRoute) {
     throw new Error(
-      'Failed to get quote from Uniswap V3. No valid pool found for this token pair.'
+      'Failed to get quote from Uniswap V3. No valid pool or route found for this token pair.'
     );
   }
 
-  // Calculate minimum output with 0.5% slippage tolerance
-  const slippageTolerance = 0.005;
-  const amountOutMin = bestQuote.mul(1000 - slippageTolerance * 1000).div(1000);
+  // Calculate minimum output with the slippage tolerance
+  const amountOutMin = bestQuote.mul(10000 - slippageBps).div(10000);
   console.log(
-    'Minimum output:',
+    `Minimum output with ${slippageBps / 100}% slippage:`,
     ethers.utils.formatUnits(amountOutMin, decimalsOut)
   );
 
-  return { bestQuote, bestFee, amountOutMin };
+  return { bestQuote, bestRoute, amountOutMin };
 };
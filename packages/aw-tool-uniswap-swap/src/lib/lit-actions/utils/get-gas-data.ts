@@ -1,9 +1,16 @@
+import { getNonce } from '@lit-protocol/aw-tool';
+
 /**
  * Retrieves gas data (maxFeePerGas, maxPriorityFeePerGas, and nonce).
  * @param {JsonRpcProvider} provider - The Ethereum provider.
+ * @param {string} [nonce] - The explicit nonce of the transaction. Leave empty for the PKP's pending-aware nonce.
  * @returns {Promise<{ maxFeePerGas: string, maxPriorityFeePerGas: string, nonce: number }>} Gas data.
  */
-export const getGasData = async (provider: any, pkpEthAddress: string) => {
+export const getGasData = async (
+  provider: any,
+  pkpEthAddress: string,
+  nonce?: string
+) => {
   console.log(`Getting gas data...`);
 
   const gasData = await Lit.Actions.runOnce(
@@ -15,7 +22,6 @@ export const getGasData = async (provider: any, pkpEthAddress: string) => {
         [],
       ]);
       const baseFee = ethers.BigNumber.from(baseFeeHistory.baseFeePerGas[0]);
-      const nonce = await provider.getTransactionCount(pkpEthAddress);
 
       const priorityFee = baseFee.div(4);
       const maxFee = baseFee.mul(2);
@@ -23,7 +29,7 @@ export const getGasData = async (provider: any, pkpEthAddress: string) => {
       return JSON.stringify({
         maxFeePerGas: maxFee.toHexString(),
         maxPriorityFeePerGas: priorityFee.toHexString(),
-        nonce,
+        nonce: await getNonce(provider, pkpEthAddress, nonce),
       });
     }
   );
@@ -1,17 +1,34 @@
 export const getUniswapQuoterRouter = (chainId: string) => {
   let UNISWAP_V3_QUOTER: string;
   let UNISWAP_V3_ROUTER: string;
+  // Tokens multi-hop swaps are routed through by default (WETH and USDC)
+  let INTERMEDIATE_TOKENS: string[];
 
   // Set Uniswap V3 contract addresses based on the chain ID
   switch (chainId) {
     case '8453': // Base Mainnet
       UNISWAP_V3_QUOTER = '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a';
       UNISWAP_V3_ROUTER = '0x2626664c2603336E57B271c5C0b26F421741e481';
+      INTERMEDIATE_TOKENS = [
+        '0x4200000000000000000000000000000000000006',
+        '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      ];
       break;
     case '1': // Ethereum Mainnet
+      UNISWAP_V3_QUOTER = '0x61fFE014bA17989E743c5F6cB21bF9697530B21e';
+      UNISWAP_V3_ROUTER = '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45';
+      INTERMEDIATE_TOKENS = [
+        '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+        '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      ];
+      break;
     case '42161': // Arbitrum
       UNISWAP_V3_QUOTER = '0x61fFE014bA17989E743c5F6cB21bF9697530B21e';
       UNISWAP_V3_ROUTER = '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45';
+      INTERMEDIATE_TOKENS = [
+        '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+        '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+      ];
       break;
     default:
       throw new Error(`Unsupported chain ID: ${chainId}`);
@@ -23,5 +40,6 @@ export const getUniswapQuoterRouter = (chainId: string) => {
   return {
     UNISWAP_V3_QUOTER,
     UNISWAP_V3_ROUTER,
+    INTERMEDIATE_TOKENS,
   };
 };
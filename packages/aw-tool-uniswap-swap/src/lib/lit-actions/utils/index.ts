@@ -6,3 +6,5 @@ export * from './estimate-gas-limit';
 export * from './create-tx';
 export * from './sign-tx';
 export * from './broadcast-tx';
+export * from './reset-approval';
+export * from './swap-route';
@@ -0,0 +1,46 @@
+import { createTransaction } from './create-tx';
+import { signTx } from './sign-tx';
+import { broadcastTransaction } from './broadcast-tx';
+
+/**
+ * Resets the router's allowance of the input token to 0, after a swap failed following its approval.
+ * Failing to reset the allowance is logged, so the error of the swap is the one reported.
+ * @param {JsonRpcProvider} provider - The Ethereum provider.
+ * @param {string} uniswapV3Router - The address of the Uniswap V3 router.
+ * @param {Object} pkp - The PKP's Ethereum address and public key.
+ * @param {any} gasLimit - The gas limit of the approval.
+ * @param {any} gasData - Gas data (maxFeePerGas, maxPriorityFeePerGas, nonce) of the reset transaction.
+ * @returns {Promise<string | undefined>} The hash of the reset transaction, or undefined if it couldn't be broadcast.
+ */
+export const resetApproval = async (
+  provider: any,
+  uniswapV3Router: string,
+  pkp: { ethAddress: string; publicKey: string },
+  gasLimit: any,
+  gasData: any
+) => {
+  console.log('Resetting approval...');
+
+  try {
+    const resetTx = await createTransaction(
+      uniswapV3Router,
+      pkp.ethAddress,
+      gasLimit,
+      ethers.BigNumber.from(0),
+      gasData,
+      true
+    );
+    const signedResetTx = await signTx(
+      pkp.publicKey,
+      resetTx,
+      'erc20ApprovalResetSig'
+    );
+
+    const resetHash = await broadcastTransaction(provider, signedResetTx);
+    console.log('Approval reset transaction hash:', resetHash);
+    return resetHash;
+  } catch (error) {
+    console.error('Error resetting approval:', error);
+    return undefined;
+  }
+};
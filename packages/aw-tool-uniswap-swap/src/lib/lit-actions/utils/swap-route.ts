@@ -0,0 +1,69 @@
+/**
+ * A route through one or more Uniswap V3 pools.
+ * @property {string[]} tokens - The tokens along the route, from tokenIn to tokenOut.
+ * @property {number[]} fees - The fee tier of the pool for each hop.
+ */
+export interface SwapRoute {
+  tokens: string[];
+  fees: number[];
+}
+
+/**
+ * Encodes a route as a Uniswap V3 path, the tokens interleaved with the fee tiers of the pools between them.
+ * @param {SwapRoute} route - The route to encode.
+ * @returns {string} The packed path.
+ */
+export const encodeSwapPath = (route: SwapRoute) => {
+  const types: string[] = [];
+  const values: (string | number)[] = [];
+
+  route.tokens.forEach((token, i) => {
+    types.push('address');
+    values.push(token);
+    if (i < route.fees.length) {
+      types.push('uint24');
+      values.push(route.fees[i]);
+    }
+  });
+
+  return ethers.utils.solidityPack(types, values);
+};
+
+/**
+ * Encodes the router call for a swap along a route.
+ * Single-hop routes use `exactInputSingle`, multi-hop routes use `exactInput`.
+ * @param {SwapRoute} route - The route to swap along.
+ * @param {string} recipient - The address receiving the output tokens.
+ * @param {any} amount - The amount of input tokens to swap.
+ * @param {any} amountOutMin - The minimum amount of output tokens to receive.
+ * @returns {string} The calldata for the Uniswap V3 router.
+ */
+export const encodeSwapData = (
+  route: SwapRoute,
+  recipient: string,
+  amount: any,
+  amountOutMin: any
+) => {
+  const routerInterface = new ethers.utils.Interface([
+    'function exactInputSingle((address,address,uint24,address,uint256,uint256,uint160)) external payable returns (uint256)',
+    'function exactInput((bytes,address,uint256,uint256)) external payable returns (uint256)',
+  ]);
+
+  if (route.fees.length === 1) {
+    return routerInterface.encodeFunctionData('exactInputSingle', [
+      [
+        route.tokens[0],
+        route.tokens[1],
+        route.fees[0],
+        recipient,
+        amount,
+        amountOutMin,
+        0,
+      ],
+    ]);
+  }
+
+  return routerInterface.encodeFunctionData('exactInput', [
+    [encodeSwapPath(route), recipient, amount, amountOutMin],
+  ]);
+};
@@ -21,8 +21,15 @@ const policySchema = z.object({
     { message: 'Invalid amount format. Must be a non-negative integer.' }
   ),
   allowedTokens: z.array(BaseEthereumAddressSchema), // Array of allowed token addresses
+  maxSlippageBps: z.number().int().min(1).max(10000).optional(), // Maximum slippage tolerance in basis points
 });
 
+/**
+ * The ABI type used to encode UniswapSwap policies.
+ */
+const POLICY_ABI_TYPE =
+  'tuple(uint256 maxAmount, address[] allowedTokens, uint256 maxSlippageBps)';
+
 /**
  * Encodes a UniswapSwap policy into a packed ABI-encoded string.
  * @param {UniswapSwapPolicyType} policy - The policy to encode.
@@ -35,11 +42,13 @@ function encodePolicy(policy: UniswapSwapPolicyType): string {
 
   // Encode the policy using ABI encoding
   return ethers.utils.defaultAbiCoder.encode(
-    ['tuple(uint256 maxAmount, address[] allowedTokens)'],
+    [POLICY_ABI_TYPE],
     [
       {
         maxAmount: policy.maxAmount,
         allowedTokens: policy.allowedTokens,
+        // An unset slippage cap is encoded as 0
+        maxSlippageBps: policy.maxSlippageBps ?? 0,
       },
     ]
   );
@@ -54,7 +63,7 @@ function encodePolicy(policy: UniswapSwapPolicyType): string {
 function decodePolicy(encodedPolicy: string): UniswapSwapPolicyType {
   // Decode the ABI-encoded string
   const decoded = ethers.utils.defaultAbiCoder.decode(
-    ['tuple(uint256 maxAmount, address[] allowedTokens)'],
+    [POLICY_ABI_TYPE],
     encodedPolicy
   )[0];
 
@@ -66,6 +75,10 @@ function decodePolicy(encodedPolicy: string): UniswapSwapPolicyType {
     allowedTokens: decoded.allowedTokens,
   };
 
+  if (!decoded.maxSlippageBps.isZero()) {
+    policy.maxSlippageBps = decoded.maxSlippageBps.toNumber();
+  }
+
   // Validate the decoded policy against the schema
   return policySchema.parse(policy);
 }
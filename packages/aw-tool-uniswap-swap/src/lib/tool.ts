@@ -16,6 +16,9 @@ import { IPFS_CIDS } from './ipfs';
  * @property {string} amountIn - The amount of tokens to send as a string (will be parsed based on token decimals).
  * @property {string} chainId - The ID of the blockchain network.
  * @property {string} rpcUrl - The RPC URL of the blockchain network.
+ * @property {string} [slippageBps] - The slippage tolerance in basis points, defaults to 50 (0.5%).
+ * @property {string} [intermediateToken] - The token to route multi-hop swaps through, defaults to the chain's WETH and USDC.
+ * @property {string} [nonce] - The nonce of the first transaction, defaults to the next nonce after the PKP's pending transactions.
  */
 export interface UniswapSwapLitActionParameters {
   pkpEthAddress: string;
@@ -24,6 +27,9 @@ export interface UniswapSwapLitActionParameters {
   amountIn: string;
   chainId: string;
   rpcUrl: string;
+  slippageBps?: string;
+  intermediateToken?: string;
+  nonce?: string;
 }
 
 /**
@@ -65,6 +71,27 @@ const UniswapSwapLitActionSchema = z.object({
       'https://',
       'Must be a valid HTTPS URL for the blockchain RPC endpoint'
     ),
+  slippageBps: z
+    .string()
+    .regex(/^\d+$/, 'Must be a whole number of basis points as a string')
+    .refine((val) => Number(val) <= 10000, {
+      message: 'Must not exceed 10000 basis points (100%)',
+    })
+    .or(z.literal(''))
+    .optional(),
+  intermediateToken: z
+    .string()
+    .regex(
+      /^0x[a-fA-F0-9]{40}$/,
+      'Must be a valid Ethereum contract address (0x followed by 40 hexadecimal characters)'
+    )
+    .or(z.literal(''))
+    .optional(),
+  nonce: z
+    .string()
+    .regex(/^\d+$/, 'Must be a whole number as a string')
+    .or(z.literal(''))
+    .optional(),
 });
 
 /**
@@ -85,6 +112,12 @@ const UniswapSwapLitActionParameterDescriptions = {
     'The ID of the blockchain network to send the tokens on (e.g. 1 for Ethereum mainnet, 84532 for Base Sepolia).',
   rpcUrl:
     'The RPC URL of the blockchain network to connect to (e.g. "https://base-sepolia-rpc.publicnode.com").',
+  slippageBps:
+    'The maximum slippage to accept, in basis points as a string (e.g. "50" for 0.5%). Leave empty for 50 basis points.',
+  intermediateToken:
+    "The Ethereum contract address of a token to route the swap through when that beats a direct pool, e.g. for long-tail pairs. The policy only permits the chain's WETH and USDC, or its allowed tokens. Leave empty to try the chain's WETH and USDC.",
+  nonce:
+    'The nonce of the first transaction, as a whole number string (e.g. "42"); the following transactions use the next nonces. Leave empty to use the next nonce after the PKP\'s pending transactions.',
 } as const;
 
 /**
@@ -106,21 +139,48 @@ const validateUniswapSwapParameters = (
   }));
 };
 
+/**
+ * Result of a successful Uniswap Swap Lit Action execution.
+ * @property {'success'} status - The status of the execution.
+ * @property {string} approvalHash - The hash of the token approval transaction.
+ * @property {string} swapHash - The hash of the swap transaction.
+ */
+interface UniswapSwapLitActionResult {
+  status: 'success';
+  approvalHash: string;
+  swapHash: string;
+}
+
+/**
+ * Zod schema for validating UniswapSwapLitActionResult.
+ * @type {z.ZodObject}
+ */
+const UniswapSwapLitActionResultSchema = z.object({
+  status: z.literal('success'),
+  approvalHash: z.string(),
+  swapHash: z.string(),
+});
+
 /**
  * Creates a network-specific UniswapSwap tool.
  * @param {SupportedLitNetwork} network - The Lit network to use.
  * @param {NetworkConfig} config - The configuration for the network.
- * @returns {AwTool<UniswapSwapLitActionParameters, UniswapSwapPolicyType>} - The configured AwTool instance.
+ * @returns {AwTool<UniswapSwapLitActionParameters, UniswapSwapPolicyType, UniswapSwapLitActionResult>} - The configured AwTool instance.
  */
 const createNetworkTool = (
   network: SupportedLitNetwork,
   config: NetworkConfig
-): AwTool<UniswapSwapLitActionParameters, UniswapSwapPolicyType> => ({
+): AwTool<
+  UniswapSwapLitActionParameters,
+  UniswapSwapPolicyType,
+  UniswapSwapLitActionResult
+> => ({
   name: 'UniswapSwap',
   description: `A Lit Action that swaps tokens on Uniswap.`,
   ipfsCid: IPFS_CIDS[network].tool,
   defaultPolicyIpfsCid: IPFS_CIDS[network].defaultPolicy,
   chain: 'ethereum',
+  transactionHashKeys: ['approvalHash', 'swapHash'],
   parameters: {
     type: {} as UniswapSwapLitActionParameters,
     schema: UniswapSwapLitActionSchema,
@@ -128,11 +188,15 @@ const createNetworkTool = (
     validate: validateUniswapSwapParameters,
   },
   policy: UniswapSwapPolicy,
+  result: {
+    type: {} as UniswapSwapLitActionResult,
+    schema: UniswapSwapLitActionResultSchema,
+  },
 });
 
 /**
  * A collection of network-specific UniswapSwap tools.
- * @type {Record<SupportedLitNetwork, AwTool<UniswapSwapLitActionParameters, UniswapSwapPolicyType>>}
+ * @type {Record<SupportedLitNetwork, AwTool<UniswapSwapLitActionParameters, UniswapSwapPolicyType, UniswapSwapLitActionResult>>}
  */
 export const UniswapSwap = Object.entries(NETWORK_CONFIGS).reduce(
   (acc, [network, config]) => ({
@@ -141,6 +205,10 @@ export const UniswapSwap = Object.entries(NETWORK_CONFIGS).reduce(
   }),
   {} as Record<
     SupportedLitNetwork,
-    AwTool<UniswapSwapLitActionParameters, UniswapSwapPolicyType>
+    AwTool<
+      UniswapSwapLitActionParameters,
+      UniswapSwapPolicyType,
+      UniswapSwapLitActionResult
+    >
   >
 );
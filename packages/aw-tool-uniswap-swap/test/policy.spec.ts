@@ -117,6 +117,28 @@ describe('UniswapSwapPolicy', () => {
         expect(result.success).toBe(true);
       });
     });
+
+    describe('maxSlippageBps validation', () => {
+      it('should accept slippage caps between 1 and 10000 basis points', () => {
+        [1, 50, 10000].forEach((maxSlippageBps) => {
+          const result = UniswapSwapPolicy.schema.safeParse({
+            ...validPolicy,
+            maxSlippageBps,
+          });
+          expect(result.success).toBe(true);
+        });
+      });
+
+      it('should reject invalid slippage caps', () => {
+        [0, -1, 10001, 0.5, '50' as any].forEach((maxSlippageBps) => {
+          const result = UniswapSwapPolicy.schema.safeParse({
+            ...validPolicy,
+            maxSlippageBps,
+          });
+          expect(result.success).toBe(false);
+        });
+      });
+    });
   });
 
   describe('UniswapSwapPolicy.encode', () => {
@@ -174,6 +196,10 @@ describe('UniswapSwapPolicy', () => {
           ...validPolicy,
           maxAmount: ethers.constants.MaxUint256.toString(),
         },
+        {
+          ...validPolicy,
+          maxSlippageBps: 100,
+        },
       ];
 
       testCases.forEach((policy) => {
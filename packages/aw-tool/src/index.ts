@@ -1,2 +1,3 @@
 export * from './lib/tool';
+export * from './lib/transaction-status';
 export * from './lib/lit-action-utils';
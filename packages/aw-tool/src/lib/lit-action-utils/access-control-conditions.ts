@@ -11,10 +11,15 @@ const REGISTRY_ADDRESSES = {
  * These conditions check if a tool is permitted for a delegatee and if it's enabled.
  * @param tokenId - The PKP token ID to check permissions for
  * @param network - The Lit network to use (datil-dev, datil-test, or datil)
+ * @param contractAddress - The address of a custom PKP Tool Registry deployment on Chronicle Yellowstone,
+ * defaults to the registry of the Lit network
  * @returns The access control conditions array
  */
-export function getAccessControlConditions(tokenId: string, network: LitNetwork): any[] {
-  const contractAddress = REGISTRY_ADDRESSES[network];
+export function getAccessControlConditions(
+  tokenId: string,
+  network: LitNetwork,
+  contractAddress: string = REGISTRY_ADDRESSES[network]
+): any[] {
 
   return [
     {
@@ -0,0 +1,73 @@
+import { getPolicyParameters } from './get-policy-parameters';
+
+/**
+ * Checks that the gas fees of an EVM tool's transactions stay within the gas fee ceiling set in the tool's policy parameters.
+ * The `maxFeePerGasGwei` parameter caps the max fee per gas, and the `maxTotalGasCostWei` parameter caps the
+ * worst case cost of the transactions, their total gas limit times the max fee per gas. Unset parameters aren't enforced.
+ *
+ * @param pkpToolRegistryContract - The PKP Tool Registry contract instance.
+ * @param pkpTokenId - The token ID of the PKP.
+ * @param toolIpfsCid - The IPFS CID of the tool.
+ * @param delegateeAddress - The Ethereum address of the delegatee.
+ * @param gasInfo - The max fee per gas of the transactions, and their total gas limit, both as decimal strings.
+ * @throws Error if the max fee per gas or the total gas cost exceeds its ceiling.
+ */
+export const checkGasFeeCeiling = async (
+  pkpToolRegistryContract: any,
+  pkpTokenId: string,
+  toolIpfsCid: string,
+  delegateeAddress: string,
+  gasInfo: { maxFeePerGas: string; gasLimit: string }
+) => {
+  const policyParameters = await getPolicyParameters(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    toolIpfsCid,
+    delegateeAddress,
+    ['maxFeePerGasGwei', 'maxTotalGasCostWei']
+  );
+
+  const maxFeePerGas = ethers.BigNumber.from(gasInfo.maxFeePerGas);
+  const totalGasCost = maxFeePerGas.mul(gasInfo.gasLimit);
+
+  for (const parameter of policyParameters) {
+    const value = ethers.utils.toUtf8String(parameter.value);
+
+    switch (parameter.name) {
+      case 'maxFeePerGasGwei': {
+        const maxFeePerGasCeiling = ethers.utils.parseUnits(value, 'gwei');
+        console.log(
+          `Checking if max fee per gas ${maxFeePerGas.toString()} exceeds maxFeePerGasGwei ${value}...`
+        );
+
+        if (maxFeePerGas.gt(maxFeePerGasCeiling)) {
+          throw new Error(
+            `Max fee per gas ${ethers.utils.formatUnits(
+              maxFeePerGas,
+              'gwei'
+            )} gwei exceeds the maximum of ${value} gwei`
+          );
+        }
+        break;
+      }
+      case 'maxTotalGasCostWei': {
+        const totalGasCostCeiling = ethers.BigNumber.from(value);
+        console.log(
+          `Checking if total gas cost ${totalGasCost.toString()} exceeds maxTotalGasCostWei ${value}...`
+        );
+
+        if (totalGasCost.gt(totalGasCostCeiling)) {
+          throw new Error(
+            `Total gas cost ${totalGasCost.toString()} wei (gas limit ${
+              gasInfo.gasLimit
+            } at ${ethers.utils.formatUnits(
+              maxFeePerGas,
+              'gwei'
+            )} gwei) exceeds the maximum of ${value} wei`
+          );
+        }
+        break;
+      }
+    }
+  }
+};
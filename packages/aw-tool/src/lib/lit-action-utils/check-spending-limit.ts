@@ -0,0 +1,111 @@
+import { getPkpInfo } from './get-pkp-info';
+import { getSpendingLimit } from './get-spending-limit';
+import { recordSpend, setPolicySpendRecord } from './record-spend';
+import { isSimulation } from './simulation';
+
+/**
+ * Checks that spending an amount of a token stays within the spending limit set in a tool's policy parameters.
+ * The amount spent within the limit's rolling window is read from the PKP Tool Registry.
+ * The check alone is not atomic, policies enforce the limit with {@link enforceSpendingLimit}, which also records the spend.
+ *
+ * @param pkpToolRegistryContract - The PKP Tool Registry contract instance.
+ * @param pkpTokenId - The token ID of the PKP.
+ * @param toolIpfsCid - The IPFS CID of the tool.
+ * @param delegateeAddress - The Ethereum address of the delegatee.
+ * @param tokenAddress - The address of the spent token (zero address for the native token).
+ * @param amount - The amount to spend, in the token's smallest unit.
+ * @throws Error if the amount exceeds the remaining allowance within the rolling window.
+ */
+export const checkSpendingLimit = async (
+  pkpToolRegistryContract: any,
+  pkpTokenId: string,
+  toolIpfsCid: string,
+  delegateeAddress: string,
+  tokenAddress: string,
+  amount: any
+) => {
+  const spendingLimit = await getSpendingLimit(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    toolIpfsCid,
+    delegateeAddress,
+    tokenAddress
+  );
+  if (!spendingLimit) {
+    return;
+  }
+
+  const spent = await pkpToolRegistryContract.getSpentAmount(
+    pkpTokenId,
+    toolIpfsCid,
+    delegateeAddress,
+    tokenAddress,
+    spendingLimit.period
+  );
+  const remaining = spendingLimit.amount.gt(spent)
+    ? spendingLimit.amount.sub(spent)
+    : ethers.BigNumber.from(0);
+
+  console.log(
+    `Checking if amount ${amount.toString()} exceeds the remaining allowance ${remaining.toString()}...`
+  );
+
+  if (ethers.BigNumber.from(amount).gt(remaining)) {
+    throw new Error(
+      `Amount ${amount.toString()} exceeds the remaining allowance ${remaining.toString()} of the spending limit ${spendingLimit.amount.toString()} per ${
+        spendingLimit.period
+      } seconds for token ${tokenAddress}`
+    );
+  }
+};
+
+/**
+ * Enforces the spending limit of a token in a policy Lit Action, as the policy's last check.
+ * The remaining allowance is checked with {@link checkSpendingLimit}, which is all simulations do. Executions then record
+ * the spend, which the PKP Tool Registry rejects atomically if it exceeds the limit, and set the spend record as the
+ * policy's response, for the tool to refund it if the tool fails before broadcasting anything.
+ *
+ * @param pkpToolRegistryContract - The PKP Tool Registry contract instance.
+ * @param pkpEthAddress - The Ethereum address of the PKP.
+ * @param pkpTokenId - The token ID of the PKP.
+ * @param toolIpfsCid - The IPFS CID of the tool.
+ * @param delegateeAddress - The Ethereum address of the delegatee.
+ * @param tokenAddress - The address of the spent token (zero address for the native token).
+ * @param amount - The amount to spend, in the token's smallest unit.
+ * @param nonce - The nonce of the recording, allocated by the tool and passed to the policy as `spendRecordNonce`.
+ * @throws Error if the amount exceeds the remaining allowance within the rolling window, or the spend could not be recorded.
+ */
+export const enforceSpendingLimit = async (
+  pkpToolRegistryContract: any,
+  pkpEthAddress: string,
+  pkpTokenId: string,
+  toolIpfsCid: string,
+  delegateeAddress: string,
+  tokenAddress: string,
+  amount: any,
+  nonce: string
+) => {
+  // Checked first for a clear error, and to avoid sending a recording the registry would reject
+  await checkSpendingLimit(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    toolIpfsCid,
+    delegateeAddress,
+    tokenAddress,
+    amount
+  );
+  if (isSimulation()) {
+    return;
+  }
+
+  const spendRecord = await recordSpend(
+    pkpToolRegistryContract,
+    await getPkpInfo(pkpEthAddress),
+    toolIpfsCid,
+    delegateeAddress,
+    tokenAddress,
+    amount,
+    nonce
+  );
+  setPolicySpendRecord(spendRecord);
+};
@@ -0,0 +1,77 @@
+import { fetchToolPolicyFromRegistry } from './fetch-tool-policy-from-registry';
+
+const pkpTokenId = '42';
+const delegatee = '0x1111111111111111111111111111111111111111';
+const toolIpfsCid = 'QmTool';
+
+const createRegistryContract = (
+  delegateePolicyIpfsCid: string,
+  blanketPolicyIpfsCid: string
+) => ({
+  address: '0x2707eabb60D262024F8738455811a338B0ECd3EC',
+  getToolPoliciesForDelegatees: jest.fn(async () => [
+    {
+      toolIpfsCid,
+      policyIpfsCid: delegateePolicyIpfsCid,
+      delegatee,
+      enabled: delegateePolicyIpfsCid !== '',
+    },
+  ]),
+  getBlanketToolPolicies: jest.fn(async () => [
+    {
+      toolIpfsCid,
+      policyIpfsCid: blanketPolicyIpfsCid,
+      enabled: false,
+    },
+  ]),
+});
+
+describe('fetchToolPolicyFromRegistry', () => {
+  it('should return the policy of the delegatee over the blanket policy', async () => {
+    const contract = createRegistryContract('QmDelegateePolicy', 'QmBlanket');
+
+    await expect(
+      fetchToolPolicyFromRegistry(contract, pkpTokenId, delegatee, toolIpfsCid)
+    ).resolves.toEqual({
+      toolIpfsCid,
+      policyIpfsCid: 'QmDelegateePolicy',
+      delegatee,
+      enabled: true,
+    });
+    expect(contract.getToolPoliciesForDelegatees).toHaveBeenCalledWith(
+      pkpTokenId,
+      [toolIpfsCid],
+      [delegatee]
+    );
+    expect(contract.getBlanketToolPolicies).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the blanket policy when the delegatee has none', async () => {
+    const contract = createRegistryContract('', 'QmBlanket');
+
+    await expect(
+      fetchToolPolicyFromRegistry(contract, pkpTokenId, delegatee, toolIpfsCid)
+    ).resolves.toEqual({
+      toolIpfsCid,
+      policyIpfsCid: 'QmBlanket',
+      delegatee,
+      enabled: false,
+    });
+    expect(contract.getBlanketToolPolicies).toHaveBeenCalledWith(pkpTokenId, [
+      toolIpfsCid,
+    ]);
+  });
+
+  it('should return the empty policy of the delegatee when the tool has no blanket policy', async () => {
+    const contract = createRegistryContract('', '');
+
+    await expect(
+      fetchToolPolicyFromRegistry(contract, pkpTokenId, delegatee, toolIpfsCid)
+    ).resolves.toEqual({
+      toolIpfsCid,
+      policyIpfsCid: '',
+      delegatee,
+      enabled: false,
+    });
+  });
+});
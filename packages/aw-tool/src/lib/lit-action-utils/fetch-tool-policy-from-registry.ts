@@ -1,13 +1,15 @@
 /**
  * Fetches the policy for a specific tool and delegatee from the PKP Tool Registry.
  * This function retrieves the policy configuration that defines how a delegatee
- * can use a particular tool with a PKP.
+ * can use a particular tool with a PKP. When the delegatee has no custom policy,
+ * the tool's blanket policy, which applies to all delegatees, is returned instead.
  * 
  * @param pkpToolRegistryContract - The PKP Tool Registry contract instance.
  * @param pkpTokenId - The token ID of the PKP.
  * @param delegateeAddress - The Ethereum address of the delegatee.
  * @param toolIpfsCid - The IPFS CID of the tool whose policy should be fetched.
- * @returns A promise that resolves to the tool's policy configuration for the specified delegatee.
+ * @returns A promise that resolves to the tool's policy configuration for the specified delegatee,
+ * or its blanket policy if the delegatee has no custom policy.
  */
 export const fetchToolPolicyFromRegistry = async (
   pkpToolRegistryContract: any,
@@ -22,7 +24,7 @@ export const fetchToolPolicyFromRegistry = async (
     `Tool IPFS CID: ${toolIpfsCid}`
   );
 
-  const toolPolicy = (
+  let toolPolicy = (
     await pkpToolRegistryContract.getToolPoliciesForDelegatees(
       pkpTokenId,
       [toolIpfsCid],
@@ -30,6 +32,24 @@ export const fetchToolPolicyFromRegistry = async (
     )
   )[0];
 
+  if (toolPolicy.policyIpfsCid === '') {
+    const blanketPolicy = (
+      await pkpToolRegistryContract.getBlanketToolPolicies(pkpTokenId, [
+        toolIpfsCid,
+      ])
+    )[0];
+
+    if (blanketPolicy.policyIpfsCid !== '') {
+      console.log('No custom policy set for delegatee, using blanket policy');
+      toolPolicy = {
+        toolIpfsCid: blanketPolicy.toolIpfsCid,
+        policyIpfsCid: blanketPolicy.policyIpfsCid,
+        delegatee: delegateeAddress,
+        enabled: blanketPolicy.enabled,
+      };
+    }
+  }
+
   console.log(
     'Tool Policy:',
     `Tool IPFS CID: ${toolPolicy.toolIpfsCid}`,
@@ -0,0 +1,22 @@
+/**
+ * Resolves the nonce of the next transaction sent by a PKP.
+ * An explicit nonce is used as is, e.g. to order parallel executions for the same PKP.
+ * Otherwise, the nonce counts the PKP's pending transactions, so an execution doesn't reuse the nonce
+ * of a transaction that isn't mined yet.
+ * @param provider - The ethers provider of the chain the transaction is sent on.
+ * @param pkpEthAddress - The Ethereum address of the PKP.
+ * @param nonce - The explicit nonce, as a decimal string. Empty or undefined for the pending-aware nonce.
+ * @returns The nonce of the next transaction.
+ */
+export const getNonce = async (
+  provider: any,
+  pkpEthAddress: string,
+  nonce?: string
+): Promise<number> => {
+  if (nonce !== undefined && nonce !== '') {
+    console.log(`Using explicit nonce: ${nonce}`);
+    return parseInt(nonce, 10);
+  }
+
+  return await provider.getTransactionCount(pkpEthAddress, 'pending');
+};
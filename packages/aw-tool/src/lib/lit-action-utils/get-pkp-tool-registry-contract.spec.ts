@@ -0,0 +1,36 @@
+import { getPkpToolRegistryAddress } from '.';
+
+const NETWORK_REGISTRY_ADDRESS = '0x2707eabb60D262024F8738455811a338B0ECd3EC';
+const CUSTOM_REGISTRY_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+// Lit Actions read the build-time define and the jsParam as globals
+const litActionGlobals = globalThis as Record<string, unknown>;
+
+describe('getPkpToolRegistryAddress', () => {
+  beforeEach(() => {
+    litActionGlobals['PKP_TOOL_REGISTRY_ADDRESS'] = NETWORK_REGISTRY_ADDRESS;
+  });
+
+  afterEach(() => {
+    delete litActionGlobals['PKP_TOOL_REGISTRY_ADDRESS'];
+    delete litActionGlobals['pkpToolRegistryAddress'];
+  });
+
+  it('should return the registry of the Lit network when no custom registry is passed', () => {
+    expect(getPkpToolRegistryAddress()).toBe(NETWORK_REGISTRY_ADDRESS);
+  });
+
+  it('should return the custom registry passed in the jsParams', () => {
+    litActionGlobals['pkpToolRegistryAddress'] = CUSTOM_REGISTRY_ADDRESS;
+
+    expect(getPkpToolRegistryAddress()).toBe(CUSTOM_REGISTRY_ADDRESS);
+  });
+
+  it('should ignore an empty or undefined custom registry', () => {
+    for (const pkpToolRegistryAddress of ['', undefined]) {
+      litActionGlobals['pkpToolRegistryAddress'] = pkpToolRegistryAddress;
+
+      expect(getPkpToolRegistryAddress()).toBe(NETWORK_REGISTRY_ADDRESS);
+    }
+  });
+});
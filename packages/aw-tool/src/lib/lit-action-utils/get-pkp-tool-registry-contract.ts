@@ -1,8 +1,21 @@
+/**
+ * Gets the address of the PKP Tool Registry used by the Lit Action.
+ * This is the `pkpToolRegistryAddress` jsParam when executed against a custom registry deployment,
+ * and the address injected at build time for the Lit network otherwise.
+ *
+ * @returns The Ethereum address of the PKP Tool Registry contract.
+ */
+export const getPkpToolRegistryAddress = (): string => {
+  return typeof pkpToolRegistryAddress !== 'undefined' && pkpToolRegistryAddress
+    ? pkpToolRegistryAddress
+    : PKP_TOOL_REGISTRY_ADDRESS;
+};
+
 /**
  * Creates an instance of the PKP Tool Registry contract.
  * This function initializes a contract instance with the core functions needed for
  * delegatee verification and policy management within Lit Actions.
- * 
+ *
  * @param pkpToolRegistryAddress - The Ethereum address of the PKP Tool Registry contract.
  * @returns A promise that resolves to an ethers Contract instance connected to the PKP Tool Registry.
  */
@@ -51,6 +64,23 @@ export const getPkpToolRegistryContract = async (
     'function getAllToolPolicyParameters(uint256 pkpTokenId, string calldata toolIpfsCid, address delegatee) external view returns (tuple(string name, bytes value)[] memory parameters)',
     'function setToolPolicyParametersForDelegatee(uint256 pkpTokenId, string calldata toolIpfsCid, address delegatee, string[] calldata parameterNames, bytes[] calldata parameterValues) external',
     'function removeToolPolicyParametersForDelegatee(uint256 pkpTokenId, string calldata toolIpfsCid, address delegatee, string[] calldata parameterNames) external',
+    'function updateToolPolicyParametersForDelegatee(uint256 pkpTokenId, string calldata toolIpfsCid, address delegatee, string[] calldata parameterNames, bytes[] calldata parameterValues) external',
+
+    // Spending Limit Facet Functions
+    'function getSpentAmount(uint256 pkpTokenId, string calldata toolIpfsCid, address delegatee, address token, uint256 period) external view returns (uint256 spent)',
+    'function recordSpend(uint256 pkpTokenId, string calldata toolIpfsCid, address delegatee, address token, uint256 amount, uint256 limitAmount, uint256 period, bytes32 refundKeyHash) external returns (uint256 recordId)',
+    'function refundSpend(uint256 pkpTokenId, string calldata toolIpfsCid, address delegatee, address token, uint256 recordId, bytes32 refundKey) external',
+
+    // Blanket Policy Facet Functions
+    'function getBlanketToolPolicies(uint256 pkpTokenId, string[] calldata toolIpfsCids) external view returns (tuple(string toolIpfsCid, string policyIpfsCid, bool enabled)[] memory blanketPolicies)',
+    'function setBlanketToolPolicies(uint256 pkpTokenId, string[] calldata toolIpfsCids, string[] calldata policyIpfsCids, bool enablePolicies) external',
+    'function removeBlanketToolPolicies(uint256 pkpTokenId, string[] calldata toolIpfsCids) external',
+    'function enableBlanketToolPolicies(uint256 pkpTokenId, string[] calldata toolIpfsCids) external',
+    'function disableBlanketToolPolicies(uint256 pkpTokenId, string[] calldata toolIpfsCids) external',
+    'function getBlanketToolPolicyParameters(uint256 pkpTokenId, string calldata toolIpfsCid, string[] calldata parameterNames) external view returns (tuple(string name, bytes value)[] memory parameters)',
+    'function getAllBlanketToolPolicyParameters(uint256 pkpTokenId, string calldata toolIpfsCid) external view returns (tuple(string name, bytes value)[] memory parameters)',
+    'function setBlanketToolPolicyParameters(uint256 pkpTokenId, string calldata toolIpfsCid, string[] calldata parameterNames, bytes[] calldata parameterValues) external',
+    'function removeBlanketToolPolicyParameters(uint256 pkpTokenId, string calldata toolIpfsCid, string[] calldata parameterNames) external',
 
     // Error Signatures
     'error InvalidDelegatee()',
@@ -69,6 +99,15 @@ export const getPkpToolRegistryContract = async (
     'error PolicySameEnabledState(uint256 pkpTokenId, string toolIpfsCid, address delegatee)',
     'error EmptyPolicyIPFSCID()',
     'error NotPKPOwner()',
+    'error NotPKP()',
+    'error InvalidSpendAmount()',
+    'error InvalidSpendingPeriod()',
+    'error SpendingLimitExceeded(uint256 pkpTokenId, string toolIpfsCid, address delegatee, address token, uint256 spent, uint256 amount, uint256 limitAmount)',
+    'error SpendNotFound(uint256 pkpTokenId, string toolIpfsCid, address delegatee, address token, uint256 recordId)',
+    'error InvalidRefundKey(uint256 pkpTokenId, string toolIpfsCid, address delegatee, address token, uint256 recordId)',
+    'error BlanketPolicyAlreadySet(uint256 pkpTokenId, string toolIpfsCid)',
+    'error NoBlanketPolicySet(uint256 pkpTokenId, string toolIpfsCid)',
+    'error BlanketPolicySameEnabledState(uint256 pkpTokenId, string toolIpfsCid)',
 
     // Events
     'event ToolsRegistered(uint256 indexed pkpTokenId, bool enabled, string[] toolIpfsCids)',
@@ -78,13 +117,21 @@ export const getPkpToolRegistryContract = async (
     'event ToolsPermitted(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees)',
     'event AddedDelegatees(uint256 indexed pkpTokenId, address[] delegatees)',
     'event RemovedDelegatees(uint256 indexed pkpTokenId, address[] delegatees)',
-    'event ToolPoliciesSet(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees, string[] policyIpfsCids)',
+    'event ToolPoliciesSet(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees, string[] policyIpfsCids, bool enablePolicies)',
     'event ToolPoliciesRemoved(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees)',
     'event PoliciesEnabled(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees)',
     'event PoliciesDisabled(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees)',
     'event PolicyParametersSet(uint256 indexed pkpTokenId, string toolIpfsCids, address delegatee, string[] parameterNames, bytes[] parameterValues)',
     'event PolicyParametersRemoved(uint256 indexed pkpTokenId, string toolIpfsCids, address delegatee, string[] parameterNames)',
     'event ToolsUnpermitted(uint256 indexed pkpTokenId, string[] toolIpfsCids, address[] delegatees)',
+    'event SpendRecorded(uint256 indexed pkpTokenId, string toolIpfsCid, address indexed delegatee, address indexed token, uint256 amount, uint256 recordId)',
+    'event SpendRefunded(uint256 indexed pkpTokenId, string toolIpfsCid, address indexed delegatee, address indexed token, uint256 amount, uint256 recordId)',
+    'event BlanketPoliciesSet(uint256 indexed pkpTokenId, string[] toolIpfsCids, string[] policyIpfsCids, bool enablePolicies)',
+    'event BlanketPoliciesRemoved(uint256 indexed pkpTokenId, string[] toolIpfsCids)',
+    'event BlanketPoliciesEnabled(uint256 indexed pkpTokenId, string[] toolIpfsCids)',
+    'event BlanketPoliciesDisabled(uint256 indexed pkpTokenId, string[] toolIpfsCids)',
+    'event BlanketPolicyParametersSet(uint256 indexed pkpTokenId, string toolIpfsCid, string[] parameterNames, bytes[] parameterValues)',
+    'event BlanketPolicyParametersRemoved(uint256 indexed pkpTokenId, string toolIpfsCid, string[] parameterNames)',
   ];
   return new ethers.Contract(
     pkpToolRegistryAddress,
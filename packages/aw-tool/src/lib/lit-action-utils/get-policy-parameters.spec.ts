@@ -0,0 +1,65 @@
+import { getPolicyParameters } from './get-policy-parameters';
+
+const pkpTokenId = '42';
+const delegatee = '0x1111111111111111111111111111111111111111';
+const toolIpfsCid = 'QmTool';
+const parameterNames = ['maxAmount', 'allowedTokens'];
+
+const delegateeParameters = [{ name: 'maxAmount', value: '0x01' }];
+const blanketParameters = [{ name: 'maxAmount', value: '0x02' }];
+
+const createRegistryContract = (delegateePolicyIpfsCid: string) => ({
+  getToolPoliciesForDelegatees: jest.fn(async () => [
+    {
+      toolIpfsCid,
+      policyIpfsCid: delegateePolicyIpfsCid,
+      delegatee,
+      enabled: true,
+    },
+  ]),
+  getToolPolicyParameters: jest.fn(async () => delegateeParameters),
+  getBlanketToolPolicyParameters: jest.fn(async () => blanketParameters),
+});
+
+describe('getPolicyParameters', () => {
+  it('should return the parameters of the delegatee policy over the blanket policy', async () => {
+    const contract = createRegistryContract('QmDelegateePolicy');
+
+    await expect(
+      getPolicyParameters(
+        contract,
+        pkpTokenId,
+        toolIpfsCid,
+        delegatee,
+        parameterNames
+      )
+    ).resolves.toBe(delegateeParameters);
+    expect(contract.getToolPolicyParameters).toHaveBeenCalledWith(
+      pkpTokenId,
+      toolIpfsCid,
+      delegatee,
+      parameterNames
+    );
+    expect(contract.getBlanketToolPolicyParameters).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the blanket policy parameters when the delegatee has no policy', async () => {
+    const contract = createRegistryContract('');
+
+    await expect(
+      getPolicyParameters(
+        contract,
+        pkpTokenId,
+        toolIpfsCid,
+        delegatee,
+        parameterNames
+      )
+    ).resolves.toBe(blanketParameters);
+    expect(contract.getBlanketToolPolicyParameters).toHaveBeenCalledWith(
+      pkpTokenId,
+      toolIpfsCid,
+      parameterNames
+    );
+    expect(contract.getToolPolicyParameters).not.toHaveBeenCalled();
+  });
+});
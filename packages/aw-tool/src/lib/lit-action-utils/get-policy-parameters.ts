@@ -1,7 +1,8 @@
 /**
  * Retrieves specific policy parameters for a tool and delegatee combination.
  * This function fetches parameter values that have been set in the tool's policy
- * for a particular delegatee.
+ * for a particular delegatee. When the delegatee has no custom policy, the parameters
+ * of the tool's blanket policy, which applies to all delegatees, are returned instead.
  * 
  * @param pkpToolRegistryContract - The PKP Tool Registry contract instance.
  * @param pkpTokenId - The token ID of the PKP.
@@ -20,6 +21,24 @@ export const getPolicyParameters = async (
   console.log(
     `Getting policy parameters ${parameterNames} for PKP ${pkpTokenId}...`
   );
+
+  const [toolPolicy] =
+    await pkpToolRegistryContract.getToolPoliciesForDelegatees(
+      pkpTokenId,
+      [toolIpfsCid],
+      [delegateeAddress]
+    );
+  if (toolPolicy.policyIpfsCid === '') {
+    console.log(
+      'No custom policy set for delegatee, using blanket policy parameters'
+    );
+    return pkpToolRegistryContract.getBlanketToolPolicyParameters(
+      pkpTokenId,
+      toolIpfsCid,
+      parameterNames
+    );
+  }
+
   return pkpToolRegistryContract.getToolPolicyParameters(
     pkpTokenId,
     toolIpfsCid,
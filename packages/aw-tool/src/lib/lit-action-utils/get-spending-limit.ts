@@ -0,0 +1,58 @@
+import { getPolicyParameters } from './get-policy-parameters';
+
+/**
+ * Retrieves the spending limit set for a token in a tool's policy parameters for a delegatee.
+ * Spending limits are stored as a JSON encoded array in the `spendingLimits` policy parameter.
+ *
+ * @param pkpToolRegistryContract - The PKP Tool Registry contract instance.
+ * @param pkpTokenId - The token ID of the PKP.
+ * @param toolIpfsCid - The IPFS CID of the tool.
+ * @param delegateeAddress - The Ethereum address of the delegatee.
+ * @param tokenAddress - The address of the spent token (zero address for the native token).
+ * @returns A promise that resolves to the limit amount and the window period in seconds, or null if no limit is set for the token.
+ */
+export const getSpendingLimit = async (
+  pkpToolRegistryContract: any,
+  pkpTokenId: string,
+  toolIpfsCid: string,
+  delegateeAddress: string,
+  tokenAddress: string
+): Promise<{ amount: any; period: number } | null> => {
+  const [spendingLimitsParameter] = await getPolicyParameters(
+    pkpToolRegistryContract,
+    pkpTokenId,
+    toolIpfsCid,
+    delegateeAddress,
+    ['spendingLimits']
+  );
+
+  if (!spendingLimitsParameter) {
+    console.log('No spending limits set in policy');
+    return null;
+  }
+
+  const spendingLimits: Array<{
+    tokenAddress: string;
+    amount: string;
+    period: number;
+  }> = JSON.parse(ethers.utils.toUtf8String(spendingLimitsParameter.value));
+
+  const spendingLimit = spendingLimits.find(
+    (limit) =>
+      ethers.utils.getAddress(limit.tokenAddress) ===
+      ethers.utils.getAddress(tokenAddress)
+  );
+  if (!spendingLimit) {
+    console.log(`No spending limit set for token ${tokenAddress}`);
+    return null;
+  }
+
+  console.log(
+    `Spending limit for token ${tokenAddress}: ${spendingLimit.amount} per ${spendingLimit.period} seconds`
+  );
+
+  return {
+    amount: ethers.BigNumber.from(spendingLimit.amount),
+    period: spendingLimit.period,
+  };
+};
@@ -7,6 +7,10 @@ declare global {
   const LIT_NETWORK: string;
   const PKP_TOOL_REGISTRY_ADDRESS: string;
 
+  // Optional Inputs
+  const simulate: boolean | undefined;
+  const pkpToolRegistryAddress: string | undefined;
+
   const ethers: {
     providers: {
       JsonRpcProvider: any;
@@ -18,9 +22,17 @@ declare global {
       formatEther: any;
       arrayify: any;
       keccak256: any;
+      hexlify: any;
+      randomBytes: any;
       serializeTransaction: any;
+      parseTransaction: any;
       joinSignature: any;
+      splitSignature: any;
+      hashMessage: any;
+      _TypedDataEncoder: any;
+      base58: any;
       isHexString: any;
+      solidityPack: any;
       getAddress: any;
       defaultAbiCoder: any;
       toUtf8Bytes: any;
@@ -28,13 +40,24 @@ declare global {
     };
     BigNumber: any;
     Contract: any;
+    constants: {
+      AddressZero: string;
+    };
   };
 }
 
+export * from './check-gas-fee-ceiling';
 export * from './check-lit-auth-address-is-delegatee';
+export * from './check-spending-limit';
 export * from './fetch-tool-policy-from-registry';
+export * from './get-nonce';
 export * from './get-pkp-info';
 export * from './get-pkp-tool-registry-contract';
 export * from './get-policy-parameters';
+export * from './get-spending-limit';
 export * from './network-config';
-export * from './access-control-conditions';
\ No newline at end of file
+export * from './record-spend';
+export * from './replace-transaction';
+export * from './simulation';
+export * from './wait-for-transaction';
+export * from './access-control-conditions';
@@ -0,0 +1,302 @@
+import { getNonce } from './get-nonce';
+import { getSpendingLimit } from './get-spending-limit';
+
+/**
+ * A spend recorded on the PKP Tool Registry by {@link recordSpend}, with what's needed to refund it.
+ */
+export interface SpendRecord {
+  toolIpfsCid: string;
+  delegateeAddress: string;
+  tokenAddress: string;
+  /** The recorded amount, in the token's smallest unit. */
+  amount: string;
+  /** The ID of the record among the records of the tool, delegatee and token. */
+  recordId: string;
+  /** The key required to refund the spend. Only its hash is stored on the registry. */
+  refundKey: string;
+  /** The hash of the recording transaction. */
+  txHash: string;
+}
+
+/**
+ * Records an amount of a token spent through a tool on the PKP Tool Registry, if a spending limit is set for the token.
+ * The spend is recorded by a transaction signed by the PKP, which the registry rejects if the amount
+ * would exceed the limit within its rolling window. Policy Lit Actions record the spend as their last check,
+ * and hand the record to their tool with {@link setPolicySpendRecord}. The tool refunds it with {@link refundSpend}
+ * if it fails before broadcasting anything. The PKP needs gas on Chronicle Yellowstone to record spends.
+ *
+ * @param pkpToolRegistryContract - The PKP Tool Registry contract instance.
+ * @param pkp - The PKP's token ID, Ethereum address, and public key.
+ * @param toolIpfsCid - The IPFS CID of the tool.
+ * @param delegateeAddress - The Ethereum address of the delegatee.
+ * @param tokenAddress - The address of the spent token (zero address for the native token).
+ * @param amount - The amount spent, in the token's smallest unit.
+ * @param nonce - The nonce of the recording transaction, as allocated by the tool with {@link getSpendRecordNonce}.
+ * Empty or undefined for the PKP's pending-aware nonce.
+ * @returns A promise that resolves to the spend record, or null if no limit is set for the token.
+ * @throws Error if the spend could not be recorded, e.g. because it exceeds the spending limit.
+ */
+export const recordSpend = async (
+  pkpToolRegistryContract: any,
+  pkp: { tokenId: string; ethAddress: string; publicKey: string },
+  toolIpfsCid: string,
+  delegateeAddress: string,
+  tokenAddress: string,
+  amount: any,
+  nonce?: string
+): Promise<SpendRecord | null> => {
+  const spendingLimit = await getSpendingLimit(
+    pkpToolRegistryContract,
+    pkp.tokenId,
+    toolIpfsCid,
+    delegateeAddress,
+    tokenAddress
+  );
+  if (!spendingLimit) {
+    return null;
+  }
+
+  console.log(`Recording spend of ${amount.toString()} ${tokenAddress}...`);
+
+  // Generated by a single node, so every node signs the same transaction
+  const refundKey = await Lit.Actions.runOnce(
+    { waitForResponse: true, name: 'refundKeyGenerator' },
+    async () => ethers.utils.hexlify(ethers.utils.randomBytes(32))
+  );
+
+  const { hash, logs } = await sendSpendTransaction(
+    pkpToolRegistryContract,
+    pkp,
+    'recordSpend',
+    [
+      pkp.tokenId,
+      toolIpfsCid,
+      delegateeAddress,
+      tokenAddress,
+      amount.toString(),
+      spendingLimit.amount.toString(),
+      spendingLimit.period,
+      ethers.utils.keccak256(refundKey),
+    ],
+    nonce
+  );
+
+  const spendRecorded = logs
+    .map((log: any) => {
+      try {
+        return pkpToolRegistryContract.interface.parseLog(log);
+      } catch {
+        return null;
+      }
+    })
+    .find((event: any) => event?.name === 'SpendRecorded');
+  if (!spendRecorded) {
+    throw new Error(
+      `Failed to record spend: no SpendRecorded event in ${hash}`
+    );
+  }
+
+  console.log(`Spend recorded: ${hash}`);
+  return {
+    toolIpfsCid,
+    delegateeAddress,
+    tokenAddress,
+    amount: amount.toString(),
+    recordId: spendRecorded.args.recordId.toString(),
+    refundKey,
+    txHash: hash,
+  };
+};
+
+/**
+ * Refunds a spend recorded by {@link recordSpend} on the PKP Tool Registry, so it no longer
+ * counts towards the spending limit. Tools must only refund the spend when they failed before
+ * broadcasting any transaction, as a broadcast transaction may still be mined.
+ *
+ * @param pkpToolRegistryContract - The PKP Tool Registry contract instance.
+ * @param pkp - The PKP's token ID, Ethereum address, and public key.
+ * @param spendRecord - The spend record, as returned by the tool's policy.
+ * @returns A promise that resolves to the hash of the refunding transaction.
+ * @throws Error if the spend could not be refunded.
+ */
+export const refundSpend = async (
+  pkpToolRegistryContract: any,
+  pkp: { tokenId: string; ethAddress: string; publicKey: string },
+  spendRecord: SpendRecord
+): Promise<string> => {
+  console.log(
+    `Refunding spend ${spendRecord.recordId} of ${spendRecord.amount} ${spendRecord.tokenAddress}...`
+  );
+
+  const { hash } = await sendSpendTransaction(
+    pkpToolRegistryContract,
+    pkp,
+    'refundSpend',
+    [
+      pkp.tokenId,
+      spendRecord.toolIpfsCid,
+      spendRecord.delegateeAddress,
+      spendRecord.tokenAddress,
+      spendRecord.recordId,
+      spendRecord.refundKey,
+    ]
+  );
+
+  console.log(`Spend refunded: ${hash}`);
+  return hash;
+};
+
+/**
+ * Allocates the nonce a tool's policy records a spend with. When the tool sends its transaction on the
+ * registry's chain, both transactions are signed by the PKP on the same chain, so the recording takes the
+ * tool's nonce and the tool's transaction moves to the next one if a spend was recorded.
+ *
+ * @param pkpToolRegistryContract - The PKP Tool Registry contract instance.
+ * @param chainId - The chain ID the tool sends its transaction on.
+ * @param nonce - The nonce of the tool's transaction.
+ * @returns The nonce of the recording transaction as a decimal string, to pass to the policy as `spendRecordNonce`.
+ * Empty if the tool sends its transaction on another chain, the recording then uses the PKP's pending nonce on the registry's chain.
+ */
+export const getSpendRecordNonce = async (
+  pkpToolRegistryContract: any,
+  chainId: string,
+  nonce: number
+): Promise<string> => {
+  const network = await pkpToolRegistryContract.provider.getNetwork();
+  return network.chainId === parseInt(chainId, 10) ? nonce.toString() : '';
+};
+
+/**
+ * Sets the response of a policy Lit Action to the spend it recorded, for its tool to refund it if needed.
+ * @param spendRecord - The spend record, or null if no spend was recorded.
+ */
+export const setPolicySpendRecord = (spendRecord: SpendRecord | null) => {
+  Lit.Actions.setResponse({ response: JSON.stringify({ spendRecord }) });
+};
+
+/**
+ * Parses the spend recorded by a tool's policy from the policy's response.
+ * @param policyResponse - The response of the policy Lit Action, as returned by `callToolPolicy`.
+ * @returns The spend record, or null if the policy recorded none.
+ */
+export const parsePolicySpendRecord = (
+  policyResponse: string | undefined
+): SpendRecord | null => {
+  if (!policyResponse) {
+    return null;
+  }
+
+  return JSON.parse(policyResponse).spendRecord ?? null;
+};
+
+/**
+ * Signs a PKP Tool Registry spending limit transaction with the PKP, and sends it from a single node.
+ * @returns A promise that resolves to the hash and logs of the mined transaction.
+ */
+const sendSpendTransaction = async (
+  pkpToolRegistryContract: any,
+  pkp: { tokenId: string; ethAddress: string; publicKey: string },
+  functionName: 'recordSpend' | 'refundSpend',
+  args: any[],
+  nonce?: string
+): Promise<{ hash: string; logs: any[] }> => {
+  const action = functionName === 'recordSpend' ? 'record' : 'refund';
+  const provider = pkpToolRegistryContract.provider;
+  const data = pkpToolRegistryContract.interface.encodeFunctionData(
+    functionName,
+    args
+  );
+
+  const txData = JSON.parse(
+    await Lit.Actions.runOnce(
+      { waitForResponse: true, name: `${functionName}TxData` },
+      async () => {
+        try {
+          const [txNonce, gasPrice, gasLimit, network] = await Promise.all([
+            getNonce(provider, pkp.ethAddress, nonce),
+            provider.getGasPrice(),
+            provider.estimateGas({
+              from: pkp.ethAddress,
+              to: pkpToolRegistryContract.address,
+              data,
+            }),
+            provider.getNetwork(),
+          ]);
+
+          return JSON.stringify({
+            nonce: txNonce,
+            gasPrice: gasPrice.toHexString(),
+            gasLimit: gasLimit.toHexString(),
+            chainId: network.chainId,
+          });
+        } catch (err: any) {
+          return JSON.stringify({
+            error: true,
+            message: err.reason || err.message || 'Gas estimation failed',
+          });
+        }
+      }
+    )
+  );
+
+  if (txData.error) {
+    throw new Error(`Failed to ${action} spend: ${txData.message}`);
+  }
+
+  const tx = {
+    to: pkpToolRegistryContract.address,
+    data,
+    value: '0x0',
+    nonce: txData.nonce,
+    gasPrice: txData.gasPrice,
+    gasLimit: txData.gasLimit,
+    chainId: txData.chainId,
+  };
+
+  const sig = await Lit.Actions.signAndCombineEcdsa({
+    toSign: ethers.utils.arrayify(
+      ethers.utils.keccak256(ethers.utils.serializeTransaction(tx))
+    ),
+    publicKey: pkp.publicKey.startsWith('0x')
+      ? pkp.publicKey.slice(2)
+      : pkp.publicKey,
+    sigName: `${functionName}Sig`,
+  });
+
+  const signedTx = ethers.utils.serializeTransaction(
+    tx,
+    ethers.utils.joinSignature({
+      r: '0x' + JSON.parse(sig).r.substring(2),
+      s: '0x' + JSON.parse(sig).s,
+      v: JSON.parse(sig).v,
+    })
+  );
+
+  const result = JSON.parse(
+    await Lit.Actions.runOnce(
+      { waitForResponse: true, name: `${functionName}TxSender` },
+      async () => {
+        try {
+          const sentTx = await provider.sendTransaction(signedTx);
+          const receipt = await sentTx.wait(1);
+
+          return JSON.stringify({
+            hash: receipt.transactionHash,
+            logs: receipt.logs,
+          });
+        } catch (err: any) {
+          return JSON.stringify({
+            error: true,
+            message: err.reason || err.message || 'Transaction failed',
+          });
+        }
+      }
+    )
+  );
+
+  if (result.error) {
+    throw new Error(`Failed to ${action} spend: ${result.message}`);
+  }
+
+  return { hash: result.hash, logs: result.logs };
+};
@@ -0,0 +1,208 @@
+/**
+ * The minimum fee bump of a replacement transaction, in percent. Nodes reject replacements that bump less.
+ */
+export const MIN_REPLACEMENT_FEE_BUMP_PERCENT = 10;
+
+/**
+ * A pending transaction of a PKP, with the fields needed to replace it.
+ * Amounts are hex encoded.
+ */
+export interface PendingTransaction {
+  hash: string;
+  to: string | null;
+  data: string;
+  value: string;
+  gasLimit: string;
+  nonce: number;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  chainId: number;
+}
+
+/**
+ * Serializes a transaction returned by an RPC, with its signature.
+ * @param tx - The transaction, as returned by `provider.getTransaction`.
+ * @returns The signed transaction, as it was broadcast if the RPC returned its fields unaltered.
+ */
+const serializeSignedTransaction = (tx: any): string => {
+  const type = tx.type ?? 0;
+  return ethers.utils.serializeTransaction(
+    {
+      type,
+      chainId: tx.chainId,
+      nonce: tx.nonce,
+      ...(tx.to != null && { to: tx.to }),
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      ...(type === 2
+        ? {
+            maxFeePerGas: tx.maxFeePerGas,
+            maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+          }
+        : { gasPrice: tx.gasPrice }),
+      ...(type !== 0 && { accessList: tx.accessList ?? [] }),
+    },
+    { r: tx.r, s: tx.s, v: tx.v }
+  );
+};
+
+/**
+ * Retrieves a pending transaction sent by a PKP, to speed it up or cancel it.
+ * The RPC is chosen by the delegatee, so the transaction is only trusted if its fields hash to `txHash`
+ * and are signed by the PKP, for the chain of the RPC.
+ * Legacy transactions report their gas price as both of their EIP-1559 fees.
+ * @param provider - The ethers provider of the chain the transaction was sent on.
+ * @param txHash - The hash of the pending transaction.
+ * @param pkpEthAddress - The Ethereum address of the PKP.
+ * @returns The pending transaction.
+ * @throws If the transaction is unknown, doesn't match its hash, wasn't signed by the PKP for the RPC's chain, or is no longer pending.
+ */
+export const getPendingTransaction = async (
+  provider: any,
+  txHash: string,
+  pkpEthAddress: string
+): Promise<PendingTransaction> => {
+  console.log(`Getting pending transaction ${txHash}...`);
+
+  const result = JSON.parse(
+    await Lit.Actions.runOnce(
+      { waitForResponse: true, name: 'pendingTxGetter' },
+      async () => {
+        const tx = await provider.getTransaction(txHash);
+        if (!tx) {
+          return JSON.stringify({
+            error: `Transaction ${txHash} not found`,
+          });
+        }
+
+        let signedTx;
+        try {
+          signedTx = ethers.utils.parseTransaction(
+            serializeSignedTransaction(tx)
+          );
+        } catch {
+          return JSON.stringify({
+            error: `Transaction ${txHash} returned by the RPC is not a valid signed transaction`,
+          });
+        }
+
+        if (signedTx.hash?.toLowerCase() !== txHash.toLowerCase()) {
+          return JSON.stringify({
+            error: `Transaction returned by the RPC does not match hash ${txHash}`,
+          });
+        }
+
+        if (
+          !signedTx.from ||
+          ethers.utils.getAddress(signedTx.from) !==
+            ethers.utils.getAddress(pkpEthAddress)
+        ) {
+          return JSON.stringify({
+            error: `Transaction ${txHash} was not sent by PKP ${pkpEthAddress}`,
+          });
+        }
+
+        const { chainId } = await provider.getNetwork();
+        if (signedTx.chainId !== chainId) {
+          return JSON.stringify({
+            error: `Transaction ${txHash} was signed for chain ${signedTx.chainId}, but the RPC is connected to chain ${chainId}`,
+          });
+        }
+
+        const minedNonce = await provider.getTransactionCount(
+          pkpEthAddress,
+          'latest'
+        );
+        if (tx.blockNumber != null || signedTx.nonce < minedNonce) {
+          return JSON.stringify({
+            error: `Transaction ${txHash} is no longer pending, nonce ${signedTx.nonce} is already mined`,
+          });
+        }
+
+        // Only the signed fields are used, the RPC could have altered the others
+        return JSON.stringify({
+          hash: signedTx.hash,
+          to: signedTx.to ?? null,
+          data: signedTx.data,
+          value: signedTx.value.toHexString(),
+          gasLimit: signedTx.gasLimit.toHexString(),
+          nonce: signedTx.nonce,
+          maxFeePerGas: (
+            signedTx.maxFeePerGas ?? signedTx.gasPrice
+          ).toHexString(),
+          maxPriorityFeePerGas: (
+            signedTx.maxPriorityFeePerGas ?? signedTx.gasPrice
+          ).toHexString(),
+          chainId: signedTx.chainId,
+        });
+      }
+    )
+  );
+
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  console.log(`Pending transaction: ${JSON.stringify(result)}`);
+  return result as PendingTransaction;
+};
+
+/**
+ * Computes the fees of a transaction replacing a pending one.
+ * Each fee is the pending transaction's fee bumped by `feeBumpPercent`, or the current network fee if that's higher.
+ * @param provider - The ethers provider of the chain the transaction was sent on.
+ * @param pendingTx - The pending transaction to replace.
+ * @param feeBumpPercent - The percentage to bump the fees by, at least `MIN_REPLACEMENT_FEE_BUMP_PERCENT`.
+ * @returns The hex encoded `maxFeePerGas` and `maxPriorityFeePerGas` of the replacement.
+ */
+export const getReplacementFees = async (
+  provider: any,
+  pendingTx: PendingTransaction,
+  feeBumpPercent: number
+): Promise<{ maxFeePerGas: string; maxPriorityFeePerGas: string }> => {
+  if (feeBumpPercent < MIN_REPLACEMENT_FEE_BUMP_PERCENT) {
+    throw new Error(
+      `Fee bump of ${feeBumpPercent}% is below the minimum of ${MIN_REPLACEMENT_FEE_BUMP_PERCENT}% accepted by nodes`
+    );
+  }
+
+  console.log(`Getting replacement fees...`);
+
+  const fees = await Lit.Actions.runOnce(
+    { waitForResponse: true, name: 'replacementFeeGetter' },
+    async () => {
+      const baseFeeHistory = await provider.send('eth_feeHistory', [
+        '0x1',
+        'latest',
+        [],
+      ]);
+      const baseFee = ethers.BigNumber.from(baseFeeHistory.baseFeePerGas[0]);
+
+      // Round up, so the bump is never below the minimum
+      const bump = (fee: string) =>
+        ethers.BigNumber.from(fee)
+          .mul(100 + feeBumpPercent)
+          .add(99)
+          .div(100);
+      const max = (a: any, b: any) => (a.gt(b) ? a : b);
+
+      const maxPriorityFeePerGas = max(
+        bump(pendingTx.maxPriorityFeePerGas),
+        baseFee.div(4)
+      );
+      const maxFeePerGas = max(
+        max(bump(pendingTx.maxFeePerGas), baseFee.mul(2)),
+        maxPriorityFeePerGas
+      );
+
+      return JSON.stringify({
+        maxFeePerGas: maxFeePerGas.toHexString(),
+        maxPriorityFeePerGas: maxPriorityFeePerGas.toHexString(),
+      });
+    }
+  );
+
+  console.log(`Replacement fees: ${fees}`);
+  return JSON.parse(fees);
+};
@@ -0,0 +1,78 @@
+/**
+ * Error thrown when a tool's policy Lit Action rejects the tool execution.
+ */
+export class ToolPolicyError extends Error {
+  constructor(message: string, public readonly policyIpfsCid: string) {
+    super(message);
+    this.name = 'ToolPolicyError';
+  }
+}
+
+/**
+ * Checks if the tool is executed as a simulation, i.e. with the `simulate` jsParam set to true.
+ * Simulations run the tool's policy and pre-flight steps, but must not sign, broadcast, or record anything.
+ *
+ * @returns True if the tool is executed as a simulation, false otherwise.
+ */
+export const isSimulation = (): boolean => {
+  return typeof simulate !== 'undefined' && simulate === true;
+};
+
+/**
+ * Calls the policy Lit Action of a tool, which throws if the tool execution isn't permitted.
+ * The policy is executed as a simulation if the tool is, so it doesn't record anything either.
+ *
+ * @param policyIpfsCid - The IPFS CID of the policy Lit Action.
+ * @param policyParams - The parameters passed to the policy Lit Action.
+ * @returns The response set by the policy Lit Action, e.g. the spend it recorded, if any.
+ * @throws ToolPolicyError if the policy rejects the tool execution.
+ */
+export const callToolPolicy = async (
+  policyIpfsCid: string,
+  policyParams: Record<string, unknown>
+): Promise<string | undefined> => {
+  try {
+    return await Lit.Actions.call({
+      ipfsId: policyIpfsCid,
+      params: { ...policyParams, simulate: isSimulation() },
+    });
+  } catch (err: any) {
+    throw new ToolPolicyError(err?.message || String(err), policyIpfsCid);
+  }
+};
+
+/**
+ * Sets the response of a passing simulation, in place of signing and broadcasting.
+ *
+ * @param preflight - The results of the tool's pre-flight steps, e.g. token info, gas estimates, and quotes.
+ * @param policyIpfsCid - The IPFS CID of the policy that permitted the execution, if any.
+ */
+export const setSimulationResponse = (
+  preflight: Record<string, unknown>,
+  policyIpfsCid?: string
+) => {
+  Lit.Actions.setResponse({
+    response: JSON.stringify({
+      status: 'simulated',
+      passed: true,
+      ...(policyIpfsCid !== undefined && { policyIpfsCid }),
+      preflight,
+    }),
+  });
+};
+
+/**
+ * Sets the response of a failing simulation, reporting whether the policy or a pre-flight step failed.
+ *
+ * @param err - The error thrown by the policy or the pre-flight step.
+ */
+export const setSimulationFailureResponse = (err: unknown) => {
+  Lit.Actions.setResponse({
+    response: JSON.stringify({
+      status: 'simulated',
+      passed: false,
+      stage: err instanceof ToolPolicyError ? 'policy' : 'preflight',
+      error: err instanceof Error ? err.message : String(err),
+    }),
+  });
+};
@@ -0,0 +1,47 @@
+import {
+  pollTransactionStatus,
+  type TransactionStatus,
+  type WaitForTransactionOptions,
+} from '../transaction-status';
+
+/**
+ * Waits for a transaction broadcast by the Lit Action to be mined.
+ * The receipt is polled by a single Lit node, so all nodes continue with the same status.
+ * @param provider - The ethers provider of the chain the transaction was sent on.
+ * @param txHash - The hash of the transaction.
+ * @param options - The confirmations to wait for, the timeout and the poll interval.
+ * @returns The status of the transaction, `pending` if the timeout was reached.
+ */
+export const waitForTransaction = async (
+  provider: any,
+  txHash: string,
+  options: WaitForTransactionOptions = {}
+): Promise<TransactionStatus> => {
+  console.log(`Waiting for transaction ${txHash}...`);
+
+  const result = JSON.parse(
+    await Lit.Actions.runOnce(
+      { waitForResponse: true, name: 'txnReceiptWaiter' },
+      async () => {
+        try {
+          return JSON.stringify(
+            await pollTransactionStatus(provider, txHash, options)
+          );
+        } catch (err: any) {
+          return JSON.stringify({
+            error: true,
+            message: err.reason || err.message || 'Failed to get receipt',
+          });
+        }
+      }
+    )
+  );
+
+  if (result.error) {
+    throw new Error(
+      `Failed to wait for transaction ${txHash}: ${result.message}`
+    );
+  }
+
+  return result as TransactionStatus;
+};
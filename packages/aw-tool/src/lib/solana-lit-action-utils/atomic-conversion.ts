@@ -13,6 +13,8 @@ export function toAtomicAmount(amount: string, decimals: number): string {
     const atomicAmount = `${whole}${paddedFraction}`;
     return atomicAmount.replace(/^0+/, '') || '0';
   } catch (error) {
-    throw new Error(`Failed to convert amount ${amount} to atomic units: ${error}`);
+    throw new Error(
+      `Failed to convert amount ${amount} to atomic units: ${error}`
+    );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,4 @@
+export * from './atomic-conversion';
+export * from './solana-connection';
+export * from './solana-keypair';
+export * from './transaction';
@@ -0,0 +1,47 @@
+import { Keypair } from '@solana/web3.js';
+
+import {
+  getAccessControlConditions,
+  getPkpToolRegistryAddress,
+} from '../lit-action-utils';
+
+/**
+ * Decrypts a Solana wrapped key of a PKP, and creates its keypair.
+ * Only the PKP Tool Registry's permitted tools can decrypt the key.
+ *
+ * @param pkpTokenId - The token ID of the PKP that owns the wrapped key.
+ * @param ciphertext - The encrypted base64 secret key of the wrapped key.
+ * @param dataToEncryptHash - The hash of the encrypted secret key.
+ * @returns A promise that resolves to the Solana keypair of the wrapped key.
+ */
+export async function createSolanaKeypair(
+  pkpTokenId: string,
+  ciphertext: string,
+  dataToEncryptHash: string
+): Promise<Keypair> {
+  const accessControlConditions = getAccessControlConditions(
+    pkpTokenId,
+    LIT_NETWORK as 'datil-dev' | 'datil-test' | 'datil',
+    getPkpToolRegistryAddress()
+  );
+  const decryptedPrivateKey = await Lit.Actions.decryptAndCombine({
+    accessControlConditions: accessControlConditions,
+    ciphertext,
+    dataToEncryptHash,
+    authSig: null,
+    chain: 'yellowstone',
+  });
+
+  function base64ToUint8Array(base64: string): Uint8Array {
+    const binaryString = atob(base64);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  const secretKeyUint8Array = base64ToUint8Array(decryptedPrivateKey);
+  return Keypair.fromSecretKey(secretKeyUint8Array);
+}
@@ -1,4 +1,4 @@
-import { Connection, VersionedTransaction } from "@solana/web3.js";
+import { Connection, VersionedTransaction } from '@solana/web3.js';
 
 export async function signAndSendTransaction(
   connection: Connection,
@@ -24,14 +24,17 @@ export async function signAndSendTransaction(
         const signature = await connection.sendRawTransaction(rawTransaction, {
           skipPreflight: true,
           maxRetries: 3,
-          preflightCommitment: 'confirmed'
+          preflightCommitment: 'confirmed',
         });
 
         if (!signature) {
           throw new Error('Failed to send transaction');
         }
 
-        console.log('Inside runOnce: Transaction sent successfully:', signature);
+        console.log(
+          'Inside runOnce: Transaction sent successfully:',
+          signature
+        );
         return signature;
       } catch (error) {
         console.error('Inside runOnce: Error broadcasting transaction:', error);
@@ -42,4 +45,4 @@ export async function signAndSendTransaction(
   console.log('Exited runOnce, transaction sent with ID:', txid);
 
   return txid;
-} 
\ No newline at end of file
+}
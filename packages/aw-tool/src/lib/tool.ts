@@ -65,14 +65,155 @@ export const BaseEthereumAddressSchema = z
  */
 export type EthereumAddress = z.infer<typeof BaseEthereumAddressSchema>;
 
+/**
+ * The name of the policy parameter that holds a tool's spending limits.
+ * @description The parameter value is a JSON encoded array of `SpendingLimit`s.
+ */
+export const SPENDING_LIMITS_POLICY_PARAMETER = 'spendingLimits';
+
+/**
+ * Zod schema for validating a spending limit over a rolling time window.
+ * @type {z.ZodObject}
+ * @description Limits the amount of a token a delegatee can spend through a tool within `period` seconds.
+ * The zero address represents the chain's native token.
+ */
+export const SpendingLimitSchema = z.object({
+  tokenAddress: BaseEthereumAddressSchema,
+  amount: z
+    .string()
+    .regex(
+      /^\d+$/,
+      "Must be a non-negative integer amount in the token's smallest unit"
+    ),
+  period: z.number().int().positive(),
+});
+
+/**
+ * Represents a spending limit over a rolling time window.
+ * @typedef {z.infer<typeof SpendingLimitSchema>} SpendingLimit
+ */
+export type SpendingLimit = z.infer<typeof SpendingLimitSchema>;
+
+/**
+ * Zod schema for validating the spending limits of a tool.
+ * @type {z.ZodArray}
+ * @description Each token can have at most one spending limit.
+ */
+export const SpendingLimitsSchema = z
+  .array(SpendingLimitSchema)
+  .refine(
+    (spendingLimits) =>
+      new Set(
+        spendingLimits.map(({ tokenAddress }) => tokenAddress.toLowerCase())
+      ).size === spendingLimits.length,
+    { message: 'Each token can have at most one spending limit' }
+  );
+
+/**
+ * The name of the policy parameter that caps the max fee per gas of each transaction sent by an EVM tool.
+ * @description The parameter value is a decimal amount of gwei, e.g. `50` or `0.5`.
+ */
+export const MAX_FEE_PER_GAS_GWEI_POLICY_PARAMETER = 'maxFeePerGasGwei';
+
+/**
+ * The name of the policy parameter that caps the total gas cost of an EVM tool's execution.
+ * @description The parameter value is an amount of wei, compared against the gas limit times the max fee per gas
+ * summed over all the transactions the tool sends.
+ */
+export const MAX_TOTAL_GAS_COST_WEI_POLICY_PARAMETER = 'maxTotalGasCostWei';
+
+/**
+ * Zod schema for validating the gas fee ceiling enforced by the policies of EVM tools.
+ * @type {z.ZodObject}
+ * @description Each ceiling is optional, an unset ceiling isn't enforced.
+ */
+export const GasFeeCeilingSchema = z.object({
+  [MAX_FEE_PER_GAS_GWEI_POLICY_PARAMETER]: z
+    .string()
+    .regex(
+      /^\d+(\.\d{1,9})?$/,
+      'Must be a non-negative amount of gwei with at most 9 decimals'
+    )
+    .optional(),
+  [MAX_TOTAL_GAS_COST_WEI_POLICY_PARAMETER]: z
+    .string()
+    .regex(/^\d+$/, 'Must be a non-negative integer amount of wei')
+    .optional(),
+});
+
+/**
+ * Represents the gas fee ceiling enforced by the policies of EVM tools.
+ * @typedef {z.infer<typeof GasFeeCeilingSchema>} GasFeeCeiling
+ */
+export type GasFeeCeiling = z.infer<typeof GasFeeCeilingSchema>;
+
+/**
+ * Zod schema for validating the response set by a tool's Lit Action when its execution fails.
+ * @type {z.ZodObject}
+ * @description All tools report failures with `status: 'error'`, an error message, and optional error details.
+ */
+export const BaseToolErrorResultSchema = z.object({
+  status: z.literal('error'),
+  error: z.string(),
+  details: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Represents the response set by a tool's Lit Action when its execution fails.
+ * @typedef {z.infer<typeof BaseToolErrorResultSchema>} ToolErrorResult
+ */
+export type ToolErrorResult = z.infer<typeof BaseToolErrorResultSchema>;
+
+/**
+ * Zod schema for validating the response set by a tool's Lit Action on success.
+ * @type {z.ZodObject}
+ * @description All tools report success with `status: 'success'`. Used to validate the results of tools
+ * that don't define their own result schema, keeping the fields of their response as is.
+ */
+export const BaseToolSuccessResultSchema = z
+  .object({
+    status: z.literal('success'),
+  })
+  .passthrough();
+
+/**
+ * Zod schema for validating the response set by a tool's Lit Action when it is executed as a simulation.
+ * @type {z.ZodDiscriminatedUnion}
+ * @description Simulations run the tool's policy and pre-flight steps, without signing or broadcasting.
+ * A passing simulation reports the results of the pre-flight steps, and a failing one reports the stage
+ * that failed along with the error, e.g. the policy rule that rejected the execution.
+ */
+export const ToolSimulationResultSchema = z.discriminatedUnion('passed', [
+  z.object({
+    status: z.literal('simulated'),
+    passed: z.literal(true),
+    policyIpfsCid: z.string().optional(),
+    preflight: z.record(z.unknown()),
+  }),
+  z.object({
+    status: z.literal('simulated'),
+    passed: z.literal(false),
+    stage: z.enum(['policy', 'preflight']),
+    error: z.string(),
+  }),
+]);
+
+/**
+ * Represents the response set by a tool's Lit Action when it is executed as a simulation.
+ * @typedef {z.infer<typeof ToolSimulationResultSchema>} ToolSimulationResult
+ */
+export type ToolSimulationResult = z.infer<typeof ToolSimulationResultSchema>;
+
 /**
  * Represents a generic AW (Function-as-a-Service) tool.
  * @template TParams - The type of the tool's parameters.
  * @template TPolicy - The type of the tool's policy.
+ * @template TResult - The type of the response set by the tool's Lit Action on success.
  */
 export interface AwTool<
   TParams extends Record<string, any> = Record<string, any>,
-  TPolicy extends { type: string } = { type: string }
+  TPolicy extends { type: string } = { type: string },
+  TResult extends { status: 'success' } = { status: 'success' }
 > {
   /**
    * The name of the tool. This should be a unique identifier that clearly describes the tool's purpose.
@@ -101,6 +242,18 @@ export interface AwTool<
    */
   chain: string;
 
+  /**
+   * Names of the delegatee credentials the tool requires, such as API keys.
+   * Credentials aren't part of the tool's parameters; they're passed to the tool's Lit Action in `params` alongside them.
+   */
+  requiredCredentialNames?: readonly string[];
+
+  /**
+   * Keys of the tool's result holding the hashes of the transactions it broadcasts, in the order they're sent.
+   * Lets callers track the status of the transactions on the chain given by the tool's `rpcUrl` parameter.
+   */
+  transactionHashKeys?: readonly string[];
+
   /**
    * Configuration for the tool's parameters.
    * Defines the structure, validation, and documentation of the tool's input parameters.
@@ -171,4 +324,23 @@ export interface AwTool<
      */
     decode: (encodedPolicy: string) => TPolicy;
   };
+
+  /**
+   * Configuration for the tool's result.
+   * Defines the structure and validation of the response set by the tool's Lit Action on success.
+   * Tools without a result configuration have their response checked against `BaseToolSuccessResultSchema`.
+   */
+  result?: {
+    /**
+     * The TypeScript type definition for the tool's result.
+     * This serves as a compile-time type check for result values.
+     */
+    type: TResult;
+
+    /**
+     * Zod schema for runtime validation of the tool's result.
+     * Ensures that the response set by the Lit Action matches the expected format.
+     */
+    schema: z.ZodType<TResult>;
+  };
 }
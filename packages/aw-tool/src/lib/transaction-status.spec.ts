@@ -0,0 +1,165 @@
+import {
+  decodeRevertReason,
+  describeTransactionStatus,
+  pollTransactionStatus,
+} from './transaction-status';
+
+const txHash = `0x${'1'.padStart(64, '0')}`;
+
+const toWord = (value: number) => value.toString(16).padStart(64, '0');
+
+/**
+ * ABI encodes the return data of an `Error(string)` revert.
+ */
+const encodeErrorString = (reason: string) => {
+  const reasonHex = Buffer.from(reason, 'utf8').toString('hex');
+  return `0x08c379a0${toWord(32)}${toWord(reason.length)}${reasonHex.padEnd(
+    Math.ceil(reasonHex.length / 64) * 64,
+    '0'
+  )}`;
+};
+
+describe('decodeRevertReason', () => {
+  it('should decode Error(string) reverts', () => {
+    expect(
+      decodeRevertReason(
+        encodeErrorString('ERC20: transfer amount exceeds balance')
+      )
+    ).toBe('ERC20: transfer amount exceeds balance');
+  });
+
+  it('should decode Panic(uint256) codes', () => {
+    expect(decodeRevertReason(`0x4e487b71${toWord(0x11)}`)).toBe('Panic(0x11)');
+  });
+
+  it('should report custom errors by their selector', () => {
+    expect(decodeRevertReason(`0xCF479181${toWord(1)}`)).toBe(
+      'Custom error 0xcf479181'
+    );
+  });
+
+  it('should return undefined for reverts without data', () => {
+    ['0x', '0x1234', 'not hex', '0x08c379a0zz'].forEach((data) => {
+      expect(decodeRevertReason(data)).toBeUndefined();
+    });
+  });
+});
+
+describe('pollTransactionStatus', () => {
+  const createProvider = (receipts: (Record<string, unknown> | null)[]) => ({
+    getTransactionReceipt: jest.fn(async () =>
+      receipts.length > 1 ? receipts.shift() : receipts[0]
+    ),
+    getTransaction: jest.fn(async () => ({
+      from: '0x1111111111111111111111111111111111111111',
+      to: '0x2222222222222222222222222222222222222222',
+      data: '0xa9059cbb',
+      value: BigInt(0),
+      gasLimit: BigInt(60000),
+    })),
+    call: jest.fn(async () => '0x'),
+  });
+
+  const receipt = (status: number, confirmations: number) => ({
+    status,
+    blockNumber: 10,
+    confirmations,
+    gasUsed: BigInt(21000),
+  });
+
+  it('should poll until the transaction has the requested confirmations', async () => {
+    const provider = createProvider([
+      null,
+      receipt(1, 1),
+      receipt(1, 2),
+      receipt(1, 3),
+    ]);
+
+    await expect(
+      pollTransactionStatus(provider, txHash, {
+        confirmations: 3,
+        pollIntervalMs: 1,
+      })
+    ).resolves.toEqual({
+      status: 'confirmed',
+      hash: txHash,
+      blockNumber: 10,
+      confirmations: 3,
+      gasUsed: '21000',
+    });
+    expect(provider.getTransactionReceipt).toHaveBeenCalledTimes(4);
+    expect(provider.call).not.toHaveBeenCalled();
+  });
+
+  it('should report the transaction as pending when the timeout is reached', async () => {
+    await expect(
+      pollTransactionStatus(createProvider([null]), txHash, { timeoutMs: 0 })
+    ).resolves.toEqual({ status: 'pending', hash: txHash, confirmations: 0 });
+
+    await expect(
+      pollTransactionStatus(createProvider([receipt(1, 1)]), txHash, {
+        confirmations: 2,
+        timeoutMs: 0,
+      })
+    ).resolves.toEqual({
+      status: 'pending',
+      hash: txHash,
+      blockNumber: 10,
+      confirmations: 1,
+    });
+  });
+
+  it('should report reverted transactions with the revert reason of their replay', async () => {
+    const provider = createProvider([receipt(0, 1)]);
+    provider.call.mockRejectedValue({
+      code: 'CALL_EXCEPTION',
+      error: {
+        code: -32000,
+        data: encodeErrorString('Too little received'),
+      },
+    });
+
+    const transactionStatus = await pollTransactionStatus(provider, txHash);
+
+    expect(transactionStatus).toEqual({
+      status: 'reverted',
+      hash: txHash,
+      blockNumber: 10,
+      confirmations: 1,
+      gasUsed: '21000',
+      revertReason: 'Too little received',
+    });
+    expect(provider.call).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: '0x1111111111111111111111111111111111111111',
+        data: '0xa9059cbb',
+      }),
+      10
+    );
+    expect(describeTransactionStatus(transactionStatus)).toBe(
+      `Transaction ${txHash} reverted in block 10: Too little received`
+    );
+  });
+
+  it('should fall back to the reason of the provider error', async () => {
+    const provider = createProvider([receipt(0, 1)]);
+    provider.call.mockRejectedValue({ reason: 'execution reverted' });
+
+    await expect(
+      pollTransactionStatus(provider, txHash)
+    ).resolves.toMatchObject({
+      status: 'reverted',
+      revertReason: 'execution reverted',
+    });
+  });
+
+  it('should omit the revert reason when the replay succeeds', async () => {
+    const transactionStatus = await pollTransactionStatus(
+      createProvider([receipt(0, 1)]),
+      txHash
+    );
+
+    expect(transactionStatus).toMatchObject({ status: 'reverted' });
+    expect(transactionStatus).not.toHaveProperty('revertReason');
+  });
+});
@@ -0,0 +1,222 @@
+import { z } from 'zod';
+
+/**
+ * Zod schema for validating the status of a transaction broadcast by a tool.
+ * @type {z.ZodDiscriminatedUnion}
+ * @description A transaction is `pending` until it is mined with the requested number of confirmations,
+ * after which it is either `confirmed` or `reverted`. Reverted transactions report their revert reason,
+ * when the chain returns one.
+ */
+export const TransactionStatusSchema = z.discriminatedUnion('status', [
+  z.object({
+    status: z.literal('pending'),
+    hash: z.string(),
+    blockNumber: z.number().optional(),
+    confirmations: z.number(),
+  }),
+  z.object({
+    status: z.literal('confirmed'),
+    hash: z.string(),
+    blockNumber: z.number(),
+    confirmations: z.number(),
+    gasUsed: z.string(),
+  }),
+  z.object({
+    status: z.literal('reverted'),
+    hash: z.string(),
+    blockNumber: z.number(),
+    confirmations: z.number(),
+    gasUsed: z.string(),
+    revertReason: z.string().optional(),
+  }),
+]);
+
+/**
+ * Represents the status of a transaction broadcast by a tool.
+ * @typedef {z.infer<typeof TransactionStatusSchema>} TransactionStatus
+ */
+export type TransactionStatus = z.infer<typeof TransactionStatusSchema>;
+
+/**
+ * Options for waiting on a transaction.
+ * @property {number} [confirmations] - The number of confirmations to wait for. Defaults to 1.
+ * @property {number} [timeoutMs] - How long to wait before reporting the transaction as pending. Defaults to 2 minutes.
+ * @property {number} [pollIntervalMs] - How often to poll for the receipt. Defaults to 2 seconds.
+ */
+export interface WaitForTransactionOptions {
+  confirmations?: number;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Decodes the revert reason of a failed call from its return data.
+ * Handles `Error(string)` reverts and `Panic(uint256)` codes; custom errors are reported by their selector.
+ * @param {string} data - The hex encoded return data of the call.
+ * @returns {string | undefined} The revert reason, or undefined if the call reverted without data.
+ */
+export const decodeRevertReason = (data: string): string | undefined => {
+  if (!/^0x([0-9a-fA-F]{2})*$/.test(data) || data.length < 10) {
+    return undefined;
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const payload = data.slice(10);
+
+  if (selector === ERROR_SELECTOR && payload.length >= 128) {
+    const offset = parseInt(payload.slice(0, 64), 16) * 2;
+    const length = parseInt(payload.slice(offset, offset + 64), 16) * 2;
+    const reasonHex = payload.slice(offset + 64, offset + 64 + length);
+    const bytes = new Uint8Array(
+      (reasonHex.match(/../g) ?? []).map((byte) => parseInt(byte, 16))
+    );
+    return new TextDecoder().decode(bytes);
+  }
+
+  if (selector === PANIC_SELECTOR && payload.length >= 64) {
+    return `Panic(0x${parseInt(payload.slice(0, 64), 16).toString(16)})`;
+  }
+
+  return `Custom error ${selector}`;
+};
+
+/**
+ * Finds the return data of a reverted call in the error thrown by an ethers provider,
+ * which nests it differently depending on the RPC node.
+ */
+const getRevertData = (err: any): string | undefined => {
+  for (let error = err; error; error = error.error) {
+    if (typeof error.data === 'string' && error.data.startsWith('0x')) {
+      return error.data;
+    }
+    if (typeof error.data?.data === 'string') {
+      return error.data.data;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Replays a reverted transaction as a call on the block it was mined in, to recover its revert reason.
+ * @param {any} provider - The ethers provider of the chain the transaction was sent on.
+ * @param {string} txHash - The hash of the reverted transaction.
+ * @param {number} blockNumber - The block the transaction was mined in.
+ * @returns {Promise<string | undefined>} The revert reason, or undefined if it can't be recovered.
+ */
+const getRevertReason = async (
+  provider: any,
+  txHash: string,
+  blockNumber: number
+) => {
+  try {
+    const tx = await provider.getTransaction(txHash);
+    await provider.call(
+      {
+        from: tx.from,
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit,
+      },
+      blockNumber
+    );
+  } catch (err) {
+    const data = getRevertData(err);
+    if (data !== undefined) {
+      return decodeRevertReason(data);
+    }
+    return (err as { reason?: string }).reason;
+  }
+
+  return undefined;
+};
+
+/**
+ * Polls the receipt of a transaction until it has the requested number of confirmations, or the timeout is reached.
+ * Works with any ethers v5 provider, in Lit Actions as well as in Node.js.
+ * @param {any} provider - The ethers provider of the chain the transaction was sent on.
+ * @param {string} txHash - The hash of the transaction.
+ * @param {WaitForTransactionOptions} [options] - The confirmations to wait for, the timeout and the poll interval.
+ * @returns {Promise<TransactionStatus>} The status of the transaction, `pending` if the timeout was reached.
+ */
+export const pollTransactionStatus = async (
+  provider: any,
+  txHash: string,
+  {
+    confirmations = 1,
+    timeoutMs = 120_000,
+    pollIntervalMs = 2_000,
+  }: WaitForTransactionOptions = {}
+): Promise<TransactionStatus> => {
+  const deadline = Date.now() + timeoutMs;
+  let receipt: any = null;
+
+  while (true) {
+    receipt = await provider.getTransactionReceipt(txHash);
+    if (receipt && receipt.confirmations >= confirmations) {
+      break;
+    }
+
+    if (Date.now() + pollIntervalMs > deadline) {
+      return {
+        status: 'pending',
+        hash: txHash,
+        ...(receipt && { blockNumber: receipt.blockNumber }),
+        confirmations: receipt?.confirmations ?? 0,
+      };
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+  }
+
+  if (receipt.status === 0) {
+    const revertReason = await getRevertReason(
+      provider,
+      txHash,
+      receipt.blockNumber
+    );
+    return {
+      status: 'reverted',
+      hash: txHash,
+      blockNumber: receipt.blockNumber,
+      confirmations: receipt.confirmations,
+      gasUsed: receipt.gasUsed.toString(),
+      ...(revertReason !== undefined && { revertReason }),
+    };
+  }
+
+  return {
+    status: 'confirmed',
+    hash: txHash,
+    blockNumber: receipt.blockNumber,
+    confirmations: receipt.confirmations,
+    gasUsed: receipt.gasUsed.toString(),
+  };
+};
+
+/**
+ * Describes the status of a transaction in a single line, e.g. for logs and error messages.
+ * @param {TransactionStatus} transactionStatus - The status of the transaction.
+ * @returns {string} The description of the status.
+ */
+export const describeTransactionStatus = (
+  transactionStatus: TransactionStatus
+): string => {
+  switch (transactionStatus.status) {
+    case 'pending':
+      return `Transaction ${transactionStatus.hash} is pending with ${transactionStatus.confirmations} confirmation(s)`;
+    case 'confirmed':
+      return `Transaction ${transactionStatus.hash} confirmed in block ${transactionStatus.blockNumber}`;
+    case 'reverted':
+      return `Transaction ${transactionStatus.hash} reverted in block ${
+        transactionStatus.blockNumber
+      }${
+        transactionStatus.revertReason !== undefined
+          ? `: ${transactionStatus.revertReason}`
+          : ''
+      }`;
+  }
+};
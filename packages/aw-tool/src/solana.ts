@@ -0,0 +1 @@
+export * from './lib/solana-lit-action-utils';
@@ -56,6 +56,9 @@ import {
   handleGetToolPolicyParameter,
   handleRemoveToolPolicyParameter,
   handleSetToolPolicyParameter,
+  handleSetGasFeeCeiling,
+  handleSetBlanketPolicy,
+  handleRemoveBlanketPolicy,
   Delegatee,
   handleDelegateeMenu,
   DelegateeMenuChoice,
@@ -67,6 +70,8 @@ import {
   DelegateeConfigureSignerMenuChoice,
   handleUseEoaForAdmin,
   handleUseEoaForDelegatee,
+  handleUseExternalSignerForAdmin,
+  handleUseExternalSignerForDelegatee,
   handleSelectPkpForAdmin,
   handleSelectPkpForDelegatee,
   handleGetDelegatedPkps,
@@ -75,12 +80,25 @@ import {
   handleGetToolViaIntent,
   handleGetIntentMatcher,
   handleExecuteTool,
+  handleSimulateTool,
   handleExecuteToolViaIntent,
   handleManageWrappedKeysMenu,
   ManageWrappedKeysMenuChoice,
   handleGetWrappedKeys,
   handleMintWrappedKey,
   handleRemoveWrappedKey,
+  handleManageCapacityCreditsMenu,
+  ManageCapacityCreditsMenuChoice,
+  handleGetCapacityCredits,
+  handleMintCapacityCredit,
+  handleDelegateCapacityCredit,
+  handleDelegateeCapacityCreditsMenu,
+  DelegateeCapacityCreditsMenuChoice,
+  handleGetCapacityCreditsForDelegatee,
+  handleMintCapacityCreditForDelegatee,
+  handleUseCapacityDelegation,
+  handleRemoveCapacityDelegation,
+  handleViewHistory,
 } from './main-menu';
 
 export class LawCli {
@@ -277,6 +295,16 @@ export class LawCli {
         }
         await LawCli.handleManageWrappedKeysMenu(lawCli, pkp);
         break;
+      case AdminMenuChoice.ManageCapacityCredits:
+        await LawCli.handleManageCapacityCreditsMenu(lawCli);
+        break;
+      case AdminMenuChoice.ViewHistory:
+        if (pkp === undefined) {
+          pkp = await LawCli.handleSelectPkp(lawCli);
+        }
+        await handleViewHistory(lawCli.admin!, pkp);
+        await LawCli.handleAdminMenu(lawCli, pkp);
+        break;
       case AdminMenuChoice.Back:
         await LawCli.showMainMenu(lawCli);
         break;
@@ -306,6 +334,13 @@ export class LawCli {
         await LawCli.handleAdminMenu(lawCli);
         break;
       }
+      case AdminConfigureSignerMenuChoice.UseExternalSigner: {
+        lawCli.admin = await handleUseExternalSignerForAdmin(
+          lawCli.localStorage
+        );
+        await LawCli.handleAdminMenu(lawCli);
+        break;
+      }
       case AdminConfigureSignerMenuChoice.UseMultiSig:
         break;
       case AdminConfigureSignerMenuChoice.UsePkp:
@@ -386,6 +421,18 @@ export class LawCli {
         await handleRemoveToolPolicyParameter(lawCli.admin!, pkp);
         await LawCli.handleManagePoliciesMenu(lawCli, pkp);
         break;
+      case ManagePoliciesMenuChoice.SetGasFeeCeiling:
+        await handleSetGasFeeCeiling(lawCli.admin!, pkp);
+        await LawCli.handleManagePoliciesMenu(lawCli, pkp);
+        break;
+      case ManagePoliciesMenuChoice.SetBlanketPolicy:
+        await handleSetBlanketPolicy(lawCli.admin!, pkp);
+        await LawCli.handleManagePoliciesMenu(lawCli, pkp);
+        break;
+      case ManagePoliciesMenuChoice.RemoveBlanketPolicy:
+        await handleRemoveBlanketPolicy(lawCli.admin!, pkp);
+        await LawCli.handleManagePoliciesMenu(lawCli, pkp);
+        break;
       case ManagePoliciesMenuChoice.Back:
         await LawCli.handleAdminMenu(lawCli);
         break;
@@ -492,6 +539,13 @@ export class LawCli {
         );
         await LawCli.handleDelegateeMenu(lawCli, pkp);
         break;
+      case DelegateeMenuChoice.SimulateTool:
+        if (pkp === undefined) {
+          pkp = await LawCli.handleSelectDelegatedPkp(lawCli);
+        }
+        await handleSimulateTool(lawCli.localStorage, lawCli.delegatee!, pkp);
+        await LawCli.handleDelegateeMenu(lawCli, pkp);
+        break;
       case DelegateeMenuChoice.ExecuteTool:
         if (pkp === undefined) {
           pkp = await LawCli.handleSelectDelegatedPkp(lawCli);
@@ -499,6 +553,9 @@ export class LawCli {
         await handleExecuteTool(lawCli.localStorage, lawCli.delegatee!, pkp);
         await LawCli.handleDelegateeMenu(lawCli, pkp);
         break;
+      case DelegateeMenuChoice.ManageCapacityCredits:
+        await LawCli.handleDelegateeCapacityCreditsMenu(lawCli, pkp);
+        break;
       case DelegateeMenuChoice.Back:
         await LawCli.showMainMenu(lawCli);
         break;
@@ -526,6 +583,12 @@ export class LawCli {
         lawCli.delegatee = await handleUseEoaForDelegatee(lawCli.localStorage);
         await LawCli.handleDelegateeMenu(lawCli);
         break;
+      case DelegateeConfigureSignerMenuChoice.UseExternalSigner:
+        lawCli.delegatee = await handleUseExternalSignerForDelegatee(
+          lawCli.localStorage
+        );
+        await LawCli.handleDelegateeMenu(lawCli);
+        break;
       case DelegateeConfigureSignerMenuChoice.UsePkp:
         break;
       case DelegateeConfigureSignerMenuChoice.Back:
@@ -556,6 +619,57 @@ export class LawCli {
     }
   }
 
+  private static async handleManageCapacityCreditsMenu(lawCli: LawCli) {
+    const option = await handleManageCapacityCreditsMenu();
+
+    switch (option) {
+      case ManageCapacityCreditsMenuChoice.GetCapacityCredits:
+        await handleGetCapacityCredits(lawCli.admin!);
+        await LawCli.handleManageCapacityCreditsMenu(lawCli);
+        break;
+      case ManageCapacityCreditsMenuChoice.MintCapacityCredit:
+        await handleMintCapacityCredit(lawCli.admin!);
+        await LawCli.handleManageCapacityCreditsMenu(lawCli);
+        break;
+      case ManageCapacityCreditsMenuChoice.DelegateCapacityCredit:
+        await handleDelegateCapacityCredit(lawCli.admin!);
+        await LawCli.handleManageCapacityCreditsMenu(lawCli);
+        break;
+      case ManageCapacityCreditsMenuChoice.Back:
+        await LawCli.handleAdminMenu(lawCli);
+        break;
+    }
+  }
+
+  private static async handleDelegateeCapacityCreditsMenu(
+    lawCli: LawCli,
+    pkp?: DelegatedPkpInfo
+  ) {
+    const option = await handleDelegateeCapacityCreditsMenu();
+
+    switch (option) {
+      case DelegateeCapacityCreditsMenuChoice.GetCapacityCredits:
+        await handleGetCapacityCreditsForDelegatee(lawCli.delegatee!);
+        await LawCli.handleDelegateeCapacityCreditsMenu(lawCli, pkp);
+        break;
+      case DelegateeCapacityCreditsMenuChoice.MintCapacityCredit:
+        await handleMintCapacityCreditForDelegatee(lawCli.delegatee!);
+        await LawCli.handleDelegateeCapacityCreditsMenu(lawCli, pkp);
+        break;
+      case DelegateeCapacityCreditsMenuChoice.UseCapacityDelegation:
+        await handleUseCapacityDelegation(lawCli.delegatee!);
+        await LawCli.handleDelegateeCapacityCreditsMenu(lawCli, pkp);
+        break;
+      case DelegateeCapacityCreditsMenuChoice.RemoveCapacityDelegation:
+        await handleRemoveCapacityDelegation(lawCli.delegatee!);
+        await LawCli.handleDelegateeCapacityCreditsMenu(lawCli, pkp);
+        break;
+      case DelegateeCapacityCreditsMenuChoice.Back:
+        await LawCli.handleDelegateeMenu(lawCli, pkp);
+        break;
+    }
+  }
+
   public static async start() {
     const localStorage = LawCli.initStorage();
     const litNetwork = await getLitNetwork(localStorage);
@@ -46,6 +46,7 @@ export enum AdminErrors {
   NO_PKPS_FOUND = 'NO_PKPS_FOUND',
   PKP_SELECTION_CANCELLED = 'PKP_SELECTION_CANCELLED',
   ADMIN_SELECTION_CANCELLED = 'ADMIN_SELECTION_CANCELLED',
+  ADMIN_MISSING_EXTERNAL_SIGNER = 'ADMIN_MISSING_EXTERNAL_SIGNER',
 }
 
 export enum PermitToolErrors {
@@ -154,9 +155,37 @@ export enum RemoveToolPolicyParameterErrors {
   FAILED = 'FAILED',
 }
 
+export enum SetGasFeeCeilingErrors {
+  NO_EVM_TOOLS_WITH_POLICIES = 'NO_EVM_TOOLS_WITH_POLICIES',
+  NO_DELEGATEES = 'NO_DELEGATEES',
+  SET_CANCELLED = 'SET_CANCELLED',
+  INVALID_CEILING = 'INVALID_CEILING',
+  FAILED = 'FAILED',
+}
+
+export enum SetBlanketPolicyErrors {
+  NO_TOOLS_FOUND = 'NO_TOOLS_FOUND',
+  SET_BLANKET_POLICY_CANCELLED = 'SET_BLANKET_POLICY_CANCELLED',
+  FAILED = 'FAILED',
+}
+
+export enum RemoveBlanketPolicyErrors {
+  NO_BLANKET_POLICIES_FOUND = 'NO_BLANKET_POLICIES_FOUND',
+  REMOVE_BLANKET_POLICY_CANCELLED = 'REMOVE_BLANKET_POLICY_CANCELLED',
+  FAILED = 'FAILED',
+}
+
+export enum ManageCapacityCreditsErrors {
+  NO_CAPACITY_CREDITS = 'NO_CAPACITY_CREDITS',
+  MINT_CAPACITY_CREDIT_CANCELLED = 'MINT_CAPACITY_CREDIT_CANCELLED',
+  DELEGATE_CAPACITY_CREDIT_CANCELLED = 'DELEGATE_CAPACITY_CREDIT_CANCELLED',
+  USE_CAPACITY_DELEGATION_CANCELLED = 'USE_CAPACITY_DELEGATION_CANCELLED',
+}
+
 export enum DelegateeErrors {
   DELEGATEE_SELECTION_CANCELLED = 'DELEGATEE_SELECTION_CANCELLED',
   DELEGATEE_MISSING_PRIVATE_KEY = 'DELEGATEE_MISSING_PRIVATE_KEY',
+  DELEGATEE_MISSING_EXTERNAL_SIGNER = 'DELEGATEE_MISSING_EXTERNAL_SIGNER',
   FAILED_TO_INITIALIZE_DELEGATEE = 'FAILED_TO_INITIALIZE_DELEGATEE',
   NO_DELEGATED_PKPS = 'NO_DELEGATED_PKPS',
   NO_TOOLS_WITH_POLICIES = 'NO_TOOLS_WITH_POLICIES',
@@ -166,6 +195,7 @@ export enum DelegateeErrors {
   NO_TOOLS_AVAILABLE = 'NO_TOOLS_AVAILABLE',
   TOOL_PARAMS_CANCELLED = 'TOOL_PARAMS_CANCELLED',
   TOOL_PARAMS_INVALID = 'TOOL_PARAMS_INVALID',
+  TOOL_CREDENTIALS_CANCELLED = 'TOOL_CREDENTIALS_CANCELLED',
   NO_CHAINS_CONFIGURED = 'NO_CHAINS_CONFIGURED',
   CHAIN_SELECTION_CANCELLED = 'CHAIN_SELECTION_CANCELLED',
   NO_WRAPPED_KEYS_AVAILABLE = 'NO_WRAPPED_KEYS_AVAILABLE',
@@ -204,4 +234,8 @@ export type LawCliErrorType =
   | GetToolPolicyParameterErrors
   | SetToolPolicyParameterErrors
   | RemoveToolPolicyParameterErrors
+  | SetGasFeeCeilingErrors
+  | SetBlanketPolicyErrors
+  | RemoveBlanketPolicyErrors
+  | ManageCapacityCreditsErrors
   | DelegateeErrors;
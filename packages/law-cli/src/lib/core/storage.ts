@@ -6,9 +6,11 @@ export enum StorageKeys {
   ADMIN_SIGNER_TYPE = 'adminSignerType',
   ADMIN_STORAGE = 'adminStorage',
   ADMIN_ACTIVE_ADDRESS = 'adminActiveAddress',
+  ADMIN_EXTERNAL_SIGNER_URL = 'adminExternalSignerUrl',
   DELEGATEE_STORAGE = 'delegateeStorage',
   DELEGATEE_ACTIVE_ADDRESS = 'delegateeActiveAddress',
   DELEGATEE_SIGNER_TYPE = 'delegateeSignerType',
+  DELEGATEE_EXTERNAL_SIGNER_URL = 'delegateeExternalSignerUrl',
   WRAPPED_KEY_DATA = 'WRAPPED_KEY_DATA',
 }
 
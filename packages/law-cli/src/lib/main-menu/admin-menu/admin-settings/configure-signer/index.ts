@@ -3,3 +3,4 @@ export {
   handleConfigureAdminSignerMenu,
 } from './menu';
 export { handleUseEoaForAdmin } from './use-eoa';
+export { handleUseExternalSignerForAdmin } from './use-external-signer';
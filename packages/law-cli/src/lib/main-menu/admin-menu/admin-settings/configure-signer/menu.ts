@@ -4,6 +4,7 @@ import { LawCliError, GeneralErrors, logger } from '../../../../core';
 
 export enum AdminConfigureSignerMenuChoice {
   UseEoa = 'useEoa',
+  UseExternalSigner = 'useExternalSigner',
   UseMultiSig = 'useMultiSig',
   UsePkp = 'usePkp',
   Back = 'back',
@@ -11,6 +12,7 @@ export enum AdminConfigureSignerMenuChoice {
 
 export enum AdminSignerType {
   Eoa = 'eoa',
+  ExternalSigner = 'externalSigner',
   MultiSig = 'multiSig',
   Pkp = 'pkp',
 }
@@ -26,6 +28,10 @@ const promptConfigureSignerMenu =
           title: 'Use EOA',
           value: AdminConfigureSignerMenuChoice.UseEoa,
         },
+        {
+          title: 'Use External Signer',
+          value: AdminConfigureSignerMenuChoice.UseExternalSigner,
+        },
         {
           title: 'Use MultiSig',
           value: AdminConfigureSignerMenuChoice.UseMultiSig,
@@ -0,0 +1,129 @@
+import prompts from 'prompts';
+import { ethers } from 'ethers';
+
+import {
+  LocalStorage,
+  StorageKeys,
+  LawCliError,
+  AdminErrors,
+  logger,
+  getLitNetwork,
+} from '../../../../core';
+import { AdminSignerType } from './menu';
+import { Admin } from '../../admin';
+
+const DEFAULT_EXTERNAL_SIGNER_URL = 'http://127.0.0.1:1248';
+
+const promptExternalSignerUrl = async (
+  localStorage: LocalStorage
+): Promise<string> => {
+  const { url } = await prompts({
+    type: 'text',
+    name: 'url',
+    message:
+      'Enter the JSON-RPC URL of your external signer (e.g. a hardware wallet bridge or KMS signer):',
+    initial:
+      localStorage.getItem(StorageKeys.ADMIN_EXTERNAL_SIGNER_URL) ??
+      DEFAULT_EXTERNAL_SIGNER_URL,
+    validate: (value) => {
+      try {
+        new URL(value);
+        return true;
+      } catch {
+        return 'Please enter a valid URL';
+      }
+    },
+  });
+
+  if (!url) {
+    throw new LawCliError(
+      AdminErrors.ADMIN_MISSING_EXTERNAL_SIGNER,
+      'No external signer URL provided. Operation cancelled.'
+    );
+  }
+
+  return url;
+};
+
+const promptSelectExternalAccount = async (
+  provider: ethers.providers.JsonRpcProvider
+): Promise<string> => {
+  let accounts: string[];
+  try {
+    accounts = await provider.listAccounts();
+  } catch {
+    throw new LawCliError(
+      AdminErrors.ADMIN_MISSING_EXTERNAL_SIGNER,
+      `Failed to connect to the external signer at ${provider.connection.url}.`
+    );
+  }
+
+  if (accounts.length === 0) {
+    throw new LawCliError(
+      AdminErrors.ADMIN_MISSING_EXTERNAL_SIGNER,
+      'The external signer did not expose any accounts.'
+    );
+  }
+
+  if (accounts.length === 1) {
+    return accounts[0];
+  }
+
+  const { account } = await prompts({
+    type: 'select',
+    name: 'account',
+    message: 'Select the external signer account to use:',
+    choices: accounts.map((address) => ({
+      title: address,
+      value: address,
+    })),
+  });
+
+  if (!account) {
+    throw new LawCliError(
+      AdminErrors.ADMIN_SELECTION_CANCELLED,
+      'Admin selection cancelled.'
+    );
+  }
+
+  return account;
+};
+
+export const handleUseExternalSignerForAdmin = async (
+  localStorage: LocalStorage
+): Promise<Admin> => {
+  try {
+    const url = await promptExternalSignerUrl(localStorage);
+    const provider = new ethers.providers.JsonRpcProvider(url);
+    const address = await promptSelectExternalAccount(provider);
+
+    // Only the signer URL is stored, the keys stay with the external signer
+    localStorage.setItem(StorageKeys.ADMIN_EXTERNAL_SIGNER_URL, url);
+    localStorage.setItem(StorageKeys.ADMIN_ACTIVE_ADDRESS, address);
+    localStorage.setItem(
+      StorageKeys.ADMIN_SIGNER_TYPE,
+      AdminSignerType.ExternalSigner
+    );
+
+    const litNetwork = await getLitNetwork(localStorage);
+    const awAdmin = await Admin.create(litNetwork, provider.getSigner(address));
+
+    logger.success(
+      `External signer configured successfully with address: ${address}`
+    );
+
+    return awAdmin;
+  } catch (error) {
+    if (error instanceof LawCliError) {
+      if (
+        error.type === AdminErrors.ADMIN_MISSING_EXTERNAL_SIGNER ||
+        error.type === AdminErrors.FAILED_TO_INITIALIZE_ADMIN ||
+        error.type === AdminErrors.ADMIN_SELECTION_CANCELLED
+      ) {
+        logger.error(error.message);
+        return await handleUseExternalSignerForAdmin(localStorage);
+      }
+    }
+    throw error;
+  }
+};
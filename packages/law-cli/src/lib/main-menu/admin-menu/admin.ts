@@ -1,4 +1,5 @@
 import { Admin as AwAdmin, type LitNetwork } from '@lit-protocol/agent-wallet';
+import type { ethers } from 'ethers';
 
 import { AdminErrors, LawCliError, logger } from '../../core';
 
@@ -73,22 +74,21 @@ export class Admin {
    * Handles errors related to missing private keys or insufficient balances by prompting the user for input.
    *
    * @param litNetwork - The Lit network to use for the Admin role.
-   * @param privateKey - Optional. The private key for the Admin role.
+   * @param privateKeyOrSigner - The private key for the Admin role, or an external signer.
    * @returns A promise that resolves to an instance of the `AwAdmin` class.
    * @throws If initialization fails, the function logs an error and exits the process.
    */
   private static async createAwAdmin(
     litNetwork: LitNetwork,
-    privateKey: string
+    privateKeyOrSigner: string | ethers.Signer
   ): Promise<AwAdmin> {
     let awAdmin: AwAdmin;
     try {
       // Attempt to create the AwAdmin instance.
       awAdmin = await AwAdmin.create(
-        {
-          type: 'eoa',
-          privateKey,
-        },
+        typeof privateKeyOrSigner === 'string'
+          ? { type: 'eoa', privateKey: privateKeyOrSigner }
+          : { type: 'eoa', signer: privateKeyOrSigner },
         {
           litNetwork,
         }
@@ -122,10 +122,17 @@ export class Admin {
   /**
    * Creates an instance of the `Admin` class.
    * @param litNetwork - The Lit network to use for the Admin role.
+   * @param adminPrivateKeyOrSigner - The private key for the Admin role, or an external signer.
    * @returns A promise that resolves to an instance of the `Admin` class.
    */
-  public static async create(litNetwork: LitNetwork, adminPrivateKey: string) {
-    const awAdmin = await Admin.createAwAdmin(litNetwork, adminPrivateKey);
+  public static async create(
+    litNetwork: LitNetwork,
+    adminPrivateKeyOrSigner: string | ethers.Signer
+  ) {
+    const awAdmin = await Admin.createAwAdmin(
+      litNetwork,
+      adminPrivateKeyOrSigner
+    );
     return new Admin(awAdmin);
   }
 }
@@ -1,7 +1,9 @@
 export { AdminMenuChoice, handleAdminMenu } from './menu';
 export { Admin } from './admin';
 export { handleSelectPkpForAdmin } from './select-pkp';
+export { handleViewHistory } from './view-history';
 export * from './admin-settings';
 export * from './manage-tools';
 export * from './manage-policies';
 export * from './manage-delegatees';
+export * from './manage-capacity-credits';
@@ -0,0 +1,206 @@
+import prompts from 'prompts';
+import type {
+  CapacityCreditDelegationAuthSigOptions,
+  CapacityCreditMintOptions,
+} from '@lit-protocol/agent-wallet';
+
+import type { Admin } from '../admin';
+import {
+  LawCliError,
+  logger,
+  ManageCapacityCreditsErrors,
+} from '../../../core';
+
+const promptCapacityCreditMintOptions =
+  async (): Promise<CapacityCreditMintOptions> => {
+    const { requestsPerKilosecond, daysUntilUTCMidnightExpiration } =
+      await prompts([
+        {
+          type: 'number',
+          name: 'requestsPerKilosecond',
+          message: 'Enter the number of requests per kilosecond:',
+          initial: 10,
+          min: 1,
+        },
+        {
+          type: 'number',
+          name: 'daysUntilUTCMidnightExpiration',
+          message:
+            'Enter the number of days until the capacity credit expires:',
+          initial: 1,
+          min: 1,
+        },
+      ]);
+
+    if (
+      requestsPerKilosecond === undefined ||
+      daysUntilUTCMidnightExpiration === undefined
+    ) {
+      throw new LawCliError(
+        ManageCapacityCreditsErrors.MINT_CAPACITY_CREDIT_CANCELLED,
+        'Capacity credit minting cancelled.'
+      );
+    }
+
+    return { requestsPerKilosecond, daysUntilUTCMidnightExpiration };
+  };
+
+const promptCapacityCreditDelegation = async (
+  admin: Admin
+): Promise<{
+  capacityTokenId: string;
+  options: CapacityCreditDelegationAuthSigOptions;
+}> => {
+  const capacityCredits = (await admin.awAdmin.getCapacityCredits()).filter(
+    (capacityCredit) => !capacityCredit.isExpired
+  );
+  if (capacityCredits.length === 0) {
+    throw new LawCliError(
+      ManageCapacityCreditsErrors.NO_CAPACITY_CREDITS,
+      'No unexpired capacity credits found. Please mint a capacity credit first.'
+    );
+  }
+
+  const { capacityTokenId, delegateeAddresses, uses, expiration } =
+    await prompts([
+      {
+        type: 'select',
+        name: 'capacityTokenId',
+        message: 'Select a capacity credit to delegate:',
+        choices: capacityCredits.map((capacityCredit) => ({
+          title: capacityCredit.capacityTokenId,
+          description: `${capacityCredit.requestsPerKilosecond} requests per kilosecond, expires at ${capacityCredit.expiresAt}`,
+          value: capacityCredit.capacityTokenId,
+        })),
+      },
+      {
+        type: 'text',
+        name: 'delegateeAddresses',
+        message: 'Enter the delegatee addresses (comma-separated):',
+        validate: (value: string) =>
+          value
+            .split(',')
+            .every((address) => /^0x[a-fA-F0-9]{40}$/.test(address.trim())) ||
+          'Please enter valid Ethereum addresses',
+      },
+      {
+        type: 'text',
+        name: 'uses',
+        message: 'Enter the number of uses allowed (leave empty for no limit):',
+        validate: (value: string) =>
+          value === '' ||
+          /^[1-9][0-9]*$/.test(value) ||
+          'Please enter a positive integer',
+      },
+      {
+        type: 'text',
+        name: 'expiration',
+        message:
+          'Enter the expiration of the delegation as an ISO date (leave empty to expire with the capacity credit):',
+        validate: (value: string) =>
+          value === '' ||
+          !isNaN(new Date(value).getTime()) ||
+          'Please enter a valid date, e.g. 2025-01-31T00:00:00Z',
+      },
+    ]);
+
+  if (
+    !capacityTokenId ||
+    !delegateeAddresses ||
+    uses === undefined ||
+    expiration === undefined
+  ) {
+    throw new LawCliError(
+      ManageCapacityCreditsErrors.DELEGATE_CAPACITY_CREDIT_CANCELLED,
+      'Capacity credit delegation cancelled.'
+    );
+  }
+
+  return {
+    capacityTokenId,
+    options: {
+      delegateeAddresses: (delegateeAddresses as string)
+        .split(',')
+        .map((address) => address.trim()),
+      uses: uses === '' ? undefined : uses,
+      expiration: expiration === '' ? undefined : expiration,
+    },
+  };
+};
+
+export const handleGetCapacityCredits = async (admin: Admin) => {
+  const capacityCredits = await admin.awAdmin.getCapacityCredits();
+  if (capacityCredits.length === 0) {
+    logger.log('No capacity credits found.');
+    return;
+  }
+
+  logger.info('Capacity Credits:');
+  capacityCredits.forEach((capacityCredit) => {
+    logger.log(`Token ID: ${capacityCredit.capacityTokenId}`);
+    logger.log(
+      `Requests per Kilosecond: ${capacityCredit.requestsPerKilosecond}`
+    );
+    logger.log(
+      `Expires At: ${capacityCredit.expiresAt}${
+        capacityCredit.isExpired ? ' (expired)' : ''
+      }`
+    );
+    logger.log('---');
+  });
+};
+
+export const handleMintCapacityCredit = async (admin: Admin) => {
+  try {
+    const options = await promptCapacityCreditMintOptions();
+
+    logger.loading('Minting capacity credit...');
+    const capacityCredit = await admin.awAdmin.mintCapacityCredit(options);
+    logger.success(
+      `Successfully minted capacity credit ${capacityCredit.capacityTokenId}, expiring at ${capacityCredit.expiresAt}.`
+    );
+  } catch (error) {
+    if (error instanceof LawCliError) {
+      if (
+        error.type ===
+        ManageCapacityCreditsErrors.MINT_CAPACITY_CREDIT_CANCELLED
+      ) {
+        logger.error(error.message);
+        return;
+      }
+    }
+    throw error;
+  }
+};
+
+export const handleDelegateCapacityCredit = async (admin: Admin) => {
+  try {
+    const { capacityTokenId, options } = await promptCapacityCreditDelegation(
+      admin
+    );
+
+    const capacityDelegation = await admin.awAdmin.delegateCapacityCredit(
+      capacityTokenId,
+      options
+    );
+    logger.success(
+      `Successfully delegated capacity credit ${capacityTokenId} until ${capacityDelegation.expiration}.`
+    );
+    logger.info(
+      'Share the following delegation with the delegatees, to use under "Manage Capacity Credits" in their menu:'
+    );
+    logger.log(JSON.stringify(capacityDelegation));
+  } catch (error) {
+    if (error instanceof LawCliError) {
+      if (
+        error.type === ManageCapacityCreditsErrors.NO_CAPACITY_CREDITS ||
+        error.type ===
+          ManageCapacityCreditsErrors.DELEGATE_CAPACITY_CREDIT_CANCELLED
+      ) {
+        logger.error(error.message);
+        return;
+      }
+    }
+    throw error;
+  }
+};
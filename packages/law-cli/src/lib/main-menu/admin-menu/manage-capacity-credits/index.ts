@@ -0,0 +1,9 @@
+export {
+  handleManageCapacityCreditsMenu,
+  ManageCapacityCreditsMenuChoice,
+} from './menu';
+export {
+  handleGetCapacityCredits,
+  handleMintCapacityCredit,
+  handleDelegateCapacityCredit,
+} from './handlers';
@@ -0,0 +1,50 @@
+import prompts from 'prompts';
+
+import { GeneralErrors, LawCliError } from '../../../core';
+
+export enum ManageCapacityCreditsMenuChoice {
+  GetCapacityCredits = 'getCapacityCredits',
+  MintCapacityCredit = 'mintCapacityCredit',
+  DelegateCapacityCredit = 'delegateCapacityCredit',
+  Back = 'back',
+}
+
+const choices = [
+  {
+    title: 'Get Capacity Credits',
+    value: ManageCapacityCreditsMenuChoice.GetCapacityCredits,
+  },
+  {
+    title: 'Mint New Capacity Credit',
+    value: ManageCapacityCreditsMenuChoice.MintCapacityCredit,
+  },
+  {
+    title: 'Delegate Capacity Credit to Delegatees',
+    description:
+      'Let delegatees pay for their tool executions with a capacity credit of the Admin',
+    value: ManageCapacityCreditsMenuChoice.DelegateCapacityCredit,
+  },
+  {
+    title: 'Back',
+    value: ManageCapacityCreditsMenuChoice.Back,
+  },
+];
+
+export const handleManageCapacityCreditsMenu =
+  async (): Promise<ManageCapacityCreditsMenuChoice> => {
+    const { option } = await prompts({
+      type: 'select',
+      name: 'option',
+      message: 'What would you like to do?',
+      choices,
+    });
+
+    if (!option) {
+      throw new LawCliError(
+        GeneralErrors.NO_ACTION_SELECTED,
+        'No action selected.'
+      );
+    }
+
+    return option;
+  };
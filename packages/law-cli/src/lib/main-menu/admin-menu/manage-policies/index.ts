@@ -8,3 +8,6 @@ export { handleDisablePolicy } from './disable-policy';
 export { handleGetToolPolicyParameter } from './get-tool-policy-parameter';
 export { handleSetToolPolicyParameter } from './set-tool-policy-parameter';
 export { handleRemoveToolPolicyParameter } from './remove-tool-policy-parameter';
+export { handleSetGasFeeCeiling } from './set-gas-fee-ceiling';
+export { handleSetBlanketPolicy } from './set-blanket-policy';
+export { handleRemoveBlanketPolicy } from './remove-blanket-policy';
@@ -12,6 +12,9 @@ export enum ManagePoliciesMenuChoice {
   GetPolicyParameter = 'getPolicyParameter',
   SetPolicyParameter = 'setPolicyParameter',
   RemovePolicyParameter = 'removePolicyParameter',
+  SetGasFeeCeiling = 'setGasFeeCeiling',
+  SetBlanketPolicy = 'setBlanketPolicy',
+  RemoveBlanketPolicy = 'removeBlanketPolicy',
   Back = 'back',
 }
 
@@ -52,6 +55,18 @@ const choices = [
     title: 'Remove Policy Parameters for a Delegatee',
     value: ManagePoliciesMenuChoice.RemovePolicyParameter,
   },
+  {
+    title: 'Set Gas Fee Ceiling for a Delegatee',
+    value: ManagePoliciesMenuChoice.SetGasFeeCeiling,
+  },
+  {
+    title: 'Set Blanket Policy for All Delegatees',
+    value: ManagePoliciesMenuChoice.SetBlanketPolicy,
+  },
+  {
+    title: 'Remove Blanket Policy for All Delegatees',
+    value: ManagePoliciesMenuChoice.RemoveBlanketPolicy,
+  },
   {
     title: 'Back',
     value: ManagePoliciesMenuChoice.Back,
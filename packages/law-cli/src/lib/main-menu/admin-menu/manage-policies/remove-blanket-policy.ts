@@ -0,0 +1,110 @@
+import prompts from 'prompts';
+import type { PkpInfo, ToolMetadata } from '@lit-protocol/agent-wallet';
+
+import { Admin } from '../admin';
+import { LawCliError, logger, RemoveBlanketPolicyErrors } from '../../../core';
+
+const promptSelectToolWithBlanketPolicy = async (
+  toolsWithBlanketPolicy: { tool: ToolMetadata; policyIpfsCid: string }[]
+): Promise<ToolMetadata> => {
+  if (toolsWithBlanketPolicy.length === 0) {
+    throw new LawCliError(
+      RemoveBlanketPolicyErrors.NO_BLANKET_POLICIES_FOUND,
+      'No tools with blanket policies found.'
+    );
+  }
+
+  const { tool } = await prompts({
+    type: 'select',
+    name: 'tool',
+    message: 'Select a tool to remove the blanket policy from:',
+    choices: toolsWithBlanketPolicy.map(({ tool, policyIpfsCid }) => ({
+      title: tool.name,
+      description: `Policy: ${policyIpfsCid}`,
+      value: tool,
+    })),
+  });
+
+  if (!tool) {
+    throw new LawCliError(
+      RemoveBlanketPolicyErrors.REMOVE_BLANKET_POLICY_CANCELLED,
+      'Tool selection cancelled.'
+    );
+  }
+
+  return tool;
+};
+
+export const handleRemoveBlanketPolicy = async (
+  admin: Admin,
+  pkp: PkpInfo
+): Promise<void> => {
+  try {
+    const registeredTools =
+      await admin.awAdmin.getRegisteredToolsAndDelegateesForPkp(
+        pkp.info.tokenId
+      );
+
+    const toolsWithBlanketPolicy = [];
+    for (const tool of [
+      ...Object.values(registeredTools.toolsWithPolicies),
+      ...Object.values(registeredTools.toolsWithoutPolicies),
+    ]) {
+      const { policyIpfsCid } = await admin.awAdmin.getBlanketToolPolicy(
+        pkp.info.tokenId,
+        tool.ipfsCid
+      );
+      if (policyIpfsCid !== '') {
+        toolsWithBlanketPolicy.push({ tool, policyIpfsCid });
+      }
+    }
+
+    const selectedTool = await promptSelectToolWithBlanketPolicy(
+      toolsWithBlanketPolicy
+    );
+
+    const { confirmed } = await prompts({
+      type: 'confirm',
+      name: 'confirmed',
+      message: `Are you sure you want to remove the blanket policy and its parameters for tool ${selectedTool.name}?`,
+      initial: false,
+    });
+
+    if (!confirmed) {
+      throw new LawCliError(
+        RemoveBlanketPolicyErrors.REMOVE_BLANKET_POLICY_CANCELLED,
+        'Blanket policy removal cancelled.'
+      );
+    }
+
+    try {
+      logger.loading('Removing blanket policy...');
+      await admin.awAdmin.removeBlanketToolPolicy(
+        pkp.info.tokenId,
+        selectedTool.ipfsCid
+      );
+    } catch (err: any) {
+      throw new LawCliError(
+        RemoveBlanketPolicyErrors.FAILED,
+        `Failed to remove blanket policy: ${err.message}`
+      );
+    }
+
+    logger.success(
+      `Blanket policy removed successfully for tool ${selectedTool.name}.`
+    );
+  } catch (error) {
+    if (error instanceof LawCliError) {
+      if (
+        error.type === RemoveBlanketPolicyErrors.NO_BLANKET_POLICIES_FOUND ||
+        error.type ===
+          RemoveBlanketPolicyErrors.REMOVE_BLANKET_POLICY_CANCELLED ||
+        error.type === RemoveBlanketPolicyErrors.FAILED
+      ) {
+        logger.error(error.message);
+        return;
+      }
+    }
+    throw error;
+  }
+};
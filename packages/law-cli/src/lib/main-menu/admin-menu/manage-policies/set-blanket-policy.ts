@@ -0,0 +1,155 @@
+import prompts from 'prompts';
+import type {
+  PkpInfo,
+  RegisteredToolsResult,
+  ToolMetadata,
+} from '@lit-protocol/agent-wallet';
+
+import { Admin } from '../admin';
+import { LawCliError, logger, SetBlanketPolicyErrors } from '../../../core';
+
+const promptSelectToolForBlanketPolicy = async (
+  registeredTools: RegisteredToolsResult
+): Promise<ToolMetadata> => {
+  const tools: ToolMetadata[] = [
+    ...Object.values(registeredTools.toolsWithPolicies),
+    ...Object.values(registeredTools.toolsWithoutPolicies),
+  ];
+
+  if (tools.length === 0) {
+    throw new LawCliError(
+      SetBlanketPolicyErrors.NO_TOOLS_FOUND,
+      'No tools are currently registered.'
+    );
+  }
+
+  const { tool } = await prompts({
+    type: 'select',
+    name: 'tool',
+    message: 'Select a tool to set the blanket policy for:',
+    choices: tools.map((tool) => ({
+      title: tool.name,
+      value: tool,
+    })),
+  });
+
+  if (!tool) {
+    throw new LawCliError(
+      SetBlanketPolicyErrors.SET_BLANKET_POLICY_CANCELLED,
+      'Tool selection cancelled.'
+    );
+  }
+
+  return tool;
+};
+
+const promptBlanketPolicyDetails = async () => {
+  const { policyIpfsCid } = await prompts({
+    type: 'text',
+    name: 'policyIpfsCid',
+    message: 'Enter the IPFS CID of the policy:',
+    validate: (value) => !!value || 'Policy IPFS CID is required',
+  });
+
+  if (!policyIpfsCid) {
+    throw new LawCliError(
+      SetBlanketPolicyErrors.SET_BLANKET_POLICY_CANCELLED,
+      'No policy IPFS CID provided. Operation cancelled.'
+    );
+  }
+
+  const { enablePolicy } = await prompts({
+    type: 'confirm',
+    name: 'enablePolicy',
+    message: 'Enable policy after setting?',
+    initial: true,
+  });
+
+  if (enablePolicy === undefined) {
+    throw new LawCliError(
+      SetBlanketPolicyErrors.SET_BLANKET_POLICY_CANCELLED,
+      'Enable policy selection cancelled.'
+    );
+  }
+
+  return { policyIpfsCid, enablePolicy };
+};
+
+export const handleSetBlanketPolicy = async (
+  admin: Admin,
+  pkp: PkpInfo
+): Promise<void> => {
+  try {
+    const registeredTools =
+      await admin.awAdmin.getRegisteredToolsAndDelegateesForPkp(
+        pkp.info.tokenId
+      );
+
+    const selectedTool = await promptSelectToolForBlanketPolicy(
+      registeredTools
+    );
+
+    const existingPolicy = await admin.awAdmin.getBlanketToolPolicy(
+      pkp.info.tokenId,
+      selectedTool.ipfsCid
+    );
+    if (existingPolicy.policyIpfsCid !== '') {
+      const { replace } = await prompts({
+        type: 'confirm',
+        name: 'replace',
+        message: `Replace the existing blanket policy ${existingPolicy.policyIpfsCid} and its parameters?`,
+        initial: false,
+      });
+
+      if (!replace) {
+        throw new LawCliError(
+          SetBlanketPolicyErrors.SET_BLANKET_POLICY_CANCELLED,
+          'Blanket policy setting cancelled.'
+        );
+      }
+    }
+
+    const { policyIpfsCid, enablePolicy } = await promptBlanketPolicyDetails();
+
+    try {
+      if (existingPolicy.policyIpfsCid !== '') {
+        logger.loading('Removing existing blanket policy...');
+        await admin.awAdmin.removeBlanketToolPolicy(
+          pkp.info.tokenId,
+          selectedTool.ipfsCid
+        );
+      }
+
+      logger.loading('Setting blanket policy...');
+      await admin.awAdmin.setBlanketToolPolicy(
+        pkp.info.tokenId,
+        selectedTool.ipfsCid,
+        policyIpfsCid,
+        enablePolicy
+      );
+    } catch (err: any) {
+      throw new LawCliError(
+        SetBlanketPolicyErrors.FAILED,
+        `Failed to set blanket policy: ${err.message}`
+      );
+    }
+
+    logger.success(
+      `Blanket policy set successfully for tool ${selectedTool.name}${
+        enablePolicy ? ' and enabled' : ''
+      }.`
+    );
+  } catch (error) {
+    if (error instanceof LawCliError) {
+      if (
+        error.type === SetBlanketPolicyErrors.NO_TOOLS_FOUND ||
+        error.type === SetBlanketPolicyErrors.SET_BLANKET_POLICY_CANCELLED ||
+        error.type === SetBlanketPolicyErrors.FAILED
+      ) {
+        logger.error(error.message);
+        return;
+      }
+    }
+    throw error;
+  }
+};
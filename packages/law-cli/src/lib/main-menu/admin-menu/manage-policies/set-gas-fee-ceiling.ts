@@ -0,0 +1,226 @@
+import prompts from 'prompts';
+import {
+  GasFeeCeilingSchema,
+  MAX_FEE_PER_GAS_GWEI_POLICY_PARAMETER,
+  MAX_TOTAL_GAS_COST_WEI_POLICY_PARAMETER,
+  type PkpInfo,
+  type RegisteredToolWithPolicies,
+} from '@lit-protocol/agent-wallet';
+import { ethers } from 'ethers';
+
+import { Admin } from '../admin';
+import { LawCliError, logger, SetGasFeeCeilingErrors } from '../../../core';
+
+const GAS_FEE_CEILING_PARAMETERS = [
+  MAX_FEE_PER_GAS_GWEI_POLICY_PARAMETER,
+  MAX_TOTAL_GAS_COST_WEI_POLICY_PARAMETER,
+];
+
+const promptSelectToolForGasFeeCeiling = async (
+  tools: RegisteredToolWithPolicies[]
+): Promise<RegisteredToolWithPolicies> => {
+  if (tools.length === 0) {
+    throw new LawCliError(
+      SetGasFeeCeilingErrors.NO_EVM_TOOLS_WITH_POLICIES,
+      'No EVM tools with policies found.'
+    );
+  }
+
+  const { tool } = await prompts({
+    type: 'select',
+    name: 'tool',
+    message: 'Select a tool to set the gas fee ceiling for:',
+    choices: tools.map((tool) => ({
+      title: tool.name,
+      description: `${Object.keys(tool.delegateePolicies).length} policies`,
+      value: tool,
+    })),
+  });
+
+  if (!tool) {
+    throw new LawCliError(
+      SetGasFeeCeilingErrors.SET_CANCELLED,
+      'Gas fee ceiling setting cancelled.'
+    );
+  }
+
+  return tool;
+};
+
+const promptSelectDelegateeForGasFeeCeiling = async (
+  delegatees: string[]
+): Promise<string> => {
+  if (delegatees.length === 0) {
+    throw new LawCliError(
+      SetGasFeeCeilingErrors.NO_DELEGATEES,
+      'No delegatees found.'
+    );
+  }
+
+  const { delegatee } = await prompts({
+    type: 'select',
+    name: 'delegatee',
+    message: 'Select a delegatee to set the gas fee ceiling for:',
+    choices: delegatees.map((delegatee) => ({
+      title: delegatee,
+      value: delegatee,
+    })),
+  });
+
+  if (!delegatee) {
+    throw new LawCliError(
+      SetGasFeeCeilingErrors.SET_CANCELLED,
+      'Gas fee ceiling setting cancelled.'
+    );
+  }
+
+  return delegatee;
+};
+
+const promptGasFeeCeiling = async (existingCeiling: Record<string, string>) => {
+  const { maxFeePerGasGwei, maxTotalGasCostWei } = await prompts([
+    {
+      type: 'text',
+      name: 'maxFeePerGasGwei',
+      message:
+        'Enter the max fee per gas of each transaction in gwei (leave empty for no ceiling):',
+      initial: existingCeiling[MAX_FEE_PER_GAS_GWEI_POLICY_PARAMETER] ?? '',
+    },
+    {
+      type: 'text',
+      name: 'maxTotalGasCostWei',
+      message:
+        'Enter the max total gas cost of an execution in wei (leave empty for no ceiling):',
+      initial: existingCeiling[MAX_TOTAL_GAS_COST_WEI_POLICY_PARAMETER] ?? '',
+    },
+  ]);
+
+  if (maxFeePerGasGwei === undefined || maxTotalGasCostWei === undefined) {
+    throw new LawCliError(
+      SetGasFeeCeilingErrors.SET_CANCELLED,
+      'Gas fee ceiling setting cancelled.'
+    );
+  }
+
+  const result = GasFeeCeilingSchema.safeParse({
+    ...(maxFeePerGasGwei.trim() && {
+      [MAX_FEE_PER_GAS_GWEI_POLICY_PARAMETER]: maxFeePerGasGwei.trim(),
+    }),
+    ...(maxTotalGasCostWei.trim() && {
+      [MAX_TOTAL_GAS_COST_WEI_POLICY_PARAMETER]: maxTotalGasCostWei.trim(),
+    }),
+  });
+  if (!result.success) {
+    throw new LawCliError(
+      SetGasFeeCeilingErrors.INVALID_CEILING,
+      `Invalid gas fee ceiling: ${result.error.issues
+        .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+        .join(', ')}`
+    );
+  }
+
+  return result.data;
+};
+
+const setGasFeeCeiling = async (
+  admin: Admin,
+  pkp: PkpInfo,
+  tool: RegisteredToolWithPolicies,
+  delegatee: string
+): Promise<void> => {
+  const existingParameters: { name: string; value: string }[] =
+    await admin.awAdmin.getToolPolicyParametersForDelegatee(
+      pkp.info.tokenId,
+      tool.ipfsCid,
+      delegatee,
+      GAS_FEE_CEILING_PARAMETERS
+    );
+  const existingCeiling: Record<string, string> = Object.fromEntries(
+    existingParameters.map(({ name, value }) => [
+      name,
+      ethers.utils.toUtf8String(value),
+    ])
+  );
+
+  const ceiling: Record<string, string | undefined> = await promptGasFeeCeiling(
+    existingCeiling
+  );
+
+  try {
+    // Parameters can't be overwritten on-chain, so existing ones are removed first
+    if (existingParameters.length > 0) {
+      await admin.awAdmin.removeToolPolicyParametersForDelegatee(
+        pkp.info.tokenId,
+        tool.ipfsCid,
+        delegatee,
+        existingParameters.map(({ name }) => name)
+      );
+    }
+
+    const parameterNames = GAS_FEE_CEILING_PARAMETERS.filter(
+      (name) => ceiling[name] !== undefined
+    );
+    if (parameterNames.length === 0) {
+      logger.success(
+        `Removed the gas fee ceiling for tool ${tool.name} and delegatee ${delegatee}`
+      );
+      return;
+    }
+
+    await admin.awAdmin.setToolPolicyParametersForDelegatee(
+      pkp.info.tokenId,
+      tool.ipfsCid,
+      delegatee,
+      parameterNames,
+      parameterNames.map((name) =>
+        ethers.utils.toUtf8Bytes(ceiling[name] as string)
+      )
+    );
+
+    logger.success(
+      `Successfully set the gas fee ceiling for tool ${tool.name} and delegatee ${delegatee}`
+    );
+  } catch (err: any) {
+    throw new LawCliError(
+      SetGasFeeCeilingErrors.FAILED,
+      `Failed to set the gas fee ceiling: ${err.message}`
+    );
+  }
+};
+
+export const handleSetGasFeeCeiling = async (
+  admin: Admin,
+  pkp: PkpInfo
+): Promise<void> => {
+  try {
+    const registeredTools =
+      await admin.awAdmin.getRegisteredToolsAndDelegateesForPkp(
+        pkp.info.tokenId
+      );
+
+    const selectedTool = await promptSelectToolForGasFeeCeiling(
+      Object.values(registeredTools?.toolsWithPolicies ?? {}).filter(
+        (tool) => tool.chain === 'ethereum'
+      )
+    );
+    const selectedDelegatee = await promptSelectDelegateeForGasFeeCeiling(
+      selectedTool.delegatees
+    );
+
+    await setGasFeeCeiling(admin, pkp, selectedTool, selectedDelegatee);
+  } catch (error) {
+    if (error instanceof LawCliError) {
+      if (
+        error.type === SetGasFeeCeilingErrors.NO_EVM_TOOLS_WITH_POLICIES ||
+        error.type === SetGasFeeCeilingErrors.NO_DELEGATEES ||
+        error.type === SetGasFeeCeilingErrors.SET_CANCELLED ||
+        error.type === SetGasFeeCeilingErrors.INVALID_CEILING ||
+        error.type === SetGasFeeCeilingErrors.FAILED
+      ) {
+        logger.error(error.message);
+        return;
+      }
+    }
+    throw error;
+  }
+};
@@ -135,6 +135,10 @@ const promptPolicyParameter = async (
         value: 'string[]',
       },
       { title: 'Boolean - True/False', value: 'boolean' },
+      {
+        title: 'JSON - Object or Array (e.g. EIP-712 domains)',
+        value: 'json',
+      },
     ],
   });
 
@@ -200,6 +204,9 @@ const promptPolicyParameter = async (
         }
         processedValue = parameterValue.toLowerCase() === 'true';
         break;
+      case 'json':
+        processedValue = JSON.parse(parameterValue);
+        break;
       default:
         throw new Error('Unsupported parameter type');
     }
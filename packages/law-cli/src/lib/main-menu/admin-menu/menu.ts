@@ -11,6 +11,8 @@ export enum AdminMenuChoice {
   ManagePolicies = 'managePolicies',
   ManageDelegatees = 'manageDelegatees',
   ManageWrappedKeys = 'manageWrappedKeys',
+  ManageCapacityCredits = 'manageCapacityCredits',
+  ViewHistory = 'viewHistory',
   Back = 'back',
 }
 
@@ -62,6 +64,17 @@ const promptAdminMenu = async (
         value: AdminMenuChoice.ManageWrappedKeys,
         disabled: disableManageOptions,
       },
+      {
+        title: 'Manage Capacity Credits',
+        value: AdminMenuChoice.ManageCapacityCredits,
+        disabled: disableManageOptions,
+      },
+      {
+        title: 'History',
+        description: 'View the history of registry changes to the Agent Wallet',
+        value: AdminMenuChoice.ViewHistory,
+        disabled: disableManageOptions,
+      },
       { title: 'Back', value: AdminMenuChoice.Back },
     ],
   });
@@ -0,0 +1,48 @@
+import type { PkpInfo } from '@lit-protocol/agent-wallet';
+
+import type { Admin } from './admin';
+import { logger } from '../../core';
+
+const formatValue = (value: string | null | undefined) =>
+  value === null || value === undefined ? '(unset)' : value;
+
+export const handleViewHistory = async (
+  admin: Admin,
+  pkp: PkpInfo
+): Promise<void> => {
+  logger.loading('Indexing registry events...');
+  const entries = await admin.awAdmin.getAuditLog(pkp.info.tokenId);
+
+  if (entries.length === 0) {
+    logger.info('No registry changes found.');
+    return;
+  }
+
+  logger.info(`History of ${pkp.info.ethAddress}:`);
+  entries.forEach((entry) => {
+    logger.log(
+      `  ${new Date(entry.timestamp * 1000).toISOString()} ${entry.event} by ${
+        entry.sender
+      } (tx ${entry.transactionHash})`
+    );
+    if (entry.toolIpfsCid !== undefined) {
+      logger.log(`      Tool: ${entry.toolIpfsCid}`);
+    }
+    if (entry.delegatee !== undefined) {
+      logger.log(`      Delegatee: ${entry.delegatee}`);
+    }
+    if (entry.enabled !== undefined) {
+      logger.log(`      Enabled: ${entry.enabled}`);
+    }
+    if (entry.parameterName !== undefined) {
+      logger.log(`      Parameter: ${entry.parameterName}`);
+    }
+    if (entry.value !== undefined) {
+      logger.log(
+        `      Value: ${formatValue(entry.previousValue)} -> ${formatValue(
+          entry.value
+        )}`
+      );
+    }
+  });
+};
@@ -3,3 +3,4 @@ export {
   handleConfigureDelegateeSignerMenu,
 } from './menu';
 export { handleUseEoaForDelegatee } from './use-eoa';
+export { handleUseExternalSignerForDelegatee } from './use-external-signer';
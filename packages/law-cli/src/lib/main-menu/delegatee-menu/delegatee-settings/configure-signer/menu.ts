@@ -4,6 +4,7 @@ import { LawCliError, GeneralErrors, logger } from '../../../../core';
 
 export enum DelegateeConfigureSignerMenuChoice {
   UseEoa = 'useEoa',
+  UseExternalSigner = 'useExternalSigner',
   UseMultiSig = 'useMultiSig',
   UsePkp = 'usePkp',
   Back = 'back',
@@ -11,12 +12,14 @@ export enum DelegateeConfigureSignerMenuChoice {
 
 export enum AdminSignerType {
   Eoa = 'eoa',
+  ExternalSigner = 'externalSigner',
   MultiSig = 'multiSig',
   Pkp = 'pkp',
 }
 
 export enum DelegateeSignerType {
   Eoa = 'eoa',
+  ExternalSigner = 'externalSigner',
   Pkp = 'pkp',
 }
 
@@ -31,6 +34,10 @@ const promptConfigureSignerMenu =
           title: 'Use EOA',
           value: DelegateeConfigureSignerMenuChoice.UseEoa,
         },
+        {
+          title: 'Use External Signer',
+          value: DelegateeConfigureSignerMenuChoice.UseExternalSigner,
+        },
         {
           title: 'Use Pkp',
           value: DelegateeConfigureSignerMenuChoice.UsePkp,
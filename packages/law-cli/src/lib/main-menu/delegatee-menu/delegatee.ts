@@ -5,6 +5,7 @@ import {
   LitNetwork,
   type IntentMatcher,
 } from '@lit-protocol/agent-wallet';
+import type { ethers } from 'ethers';
 import { LocalStorage } from 'node-localstorage';
 
 import { logger } from '../../core';
@@ -28,18 +29,20 @@ export class Delegatee {
    * Handles errors related to missing private keys or insufficient balances by prompting the user for input.
    *
    * @param litNetwork - The Lit network to use for the Delegatee role.
-   * @param privateKey - Optional. The private key for the Delegatee role.
+   * @param privateKeyOrSigner - The private key for the Delegatee role, or an external signer.
    * @returns A promise that resolves to an instance of the `AwDelegatee` class.
    * @throws If initialization fails, the function logs an error and exits the process.
    */
   private static async createAwDelegatee(
     litNetwork: LitNetwork,
-    privateKey: string
+    privateKeyOrSigner: string | ethers.Signer
   ): Promise<AwDelegatee> {
     let awDelegatee: AwDelegatee;
     try {
       // Attempt to create the AwDelegatee instance.
-      awDelegatee = await AwDelegatee.create(privateKey, { litNetwork });
+      awDelegatee = await AwDelegatee.create(privateKeyOrSigner, {
+        litNetwork,
+      });
     } catch (error) {
       // Handle specific errors related to missing private keys or insufficient balances.
       if (error instanceof AwSignerError) {
@@ -57,7 +60,7 @@ export class Delegatee {
           // Prompt the user to fund the account if the balance is insufficient.
           const hasFunded = await promptDelegateeInsufficientBalance();
           if (hasFunded) {
-            return Delegatee.createAwDelegatee(litNetwork, privateKey);
+            return Delegatee.createAwDelegatee(litNetwork, privateKeyOrSigner);
           }
         }
       }
@@ -72,12 +75,12 @@ export class Delegatee {
 
   public static async create(
     litNetwork: LitNetwork,
-    privateKey: string,
+    privateKeyOrSigner: string | ethers.Signer,
     intentMatcher?: IntentMatcher
   ) {
     const awDelegatee = await Delegatee.createAwDelegatee(
       litNetwork,
-      privateKey
+      privateKeyOrSigner
     );
     const delegatee = new Delegatee(awDelegatee);
     delegatee.intentMatcher = intentMatcher ?? null;
@@ -0,0 +1,57 @@
+import {
+  ToolExecutionError,
+  type AwTool,
+  type DelegatedPkpInfo,
+} from '@lit-protocol/agent-wallet';
+
+import { Delegatee } from './delegatee';
+import { getToolCredentials } from './get-tool-credentials';
+import { logToolTransactions } from './log-tool-transactions';
+import { logger } from '../../core';
+
+/**
+ * Executes a tool for a PKP, and logs its typed result or the reported failure.
+ */
+export const executeAndLogTool = async (
+  delegatee: Delegatee,
+  pkp: DelegatedPkpInfo,
+  tool: AwTool<any, any>,
+  params: Record<string, any>
+) => {
+  try {
+    const credentials = await getToolCredentials(delegatee, tool);
+    const { result, logs } = await delegatee.awDelegatee.executeTool(
+      {
+        ipfsId: tool.ipfsCid,
+        jsParams: {
+          params: { ...params, ...credentials },
+        },
+      },
+      tool
+    );
+
+    logger.success(`${tool.name} executed for PKP ${pkp.ethAddress}`);
+    Object.entries(result).forEach(([key, value]) => {
+      logger.log(`  ${key}: ${value}`);
+    });
+    if (logs) {
+      logger.info('Lit Action logs:');
+      logger.log(logs);
+    }
+
+    await logToolTransactions(delegatee, tool, params, result);
+  } catch (error) {
+    if (error instanceof ToolExecutionError) {
+      logger.error(error.message);
+      if (error.details) {
+        logger.log(JSON.stringify(error.details, null, 2));
+      }
+      if (error.logs) {
+        logger.info('Lit Action logs:');
+        logger.log(error.logs);
+      }
+      return;
+    }
+    throw error;
+  }
+};
@@ -4,6 +4,7 @@ import prompts from 'prompts';
 import { Delegatee } from './delegatee';
 import { LawCliError, logger, DelegateeErrors, LocalStorage } from '../../core';
 import { getToolParams } from './get-tool-params';
+import { executeAndLogTool } from './execute-and-log-tool';
 
 /**
  * Prompts the user to enter their intent for finding a matching tool.
@@ -81,15 +82,12 @@ export const handleExecuteToolViaIntent = async (
 
     // Execute the tool
     logger.loading('Executing tool...');
-    const response = await delegatee.awDelegatee.executeTool({
-      ipfsId: intentMatcherResponse.matchedTool.ipfsCid,
-      jsParams: {
-        params,
-      },
-    });
-
-    logger.info('Tool executed');
-    logger.log(JSON.stringify(response, null, 2));
+    await executeAndLogTool(
+      delegatee,
+      pkp,
+      intentMatcherResponse.matchedTool,
+      params
+    );
   } catch (error) {
     if (error instanceof LawCliError) {
       if (error.type === DelegateeErrors.GET_TOOL_VIA_INTENT_CANCELLED) {
@@ -104,6 +102,10 @@ export const handleExecuteToolViaIntent = async (
         logger.error(error.message);
         return;
       }
+      if (error.type === DelegateeErrors.TOOL_CREDENTIALS_CANCELLED) {
+        logger.error('Tool credential input cancelled');
+        return;
+      }
     }
     throw error;
   }
@@ -5,6 +5,8 @@ import { Delegatee } from './delegatee';
 import { LawCliError, logger, LocalStorage } from '../../core';
 import { DelegateeErrors } from '../../core/law-cli-error';
 import { getToolParams } from './get-tool-params';
+import { executeAndLogTool } from './execute-and-log-tool';
+import { simulateAndLogTool } from './simulate-and-log-tool';
 
 /**
  * Prompts the user to select a tool from a list of available tools.
@@ -89,14 +91,14 @@ const promptSelectWrappedKey = async (wrappedKeys: any[], pkpAddress: string) =>
 };
 
 /**
- * Handles the process of executing a tool.
- * This function displays available tools, prompts for tool selection and parameters,
- * and executes the selected tool with the provided parameters.
+ * Displays available tools, prompts for tool selection and parameters,
+ * and runs the selected tool with the provided parameters.
  */
-export const handleExecuteTool = async (
+const selectAndRunTool = async (
   localStorage: LocalStorage,
   delegatee: Delegatee,
-  pkp: DelegatedPkpInfo
+  pkp: DelegatedPkpInfo,
+  runTool: (tool: AwTool<any, any>, params: Record<string, any>) => Promise<void>
 ): Promise<void> => {
   try {
     // Get registered tools for the PKP
@@ -171,17 +173,7 @@ export const handleExecuteTool = async (
       // For non-Solana tools, just get the regular parameters
       params = await getToolParams(localStorage, selectedTool, pkp.ethAddress) as any; // Cast to any to allow adding accessControlConditions
     }
-    // Execute the tool
-    logger.info('Executing tool...');
-    const response = await delegatee.awDelegatee.executeTool({
-      ipfsId: selectedTool.ipfsCid,
-      jsParams: {
-        params,
-      },
-    });
-
-    logger.info('Tool executed');
-    logger.log(JSON.stringify(response, null, 2));
+    await runTool(selectedTool, params);
   } catch (error) {
     if (error instanceof LawCliError) {
       if (error.type === DelegateeErrors.NO_TOOLS_AVAILABLE) {
@@ -200,6 +192,10 @@ export const handleExecuteTool = async (
         logger.error(error.message);
         return;
       }
+      if (error.type === DelegateeErrors.TOOL_CREDENTIALS_CANCELLED) {
+        logger.error('Tool credential input cancelled');
+        return;
+      }
       if (error.type === DelegateeErrors.NO_WRAPPED_KEYS_AVAILABLE) {
         logger.error('No wrapped keys available');
         return;
@@ -212,3 +208,35 @@ export const handleExecuteTool = async (
     throw error;
   }
 };
+
+/**
+ * Handles the process of executing a tool.
+ * This function displays available tools, prompts for tool selection and parameters,
+ * and executes the selected tool with the provided parameters.
+ */
+export const handleExecuteTool = async (
+  localStorage: LocalStorage,
+  delegatee: Delegatee,
+  pkp: DelegatedPkpInfo
+): Promise<void> => {
+  await selectAndRunTool(localStorage, delegatee, pkp, async (tool, params) => {
+    logger.info('Executing tool...');
+    await executeAndLogTool(delegatee, pkp, tool, params);
+  });
+};
+
+/**
+ * Handles the process of simulating a tool.
+ * This function prompts for tool selection and parameters like `handleExecuteTool`, and checks
+ * whether the execution would pass the tool's policy without signing or broadcasting anything.
+ */
+export const handleSimulateTool = async (
+  localStorage: LocalStorage,
+  delegatee: Delegatee,
+  pkp: DelegatedPkpInfo
+): Promise<void> => {
+  await selectAndRunTool(localStorage, delegatee, pkp, async (tool, params) => {
+    logger.info('Simulating tool...');
+    await simulateAndLogTool(delegatee, pkp, tool, params);
+  });
+};
@@ -0,0 +1,63 @@
+import prompts from 'prompts';
+import { type AwTool } from '@lit-protocol/agent-wallet';
+
+import { LawCliError, DelegateeErrors } from '../../core';
+import { Delegatee } from './delegatee';
+
+/**
+ * Prompts the user for a credential required by a tool.
+ */
+const promptGetCredential = async (
+  tool: AwTool<any, any>,
+  credentialName: string
+): Promise<string> => {
+  const { value } = await prompts({
+    type: 'password',
+    name: 'value',
+    message: `Enter ${credentialName} for ${tool.name}:`,
+  });
+
+  if (!value) {
+    throw new LawCliError(
+      DelegateeErrors.TOOL_CREDENTIALS_CANCELLED,
+      `${credentialName} input cancelled`
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Retrieves the credentials required by a tool from the delegatee's stored credentials,
+ * prompting for and storing any that are missing.
+ * @param delegatee - The delegatee executing the tool.
+ * @param tool - The tool to get credentials for.
+ * @returns A promise that resolves to the tool's credentials, keyed by name.
+ */
+export const getToolCredentials = async (
+  delegatee: Delegatee,
+  tool: AwTool<any, any>
+): Promise<Record<string, string>> => {
+  if (!tool.requiredCredentialNames?.length) {
+    return {};
+  }
+
+  const { foundCredentials, missingCredentials } =
+    await delegatee.awDelegatee.getCredentials(tool.requiredCredentialNames);
+
+  const credentials: Record<string, string> = {
+    ...(foundCredentials as Record<string, string>),
+  };
+  for (const credentialName of missingCredentials) {
+    credentials[credentialName] = await promptGetCredential(
+      tool,
+      credentialName
+    );
+  }
+
+  if (missingCredentials.length > 0) {
+    await delegatee.awDelegatee.setCredentials(credentials);
+  }
+
+  return credentials;
+};
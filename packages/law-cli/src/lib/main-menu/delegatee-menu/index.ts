@@ -6,7 +6,8 @@ export { handleGetRegisteredTools } from './get-registered-tool';
 export { handleGetToolPolicyForDelegatee } from './get-tool-policy';
 export { handleGetToolViaIntent } from './get-tool-via-intent';
 export { handleGetIntentMatcher } from './get-intent-matcher';
-export { handleExecuteTool } from './execute-tool';
+export { handleExecuteTool, handleSimulateTool } from './execute-tool';
 export { handleExecuteToolViaIntent } from './execute-tool-via-intent';
 
 export * from './delegatee-settings';
+export * from './manage-capacity-credits';
@@ -0,0 +1,61 @@
+import {
+  AwSignerError,
+  describeTransactionStatus,
+  type AwTool,
+} from '@lit-protocol/agent-wallet';
+
+import { Delegatee } from './delegatee';
+import { logger } from '../../core';
+
+/**
+ * Waits for the transactions broadcast by a tool to be mined, and logs their final status.
+ * @param delegatee - The delegatee that executed the tool.
+ * @param tool - The executed tool.
+ * @param params - The parameters the tool was executed with, providing the RPC URL of the chain.
+ * @param result - The result of the tool, holding the transaction hashes.
+ */
+export const logToolTransactions = async (
+  delegatee: Delegatee,
+  tool: AwTool<any, any>,
+  params: Record<string, any>,
+  result: Record<string, unknown>
+) => {
+  if (!tool.transactionHashKeys?.length || typeof params.rpcUrl !== 'string') {
+    return;
+  }
+
+  for (const key of tool.transactionHashKeys) {
+    const txHash = result[key];
+    if (typeof txHash !== 'string') {
+      continue;
+    }
+
+    logger.loading(`Waiting for ${key} ${txHash} to be confirmed...`);
+    try {
+      const transactionStatus =
+        await delegatee.awDelegatee.waitForToolTransaction(
+          params.rpcUrl,
+          txHash
+        );
+
+      const description = describeTransactionStatus(transactionStatus);
+      switch (transactionStatus.status) {
+        case 'confirmed':
+          logger.success(description);
+          break;
+        case 'reverted':
+          logger.error(description);
+          break;
+        case 'pending':
+          logger.warn(description);
+          break;
+      }
+    } catch (error) {
+      if (error instanceof AwSignerError) {
+        logger.error(error.message);
+        continue;
+      }
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,169 @@
+import prompts from 'prompts';
+import type {
+  CapacityCreditDelegation,
+  CapacityCreditMintOptions,
+} from '@lit-protocol/agent-wallet';
+
+import type { Delegatee } from '../delegatee';
+import {
+  LawCliError,
+  logger,
+  ManageCapacityCreditsErrors,
+} from '../../../core';
+
+const promptCapacityCreditMintOptions =
+  async (): Promise<CapacityCreditMintOptions> => {
+    const { requestsPerKilosecond, daysUntilUTCMidnightExpiration } =
+      await prompts([
+        {
+          type: 'number',
+          name: 'requestsPerKilosecond',
+          message: 'Enter the number of requests per kilosecond:',
+          initial: 10,
+          min: 1,
+        },
+        {
+          type: 'number',
+          name: 'daysUntilUTCMidnightExpiration',
+          message:
+            'Enter the number of days until the capacity credit expires:',
+          initial: 1,
+          min: 1,
+        },
+      ]);
+
+    if (
+      requestsPerKilosecond === undefined ||
+      daysUntilUTCMidnightExpiration === undefined
+    ) {
+      throw new LawCliError(
+        ManageCapacityCreditsErrors.MINT_CAPACITY_CREDIT_CANCELLED,
+        'Capacity credit minting cancelled.'
+      );
+    }
+
+    return { requestsPerKilosecond, daysUntilUTCMidnightExpiration };
+  };
+
+const promptCapacityDelegation =
+  async (): Promise<CapacityCreditDelegation> => {
+    const { capacityDelegation } = await prompts({
+      type: 'text',
+      name: 'capacityDelegation',
+      message: 'Paste the capacity credit delegation shared by the Admin:',
+      validate: (value: string) => {
+        try {
+          const parsed = JSON.parse(value);
+          return (
+            (typeof parsed?.capacityTokenId === 'string' &&
+              Array.isArray(parsed?.delegateeAddresses) &&
+              typeof parsed?.capacityDelegationAuthSig === 'object') ||
+            'Please enter the delegation JSON shared by the Admin'
+          );
+        } catch {
+          return 'Please enter valid JSON';
+        }
+      },
+    });
+
+    if (!capacityDelegation) {
+      throw new LawCliError(
+        ManageCapacityCreditsErrors.USE_CAPACITY_DELEGATION_CANCELLED,
+        'Capacity credit delegation cancelled.'
+      );
+    }
+
+    return JSON.parse(capacityDelegation);
+  };
+
+export const handleGetCapacityCreditsForDelegatee = async (
+  delegatee: Delegatee
+) => {
+  const capacityDelegation = delegatee.awDelegatee.getCapacityDelegation();
+  if (capacityDelegation !== null) {
+    logger.info(
+      `Using capacity credit ${capacityDelegation.capacityTokenId} delegated by the Admin until ${capacityDelegation.expiration}.`
+    );
+  }
+
+  const capacityCredits = await delegatee.awDelegatee.getCapacityCredits();
+  if (capacityCredits.length === 0) {
+    logger.log('No capacity credits found.');
+    return;
+  }
+
+  logger.info('Capacity Credits:');
+  capacityCredits.forEach((capacityCredit) => {
+    logger.log(`Token ID: ${capacityCredit.capacityTokenId}`);
+    logger.log(
+      `Requests per Kilosecond: ${capacityCredit.requestsPerKilosecond}`
+    );
+    logger.log(
+      `Expires At: ${capacityCredit.expiresAt}${
+        capacityCredit.isExpired ? ' (expired)' : ''
+      }`
+    );
+    logger.log('---');
+  });
+};
+
+export const handleMintCapacityCreditForDelegatee = async (
+  delegatee: Delegatee
+) => {
+  try {
+    const options = await promptCapacityCreditMintOptions();
+
+    logger.loading('Minting capacity credit...');
+    const capacityCredit = await delegatee.awDelegatee.mintCapacityCredit(
+      options
+    );
+    logger.success(
+      `Successfully minted capacity credit ${capacityCredit.capacityTokenId}, expiring at ${capacityCredit.expiresAt}.`
+    );
+  } catch (error) {
+    if (error instanceof LawCliError) {
+      if (
+        error.type ===
+        ManageCapacityCreditsErrors.MINT_CAPACITY_CREDIT_CANCELLED
+      ) {
+        logger.error(error.message);
+        return;
+      }
+    }
+    throw error;
+  }
+};
+
+export const handleUseCapacityDelegation = async (delegatee: Delegatee) => {
+  try {
+    const capacityDelegation = await promptCapacityDelegation();
+
+    delegatee.awDelegatee.setCapacityDelegation(capacityDelegation);
+    logger.success(
+      `Using capacity credit ${capacityDelegation.capacityTokenId} delegated by the Admin until ${capacityDelegation.expiration}.`
+    );
+  } catch (error) {
+    if (error instanceof LawCliError) {
+      if (
+        error.type ===
+        ManageCapacityCreditsErrors.USE_CAPACITY_DELEGATION_CANCELLED
+      ) {
+        logger.error(error.message);
+        return;
+      }
+    }
+    throw error;
+  }
+};
+
+export const handleRemoveCapacityDelegation = async (delegatee: Delegatee) => {
+  if (delegatee.awDelegatee.getCapacityDelegation() === null) {
+    logger.log('No capacity credit delegated by the Admin is in use.');
+    return;
+  }
+
+  delegatee.awDelegatee.removeCapacityDelegation();
+  logger.success(
+    'Stopped using the capacity credit delegated by the Admin, your own capacity credit will be used instead.'
+  );
+};
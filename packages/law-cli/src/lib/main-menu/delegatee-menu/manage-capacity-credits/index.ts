@@ -0,0 +1,10 @@
+export {
+  handleDelegateeCapacityCreditsMenu,
+  DelegateeCapacityCreditsMenuChoice,
+} from './menu';
+export {
+  handleGetCapacityCreditsForDelegatee,
+  handleMintCapacityCreditForDelegatee,
+  handleUseCapacityDelegation,
+  handleRemoveCapacityDelegation,
+} from './handlers';
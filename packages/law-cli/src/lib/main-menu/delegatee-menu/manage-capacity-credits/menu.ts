@@ -0,0 +1,53 @@
+import prompts from 'prompts';
+
+import { GeneralErrors, LawCliError } from '../../../core';
+
+export enum DelegateeCapacityCreditsMenuChoice {
+  GetCapacityCredits = 'getCapacityCredits',
+  MintCapacityCredit = 'mintCapacityCredit',
+  UseCapacityDelegation = 'useCapacityDelegation',
+  RemoveCapacityDelegation = 'removeCapacityDelegation',
+  Back = 'back',
+}
+
+const choices = [
+  {
+    title: 'Get Capacity Credits',
+    value: DelegateeCapacityCreditsMenuChoice.GetCapacityCredits,
+  },
+  {
+    title: 'Mint New Capacity Credit',
+    value: DelegateeCapacityCreditsMenuChoice.MintCapacityCredit,
+  },
+  {
+    title: 'Use Capacity Credit Delegated by Admin',
+    value: DelegateeCapacityCreditsMenuChoice.UseCapacityDelegation,
+  },
+  {
+    title: 'Stop Using Capacity Credit Delegated by Admin',
+    value: DelegateeCapacityCreditsMenuChoice.RemoveCapacityDelegation,
+  },
+  {
+    title: 'Back',
+    value: DelegateeCapacityCreditsMenuChoice.Back,
+  },
+];
+
+export const handleDelegateeCapacityCreditsMenu =
+  async (): Promise<DelegateeCapacityCreditsMenuChoice> => {
+    const { option } = await prompts({
+      type: 'select',
+      name: 'option',
+      message: 'What would you like to do?',
+      choices,
+    });
+
+    if (!option) {
+      throw new LawCliError(
+        GeneralErrors.NO_ACTION_SELECTED,
+        'No action selected.'
+      );
+    }
+
+    return option;
+  };
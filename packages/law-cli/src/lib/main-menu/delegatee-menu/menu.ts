@@ -12,7 +12,9 @@ export enum DelegateeMenuChoice {
   GetToolPolicy = 'getToolPolicy',
   GetToolViaIntent = 'getToolViaIntent',
   ExecuteToolViaIntent = 'executeToolViaIntent',
+  SimulateTool = 'simulateTool',
   ExecuteTool = 'executeTool',
+  ManageCapacityCredits = 'manageCapacityCredits',
   Back = 'back',
 }
 
@@ -69,11 +71,23 @@ const promptDelegateeMenu = async (
         value: DelegateeMenuChoice.ExecuteToolViaIntent,
         disabled: disableManageOptions,
       },
+      {
+        title: 'Simulate Tool Using Agent Wallet',
+        description:
+          'Check if a tool execution would pass its policy, without signing or broadcasting',
+        value: DelegateeMenuChoice.SimulateTool,
+        disabled: disableManageOptions,
+      },
       {
         title: 'Execute Tool Using Agent Wallet',
         value: DelegateeMenuChoice.ExecuteTool,
         disabled: disableManageOptions,
       },
+      {
+        title: 'Manage Capacity Credits',
+        value: DelegateeMenuChoice.ManageCapacityCredits,
+        disabled: disableManageOptions,
+      },
       { title: 'Back', value: DelegateeMenuChoice.Back },
     ],
   });
@@ -0,0 +1,72 @@
+import {
+  AwSignerError,
+  ToolExecutionError,
+  type AwTool,
+  type DelegatedPkpInfo,
+} from '@lit-protocol/agent-wallet';
+
+import { Delegatee } from './delegatee';
+import { getToolCredentials } from './get-tool-credentials';
+import { logger } from '../../core';
+
+/**
+ * Simulates a tool for a PKP, and logs whether it would pass its policy and the pre-flight results.
+ */
+export const simulateAndLogTool = async (
+  delegatee: Delegatee,
+  pkp: DelegatedPkpInfo,
+  tool: AwTool<any, any>,
+  params: Record<string, any>
+) => {
+  try {
+    const credentials = await getToolCredentials(delegatee, tool);
+    const report = await delegatee.awDelegatee.simulateTool(
+      pkp.tokenId,
+      tool.ipfsCid,
+      { ...params, ...credentials }
+    );
+
+    if (report.passed) {
+      logger.success(
+        `${tool.name} would pass ${
+          report.policyIpfsCid
+            ? `policy ${report.policyIpfsCid}`
+            : 'without a policy'
+        } for PKP ${pkp.ethAddress}`
+      );
+      logger.info('Pre-flight results:');
+      Object.entries(report.preflight).forEach(([key, value]) => {
+        logger.log(
+          `  ${key}: ${
+            typeof value === 'object' ? JSON.stringify(value) : value
+          }`
+        );
+      });
+    } else if (report.stage === 'policy') {
+      logger.error(`${tool.name} would be rejected by its policy:`);
+      logger.log(`  ${report.error}`);
+    } else {
+      logger.error(`${tool.name} would fail before signing:`);
+      logger.log(`  ${report.error}`);
+    }
+
+    if (report.logs) {
+      logger.info('Lit Action logs:');
+      logger.log(report.logs);
+    }
+  } catch (error) {
+    if (error instanceof ToolExecutionError) {
+      logger.error(error.message);
+      if (error.logs) {
+        logger.info('Lit Action logs:');
+        logger.log(error.logs);
+      }
+      return;
+    }
+    if (error instanceof AwSignerError) {
+      logger.error(error.message);
+      return;
+    }
+    throw error;
+  }
+};